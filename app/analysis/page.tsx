@@ -1,10 +1,16 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { createSupabaseClient } from "@/lib/supabase/client";
 import type { Expense, Sale } from "@/lib/supabase";
-import { getYearMonthOptions, getMonthRange, getInitialDateRange, parseYearMonth } from "@/lib/dateUtils";
+import { getYearMonthOptions, getInitialDateRange, parseYearMonth } from "@/lib/dateUtils";
+import {
+  fetchFinancialSummary,
+  getCurrentMonthDateRange,
+  getYearMonthSpanDateRange,
+} from "@/lib/aggregation";
 import {
   LineChart,
   Line,
@@ -15,12 +21,18 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
-import { TrendingUp, TrendingDown, Wallet, Bot } from "lucide-react";
+import { TrendingUp, TrendingDown, Wallet, Bot, FileText } from "lucide-react";
 import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
 import ExpensePieChart from "@/components/ExpensePieChart";
 import ExportButton from "@/components/analysis/ExportButton";
 import BottomNav from "@/components/BottomNav";
 import { AIChatModal } from "@/components/ai-assistant";
+import { CropProfitSection } from "@/components/crop-profit";
+import { FieldMetricsSection } from "@/components/field-metrics";
+import { BudgetVsActualSection } from "@/components/budget";
+import { CashFlowForecastSection } from "@/components/cash-flow";
+import { YearOverYearSection } from "@/components/year-over-year";
 
 // 取引データの型定義（売上と経費を統合）
 type Transaction = {
@@ -62,6 +74,13 @@ export default function AnalysisPage() {
   const [endYear, setEndYear] = useState(initialRange.endYear);
   const [endMonth, setEndMonth] = useState(initialRange.endMonth);
 
+  // 月次推移の前年比較モード（さかのぼる年数はExcel出力にも使う）
+  const [isComparisonMode, setIsComparisonMode] = useState(false);
+  const [comparisonYears, setComparisonYears] = useState(1);
+
+  // 選択中の期間（作物別損益に渡す）
+  const selectedDateRange = getYearMonthSpanDateRange(startYear, startMonth, endYear, endMonth);
+
   // 通貨フォーマット関数
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("ja-JP", {
@@ -71,17 +90,6 @@ export default function AnalysisPage() {
     }).format(amount);
   };
 
-  // 今月の開始日と終了日を取得
-  const getCurrentMonthRange = () => {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = now.getMonth();
-    const startDate = new Date(year, month, 1).toISOString().split("T")[0];
-    const endDate = new Date(year, month + 1, 0).toISOString().split("T")[0];
-    return { startDate, endDate };
-  };
-
-
   // データ取得
   useEffect(() => {
     let isMounted = true;
@@ -94,31 +102,17 @@ export default function AnalysisPage() {
         // 認証対応のSupabaseクライアントを作成（RLSでユーザーのデータのみ取得可能）
         const supabase = createSupabaseClient();
 
-        const { startDate, endDate } = getCurrentMonthRange();
-
-        // 1. 今月のKPIデータを取得
-        const [salesResult, expensesResult] = await Promise.all([
-          supabase
-            .from("sales")
-            .select("amount")
-            .gte("date", startDate)
-            .lte("date", endDate),
-          supabase
-            .from("expenses")
-            .select("amount")
-            .gte("date", startDate)
-            .lte("date", endDate),
-        ]);
+        const { startDate, endDate } = getCurrentMonthDateRange();
 
-        if (salesResult.error) throw salesResult.error;
-        if (expensesResult.error) throw expensesResult.error;
-
-        const sales = salesResult.data?.reduce((sum, s) => sum + (s.amount || 0), 0) || 0;
-        const expenses = expensesResult.data?.reduce((sum, e) => sum + (e.amount || 0), 0) || 0;
-        const profit = sales - expenses;
+        // 1. 今月のKPIデータを取得（集計はデータベース側で実行）
+        const currentMonthSummary = await fetchFinancialSummary(supabase, startDate, endDate);
 
         if (!isMounted) return;
-        setKpiData({ sales, expenses, profit });
+        setKpiData({
+          sales: currentMonthSummary.totals.sales,
+          expenses: currentMonthSummary.totals.expenses,
+          profit: currentMonthSummary.totals.profit,
+        });
 
         // 2. 最近の取引を取得（売上と経費を統合）
         const [recentSalesResult, recentExpensesResult] = await Promise.all([
@@ -169,45 +163,27 @@ export default function AnalysisPage() {
         if (!isMounted) return;
         setRecentTransactions(allTransactions);
 
-        // 3. 選択された年月範囲の月次データを取得
-        const monthRanges = getMonthRange(startYear, startMonth, endYear, endMonth);
-        const monthlyPromises = monthRanges.map(async (range) => {
-          const [monthSalesResult, monthExpensesResult] = await Promise.all([
-            supabase
-              .from("sales")
-              .select("amount")
-              .gte("date", range.startDate)
-              .lte("date", range.endDate),
-            supabase
-              .from("expenses")
-              .select("amount")
-              .gte("date", range.startDate)
-              .lte("date", range.endDate),
-          ]);
-
-          if (monthSalesResult.error) throw monthSalesResult.error;
-          if (monthExpensesResult.error) throw monthExpensesResult.error;
-
-          const sales = monthSalesResult.data?.reduce((sum, s) => sum + (s.amount || 0), 0) || 0;
-          const expenses = monthExpensesResult.data?.reduce((sum, e) => sum + (e.amount || 0), 0) || 0;
-          const profit = sales - expenses;
-
-          return {
-            month: range.monthLabel,
-            monthKey: range.monthKey,
-            sales,
-            expenses,
-            profit,
-          };
-        });
-
-        const monthlyResults = await Promise.all(monthlyPromises);
+        // 3. 選択された年月範囲の月次データを取得（期間の長さに関係なく1回の呼び出し）
+        const selectedRange = getYearMonthSpanDateRange(startYear, startMonth, endYear, endMonth);
+        const rangeSummary = await fetchFinancialSummary(
+          supabase,
+          selectedRange.startDate,
+          selectedRange.endDate
+        );
 
         if (!isMounted) return;
-        setMonthlyData(monthlyResults);
-      } catch (err: any) {
+        setMonthlyData(
+          rangeSummary.monthly.map((month) => ({
+            month: month.monthLabel,
+            monthKey: month.monthKey,
+            sales: month.sales,
+            expenses: month.expenses,
+            profit: month.profit,
+          }))
+        );
+      } catch (err: unknown) {
         if (!isMounted) return;
-        setError(err.message || "データの取得に失敗しました");
+        setError(err instanceof Error ? err.message : "データの取得に失敗しました");
         console.error("データ取得エラー:", err);
       } finally {
         if (isMounted) {
@@ -230,13 +206,24 @@ export default function AnalysisPage() {
         <div className="container mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex h-16 items-center justify-between">
             <h1 className="text-xl font-bold">分析</h1>
-            {/* Excel出力ボタン（ヘッダー右側） */}
-            <ExportButton
-              startYear={startYear}
-              startMonth={startMonth}
-              endYear={endYear}
-              endMonth={endMonth}
-            />
+            <div className="flex items-center gap-2">
+              {/* 青色申告決算書ページへのリンク */}
+              <Link
+                href="/reports/tax-return"
+                className="flex items-center gap-1 min-h-[44px] px-3 text-sm rounded-md bg-white/20 border border-white/40 hover:bg-white/30"
+              >
+                <FileText className="h-4 w-4" />
+                決算書
+              </Link>
+              {/* Excel出力ボタン（ヘッダー右側） */}
+              <ExportButton
+                startYear={startYear}
+                startMonth={startMonth}
+                endYear={endYear}
+                endMonth={endMonth}
+                comparisonYears={isComparisonMode ? comparisonYears : undefined}
+              />
+            </div>
           </div>
         </div>
       </header>
@@ -340,7 +327,18 @@ export default function AnalysisPage() {
 
         {/* 2. 最近の取引一覧 */}
         <div className="mb-8">
-          <h2 className="text-2xl font-bold text-gray-900 mb-4">最近の取引</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold text-gray-900">最近の取引</h2>
+            {/* 全件の確認・修正は台帳ページで行う */}
+            <div className="flex gap-4 text-sm">
+              <Link href="/sales" className="text-green-600 hover:underline">
+                売上一覧
+              </Link>
+              <Link href="/expenses" className="text-green-600 hover:underline">
+                経費一覧
+              </Link>
+            </div>
+          </div>
           {loading ? (
             <Card className="animate-pulse">
               <CardContent className="p-6">
@@ -422,7 +420,29 @@ export default function AnalysisPage() {
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4">
             <div>
               <h2 className="text-2xl font-bold text-gray-900">月次収支推移</h2>
-              <p className="text-sm text-gray-600 mt-1">売上・経費・利益の推移</p>
+              <p className="text-sm text-gray-600 mt-1">
+                {isComparisonMode
+                  ? "前年の同じ月と比べた売上・経費・利益"
+                  : "売上・経費・利益の推移"}
+              </p>
+              {/* 表示モード（期間の推移 / 前年比較） */}
+              <div className="flex items-center gap-1 mt-2" role="group" aria-label="表示モード">
+                {[
+                  { value: false, label: "推移" },
+                  { value: true, label: "前年比較" },
+                ].map((option) => (
+                  <Button
+                    key={option.label}
+                    type="button"
+                    size="sm"
+                    variant={option.value === isComparisonMode ? "default" : "outline"}
+                    onClick={() => setIsComparisonMode(option.value)}
+                    className={option.value === isComparisonMode ? "bg-green-600 hover:bg-green-700" : ""}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
             </div>
             <div className="mt-4 sm:mt-0 flex flex-col sm:flex-row gap-4">
               <div className="flex items-center gap-2">
@@ -475,7 +495,16 @@ export default function AnalysisPage() {
               </div>
             </div>
           </div>
-          {loading ? (
+          {isComparisonMode ? (
+            <YearOverYearSection
+              startYear={startYear}
+              startMonth={startMonth}
+              endYear={endYear}
+              endMonth={endMonth}
+              comparisonYears={comparisonYears}
+              onComparisonYearsChange={setComparisonYears}
+            />
+          ) : loading ? (
             <Card className="animate-pulse">
               <CardContent className="p-6">
                 <div className="h-64 bg-gray-200 rounded"></div>
@@ -545,10 +574,36 @@ export default function AnalysisPage() {
           )}
         </div>
 
-        {/* 4. 今月の経費内訳 */}
+        {/* 4. 資金繰りの見通し（今月から12か月先まで） */}
+        <div className="mb-8">
+          <CashFlowForecastSection />
+        </div>
+
+        {/* 5. 作物別損益（月次推移と同じ期間） */}
+        <div className="mb-8">
+          <CropProfitSection
+            startDate={selectedDateRange.startDate}
+            endDate={selectedDateRange.endDate}
+          />
+        </div>
+
+        {/* 6. 圃場別（10アール当たり）の収量・売上・経費（月次推移と同じ期間） */}
+        <div className="mb-8">
+          <FieldMetricsSection
+            startDate={selectedDateRange.startDate}
+            endDate={selectedDateRange.endDate}
+          />
+        </div>
+
+        {/* 7. 今月の経費内訳 */}
         <div className="mb-8">
           <ExpensePieChart />
         </div>
+
+        {/* 8. 予算と実績（年単位） */}
+        <div className="mb-8">
+          <BudgetVsActualSection />
+        </div>
       </main>
 
       {/* AIアシスタント フローティングボタン（右下に固定表示） */}
@@ -8,16 +8,26 @@
  *
  * 処理の流れ:
  * 1. ユーザー認証を確認
- * 2. 使用制限をチェック（無料プラン: 月10回まで）
+ * 2. 使用回数を、上限の確認とあわせて1回分予約する（無料プラン: 月10回まで）
  * 3. ユーザーの経営データをSupabaseから取得
  * 4. データをコンテキストとしてOpenAI APIに送信
- * 5. AIの回答を返却
+ * 5. AIの回答を返却（回答を得られなかった場合は、予約した1回分を返却する）
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
-import { checkUsageLimit, incrementUsage } from "@/lib/subscription";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { reserveUsage, refundUsage, type UsageReservation } from "@/lib/subscription";
+import { getCurrentFarmId } from "@/lib/farms";
+import { fetchFinancialSummary, getYearMonthSpanDateRange } from "@/lib/aggregation";
+import {
+  allocateSharedCosts,
+  fetchCropProfitability,
+  toCropAllocationMethod,
+  CROP_ALLOCATION_METHODS,
+} from "@/lib/cropProfitability";
+import { BUDGET_STATUS_LABELS, fetchBudgetVsActual, getBudgetAlerts } from "@/lib/budget";
 
 /**
  * OpenAIクライアントを取得する関数
@@ -45,136 +55,91 @@ interface ChatMessage {
  * - AIが正確な回答をするために、ユーザーの実際のデータを提供
  * - 直近6ヶ月の売上・経費データを集計
  * - カテゴリ別の経費内訳も含める
+ * - 作物別損益（共通経費はユーザーが選んだ配賦方法で按分）も含める
+ * - 今年の予算超過・目標未達の科目・作物も含める（予算を登録している場合）
  */
 async function fetchUserBusinessData(
   supabase: ReturnType<typeof createSupabaseServerClient> extends Promise<infer T> ? T : never
 ): Promise<string> {
   const now = new Date();
 
-  // 直近6ヶ月分のデータを取得するための日付範囲
+  // 直近6ヶ月分（5ヶ月前の1日〜今月末日）の日付範囲
   const sixMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 5, 1);
-  const startDate = sixMonthsAgo.toISOString().split("T")[0];
-  const endDate = new Date(now.getFullYear(), now.getMonth() + 1, 0)
-    .toISOString()
-    .split("T")[0];
-
-  // 今月の範囲
-  const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1)
-    .toISOString()
-    .split("T")[0];
-  const currentMonthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0)
-    .toISOString()
-    .split("T")[0];
-
-  // 売上・経費データを並行取得
-  const [
-    salesResult,
-    expensesResult,
-    currentMonthSalesResult,
-    currentMonthExpensesResult,
-  ] = await Promise.all([
-    // 直近6ヶ月の売上
-    supabase
-      .from("sales")
-      .select("date, crop_name, amount")
-      .gte("date", startDate)
-      .lte("date", endDate)
-      .order("date", { ascending: false }),
-    // 直近6ヶ月の経費
-    supabase
-      .from("expenses")
-      .select("date, category, amount, description")
-      .gte("date", startDate)
-      .lte("date", endDate)
-      .order("date", { ascending: false }),
-    // 今月の売上
-    supabase
-      .from("sales")
-      .select("amount")
-      .gte("date", currentMonthStart)
-      .lte("date", currentMonthEnd),
-    // 今月の経費
-    supabase
-      .from("expenses")
-      .select("amount")
-      .gte("date", currentMonthStart)
-      .lte("date", currentMonthEnd),
+  const { startDate, endDate } = getYearMonthSpanDateRange(
+    sixMonthsAgo.getFullYear(),
+    sixMonthsAgo.getMonth() + 1,
+    now.getFullYear(),
+    now.getMonth() + 1
+  );
+
+  // 直近6ヶ月の集計をデータベース側で実行（RLSにより自分のデータのみ）
+  // 予算と実績は補足情報のため、取得に失敗しても他のデータで回答する
+  const [summary, cropSummary, profileResult, areasResult, budgetReport] = await Promise.all([
+    fetchFinancialSummary(supabase, startDate, endDate),
+    fetchCropProfitability(supabase, startDate, endDate),
+    supabase.from("user_profiles").select("crop_allocation_method").maybeSingle(),
+    supabase.from("crop_areas").select("crop_name, area_are"),
+    fetchBudgetVsActual(supabase, now.getFullYear(), now).catch((error) => {
+      console.error("予算と実績の取得エラー:", error);
+      return null;
+    }),
   ]);
 
-  // 今月の合計を計算
-  const currentMonthSales =
-    currentMonthSalesResult.data?.reduce(
-      (sum, s) => sum + (s.amount || 0),
-      0
-    ) || 0;
-  const currentMonthExpenses =
-    currentMonthExpensesResult.data?.reduce(
-      (sum, e) => sum + (e.amount || 0),
-      0
-    ) || 0;
-
-  // 直近6ヶ月の合計を計算
-  const totalSales =
-    salesResult.data?.reduce((sum, s) => sum + (s.amount || 0), 0) || 0;
-  const totalExpenses =
-    expensesResult.data?.reduce((sum, e) => sum + (e.amount || 0), 0) || 0;
-
-  // カテゴリ別の経費集計
-  const categoryMap = new Map<string, number>();
-  expensesResult.data?.forEach((expense) => {
-    const category = expense.category || "未分類";
-    const current = categoryMap.get(category) || 0;
-    categoryMap.set(category, current + expense.amount);
-  });
-
-  // カテゴリ別を金額順にソート
-  const sortedCategories = Array.from(categoryMap.entries())
-    .sort(([, amountA], [, amountB]) => amountB - amountA)
-    .map(([category, amount]) => `  ${category}: ¥${amount.toLocaleString()}`)
+  // 今月のサマリー（月別集計の最後の月 = 今月）
+  const currentMonth = summary.monthly[summary.monthly.length - 1];
+  const currentMonthSales = currentMonth?.sales || 0;
+  const currentMonthExpenses = currentMonth?.expenses || 0;
+
+  // 直近6ヶ月の合計
+  const totalSales = summary.totals.sales;
+  const totalExpenses = summary.totals.expenses;
+
+  // カテゴリ別の経費（金額順）
+  const sortedCategories = summary.categories
+    .map(({ category, amount }) => `  ${category}: ¥${amount.toLocaleString()}`)
     .join("\n");
 
-  // 月別の売上集計
-  const monthlySalesMap = new Map<string, number>();
-  salesResult.data?.forEach((sale) => {
-    const monthKey = sale.date.substring(0, 7);
-    const current = monthlySalesMap.get(monthKey) || 0;
-    monthlySalesMap.set(monthKey, current + sale.amount);
-  });
-
-  // 月別の経費集計
-  const monthlyExpensesMap = new Map<string, number>();
-  expensesResult.data?.forEach((expense) => {
-    const monthKey = expense.date.substring(0, 7);
-    const current = monthlyExpensesMap.get(monthKey) || 0;
-    monthlyExpensesMap.set(monthKey, current + expense.amount);
-  });
-
-  // 月別推移テキスト
-  const allMonthKeys = new Set([
-    ...monthlySalesMap.keys(),
-    ...monthlyExpensesMap.keys(),
-  ]);
-  const monthlyTrend = Array.from(allMonthKeys)
-    .sort()
-    .map((monthKey) => {
-      const sales = monthlySalesMap.get(monthKey) || 0;
-      const expenses = monthlyExpensesMap.get(monthKey) || 0;
-      return `  ${monthKey}: 売上¥${sales.toLocaleString()} / 経費¥${expenses.toLocaleString()} / 利益¥${(sales - expenses).toLocaleString()}`;
-    })
+  // 月別推移テキスト（取引がない月は省略）
+  const monthlyTrend = summary.monthly
+    .filter((month) => month.sales > 0 || month.expenses > 0)
+    .map(
+      (month) =>
+        `  ${month.monthKey}: 売上¥${month.sales.toLocaleString()} / 経費¥${month.expenses.toLocaleString()} / 利益¥${month.profit.toLocaleString()}`
+    )
     .join("\n");
 
-  // 主な作物（売上上位）
-  const cropMap = new Map<string, number>();
-  salesResult.data?.forEach((sale) => {
-    const crop = sale.crop_name || "不明";
-    const current = cropMap.get(crop) || 0;
-    cropMap.set(crop, current + sale.amount);
-  });
-  const topCrops = Array.from(cropMap.entries())
-    .sort(([, a], [, b]) => b - a)
+  // 主な作物（売上上位5つ）
+  const topCrops = summary.crops
     .slice(0, 5)
-    .map(([crop, amount]) => `  ${crop}: ¥${amount.toLocaleString()}`)
+    .map(({ cropName, amount }) => `  ${cropName}: ¥${amount.toLocaleString()}`)
+    .join("\n");
+
+  // 作物別損益（利益の大きい順。面積・配賦方法が取得できなければ初期値で計算）
+  const allocationMethod = toCropAllocationMethod(profileResult.data?.crop_allocation_method);
+  const cropAreas = new Map<string, number>(
+    (areasResult.data || []).map((cropArea) => [cropArea.crop_name, Number(cropArea.area_are)])
+  );
+  const cropProfit = allocateSharedCosts(cropSummary, allocationMethod, cropAreas)
+    .rows.map(
+      (row) =>
+        `  ${row.cropName}: 売上¥${row.revenue.toLocaleString()} / 直接費¥${row.directCosts.toLocaleString()} / 配賦費¥${row.allocatedCosts.toLocaleString()} / 利益¥${row.margin.toLocaleString()}`
+    )
     .join("\n");
+  const allocationLabel =
+    CROP_ALLOCATION_METHODS.find((method) => method.value === allocationMethod)?.label || "";
+
+  // 予算超過・ペース超過・目標未達の科目・作物（今年の今月まで）
+  const budgetAlerts = budgetReport
+    ? getBudgetAlerts(budgetReport)
+        .map(
+          (row) =>
+            `  【${BUDGET_STATUS_LABELS[row.status]}】${row.kind === "expense" ? "経費" : "売上"} ${row.label}: 年間${row.kind === "expense" ? "予算" : "目標"}¥${row.annualBudget.toLocaleString()} / 今月まで¥${row.budgetToDate.toLocaleString()} / 実績¥${row.actualToDate.toLocaleString()} / 差異¥${row.variance.toLocaleString()}`
+        )
+        .join("\n")
+    : "";
+  const hasBudget =
+    budgetReport !== null &&
+    [...budgetReport.expenseRows, ...budgetReport.salesRows].some((row) => row.annualBudget > 0);
 
   // テキストにまとめる
   return `
@@ -189,8 +154,8 @@ async function fetchUserBusinessData(
   売上合計: ¥${totalSales.toLocaleString()}
   経費合計: ¥${totalExpenses.toLocaleString()}
   利益: ¥${(totalSales - totalExpenses).toLocaleString()}
-  売上件数: ${salesResult.data?.length || 0}件
-  経費件数: ${expensesResult.data?.length || 0}件
+  売上件数: ${summary.totals.salesCount}件
+  経費件数: ${summary.totals.expenseCount}件
 
 ■ カテゴリ別経費（直近6ヶ月、金額順）:
 ${sortedCategories || "  データなし"}
@@ -200,6 +165,12 @@ ${monthlyTrend || "  データなし"}
 
 ■ 主な作物（売上上位）:
 ${topCrops || "  データなし"}
+
+■ 作物別損益（共通経費¥${cropSummary.sharedCosts.toLocaleString()}を${allocationLabel}で配賦）:
+${cropProfit || "  データなし"}
+
+■ 予算超過・目標未達（${now.getFullYear()}年1月〜${now.getMonth() + 1}月）:
+${budgetAlerts || (hasBudget ? "  なし（全て予算の範囲内・目標どおり）" : "  予算未登録")}
 `.trim();
 }
 
@@ -224,11 +195,25 @@ const SYSTEM_PROMPT = `あなたは農業経営の専門アドバイザーです
 - 回答は300文字以内を目安にしてください
 - データがない場合は「データが不足しています」と正直に伝えてください`;
 
+/**
+ * 予約したAIアシスタントの使用回数を返却する
+ * 返却に失敗してもエラーの応答は変えずに、ログにだけ記録する
+ */
+async function refundReservation(reservation: UsageReservation): Promise<void> {
+  try {
+    await refundUsage(createSupabaseAdminClient(), reservation);
+  } catch (refundError) {
+    console.error("AIアシスタント使用回数の返却に失敗しました:", refundError);
+  }
+}
+
 /**
  * POSTリクエストを処理
  * ユーザーの質問を受け取り、AIの回答を返す
  */
 export async function POST(request: NextRequest) {
+  let reservation: UsageReservation | null = null;
+
   try {
     // ========================================
     // Step 1: ログインユーザーの認証
@@ -247,32 +232,7 @@ export async function POST(request: NextRequest) {
     }
 
     // ========================================
-    // Step 2: 使用制限のチェック
-    // ========================================
-    const usageCheck = await checkUsageLimit(
-      supabase,
-      user.id,
-      "ai_assistant"
-    );
-
-    if (!usageCheck.allowed) {
-      return NextResponse.json(
-        {
-          error: `今月のAIアシスタント使用回数（${usageCheck.limit}回）に達しました。プランをアップグレードすると無制限で使用できます。`,
-          code: "USAGE_LIMIT_EXCEEDED",
-          usageInfo: {
-            currentUsage: usageCheck.currentUsage,
-            limit: usageCheck.limit,
-            remaining: usageCheck.remaining,
-            planType: usageCheck.planType,
-          },
-        },
-        { status: 403 }
-      );
-    }
-
-    // ========================================
-    // Step 3: リクエストの検証
+    // Step 2: リクエストの検証
     // ========================================
     const body = await request.json();
     const { message, conversationHistory } = body as {
@@ -296,18 +256,7 @@ export async function POST(request: NextRequest) {
     }
 
     // ========================================
-    // Step 4: ユーザーの経営データを取得
-    // ========================================
-    let businessDataContext = "";
-    try {
-      businessDataContext = await fetchUserBusinessData(supabase);
-    } catch (dataError) {
-      console.error("経営データ取得エラー:", dataError);
-      businessDataContext = "（経営データの取得に失敗しました。一般的なアドバイスで回答してください）";
-    }
-
-    // ========================================
-    // Step 5: OpenAI APIを呼び出し
+    // Step 3: OpenAI APIの準備
     // ========================================
     let openai: OpenAI;
     try {
@@ -322,6 +271,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // ========================================
+    // Step 4: 使用回数の予約
+    // ========================================
+    // 上限の確認と1回分のカウントアップを同時に行う（連続で送信しても上限を超えない）
+    // 使用回数は農場（現在の農場）単位で数える
+    const farmId = await getCurrentFarmId(supabase);
+    reservation = await reserveUsage(supabase, farmId, "ai_assistant");
+
+    if (!reservation.allowed) {
+      return NextResponse.json(
+        {
+          error: `今月のAIアシスタント使用回数（${reservation.limit}回）に達しました。プランをアップグレードすると無制限で使用できます。`,
+          code: "USAGE_LIMIT_EXCEEDED",
+          usageInfo: {
+            currentUsage: reservation.currentUsage,
+            limit: reservation.limit,
+            remaining: reservation.remaining,
+            planType: reservation.planType,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // ========================================
+    // Step 5: ユーザーの経営データを取得
+    // ========================================
+    let businessDataContext = "";
+    try {
+      businessDataContext = await fetchUserBusinessData(supabase);
+    } catch (dataError) {
+      console.error("経営データ取得エラー:", dataError);
+      businessDataContext = "（経営データの取得に失敗しました。一般的なアドバイスで回答してください）";
+    }
+
+    // ========================================
+    // Step 6: OpenAI APIを呼び出し
+    // ========================================
     // 会話履歴を構築（直近5往復まで保持してコンテキストを維持）
     const recentHistory = (conversationHistory || []).slice(-10);
     const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
@@ -354,37 +341,35 @@ export async function POST(request: NextRequest) {
     const assistantMessage = response.choices[0]?.message?.content;
 
     if (!assistantMessage) {
+      await refundReservation(reservation);
       return NextResponse.json(
         { error: "AIからの回答を取得できませんでした" },
         { status: 500 }
       );
     }
 
-    // ========================================
-    // Step 6: 使用回数をインクリメント
-    // ========================================
-    try {
-      await incrementUsage(supabase, user.id, "ai_assistant");
-    } catch (usageError) {
-      console.error("使用回数の更新に失敗しました:", usageError);
-    }
-
     // ========================================
     // Step 7: 結果を返却
     // ========================================
     return NextResponse.json({
       success: true,
       message: assistantMessage,
+      // 予約した時点で今回の使用を含めた回数になっている
       usageInfo: {
-        currentUsage: usageCheck.currentUsage + 1,
-        limit: usageCheck.limit,
-        remaining: usageCheck.remaining - 1,
-        planType: usageCheck.planType,
+        currentUsage: reservation.currentUsage,
+        limit: reservation.limit,
+        remaining: reservation.remaining,
+        planType: reservation.planType,
       },
     });
   } catch (error: unknown) {
     console.error("AIアシスタントAPIエラー:", error);
 
+    // 予約後にOpenAIの呼び出しなどで失敗した場合は、予約した1回分を返却する
+    if (reservation) {
+      await refundReservation(reservation);
+    }
+
     const errorObj = error as { status?: number; message?: string };
 
     if (errorObj?.status === 429) {
@@ -0,0 +1,238 @@
+/**
+ * Excel出力 APIエンドポイント
+ *
+ * ビジネス上の流れ:
+ * 1. フロントエンドから出力する期間（開始年月・終了年月）を受け取る
+ * 2. ログインユーザーの認証
+ * 3. 指定期間の売上・経費データを取得（データがなければ回数を数えずに終了）
+ * 4. エクスポートの使用回数を、上限の確認とあわせて1回分予約する（無料プラン: 月3回まで）
+ * 5. サーバーでExcelファイルを作成して返却（作成に失敗した場合は予約した1回分を返却）
+ *    前年比較モードで出力した場合は、指定した年数分さかのぼった同じ月との比較シートも加える
+ *
+ * 使用回数の確認とファイルの作成をサーバーで行うため、
+ * ブラウザの操作で出力回数の制限を回避することはできない
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { fetchAllPages } from "@/lib/supabase/pagination";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { reserveUsage, refundUsage, type UsageReservation } from "@/lib/subscription";
+import { getCurrentFarmId } from "@/lib/farms";
+import { getYearMonthSpanDateRange } from "@/lib/aggregation";
+import { buildExcelReport, type SaleRecord, type ExpenseRecord } from "@/lib/excelExport";
+import {
+  fetchYearOverYearComparison,
+  MAX_COMPARISON_YEARS,
+  type YearOverYearReport,
+} from "@/lib/yearOverYear";
+
+/**
+ * 年・月として正しい値かどうか
+ */
+function isValidYearMonth(year: unknown, month: unknown): year is number {
+  return (
+    Number.isInteger(year) &&
+    Number.isInteger(month) &&
+    (year as number) >= 2000 &&
+    (year as number) <= 2100 &&
+    (month as number) >= 1 &&
+    (month as number) <= 12
+  );
+}
+
+/**
+ * 予約したエクスポートの使用回数を返却する
+ * 返却に失敗してもエラーの応答は変えずに、ログにだけ記録する
+ */
+async function refundReservation(reservation: UsageReservation): Promise<void> {
+  try {
+    await refundUsage(createSupabaseAdminClient(), reservation);
+  } catch (refundError) {
+    console.error("エクスポート回数の返却に失敗しました:", refundError);
+  }
+}
+
+/**
+ * POSTリクエストを処理
+ * 指定期間の売上・経費をExcelファイルにして返す
+ *
+ * リクエスト: { startYear, startMonth, endYear, endMonth, comparisonYears? }
+ * （comparisonYears を指定すると、その年数分さかのぼった前年比較のシートを加える）
+ * レスポンス: xlsx ファイル（エラー時は { error, code } のJSON）
+ *
+ * 使用制限について：
+ * - 無料プラン: 月3回まで
+ * - 有料プラン: 無制限
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // ========================================
+    // Step 1: ログインユーザーの認証
+    // ========================================
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "ログインが必要です", code: "UNAUTHORIZED" },
+        { status: 401 }
+      );
+    }
+
+    // ========================================
+    // Step 2: リクエストの検証
+    // ========================================
+    const body = await request.json().catch(() => ({}));
+    const { startYear, startMonth, endYear, endMonth, comparisonYears } = body;
+
+    if (!isValidYearMonth(startYear, startMonth) || !isValidYearMonth(endYear, endMonth)) {
+      return NextResponse.json({ error: "出力する期間が正しくありません" }, { status: 400 });
+    }
+
+    if (
+      comparisonYears !== undefined &&
+      (!Number.isInteger(comparisonYears) ||
+        comparisonYears < 1 ||
+        comparisonYears > MAX_COMPARISON_YEARS)
+    ) {
+      return NextResponse.json({ error: "比較する年数が正しくありません" }, { status: 400 });
+    }
+
+    const { startDate, endDate } = getYearMonthSpanDateRange(
+      startYear,
+      startMonth,
+      endYear,
+      endMonth
+    );
+
+    if (startDate > endDate) {
+      return NextResponse.json(
+        { error: "開始年月は終了年月より前にしてください" },
+        { status: 400 }
+      );
+    }
+
+    // ========================================
+    // Step 3: データ取得
+    // ========================================
+    // 売上データと経費データを並行取得（RLSで自分のデータのみ）
+    // 1回の取得の上限（1000件）を超える期間も出力できるよう、範囲を区切って最後まで取得する
+    const [salesResult, expensesResult] = await Promise.all([
+      fetchAllPages<SaleRecord>((from, to) =>
+        supabase
+          .from("sales")
+          .select("id, date, crop_name, customer, unit_price, quantity, amount, tax_rate, tax_amount, description")
+          .gte("date", startDate)
+          .lte("date", endDate)
+          .order("date", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+      fetchAllPages<ExpenseRecord>((from, to) =>
+        supabase
+          .from("expenses")
+          .select("id, date, category, amount, tax_rate, tax_amount, invoice_registration_number, description")
+          .gte("date", startDate)
+          .lte("date", endDate)
+          .order("date", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      ),
+    ]);
+
+    if (salesResult.error) {
+      throw new Error(`売上データの取得に失敗: ${salesResult.error.message}`);
+    }
+    if (expensesResult.error) {
+      throw new Error(`経費データの取得に失敗: ${expensesResult.error.message}`);
+    }
+
+    const salesData: SaleRecord[] = salesResult.data || [];
+    const expensesData: ExpenseRecord[] = expensesResult.data || [];
+
+    // 前年比較モードの場合は、1年ずつ指定した年数分さかのぼった同じ月との比較も集計する
+    // （比較はデータベースの集計関数で合計するため、取引の件数が多くても上限で欠けない）
+    const comparison: YearOverYearReport | undefined =
+      comparisonYears !== undefined
+        ? await fetchYearOverYearComparison(
+            supabase,
+            startYear,
+            startMonth,
+            endYear,
+            endMonth,
+            comparisonYears
+          )
+        : undefined;
+
+    // データが0件の場合は使用回数を数えずに終了
+    if (salesData.length === 0 && expensesData.length === 0) {
+      return NextResponse.json(
+        { error: "指定期間にデータがありません", code: "NO_DATA" },
+        { status: 404 }
+      );
+    }
+
+    // ========================================
+    // Step 4: 使用回数の確認とカウントアップ
+    // ========================================
+    // 確認と1回分の予約を1つのトランザクションで行う（同時に出力しても上限を超えない）
+    // 使用回数は農場（現在の農場）単位で数える
+    const farmId = await getCurrentFarmId(supabase);
+    const usage = await reserveUsage(supabase, farmId, "export");
+
+    if (!usage.allowed) {
+      return NextResponse.json(
+        {
+          error: `今月のエクスポート回数（${usage.limit}回）に達しました。プランをアップグレードすると無制限で使用できます。`,
+          code: "USAGE_LIMIT_EXCEEDED",
+          usageInfo: {
+            currentUsage: usage.currentUsage,
+            limit: usage.limit,
+            remaining: usage.remaining,
+            planType: usage.planType,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // ========================================
+    // Step 5: Excelファイルを作成して返却
+    // ========================================
+    let report: ReturnType<typeof buildExcelReport>;
+    try {
+      report = buildExcelReport(
+        salesData,
+        expensesData,
+        `${startYear}年${startMonth}月`,
+        `${endYear}年${endMonth}月`,
+        comparison
+      );
+    } catch (error) {
+      // 出力できなかった1回分は数えない
+      await refundReservation(usage);
+      throw error;
+    }
+
+    const { fileName, content } = report;
+
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        // 日本語のファイル名は RFC 5987 形式で渡す（filename は古いブラウザ向けの代替名）
+        "Content-Disposition": `attachment; filename="report.xlsx"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Excel出力APIエラー:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Excel出力に失敗しました" },
+      { status: 500 }
+    );
+  }
+}
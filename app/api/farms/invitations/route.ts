@@ -0,0 +1,248 @@
+/**
+ * 農場への招待APIエンドポイント
+ *
+ * ビジネス上の流れ:
+ * 1. 農場のオーナーが設定画面で、メールアドレスと役割を入力して「招待する」をクリック
+ * 2. このAPIが招待を作成し（有効期限7日）、招待リンクを返す
+ *    - 登録済みのメールアドレス: 招待の受諾ページへのログインリンクをメールで送る
+ *    - まだ登録していないメールアドレス: メールは送らない（アカウントも作成しない）。
+ *      オーナーが招待リンクを相手に伝え、相手は新規登録してからリンクを開く
+ * 3. 招待されたユーザーがリンクを開くと、招待の受諾ページ（/invitations/[token]）に移動する
+ * 4. 受諾すると農場のメンバーになり、現在の農場がその農場に切り替わる
+ *
+ * 注意:
+ * - メールが届かなかった場合も、招待されたユーザーはログイン後にヘッダーの農場切り替えから参加できる
+ * - 招待メールはservice_roleで送るため、1ユーザーが1時間に送れる数と、
+ *   農場ごとの招待中の数を制限する（MAX_INVITATION_EMAILS_PER_HOUR / MAX_PENDING_INVITATIONS_PER_FARM）
+ *
+ * リクエスト: { email: string, role: "owner" | "bookkeeper" | "viewer" }
+ * レスポンス: { invitationId: string, emailSent: boolean, inviteUrl: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import {
+  canManageFarm,
+  getCurrentFarmAccess,
+  getInvitationAcceptPath,
+  isFarmRole,
+  MAX_INVITATION_EMAILS_PER_HOUR,
+  MAX_PENDING_INVITATIONS_PER_FARM,
+} from "@/lib/farms";
+
+// =============================================================================
+// ヘルパー関数
+// =============================================================================
+
+/** メールアドレスの簡易チェック（@の前後に文字があること） */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * 過去1時間にユーザーが送った招待メールの数を取得
+ *
+ * @param userId - 招待するユーザーのID
+ */
+async function countRecentInvitationEmails(userId: string): Promise<number> {
+  const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const { count, error } = await createSupabaseAdminClient()
+    .from("farm_invitation_email_logs")
+    .select("id", { count: "exact", head: true })
+    .eq("sent_by", userId)
+    .gte("sent_at", since);
+
+  if (error) {
+    console.error("招待メールの送信回数の取得エラー:", error);
+    throw new Error("招待の作成に失敗しました");
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * 招待メール（招待の受諾ページへのログインリンク）を送る
+ *
+ * 登録済みのユーザーにだけ送る（まだ登録していないメールアドレスにアカウントを作成しない）。
+ * 送信できたかどうかに関係なく、送信回数の制限のために記録する
+ *
+ * @param farmId - 招待する農場のID
+ * @param userId - 招待するユーザーのID
+ * @param email - 招待するメールアドレス
+ * @param redirectTo - メールのリンクを開いた後に移動するURL（招待の受諾ページ）
+ * @returns 送信できた場合は true（まだ登録していないメールアドレスの場合は false）
+ */
+async function sendInvitationEmail(
+  farmId: string,
+  userId: string,
+  email: string,
+  redirectTo: string
+): Promise<boolean> {
+  const admin = createSupabaseAdminClient();
+
+  const { error: logError } = await admin
+    .from("farm_invitation_email_logs")
+    .insert({ farm_id: farmId, sent_by: userId, email });
+
+  if (logError) {
+    console.error("招待メールの送信記録エラー:", logError);
+    return false;
+  }
+
+  const { error: otpError } = await admin.auth.signInWithOtp({
+    email,
+    options: {
+      shouldCreateUser: false,
+      emailRedirectTo: redirectTo,
+    },
+  });
+
+  if (otpError) {
+    console.error("招待メールの送信エラー:", otpError);
+    return false;
+  }
+
+  return true;
+}
+
+// =============================================================================
+// APIエンドポイント
+// =============================================================================
+
+/**
+ * POSTリクエストを処理
+ * 現在の農場への招待を作成し、招待メールを送る
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // -----------------------------------------------------------------------
+    // 1. ユーザー認証の確認
+    // -----------------------------------------------------------------------
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "ログインが必要です。先にログインしてください。" },
+        { status: 401 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 2. 農場のオーナーかどうかの確認
+    // -----------------------------------------------------------------------
+    const { farmId, role: currentRole } = await getCurrentFarmAccess(supabase);
+
+    if (!canManageFarm(currentRole)) {
+      return NextResponse.json(
+        { error: "メンバーの招待は農場のオーナーのみ行えます" },
+        { status: 403 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 3. リクエストボディの検証
+    // -----------------------------------------------------------------------
+    const body = await request.json();
+    const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+    const role = body.role;
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return NextResponse.json(
+        { error: "正しいメールアドレスを入力してください" },
+        { status: 400 }
+      );
+    }
+
+    if (!isFarmRole(role)) {
+      return NextResponse.json(
+        { error: "役割を選択してください（owner, bookkeeper, viewer のいずれか）" },
+        { status: 400 }
+      );
+    }
+
+    if (email === user.email?.toLowerCase()) {
+      return NextResponse.json(
+        { error: "自分自身は招待できません" },
+        { status: 400 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 4. 招待の数の制限
+    // -----------------------------------------------------------------------
+    const { count: pendingCount, error: pendingError } = await supabase
+      .from("farm_invitations")
+      .select("id", { count: "exact", head: true })
+      .eq("farm_id", farmId)
+      .is("accepted_at", null)
+      .gt("expires_at", new Date().toISOString());
+
+    if (pendingError) {
+      console.error("招待中の数の取得エラー:", pendingError);
+      throw new Error("招待の作成に失敗しました");
+    }
+
+    if ((pendingCount ?? 0) >= MAX_PENDING_INVITATIONS_PER_FARM) {
+      return NextResponse.json(
+        {
+          error: `招待中のメンバーは${MAX_PENDING_INVITATIONS_PER_FARM}件までです。不要な招待を取り消してください`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if ((await countRecentInvitationEmails(user.id)) >= MAX_INVITATION_EMAILS_PER_HOUR) {
+      return NextResponse.json(
+        { error: "短時間に多くの招待を送りました。しばらく時間をおいてから招待してください" },
+        { status: 429 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 5. 招待の作成（RLSでオーナーのみ作成可能）
+    // -----------------------------------------------------------------------
+    const { data: invitation, error: insertError } = await supabase
+      .from("farm_invitations")
+      .insert({
+        farm_id: farmId,
+        email,
+        role,
+        invited_by: user.id,
+      })
+      .select("id, token")
+      .single();
+
+    if (insertError || !invitation) {
+      console.error("招待の作成エラー:", insertError);
+      throw new Error("招待の作成に失敗しました");
+    }
+
+    // -----------------------------------------------------------------------
+    // 6. 招待メールの送信（登録済みのユーザーのみ）
+    // -----------------------------------------------------------------------
+    // アプリのベースURLを取得
+    const baseUrl =
+      process.env.NEXT_PUBLIC_APP_URL ||
+      (process.env.VERCEL_URL
+        ? `https://${process.env.VERCEL_URL}`
+        : "http://localhost:3000");
+
+    const inviteUrl = `${baseUrl}${getInvitationAcceptPath(invitation.token)}`;
+    const emailSent = await sendInvitationEmail(farmId, user.id, email, inviteUrl);
+
+    return NextResponse.json({ invitationId: invitation.id, emailSent, inviteUrl });
+  } catch (error: unknown) {
+    console.error("招待APIエラー:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error ? error.message : null) ||
+          "招待の作成中にエラーが発生しました",
+      },
+      { status: 500 }
+    );
+  }
+}
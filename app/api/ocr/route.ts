@@ -4,10 +4,10 @@
  * ビジネス上の流れ:
  * 1. フロントエンドからレシート画像（Base64形式）を受け取る
  * 2. ログインユーザーの認証とプラン確認
- * 3. 無料プランの場合、月間使用回数をチェック（50回/月まで）
+ * 3. 使用回数を、上限の確認とあわせて1回分予約する（無料プラン: 50回/月まで）
  * 4. OpenAI GPT-4o Visionを使って画像を解析
- * 5. レシートから「日付」「金額」「店舗名」「品目」を抽出
- * 6. 使用回数をカウントアップして保存
+ * 5. レシートから「日付」「金額」「店舗名」「品目」「登録番号」と明細行（品名・数量・単価・金額・税率）を抽出
+ * 6. 解析に失敗した場合は、予約した1回分を返却する
  * 7. 抽出したデータをJSON形式で返却
  * 
  * これにより、ユーザーは手入力の手間を省いて経費登録ができます
@@ -16,7 +16,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
-import { checkUsageLimit, incrementUsage } from "@/lib/subscription";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { reserveUsage, refundUsage, type UsageReservation } from "@/lib/subscription";
+import { getCurrentFarmId } from "@/lib/farms";
+import { normalizeInvoiceRegistrationNumber } from "@/lib/consumptionTax";
 
 /**
  * OpenAIクライアントを取得する関数
@@ -30,6 +33,30 @@ function getOpenAIClient(): OpenAI {
   return new OpenAI({ apiKey });
 }
 
+/**
+ * 予約したOCRの使用回数を返却する
+ * 返却に失敗してもエラーの応答は変えずに、ログにだけ記録する
+ */
+async function refundReservation(reservation: UsageReservation): Promise<void> {
+  try {
+    await refundUsage(createSupabaseAdminClient(), reservation);
+  } catch (refundError) {
+    console.error("OCR使用回数の返却に失敗しました:", refundError);
+  }
+}
+
+/**
+ * レシートの明細1行の型定義
+ */
+interface ReceiptOcrLineItem {
+  name: string;               // 品名
+  quantity: number | null;    // 数量
+  unitPrice: number | null;   // 単価
+  amount: number;             // 金額（レシートに印字された金額）
+  taxRate: number | null;     // 税率（8 または 10）
+  category: string | null;    // 推測される勘定科目
+}
+
 /**
  * OCR解析結果の型定義
  * レシートから抽出したいデータの構造
@@ -40,6 +67,9 @@ interface ReceiptOcrResult {
   storeName: string | null;   // 店舗名
   items: string | null;       // 購入品目（カンマ区切り）
   category: string | null;    // 推測される勘定科目
+  lineItems: ReceiptOcrLineItem[];      // 明細行
+  pricesIncludeTax: boolean | null;     // 明細の金額が税込か（外税表示なら false）
+  invoiceRegistrationNumber: string | null; // 適格請求書発行事業者の登録番号（T + 13桁）
 }
 
 /**
@@ -63,7 +93,16 @@ const OCR_PROMPT = `レシート画像から以下の情報をJSON形式で抽
 - amount: 税込合計金額（数値のみ。不明ならnull）
 - storeName: 店舗名（不明ならnull）
 - items: 主な品目（カンマ区切り、最大5つ。不明ならnull）
-- category: 以下の農業勘定科目から最適な1つを選択
+- category: 以下の農業勘定科目から、合計金額の大部分に当てはまる1つを選択
+- lineItems: 明細行の配列（値引き行は金額をマイナスにする）
+  - name: 品名
+  - quantity: 数量（不明ならnull）
+  - unitPrice: 単価（不明ならnull）
+  - amount: 金額（レシートに印字された金額のまま）
+  - taxRate: 税率（8または10。「※」「軽」などの軽減税率マークは8。不明ならnull）
+  - category: 以下の農業勘定科目から最適な1つを選択
+- pricesIncludeTax: 明細の金額が税込ならtrue、外税（小計の後に消費税を加算）ならfalse
+- invoiceRegistrationNumber: 適格請求書発行事業者の登録番号（「T」+13桁の数字。「登録番号」の近くに記載。なければnull）
 
 勘定科目一覧:
 販管費,種苗費,肥料費,農薬費,諸材料費,労務費,雑給,法定福利費,作業衣服費,作業委託費,貸借料,農地賃借料,共済仕掛け金,修繕費,動力光熱費,消耗品,車両費,燃料費,保険費,機械等経費,機械等減価償却費,雑費,租税公課,土地改良費,旅費交通費,広告宣伝費,支払い手数料,荷造運賃,梱包資材費
@@ -71,10 +110,64 @@ const OCR_PROMPT = `レシート画像から以下の情報をJSON形式で抽
 読み取りのヒント:
 - 合計金額は「合計」「計」「TOTAL」の近くにある数値
 - 日付は上部に記載されていることが多い
+- 小計・消費税・合計・お預り・お釣りの行は lineItems に含めない
 - 画像が不鮮明でも可能な限り読み取ってください
 
 JSONのみ返してください。説明文不要。
-例: {"date":"2024-01-15","amount":5000,"storeName":"○○農業資材店","items":"肥料,培養土","category":"肥料費"}`;
+例: {"date":"2024-01-15","amount":5500,"storeName":"○○農業資材店","items":"化成肥料,殺虫剤","category":"肥料費","lineItems":[{"name":"化成肥料","quantity":2,"unitPrice":1500,"amount":3000,"taxRate":10,"category":"肥料費"},{"name":"殺虫剤","quantity":1,"unitPrice":2000,"amount":2000,"taxRate":10,"category":"農薬費"}],"pricesIncludeTax":false,"invoiceRegistrationNumber":"T1234567890123"}`;
+
+/**
+ * 数値に変換できる値のみ数値として返す（それ以外は null）
+ */
+function toNumberOrNull(value: unknown): number | null {
+  const numberValue = typeof value === "string" ? Number(value.replace(/[,¥円]/g, "")) : value;
+  return typeof numberValue === "number" && Number.isFinite(numberValue) ? numberValue : null;
+}
+
+/**
+ * GPTの回答を ReceiptOcrResult の形に整える
+ *
+ * 明細行は項目の欠けや文字列の数値が混じることがあるため、
+ * 金額の読めない行は除き、税率は 8 / 10 以外を null にする
+ * 登録番号は「T + 13桁」に整え、桁数の合わない読み取り結果は null にする
+ */
+function normalizeOcrResult(parsed: Record<string, unknown>): ReceiptOcrResult {
+  const rawLineItems = Array.isArray(parsed.lineItems) ? parsed.lineItems : [];
+
+  const lineItems: ReceiptOcrLineItem[] = rawLineItems.flatMap((rawLineItem) => {
+    const lineItem = (rawLineItem ?? {}) as Record<string, unknown>;
+    const amount = toNumberOrNull(lineItem.amount);
+    if (amount === null) return [];
+
+    const taxRate = toNumberOrNull(lineItem.taxRate);
+    return [
+      {
+        name: typeof lineItem.name === "string" ? lineItem.name : "",
+        quantity: toNumberOrNull(lineItem.quantity),
+        unitPrice: toNumberOrNull(lineItem.unitPrice),
+        amount: Math.round(amount),
+        taxRate: taxRate === 8 || taxRate === 10 ? taxRate : null,
+        category: typeof lineItem.category === "string" ? lineItem.category : null,
+      },
+    ];
+  });
+
+  const amount = toNumberOrNull(parsed.amount);
+
+  return {
+    date: typeof parsed.date === "string" ? parsed.date : null,
+    amount: amount === null ? null : Math.round(amount),
+    storeName: typeof parsed.storeName === "string" ? parsed.storeName : null,
+    items: typeof parsed.items === "string" ? parsed.items : null,
+    category: typeof parsed.category === "string" ? parsed.category : null,
+    lineItems,
+    pricesIncludeTax: typeof parsed.pricesIncludeTax === "boolean" ? parsed.pricesIncludeTax : null,
+    invoiceRegistrationNumber:
+      typeof parsed.invoiceRegistrationNumber === "string"
+        ? normalizeInvoiceRegistrationNumber(parsed.invoiceRegistrationNumber)
+        : null,
+  };
+}
 
 /**
  * POSTリクエストを処理
@@ -85,6 +178,8 @@ JSONのみ返してください。説明文不要。
  * - 有料プラン: 無制限
  */
 export async function POST(request: NextRequest) {
+  let reservation: UsageReservation | null = null;
+
   try {
     // ========================================
     // Step 1: ログインユーザーの認証
@@ -105,31 +200,7 @@ export async function POST(request: NextRequest) {
     }
 
     // ========================================
-    // Step 2: 使用制限のチェック
-    // ========================================
-    // ユーザーのプランと今月の使用状況をチェック
-    const usageCheck = await checkUsageLimit(supabase, user.id, "ocr");
-
-    // 制限を超えている場合はアップグレードを促すエラーを返す
-    if (!usageCheck.allowed) {
-      return NextResponse.json(
-        {
-          error: `今月のOCR使用回数（${usageCheck.limit}回）に達しました。プランをアップグレードすると無制限で使用できます。`,
-          code: "USAGE_LIMIT_EXCEEDED",
-          // フロントエンドで残り回数を表示するための情報
-          usageInfo: {
-            currentUsage: usageCheck.currentUsage,
-            limit: usageCheck.limit,
-            remaining: usageCheck.remaining,
-            planType: usageCheck.planType,
-          },
-        },
-        { status: 403 }
-      );
-    }
-
-    // ========================================
-    // Step 3: リクエストの検証
+    // Step 2: リクエストの検証
     // ========================================
     // リクエストボディから画像データを取得
     const body = await request.json();
@@ -144,7 +215,7 @@ export async function POST(request: NextRequest) {
     }
 
     // ========================================
-    // Step 4: OpenAI APIの準備
+    // Step 3: OpenAI APIの準備
     // ========================================
     // OpenAIクライアントを取得（APIキーがない場合はエラー）
     let openai: OpenAI;
@@ -157,6 +228,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // ========================================
+    // Step 4: 使用回数の予約
+    // ========================================
+    // 上限の確認と1回分のカウントアップを同時に行う
+    // （一括OCRで同時に呼ばれても、数え漏れや上限超えが起きない）
+    // 使用回数は農場（現在の農場）単位で数える
+    const farmId = await getCurrentFarmId(supabase);
+    reservation = await reserveUsage(supabase, farmId, "ocr");
+
+    // 制限を超えている場合はアップグレードを促すエラーを返す
+    if (!reservation.allowed) {
+      return NextResponse.json(
+        {
+          error: `今月のOCR使用回数（${reservation.limit}回）に達しました。プランをアップグレードすると無制限で使用できます。`,
+          code: "USAGE_LIMIT_EXCEEDED",
+          // フロントエンドで残り回数を表示するための情報
+          usageInfo: {
+            currentUsage: reservation.currentUsage,
+            limit: reservation.limit,
+            remaining: reservation.remaining,
+            planType: reservation.planType,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // ========================================
+    // Step 5: レシート画像の解析
+    // ========================================
     // GPT-4o-mini Vision APIを呼び出してレシート画像を解析
     // gpt-4o-mini はgpt-4oより高速かつ低コスト（レシートOCRには十分な精度）
     const response = await openai.chat.completions.create({
@@ -184,7 +285,7 @@ export async function POST(request: NextRequest) {
           ],
         },
       ],
-      max_tokens: 300, // レシートOCRの結果はコンパクトなので300で十分
+      max_tokens: 1500, // 明細行を含めるため、明細の多いレシートでも収まる量を確保
       temperature: 0.1, // 低い温度で安定した出力を得る（OCRは創造性不要）
     });
 
@@ -192,6 +293,7 @@ export async function POST(request: NextRequest) {
     const resultText = response.choices[0]?.message?.content;
 
     if (!resultText) {
+      await refundReservation(reservation);
       return NextResponse.json(
         { error: "画像の解析に失敗しました" },
         { status: 500 }
@@ -204,12 +306,13 @@ export async function POST(request: NextRequest) {
       // JSONブロックを抽出（```json ... ``` 形式の場合も対応）
       const jsonMatch = resultText.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
-        ocrResult = JSON.parse(jsonMatch[0]);
+        ocrResult = normalizeOcrResult(JSON.parse(jsonMatch[0]));
       } else {
         throw new Error("JSONが見つかりません");
       }
     } catch (parseError) {
       console.error("JSON解析エラー:", parseError, "原文:", resultText);
+      await refundReservation(reservation);
       return NextResponse.json(
         { error: "レシートの解析結果を処理できませんでした" },
         { status: 500 }
@@ -217,31 +320,19 @@ export async function POST(request: NextRequest) {
     }
 
     // ========================================
-    // Step 6: 使用回数をインクリメント
-    // ========================================
-    // OCR処理が成功したので、使用回数を1増やす
-    // これにより次回の使用制限チェックに反映される
-    try {
-      await incrementUsage(supabase, user.id, "ocr");
-    } catch (usageError) {
-      // 使用回数の更新に失敗しても、OCR結果は返す（ユーザー体験を優先）
-      // ただしログには記録して、後で対応できるようにする
-      console.error("使用回数の更新に失敗しました:", usageError);
-    }
-
-    // ========================================
-    // Step 7: 結果を返却
+    // Step 6: 結果を返却
     // ========================================
     // 正常に解析できた場合、結果と残り使用回数を返す
     return NextResponse.json({
       success: true,
       data: ocrResult,
       // フロントエンドで残り回数を表示するための情報
+      // （予約した時点で今回の使用を含めた回数になっている）
       usageInfo: {
-        currentUsage: usageCheck.currentUsage + 1, // 今回の使用を含める
-        limit: usageCheck.limit,
-        remaining: usageCheck.remaining - 1, // 今回の使用を引く
-        planType: usageCheck.planType,
+        currentUsage: reservation.currentUsage,
+        limit: reservation.limit,
+        remaining: reservation.remaining,
+        planType: reservation.planType,
       },
     });
 
@@ -249,6 +340,11 @@ export async function POST(request: NextRequest) {
     // エラーの詳細をログに記録
     console.error("OCR APIエラー:", error);
 
+    // 予約後にOpenAIの呼び出しなどで失敗した場合は、予約した1回分を返却する
+    if (reservation) {
+      await refundReservation(reservation);
+    }
+
     // OpenAI APIのエラーを詳細に返す
     if (error?.status === 401) {
       return NextResponse.json(
@@ -0,0 +1,74 @@
+/**
+ * 定期的な取引の作成APIエンドポイント（定期実行用）
+ *
+ * ビジネス上の流れ:
+ * 1. ユーザーが設定画面で定期的な取引（農地賃借料・保険料など）を登録する
+ * 2. スケジューラーが1日1回このAPIを呼び出し、すべての農場の予定日を過ぎた取引を
+ *    「確認待ち」の経費・売上として作成する
+ * 3. ユーザーはダッシュボードで確認待ちの取引を確定・スキップする
+ *
+ * 呼び出し方（スケジューラー・運営者のみ）:
+ *   curl -X POST https://<アプリのURL>/api/recurring/materialize \
+ *     -H "Authorization: Bearer $CRON_SECRET"
+ *
+ * 注意:
+ * - 定期実行を設定していない場合も、ログイン時に現在の農場の分が作成される
+ *
+ * セキュリティ:
+ * - 環境変数 CRON_SECRET と一致するトークンを持つリクエストのみ受け付ける
+ * - 未設定の場合はこのAPIを無効にする
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { isAuthorizedOperatorRequest } from "@/lib/operatorAuth";
+import { materializeRecurringEntries } from "@/lib/recurring";
+
+// =============================================================================
+// APIエンドポイント
+// =============================================================================
+
+/**
+ * POSTリクエストを処理
+ * 予定日を過ぎた定期的な取引を経費・売上として作成し、件数を返す
+ *
+ * レスポンス: { createdCount: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // -----------------------------------------------------------------------
+    // 1. スケジューラー・運営者の確認
+    // -----------------------------------------------------------------------
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret) {
+      return NextResponse.json(
+        { error: "CRON_SECRET が設定されていません" },
+        { status: 503 }
+      );
+    }
+
+    if (!isAuthorizedOperatorRequest(request.headers.get("authorization"), secret)) {
+      return NextResponse.json({ error: "認証に失敗しました" }, { status: 401 });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2. 予定日を過ぎた定期的な取引を作成する
+    // -----------------------------------------------------------------------
+    const createdCount = await materializeRecurringEntries(createSupabaseAdminClient());
+
+    console.log(`定期的な取引から経費・売上を ${createdCount} 件作成しました`);
+
+    return NextResponse.json({ createdCount });
+  } catch (error: unknown) {
+    console.error("定期的な取引の作成エラー:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error ? error.message : null) ||
+          "定期的な取引の作成中にエラーが発生しました",
+      },
+      { status: 500 }
+    );
+  }
+}
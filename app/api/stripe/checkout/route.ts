@@ -7,12 +7,31 @@
  * 3. ユーザーはStripeの決済ページにリダイレクトされる
  * 4. 決済完了後、指定した成功URLに戻ってくる
  *
+ * 無料体験・クーポン:
+ * - 初回申し込みの場合は、プランごとの日数の無料体験を付ける（lib/plans.ts の trialDays）
+ * - 料金ページで入力されたクーポン（Stripeのプロモーションコード）を割引として適用する
+ *
+ * 請求先:
+ * - 宛名・住所を入力してもらい、Stripeの顧客情報に保存する（請求書・領収書に記載される）
+ *
+ * 農場（ワークスペース）:
+ * - プランは現在の農場に対して契約する（農場のメンバー全員が有料プランの機能を使える）
+ * - 申し込めるのは農場のオーナーのみ
+ *
  * これにより、ユーザーはクレジットカード情報を安全にStripe上で入力できます
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
-import { getStripeClient, STRIPE_PRICE_IDS, type PlanType } from "@/lib/stripe";
+import {
+  getStripeClient,
+  isPurchasablePlanType,
+  STRIPE_PRICE_IDS,
+  type PaidPlanType,
+} from "@/lib/stripe";
+import { getPlanDefinition } from "@/lib/plans";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { canManageFarm, getCurrentFarmAccess } from "@/lib/farms";
 
 // =============================================================================
 // 型定義
@@ -22,8 +41,10 @@ import { getStripeClient, STRIPE_PRICE_IDS, type PlanType } from "@/lib/stripe";
  * リクエストボディの型
  */
 interface CheckoutRequestBody {
-  /** 購入するプランのタイプ（standard, premium, pro_yearly） */
-  planType: "standard" | "premium" | "pro_yearly";
+  /** 購入するプランのタイプ（プランカタログの有料プラン） */
+  planType: PaidPlanType;
+  /** クーポン（プロモーションコード）。入力がない場合は省略 */
+  promotionCode?: string;
 }
 
 // =============================================================================
@@ -31,17 +52,19 @@ interface CheckoutRequestBody {
 // =============================================================================
 
 /**
- * ユーザーのStripe Customer IDを取得または新規作成
+ * 農場のStripe Customer IDを取得または新規作成
  *
  * ビジネス上の役割：
  * - 既存のStripe顧客がいればそのIDを使用（重複顧客を防ぐ）
- * - 初めての決済の場合は新規顧客を作成
+ * - 初めての決済の場合は新規顧客を作成（請求先のメールアドレスは申し込んだオーナー）
  *
- * @param userId - SupabaseのユーザーID
+ * @param farmId - 農場ID
+ * @param userId - 申し込んだユーザーのID
  * @param userEmail - ユーザーのメールアドレス
  * @returns Stripe Customer ID
  */
 async function getOrCreateStripeCustomer(
+  farmId: string,
   userId: string,
   userEmail: string
 ): Promise<string> {
@@ -52,7 +75,7 @@ async function getOrCreateStripeCustomer(
   const { data: subscription } = await supabase
     .from("subscriptions")
     .select("stripe_customer_id")
-    .eq("user_id", userId)
+    .eq("farm_id", farmId)
     .single();
 
   // 既存のCustomer IDがあればそれを返す
@@ -61,27 +84,26 @@ async function getOrCreateStripeCustomer(
   }
 
   // 新規顧客を作成
-  // metadata にSupabaseのユーザーIDを保存（後でWebhookで紐づけに使用）
+  // metadata に農場IDとユーザーIDを保存（後でWebhookで紐づけに使用）
   const customer = await stripe.customers.create({
     email: userEmail,
     metadata: {
+      supabase_farm_id: farmId,
       supabase_user_id: userId,
     },
   });
 
   // subscriptionsテーブルにCustomer IDを保存
-  // upsert を使用して、レコードがなければ作成、あれば更新
-  await supabase.from("subscriptions").upsert(
-    {
-      user_id: userId,
-      stripe_customer_id: customer.id,
-      plan_type: "free",
-      status: "active",
-    },
-    {
-      onConflict: "user_id",
-    }
-  );
+  // （サブスクリプションの行は農場の作成時に作られている。
+  //   ユーザーは更新できないため、service_roleで更新する）
+  const { error } = await createSupabaseAdminClient()
+    .from("subscriptions")
+    .update({ stripe_customer_id: customer.id })
+    .eq("farm_id", farmId);
+
+  if (error) {
+    console.error("Customer IDの保存エラー:", error);
+  }
 
   return customer.id;
 }
@@ -93,7 +115,7 @@ async function getOrCreateStripeCustomer(
  * @returns Stripe Price ID
  * @throws プランタイプが不正な場合
  */
-function getPriceIdForPlan(planType: "standard" | "premium" | "pro_yearly"): string {
+function getPriceIdForPlan(planType: PaidPlanType): string {
   const priceId = STRIPE_PRICE_IDS[planType];
   if (!priceId) {
     throw new Error(`不正なプランタイプ: ${planType}`);
@@ -101,6 +123,56 @@ function getPriceIdForPlan(planType: "standard" | "premium" | "pro_yearly"): str
   return priceId;
 }
 
+/**
+ * 申し込みに付ける無料体験の日数を取得
+ *
+ * ビジネス上の役割：
+ * - 無料体験は1農場1回まで（一度でも無料体験を始めた農場には付けない）
+ * - さらに1ユーザー1回まで（農場を作り直して無料体験を繰り返し受けられないよう、
+ *   申し込むユーザーが作成・申し込みした農場で無料体験を始めていれば付けない）
+ *
+ * @param farmId - 農場ID
+ * @param planType - 申し込むプラン
+ * @returns 無料体験の日数（付けない場合は0）
+ */
+async function getTrialDaysForFarm(farmId: string, planType: PaidPlanType): Promise<number> {
+  const { trialDays } = getPlanDefinition(planType);
+  if (trialDays <= 0) {
+    return 0;
+  }
+
+  const supabase = await createSupabaseServerClient();
+  const [{ data: subscription }, { data: userTrialUsed, error: userTrialError }] = await Promise.all([
+    supabase.from("subscriptions").select("trial_used").eq("farm_id", farmId).maybeSingle(),
+    supabase.rpc("has_used_trial"),
+  ]);
+
+  if (userTrialError) {
+    // 判定できない場合は無料体験を付けない（繰り返し受けられないことを優先）
+    console.error("無料体験の利用状況の取得エラー:", userTrialError);
+    return 0;
+  }
+
+  return subscription?.trial_used || userTrialUsed === true ? 0 : trialDays;
+}
+
+/**
+ * クーポン（プロモーションコード）の文字列から、StripeのプロモーションコードIDを取得
+ *
+ * @param code - ユーザーが入力したコード
+ * @returns プロモーションコードID（見つからない・有効期限切れの場合は null）
+ */
+async function findPromotionCodeId(code: string): Promise<string | null> {
+  const stripe = getStripeClient();
+  const promotionCodes = await stripe.promotionCodes.list({
+    code,
+    active: true,
+    limit: 1,
+  });
+
+  return promotionCodes.data[0]?.id ?? null;
+}
+
 // =============================================================================
 // APIエンドポイント
 // =============================================================================
@@ -128,36 +200,62 @@ export async function POST(request: NextRequest) {
     }
 
     // -----------------------------------------------------------------------
-    // 2. リクエストボディの検証
+    // 2. 農場のオーナーかどうかの確認
+    // -----------------------------------------------------------------------
+    const { farmId, role } = await getCurrentFarmAccess(supabase);
+
+    if (!canManageFarm(role)) {
+      return NextResponse.json(
+        { error: "プランの申し込みは農場のオーナーのみ行えます" },
+        { status: 403 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 3. リクエストボディの検証
     // -----------------------------------------------------------------------
     const body: CheckoutRequestBody = await request.json();
     const { planType } = body;
+    const promotionCode =
+      typeof body.promotionCode === "string" ? body.promotionCode.trim() : "";
 
     // プランタイプの妥当性チェック
-    if (!planType || !["standard", "premium", "pro_yearly"].includes(planType)) {
+    if (!isPurchasablePlanType(planType)) {
       return NextResponse.json(
         {
           error:
             "有効なプランを選択してください。" +
-            "（standard, premium, pro_yearly のいずれか）",
+            `（${Object.keys(STRIPE_PRICE_IDS).join(", ")} のいずれか）`,
         },
         { status: 400 }
       );
     }
 
+    // クーポンが入力された場合は、有効なコードか確認
+    const promotionCodeId = promotionCode ? await findPromotionCodeId(promotionCode) : null;
+
+    if (promotionCode && !promotionCodeId) {
+      return NextResponse.json(
+        { error: "クーポンコードが見つからないか、有効期限が切れています" },
+        { status: 400 }
+      );
+    }
+
     // -----------------------------------------------------------------------
-    // 3. Stripe Customer IDの取得/作成
+    // 4. Stripe Customer IDの取得/作成
     // -----------------------------------------------------------------------
     const customerId = await getOrCreateStripeCustomer(
+      farmId,
       user.id,
       user.email || ""
     );
 
     // -----------------------------------------------------------------------
-    // 4. Checkout Sessionの作成
+    // 5. Checkout Sessionの作成
     // -----------------------------------------------------------------------
     const stripe = getStripeClient();
     const priceId = getPriceIdForPlan(planType);
+    const trialDays = await getTrialDaysForFarm(farmId, planType);
 
     // アプリのベースURLを取得（環境変数または推測）
     const baseUrl =
@@ -193,13 +291,28 @@ export async function POST(request: NextRequest) {
       // メタデータ（Webhookで使用）
       subscription_data: {
         metadata: {
+          supabase_farm_id: farmId,
           supabase_user_id: user.id,
           plan_type: planType,
         },
+        // 初回申し込みの場合は無料体験を付ける
+        ...(trialDays > 0 ? { trial_period_days: trialDays } : {}),
       },
 
-      // 請求先住所を収集しない（日本国内のみサービス提供の場合）
-      billing_address_collection: "auto",
+      // 料金ページで入力されたクーポンを適用
+      // （入力がない場合は、Stripeの決済ページでもクーポンを入力できるようにする）
+      ...(promotionCodeId
+        ? { discounts: [{ promotion_code: promotionCodeId }] }
+        : { allow_promotion_codes: true }),
+
+      // 請求先の住所を必ず入力してもらう（インボイス制度の請求書・領収書の宛名に使用）
+      billing_address_collection: "required",
+
+      // 入力された宛名・住所を顧客情報に保存し、以降の請求書にも記載する
+      customer_update: {
+        name: "auto",
+        address: "auto",
+      },
 
       // 自動で税金計算をしない（日本の消費税は価格に含める）
       automatic_tax: { enabled: false },
@@ -209,7 +322,7 @@ export async function POST(request: NextRequest) {
     });
 
     // -----------------------------------------------------------------------
-    // 5. 決済ページURLを返す
+    // 6. 決済ページURLを返す
     // -----------------------------------------------------------------------
     return NextResponse.json({
       success: true,
@@ -0,0 +1,92 @@
+/**
+ * Stripe Webhook イベントのリプレイ（再処理）APIエンドポイント
+ *
+ * ビジネス上の流れ:
+ * 1. Price IDの設定漏れなどで、Webhookイベントの処理が失敗する（stripe_events に 'failed' で記録）
+ * 2. 運営者が原因を直した後、このAPIを呼び出す
+ * 3. 保存しておいたイベントの内容で、失敗したイベントを古い順に再処理する
+ *
+ * 呼び出し方（運営者のみ）:
+ *   curl -X POST https://<アプリのURL>/api/stripe/events/replay \
+ *     -H "Authorization: Bearer $STRIPE_EVENT_REPLAY_SECRET" \
+ *     -H "Content-Type: application/json" \
+ *     -d '{"eventIds": ["evt_xxx"]}'   # 省略時は失敗したイベントをすべて（最大50件）
+ *
+ * セキュリティ:
+ * - 環境変数 STRIPE_EVENT_REPLAY_SECRET と一致するトークンを持つリクエストのみ受け付ける
+ * - 未設定の場合はこのAPIを無効にする
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { isAuthorizedOperatorRequest } from "@/lib/operatorAuth";
+import { replayFailedStripeEvents } from "@/lib/stripeEvents";
+
+// =============================================================================
+// APIエンドポイント
+// =============================================================================
+
+/**
+ * POSTリクエストを処理
+ * 失敗したStripeイベントを再処理し、イベントごとの結果を返す
+ *
+ * リクエスト: { eventIds?: string[] }
+ * レスポンス: { results: [{ eventId, status, error? }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // -----------------------------------------------------------------------
+    // 1. 運営者の確認
+    // -----------------------------------------------------------------------
+    const secret = process.env.STRIPE_EVENT_REPLAY_SECRET;
+
+    if (!secret) {
+      return NextResponse.json(
+        { error: "STRIPE_EVENT_REPLAY_SECRET が設定されていません" },
+        { status: 503 }
+      );
+    }
+
+    if (!isAuthorizedOperatorRequest(request.headers.get("authorization"), secret)) {
+      return NextResponse.json({ error: "認証に失敗しました" }, { status: 401 });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2. リクエストの検証
+    // -----------------------------------------------------------------------
+    const body = await request.json().catch(() => ({}));
+    const { eventIds } = body as { eventIds?: unknown };
+
+    if (
+      eventIds !== undefined &&
+      (!Array.isArray(eventIds) || !eventIds.every((id) => typeof id === "string"))
+    ) {
+      return NextResponse.json(
+        { error: "eventIds はイベントIDの配列で指定してください" },
+        { status: 400 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 3. 失敗したイベントを再処理
+    // -----------------------------------------------------------------------
+    const results = await replayFailedStripeEvents(
+      createSupabaseAdminClient(),
+      eventIds as string[] | undefined
+    );
+
+    console.log(`Stripeイベントを ${results.length} 件再処理しました`);
+
+    return NextResponse.json({ results });
+  } catch (error: unknown) {
+    console.error("Stripeイベント再処理エラー:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error ? error.message : null) ||
+          "イベントの再処理中にエラーが発生しました",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * 請求履歴APIエンドポイント
+ *
+ * ビジネス上の流れ:
+ * 1. 農場のオーナーが設定画面の「請求履歴」を開く
+ * 2. このAPIが、保存しているStripe Customer IDで請求書の一覧をStripeから取得する
+ * 3. 請求日・金額・状態と、請求書（領収書）PDFへのリンクを返す
+ *
+ * インボイス制度への対応:
+ * - 発行事業者の登録番号と、請求先（宛名・住所）をあわせて返し、画面に表示する
+ *
+ * レスポンス: { invoices: BillingInvoice[], billingDetails: BillingDetails | null, registrationNumber }
+ */
+
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { canManageFarm, getCurrentFarmAccess } from "@/lib/farms";
+import {
+  getBillingDetails,
+  getInvoiceRegistrationNumber,
+  listBillingInvoices,
+} from "@/lib/invoices";
+
+// =============================================================================
+// APIエンドポイント
+// =============================================================================
+
+/**
+ * GETリクエストを処理
+ * 現在の農場の請求履歴を返す
+ */
+export async function GET() {
+  try {
+    // -----------------------------------------------------------------------
+    // 1. ユーザー認証の確認
+    // -----------------------------------------------------------------------
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "ログインが必要です。先にログインしてください。" },
+        { status: 401 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 2. 農場のオーナーかどうかの確認（請求先の住所を含むため）
+    // -----------------------------------------------------------------------
+    const { farmId, role } = await getCurrentFarmAccess(supabase);
+
+    if (!canManageFarm(role)) {
+      return NextResponse.json(
+        { error: "請求履歴は農場のオーナーのみ確認できます" },
+        { status: 403 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 3. 農場のStripe Customer IDの取得
+    // -----------------------------------------------------------------------
+    const { data: subscription, error: subscriptionError } = await supabase
+      .from("subscriptions")
+      .select("stripe_customer_id")
+      .eq("farm_id", farmId)
+      .maybeSingle();
+
+    if (subscriptionError) {
+      console.error("サブスクリプション取得エラー:", subscriptionError);
+      throw new Error("サブスクリプション情報の取得に失敗しました");
+    }
+
+    const registrationNumber = getInvoiceRegistrationNumber();
+
+    // 一度も有料プランを申し込んでいない場合は、請求履歴なし
+    if (!subscription?.stripe_customer_id) {
+      return NextResponse.json({
+        invoices: [],
+        billingDetails: null,
+        registrationNumber,
+      });
+    }
+
+    // -----------------------------------------------------------------------
+    // 4. 請求履歴と請求先の取得
+    // -----------------------------------------------------------------------
+    const [invoices, billingDetails] = await Promise.all([
+      listBillingInvoices(subscription.stripe_customer_id),
+      getBillingDetails(subscription.stripe_customer_id),
+    ]);
+
+    return NextResponse.json({ invoices, billingDetails, registrationNumber });
+  } catch (error: unknown) {
+    console.error("請求履歴取得エラー:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error ? error.message : null) ||
+          "請求履歴の取得中にエラーが発生しました",
+      },
+      { status: 500 }
+    );
+  }
+}
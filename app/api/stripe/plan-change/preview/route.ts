@@ -0,0 +1,100 @@
+/**
+ * プラン変更の金額プレビューAPIエンドポイント
+ *
+ * ビジネス上の流れ:
+ * 1. 有料プランを契約中のユーザーが、料金ページで別の有料プランを選ぶ
+ * 2. このAPIで、切り替えのタイミングと請求される金額（日割りの差額）を確認する
+ *    - アップグレード: Stripeの請求書プレビューで、今回請求される金額を計算
+ *    - ダウングレード: 現在の契約期間の終了日と、次回からの請求額
+ * 3. ユーザーが内容を確認して /api/stripe/plan-change で変更する
+ *
+ * リクエスト: { planType, timing? }
+ * レスポンス: PlanChangePreview（lib/planChange.ts）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { canManageFarm, getCurrentFarmAccess } from "@/lib/farms";
+import { isPurchasablePlanType, STRIPE_PRICE_IDS } from "@/lib/stripe";
+import { isPlanChangeTiming, PlanChangeError, previewPlanChange } from "@/lib/planChange";
+
+/**
+ * POSTリクエストを処理
+ * プラン変更で請求される金額を返す（プランは変更しない）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // -----------------------------------------------------------------------
+    // 1. ユーザー認証の確認
+    // -----------------------------------------------------------------------
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "ログインが必要です。先にログインしてください。" },
+        { status: 401 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 2. 農場のオーナーかどうかの確認
+    // -----------------------------------------------------------------------
+    const { farmId, role } = await getCurrentFarmAccess(supabase);
+
+    if (!canManageFarm(role)) {
+      return NextResponse.json(
+        { error: "プランの変更は農場のオーナーのみ行えます" },
+        { status: 403 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 3. リクエストボディの検証
+    // -----------------------------------------------------------------------
+    const body = await request.json().catch(() => ({}));
+    const { planType, timing } = body as { planType?: unknown; timing?: unknown };
+
+    if (!isPurchasablePlanType(planType)) {
+      return NextResponse.json(
+        {
+          error:
+            "変更先の有料プランを選択してください。" +
+            `（${Object.keys(STRIPE_PRICE_IDS).join(", ")} のいずれか）`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (timing !== undefined && !isPlanChangeTiming(timing)) {
+      return NextResponse.json(
+        { error: "timing は immediate または period_end で指定してください" },
+        { status: 400 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 4. 金額のプレビュー
+    // -----------------------------------------------------------------------
+    const preview = await previewPlanChange(supabase, farmId, planType, timing);
+
+    return NextResponse.json(preview);
+  } catch (error: unknown) {
+    if (error instanceof PlanChangeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("プラン変更プレビューエラー:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error ? error.message : null) ||
+          "プラン変更の金額の計算中にエラーが発生しました",
+      },
+      { status: 500 }
+    );
+  }
+}
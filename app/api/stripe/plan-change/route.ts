@@ -0,0 +1,129 @@
+/**
+ * プラン変更（アップグレード・ダウングレード）APIエンドポイント
+ *
+ * ビジネス上の流れ:
+ * 1. 有料プランを契約中のユーザーが、料金ページで別の有料プランを選ぶ
+ * 2. /api/stripe/plan-change/preview で請求される金額を確認する
+ * 3. 確認後、このAPIでプランを変更する
+ *    - アップグレード: 即時に切り替え、差額を日割りで請求
+ *    - ダウングレード: 現在の契約期間の終了時に切り替え（予約）
+ *    - 現在と同じプランを指定: 予約中の変更を取り消す
+ * 4. 変更内容はWebhookでデータベースに反映される
+ *
+ * リクエスト: { planType, timing?, prorationDate? }
+ * レスポンス: { status, targetPlanType, effectiveAt }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { canManageFarm, getCurrentFarmAccess } from "@/lib/farms";
+import { isPurchasablePlanType, STRIPE_PRICE_IDS } from "@/lib/stripe";
+import { applyPlanChange, isPlanChangeTiming, PlanChangeError } from "@/lib/planChange";
+
+/**
+ * POSTリクエストを処理
+ * プランを変更（または変更を予約・取り消し）する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // -----------------------------------------------------------------------
+    // 1. ユーザー認証の確認
+    // -----------------------------------------------------------------------
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "ログインが必要です。先にログインしてください。" },
+        { status: 401 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 2. 農場のオーナーかどうかの確認
+    // -----------------------------------------------------------------------
+    const { farmId, role } = await getCurrentFarmAccess(supabase);
+
+    if (!canManageFarm(role)) {
+      return NextResponse.json(
+        { error: "プランの変更は農場のオーナーのみ行えます" },
+        { status: 403 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 3. リクエストボディの検証
+    // -----------------------------------------------------------------------
+    const body = await request.json().catch(() => ({}));
+    const { planType, timing, prorationDate } = body as {
+      planType?: unknown;
+      timing?: unknown;
+      prorationDate?: unknown;
+    };
+
+    if (!isPurchasablePlanType(planType)) {
+      return NextResponse.json(
+        {
+          error:
+            "変更先の有料プランを選択してください。" +
+            `（${Object.keys(STRIPE_PRICE_IDS).join(", ")} のいずれか）`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (timing !== undefined && !isPlanChangeTiming(timing)) {
+      return NextResponse.json(
+        { error: "timing は immediate または period_end で指定してください" },
+        { status: 400 }
+      );
+    }
+
+    if (prorationDate !== undefined && !Number.isInteger(prorationDate)) {
+      return NextResponse.json(
+        { error: "prorationDate はプレビューで返された値を指定してください" },
+        { status: 400 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 4. プランの変更
+    // -----------------------------------------------------------------------
+    const result = await applyPlanChange(
+      supabase,
+      farmId,
+      planType,
+      timing,
+      prorationDate as number | undefined
+    );
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (error instanceof PlanChangeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error("プラン変更エラー:", error);
+
+    // Stripeのエラー（支払い方法の不備など）はメッセージを返す
+    const stripeError = error as { type?: string; message?: string };
+    if (stripeError.type === "StripeCardError" || stripeError.type === "StripeInvalidRequestError") {
+      return NextResponse.json(
+        { error: `プランを変更できませんでした: ${stripeError.message}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error ? error.message : null) ||
+          "プラン変更中にエラーが発生しました",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@
  * Stripe Customer Portal APIエンドポイント
  *
  * ビジネス上の流れ:
- * 1. 有料プランユーザーが「プラン変更」や「解約」をしたい時
+ * 1. 有料プランの農場のオーナーが「プラン変更」や「解約」をしたい時
  * 2. このAPIを呼び出してStripe Customer Portalのセッションを作成
  * 3. ユーザーはStripeが提供する管理画面にリダイレクトされる
  * 4. そこでプラン変更、支払い方法の更新、解約などを自分で行える
@@ -15,6 +15,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { canManageFarm, getCurrentFarmAccess } from "@/lib/farms";
 import { getStripeClient } from "@/lib/stripe";
 
 // =============================================================================
@@ -44,12 +45,24 @@ export async function POST(request: NextRequest) {
     }
 
     // -----------------------------------------------------------------------
-    // 2. ユーザーのStripe Customer IDを取得
+    // 2. 農場のオーナーかどうかの確認
+    // -----------------------------------------------------------------------
+    const { farmId, role } = await getCurrentFarmAccess(supabase);
+
+    if (!canManageFarm(role)) {
+      return NextResponse.json(
+        { error: "プラン・支払い方法の管理は農場のオーナーのみ行えます" },
+        { status: 403 }
+      );
+    }
+
+    // -----------------------------------------------------------------------
+    // 3. 農場のStripe Customer IDを取得
     // -----------------------------------------------------------------------
     const { data: subscription, error: subscriptionError } = await supabase
       .from("subscriptions")
       .select("stripe_customer_id, plan_type")
-      .eq("user_id", user.id)
+      .eq("farm_id", farmId)
       .single();
 
     if (subscriptionError) {
@@ -73,7 +86,7 @@ export async function POST(request: NextRequest) {
     }
 
     // -----------------------------------------------------------------------
-    // 3. オプションでリターンURLを取得
+    // 4. オプションでリターンURLを取得
     // -----------------------------------------------------------------------
     let returnUrl: string;
 
@@ -98,7 +111,7 @@ export async function POST(request: NextRequest) {
     }
 
     // -----------------------------------------------------------------------
-    // 4. Customer Portal Sessionの作成
+    // 5. Customer Portal Sessionの作成
     // -----------------------------------------------------------------------
     const stripe = getStripeClient();
 
@@ -113,7 +126,7 @@ export async function POST(request: NextRequest) {
     });
 
     // -----------------------------------------------------------------------
-    // 5. Portal URLを返す
+    // 6. Portal URLを返す
     // -----------------------------------------------------------------------
     return NextResponse.json({
       success: true,
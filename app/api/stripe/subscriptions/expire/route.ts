@@ -0,0 +1,70 @@
+/**
+ * 契約期間が終わった解約済みサブスクリプションの整理APIエンドポイント（定期実行用）
+ *
+ * ビジネス上の流れ:
+ * 1. ユーザーが期間終了時の解約（cancel_at_period_end）を申し込む
+ * 2. 契約期間が終わるまでは、解約予定（cancel_at_period_end）・解約済み（canceled）のまま現在のプランで利用できる
+ * 3. スケジューラーが1日1回このAPIを呼び出し、期間が終わったものを無料プランに戻す
+ *
+ * 呼び出し方（スケジューラー・運営者のみ）:
+ *   curl -X POST https://<アプリのURL>/api/stripe/subscriptions/expire \
+ *     -H "Authorization: Bearer $CRON_SECRET"
+ *
+ * セキュリティ:
+ * - 環境変数 CRON_SECRET と一致するトークンを持つリクエストのみ受け付ける
+ * - 未設定の場合はこのAPIを無効にする
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { isAuthorizedOperatorRequest } from "@/lib/operatorAuth";
+import { expireEndedSubscriptions } from "@/lib/subscription";
+
+// =============================================================================
+// APIエンドポイント
+// =============================================================================
+
+/**
+ * POSTリクエストを処理
+ * 契約期間が終わった解約済みサブスクリプションを無料プランに戻し、件数を返す
+ *
+ * レスポンス: { expiredCount: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // -----------------------------------------------------------------------
+    // 1. スケジューラー・運営者の確認
+    // -----------------------------------------------------------------------
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret) {
+      return NextResponse.json(
+        { error: "CRON_SECRET が設定されていません" },
+        { status: 503 }
+      );
+    }
+
+    if (!isAuthorizedOperatorRequest(request.headers.get("authorization"), secret)) {
+      return NextResponse.json({ error: "認証に失敗しました" }, { status: 401 });
+    }
+
+    // -----------------------------------------------------------------------
+    // 2. 期間が終わったサブスクリプションを無料プランに戻す
+    // -----------------------------------------------------------------------
+    const expiredCount = await expireEndedSubscriptions(createSupabaseAdminClient());
+
+    console.log(`期間終了したサブスクリプションを ${expiredCount} 件無料プランに戻しました`);
+
+    return NextResponse.json({ expiredCount });
+  } catch (error: unknown) {
+    console.error("期間終了したサブスクリプションの整理エラー:", error);
+    return NextResponse.json(
+      {
+        error:
+          (error instanceof Error ? error.message : null) ||
+          "サブスクリプションの整理中にエラーが発生しました",
+      },
+      { status: 500 }
+    );
+  }
+}
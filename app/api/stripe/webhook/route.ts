@@ -10,9 +10,17 @@
  * 処理するイベント:
  * - checkout.session.completed: 新規サブスクリプション開始
  * - customer.subscription.updated: プラン変更・更新
+ * - subscription_schedule.*（created / updated / released / canceled / completed）:
+ *   契約期間の終了時のプラン変更（ダウングレード）の予約・取り消し
  * - customer.subscription.deleted: 解約
  * - invoice.payment_failed: 支払い失敗
  *
+ * 二重受信・順序の入れ替わりへの対応（lib/stripeEvents.ts）:
+ * - 受信したイベントを stripe_events テーブルに記録し、処理済みのイベントは再送されても処理しない
+ * - 反映済みのイベントより古いイベントは、サブスクリプションに反映しない
+ * - 処理に失敗したイベントは 500 を返して Stripe に再送させる
+ *   （/api/stripe/events/replay から手動で再処理することもできる）
+ *
  * セキュリティ:
  * - Stripe署名を検証し、不正なリクエストを拒否
  * - service_roleキーを使用してRLSをバイパス（サーバー間通信のため）
@@ -21,45 +29,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { headers } from "next/headers";
 import Stripe from "stripe";
-import { createClient } from "@supabase/supabase-js";
-import { getStripeClient, PRICE_ID_TO_PLAN, type PlanType } from "@/lib/stripe";
-import {
-  upsertSubscription,
-  cancelSubscription,
-  revertToFreePlan,
-} from "@/lib/subscription";
-
-// =============================================================================
-// Supabase Service Roleクライアント
-// =============================================================================
-
-/**
- * Service Roleキーを使用したSupabaseクライアントを作成
- *
- * ビジネス上の役割：
- * - Webhookはユーザーのセッションを持たないため、RLSをバイパスする必要がある
- * - service_roleキーはサーバーサイドでのみ使用可能（絶対にクライアントに露出させない）
- *
- * @returns Supabaseクライアント（RLSバイパス）
- */
-function createSupabaseAdminClient() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-  if (!supabaseUrl || !serviceRoleKey) {
-    throw new Error(
-      "Supabase環境変数が設定されていません。" +
-        "NEXT_PUBLIC_SUPABASE_URL と SUPABASE_SERVICE_ROLE_KEY を確認してください。"
-    );
-  }
-
-  return createClient(supabaseUrl, serviceRoleKey, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
-  });
-}
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { getStripeClient } from "@/lib/stripe";
+import { handleStripeEvent } from "@/lib/stripeEvents";
 
 // =============================================================================
 // ヘルパー関数
@@ -91,279 +63,6 @@ function verifyStripeWebhook(body: string, signature: string): Stripe.Event {
   return stripe.webhooks.constructEvent(body, signature, webhookSecret);
 }
 
-/**
- * Price IDからプランタイプを取得
- *
- * @param priceId - Stripe Price ID
- * @returns プランタイプ（不明な場合はnull）
- */
-function getPlanTypeFromPriceId(priceId: string): PlanType | null {
-  return PRICE_ID_TO_PLAN[priceId] || null;
-}
-
-// =============================================================================
-// イベントハンドラー
-// =============================================================================
-
-/**
- * checkout.session.completed イベントを処理
- * 新規サブスクリプションが開始された時に呼ばれる
- *
- * @param session - Checkout Sessionオブジェクト
- */
-async function handleCheckoutCompleted(
-  session: Stripe.Checkout.Session
-): Promise<void> {
-  console.log("Checkout完了:", session.id);
-
-  const stripe = getStripeClient();
-  const supabase = createSupabaseAdminClient();
-
-  // subscriptionが文字列の場合（IDのみ）、詳細を取得
-  const subscriptionId =
-    typeof session.subscription === "string"
-      ? session.subscription
-      : session.subscription?.id;
-
-  if (!subscriptionId) {
-    console.error("サブスクリプションIDが見つかりません");
-    return;
-  }
-
-  // サブスクリプションの詳細を取得
-  // 型を明示的に指定して、current_period_start等のプロパティにアクセス可能にする
-  const subscription: Stripe.Subscription = await stripe.subscriptions.retrieve(subscriptionId);
-
-  // メタデータからSupabaseユーザーIDを取得
-  const userId =
-    subscription.metadata?.supabase_user_id ||
-    session.metadata?.supabase_user_id;
-
-  if (!userId) {
-    console.error("ユーザーIDがメタデータに見つかりません");
-    return;
-  }
-
-  // Price IDからプランタイプを特定
-  const priceId = subscription.items.data[0]?.price?.id;
-  const planType = priceId ? getPlanTypeFromPriceId(priceId) : null;
-
-  if (!planType) {
-    console.error("不明なPrice ID:", priceId);
-    return;
-  }
-
-  // Customer IDを取得
-  const customerId =
-    typeof session.customer === "string"
-      ? session.customer
-      : session.customer?.id || "";
-
-  // Stripe SDK v20以降では、期間情報はitems.data[0]から取得
-  const subscriptionItem = subscription.items.data[0];
-
-  // サブスクリプション情報をデータベースに保存
-  await upsertSubscription(
-    supabase,
-    userId,
-    customerId,
-    subscriptionId,
-    planType,
-    "active",
-    new Date(subscriptionItem.current_period_start * 1000),
-    new Date(subscriptionItem.current_period_end * 1000)
-  );
-
-  console.log(`ユーザー ${userId} のサブスクリプションを ${planType} に更新しました`);
-}
-
-/**
- * customer.subscription.updated イベントを処理
- * サブスクリプションが更新された時に呼ばれる（プラン変更、更新など）
- *
- * @param subscription - Subscriptionオブジェクト
- */
-async function handleSubscriptionUpdated(
-  subscription: Stripe.Subscription
-): Promise<void> {
-  console.log("サブスクリプション更新:", subscription.id);
-
-  const supabase = createSupabaseAdminClient();
-
-  // メタデータからSupabaseユーザーIDを取得
-  const userId = subscription.metadata?.supabase_user_id;
-
-  if (!userId) {
-    // メタデータにない場合は、データベースからsubscription_idで検索
-    const { data: existingSubscription } = await supabase
-      .from("subscriptions")
-      .select("user_id")
-      .eq("stripe_subscription_id", subscription.id)
-      .single();
-
-    if (!existingSubscription?.user_id) {
-      console.error("ユーザーIDが見つかりません:", subscription.id);
-      return;
-    }
-
-    // Price IDからプランタイプを特定
-    const priceId = subscription.items.data[0]?.price?.id;
-    const planType = priceId ? getPlanTypeFromPriceId(priceId) : null;
-
-    if (!planType) {
-      console.error("不明なPrice ID:", priceId);
-      return;
-    }
-
-    // Customer IDを取得
-    const customerId =
-      typeof subscription.customer === "string"
-        ? subscription.customer
-        : subscription.customer?.id || "";
-
-    // ステータスをマッピング
-    let status: "active" | "canceled" | "past_due" | "trialing" = "active";
-    if (subscription.status === "canceled" || subscription.status === "incomplete_expired") {
-      status = "canceled";
-    } else if (subscription.status === "past_due" || subscription.status === "unpaid") {
-      status = "past_due";
-    } else if (subscription.status === "trialing") {
-      status = "trialing";
-    }
-
-    // Stripe SDK v20以降では、期間情報はitems.data[0]から取得
-    const subscriptionItem = subscription.items.data[0];
-
-    // サブスクリプション情報を更新
-    await upsertSubscription(
-      supabase,
-      existingSubscription.user_id,
-      customerId,
-      subscription.id,
-      planType,
-      status,
-      new Date(subscriptionItem.current_period_start * 1000),
-      new Date(subscriptionItem.current_period_end * 1000)
-    );
-
-    console.log(
-      `ユーザー ${existingSubscription.user_id} のサブスクリプションを更新しました`
-    );
-    return;
-  }
-
-  // メタデータにユーザーIDがある場合
-  const priceId = subscription.items.data[0]?.price?.id;
-  const planType = priceId ? getPlanTypeFromPriceId(priceId) : null;
-
-  if (!planType) {
-    console.error("不明なPrice ID:", priceId);
-    return;
-  }
-
-  const customerId =
-    typeof subscription.customer === "string"
-      ? subscription.customer
-      : subscription.customer?.id || "";
-
-  let status: "active" | "canceled" | "past_due" | "trialing" = "active";
-  if (subscription.status === "canceled" || subscription.status === "incomplete_expired") {
-    status = "canceled";
-  } else if (subscription.status === "past_due" || subscription.status === "unpaid") {
-    status = "past_due";
-  } else if (subscription.status === "trialing") {
-    status = "trialing";
-  }
-
-  // Stripe SDK v20以降では、期間情報はitems.data[0]から取得
-  const subscriptionItemForPeriod = subscription.items.data[0];
-
-  await upsertSubscription(
-    supabase,
-    userId,
-    customerId,
-    subscription.id,
-    planType,
-    status,
-    new Date(subscriptionItemForPeriod.current_period_start * 1000),
-    new Date(subscriptionItemForPeriod.current_period_end * 1000)
-  );
-
-  console.log(`ユーザー ${userId} のサブスクリプションを ${planType} に更新しました`);
-}
-
-/**
- * customer.subscription.deleted イベントを処理
- * サブスクリプションが解約された時に呼ばれる
- *
- * @param subscription - Subscriptionオブジェクト
- */
-async function handleSubscriptionDeleted(
-  subscription: Stripe.Subscription
-): Promise<void> {
-  console.log("サブスクリプション解約:", subscription.id);
-
-  const supabase = createSupabaseAdminClient();
-
-  // サブスクリプションを解約状態に更新
-  await cancelSubscription(supabase, subscription.id);
-
-  // 契約期間終了後は無料プランに戻す
-  // 注意: cancel_at_period_end が true の場合、期間終了まで有料機能が使える
-  if (!subscription.cancel_at_period_end) {
-    // 即時解約の場合は無料プランに戻す
-    await revertToFreePlan(supabase, subscription.id);
-    console.log(`サブスクリプション ${subscription.id} を無料プランに戻しました`);
-  } else {
-    console.log(
-      `サブスクリプション ${subscription.id} は期間終了時に無料プランに戻ります`
-    );
-  }
-}
-
-/**
- * invoice.payment_failed イベントを処理
- * 支払いが失敗した時に呼ばれる
- *
- * @param invoice - Invoiceオブジェクト
- */
-async function handlePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
-  console.log("支払い失敗:", invoice.id);
-
-  const supabase = createSupabaseAdminClient();
-
-  // サブスクリプションIDを取得
-  // Stripe SDK v20以降では、parent.subscription_details.subscriptionからアクセス
-  const subscriptionData = invoice.parent?.subscription_details?.subscription;
-  const subscriptionId =
-    typeof subscriptionData === "string"
-      ? subscriptionData
-      : subscriptionData?.id;
-
-  if (!subscriptionId) {
-    console.error("サブスクリプションIDが見つかりません");
-    return;
-  }
-
-  // ステータスを past_due に更新
-  const { error } = await supabase
-    .from("subscriptions")
-    .update({
-      status: "past_due",
-      updated_at: new Date().toISOString(),
-    })
-    .eq("stripe_subscription_id", subscriptionId);
-
-  if (error) {
-    console.error("ステータス更新エラー:", error);
-    return;
-  }
-
-  console.log(`サブスクリプション ${subscriptionId} を past_due に更新しました`);
-
-  // TODO: ユーザーにメール通知を送る（将来の拡張）
-}
-
 // =============================================================================
 // APIエンドポイント
 // =============================================================================
@@ -407,50 +106,27 @@ export async function POST(request: NextRequest) {
     }
 
     // -----------------------------------------------------------------------
-    // 3. イベントタイプに応じた処理
+    // 3. 受信記録つきでイベントを処理
     // -----------------------------------------------------------------------
-    console.log("Webhookイベント受信:", event.type);
-
-    switch (event.type) {
-      // 新規サブスクリプション開始
-      case "checkout.session.completed": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        await handleCheckoutCompleted(session);
-        break;
-      }
-
-      // サブスクリプション更新（プラン変更、自動更新など）
-      case "customer.subscription.updated": {
-        const subscription = event.data.object as Stripe.Subscription;
-        await handleSubscriptionUpdated(subscription);
-        break;
-      }
-
-      // サブスクリプション解約
-      case "customer.subscription.deleted": {
-        const subscription = event.data.object as Stripe.Subscription;
-        await handleSubscriptionDeleted(subscription);
-        break;
-      }
+    console.log("Webhookイベント受信:", event.type, event.id);
 
-      // 支払い失敗
-      case "invoice.payment_failed": {
-        const invoice = event.data.object as Stripe.Invoice;
-        await handlePaymentFailed(invoice);
-        break;
-      }
-
-      // その他のイベントは無視（ログのみ）
-      default:
-        console.log("未処理のイベントタイプ:", event.type);
-    }
+    const result = await handleStripeEvent(createSupabaseAdminClient(), event);
 
     // -----------------------------------------------------------------------
-    // 4. 成功レスポンスを返す
+    // 4. レスポンスを返す
     // -----------------------------------------------------------------------
-    // Stripeは200レスポンスを期待している
-    // 200以外を返すとStripeはリトライを行う
-    return NextResponse.json({ received: true });
+    // 200以外を返すとStripeはリトライを行うため、失敗した場合のみ500を返す
+    if (result.status === "failed") {
+      return NextResponse.json(
+        { error: result.error || "Webhook処理中にエラーが発生しました" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      received: true,
+      duplicate: result.status === "duplicate",
+    });
   } catch (error: unknown) {
     // エラーの詳細をログに記録
     console.error("Webhookエラー:", error);
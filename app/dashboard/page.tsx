@@ -1,8 +1,11 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { createSupabaseClient } from "@/lib/supabase/client";
+import { fetchFinancialSummary, getCurrentMonthDateRange } from "@/lib/aggregation";
+import { catchUpRecurringEntries } from "@/lib/recurring";
+import { catchUpDepreciationEntries } from "@/lib/depreciation";
 import type { User } from "@supabase/supabase-js";
 
 // ダッシュボード専用コンポーネントをインポート
@@ -10,6 +13,7 @@ import {
   DashboardHeader,
   ActionCards,
   KPISection,
+  RecurringEntriesReview,
 } from "@/components/dashboard";
 import { Bot } from "lucide-react";
 import { AIChatModal } from "@/components/ai-assistant";
@@ -38,20 +42,6 @@ const formatCurrency = (amount: number): string => {
   }).format(amount);
 };
 
-/**
- * 今月の開始日と終了日を取得
- * 
- * @returns startDate: 今月1日, endDate: 今月末日
- */
-const getCurrentMonthRange = (): { startDate: string; endDate: string } => {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = now.getMonth();
-  const startDate = new Date(year, month, 1).toISOString().split("T")[0];
-  const endDate = new Date(year, month + 1, 0).toISOString().split("T")[0];
-  return { startDate, endDate };
-};
-
 /**
  * ダッシュボードページ
  * 
@@ -84,6 +74,13 @@ export default function DashboardPage() {
   // AIチャットモーダルの開閉状態
   const [isAIChatOpen, setIsAIChatOpen] = useState(false);
 
+  // 定期的な取引の追いつき作成が終わったか（確認待ちの一覧はその後に表示する）
+  const [recurringCaughtUp, setRecurringCaughtUp] = useState(false);
+  // 追いつき作成は画面を開いた時の1回のみ行う
+  const hasCaughtUpRef = useRef(false);
+  // KPIの再集計用（確認待ちの取引をスキップした時に増やす）
+  const [summaryVersion, setSummaryVersion] = useState(0);
+
   /**
    * ユーザー表示名を取得する関数
    * 
@@ -110,8 +107,9 @@ export default function DashboardPage() {
    * 
    * ビジネス上の流れ:
    * 1. ログインユーザー情報を取得
-   * 2. 今月の売上・経費データを取得（RLSにより自分のデータのみ）
-   * 3. KPIを計算して表示
+   * 2. 予定日を過ぎた定期的な取引と、今日までの減価償却費を経費・売上として作成（ログイン時の追いつき作成）
+   * 3. 今月の売上・経費の集計を取得（RLSにより自分のデータのみ）
+   * 4. KPIを表示
    */
   useEffect(() => {
     let isMounted = true;
@@ -132,34 +130,33 @@ export default function DashboardPage() {
         if (!isMounted) return;
         setCurrentUser(user);
 
-        const { startDate, endDate } = getCurrentMonthRange();
-
-        // 今月の売上データを取得（RLSで自分のデータのみ）
-        const { data: salesData, error: salesError } = await supabase
-          .from("sales")
-          .select("amount")
-          .gte("date", startDate)
-          .lte("date", endDate);
-
-        if (salesError) throw salesError;
+        // 定期的な取引・減価償却費の追いつき作成（失敗してもKPIは表示する）
+        if (user && !hasCaughtUpRef.current) {
+          hasCaughtUpRef.current = true;
+          await Promise.all([
+            catchUpRecurringEntries(supabase).catch((catchUpError) =>
+              console.error("定期的な取引の作成エラー:", catchUpError)
+            ),
+            catchUpDepreciationEntries(supabase, user.id).catch((catchUpError) =>
+              console.error("減価償却費の作成エラー:", catchUpError)
+            ),
+          ]);
+          setRecurringCaughtUp(true);
+          if (!isMounted) return;
+        }
 
-        // 今月の経費データを取得（RLSで自分のデータのみ）
-        const { data: expensesData, error: expensesError } = await supabase
-          .from("expenses")
-          .select("amount")
-          .gte("date", startDate)
-          .lte("date", endDate);
+        const { startDate, endDate } = getCurrentMonthDateRange();
 
-        if (expensesError) throw expensesError;
+        // 今月の売上・経費をデータベース側で集計（RLSで自分のデータのみ）
+        const { totals } = await fetchFinancialSummary(supabase, startDate, endDate);
 
         if (!isMounted) return;
 
-        // 合計値を計算
-        const income = salesData?.reduce((sum, sale) => sum + (sale.amount || 0), 0) || 0;
-        const expenses = expensesData?.reduce((sum, expense) => sum + (expense.amount || 0), 0) || 0;
-        const profit = income - expenses;
-
-        setKpiData({ income, expenses, profit });
+        setKpiData({
+          income: totals.sales,
+          expenses: totals.expenses,
+          profit: totals.profit,
+        });
       } catch (err: unknown) {
         if (!isMounted) return;
         const errorMessage = err instanceof Error ? err.message : "データの取得に失敗しました";
@@ -177,7 +174,7 @@ export default function DashboardPage() {
     return () => {
       isMounted = false;
     };
-  }, []);
+  }, [summaryVersion]);
 
   // ナビゲーションハンドラー
   const handleExpenseClick = () => router.push("/expenses/new");
@@ -235,6 +232,13 @@ export default function DashboardPage() {
         {/* エラーメッセージ */}
         {error && <ErrorMessage message={error} />}
 
+        {/* 確認待ちの定期的な取引（ある場合のみ表示） */}
+        {recurringCaughtUp && (
+          <RecurringEntriesReview
+            onEntriesChanged={() => setSummaryVersion((version) => version + 1)}
+          />
+        )}
+
         {/* KPIカードセクション */}
         <KPISection
           kpiData={kpiData}
@@ -0,0 +1,143 @@
+"use client";
+
+/**
+ * レシート一括読み取りページ
+ *
+ * ビジネス上の役割:
+ * 月末にまとめて撮影した数十枚のレシートを一度に読み取り、
+ * 一覧で確認してから経費としてまとめて登録する画面
+ *
+ * 機能:
+ * - 複数画像の選択（追加で選択することもできる）
+ * - 同時実行数を制限した順次読み取り（1枚ごとにOCR使用回数を1回消費）
+ * - 読み取り結果の一覧での修正・承認
+ * - 承認したレシートの一括登録
+ */
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Images, Loader2, Save } from "lucide-react";
+import { useReceiptBatch, ReceiptBatchGrid } from "@/components/receipt-batch";
+import BottomNav from "@/components/BottomNav";
+
+export default function ReceiptBatchPage() {
+  const batch = useReceiptBatch();
+
+  const approvedCount = batch.items.filter(
+    (item) => item.status === "done" && item.isApproved
+  ).length;
+  const inProgressCount = batch.items.filter(
+    (item) => item.status === "queued" || item.status === "processing"
+  ).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      {/* ヘッダー */}
+      <header className="bg-green-600 text-white shadow-md">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center gap-3">
+            <Link href="/expenses">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-white hover:bg-white/10 -ml-2"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="flex items-center gap-2">
+              <Images className="h-6 w-6" />
+              <span className="text-xl font-bold">レシート一括読み取り</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* メインコンテンツ */}
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 max-w-5xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">レシートを選択</CardTitle>
+            <p className="text-sm text-gray-500">
+              複数のレシート画像をまとめて選択できます。読み取り1枚につきOCR使用回数を1回消費します。
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label
+                htmlFor="receipt-batch-files"
+                className="inline-flex items-center gap-2 h-10 px-4 rounded-md bg-green-600 text-white hover:bg-green-700 cursor-pointer"
+              >
+                <Images className="h-4 w-4" />
+                画像を選択
+              </Label>
+              <input
+                id="receipt-batch-files"
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={(event) => {
+                  batch.addFiles(Array.from(event.target.files || []));
+                  // 同じ画像を選び直せるようにする
+                  event.target.value = "";
+                }}
+              />
+            </div>
+
+            {/* メッセージ */}
+            {batch.errorMessage && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+                {batch.errorMessage}
+              </div>
+            )}
+            {batch.successMessage && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-md text-green-700 text-sm">
+                {batch.successMessage}
+                <Link href="/expenses" className="ml-2 underline">
+                  経費一覧を見る
+                </Link>
+              </div>
+            )}
+
+            {batch.items.length > 0 && (
+              <>
+                <p className="text-sm text-gray-600">
+                  {batch.items.length}枚中 {approvedCount}枚を登録します
+                  {inProgressCount > 0 && `（${inProgressCount}枚を読み取り中）`}
+                </p>
+
+                <ReceiptBatchGrid
+                  items={batch.items}
+                  categories={batch.categories}
+                  onItemChange={batch.updateItem}
+                  onRemove={batch.removeItem}
+                  onRetry={batch.retryItem}
+                />
+
+                <Button
+                  type="button"
+                  onClick={batch.saveApprovedItems}
+                  disabled={batch.isSaving || approvedCount === 0}
+                  className="w-full bg-green-600 hover:bg-green-700"
+                >
+                  {batch.isSaving ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4 mr-2" />
+                  )}
+                  {approvedCount}件を経費に登録する
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* 下部ナビゲーション */}
+      <BottomNav />
+    </div>
+  );
+}
@@ -22,13 +22,13 @@
  * - useExpenseForm: フォームのロジック（状態管理・送信処理）
  * - CategorySelector: 勘定科目選択ドロップダウン
  * - FormMessages: エラー・成功メッセージ表示
+ * - DateField / AmountField / DescriptionField: 入力フィールド（台帳の行内編集と共通）
  */
 
 import { Suspense } from "react";
 import Link from "next/link";
+import Image from "next/image";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, Camera } from "lucide-react";
 
@@ -36,7 +36,15 @@ import { ArrowLeft, Camera } from "lucide-react";
 import { 
   useExpenseForm, 
   CategorySelector, 
-  FormMessages 
+  FormMessages,
+  DateField,
+  AmountField,
+  TaxRateField,
+  InvoiceNumberField,
+  CropField,
+  PlantingField,
+  DescriptionField,
+  ExpenseSplitEditor,
 } from "@/components/expenses";
 
 // ============================================================
@@ -88,9 +96,21 @@ function ExpenseFormContent() {
     isOcrFilled,
     expenseCategories,
     categoriesLoading,
+    cropNameOptions,
+    plantingOptions,
     ocrSuggestedCategory,
+    receiptImage,
+    isSplitMode,
+    splitLines,
+    splitDifference,
+    taxAmount,
     handleChange,
     handleCategorySelect,
+    toggleSplitMode,
+    handleSplitLineChange,
+    handleSplitLineCategorySelect,
+    addSplitLine,
+    removeSplitLine,
     handleSubmit,
   } = useExpenseForm();
 
@@ -114,6 +134,7 @@ function ExpenseFormContent() {
                   レシートから読み取った内容です。必要に応じて修正してください。
                 </p>
               )}
+              {receiptImage && <ReceiptImageNotice imageSource={receiptImage} />}
             </CardHeader>
             
             {/* フォーム本体 */}
@@ -125,23 +146,72 @@ function ExpenseFormContent() {
                   onChange={handleChange} 
                 />
 
-                {/* 勘定科目選択（分割したコンポーネント） */}
-                <CategorySelector
-                  categories={expenseCategories}
-                  isLoading={categoriesLoading}
-                  selectedCategoryId={formData.categoryId}
-                  selectedCategoryName={formData.categoryName}
-                  onSelect={handleCategorySelect}
-                  isOcrFilled={isOcrFilled}
-                  ocrSuggestedCategory={ocrSuggestedCategory}
-                />
+                {/* 勘定科目選択（分割したコンポーネント）。科目別に分割する場合は内訳で選ぶ */}
+                {!isSplitMode && (
+                  <CategorySelector
+                    categories={expenseCategories}
+                    isLoading={categoriesLoading}
+                    selectedCategoryId={formData.categoryId}
+                    selectedCategoryName={formData.categoryName}
+                    onSelect={handleCategorySelect}
+                    isOcrFilled={isOcrFilled}
+                    ocrSuggestedCategory={ocrSuggestedCategory}
+                  />
+                )}
 
-                {/* 金額入力 */}
+                {/* 金額入力（分割する場合はレシートの合計金額） */}
                 <AmountField 
                   value={formData.amount} 
                   onChange={handleChange} 
+                  label={isSplitMode ? "レシート合計" : "金額"}
+                />
+
+                {/* 消費税率（分割する場合は行ごとに選ぶ） */}
+                {!isSplitMode && (
+                  <TaxRateField
+                    value={formData.taxRate}
+                    onChange={handleChange}
+                    taxAmount={taxAmount}
+                  />
+                )}
+
+                {/* 仕入先の登録番号（インボイス制度） */}
+                <InvoiceNumberField
+                  value={formData.invoiceRegistrationNumber}
+                  onChange={handleChange}
+                />
+
+                {/* 対象の作物（作物別損益の直接費にする場合） */}
+                <CropField
+                  value={formData.cropName}
+                  onChange={handleChange}
+                  options={cropNameOptions}
+                />
+
+                {/* 対象の作付け（圃場の10アール当たりの集計に使う場合） */}
+                <PlantingField
+                  value={formData.plantingId}
+                  onChange={handleChange}
+                  options={plantingOptions}
                 />
 
+                {/* 科目別の分割（肥料・農薬などが混在するレシート用） */}
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={isSplitMode} onChange={toggleSplitMode} />
+                  勘定科目ごとに分けて登録する
+                </label>
+                {isSplitMode && (
+                  <ExpenseSplitEditor
+                    splitLines={splitLines}
+                    categories={expenseCategories}
+                    splitDifference={splitDifference}
+                    onLineChange={handleSplitLineChange}
+                    onLineCategorySelect={handleSplitLineCategorySelect}
+                    onAddLine={addSplitLine}
+                    onRemoveLine={removeSplitLine}
+                  />
+                )}
+
                 {/* 摘要/メモ入力 */}
                 <DescriptionField 
                   value={formData.description} 
@@ -191,105 +261,47 @@ function ExpensePageHeader() {
 }
 
 /**
- * OCR読み取り済みバッジ
- * レシートスキャンから自動入力された場合に表示
+ * 証憑として保存するレシート画像の表示
+ * 登録時にこの画像が経費に紐付けて保存されることを伝える
  */
-function OcrBadge() {
-  return (
-    <span className="inline-flex items-center gap-1 text-sm font-normal text-green-600 bg-green-50 px-2 py-1 rounded-full">
-      <Camera className="w-4 h-4" />
-      レシート読み取り済み
-    </span>
-  );
+interface ReceiptImageNoticeProps {
+  imageSource: string;
 }
 
-// ============================================================
-// フォームフィールドコンポーネント
-// ============================================================
-
-/**
- * 日付入力フィールドのプロパティ
- */
-interface DateFieldProps {
-  value: string;
-  onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
-}
-
-/**
- * 日付入力フィールド
- */
-function DateField({ value, onChange }: DateFieldProps) {
+function ReceiptImageNotice({ imageSource }: ReceiptImageNoticeProps) {
   return (
-    <div className="space-y-2">
-      <Label htmlFor="date">日付 *</Label>
-      <Input
-        id="date"
-        name="date"
-        type="date"
-        value={value}
-        onChange={onChange}
-        required
+    <div className="flex items-center gap-3 mt-3 p-2 bg-gray-50 border rounded-md">
+      <Image
+        src={imageSource}
+        alt="レシート"
+        width={48}
+        height={64}
+        unoptimized
+        className="w-12 h-16 rounded object-cover border"
       />
+      <p className="text-xs text-gray-600">
+        このレシート画像は、経費と一緒に証憑として保存されます
+      </p>
     </div>
   );
 }
 
 /**
- * 金額入力フィールドのプロパティ
- */
-interface AmountFieldProps {
-  value: string;
-  onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
-}
-
-/**
- * 金額入力フィールド
+ * OCR読み取り済みバッジ
+ * レシートスキャンから自動入力された場合に表示
  */
-function AmountField({ value, onChange }: AmountFieldProps) {
+function OcrBadge() {
   return (
-    <div className="space-y-2">
-      <Label htmlFor="amount">金額 *</Label>
-      <Input
-        id="amount"
-        name="amount"
-        type="number"
-        value={value}
-        onChange={onChange}
-        placeholder="例: 50000"
-        required
-        min="0"
-      />
-    </div>
+    <span className="inline-flex items-center gap-1 text-sm font-normal text-green-600 bg-green-50 px-2 py-1 rounded-full">
+      <Camera className="w-4 h-4" />
+      レシート読み取り済み
+    </span>
   );
 }
 
-/**
- * 摘要/メモ入力フィールドのプロパティ
- */
-interface DescriptionFieldProps {
-  value: string;
-  onChange: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
-}
-
-/**
- * 摘要/メモ入力フィールド
- */
-function DescriptionField({ value, onChange }: DescriptionFieldProps) {
-  return (
-    <div className="space-y-2">
-      <Label htmlFor="description">摘要/メモ</Label>
-      <textarea
-        id="description"
-        name="description"
-        value={value}
-        onChange={onChange}
-        placeholder="メモがあれば入力してください"
-        rows={4}
-        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-      />
-    </div>
-  );
-}
+// ============================================================
+// フォームアクション
+// ============================================================
 
 /**
  * フォームアクションボタンのプロパティ
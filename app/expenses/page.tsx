@@ -0,0 +1,228 @@
+"use client";
+
+/**
+ * 経費台帳ページ
+ *
+ * ビジネス上の役割:
+ * 登録済みの経費を一覧で確認し、金額の入力ミスなどを後から修正・削除できる画面
+ *
+ * 機能:
+ * - 期間・勘定科目による絞り込み
+ * - 日付・勘定科目・金額による並び替え
+ * - ページ送り（1ページ20件）
+ * - 行内編集（経費登録フォームと同じ useExpenseForm を使用）と削除
+ * - レシート画像（証憑）のサムネイル表示。経費の削除時は画像も削除する
+ */
+
+import { Suspense } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Leaf, Loader2, Plus, Upload } from "lucide-react";
+import {
+  useLedger,
+  useCategoryOptions,
+  LedgerFilterBar,
+  LedgerPagination,
+  ExpenseLedgerTable,
+  type ExpenseLedgerRow,
+} from "@/components/ledger";
+import BottomNav from "@/components/BottomNav";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { deleteReceiptImages } from "@/lib/receiptStorage";
+import { DEFAULT_EXPENSE_TAX_RATE, toConsumptionTaxRate } from "@/lib/consumptionTax";
+import type { RecurringEntryStatus } from "@/lib/recurring";
+
+/**
+ * 取得するカラム
+ */
+const EXPENSE_SELECT_COLUMNS =
+  "id, date, category, category_id, amount, tax_rate, invoice_registration_number, crop_name, planting_id, description, receipt_path, recurring_status, fixed_asset_id, created_at";
+
+/**
+ * DBのレコードを台帳の行に変換する
+ * （useLedger の再取得条件に含まれるため、モジュールレベルで定義して参照を固定する）
+ */
+const toExpenseLedgerRow = (record: Record<string, unknown>): ExpenseLedgerRow => ({
+  id: record.id as string,
+  date: record.date as string,
+  categoryId: (record.category_id as string | null) ?? null,
+  categoryName: record.category as string,
+  amount: record.amount as number,
+  taxRate: toConsumptionTaxRate(record.tax_rate, DEFAULT_EXPENSE_TAX_RATE),
+  invoiceRegistrationNumber: (record.invoice_registration_number as string | null) ?? null,
+  cropName: (record.crop_name as string | null) ?? null,
+  plantingId: (record.planting_id as string | null) ?? null,
+  description: (record.description as string | null) ?? null,
+  createdAt: record.created_at as string,
+  receiptPath: (record.receipt_path as string | null) ?? null,
+  recurringStatus: (record.recurring_status as RecurringEntryStatus | null) ?? null,
+  isDepreciation: Boolean(record.fixed_asset_id),
+});
+
+/**
+ * 経費の削除後に、紐付くレシート画像（証憑）も削除する
+ * （画面の再描画のたびに関数を作り直さないよう、モジュールレベルで定義）
+ *
+ * 科目別に分割登録したレシートは複数の経費が同じ画像を参照するため、
+ * 他の経費から参照されていない場合のみ画像を削除する
+ */
+const deleteExpenseReceipt = async (expense: ExpenseLedgerRow): Promise<void> => {
+  if (!expense.receiptPath) return;
+
+  const supabase = createSupabaseClient();
+  const { count, error } = await supabase
+    .from("expenses")
+    .select("id", { count: "exact", head: true })
+    .eq("receipt_path", expense.receiptPath);
+
+  if (error) throw error;
+  if ((count || 0) > 0) return;
+
+  await deleteReceiptImages(supabase, [expense.receiptPath]);
+};
+
+/**
+ * 経費台帳ページのエントリーポイント
+ *
+ * 行内編集で使う useExpenseForm が useSearchParams を使用するため、
+ * Suspenseでラップする（Next.js 13+の仕様）
+ */
+export default function ExpenseLedgerPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <ExpenseLedgerContent />
+    </Suspense>
+  );
+}
+
+/**
+ * ページ読み込み中のフォールバック表示
+ */
+function LoadingFallback() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-gray-500">読み込み中...</div>
+    </div>
+  );
+}
+
+/**
+ * 経費台帳の内容
+ */
+function ExpenseLedgerContent() {
+  const ledger = useLedger<ExpenseLedgerRow>({
+    tableName: "expenses",
+    selectColumns: EXPENSE_SELECT_COLUMNS,
+    mapRecord: toExpenseLedgerRow,
+    deleteConfirmMessage: "この経費を削除しますか？",
+    onDeleted: deleteExpenseReceipt,
+  });
+  const categoryOptions = useCategoryOptions();
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      {/* ヘッダー */}
+      <header className="bg-green-600 text-white shadow-md">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Link href="/dashboard">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/10 -ml-2"
+                >
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex items-center gap-2">
+                <Leaf className="h-6 w-6" />
+                <span className="text-xl font-bold">経費一覧</span>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-1">
+              <Link href="/import">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/10"
+                >
+                  <Upload className="h-4 w-4 mr-1" />
+                  CSV取込
+                </Button>
+              </Link>
+              <Link href="/expenses/new">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/10"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  登録
+                </Button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* メインコンテンツ */}
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 max-w-5xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">経費台帳</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <LedgerFilterBar
+              tableName="expenses"
+              filters={ledger.filters}
+              onFilterChange={ledger.updateFilter}
+              onReset={ledger.resetFilters}
+              categoryOptions={categoryOptions}
+            />
+
+            {ledger.errorMessage && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+                {ledger.errorMessage}
+              </div>
+            )}
+
+            {ledger.isLoading && ledger.rows.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+              </div>
+            ) : ledger.rows.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">
+                条件に一致する経費がありません
+              </p>
+            ) : (
+              <ExpenseLedgerTable
+                rows={ledger.rows}
+                sortState={ledger.sortState}
+                onSort={ledger.toggleSort}
+                editingId={ledger.editingId}
+                deletingId={ledger.deletingId}
+                onStartEdit={ledger.startEdit}
+                onCancelEdit={ledger.cancelEdit}
+                onSaved={ledger.handleSaved}
+                onDelete={ledger.deleteRecord}
+              />
+            )}
+
+            <LedgerPagination
+              page={ledger.page}
+              pageCount={ledger.pageCount}
+              totalCount={ledger.totalCount}
+              onPageChange={ledger.setPage}
+            />
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* 下部ナビゲーション */}
+      <BottomNav />
+    </div>
+  );
+}
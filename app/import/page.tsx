@@ -0,0 +1,173 @@
+"use client";
+
+/**
+ * 明細CSV取込ページ
+ *
+ * ビジネス上の役割:
+ * 銀行・JA（農協）の入出金明細CSVから、経費・売上をまとめて登録する画面
+ * 通帳を見ながら1件ずつ手入力する手間をなくす
+ *
+ * 手順:
+ * 1. CSVファイルを選択（Shift_JIS / UTF-8）
+ * 2. 日付・摘要・金額の列を対応付け
+ * 3. 入金 → 売上、出金 → 経費 として内容を確認・修正（重複の可能性がある行は対象外）
+ * 4. 登録
+ */
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, CheckCircle2, Loader2, Upload } from "lucide-react";
+import {
+  useCsvImport,
+  CsvUploadStep,
+  ColumnMappingStep,
+  ImportPreviewTable,
+} from "@/components/csv-import";
+import BottomNav from "@/components/BottomNav";
+
+/**
+ * 手順ごとの見出し
+ */
+const STEP_TITLES = {
+  upload: "1. ファイルを選択",
+  mapping: "2. 列の対応付け",
+  preview: "3. 取込内容の確認",
+  done: "取込完了",
+} as const;
+
+export default function CsvImportPage() {
+  const csvImport = useCsvImport();
+
+  const includedRows = csvImport.previewRows.filter((row) => row.isIncluded);
+  const duplicateCount = csvImport.previewRows.filter((row) => row.isDuplicate).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      {/* ヘッダー */}
+      <header className="bg-green-600 text-white shadow-md">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center gap-3">
+            <Link href="/dashboard">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-white hover:bg-white/10 -ml-2"
+              >
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div className="flex items-center gap-2">
+              <Upload className="h-6 w-6" />
+              <span className="text-xl font-bold">明細CSV取込</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* メインコンテンツ */}
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 max-w-5xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{STEP_TITLES[csvImport.step]}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* エラーメッセージ */}
+            {csvImport.errorMessage && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+                {csvImport.errorMessage}
+              </div>
+            )}
+
+            {csvImport.step === "upload" && (
+              <CsvUploadStep
+                isProcessing={csvImport.isProcessing}
+                onSelectFile={csvImport.selectFile}
+              />
+            )}
+
+            {csvImport.step === "mapping" && (
+              <ColumnMappingStep
+                fileName={csvImport.fileName}
+                encoding={csvImport.encoding}
+                csvRows={csvImport.csvRows}
+                mapping={csvImport.mapping}
+                isProcessing={csvImport.isProcessing}
+                onEncodingChange={csvImport.changeEncoding}
+                onMappingChange={csvImport.updateMapping}
+                onConfirm={csvImport.confirmMapping}
+                onCancel={csvImport.reset}
+              />
+            )}
+
+            {csvImport.step === "preview" && (
+              <>
+                <p className="text-sm text-gray-600">
+                  {csvImport.previewRows.length}件中 {includedRows.length}件を取り込みます
+                  {duplicateCount > 0 && (
+                    <span className="text-yellow-700">
+                      （重複の可能性 {duplicateCount}件は初期状態で対象外にしています）
+                    </span>
+                  )}
+                </p>
+
+                <ImportPreviewTable
+                  rows={csvImport.previewRows}
+                  categories={csvImport.categories}
+                  onRowChange={csvImport.updatePreviewRow}
+                />
+
+                <div className="flex gap-3">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={csvImport.backToMapping}
+                    disabled={csvImport.isProcessing}
+                  >
+                    戻る
+                  </Button>
+                  <Button
+                    type="button"
+                    onClick={csvImport.importRows}
+                    disabled={csvImport.isProcessing || includedRows.length === 0}
+                    className="flex-1 bg-green-600 hover:bg-green-700"
+                  >
+                    {csvImport.isProcessing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {includedRows.length}件を登録する
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {csvImport.step === "done" && csvImport.result && (
+              <div className="flex flex-col items-center gap-4 py-8 text-center">
+                <CheckCircle2 className="h-12 w-12 text-green-600" />
+                <p className="font-medium">
+                  経費{csvImport.result.expenseCount}件・売上{csvImport.result.saleCount}件を登録しました
+                </p>
+                <div className="flex flex-wrap justify-center gap-3">
+                  <Link href="/expenses">
+                    <Button variant="outline">経費一覧を見る</Button>
+                  </Link>
+                  <Link href="/sales">
+                    <Button variant="outline">売上一覧を見る</Button>
+                  </Link>
+                  <Button
+                    type="button"
+                    onClick={csvImport.reset}
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    続けて取り込む
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* 下部ナビゲーション */}
+      <BottomNav />
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+/**
+ * 農場への招待の受諾ページ
+ *
+ * ビジネス上の役割:
+ * 招待メールのリンクから開き、招待された農場のメンバーとして参加する画面
+ *
+ * 処理の流れ:
+ * 1. 招待メールのリンクでログインした場合は、URLに含まれるセッションを保存する
+ * 2. 未ログインの場合はログイン画面へ（ログイン後にこのページに戻る）
+ * 3. 「参加する」で招待を受諾し、現在の農場を招待された農場に切り替えてダッシュボードへ
+ * 4. 招待メールから初めて登録したユーザーは、次回からログインできるようパスワードを設定する
+ */
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import type { User } from "@supabase/supabase-js";
+import { acceptFarmInvitation } from "@/lib/farms";
+
+// UIコンポーネント
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Leaf, Loader2, Users } from "lucide-react";
+
+/** パスワードの最小文字数（新規登録画面と同じ） */
+const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * URLのハッシュ（#access_token=...）に含まれるセッションを保存する
+ * （Supabaseの招待メール・ログインリンクは、セッションをハッシュに付けてリダイレクトする）
+ *
+ * @returns 招待メールから初めてログインした場合は true
+ */
+async function restoreSessionFromHash(
+  supabase: ReturnType<typeof createSupabaseClient>
+): Promise<boolean> {
+  const hashParams = new URLSearchParams(window.location.hash.replace(/^#/, ""));
+  const accessToken = hashParams.get("access_token");
+  const refreshToken = hashParams.get("refresh_token");
+
+  if (!accessToken || !refreshToken) {
+    return false;
+  }
+
+  const { error } = await supabase.auth.setSession({
+    access_token: accessToken,
+    refresh_token: refreshToken,
+  });
+
+  // トークンをURLに残さない
+  window.history.replaceState(null, "", window.location.pathname);
+
+  if (error) {
+    console.error("招待リンクのセッション保存エラー:", error);
+    return false;
+  }
+
+  return hashParams.get("type") === "invite";
+}
+
+/**
+ * 招待の受諾ページのメインコンポーネント
+ */
+export default function AcceptInvitationPage() {
+  const router = useRouter();
+  const { token } = useParams<{ token: string }>();
+
+  // ログインユーザー
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+
+  // 招待メールから初めて登録したユーザーか（パスワードの設定が必要）
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState("");
+
+  // 状態
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * コンポーネントマウント時にログイン状態を確認
+   */
+  useEffect(() => {
+    const checkAuth = async () => {
+      try {
+        const supabase = createSupabaseClient();
+        const isInvitedSignup = await restoreSessionFromHash(supabase);
+
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+
+        if (!user) {
+          // 未ログインの場合はログイン画面へ（ログイン後にこのページに戻る）
+          router.push(`/login?redirectTo=${encodeURIComponent(`/invitations/${token}`)}`);
+          return;
+        }
+
+        setCurrentUser(user);
+        setNeedsPassword(isInvitedSignup);
+      } catch (err) {
+        console.error("認証確認エラー:", err);
+        setError("ログイン状態の確認に失敗しました");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    checkAuth();
+  }, [router, token]);
+
+  /**
+   * 招待を受諾して農場に参加
+   */
+  async function handleAccept() {
+    if (needsPassword && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`パスワードは${MIN_PASSWORD_LENGTH}文字以上で入力してください`);
+      return;
+    }
+
+    try {
+      setIsAccepting(true);
+      setError(null);
+
+      const supabase = createSupabaseClient();
+
+      // 招待メールから登録したユーザーは、次回からログインできるようパスワードを設定
+      if (needsPassword) {
+        const { error: passwordError } = await supabase.auth.updateUser({ password });
+        if (passwordError) {
+          throw new Error("パスワードの設定に失敗しました");
+        }
+      }
+
+      await acceptFarmInvitation(supabase, token);
+
+      // 現在の農場が切り替わったため、ダッシュボードを読み込み直す
+      router.push("/dashboard");
+      router.refresh();
+    } catch (err) {
+      console.error("招待の受諾エラー:", err);
+      setError(err instanceof Error ? err.message : "農場への参加に失敗しました");
+    } finally {
+      setIsAccepting(false);
+    }
+  }
+
+  // ローディング中・リダイレクト中の表示
+  if (isLoading || !currentUser) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        {error ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700 max-w-md mx-auto">
+            {error}
+          </div>
+        ) : (
+          <div className="text-center">
+            <Loader2 className="h-10 w-10 animate-spin text-green-600 mx-auto mb-4" />
+            <p className="text-gray-600">読み込み中...</p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="border-b">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Leaf className="h-5 w-5 text-green-600" />
+            農場への招待
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-4">
+          <p className="flex items-start gap-2 text-sm text-gray-700">
+            <Users className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
+            <span>
+              {currentUser.email} として農場に参加します。
+              参加すると、その農場の経費・売上などを役割に応じて閲覧・登録できるようになります。
+            </span>
+          </p>
+
+          {/* 招待メールから初めて登録したユーザーのパスワード設定 */}
+          {needsPassword && (
+            <div className="space-y-2">
+              <Label htmlFor="invitation-password">ログイン用のパスワード</Label>
+              <Input
+                id="invitation-password"
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                placeholder={`${MIN_PASSWORD_LENGTH}文字以上`}
+                autoComplete="new-password"
+              />
+              <p className="text-xs text-gray-500">
+                次回からこのメールアドレスとパスワードでログインできます。
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => router.push("/dashboard")}
+              disabled={isAccepting}
+            >
+              あとで
+            </Button>
+            <Button
+              className="flex-1 bg-green-600 hover:bg-green-700"
+              onClick={handleAccept}
+              disabled={isAccepting}
+            >
+              {isAccepting ? <Loader2 className="h-4 w-4 animate-spin" /> : "参加する"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
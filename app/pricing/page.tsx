@@ -26,7 +26,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { PricingTable } from "@/components/pricing";
 import { createSupabaseClient } from "@/lib/supabase/client";
-import { getUserPlanType } from "@/lib/subscription";
+import { getFarmPlanType } from "@/lib/subscription";
+import { getCurrentFarmId } from "@/lib/farms";
 import type { PlanType } from "@/lib/stripe";
 import type { User } from "@supabase/supabase-js";
 
@@ -61,8 +62,9 @@ export default function PricingPage() {
         if (user) {
           setCurrentUser(user);
 
-          // ログイン済みの場合はプランタイプも取得
-          const planType = await getUserPlanType(supabase, user.id);
+          // ログイン済みの場合は現在の農場のプランタイプも取得
+          const farmId = await getCurrentFarmId(supabase);
+          const planType = await getFarmPlanType(supabase, farmId);
           setCurrentPlanType(planType);
         }
       } catch (err) {
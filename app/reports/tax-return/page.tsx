@@ -0,0 +1,178 @@
+"use client";
+
+/**
+ * 青色申告決算書（農業所得用）ページ
+ *
+ * ビジネス上の役割:
+ * 1年分（1月〜12月）の売上・経費から、確定申告で提出する
+ * 青色申告決算書の損益計算書と月別収入金額を作成する画面
+ *
+ * 機能:
+ * - 対象年の選択（初期値は前年）
+ * - 勘定科目を決算書の経費欄（種苗費、肥料費など）に振り分けて表示
+ *   （振り分け先は設定画面の「決算書の科目対応」で変更可能）
+ * - 固定資産台帳から「減価償却費の計算」欄を作成して表示
+ * - 印刷（ブラウザの印刷機能。ヘッダーやボタンは印刷されない）
+ * - Excel出力（プランの「データエクスポート回数」と連動）
+ */
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Download, FileText, Loader2, Printer } from "lucide-react";
+import {
+  useTaxReturnReport,
+  IncomeStatementTable,
+  MonthlyRevenueTable,
+  DepreciationTable,
+} from "@/components/tax-return";
+import BottomNav from "@/components/BottomNav";
+
+/** 選択できる年の数（今年から過去に遡る） */
+const SELECTABLE_YEAR_COUNT = 6;
+
+export default function TaxReturnReportPage() {
+  const { year, report, isLoading, isExporting, errorMessage, setYear, exportExcel } =
+    useTaxReturnReport();
+
+  const currentYear = new Date().getFullYear();
+  const yearOptions = Array.from(
+    { length: SELECTABLE_YEAR_COUNT },
+    (_, index) => currentYear - index
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20 print:bg-white print:pb-0">
+      {/* ヘッダー（印刷しない） */}
+      <header className="bg-green-600 text-white shadow-md print:hidden">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Link href="/analysis">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/10 -ml-2"
+                >
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex items-center gap-2">
+                <FileText className="h-6 w-6" />
+                <span className="text-xl font-bold">青色申告決算書</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 max-w-3xl print:max-w-none print:p-0">
+        {/* 操作エリア（印刷しない） */}
+        <div className="mb-6 flex flex-wrap items-end gap-3 print:hidden">
+          <div className="space-y-1">
+            <Label htmlFor="tax-return-year" className="text-xs text-gray-600">
+              対象年
+            </Label>
+            <select
+              id="tax-return-year"
+              value={year}
+              onChange={(event) => setYear(Number(event.target.value))}
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+            >
+              {yearOptions.map((optionYear) => (
+                <option key={optionYear} value={optionYear}>
+                  {optionYear}年分
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => window.print()}
+            disabled={!report || isLoading}
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            印刷
+          </Button>
+          <Button
+            type="button"
+            onClick={exportExcel}
+            disabled={!report || isLoading || isExporting}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Excel出力
+          </Button>
+
+          <Link href="/settings" className="text-sm text-green-600 hover:underline ml-auto">
+            経費欄の対応付けを変更する
+          </Link>
+        </div>
+
+        {/* エラーメッセージ */}
+        {errorMessage && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md text-red-700 print:hidden">
+            {errorMessage}
+          </div>
+        )}
+
+        {isLoading || !report ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-green-600" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* 損益計算書 */}
+            <Card className="print:shadow-none print:border-0">
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  {report.year}年分 青色申告決算書（農業所得用） 損益計算書
+                </CardTitle>
+                <div className="text-sm text-gray-600 space-y-0.5">
+                  <p>期間: {report.year}年1月1日 〜 {report.year}年12月31日</p>
+                  {report.farmName && <p>農場名: {report.farmName}</p>}
+                  {report.ownerName && <p>氏名: {report.ownerName}</p>}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <IncomeStatementTable report={report} />
+              </CardContent>
+            </Card>
+
+            {/* 月別収入・経費（印刷時は改ページ） */}
+            <Card className="print:shadow-none print:border-0 print:break-before-page">
+              <CardHeader>
+                <CardTitle className="text-lg">月別収入金額・経費</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <MonthlyRevenueTable report={report} />
+              </CardContent>
+            </Card>
+
+            {/* 減価償却費の計算（印刷時は改ページ） */}
+            <Card className="print:shadow-none print:border-0 print:break-before-page">
+              <CardHeader>
+                <CardTitle className="text-lg">減価償却費の計算</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DepreciationTable report={report} />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      {/* 下部ナビゲーション（印刷しない） */}
+      <div className="print:hidden">
+        <BottomNav />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+/**
+ * 売上台帳ページ
+ *
+ * ビジネス上の役割:
+ * 登録済みの売上を一覧で確認し、金額の入力ミスなどを後から修正・削除できる画面
+ *
+ * 機能:
+ * - 期間・作物名・出荷先による絞り込み
+ * - 日付・作物名・出荷先・金額による並び替え
+ * - ページ送り（1ページ20件）
+ * - 行内編集（売上登録フォームと同じ useSaleForm を使用）と削除
+ */
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Leaf, Loader2, Plus, Upload } from "lucide-react";
+import {
+  useLedger,
+  LedgerFilterBar,
+  LedgerPagination,
+  SaleLedgerTable,
+  type SaleLedgerRow,
+} from "@/components/ledger";
+import BottomNav from "@/components/BottomNav";
+import { DEFAULT_SALE_TAX_RATE, toConsumptionTaxRate } from "@/lib/consumptionTax";
+import type { RecurringEntryStatus } from "@/lib/recurring";
+
+/**
+ * 取得するカラム
+ */
+const SALE_SELECT_COLUMNS =
+  "id, date, crop_name, customer, unit_price, quantity, amount, tax_rate, planting_id, payment_due_date, description, recurring_status, created_at";
+
+/**
+ * DBのレコードを台帳の行に変換する
+ * （useLedger の再取得条件に含まれるため、モジュールレベルで定義して参照を固定する）
+ */
+const toSaleLedgerRow = (record: Record<string, unknown>): SaleLedgerRow => ({
+  id: record.id as string,
+  date: record.date as string,
+  cropName: record.crop_name as string,
+  customer: record.customer as string,
+  unitPrice: (record.unit_price as number | null) ?? null,
+  quantity: (record.quantity as number | null) ?? null,
+  amount: record.amount as number,
+  taxRate: toConsumptionTaxRate(record.tax_rate, DEFAULT_SALE_TAX_RATE),
+  plantingId: (record.planting_id as string | null) ?? null,
+  paymentDueDate: (record.payment_due_date as string | null) ?? null,
+  description: (record.description as string | null) ?? null,
+  createdAt: record.created_at as string,
+  recurringStatus: (record.recurring_status as RecurringEntryStatus | null) ?? null,
+});
+
+export default function SaleLedgerPage() {
+  const ledger = useLedger<SaleLedgerRow>({
+    tableName: "sales",
+    selectColumns: SALE_SELECT_COLUMNS,
+    mapRecord: toSaleLedgerRow,
+    deleteConfirmMessage: "この売上を削除しますか？",
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      {/* ヘッダー */}
+      <header className="bg-green-600 text-white shadow-md">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Link href="/dashboard">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/10 -ml-2"
+                >
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex items-center gap-2">
+                <Leaf className="h-6 w-6" />
+                <span className="text-xl font-bold">売上一覧</span>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-1">
+              <Link href="/import">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/10"
+                >
+                  <Upload className="h-4 w-4 mr-1" />
+                  CSV取込
+                </Button>
+              </Link>
+              <Link href="/sales/new">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/10"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  登録
+                </Button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* メインコンテンツ */}
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 max-w-5xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">売上台帳</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <LedgerFilterBar
+              tableName="sales"
+              filters={ledger.filters}
+              onFilterChange={ledger.updateFilter}
+              onReset={ledger.resetFilters}
+            />
+
+            {ledger.errorMessage && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+                {ledger.errorMessage}
+              </div>
+            )}
+
+            {ledger.isLoading && ledger.rows.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+              </div>
+            ) : ledger.rows.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">
+                条件に一致する売上がありません
+              </p>
+            ) : (
+              <SaleLedgerTable
+                rows={ledger.rows}
+                sortState={ledger.sortState}
+                onSort={ledger.toggleSort}
+                editingId={ledger.editingId}
+                deletingId={ledger.deletingId}
+                onStartEdit={ledger.startEdit}
+                onCancelEdit={ledger.cancelEdit}
+                onSaved={ledger.handleSaved}
+                onDelete={ledger.deleteRecord}
+              />
+            )}
+
+            <LedgerPagination
+              page={ledger.page}
+              pageCount={ledger.pageCount}
+              totalCount={ledger.totalCount}
+              onPageChange={ledger.setPage}
+            />
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* 下部ナビゲーション */}
+      <BottomNav />
+    </div>
+  );
+}
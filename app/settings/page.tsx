@@ -4,7 +4,7 @@
  * 設定ページ
  *
  * ビジネス上の役割:
- * ユーザーが農場情報（農場名、代表者名）と勘定科目を管理できる画面
+ * ユーザーが農場情報（農場名、代表者名）・メンバー・勘定科目・定期的な取引を管理できる画面
  * これらの設定は帳票出力や経費登録時に使用される
  */
 
@@ -22,10 +22,18 @@ import { ArrowLeft, Leaf, Loader2 } from "lucide-react";
 import {
   UserProfileSection,
   ExpenseCategorySection,
+  FieldSection,
+  TaxFormMappingSection,
+  RecurringRuleSection,
+  FixedAssetSection,
+  BudgetSection,
 } from "@/components/settings";
 
 // サブスクリプション管理コンポーネント
-import { SubscriptionSection } from "@/components/subscription";
+import { BillingHistorySection, SubscriptionSection } from "@/components/subscription";
+
+// 農場メンバー管理コンポーネント
+import { FarmMembersSection } from "@/components/farms";
 
 // 下部ナビゲーション
 import BottomNav from "@/components/BottomNav";
@@ -163,11 +171,32 @@ export default function SettingsPage() {
           {/* プランと使用状況セクション */}
           <SubscriptionSection userId={currentUser.id} />
 
+          {/* 請求履歴セクション */}
+          <BillingHistorySection />
+
           {/* 農場情報セクション */}
           <UserProfileSection userId={currentUser.id} />
 
+          {/* メンバー管理セクション */}
+          <FarmMembersSection userId={currentUser.id} />
+
           {/* 勘定科目管理セクション */}
           <ExpenseCategorySection userId={currentUser.id} />
+
+          {/* 圃場管理セクション */}
+          <FieldSection userId={currentUser.id} />
+
+          {/* 決算書の科目対応セクション */}
+          <TaxFormMappingSection userId={currentUser.id} />
+
+          {/* 定期的な取引セクション */}
+          <RecurringRuleSection userId={currentUser.id} />
+
+          {/* 固定資産台帳セクション */}
+          <FixedAssetSection userId={currentUser.id} />
+
+          {/* 予算・売上目標セクション */}
+          <BudgetSection userId={currentUser.id} />
         </div>
       </main>
 
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { createSupabaseClient } from "@/lib/supabase/client";
+import { fetchFinancialSummary, getMonthDateRange } from "@/lib/aggregation";
 import type { Expense } from "@/lib/supabase";
 import { getYearMonthOptions, parseYearMonth } from "@/lib/dateUtils";
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts";
@@ -47,13 +48,6 @@ export default function ExpensePieChart() {
   const [selectedYear, setSelectedYear] = useState(now.getFullYear());
   const [selectedMonth, setSelectedMonth] = useState(now.getMonth() + 1);
 
-  // 選択された年月の開始日と終了日を取得
-  const getSelectedMonthRange = (year: number, month: number) => {
-    const startDate = new Date(year, month - 1, 1).toISOString().split("T")[0];
-    const endDate = new Date(year, month, 0).toISOString().split("T")[0];
-    return { startDate, endDate };
-  };
-
   // 通貨フォーマット関数
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("ja-JP", {
@@ -75,36 +69,19 @@ export default function ExpensePieChart() {
         // 認証対応のSupabaseクライアントを作成（RLSでユーザーのデータのみ取得可能）
         const supabase = createSupabaseClient();
 
-        const { startDate, endDate } = getSelectedMonthRange(selectedYear, selectedMonth);
-
-        // 選択された月の経費データを取得（RLSにより自分のデータのみ）
-        const { data, error: supabaseError } = await supabase
-          .from("expenses")
-          .select("category, amount")
-          .gte("date", startDate)
-          .lte("date", endDate);
+        const { startDate, endDate } = getMonthDateRange(selectedYear, selectedMonth);
 
-        if (supabaseError) throw supabaseError;
+        // 選択された月の科目別経費をデータベース側で集計（RLSにより自分のデータのみ）
+        const { categories } = await fetchFinancialSummary(supabase, startDate, endDate);
 
         if (!isMounted) return;
 
-        // カテゴリーごとに集計
-        const categoryMap = new Map<string, number>();
-        data?.forEach((expense) => {
-          const category = expense.category || "未分類";
-          const amount = expense.amount || 0;
-          const current = categoryMap.get(category) || 0;
-          categoryMap.set(category, current + amount);
-        });
-
         // 詳細リスト用データ（全ての科目を金額順に）
-        const allCategories: CategoryData[] = Array.from(categoryMap.entries())
-          .map(([category, amount]) => ({
-            category,
-            amount,
-            percentage: 0, // 後で計算
-          }))
-          .sort((a, b) => b.amount - a.amount);
+        const allCategories: CategoryData[] = categories.map((item) => ({
+          category: item.category,
+          amount: item.amount,
+          percentage: 0, // 後で計算
+        }));
 
         const total = allCategories.reduce((sum, item) => sum + item.amount, 0);
         setTotalAmount(total);
@@ -7,6 +7,7 @@
  * - 分析画面から指定期間のデータをExcelファイルでダウンロード
  * - 確定申告資料や税理士への提出資料として活用
  * - プランの「データエクスポート回数」と連動（無料プラン: 月3回まで）
+ * - 月次推移が前年比較モードのときは、前年比較のシートも出力
  *
  * スマホ対応:
  * - タップしやすい大きさのボタン
@@ -17,13 +18,6 @@
 import { useState } from "react";
 import { Download, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { createSupabaseClient } from "@/lib/supabase/client";
-import { checkUsageLimit, incrementUsage } from "@/lib/subscription";
-import {
-  downloadExcelReport,
-  type SaleRecord,
-  type ExpenseRecord,
-} from "@/lib/excelExport";
 
 /**
  * コンポーネントのプロパティ
@@ -37,6 +31,18 @@ interface ExportButtonProps {
   endYear: number;
   /** 終了月（1-12） */
   endMonth: number;
+  /** 前年比較でさかのぼる年数（前年比較モードのときのみ指定） */
+  comparisonYears?: number;
+}
+
+/**
+ * レスポンスの Content-Disposition ヘッダーからファイル名を取り出す
+ * （日本語のファイル名は filename*=UTF-8''... 形式で返る）
+ */
+function getFileNameFromResponse(response: Response): string {
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const encodedFileName = disposition.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+  return encodedFileName ? decodeURIComponent(encodedFileName) : "農業経営レポート.xlsx";
 }
 
 export default function ExportButton({
@@ -44,6 +50,7 @@ export default function ExportButton({
   startMonth,
   endYear,
   endMonth,
+  comparisonYears,
 }: ExportButtonProps) {
   // ダウンロード中の状態管理
   const [isExporting, setIsExporting] = useState(false);
@@ -53,105 +60,38 @@ export default function ExportButton({
    * Excel出力処理
    *
    * ビジネス上の流れ:
-   * 1. ログインユーザーを確認
-   * 2. エクスポート使用制限をチェック（無料プラン: 月3回まで）
-   * 3. 指定期間の売上・経費データをSupabaseから取得
-   * 4. Excelファイルを生成してダウンロード
-   * 5. 使用回数をカウントアップ
+   * 1. 期間を指定して /api/export にファイルの作成を依頼
+   *    （認証・使用制限のチェック・データ取得・ファイル作成はすべてサーバーで行う）
+   * 2. 返ってきたファイルをダウンロード
+   * 3. 使用制限やデータなしの場合は、サーバーからのメッセージを表示
    */
   const handleExport = async () => {
     try {
       setIsExporting(true);
       setExportError(null);
 
-      const supabase = createSupabaseClient();
-
-      // ========================================
-      // Step 1: ログインユーザーの確認
-      // ========================================
-      const { data: { user }, error: authError } = await supabase.auth.getUser();
+      const response = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ startYear, startMonth, endYear, endMonth, comparisonYears }),
+      });
 
-      if (authError || !user) {
-        setExportError("ログインが必要です");
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        setExportError(result?.error || "Excel出力に失敗しました");
         return;
       }
 
-      // ========================================
-      // Step 2: エクスポート使用制限のチェック
-      // ========================================
-      // プランの「データエクスポート回数」と紐付け
-      const usageCheck = await checkUsageLimit(supabase, user.id, "export");
-
-      if (!usageCheck.allowed) {
-        setExportError(
-          `今月のエクスポート回数（${usageCheck.limit}回）に達しました。プランをアップグレードすると無制限で使用できます。`
-        );
-        return;
-      }
-
-      // ========================================
-      // Step 3: データ取得
-      // ========================================
-      // 指定期間の開始日・終了日を計算
-      const periodStartDate = new Date(startYear, startMonth - 1, 1)
-        .toISOString()
-        .split("T")[0];
-      const periodEndDate = new Date(endYear, endMonth, 0)
-        .toISOString()
-        .split("T")[0];
-
-      // 売上データと経費データを並行取得（RLSで自分のデータのみ）
-      const [salesResult, expensesResult] = await Promise.all([
-        supabase
-          .from("sales")
-          .select("id, date, crop_name, customer, unit_price, quantity, amount, description")
-          .gte("date", periodStartDate)
-          .lte("date", periodEndDate)
-          .order("date", { ascending: true }),
-        supabase
-          .from("expenses")
-          .select("id, date, category, amount, description")
-          .gte("date", periodStartDate)
-          .lte("date", periodEndDate)
-          .order("date", { ascending: true }),
-      ]);
-
-      // エラーチェック
-      if (salesResult.error) {
-        throw new Error(`売上データの取得に失敗: ${salesResult.error.message}`);
-      }
-      if (expensesResult.error) {
-        throw new Error(`経費データの取得に失敗: ${expensesResult.error.message}`);
-      }
-
-      // データを型変換
-      const salesData: SaleRecord[] = salesResult.data || [];
-      const expensesData: ExpenseRecord[] = expensesResult.data || [];
-
-      // データが0件の場合は警告
-      if (salesData.length === 0 && expensesData.length === 0) {
-        setExportError("指定期間にデータがありません");
-        return;
-      }
-
-      // ========================================
-      // Step 4: Excelファイル生成・ダウンロード
-      // ========================================
-      const startYearMonth = `${startYear}年${startMonth}月`;
-      const endYearMonth = `${endYear}年${endMonth}月`;
-
-      downloadExcelReport(salesData, expensesData, startYearMonth, endYearMonth);
-
-      // ========================================
-      // Step 5: 使用回数をカウントアップ
-      // ========================================
-      // ダウンロード成功後に使用回数を1増やす
-      try {
-        await incrementUsage(supabase, user.id, "export");
-      } catch (usageError) {
-        // カウントアップ失敗してもダウンロード自体は成功しているので、エラーはログのみ
-        console.error("エクスポート使用回数の更新に失敗:", usageError);
-      }
+      // 受け取ったファイルをダウンロード（iOS/Androidのブラウザでも動作するリンク方式）
+      const fileBlob = await response.blob();
+      const fileUrl = URL.createObjectURL(fileBlob);
+      const link = document.createElement("a");
+      link.href = fileUrl;
+      link.download = getFileNameFromResponse(response);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(fileUrl);
     } catch (error: unknown) {
       const message =
         error instanceof Error ? error.message : "Excel出力に失敗しました";
@@ -0,0 +1,87 @@
+"use client";
+
+/**
+ * 予算と実績の比較を管理するカスタムフック
+ *
+ * 責務:
+ * - 指定した年の予算・売上目標と、今月までの実績の取得
+ * - 予算超過・ペース超過・目標未達の行の抽出
+ *
+ * ビジネス上の流れ:
+ * 1. 分析画面で年を選ぶと、その年の予算と実績を再取得
+ * 2. 今年は今月まで、過去の年は12月までの予算と実績を比べる
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import {
+  fetchBudgetVsActual,
+  getBudgetAlerts,
+  type BudgetVsActualReport,
+  type BudgetVsActualRow,
+} from "@/lib/budget";
+
+/**
+ * useBudgetVsActual カスタムフックの戻り値
+ */
+export interface UseBudgetVsActualReturn {
+  report: BudgetVsActualReport | null;     // 予算と実績の比較結果
+  alerts: BudgetVsActualRow[];             // 予算超過・ペース超過・目標未達の行
+  isLoading: boolean;                      // 読み込み中フラグ
+  errorMessage: string | null;             // エラーメッセージ
+}
+
+/**
+ * 予算と実績の比較のカスタムフック
+ *
+ * @param year - 対象年
+ */
+export function useBudgetVsActual(year: number): UseBudgetVsActualReturn {
+  const [report, setReport] = useState<BudgetVsActualReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 年が変わるたびに再取得
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchReport = async () => {
+      try {
+        setIsLoading(true);
+        setErrorMessage(null);
+
+        // RLSにより現在の農場のデータのみ取得される
+        const supabase = createSupabaseClient();
+        const budgetReport = await fetchBudgetVsActual(supabase, year);
+
+        if (!isMounted) return;
+        setReport(budgetReport);
+      } catch (error: unknown) {
+        if (!isMounted) return;
+        console.error("予算と実績の取得エラー:", error);
+        setErrorMessage(
+          error instanceof Error ? error.message : "予算と実績の取得に失敗しました"
+        );
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchReport();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [year]);
+
+  const alerts = useMemo(() => (report ? getBudgetAlerts(report) : []), [report]);
+
+  return {
+    report,
+    alerts,
+    isLoading,
+    errorMessage,
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * 予算と実績コンポーネントのエクスポート
+ */
+export { useBudgetVsActual } from "./hooks/useBudgetVsActual";
+export type { UseBudgetVsActualReturn } from "./hooks/useBudgetVsActual";
+export { BudgetVsActualSection } from "./views/BudgetVsActualSection";
+export { BudgetVsActualTable } from "./views/BudgetVsActualTable";
+export { BudgetVsActualChart } from "./views/BudgetVsActualChart";
@@ -0,0 +1,89 @@
+"use client";
+
+/**
+ * 予算と実績の比較グラフ
+ *
+ * ビジネス上の役割:
+ * 予算（目標）を登録した勘定科目・作物ごとに、今月までの予算と実績を棒で並べて比べる
+ */
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type { BudgetKind, BudgetVsActualRow } from "@/lib/budget";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface BudgetVsActualChartProps {
+  kind: BudgetKind;
+  rows: BudgetVsActualRow[];
+}
+
+export function BudgetVsActualChart({ kind, rows }: BudgetVsActualChartProps) {
+  // 予算のない行はグラフに出さない（表にのみ表示）
+  const chartData = rows
+    .filter((row) => row.annualBudget > 0)
+    .map((row) => ({
+      label: row.label,
+      budget: row.budgetToDate,
+      actual: row.actualToDate,
+    }));
+
+  if (chartData.length === 0) {
+    return null;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <BarChart data={chartData}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="label"
+          tick={{ fontSize: 12 }}
+          angle={-45}
+          textAnchor="end"
+          height={80}
+          interval={0}
+        />
+        <YAxis
+          tick={{ fontSize: 12 }}
+          tickFormatter={(value) => `${(value / 10000).toFixed(0)}万`}
+        />
+        <Tooltip
+          formatter={(value: number | undefined) =>
+            value !== undefined ? formatCurrency(value) : ""
+          }
+          labelStyle={{ color: "#000" }}
+        />
+        <Legend verticalAlign="bottom" />
+        <Bar
+          dataKey="budget"
+          name={kind === "expense" ? "予算（今月まで）" : "目標（今月まで）"}
+          fill="#cbd5e1"
+        />
+        <Bar
+          dataKey="actual"
+          name="実績"
+          fill={kind === "expense" ? "#8b5cf6" : "#22c55e"}
+        />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+/**
+ * 予算と実績セクション（分析画面）
+ *
+ * ビジネス上の役割:
+ * 設定画面で登録した経費の予算・売上目標と実績を比べ、
+ * 使いすぎの勘定科目や目標に届いていない作物に早めに気付けるようにする
+ *
+ * 表示ルール:
+ * - 今年は今月まで、過去の年は12月までの予算と実績を比べる
+ * - 予算超過・ペース超過・目標未達の科目・作物は、表の上に警告として表示する
+ * - 予算を登録していない場合は、設定画面への案内を表示する
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { BUDGET_STATUS_LABELS, type BudgetVsActualRow } from "@/lib/budget";
+import { useBudgetVsActual } from "../hooks/useBudgetVsActual";
+import { BudgetVsActualChart } from "./BudgetVsActualChart";
+import { BudgetVsActualTable } from "./BudgetVsActualTable";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * 警告の説明文
+ */
+const getAlertMessage = (row: BudgetVsActualRow): string => {
+  if (row.status === "over") {
+    return `年間予算 ${formatCurrency(row.annualBudget)} を ${formatCurrency(row.actualToDate - row.annualBudget)} 超えています`;
+  }
+  if (row.status === "warning") {
+    return `今月までの予算を ${formatCurrency(row.variance)} 上回るペースです（消化率 ${row.burnRate?.toFixed(1)}%）`;
+  }
+  return `今月までの目標に ${formatCurrency(-row.variance)} 届いていません（達成率 ${row.burnRate?.toFixed(1)}%）`;
+};
+
+export function BudgetVsActualSection() {
+  const currentYear = new Date().getFullYear();
+  // 前年・今年・来年を選べる（設定画面と同じ）
+  const yearOptions = [currentYear - 1, currentYear, currentYear + 1];
+  const [year, setYear] = useState(currentYear);
+
+  const { report, alerts, isLoading, errorMessage } = useBudgetVsActual(year);
+
+  const hasBudget =
+    report !== null &&
+    [...report.expenseRows, ...report.salesRows].some((row) => row.annualBudget > 0);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">予算と実績</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {report && report.throughMonth > 0
+              ? `${report.year}年1月〜${report.throughMonth}月の予算（目標）と実績の比較`
+              : "勘定科目ごとの予算・作物ごとの売上目標と実績の比較"}
+          </p>
+        </div>
+
+        {/* 対象年 */}
+        <div className="w-32">
+          <Label htmlFor="budgetVsActualYear" className="text-sm">
+            対象年
+          </Label>
+          <select
+            id="budgetVsActualYear"
+            value={year}
+            onChange={(event) => setYear(Number(event.target.value))}
+            className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+          >
+            {yearOptions.map((optionYear) => (
+              <option key={optionYear} value={optionYear}>
+                {optionYear}年
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          {errorMessage}
+        </div>
+      )}
+
+      {isLoading ? (
+        <Card className="animate-pulse">
+          <CardContent className="p-6">
+            <div className="h-40 bg-gray-200 rounded"></div>
+          </CardContent>
+        </Card>
+      ) : !report ? null : !hasBudget ? (
+        <Card>
+          <CardContent className="p-6 text-center text-gray-500">
+            {year}年の予算・売上目標が登録されていません。
+            <Link href="/settings" className="text-green-700 underline ml-1">
+              設定画面
+            </Link>
+            で登録してください。
+          </CardContent>
+        </Card>
+      ) : report.throughMonth === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-gray-500">
+            {year}年はまだ始まっていないため、比べる実績がありません
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {/* 予算超過・ペース超過・目標未達の警告 */}
+          {alerts.length > 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-md space-y-1">
+              <p className="flex items-center gap-2 font-medium text-amber-800">
+                <AlertTriangle className="h-4 w-4" />
+                注意が必要な科目・作物があります
+              </p>
+              <ul className="text-sm text-amber-800 space-y-1">
+                {alerts.map((row) => (
+                  <li key={`${row.kind}:${row.label}`}>
+                    【{BUDGET_STATUS_LABELS[row.status]}】{row.label}：{getAlertMessage(row)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.expenseRows.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">経費（勘定科目ごと）</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <BudgetVsActualChart kind="expense" rows={report.expenseRows} />
+                <BudgetVsActualTable kind="expense" rows={report.expenseRows} />
+              </CardContent>
+            </Card>
+          )}
+
+          {report.salesRows.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">売上（作物ごと）</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <BudgetVsActualChart kind="sale" rows={report.salesRows} />
+                <BudgetVsActualTable kind="sale" rows={report.salesRows} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
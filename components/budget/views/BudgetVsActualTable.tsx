@@ -0,0 +1,109 @@
+/**
+ * 予算と実績の比較テーブル
+ *
+ * ビジネス上の役割:
+ * 勘定科目（作物）ごとに、今月までの予算と実績・差異・消化率を並べ、
+ * 使いすぎの科目や目標に届いていない作物を一目で確認できるようにする
+ *
+ * 表示ルール:
+ * - 経費は予算を上回った差異を赤字、売上は目標を下回った差異を赤字で表示
+ * - 判定（予算超過・ペース超過・目標未達）はバッジで表示
+ */
+
+import {
+  BUDGET_STATUS_LABELS,
+  type BudgetKind,
+  type BudgetStatus,
+  type BudgetVsActualRow,
+} from "@/lib/budget";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * 判定ごとのバッジの色
+ */
+const STATUS_BADGE_CLASS_NAMES: Record<BudgetStatus, string> = {
+  over: "bg-red-100 text-red-700",
+  warning: "bg-amber-100 text-amber-700",
+  behind: "bg-amber-100 text-amber-700",
+  ok: "bg-green-100 text-green-700",
+  no_budget: "bg-gray-100 text-gray-600",
+};
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface BudgetVsActualTableProps {
+  kind: BudgetKind;
+  rows: BudgetVsActualRow[];
+}
+
+export function BudgetVsActualTable({ kind, rows }: BudgetVsActualTableProps) {
+  const headerCellClassName = "px-3 py-2 text-right font-medium text-gray-600 whitespace-nowrap";
+  const cellClassName = "px-3 py-2 text-right whitespace-nowrap";
+  const budgetLabel = kind === "expense" ? "予算" : "目標";
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full min-w-[720px] text-sm">
+        <thead className="border-b bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-gray-600">
+              {kind === "expense" ? "勘定科目" : "作物"}
+            </th>
+            <th className={headerCellClassName}>年間{budgetLabel}</th>
+            <th className={headerCellClassName}>今月までの{budgetLabel}</th>
+            <th className={headerCellClassName}>実績</th>
+            <th className={headerCellClassName}>差異</th>
+            <th className={headerCellClassName}>{kind === "expense" ? "消化率" : "達成率"}</th>
+            <th className="px-3 py-2 text-center font-medium text-gray-600">判定</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            // 経費は予算より多く使った分、売上は目標に足りない分が悪い差異
+            const isUnfavorable =
+              row.annualBudget > 0 && (kind === "expense" ? row.variance > 0 : row.variance < 0);
+
+            return (
+              <tr key={row.label} className="border-b last:border-b-0">
+                <td className="px-3 py-2 font-medium">{row.label}</td>
+                <td className={cellClassName}>
+                  {row.annualBudget > 0 ? formatCurrency(row.annualBudget) : "-"}
+                </td>
+                <td className={cellClassName}>
+                  {row.annualBudget > 0 ? formatCurrency(row.budgetToDate) : "-"}
+                </td>
+                <td className={cellClassName}>{formatCurrency(row.actualToDate)}</td>
+                <td
+                  className={`${cellClassName} ${isUnfavorable ? "text-red-600 font-semibold" : ""}`}
+                >
+                  {row.annualBudget > 0
+                    ? `${row.variance > 0 ? "+" : ""}${formatCurrency(row.variance)}`
+                    : "-"}
+                </td>
+                <td className={cellClassName}>
+                  {row.burnRate !== null ? `${row.burnRate.toFixed(1)}%` : "-"}
+                </td>
+                <td className="px-3 py-2 text-center">
+                  <span
+                    className={`inline-block px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${STATUS_BADGE_CLASS_NAMES[row.status]}`}
+                  >
+                    {BUDGET_STATUS_LABELS[row.status]}
+                  </span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
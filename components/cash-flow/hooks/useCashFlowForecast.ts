@@ -0,0 +1,144 @@
+"use client";
+
+/**
+ * 資金繰りの見通しを管理するカスタムフック
+ *
+ * 責務:
+ * - 前年同月の実績・入金予定の売上・定期的な取引と、資金繰りの設定の取得
+ * - 現在の残高・注意ラインの保存
+ * - 12か月分の資金繰りの計算
+ *
+ * ビジネス上の流れ:
+ * 1. 分析画面を開くと、見通しの元になるデータと保存済みの残高を読み込む
+ * 2. 現在の残高・注意ラインを入力すると、その場で再計算して保存する
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import {
+  buildCashFlowForecast,
+  fetchCashFlowForecastInputs,
+  fetchCashFlowSettings,
+  saveCashFlowSettings,
+  DEFAULT_CASH_FLOW_SETTINGS,
+  type CashFlowForecast,
+  type CashFlowForecastInputs,
+  type CashFlowSettings,
+} from "@/lib/cashFlow";
+
+/**
+ * useCashFlowForecast カスタムフックの戻り値
+ */
+export interface UseCashFlowForecastReturn {
+  // === 状態 ===
+  forecast: CashFlowForecast | null;      // 12か月分の資金繰りの見通し
+  settings: CashFlowSettings;              // 現在の残高・注意ライン
+  isLoading: boolean;                      // 読み込み中フラグ
+  isSaving: boolean;                       // 設定の保存中フラグ
+  errorMessage: string | null;             // エラーメッセージ
+
+  // === 操作 ===
+  saveSettings: (settings: CashFlowSettings) => Promise<void>;
+}
+
+/**
+ * 資金繰りの見通しのカスタムフック
+ */
+export function useCashFlowForecast(): UseCashFlowForecastReturn {
+  const [inputs, setInputs] = useState<CashFlowForecastInputs | null>(null);
+  const [settings, setSettings] = useState<CashFlowSettings>(DEFAULT_CASH_FLOW_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 初回表示時に読み込む
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchForecastInputs = async () => {
+      try {
+        setIsLoading(true);
+        setErrorMessage(null);
+
+        // RLSにより現在の農場のデータのみ取得される
+        const supabase = createSupabaseClient();
+        const [forecastInputs, cashFlowSettings] = await Promise.all([
+          fetchCashFlowForecastInputs(supabase),
+          fetchCashFlowSettings(supabase),
+        ]);
+
+        if (!isMounted) return;
+        setInputs(forecastInputs);
+        setSettings(cashFlowSettings);
+      } catch (error: unknown) {
+        if (!isMounted) return;
+        console.error("資金繰りの見通しの取得エラー:", error);
+        setErrorMessage(
+          error instanceof Error ? error.message : "資金繰りの見通しの取得に失敗しました"
+        );
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchForecastInputs();
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  // 残高・注意ラインの変更はその場で再計算する（再取得は不要）
+  const forecast = useMemo(
+    () => (inputs ? buildCashFlowForecast(inputs, settings) : null),
+    [inputs, settings]
+  );
+
+  /**
+   * 現在の残高・注意ラインを保存する
+   * 画面はすぐに再計算し、保存に失敗した場合のみエラーを表示する
+   */
+  const saveSettings = async (nextSettings: CashFlowSettings): Promise<void> => {
+    if (
+      nextSettings.cashBalance === settings.cashBalance &&
+      nextSettings.lowCashThreshold === settings.lowCashThreshold
+    ) {
+      return;
+    }
+    if (nextSettings.lowCashThreshold < 0) {
+      setErrorMessage("注意ラインは0以上の金額で入力してください。");
+      return;
+    }
+
+    setSettings(nextSettings);
+    setErrorMessage(null);
+
+    try {
+      setIsSaving(true);
+
+      const supabase = createSupabaseClient();
+      const { data: { user }, error: userError } = await supabase.auth.getUser();
+      if (userError || !user) {
+        throw new Error("ログインが必要です。再度ログインしてください。");
+      }
+
+      await saveCashFlowSettings(supabase, user.id, nextSettings);
+    } catch (error) {
+      console.error("資金繰りの設定の保存エラー:", error);
+      setErrorMessage("残高の保存に失敗しました。再度お試しください。");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    forecast,
+    settings,
+    isLoading,
+    isSaving,
+    errorMessage,
+    saveSettings,
+  };
+}
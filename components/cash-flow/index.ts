@@ -0,0 +1,8 @@
+/**
+ * 資金繰りの見通しコンポーネントのエクスポート
+ */
+export { useCashFlowForecast } from "./hooks/useCashFlowForecast";
+export type { UseCashFlowForecastReturn } from "./hooks/useCashFlowForecast";
+export { CashFlowForecastSection } from "./views/CashFlowForecastSection";
+export { CashFlowForecastChart } from "./views/CashFlowForecastChart";
+export { CashFlowForecastTable } from "./views/CashFlowForecastTable";
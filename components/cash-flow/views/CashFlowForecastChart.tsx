@@ -0,0 +1,86 @@
+"use client";
+
+/**
+ * 資金繰りの見通しグラフ
+ *
+ * ビジネス上の役割:
+ * 月ごとの入金・出金を棒、月末の残高を線で表示し、
+ * 残高が注意ラインに近づく時期（資材費がかさむ春など）を一目で確認できるようにする
+ */
+
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import type { CashFlowForecastMonth } from "@/lib/cashFlow";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface CashFlowForecastChartProps {
+  months: CashFlowForecastMonth[];
+  /** 注意ライン（0円の場合は0円の線を表示） */
+  lowCashThreshold: number;
+}
+
+export function CashFlowForecastChart({ months, lowCashThreshold }: CashFlowForecastChartProps) {
+  return (
+    <ResponsiveContainer width="100%" height={400}>
+      <ComposedChart data={months}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="monthLabel"
+          tick={{ fontSize: 12 }}
+          angle={-45}
+          textAnchor="end"
+          height={80}
+        />
+        <YAxis
+          tick={{ fontSize: 12 }}
+          tickFormatter={(value) => `${(value / 10000).toFixed(0)}万`}
+        />
+        <Tooltip
+          formatter={(value: number | undefined) =>
+            value !== undefined ? formatCurrency(value) : ""
+          }
+          labelStyle={{ color: "#000" }}
+        />
+        <Legend verticalAlign="bottom" />
+        <ReferenceLine
+          y={lowCashThreshold}
+          stroke="#ef4444"
+          strokeDasharray="4 4"
+          label={{ value: "注意ライン", position: "insideTopLeft", fill: "#ef4444", fontSize: 12 }}
+        />
+        <Bar dataKey="inflow" name="入金" fill="#22c55e" />
+        <Bar dataKey="outflow" name="出金" fill="#8b5cf6" />
+        <Line
+          type="monotone"
+          dataKey="closingBalance"
+          name="月末残高"
+          stroke="#FFA500"
+          strokeWidth={3.5}
+          dot={{ r: 5, fill: "#FFA500" }}
+          activeDot={{ r: 7 }}
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
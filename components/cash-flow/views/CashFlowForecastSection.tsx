@@ -0,0 +1,159 @@
+"use client";
+
+/**
+ * 資金繰りの見通しセクション（分析画面）
+ *
+ * ビジネス上の役割:
+ * 現在の残高から12か月先までの月末残高を見通し、
+ * 残高が注意ラインを下回る月（資金が足りなくなりそうな時期）を早めに知らせる
+ *
+ * 表示ルール:
+ * - 現在の残高・注意ラインは入力欄を離れた時点で保存され、見通しをその場で再計算する
+ * - 残高が未入力の場合は0円から見通し、入力を案内する
+ * - 注意ラインを下回る月があれば、最初の月を警告として表示する
+ */
+
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCashFlowForecast } from "../hooks/useCashFlowForecast";
+import { CashFlowForecastChart } from "./CashFlowForecastChart";
+import { CashFlowForecastTable } from "./CashFlowForecastTable";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * 金額の入力値を数値に変換する（空欄・不正な値は null）
+ */
+const parseAmount = (value: string): number | null => {
+  const amount = parseInt(value, 10);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+export function CashFlowForecastSection() {
+  const { forecast, settings, isLoading, isSaving, errorMessage, saveSettings } =
+    useCashFlowForecast();
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">資金繰りの見通し</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            前年同月の実績・定期的な取引・入金予定の売上から、今月以降12か月の月末残高を見通します
+          </p>
+        </div>
+
+        {/* 現在の残高・注意ライン */}
+        <div className="flex items-end gap-2">
+          <div>
+            <Label htmlFor="cashBalance" className="text-sm">
+              現在の残高（円）
+            </Label>
+            <Input
+              // 保存済みの値で入力欄を作り直すため、残高をキーに含める
+              key={`cashBalance-${settings.cashBalance ?? ""}`}
+              id="cashBalance"
+              type="number"
+              inputMode="numeric"
+              defaultValue={settings.cashBalance ?? ""}
+              onBlur={(event) =>
+                saveSettings({ ...settings, cashBalance: parseAmount(event.target.value) })
+              }
+              disabled={isLoading}
+              placeholder="例: 1500000"
+              className="w-36 text-right"
+            />
+          </div>
+          <div>
+            <Label htmlFor="lowCashThreshold" className="text-sm">
+              注意ライン（円）
+            </Label>
+            <Input
+              key={`lowCashThreshold-${settings.lowCashThreshold}`}
+              id="lowCashThreshold"
+              type="number"
+              inputMode="numeric"
+              min="0"
+              defaultValue={settings.lowCashThreshold}
+              onBlur={(event) =>
+                saveSettings({
+                  ...settings,
+                  lowCashThreshold: parseAmount(event.target.value) ?? 0,
+                })
+              }
+              disabled={isLoading}
+              className="w-32 text-right"
+            />
+          </div>
+          {isSaving && <Loader2 className="h-4 w-4 mb-3 animate-spin text-gray-500" />}
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          {errorMessage}
+        </div>
+      )}
+
+      {isLoading ? (
+        <Card className="animate-pulse">
+          <CardContent className="p-6">
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </CardContent>
+        </Card>
+      ) : !forecast ? null : (
+        <div className="space-y-4">
+          {settings.cashBalance === null && (
+            <p className="text-sm text-amber-700">
+              現在の残高が未入力のため、0円から見通しています。預金・現金の残高を入力してください。
+            </p>
+          )}
+
+          {/* 残高が注意ラインを下回る月の警告 */}
+          {forecast.lowBalanceMonth && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+              <p className="flex items-center gap-2 font-medium text-red-800">
+                <AlertTriangle className="h-4 w-4" />
+                {forecast.lowBalanceMonth.monthLabel}
+                に月末残高が注意ライン（{formatCurrency(settings.lowCashThreshold)}）を下回る見込みです
+              </p>
+              {forecast.lowestMonth && (
+                <p className="text-sm text-red-700 mt-1">
+                  最も少ないのは{forecast.lowestMonth.monthLabel}の
+                  {formatCurrency(forecast.lowestMonth.closingBalance)}です。
+                  借入や支払時期の調整を早めに検討してください。
+                </p>
+              )}
+            </div>
+          )}
+
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <CashFlowForecastChart
+                months={forecast.months}
+                lowCashThreshold={settings.lowCashThreshold}
+              />
+              <CashFlowForecastTable
+                months={forecast.months}
+                lowCashThreshold={settings.lowCashThreshold}
+              />
+              <p className="text-xs text-gray-500">
+                ※ 見込み売上・経費は前年同月の実績（定期的な取引・減価償却費を除く）です。
+                入金予定の売上は、売上の登録時に入金予定日を入力すると反映されます。
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * 資金繰りの見通しテーブル
+ *
+ * ビジネス上の役割:
+ * 月ごとの入金・出金の内訳（前年同月からの見込み・入金予定・定期的な取引）と月末残高を並べ、
+ * 見通しの根拠を確認できるようにする
+ *
+ * 表示ルール:
+ * - 月末残高が注意ラインを下回る月は赤字で表示
+ */
+
+import type { CashFlowForecastMonth } from "@/lib/cashFlow";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface CashFlowForecastTableProps {
+  months: CashFlowForecastMonth[];
+  lowCashThreshold: number;
+}
+
+export function CashFlowForecastTable({ months, lowCashThreshold }: CashFlowForecastTableProps) {
+  const headerCellClassName = "px-3 py-2 text-right font-medium text-gray-600 whitespace-nowrap";
+  const cellClassName = "px-3 py-2 text-right whitespace-nowrap";
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full min-w-[800px] text-sm">
+        <thead className="border-b bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-gray-600">月</th>
+            <th className={headerCellClassName}>入金予定</th>
+            <th className={headerCellClassName}>見込み売上</th>
+            <th className={headerCellClassName}>定期の売上</th>
+            <th className={headerCellClassName}>見込み経費</th>
+            <th className={headerCellClassName}>定期の経費</th>
+            <th className={headerCellClassName}>収支</th>
+            <th className={headerCellClassName}>月末残高</th>
+          </tr>
+        </thead>
+        <tbody>
+          {months.map((month) => {
+            const net = month.inflow - month.outflow;
+
+            return (
+              <tr key={month.monthKey} className="border-b last:border-b-0">
+                <td className="px-3 py-2 font-medium whitespace-nowrap">{month.monthLabel}</td>
+                <td className={cellClassName}>{formatCurrency(month.receivables)}</td>
+                <td className={cellClassName}>{formatCurrency(month.estimatedSales)}</td>
+                <td className={cellClassName}>{formatCurrency(month.recurringSales)}</td>
+                <td className={cellClassName}>{formatCurrency(month.estimatedExpenses)}</td>
+                <td className={cellClassName}>{formatCurrency(month.recurringExpenses)}</td>
+                <td className={`${cellClassName} ${net < 0 ? "text-red-600" : "text-green-600"}`}>
+                  {net > 0 ? "+" : ""}
+                  {formatCurrency(net)}
+                </td>
+                <td
+                  className={`${cellClassName} font-semibold ${
+                    month.closingBalance < lowCashThreshold ? "text-red-600" : "text-gray-900"
+                  }`}
+                >
+                  {formatCurrency(month.closingBalance)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+/**
+ * 作物別損益のロジックを管理するカスタムフック
+ *
+ * 責務:
+ * - 指定期間の作物ごとの売上・直接費と、共通経費の取得
+ * - 共通経費の配賦方法・作物ごとの作付面積の読み込みと保存
+ * - 配賦後の作物別損益の計算
+ *
+ * ビジネス上の流れ:
+ * 1. 分析画面の期間を変えると、その期間の作物別損益を再取得
+ * 2. 配賦方法（売上比・面積比・均等）を選ぶと、その場で再計算して保存
+ * 3. 面積比の場合は作物ごとに作付面積を入力し、入力欄を離れた時点で保存
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import {
+  allocateSharedCosts,
+  fetchCropProfitability,
+  toCropAllocationMethod,
+  DEFAULT_CROP_ALLOCATION_METHOD,
+  type CropAllocationMethod,
+  type CropProfitAllocation,
+  type CropProfitabilitySummary,
+} from "@/lib/cropProfitability";
+
+/**
+ * useCropProfit カスタムフックの戻り値
+ */
+export interface UseCropProfitReturn {
+  // === 状態 ===
+  allocation: CropProfitAllocation;        // 配賦後の作物別損益
+  sharedCosts: number;                     // 配賦した共通経費の合計
+  method: CropAllocationMethod;            // 配賦方法
+  cropAreas: Map<string, number>;          // 作物名 → 作付面積（アール）
+  isLoading: boolean;                      // 読み込み中フラグ
+  savingCropName: string | null;           // 作付面積を保存中の作物
+  errorMessage: string | null;             // エラーメッセージ
+
+  // === 操作 ===
+  changeMethod: (method: CropAllocationMethod) => Promise<void>;
+  saveCropArea: (cropName: string, area: number) => Promise<void>;
+}
+
+/**
+ * 作物別損益のカスタムフック
+ *
+ * @param startDate - 期間の開始日（YYYY-MM-DD）
+ * @param endDate - 期間の終了日（YYYY-MM-DD）
+ */
+export function useCropProfit(startDate: string, endDate: string): UseCropProfitReturn {
+  const [summary, setSummary] = useState<CropProfitabilitySummary>({ crops: [], sharedCosts: 0 });
+  const [method, setMethod] = useState<CropAllocationMethod>(DEFAULT_CROP_ALLOCATION_METHOD);
+  const [cropAreas, setCropAreas] = useState<Map<string, number>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingCropName, setSavingCropName] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 期間が変わるたびに再取得（配賦方法・面積も合わせて読み込む）
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchCropProfit = async () => {
+      try {
+        setIsLoading(true);
+        setErrorMessage(null);
+
+        const supabase = createSupabaseClient();
+
+        // RLSにより自分のデータのみ取得される
+        const [cropSummary, profileResult, areasResult] = await Promise.all([
+          fetchCropProfitability(supabase, startDate, endDate),
+          supabase.from("user_profiles").select("crop_allocation_method").maybeSingle(),
+          supabase.from("crop_areas").select("crop_name, area_are"),
+        ]);
+
+        if (profileResult.error) throw profileResult.error;
+        if (areasResult.error) throw areasResult.error;
+
+        if (!isMounted) return;
+        setSummary(cropSummary);
+        setMethod(toCropAllocationMethod(profileResult.data?.crop_allocation_method));
+        setCropAreas(
+          new Map(
+            (areasResult.data || []).map((cropArea) => [
+              cropArea.crop_name as string,
+              Number(cropArea.area_are),
+            ])
+          )
+        );
+      } catch (error: unknown) {
+        if (!isMounted) return;
+        console.error("作物別損益の取得エラー:", error);
+        setErrorMessage(
+          error instanceof Error ? error.message : "作物別損益の取得に失敗しました"
+        );
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchCropProfit();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [startDate, endDate]);
+
+  // 配賦方法・面積の変更はその場で再計算する（再取得は不要）
+  const allocation = useMemo(
+    () => allocateSharedCosts(summary, method, cropAreas),
+    [summary, method, cropAreas]
+  );
+
+  /**
+   * ログインユーザーのIDを取得（保存時のみ使用）
+   */
+  const getUserId = async (): Promise<string> => {
+    const supabase = createSupabaseClient();
+    const { data: { user }, error } = await supabase.auth.getUser();
+    if (error || !user) {
+      throw new Error("ログインが必要です。再度ログインしてください。");
+    }
+    return user.id;
+  };
+
+  /**
+   * 配賦方法を変更して保存する
+   * 画面はすぐに切り替え、保存に失敗した場合のみエラーを表示する
+   */
+  const changeMethod = async (nextMethod: CropAllocationMethod): Promise<void> => {
+    setMethod(nextMethod);
+    setErrorMessage(null);
+
+    try {
+      const userId = await getUserId();
+      const supabase = createSupabaseClient();
+
+      // プロフィール未作成の農場もあるため upsert で保存する
+      // （farm_id は登録時にトリガーで現在の農場が設定される）
+      const { error } = await supabase
+        .from("user_profiles")
+        .upsert({ user_id: userId, crop_allocation_method: nextMethod }, { onConflict: "farm_id" });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("配賦方法の保存エラー:", error);
+      setErrorMessage("配賦方法の保存に失敗しました。再度お試しください。");
+    }
+  };
+
+  /**
+   * 作物の作付面積を保存する
+   *
+   * @param cropName - 作物名
+   * @param area - 作付面積（アール）
+   */
+  const saveCropArea = async (cropName: string, area: number): Promise<void> => {
+    if (!Number.isFinite(area) || area < 0) {
+      setErrorMessage("作付面積は0以上の数値で入力してください。");
+      return;
+    }
+    if ((cropAreas.get(cropName) || 0) === area) return;
+
+    try {
+      setSavingCropName(cropName);
+      setErrorMessage(null);
+
+      const userId = await getUserId();
+      const supabase = createSupabaseClient();
+
+      const { error } = await supabase
+        .from("crop_areas")
+        .upsert(
+          { user_id: userId, crop_name: cropName, area_are: area },
+          { onConflict: "farm_id,crop_name" }
+        );
+
+      if (error) throw error;
+
+      setCropAreas((previousAreas) => new Map(previousAreas).set(cropName, area));
+    } catch (error) {
+      console.error("作付面積の保存エラー:", error);
+      setErrorMessage("作付面積の保存に失敗しました。再度お試しください。");
+    } finally {
+      setSavingCropName(null);
+    }
+  };
+
+  return {
+    allocation,
+    sharedCosts: summary.sharedCosts,
+    method,
+    cropAreas,
+    isLoading,
+    savingCropName,
+    errorMessage,
+    changeMethod,
+    saveCropArea,
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * 作物別損益コンポーネントのエクスポート
+ */
+export { useCropProfit } from "./hooks/useCropProfit";
+export type { UseCropProfitReturn } from "./hooks/useCropProfit";
+export { CropProfitSection } from "./views/CropProfitSection";
+export { CropProfitTable } from "./views/CropProfitTable";
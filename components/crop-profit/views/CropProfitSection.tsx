@@ -0,0 +1,125 @@
+"use client";
+
+/**
+ * 作物別損益セクション（分析画面）
+ *
+ * ビジネス上の役割:
+ * 分析画面で選んだ期間について、作物ごとの損益と共通経費の配賦方法を表示する
+ *
+ * 表示ルール:
+ * - 配賦方法は「売上比・面積比・均等」から選び、選んだ時点で保存される
+ * - 面積が未登録・売上が0などで按分できない場合は、均等配賦に切り替えたことを表示する
+ */
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CROP_ALLOCATION_METHODS } from "@/lib/cropProfitability";
+import { useCropProfit } from "../hooks/useCropProfit";
+import { CropProfitTable } from "./CropProfitTable";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface CropProfitSectionProps {
+  /** 期間の開始日（YYYY-MM-DD） */
+  startDate: string;
+  /** 期間の終了日（YYYY-MM-DD） */
+  endDate: string;
+}
+
+export function CropProfitSection({ startDate, endDate }: CropProfitSectionProps) {
+  const {
+    allocation,
+    sharedCosts,
+    method,
+    cropAreas,
+    isLoading,
+    savingCropName,
+    errorMessage,
+    changeMethod,
+    saveCropArea,
+  } = useCropProfit(startDate, endDate);
+
+  const selectedMethod = CROP_ALLOCATION_METHODS.find((option) => option.value === method);
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">作物別損益</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            作物ごとの売上 − 直接費 − 共通経費の配賦額（期間は月次推移と同じ）
+          </p>
+        </div>
+
+        {/* 共通経費の配賦方法 */}
+        <div className="flex items-center gap-1" role="group" aria-label="共通経費の配賦方法">
+          {CROP_ALLOCATION_METHODS.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={option.value === method ? "default" : "outline"}
+              onClick={() => changeMethod(option.value)}
+              className={option.value === method ? "bg-green-600 hover:bg-green-700" : ""}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          {errorMessage}
+        </div>
+      )}
+
+      {isLoading ? (
+        <Card className="animate-pulse">
+          <CardContent className="p-6">
+            <div className="h-40 bg-gray-200 rounded"></div>
+          </CardContent>
+        </Card>
+      ) : allocation.rows.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-gray-500">
+            この期間の作物別データがありません
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <p className="text-sm text-gray-600">
+              共通経費 {formatCurrency(sharedCosts)} を「{selectedMethod?.label}」で配賦
+              （{selectedMethod?.description}）
+            </p>
+            {allocation.isFallbackToEqual && (
+              <p className="text-sm text-amber-700">
+                {method === "area"
+                  ? "作付面積が未登録のため、均等に配賦しています。作物ごとに面積を入力してください。"
+                  : "この期間の売上がないため、均等に配賦しています。"}
+              </p>
+            )}
+            <CropProfitTable
+              rows={allocation.rows}
+              showAreaInput={method === "area"}
+              cropAreas={cropAreas}
+              savingCropName={savingCropName}
+              onAreaSave={saveCropArea}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
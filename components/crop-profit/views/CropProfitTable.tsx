@@ -0,0 +1,103 @@
+/**
+ * 作物別損益テーブル
+ *
+ * ビジネス上の役割:
+ * 作物ごとの売上・直接費・配賦した共通経費・利益を並べ、
+ * どの作物が儲かっているか（赤字の作物はどれか）を一目で確認できるようにする
+ *
+ * 表示ルール:
+ * - 利益の大きい順に表示し、赤字の作物は利益を赤字で表示
+ * - 面積比で配賦する場合は、作物ごとの作付面積の入力欄を表示
+ */
+
+import { Input } from "@/components/ui/input";
+import type { CropProfitRow } from "@/lib/cropProfitability";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface CropProfitTableProps {
+  rows: CropProfitRow[];
+  /** 作付面積の入力欄を表示するか（面積比で配賦する場合） */
+  showAreaInput: boolean;
+  cropAreas: Map<string, number>;
+  savingCropName: string | null;
+  onAreaSave: (cropName: string, area: number) => void;
+}
+
+export function CropProfitTable({
+  rows,
+  showAreaInput,
+  cropAreas,
+  savingCropName,
+  onAreaSave,
+}: CropProfitTableProps) {
+  const headerCellClassName = "px-3 py-2 text-right font-medium text-gray-600 whitespace-nowrap";
+  const cellClassName = "px-3 py-2 text-right whitespace-nowrap";
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full min-w-[640px] text-sm">
+        <thead className="border-b bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-gray-600">作物</th>
+            {showAreaInput && <th className={headerCellClassName}>作付面積（a）</th>}
+            <th className={headerCellClassName}>売上</th>
+            <th className={headerCellClassName}>直接費</th>
+            <th className={headerCellClassName}>配賦費</th>
+            <th className={headerCellClassName}>利益</th>
+            <th className={headerCellClassName}>利益率</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.cropName} className="border-b last:border-b-0">
+              <td className="px-3 py-2 font-medium">{row.cropName}</td>
+              {showAreaInput && (
+                <td className={cellClassName}>
+                  <Input
+                    // 保存後の値で入力欄を作り直すため、面積をキーに含める
+                    key={`${row.cropName}-${cropAreas.get(row.cropName) ?? ""}`}
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="0.1"
+                    defaultValue={cropAreas.get(row.cropName) ?? ""}
+                    onBlur={(event) =>
+                      onAreaSave(row.cropName, parseFloat(event.target.value) || 0)
+                    }
+                    disabled={savingCropName === row.cropName}
+                    className="h-8 w-24 ml-auto text-right"
+                    aria-label={`${row.cropName}の作付面積`}
+                  />
+                </td>
+              )}
+              <td className={cellClassName}>{formatCurrency(row.revenue)}</td>
+              <td className={cellClassName}>{formatCurrency(row.directCosts)}</td>
+              <td className={cellClassName}>{formatCurrency(row.allocatedCosts)}</td>
+              <td
+                className={`${cellClassName} font-semibold ${
+                  row.margin >= 0 ? "text-green-700" : "text-red-600"
+                }`}
+              >
+                {formatCurrency(row.margin)}
+              </td>
+              <td className={`${cellClassName} text-gray-600`}>
+                {row.marginRate !== null ? `${row.marginRate}%` : "-"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
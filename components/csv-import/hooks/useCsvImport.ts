@@ -0,0 +1,365 @@
+"use client";
+
+/**
+ * CSV取込のロジックを管理するカスタムフック
+ *
+ * 責務:
+ * - CSVファイルの読み込み（文字コードの判定・切り替え）
+ * - 列の対応付けの推定と変更
+ * - 確認画面の行の作成（勘定科目の推定・重複判定）
+ * - 経費・売上の一括登録
+ *
+ * ビジネス上の流れ:
+ * 1. 銀行・JAの明細CSVを選択
+ * 2. 日付・摘要・金額の列を確認（見出しから自動で推定）
+ * 3. 入金 → 売上、出金 → 経費 として一覧表示
+ *    - 既に同じ日付・金額のデータがある行は「重複の可能性」として対象外にする
+ * 4. 勘定科目・作物名などを確認して登録
+ */
+
+import { useState, useRef } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import {
+  decodeCsvBuffer,
+  parseCsvText,
+  guessColumnMapping,
+  isColumnMappingComplete,
+  buildImportRows,
+  suggestCategory,
+  getDuplicateKey,
+  type CsvColumnMapping,
+  type CsvEncoding,
+  type CategoryCandidate,
+} from "@/lib/csvImport";
+import type {
+  CsvImportStep,
+  CsvImportResult,
+  ImportPreviewRow,
+  ImportPreviewRowUpdate,
+  UseCsvImportReturn,
+} from "../types";
+
+/**
+ * 列の対応付けの初期値
+ */
+const EMPTY_COLUMN_MAPPING: CsvColumnMapping = {
+  dateColumn: null,
+  descriptionColumn: null,
+  amountMode: "split",
+  amountColumn: null,
+  depositColumn: null,
+  withdrawalColumn: null,
+  hasHeaderRow: true,
+};
+
+export function useCsvImport(): UseCsvImportReturn {
+  const [step, setStep] = useState<CsvImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [encoding, setEncoding] = useState<CsvEncoding>("auto");
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(EMPTY_COLUMN_MAPPING);
+  const [previewRows, setPreviewRows] = useState<ImportPreviewRow[]>([]);
+  const [categories, setCategories] = useState<CategoryCandidate[]>([]);
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 文字コードを切り替えて読み直せるよう、ファイルの中身を保持する
+  const fileBufferRef = useRef<ArrayBuffer | null>(null);
+
+  /**
+   * ファイルの中身を読み込み、列の対応付けを推定する
+   */
+  const loadCsv = (buffer: ArrayBuffer, selectedEncoding: CsvEncoding) => {
+    const rows = parseCsvText(decodeCsvBuffer(buffer, selectedEncoding));
+
+    if (rows.length === 0) {
+      setErrorMessage("CSVにデータがありません");
+      return;
+    }
+
+    setCsvRows(rows);
+    setMapping(guessColumnMapping(rows[0]));
+    setStep("mapping");
+  };
+
+  /**
+   * CSVファイルを選択したときの処理
+   */
+  const selectFile = async (file: File): Promise<void> => {
+    try {
+      setIsProcessing(true);
+      setErrorMessage(null);
+
+      const buffer = await file.arrayBuffer();
+      fileBufferRef.current = buffer;
+      setFileName(file.name);
+      loadCsv(buffer, encoding);
+    } catch (error: unknown) {
+      console.error("CSV読み込みエラー:", error);
+      setErrorMessage("CSVファイルを読み込めませんでした。ファイル形式を確認してください。");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * 文字コードを変更したときの処理（文字化けした場合に切り替える）
+   */
+  const changeEncoding = (selectedEncoding: CsvEncoding) => {
+    setEncoding(selectedEncoding);
+    setErrorMessage(null);
+
+    if (fileBufferRef.current) {
+      loadCsv(fileBufferRef.current, selectedEncoding);
+    }
+  };
+
+  /**
+   * 列の対応付けを変更する
+   */
+  const updateMapping = (update: Partial<CsvColumnMapping>) => {
+    setMapping((previousMapping) => ({ ...previousMapping, ...update }));
+  };
+
+  /**
+   * 登録済みの経費・売上から、重複判定のキーを取得する
+   *
+   * CSVの期間内のデータだけを取得して、日付 + 金額で比較する
+   */
+  const fetchExistingKeys = async (startDate: string, endDate: string): Promise<Set<string>> => {
+    const supabase = createSupabaseClient();
+
+    // RLSにより、自分のデータのみ取得される
+    const [expensesResult, salesResult] = await Promise.all([
+      supabase.from("expenses").select("date, amount").gte("date", startDate).lte("date", endDate),
+      supabase.from("sales").select("date, amount").gte("date", startDate).lte("date", endDate),
+    ]);
+
+    if (expensesResult.error) throw expensesResult.error;
+    if (salesResult.error) throw salesResult.error;
+
+    const existingKeys = new Set<string>();
+    (expensesResult.data || []).forEach((expense) => {
+      existingKeys.add(getDuplicateKey("expense", expense.date, Number(expense.amount)));
+    });
+    (salesResult.data || []).forEach((sale) => {
+      existingKeys.add(getDuplicateKey("sale", sale.date, Number(sale.amount)));
+    });
+
+    return existingKeys;
+  };
+
+  /**
+   * 列の対応付けを確定し、確認画面の行を作成する
+   */
+  const confirmMapping = async (): Promise<void> => {
+    if (!isColumnMappingComplete(mapping)) {
+      setErrorMessage("日付と金額の列を選択してください");
+      return;
+    }
+
+    try {
+      setIsProcessing(true);
+      setErrorMessage(null);
+
+      const parsedRows = buildImportRows(csvRows, mapping);
+
+      if (parsedRows.length === 0) {
+        setErrorMessage("取り込める行がありません。列の対応付けを確認してください。");
+        return;
+      }
+
+      const supabase = createSupabaseClient();
+
+      // 勘定科目の選択肢（有効な科目のみ）
+      const { data: categoryData, error: categoryError } = await supabase
+        .from("expense_categories")
+        .select("id, name")
+        .eq("is_active", true)
+        .order("display_order", { ascending: true });
+
+      if (categoryError) throw categoryError;
+
+      const categoryCandidates: CategoryCandidate[] = categoryData || [];
+
+      // CSVの期間内の登録済みデータと重複判定
+      const validDates = parsedRows
+        .map((row) => row.date)
+        .filter((date) => date !== "")
+        .sort();
+      const existingKeys =
+        validDates.length > 0
+          ? await fetchExistingKeys(validDates[0], validDates[validDates.length - 1])
+          : new Set<string>();
+
+      setCategories(categoryCandidates);
+      setPreviewRows(
+        parsedRows.map((row) => {
+          const isDuplicate = existingKeys.has(getDuplicateKey(row.kind, row.date, row.amount));
+          return {
+            ...row,
+            isIncluded: !isDuplicate && row.error === null,
+            isDuplicate,
+            categoryId: suggestCategory(row.description, categoryCandidates)?.id || "",
+            cropName: "",
+            customer: row.description,
+          };
+        })
+      );
+      setStep("preview");
+    } catch (error: unknown) {
+      console.error("取込データ作成エラー:", error);
+      setErrorMessage("取込データの作成に失敗しました。再度お試しください。");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * 確認画面の行を修正する
+   */
+  const updatePreviewRow = (rowNumber: number, update: ImportPreviewRowUpdate) => {
+    setPreviewRows((previousRows) =>
+      previousRows.map((row) => (row.rowNumber === rowNumber ? { ...row, ...update } : row))
+    );
+  };
+
+  /**
+   * 列の対応付けに戻る
+   */
+  const backToMapping = () => {
+    setErrorMessage(null);
+    setStep("mapping");
+  };
+
+  /**
+   * 取込対象の行を経費・売上として一括登録する
+   *
+   * 入力不足の行が1件でもあれば、何も登録せずにエラーを表示する
+   */
+  const importRows = async (): Promise<void> => {
+    const includedRows = previewRows.filter((row) => row.isIncluded);
+
+    if (includedRows.length === 0) {
+      setErrorMessage("取り込む行を選択してください");
+      return;
+    }
+
+    const invalidRow = includedRows.find(
+      (row) =>
+        row.error !== null ||
+        (row.kind === "expense" && !row.categoryId) ||
+        (row.kind === "sale" && !row.cropName.trim())
+    );
+
+    if (invalidRow) {
+      setErrorMessage(
+        invalidRow.error !== null
+          ? `${invalidRow.rowNumber}行目: ${invalidRow.error}`
+          : invalidRow.kind === "expense"
+            ? `${invalidRow.rowNumber}行目: 勘定科目を選択してください`
+            : `${invalidRow.rowNumber}行目: 作物名を入力してください`
+      );
+      return;
+    }
+
+    try {
+      setIsProcessing(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        setErrorMessage("ログインが必要です");
+        return;
+      }
+
+      const categoryNameById = new Map(categories.map((category) => [category.id, category.name]));
+
+      const expenseRecords = includedRows
+        .filter((row) => row.kind === "expense")
+        .map((row) => ({
+          user_id: user.id,
+          date: row.date,
+          category_id: row.categoryId,
+          category: categoryNameById.get(row.categoryId) || "",
+          amount: row.amount,
+          description: row.description || null,
+        }));
+
+      const saleRecords = includedRows
+        .filter((row) => row.kind === "sale")
+        .map((row) => ({
+          user_id: user.id,
+          date: row.date,
+          crop_name: row.cropName.trim(),
+          // 出荷先は必須項目のため、空欄なら「不明」とする
+          customer: row.customer.trim() || "不明",
+          amount: row.amount,
+          description: row.description || null,
+        }));
+
+      if (expenseRecords.length > 0) {
+        const { error } = await supabase.from("expenses").insert(expenseRecords);
+        if (error) throw error;
+      }
+
+      if (saleRecords.length > 0) {
+        const { error } = await supabase.from("sales").insert(saleRecords);
+        if (error) {
+          // 経費は登録済みのため、売上のみ失敗したことを伝える
+          throw new Error(
+            `経費${expenseRecords.length}件は登録しましたが、売上の登録に失敗しました`
+          );
+        }
+      }
+
+      setResult({ expenseCount: expenseRecords.length, saleCount: saleRecords.length });
+      setStep("done");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "登録に失敗しました。再度お試しください。";
+      setErrorMessage(message);
+      console.error("CSV取込登録エラー:", error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * 最初からやり直す
+   */
+  const reset = () => {
+    fileBufferRef.current = null;
+    setStep("upload");
+    setFileName("");
+    setCsvRows([]);
+    setMapping(EMPTY_COLUMN_MAPPING);
+    setPreviewRows([]);
+    setResult(null);
+    setErrorMessage(null);
+  };
+
+  return {
+    step,
+    fileName,
+    encoding,
+    csvRows,
+    mapping,
+    previewRows,
+    categories,
+    result,
+    isProcessing,
+    errorMessage,
+    selectFile,
+    changeEncoding,
+    updateMapping,
+    confirmMapping,
+    updatePreviewRow,
+    backToMapping,
+    importRows,
+    reset,
+  };
+}
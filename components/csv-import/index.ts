@@ -0,0 +1,25 @@
+/**
+ * CSV取込コンポーネントのエクスポート
+ *
+ * 使用例:
+ * ```
+ * import { useCsvImport, ImportPreviewTable } from "@/components/csv-import";
+ * ```
+ */
+
+// 型定義
+export type {
+  CsvImportStep,
+  ImportPreviewRow,
+  ImportPreviewRowUpdate,
+  CsvImportResult,
+  UseCsvImportReturn,
+} from "./types";
+
+// カスタムフック
+export { useCsvImport } from "./hooks/useCsvImport";
+
+// ビューコンポーネント
+export { CsvUploadStep } from "./views/CsvUploadStep";
+export { ColumnMappingStep } from "./views/ColumnMappingStep";
+export { ImportPreviewTable } from "./views/ImportPreviewTable";
@@ -0,0 +1,81 @@
+/**
+ * CSV取込で使用する型定義
+ *
+ * ビジネス上の役割:
+ * 銀行・JAの入出金明細CSVから、経費・売上をまとめて登録する
+ */
+
+import type {
+  CsvColumnMapping,
+  CsvEncoding,
+  ParsedImportRow,
+  CategoryCandidate,
+} from "@/lib/csvImport";
+
+/**
+ * 取込の手順
+ * - upload: ファイル選択
+ * - mapping: 列の対応付け
+ * - preview: 取込内容の確認・修正
+ * - done: 取込完了
+ */
+export type CsvImportStep = "upload" | "mapping" | "preview" | "done";
+
+/**
+ * 確認画面の1行
+ * CSVから読み取った内容に、ユーザーが確認・修正する項目を加えたもの
+ */
+export interface ImportPreviewRow extends ParsedImportRow {
+  /** 取り込むかどうか（重複・エラー行は初期状態で対象外） */
+  isIncluded: boolean;
+  /** 同じ日付・金額のデータが既に登録されているか */
+  isDuplicate: boolean;
+  /** 経費の勘定科目ID（摘要から推定した科目を初期値にする） */
+  categoryId: string;
+  /** 売上の作物名（明細からは分からないため入力が必要） */
+  cropName: string;
+  /** 売上の出荷先（初期値は摘要） */
+  customer: string;
+}
+
+/**
+ * 確認画面で修正できる項目
+ */
+export type ImportPreviewRowUpdate = Partial<
+  Pick<ImportPreviewRow, "isIncluded" | "kind" | "categoryId" | "cropName" | "customer">
+>;
+
+/**
+ * 取込結果
+ */
+export interface CsvImportResult {
+  expenseCount: number;
+  saleCount: number;
+}
+
+/**
+ * useCsvImport カスタムフックの戻り値
+ */
+export interface UseCsvImportReturn {
+  // === 状態 ===
+  step: CsvImportStep;                      // 現在の手順
+  fileName: string;                         // 選択したファイル名
+  encoding: CsvEncoding;                    // 文字コード
+  csvRows: string[][];                      // CSVの全行
+  mapping: CsvColumnMapping;                // 列の対応付け
+  previewRows: ImportPreviewRow[];          // 確認画面の行
+  categories: CategoryCandidate[];          // 勘定科目の選択肢
+  result: CsvImportResult | null;           // 取込結果
+  isProcessing: boolean;                    // 読み込み・登録中フラグ
+  errorMessage: string | null;              // エラーメッセージ
+
+  // === 操作 ===
+  selectFile: (file: File) => Promise<void>;
+  changeEncoding: (encoding: CsvEncoding) => void;
+  updateMapping: (update: Partial<CsvColumnMapping>) => void;
+  confirmMapping: () => Promise<void>;
+  updatePreviewRow: (rowNumber: number, update: ImportPreviewRowUpdate) => void;
+  backToMapping: () => void;
+  importRows: () => Promise<void>;
+  reset: () => void;
+}
@@ -0,0 +1,185 @@
+/**
+ * CSV取込 手順2: 列の対応付け
+ *
+ * ビジネス上の役割:
+ * 銀行・JAごとに異なるCSVの列構成を、日付・摘要・金額に対応付ける
+ * 見出しから推定した結果を初期表示し、違っていればユーザーが選び直す
+ */
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import type { AmountColumnMode, CsvColumnMapping, CsvEncoding } from "@/lib/csvImport";
+
+/** 先頭から表示するサンプル行数 */
+const SAMPLE_ROW_COUNT = 5;
+
+interface ColumnMappingStepProps {
+  fileName: string;
+  encoding: CsvEncoding;
+  csvRows: string[][];
+  mapping: CsvColumnMapping;
+  isProcessing: boolean;
+  onEncodingChange: (encoding: CsvEncoding) => void;
+  onMappingChange: (update: Partial<CsvColumnMapping>) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function ColumnMappingStep({
+  fileName,
+  encoding,
+  csvRows,
+  mapping,
+  isProcessing,
+  onEncodingChange,
+  onMappingChange,
+  onConfirm,
+  onCancel,
+}: ColumnMappingStepProps) {
+  const columnCount = Math.max(...csvRows.map((row) => row.length));
+  const headerRow = csvRows[0] || [];
+
+  // 列の選択肢（見出し行があれば見出し名、なければ1行目の値を表示）
+  const columnOptions = Array.from({ length: columnCount }, (_, columnIndex) => ({
+    value: columnIndex,
+    label: `${columnIndex + 1}列目: ${headerRow[columnIndex] || "（空欄）"}`,
+  }));
+
+  const selectClassName = "h-9 w-full rounded-md border border-input bg-background px-2 text-sm";
+
+  /**
+   * 列の選択欄（未選択は null）
+   */
+  const renderColumnSelect = (
+    id: string,
+    label: string,
+    key: keyof Pick<
+      CsvColumnMapping,
+      "dateColumn" | "descriptionColumn" | "amountColumn" | "depositColumn" | "withdrawalColumn"
+    >
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-gray-600">
+        {label}
+      </Label>
+      <select
+        id={id}
+        value={mapping[key] ?? ""}
+        onChange={(event) =>
+          onMappingChange({
+            [key]: event.target.value === "" ? null : Number(event.target.value),
+          })
+        }
+        className={selectClassName}
+      >
+        <option value="">選択してください</option>
+        {columnOptions.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          ファイル: <span className="font-medium text-gray-900">{fileName}</span>
+        </p>
+        <div className="space-y-1">
+          <Label htmlFor="csv-encoding" className="text-xs text-gray-600">
+            文字コード（文字化けする場合に変更）
+          </Label>
+          <select
+            id="csv-encoding"
+            value={encoding}
+            onChange={(event) => onEncodingChange(event.target.value as CsvEncoding)}
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          >
+            <option value="auto">自動判定</option>
+            <option value="shift_jis">Shift_JIS</option>
+            <option value="utf-8">UTF-8</option>
+          </select>
+        </div>
+      </div>
+
+      {/* CSVの先頭行のサンプル */}
+      <div className="overflow-x-auto border rounded-lg">
+        <table className="w-full text-xs">
+          <tbody>
+            {csvRows.slice(0, SAMPLE_ROW_COUNT).map((row, rowIndex) => (
+              <tr
+                key={rowIndex}
+                className={rowIndex === 0 && mapping.hasHeaderRow ? "bg-gray-100 font-medium" : ""}
+              >
+                {Array.from({ length: columnCount }, (_, columnIndex) => (
+                  <td key={columnIndex} className="border-b px-2 py-1 whitespace-nowrap">
+                    {row[columnIndex] || ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={mapping.hasHeaderRow}
+          onChange={(event) => onMappingChange({ hasHeaderRow: event.target.checked })}
+        />
+        1行目は見出し行（取り込まない）
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {renderColumnSelect("mapping-date", "日付 *", "dateColumn")}
+        {renderColumnSelect("mapping-description", "摘要", "descriptionColumn")}
+
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="mapping-amount-mode" className="text-xs text-gray-600">
+            金額の形式
+          </Label>
+          <select
+            id="mapping-amount-mode"
+            value={mapping.amountMode}
+            onChange={(event) =>
+              onMappingChange({ amountMode: event.target.value as AmountColumnMode })
+            }
+            className={selectClassName}
+          >
+            <option value="split">入金列と出金列が分かれている</option>
+            <option value="signed">1つの金額列（マイナスが出金）</option>
+          </select>
+        </div>
+
+        {mapping.amountMode === "split" ? (
+          <>
+            {renderColumnSelect("mapping-deposit", "入金（売上） *", "depositColumn")}
+            {renderColumnSelect("mapping-withdrawal", "出金（経費） *", "withdrawalColumn")}
+          </>
+        ) : (
+          renderColumnSelect("mapping-amount", "金額 *", "amountColumn")
+        )}
+      </div>
+
+      <div className="flex gap-3">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isProcessing}>
+          ファイルを選び直す
+        </Button>
+        <Button
+          type="button"
+          onClick={onConfirm}
+          disabled={isProcessing}
+          className="flex-1 bg-green-600 hover:bg-green-700"
+        >
+          {isProcessing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          取込内容を確認する
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * CSV取込 手順1: ファイル選択
+ *
+ * 銀行・JAのネットバンキングからダウンロードした入出金明細CSVを選択する
+ */
+
+import { Label } from "@/components/ui/label";
+import { FileSpreadsheet, Loader2 } from "lucide-react";
+
+interface CsvUploadStepProps {
+  isProcessing: boolean;
+  onSelectFile: (file: File) => void;
+}
+
+export function CsvUploadStep({ isProcessing, onSelectFile }: CsvUploadStepProps) {
+  return (
+    <div className="space-y-4">
+      <Label
+        htmlFor="csv-file"
+        className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-gray-300 px-4 py-12 cursor-pointer hover:border-green-500 hover:bg-green-50"
+      >
+        {isProcessing ? (
+          <Loader2 className="h-10 w-10 animate-spin text-green-600" />
+        ) : (
+          <FileSpreadsheet className="h-10 w-10 text-green-600" />
+        )}
+        <span className="font-medium">明細CSVファイルを選択</span>
+        <span className="text-xs text-gray-500">Shift_JIS・UTF-8のどちらにも対応しています</span>
+      </Label>
+      <input
+        id="csv-file"
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        disabled={isProcessing}
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) onSelectFile(file);
+          // 同じファイルを選び直せるようにする
+          event.target.value = "";
+        }}
+      />
+
+      <ul className="text-sm text-gray-600 list-disc pl-5 space-y-1">
+        <li>入金は売上、出金は経費として取り込みます</li>
+        <li>既に同じ日付・金額で登録済みの明細は、重複の可能性として取込対象外になります</li>
+        <li>登録前に、勘定科目や作物名を確認・修正できます</li>
+      </ul>
+    </div>
+  );
+}
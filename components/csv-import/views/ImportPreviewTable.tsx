@@ -0,0 +1,145 @@
+/**
+ * CSV取込 手順3: 取込内容の確認
+ *
+ * ビジネス上の役割:
+ * 登録前に1行ずつ内容を確認し、取込対象・売上/経費の区分・勘定科目・作物名を修正する
+ *
+ * 表示ルール:
+ * - 重複の可能性がある行は黄色で表示し、初期状態で取込対象外
+ * - 日付を読み取れない行は赤色で表示し、取込対象にできない
+ */
+
+import { Input } from "@/components/ui/input";
+import type { CategoryCandidate, ImportRowKind } from "@/lib/csvImport";
+import type { ImportPreviewRow, ImportPreviewRowUpdate } from "../types";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+};
+
+interface ImportPreviewTableProps {
+  rows: ImportPreviewRow[];
+  categories: CategoryCandidate[];
+  onRowChange: (rowNumber: number, update: ImportPreviewRowUpdate) => void;
+}
+
+export function ImportPreviewTable({ rows, categories, onRowChange }: ImportPreviewTableProps) {
+  const inputClassName = "h-8 text-sm";
+  const selectClassName = "h-8 w-full rounded-md border border-input bg-background px-2 text-sm";
+
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-gray-600">
+          <tr>
+            <th className="px-2 py-2 w-10">取込</th>
+            <th className="px-2 py-2 text-left whitespace-nowrap">行</th>
+            <th className="px-2 py-2 text-left whitespace-nowrap">日付</th>
+            <th className="px-2 py-2 text-left">摘要</th>
+            <th className="px-2 py-2 text-right whitespace-nowrap">金額</th>
+            <th className="px-2 py-2 text-left whitespace-nowrap">区分</th>
+            <th className="px-2 py-2 text-left min-w-[16rem]">勘定科目 / 作物名・出荷先</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {rows.map((row) => (
+            <tr
+              key={row.rowNumber}
+              className={
+                row.error !== null
+                  ? "bg-red-50"
+                  : row.isDuplicate
+                    ? "bg-yellow-50"
+                    : row.isIncluded
+                      ? ""
+                      : "text-gray-400"
+              }
+            >
+              <td className="px-2 py-2 text-center">
+                <input
+                  type="checkbox"
+                  checked={row.isIncluded}
+                  disabled={row.error !== null}
+                  onChange={(event) =>
+                    onRowChange(row.rowNumber, { isIncluded: event.target.checked })
+                  }
+                  aria-label={`${row.rowNumber}行目を取り込む`}
+                />
+              </td>
+              <td className="px-2 py-2 text-gray-500">{row.rowNumber}</td>
+              <td className="px-2 py-2 whitespace-nowrap">
+                {row.error !== null ? (
+                  <span className="text-red-600 text-xs">{row.error}</span>
+                ) : (
+                  row.date
+                )}
+                {row.isDuplicate && (
+                  <span className="block text-xs text-yellow-700">重複の可能性</span>
+                )}
+              </td>
+              <td className="px-2 py-2">{row.description}</td>
+              <td className="px-2 py-2 text-right whitespace-nowrap">
+                {formatCurrency(row.amount)}
+              </td>
+              <td className="px-2 py-2">
+                <select
+                  value={row.kind}
+                  onChange={(event) =>
+                    onRowChange(row.rowNumber, { kind: event.target.value as ImportRowKind })
+                  }
+                  className={selectClassName}
+                >
+                  <option value="sale">売上</option>
+                  <option value="expense">経費</option>
+                </select>
+              </td>
+              <td className="px-2 py-2">
+                {row.kind === "expense" ? (
+                  <select
+                    value={row.categoryId}
+                    onChange={(event) =>
+                      onRowChange(row.rowNumber, { categoryId: event.target.value })
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">勘定科目を選択</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      value={row.cropName}
+                      onChange={(event) =>
+                        onRowChange(row.rowNumber, { cropName: event.target.value })
+                      }
+                      placeholder="作物名"
+                      className={inputClassName}
+                    />
+                    <Input
+                      value={row.customer}
+                      onChange={(event) =>
+                        onRowChange(row.rowNumber, { customer: event.target.value })
+                      }
+                      placeholder="出荷先"
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Settings, LogOut, Leaf, User as UserIcon } from "lucide-react";
+import { PaymentIssueBanner } from "@/components/subscription";
+import { FarmSwitcher } from "@/components/farms";
 import type { User } from "@supabase/supabase-js";
 
 /**
@@ -23,7 +25,9 @@ interface DashboardHeaderProps {
  * ビジネス上の役割:
  * - アプリのブランド（AgriManagement）を表示
  * - ログインユーザーのメールアドレスを表示
+ * - 現在の農場を表示し、所属している農場を切り替えられるようにする
  * - 設定画面やログアウトへのアクセスを提供
+ * - 有料プランの支払いに失敗している場合は、支払い方法の更新を促すバナーを表示
  */
 export function DashboardHeader({
   currentUser,
@@ -52,6 +56,9 @@ export function DashboardHeader({
               </div>
             )}
 
+            {/* 農場の切り替えメニュー */}
+            {currentUser && <FarmSwitcher userId={currentUser.id} />}
+
             {/* プランボタン（料金プラン画面へのリンク） */}
             <Link href="/pricing">
               <Button
@@ -86,6 +93,9 @@ export function DashboardHeader({
           </div>
         </div>
       </div>
+
+      {/* 支払い遅延のお知らせ（支払いに失敗している場合のみ表示） */}
+      {currentUser && <PaymentIssueBanner userId={currentUser.id} />}
     </header>
   );
 }
@@ -0,0 +1,181 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Check, Loader2, Repeat, SkipForward } from "lucide-react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { canEditFarmData, getCurrentFarmRole } from "@/lib/farms";
+import {
+  confirmRecurringEntry,
+  listPendingRecurringEntries,
+  RECURRING_KIND_LABELS,
+  skipRecurringEntry,
+  type PendingRecurringEntry,
+} from "@/lib/recurring";
+
+/**
+ * 確認待ちの定期的な取引のプロパティ
+ */
+interface RecurringEntriesReviewProps {
+  /** 確定・スキップで経費・売上が変わった時のコールバック（KPIの再集計用） */
+  onEntriesChanged?: () => void;
+}
+
+/**
+ * 確認待ちの定期的な取引セクション
+ *
+ * ビジネス上の役割:
+ * 定期的な取引（農地賃借料・保険料など）から自動で作成された経費・売上を一覧にし、
+ * 内容を確認して確定、またはその回は発生しなかったものとしてスキップしてもらう
+ *
+ * 表示内容:
+ * - 確認待ちの経費・売上（日付・内容・金額・作成元の定期的な取引）
+ * - 確定・スキップボタン（閲覧のみのメンバーには表示しない）
+ * - 確認待ちがない場合は何も表示しない
+ */
+export function RecurringEntriesReview({ onEntriesChanged }: RecurringEntriesReviewProps) {
+  // 確認待ちの経費・売上
+  const [entries, setEntries] = useState<PendingRecurringEntry[]>([]);
+  // 確定・スキップできる役割か
+  const [canEdit, setCanEdit] = useState(false);
+  // 処理中の経費・売上のID
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 確認待ちの経費・売上を取得
+   */
+  const fetchEntries = useCallback(async () => {
+    try {
+      const supabase = createSupabaseClient();
+      const [pendingEntries, role] = await Promise.all([
+        listPendingRecurringEntries(supabase),
+        getCurrentFarmRole(supabase),
+      ]);
+
+      setEntries(pendingEntries);
+      setCanEdit(canEditFarmData(role));
+    } catch (err) {
+      // 確認待ちが表示できなくても、ダッシュボードの他の機能は使えるためログのみ
+      console.error("確認待ちの取引の取得エラー:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  /**
+   * 確定またはスキップする
+   */
+  const handleReview = async (entry: PendingRecurringEntry, action: "confirm" | "skip") => {
+    try {
+      setProcessingId(entry.id);
+      setError(null);
+
+      const supabase = createSupabaseClient();
+      if (action === "confirm") {
+        await confirmRecurringEntry(supabase, entry);
+      } else {
+        await skipRecurringEntry(supabase, entry);
+      }
+
+      setEntries((current) => current.filter((item) => item.id !== entry.id));
+      if (action === "skip") {
+        onEntriesChanged?.();
+      }
+    } catch (err) {
+      console.error("確認待ちの取引の更新エラー:", err);
+      setError(err instanceof Error ? err.message : "更新に失敗しました");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8 border-amber-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Repeat className="h-5 w-5 text-amber-600" />
+          確認待ちの定期的な取引（{entries.length}件）
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <ul className="divide-y border rounded-md">
+          {entries.map((entry) => (
+            <li
+              key={`${entry.kind}-${entry.id}`}
+              className="flex flex-wrap items-center justify-between gap-2 px-3 py-2"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  <span className="mr-2 text-gray-500">{entry.date}</span>
+                  {RECURRING_KIND_LABELS[entry.kind]}・{entry.label}・
+                  {entry.amount.toLocaleString("ja-JP")}円
+                </p>
+                {(entry.ruleName || entry.description) && (
+                  <p className="text-xs text-gray-500 truncate">
+                    {entry.ruleName}
+                    {entry.ruleName && entry.description && "／"}
+                    {entry.description}
+                  </p>
+                )}
+              </div>
+
+              {canEdit && (
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview(entry, "confirm")}
+                    disabled={processingId === entry.id}
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    {processingId === entry.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Check className="h-4 w-4" />
+                    )}
+                    <span className="ml-1">確定</span>
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(entry, "skip")}
+                    disabled={processingId === entry.id}
+                  >
+                    <SkipForward className="h-4 w-4" />
+                    <span className="ml-1">スキップ</span>
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <p className="text-xs text-gray-500">
+          ※ 金額が変わった場合は、
+          <Link href="/expenses" className="text-green-700 underline">
+            経費
+          </Link>
+          ・
+          <Link href="/sales" className="text-green-700 underline">
+            売上
+          </Link>
+          の台帳で修正してから確定してください。スキップすると、その回の取引は削除されます。
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
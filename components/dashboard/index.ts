@@ -13,3 +13,4 @@ export { LoadingKPICards } from "./LoadingKPICards";
 export { DashboardHeader } from "./DashboardHeader";
 export { ActionCards } from "./ActionCards";
 export { KPISection } from "./KPISection";
+export { RecurringEntriesReview } from "./RecurringEntriesReview";
@@ -5,50 +5,116 @@
  * 
  * 責務:
  * - フォーム状態の管理（入力値、エラー、成功状態など）
- * - 勘定科目マスタの取得
+ * - 勘定科目マスタ・作物名・作付けの候補の取得
  * - OCRパラメータの読み込みとフォームへの自動セット
  * - フォーム送信処理（バリデーション、DB保存）
  * 
  * ビジネス上の流れ:
  * 1. ページ読み込み時に勘定科目マスタを取得
- * 2. URLパラメータにOCRデータがあれば自動入力
+ * 2. URLパラメータにOCRデータがあれば自動入力（税率・仕入先の登録番号を含む）
  * 3. ユーザーが入力・修正
  * 4. 送信ボタンで経費データをDBに保存
+ *
+ * 編集モード:
+ * - editingExpense を渡すと、既存の経費を読み込んで更新する
+ * - 台帳画面（/expenses）の行内編集で使用
  */
 
 import { useState, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { createSupabaseClient } from "@/lib/supabase/client";
+import { getTodayInJapan } from "@/lib/dateUtils";
+import {
+  findCategoryByOcrName,
+  loadPendingLineItems,
+  clearPendingLineItems,
+} from "@/lib/receiptOcr";
+import {
+  buildSplitLinesFromLineItems,
+  createEmptySplitLine,
+  createSplitLineId,
+  getSplitDifference,
+  type ExpenseSplitLine,
+} from "@/lib/receiptSplit";
+import {
+  uploadReceiptImage,
+  deleteReceiptImages,
+  loadPendingReceiptImage,
+  clearPendingReceiptImage,
+} from "@/lib/receiptStorage";
+import {
+  DEFAULT_EXPENSE_TAX_RATE,
+  calculateIncludedTax,
+  normalizeInvoiceRegistrationNumber,
+  toConsumptionTaxRate,
+} from "@/lib/consumptionTax";
+import { fetchPlantingOptions, type PlantingOption } from "@/lib/fieldMetrics";
 import type { User } from "@supabase/supabase-js";
-import type { ExpenseFormData, ExpenseCategory, UseExpenseFormReturn } from "../types";
-
-/**
- * 今日の日付をYYYY-MM-DD形式で取得するヘルパー関数
- */
-const getTodayString = (): string => new Date().toISOString().split("T")[0];
+import type {
+  ExpenseFormData,
+  ExpenseCategory,
+  EditableExpense,
+  UseExpenseFormOptions,
+  UseExpenseFormReturn,
+} from "../types";
 
 /**
  * フォームの初期値
  */
 const INITIAL_FORM_DATA: ExpenseFormData = {
-  date: getTodayString(),
+  date: getTodayInJapan(),
   categoryId: "",
   categoryName: "",
   amount: "",
+  taxRate: String(DEFAULT_EXPENSE_TAX_RATE),
+  invoiceRegistrationNumber: "",
+  cropName: "",
+  plantingId: "",
   description: "",
 };
 
+/**
+ * 編集対象の経費をフォームの入力値に変換する
+ */
+const toFormData = (expense: EditableExpense): ExpenseFormData => ({
+  date: expense.date,
+  categoryId: expense.categoryId || "",
+  categoryName: expense.categoryName,
+  amount: String(expense.amount),
+  taxRate: String(expense.taxRate),
+  invoiceRegistrationNumber: expense.invoiceRegistrationNumber || "",
+  cropName: expense.cropName || "",
+  plantingId: expense.plantingId || "",
+  description: expense.description || "",
+});
+
+/**
+ * 税込金額（入力値）と税率（入力値）から、含まれる消費税額を計算する
+ */
+const calculateTaxAmount = (amount: string, taxRate: string): number =>
+  calculateIncludedTax(
+    parseInt(amount, 10) || 0,
+    toConsumptionTaxRate(taxRate, DEFAULT_EXPENSE_TAX_RATE)
+  );
+
 /**
  * 経費登録フォームのカスタムフック
  * 
  * 使用例:
  * ```
  * const { formData, handleSubmit, loading, error } = useExpenseForm();
+ *
+ * // 既存の経費を編集する場合
+ * const form = useExpenseForm({ editingExpense, onSaved: reloadList });
  * ```
  */
-export function useExpenseForm(): UseExpenseFormReturn {
+export function useExpenseForm(
+  options: UseExpenseFormOptions = {}
+): UseExpenseFormReturn {
+  const { editingExpense, onSaved } = options;
   const router = useRouter();
   const searchParams = useSearchParams();
+  const isEditMode = Boolean(editingExpense);
   
   // === 状態定義 ===
   const [loading, setLoading] = useState(false);
@@ -58,8 +124,15 @@ export function useExpenseForm(): UseExpenseFormReturn {
   const [isOcrFilled, setIsOcrFilled] = useState(false);
   const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([]);
   const [categoriesLoading, setCategoriesLoading] = useState(true);
+  const [cropNameOptions, setCropNameOptions] = useState<string[]>([]);
+  const [plantingOptions, setPlantingOptions] = useState<PlantingOption[]>([]);
   const [ocrSuggestedCategory, setOcrSuggestedCategory] = useState<string | null>(null);
-  const [formData, setFormData] = useState<ExpenseFormData>(INITIAL_FORM_DATA);
+  const [receiptImage, setReceiptImage] = useState<string | null>(null);
+  const [isSplitMode, setIsSplitMode] = useState(false);
+  const [splitLines, setSplitLines] = useState<ExpenseSplitLine[]>([]);
+  const [formData, setFormData] = useState<ExpenseFormData>(
+    editingExpense ? toFormData(editingExpense) : INITIAL_FORM_DATA
+  );
 
   // === 初期化処理 ===
   useEffect(() => {
@@ -71,8 +144,9 @@ export function useExpenseForm(): UseExpenseFormReturn {
    * 
    * 実行順序:
    * 1. ログインユーザーを取得
-   * 2. 勘定科目マスタをDBから取得
+   * 2. 勘定科目マスタと作物名・作付けの候補をDBから取得
    * 3. URLパラメータからOCRデータを読み込み、フォームに自動セット
+   *    （編集モードの場合は既存データを表示するため、OCRパラメータは無視する）
    */
   async function initializeForm(): Promise<void> {
     const supabase = createSupabaseClient();
@@ -87,30 +161,37 @@ export function useExpenseForm(): UseExpenseFormReturn {
       return;
     }
 
-    // ステップ2: 勘定科目取得
-    const categories = await fetchExpenseCategories(supabase, user.id);
+    // ステップ2: 勘定科目・作物名・作付けの候補を取得
+    const [categories, cropNames, plantings] = await Promise.all([
+      fetchExpenseCategories(supabase),
+      fetchCropNameOptions(supabase),
+      fetchPlantingOptions(supabase),
+    ]);
     setExpenseCategories(categories);
+    setCropNameOptions(cropNames);
+    setPlantingOptions(plantings);
     setCategoriesLoading(false);
 
-    // ステップ3: OCRパラメータ適用
-    applyOcrParameters(categories);
+    // ステップ3: OCRパラメータ適用（新規登録時のみ）
+    if (!isEditMode) {
+      applyOcrParameters(categories);
+    }
   }
 
   /**
    * 勘定科目マスタをDBから取得
    * 
+   * （RLSにより現在の農場の勘定科目のみ取得される）
+   *
    * @param supabase - Supabaseクライアント
-   * @param userId - ユーザーID（RLSによるフィルタリング用）
    * @returns 有効な勘定科目の配列
    */
   async function fetchExpenseCategories(
-    supabase: ReturnType<typeof createSupabaseClient>,
-    userId: string
+    supabase: ReturnType<typeof createSupabaseClient>
   ): Promise<ExpenseCategory[]> {
     const { data, error: fetchError } = await supabase
       .from("expense_categories")
       .select("id, name, category_type")
-      .eq("user_id", userId)
       .eq("is_active", true)
       .order("display_order", { ascending: true });
 
@@ -121,11 +202,38 @@ export function useExpenseForm(): UseExpenseFormReturn {
     return data || [];
   }
 
+  /**
+   * 作物名の候補を取得（直近の売上に登録された作物名、重複なし）
+   * 候補の取得に失敗しても経費の登録はできるため、空の候補を返す
+   *
+   * @param supabase - Supabaseクライアント
+   * @returns 作物名の配列（最近の売上の順）
+   */
+  async function fetchCropNameOptions(
+    supabase: ReturnType<typeof createSupabaseClient>
+  ): Promise<string[]> {
+    const { data, error: fetchError } = await supabase
+      .from("sales")
+      .select("crop_name")
+      .order("date", { ascending: false })
+      .limit(500);
+
+    if (fetchError) {
+      console.error("作物名の取得に失敗:", fetchError);
+      return [];
+    }
+
+    const cropNames = (data || [])
+      .map((sale) => (sale.crop_name as string | null)?.trim() || "")
+      .filter((cropName) => cropName !== "");
+    return Array.from(new Set(cropNames));
+  }
+
   /**
    * OCRからのURLパラメータをフォームに適用
    * 
    * URLパラメータ例:
-   * ?date=2024-01-15&amount=3000&category=肥料費&description=春用肥料
+   * ?date=2024-01-15&amount=3000&category=肥料費&description=春用肥料&taxRate=10&invoiceNumber=T1234567890123
    * 
    * @param categories - マッチング用の勘定科目リスト
    */
@@ -135,6 +243,8 @@ export function useExpenseForm(): UseExpenseFormReturn {
     const amountParam = searchParams.get("amount");
     const categoryParam = searchParams.get("category");
     const descriptionParam = searchParams.get("description");
+    const taxRateParam = searchParams.get("taxRate");
+    const invoiceNumberParam = searchParams.get("invoiceNumber");
 
     // パラメータが1つもなければ何もしない
     const hasOcrData = dateParam || amountParam || categoryParam || descriptionParam;
@@ -142,6 +252,22 @@ export function useExpenseForm(): UseExpenseFormReturn {
 
     // OCRから自動入力されたことを示すフラグをON
     setIsOcrFilled(true);
+
+    // レシートスキャナーから引き継いだ画像（登録時に証憑として保存する）
+    setReceiptImage(loadPendingReceiptImage());
+
+    // 明細行を勘定科目ごとにまとめ、複数の科目が混在する場合は分割登録を初期状態にする
+    const pendingLineItems = loadPendingLineItems();
+    if (pendingLineItems) {
+      const initialSplitLines = buildSplitLinesFromLineItems(
+        pendingLineItems.lineItems,
+        pendingLineItems.pricesIncludeTax,
+        categories,
+        amountParam ? parseInt(amountParam, 10) : null
+      );
+      setSplitLines(initialSplitLines);
+      setIsSplitMode(initialSplitLines.length > 1);
+    }
     
     // OCRで推測された科目名を保存（表示用）
     if (categoryParam) {
@@ -153,20 +279,21 @@ export function useExpenseForm(): UseExpenseFormReturn {
 
     // フォームに値をセット
     setFormData({
-      date: dateParam || getTodayString(),
+      date: dateParam || getTodayInJapan(),
       categoryId: matchedId,
       categoryName: matchedName,
       amount: amountParam || "",
+      taxRate: String(toConsumptionTaxRate(taxRateParam, DEFAULT_EXPENSE_TAX_RATE)),
+      invoiceRegistrationNumber: normalizeInvoiceRegistrationNumber(invoiceNumberParam) || "",
+      cropName: "",
+      plantingId: "",
       description: descriptionParam || "",
     });
   }
 
   /**
    * OCRの科目名を勘定科目マスタとマッチング
-   * 
-   * マッチング優先順位:
-   * 1. 完全一致（例: "肥料費" === "肥料費"）
-   * 2. 部分一致（例: "肥料" が "肥料費" に含まれる）
+   * （マッチング規則は lib/receiptOcr.ts の findCategoryByOcrName を参照）
    * 
    * @param ocrCategory - OCRで推測された科目名
    * @param categories - 勘定科目マスタの配列
@@ -176,42 +303,32 @@ export function useExpenseForm(): UseExpenseFormReturn {
     ocrCategory: string | null,
     categories: ExpenseCategory[]
   ): { matchedId: string; matchedName: string } {
-    // 科目名がない、または勘定科目がない場合は空を返す
-    if (!ocrCategory || categories.length === 0) {
+    const matchedCategory = findCategoryByOcrName(ocrCategory, categories);
+    if (!matchedCategory) {
       return { matchedId: "", matchedName: "" };
     }
-
-    // 完全一致を試みる
-    const exactMatch = categories.find(category => category.name === ocrCategory);
-    if (exactMatch) {
-      return { matchedId: exactMatch.id, matchedName: exactMatch.name };
-    }
-
-    // 部分一致を試みる（どちらかがどちらかを含む）
-    const partialMatch = categories.find(
-      category => 
-        category.name.includes(ocrCategory) || 
-        ocrCategory.includes(category.name)
-    );
-    if (partialMatch) {
-      return { matchedId: partialMatch.id, matchedName: partialMatch.name };
-    }
-
-    // マッチしなかった場合は空を返す
-    return { matchedId: "", matchedName: "" };
+    return { matchedId: matchedCategory.id, matchedName: matchedCategory.name };
   }
 
   // === イベントハンドラー ===
 
   /**
    * テキスト入力フィールドの変更処理
-   * 日付、金額、摘要の入力に使用
+   * 日付、金額、税率、登録番号、作物、作付け、摘要の入力に使用
+   * 作付けを選んだ場合は、作付けの作物名を作物にも入れる（作物別損益の直接費になる）
    */
   const handleChange = (
-    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ): void => {
     const { name, value } = event.target;
-    setFormData(previousData => ({ ...previousData, [name]: value }));
+    const selectedPlanting =
+      name === "plantingId" ? plantingOptions.find(planting => planting.id === value) : undefined;
+
+    setFormData(previousData => ({
+      ...previousData,
+      [name]: value,
+      ...(selectedPlanting ? { cropName: selectedPlanting.cropName } : {}),
+    }));
   };
 
   /**
@@ -243,14 +360,103 @@ export function useExpenseForm(): UseExpenseFormReturn {
     }));
   };
 
+  // === 科目別の分割 ===
+
+  /**
+   * 科目別の分割登録を切り替える
+   * 分割行がまだなければ、現在の科目・金額の1行から始める
+   */
+  const toggleSplitMode = (): void => {
+    if (!isSplitMode && splitLines.length === 0) {
+      setSplitLines([
+        {
+          id: createSplitLineId(),
+          categoryId: formData.categoryId,
+          categoryName: formData.categoryName,
+          amount: formData.amount,
+          taxRate: formData.taxRate,
+          memo: "",
+        },
+      ]);
+    }
+    setIsSplitMode(!isSplitMode);
+  };
+
+  /**
+   * 分割行の金額・税率・メモを変更
+   */
+  const handleSplitLineChange = (
+    lineId: string,
+    update: Partial<Pick<ExpenseSplitLine, "amount" | "memo" | "taxRate">>
+  ): void => {
+    setSplitLines((previousLines) =>
+      previousLines.map((line) => (line.id === lineId ? { ...line, ...update } : line))
+    );
+  };
+
+  /**
+   * 分割行の勘定科目を変更（IDと科目名を同時に更新）
+   */
+  const handleSplitLineCategorySelect = (lineId: string, categoryId: string): void => {
+    const selectedCategory = expenseCategories.find((category) => category.id === categoryId);
+    setSplitLines((previousLines) =>
+      previousLines.map((line) =>
+        line.id === lineId
+          ? { ...line, categoryId, categoryName: selectedCategory?.name || "" }
+          : line
+      )
+    );
+  };
+
+  /**
+   * 分割行を追加
+   */
+  const addSplitLine = (): void => {
+    setSplitLines((previousLines) => [...previousLines, createEmptySplitLine()]);
+  };
+
+  /**
+   * 分割行を削除
+   */
+  const removeSplitLine = (lineId: string): void => {
+    setSplitLines((previousLines) => previousLines.filter((line) => line.id !== lineId));
+  };
+
+  /**
+   * 分割行の入力チェック
+   * 全ての行に科目と金額があり、合計がレシートの合計金額と一致すること
+   */
+  function validateSplitLines(): void {
+    if (splitLines.length === 0) {
+      throw new Error("分割する行を追加してください。");
+    }
+    if (splitLines.some((line) => !line.categoryId || !line.categoryName)) {
+      throw new Error("分割した全ての行の勘定科目を選択してください。");
+    }
+    if (splitLines.some((line) => !(parseInt(line.amount, 10) > 0))) {
+      throw new Error("分割した全ての行に金額を入力してください。");
+    }
+
+    const receiptTotal = parseInt(formData.amount, 10) || 0;
+    const difference = getSplitDifference(splitLines, receiptTotal);
+    if (difference !== 0) {
+      throw new Error(
+        `分割した金額の合計がレシートの合計と${Math.abs(difference).toLocaleString("ja-JP")}円ずれています。金額を調整してください。`
+      );
+    }
+  }
+
   /**
    * フォーム送信処理
    * 
    * ビジネス上の流れ:
    * 1. ログインユーザーのIDを再取得（セッション切れ対策）
-   * 2. 入力バリデーション（勘定科目が選択されているか）
+   * 2. 入力バリデーション（勘定科目が選択されているか、登録番号の形式が正しいか）
    * 3. 経費データにユーザーID、科目ID、科目名を付与してSupabaseに保存
-   * 4. 成功したらダッシュボードに遷移
+   *    （編集モードの場合は既存レコードを更新）
+   *    レシートから登録する場合は、画像を証憑として Storage に保存して紐付ける
+   *    科目別に分割する場合は、分割行ごとに経費を登録する（合計はレシートと一致させる）
+   * 4. 成功したらダッシュボードに遷移（onSaved 指定時はコールバックを呼ぶ）
    */
   const handleSubmit = async (event: React.FormEvent): Promise<void> => {
     event.preventDefault();
@@ -268,28 +474,104 @@ export function useExpenseForm(): UseExpenseFormReturn {
         throw new Error("ログインが必要です。再度ログインしてください。");
       }
 
-      // 勘定科目が選択されているか確認
-      if (!formData.categoryId || !formData.categoryName) {
+      // 分割登録の場合は、分割行ごとに経費を作る
+      const useSplit = isSplitMode && !editingExpense;
+
+      if (useSplit) {
+        validateSplitLines();
+      } else if (!formData.categoryId || !formData.categoryName) {
+        // 勘定科目が選択されているか確認
         throw new Error("勘定科目を選択してください。");
       }
 
-      // 経費データをDBに保存
-      // RLSにより、自分のuser_idでのみ登録が許可される
-      const { error: insertError } = await supabase.from("expenses").insert({
-        user_id: user.id,
+      // 登録番号は入力がある場合のみ形式をチェックする（T + 13桁に整えて保存）
+      const invoiceRegistrationNumber = normalizeInvoiceRegistrationNumber(
+        formData.invoiceRegistrationNumber
+      );
+      if (formData.invoiceRegistrationNumber.trim() && !invoiceRegistrationNumber) {
+        throw new Error("登録番号は「T」と13桁の数字で入力してください。");
+      }
+
+      // 保存する経費データ
+      const expenseValues = {
         date: formData.date,
         category_id: formData.categoryId,    // 勘定科目マスタとの紐付け
         category: formData.categoryName,     // 科目名（後方互換性のため）
         amount: parseInt(formData.amount),
+        tax_rate: toConsumptionTaxRate(formData.taxRate, DEFAULT_EXPENSE_TAX_RATE),
+        tax_amount: calculateTaxAmount(formData.amount, formData.taxRate),
+        invoice_registration_number: invoiceRegistrationNumber,
+        crop_name: formData.cropName.trim() || null, // 作物別損益の直接費（共通経費は null）
+        planting_id: formData.plantingId || null,    // 10アール当たりの集計に使う作付け
         description: formData.description || null,
-      });
+      };
 
-      if (insertError) {
-        throw insertError;
+      // 分割登録の場合の経費データ（摘要に品名などのメモを追記する）
+      const splitExpenseValues = splitLines.map((line) => ({
+        date: formData.date,
+        category_id: line.categoryId,
+        category: line.categoryName,
+        amount: parseInt(line.amount, 10),
+        tax_rate: toConsumptionTaxRate(line.taxRate, DEFAULT_EXPENSE_TAX_RATE),
+        tax_amount: calculateTaxAmount(line.amount, line.taxRate),
+        invoice_registration_number: invoiceRegistrationNumber,
+        crop_name: formData.cropName.trim() || null,
+        planting_id: formData.plantingId || null,
+        description:
+          [formData.description, line.memo].filter((text) => text.trim() !== "").join(" / ") ||
+          null,
+      }));
+
+      if (editingExpense) {
+        // 既存の経費を更新
+        // RLSにより、自分の経費のみ更新が許可される
+        const { error: updateError } = await supabase
+          .from("expenses")
+          .update(expenseValues)
+          .eq("id", editingExpense.id);
+
+        if (updateError) {
+          throw updateError;
+        }
+      } else {
+        // レシートから登録する場合は、先に画像を証憑として保存
+        const receiptPath = receiptImage
+          ? await uploadReceiptImage(supabase, user.id, receiptImage)
+          : null;
+
+        // 経費データをDBに保存
+        // RLSにより、自分のuser_idでのみ登録が許可される
+        // 分割登録の場合も、全ての経費に同じレシート画像を紐付ける
+        const { error: insertError } = await supabase
+          .from("expenses")
+          .insert(
+            (useSplit ? splitExpenseValues : [expenseValues]).map((values) => ({
+              user_id: user.id,
+              ...values,
+              receipt_path: receiptPath,
+            }))
+          );
+
+        if (insertError) {
+          // 経費が登録できなかったので、保存した画像も削除する
+          if (receiptPath) {
+            await deleteReceiptImages(supabase, [receiptPath]).catch(() => undefined);
+          }
+          throw insertError;
+        }
+
+        clearPendingReceiptImage();
+        clearPendingLineItems();
       }
 
       // 成功処理
       setSuccess(true);
+
+      // 呼び出し元が保存後の処理を指定している場合はそちらに任せる
+      if (onSaved) {
+        onSaved();
+        return;
+      }
       
       // 1.5秒後にダッシュボードに遷移
       setTimeout(() => {
@@ -316,9 +598,22 @@ export function useExpenseForm(): UseExpenseFormReturn {
     isOcrFilled,
     expenseCategories,
     categoriesLoading,
+    cropNameOptions,
+    plantingOptions,
     ocrSuggestedCategory,
+    receiptImage,
+    isSplitMode,
+    splitLines,
+    splitDifference: getSplitDifference(splitLines, parseInt(formData.amount, 10) || 0),
+    taxAmount: calculateTaxAmount(formData.amount, formData.taxRate),
+    isEditMode,
     handleChange,
     handleCategorySelect,
+    toggleSplitMode,
+    handleSplitLineChange,
+    handleSplitLineCategorySelect,
+    addSplitLine,
+    removeSplitLine,
     handleSubmit,
   };
 }
@@ -13,6 +13,8 @@
 export type { 
   ExpenseCategory, 
   ExpenseFormData, 
+  EditableExpense,
+  UseExpenseFormOptions,
   UseExpenseFormReturn 
 } from "./types";
 
@@ -22,3 +24,13 @@ export { useExpenseForm } from "./hooks/useExpenseForm";
 // ビューコンポーネント
 export { CategorySelector } from "./views/CategorySelector";
 export { FormMessages } from "./views/FormMessages";
+export {
+  DateField,
+  AmountField,
+  TaxRateField,
+  InvoiceNumberField,
+  CropField,
+  PlantingField,
+  DescriptionField,
+} from "./views/ExpenseFields";
+export { ExpenseSplitEditor } from "./views/ExpenseSplitEditor";
@@ -5,6 +5,9 @@
  * 他のコンポーネントやフックからインポートして使用します。
  */
 
+import type { ExpenseSplitLine } from "@/lib/receiptSplit";
+import type { PlantingOption } from "@/lib/fieldMetrics";
+
 /**
  * 勘定科目マスタの型
  * expense_categories テーブルから取得するデータの構造
@@ -23,10 +26,42 @@ export interface ExpenseFormData {
   date: string;         // 日付（YYYY-MM-DD形式）
   categoryId: string;   // 選択した科目のID
   categoryName: string; // 選択した科目名（DBのcategoryカラムに保存）
-  amount: string;       // 金額（入力時は文字列、保存時に数値に変換）
+  amount: string;       // 金額（税込。入力時は文字列、保存時に数値に変換）
+  taxRate: string;      // 消費税率（"10" / "8" / "0"）
+  invoiceRegistrationNumber: string; // 仕入先の登録番号（T + 13桁。なければ空）
+  cropName: string;     // 対象の作物（複数の作物で共通の経費は空）
+  plantingId: string;   // 対象の作付け（紐付けない場合は空）
   description: string;  // 摘要/メモ
 }
 
+/**
+ * 編集対象の経費データの型
+ * 台帳画面から既存の経費を修正するときに useExpenseForm へ渡す
+ */
+export interface EditableExpense {
+  id: string;                  // 経費レコードのID
+  date: string;                // 日付（YYYY-MM-DD形式）
+  categoryId: string | null;   // 勘定科目ID（連携前の古いデータはnull）
+  categoryName: string;        // 勘定科目名
+  amount: number;              // 金額（円・税込）
+  taxRate: number;             // 消費税率（10 / 8 / 0）
+  invoiceRegistrationNumber: string | null; // 仕入先の登録番号
+  cropName: string | null;     // 対象の作物（共通経費は null）
+  plantingId: string | null;   // 対象の作付け
+  description: string | null;  // 摘要/メモ
+}
+
+/**
+ * useExpenseForm カスタムフックのオプション
+ * 何も指定しなければ従来どおり「新規登録」として動作する
+ */
+export interface UseExpenseFormOptions {
+  /** 編集対象の経費（指定すると更新モードになる） */
+  editingExpense?: EditableExpense;
+  /** 保存完了時のコールバック（指定するとダッシュボードへ遷移しない） */
+  onSaved?: () => void;
+}
+
 /**
  * useExpenseForm カスタムフックの戻り値の型
  * フォームの状態とハンドラーをまとめて返す
@@ -40,10 +75,28 @@ export interface UseExpenseFormReturn {
   isOcrFilled: boolean;                // OCRから自動入力されたかどうか
   expenseCategories: ExpenseCategory[]; // 勘定科目マスタのリスト
   categoriesLoading: boolean;          // 勘定科目の読み込み中フラグ
+  cropNameOptions: string[];           // 作物名の候補（売上に登録済みの作物）
+  plantingOptions: PlantingOption[];   // 作付けの候補（設定画面で登録した作付け）
   ocrSuggestedCategory: string | null; // OCRで推測された科目名
+  receiptImage: string | null;         // 証憑として保存するレシート画像（Base64）
+  isSplitMode: boolean;                // 1枚のレシートを科目別に分割して登録するか
+  splitLines: ExpenseSplitLine[];      // 分割行（1行 = 経費1件）
+  splitDifference: number;             // レシート合計 − 分割合計（0で照合済み）
+  taxAmount: number;                   // 金額に含まれる消費税額
+  isEditMode: boolean;                 // 既存の経費を編集中かどうか
   
   // === イベントハンドラー ===
-  handleChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  handleChange: (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => void;
   handleCategorySelect: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+  toggleSplitMode: () => void;
+  handleSplitLineChange: (
+    lineId: string,
+    update: Partial<Pick<ExpenseSplitLine, "amount" | "memo" | "taxRate">>
+  ) => void;
+  handleSplitLineCategorySelect: (lineId: string, categoryId: string) => void;
+  addSplitLine: () => void;
+  removeSplitLine: (lineId: string) => void;
   handleSubmit: (e: React.FormEvent) => Promise<void>;
 }
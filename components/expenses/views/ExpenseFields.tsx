@@ -0,0 +1,248 @@
+/**
+ * 経費フォームの入力フィールド
+ *
+ * 経費登録ページと台帳画面の行内編集の両方で使用する
+ * - 日付入力
+ * - 金額入力
+ * - 消費税率・登録番号入力（インボイス制度対応）
+ * - 作物入力（作物別損益の直接費にする場合）
+ * - 作付け選択（圃場の10アール当たりの集計に使う場合）
+ * - 摘要/メモ入力
+ *
+ * ※ 勘定科目の選択は CategorySelector が担当
+ */
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CONSUMPTION_TAX_RATE_OPTIONS } from "@/lib/consumptionTax";
+import { formatPlantingLabel, type PlantingOption } from "@/lib/fieldMetrics";
+
+/**
+ * 日付入力フィールドのプロパティ
+ */
+interface DateFieldProps {
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+/**
+ * 日付入力フィールド
+ */
+export function DateField({ value, onChange }: DateFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="date">日付 *</Label>
+      <Input
+        id="date"
+        name="date"
+        type="date"
+        value={value}
+        onChange={onChange}
+        required
+      />
+    </div>
+  );
+}
+
+/**
+ * 金額入力フィールドのプロパティ
+ */
+interface AmountFieldProps {
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  /** ラベル（科目別に分割するときは「レシート合計」にする） */
+  label?: string;
+}
+
+/**
+ * 金額入力フィールド
+ */
+export function AmountField({ value, onChange, label = "金額" }: AmountFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="amount">{label} *</Label>
+      <Input
+        id="amount"
+        name="amount"
+        type="number"
+        value={value}
+        onChange={onChange}
+        placeholder="例: 50000"
+        required
+        min="0"
+      />
+    </div>
+  );
+}
+
+/**
+ * 消費税率選択フィールドのプロパティ
+ */
+interface TaxRateFieldProps {
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLSelectElement>) => void;
+  /** 金額に含まれる消費税額（「うち消費税」として表示） */
+  taxAmount: number;
+}
+
+/**
+ * 消費税率選択フィールド
+ */
+export function TaxRateField({ value, onChange, taxAmount }: TaxRateFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="taxRate">消費税率</Label>
+      <select
+        id="taxRate"
+        name="taxRate"
+        value={value}
+        onChange={onChange}
+        className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+      >
+        {CONSUMPTION_TAX_RATE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500">
+        うち消費税 {taxAmount.toLocaleString("ja-JP")}円
+      </p>
+    </div>
+  );
+}
+
+/**
+ * 登録番号入力フィールドのプロパティ
+ */
+interface InvoiceNumberFieldProps {
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+/**
+ * 適格請求書発行事業者の登録番号入力フィールド
+ * レシートに「T」+ 13桁の登録番号があれば入力する（仕入税額控除の確認に使う）
+ */
+export function InvoiceNumberField({ value, onChange }: InvoiceNumberFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="invoiceRegistrationNumber">登録番号（インボイス）</Label>
+      <Input
+        id="invoiceRegistrationNumber"
+        name="invoiceRegistrationNumber"
+        type="text"
+        value={value}
+        onChange={onChange}
+        placeholder="例: T1234567890123"
+        maxLength={20}
+      />
+    </div>
+  );
+}
+
+/**
+ * 作物入力フィールドのプロパティ
+ */
+interface CropFieldProps {
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  /** 作物名の候補（売上に登録済みの作物） */
+  options: string[];
+}
+
+/**
+ * 作物入力フィールド
+ * その作物のためだけの経費なら作物名を入れ、共通の経費は空のままにする
+ * （表記を揃えるため、売上に登録済みの作物名を候補として表示）
+ */
+export function CropField({ value, onChange, options }: CropFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="cropName">作物（任意）</Label>
+      <Input
+        id="cropName"
+        name="cropName"
+        type="text"
+        value={value}
+        onChange={onChange}
+        list="expense-crop-name-options"
+        placeholder="共通の経費は空欄"
+      />
+      <datalist id="expense-crop-name-options">
+        {options.map((cropName) => (
+          <option key={cropName} value={cropName} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
+
+/**
+ * 作付け選択フィールドのプロパティ
+ */
+interface PlantingFieldProps {
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLSelectElement>) => void;
+  /** 作付けの候補（設定画面で登録した作付け） */
+  options: PlantingOption[];
+}
+
+/**
+ * 作付け選択フィールド
+ * どの圃場・作期の経費かを選ぶと、圃場の10アール当たりの集計に使われる
+ * （作付けが未登録の場合は表示しない）
+ */
+export function PlantingField({ value, onChange, options }: PlantingFieldProps) {
+  if (options.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="plantingId">作付け（任意）</Label>
+      <select
+        id="plantingId"
+        name="plantingId"
+        value={value}
+        onChange={onChange}
+        className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+      >
+        <option value="">紐付けない</option>
+        {options.map((planting) => (
+          <option key={planting.id} value={planting.id}>
+            {formatPlantingLabel(planting)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+/**
+ * 摘要/メモ入力フィールドのプロパティ
+ */
+interface DescriptionFieldProps {
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  /** 表示行数（行内編集では小さくする） */
+  rows?: number;
+}
+
+/**
+ * 摘要/メモ入力フィールド
+ */
+export function DescriptionField({ value, onChange, rows = 4 }: DescriptionFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="description">摘要/メモ</Label>
+      <textarea
+        id="description"
+        name="description"
+        value={value}
+        onChange={onChange}
+        placeholder="メモがあれば入力してください"
+        rows={rows}
+        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * 科目別分割の入力欄
+ *
+ * ビジネス上の役割:
+ * 肥料・農薬・消耗品などが混在する1枚のレシートを、
+ * 勘定科目ごとの複数の経費に分けて登録する
+ *
+ * 表示ルール:
+ * - 分割行ごとに勘定科目・金額・税率・メモ（品名など）を入力
+ * - レシートの合計との差額を常に表示し、差額が0でなければ登録できない
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import type { ExpenseSplitLine } from "@/lib/receiptSplit";
+import { CONSUMPTION_TAX_RATE_OPTIONS } from "@/lib/consumptionTax";
+import type { ExpenseCategory } from "../types";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface ExpenseSplitEditorProps {
+  splitLines: ExpenseSplitLine[];
+  categories: ExpenseCategory[];
+  /** レシート合計 − 分割合計 */
+  splitDifference: number;
+  onLineChange: (
+    lineId: string,
+    update: Partial<Pick<ExpenseSplitLine, "amount" | "memo" | "taxRate">>
+  ) => void;
+  onLineCategorySelect: (lineId: string, categoryId: string) => void;
+  onAddLine: () => void;
+  onRemoveLine: (lineId: string) => void;
+}
+
+export function ExpenseSplitEditor({
+  splitLines,
+  categories,
+  splitDifference,
+  onLineChange,
+  onLineCategorySelect,
+  onAddLine,
+  onRemoveLine,
+}: ExpenseSplitEditorProps) {
+  const selectClassName = "h-9 w-full rounded-md border border-input bg-background px-2 text-sm";
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <p className="text-sm font-medium">科目別の内訳</p>
+
+      {splitLines.map((line, index) => (
+        <div key={line.id} className="grid grid-cols-[1fr_7rem_auto] gap-2 items-start">
+          <select
+            value={line.categoryId}
+            onChange={(event) => onLineCategorySelect(line.id, event.target.value)}
+            className={selectClassName}
+            aria-label={`${index + 1}行目の勘定科目`}
+          >
+            <option value="">勘定科目を選択</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <Input
+            type="number"
+            inputMode="numeric"
+            min="0"
+            value={line.amount}
+            onChange={(event) => onLineChange(line.id, { amount: event.target.value })}
+            placeholder="金額"
+            aria-label={`${index + 1}行目の金額`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onRemoveLine(line.id)}
+            disabled={splitLines.length === 1}
+            className="text-red-600 hover:text-red-700"
+            aria-label={`${index + 1}行目を削除`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Input
+            value={line.memo}
+            onChange={(event) => onLineChange(line.id, { memo: event.target.value })}
+            placeholder="メモ（品名など）"
+            className="h-8 text-sm"
+            aria-label={`${index + 1}行目のメモ`}
+          />
+          <select
+            value={line.taxRate}
+            onChange={(event) => onLineChange(line.id, { taxRate: event.target.value })}
+            className={`${selectClassName} h-8`}
+            aria-label={`${index + 1}行目の消費税率`}
+          >
+            {CONSUMPTION_TAX_RATE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={onAddLine}>
+          <Plus className="h-4 w-4 mr-1" />
+          行を追加
+        </Button>
+        <p
+          className={`text-sm font-medium ${
+            splitDifference === 0 ? "text-green-600" : "text-red-600"
+          }`}
+        >
+          {splitDifference === 0
+            ? "レシートの合計と一致しています"
+            : `合計との差額: ${formatCurrency(splitDifference)}`}
+        </p>
+      </div>
+    </div>
+  );
+}
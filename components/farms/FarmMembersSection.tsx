@@ -0,0 +1,431 @@
+"use client";
+
+/**
+ * 農場メンバー管理セクション
+ *
+ * ビジネス上の役割:
+ * 設定画面で、現在の農場のメンバーと役割を表示する
+ * - オーナーは、メールアドレスでメンバーを招待できる（登録済みの相手には招待メールが届く。
+ *   まだ登録していない相手には、表示される招待リンクを伝える）
+ * - オーナーは、メンバーの役割の変更・農場から外す操作、送った招待の取り消しができる
+ * - オーナー以外は、メンバーの一覧と自分の役割を確認できる
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import {
+  canManageFarm,
+  cancelFarmInvitation,
+  FARM_ROLE_DESCRIPTIONS,
+  FARM_ROLE_LABELS,
+  FARM_ROLES,
+  getCurrentFarmAccess,
+  getFarmMembers,
+  listPendingFarmInvitations,
+  removeFarmMember,
+  updateFarmMemberRole,
+  type FarmInvitation,
+  type FarmMember,
+  type FarmRole,
+} from "@/lib/farms";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Mail, Trash2, UserPlus, Users } from "lucide-react";
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface FarmMembersSectionProps {
+  /** 現在ログイン中のユーザーID */
+  userId: string;
+}
+
+/** 役割の選択欄のスタイル（売上フォームの選択欄と同じ） */
+const SELECT_CLASS_NAME =
+  "h-9 px-2 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+/**
+ * 日付を表示用にフォーマット（例: 2025/01/15）
+ */
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("ja-JP");
+}
+
+export function FarmMembersSection({ userId }: FarmMembersSectionProps) {
+  // 現在の農場と自分の役割
+  const [farmId, setFarmId] = useState<string | null>(null);
+  const [myRole, setMyRole] = useState<FarmRole | null>(null);
+
+  // メンバーと招待中の一覧
+  const [members, setMembers] = useState<FarmMember[]>([]);
+  const [invitations, setInvitations] = useState<FarmInvitation[]>([]);
+
+  // 招待フォームの入力値
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<FarmRole>("bookkeeper");
+
+  // ローディング状態
+  const [isLoading, setIsLoading] = useState(true);
+  const [isInviting, setIsInviting] = useState(false);
+  // 操作中のメンバー・招待のID（ボタンを無効にする）
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  // メッセージ表示用
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // 招待メールを送れなかった場合に、相手に伝える招待リンク
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const isOwner = canManageFarm(myRole);
+
+  /**
+   * メンバーと招待中の一覧を取得
+   * （招待の一覧はオーナーのみ取得できる）
+   */
+  const fetchMembers = useCallback(async () => {
+    try {
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      const access = await getCurrentFarmAccess(supabase);
+      const farmMembers = await getFarmMembers(supabase);
+
+      setFarmId(access.farmId);
+      setMyRole(access.role);
+      setMembers(farmMembers);
+      setInvitations(
+        canManageFarm(access.role)
+          ? await listPendingFarmInvitations(supabase, access.farmId)
+          : []
+      );
+    } catch (error) {
+      console.error("メンバー取得エラー:", error);
+      setErrorMessage("メンバーの読み込みに失敗しました");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * コンポーネントマウント時にメンバーを取得
+   */
+  useEffect(() => {
+    if (userId) {
+      fetchMembers();
+    }
+  }, [userId, fetchMembers]);
+
+  /**
+   * メンバーを招待する
+   *
+   * ビジネス上の流れ:
+   * 1. 招待APIで招待を作成し、招待メールを送る（まだ登録していない相手には送らない）
+   * 2. メールを送れなかった場合は、相手に伝える招待リンクを表示する
+   * 3. 招待中の一覧に追加される（相手が受諾するとメンバーの一覧に移る）
+   */
+  const handleInvite = async () => {
+    const email = inviteEmail.trim();
+    if (!email) {
+      setErrorMessage("招待するメールアドレスを入力してください");
+      return;
+    }
+
+    try {
+      setIsInviting(true);
+      setSuccessMessage(null);
+      setErrorMessage(null);
+      setInviteUrl(null);
+
+      const response = await fetch("/api/farms/invitations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, role: inviteRole }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "招待に失敗しました");
+      }
+
+      setInviteEmail("");
+      setSuccessMessage(
+        data.emailSent
+          ? `${email} に招待メールを送りました`
+          : `${email} を招待しました（メールは送っていません。下の招待リンクを相手に伝えてください。登録済みの方は、ログイン後にヘッダーの農場切り替えからも参加できます）`
+      );
+      setInviteUrl(data.emailSent ? null : data.inviteUrl ?? null);
+      await fetchMembers();
+    } catch (error) {
+      console.error("招待エラー:", error);
+      setErrorMessage(error instanceof Error ? error.message : "招待に失敗しました");
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  /**
+   * メンバーの役割を変更する
+   */
+  const handleChangeRole = async (member: FarmMember, role: FarmRole) => {
+    if (!farmId || role === member.role) return;
+
+    try {
+      setProcessingId(member.userId);
+      setSuccessMessage(null);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      await updateFarmMemberRole(supabase, farmId, member.userId, role);
+
+      setSuccessMessage(`${member.email} の役割を「${FARM_ROLE_LABELS[role]}」に変更しました`);
+      await fetchMembers();
+    } catch (error) {
+      console.error("役割の変更エラー:", error);
+      setErrorMessage(error instanceof Error ? error.message : "役割の変更に失敗しました");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  /**
+   * メンバーを農場から外す
+   */
+  const handleRemoveMember = async (member: FarmMember) => {
+    if (!farmId) return;
+    if (!confirm(`${member.email} を農場から外しますか？`)) return;
+
+    try {
+      setProcessingId(member.userId);
+      setSuccessMessage(null);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      await removeFarmMember(supabase, farmId, member.userId);
+
+      setSuccessMessage(`${member.email} を農場から外しました`);
+      await fetchMembers();
+    } catch (error) {
+      console.error("メンバーの削除エラー:", error);
+      setErrorMessage(error instanceof Error ? error.message : "メンバーの削除に失敗しました");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  /**
+   * 送った招待を取り消す
+   */
+  const handleCancelInvitation = async (invitation: FarmInvitation) => {
+    if (!confirm(`${invitation.email} への招待を取り消しますか？`)) return;
+
+    try {
+      setProcessingId(invitation.id);
+      setSuccessMessage(null);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      await cancelFarmInvitation(supabase, invitation.id);
+
+      setSuccessMessage(`${invitation.email} への招待を取り消しました`);
+      await fetchMembers();
+    } catch (error) {
+      console.error("招待の取り消しエラー:", error);
+      setErrorMessage(error instanceof Error ? error.message : "招待の取り消しに失敗しました");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="border-b">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Users className="h-5 w-5 text-green-600" />
+          メンバー
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+            <span className="ml-2 text-gray-600">読み込み中...</span>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* 自分の役割 */}
+            {myRole && (
+              <p className="text-sm text-gray-600">
+                あなたの役割: <span className="font-medium">{FARM_ROLE_LABELS[myRole]}</span>
+                （{FARM_ROLE_DESCRIPTIONS[myRole]}）
+              </p>
+            )}
+
+            {/* メッセージ表示 */}
+            {successMessage && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-md text-green-700 text-sm">
+                {successMessage}
+              </div>
+            )}
+            {inviteUrl && (
+              <div className="space-y-1">
+                <Label htmlFor="invite-url">招待リンク（7日間有効）</Label>
+                <Input
+                  id="invite-url"
+                  value={inviteUrl}
+                  readOnly
+                  onFocus={(event) => event.target.select()}
+                />
+              </div>
+            )}
+            {errorMessage && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+                {errorMessage}
+              </div>
+            )}
+
+            {/* メンバー一覧 */}
+            <ul className="divide-y border rounded-md">
+              {members.map((member) => {
+                const isMe = member.userId === userId;
+                const isProcessing = processingId === member.userId;
+
+                return (
+                  <li
+                    key={member.userId}
+                    className="flex flex-wrap items-center justify-between gap-2 px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {member.email}
+                        {isMe && <span className="ml-1 text-xs text-gray-500">（あなた）</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(member.joinedAt)} から参加
+                      </p>
+                    </div>
+
+                    {isOwner && !isMe ? (
+                      <div className="flex items-center gap-2">
+                        <select
+                          aria-label={`${member.email} の役割`}
+                          value={member.role}
+                          onChange={(event) =>
+                            handleChangeRole(member, event.target.value as FarmRole)
+                          }
+                          disabled={isProcessing}
+                          className={SELECT_CLASS_NAME}
+                        >
+                          {FARM_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {FARM_ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveMember(member)}
+                          disabled={isProcessing}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          aria-label={`${member.email} を農場から外す`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-gray-600">
+                        {FARM_ROLE_LABELS[member.role]}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            {/* 招待（オーナーのみ） */}
+            {isOwner && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium text-gray-900">メンバーを招待</h3>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <div className="flex-1 space-y-1">
+                    <Label htmlFor="invite-email" className="sr-only">
+                      メールアドレス
+                    </Label>
+                    <Input
+                      id="invite-email"
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(event) => setInviteEmail(event.target.value)}
+                      placeholder="例: keiri@example.com"
+                      disabled={isInviting}
+                    />
+                  </div>
+                  <select
+                    aria-label="招待するメンバーの役割"
+                    value={inviteRole}
+                    onChange={(event) => setInviteRole(event.target.value as FarmRole)}
+                    disabled={isInviting}
+                    className={`${SELECT_CLASS_NAME} h-10`}
+                  >
+                    {FARM_ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {FARM_ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    onClick={handleInvite}
+                    disabled={isInviting}
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    {isInviting ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <UserPlus className="h-4 w-4 mr-2" />
+                    )}
+                    招待する
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">{FARM_ROLE_DESCRIPTIONS[inviteRole]}</p>
+
+                {/* 招待中の一覧 */}
+                {invitations.length > 0 && (
+                  <ul className="divide-y border rounded-md">
+                    {invitations.map((invitation) => (
+                      <li
+                        key={invitation.id}
+                        className="flex items-center justify-between gap-2 px-3 py-2"
+                      >
+                        <div className="min-w-0">
+                          <p className="flex items-center gap-1 text-sm text-gray-900 truncate">
+                            <Mail className="h-3.5 w-3.5 text-gray-400 flex-shrink-0" />
+                            {invitation.email}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {FARM_ROLE_LABELS[invitation.role]}として招待中（
+                            {formatDate(invitation.expiresAt)} まで有効）
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCancelInvitation(invitation)}
+                          disabled={processingId === invitation.id}
+                          className="text-gray-600"
+                        >
+                          取り消す
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
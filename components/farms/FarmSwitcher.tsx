@@ -0,0 +1,232 @@
+"use client";
+
+/**
+ * 農場の切り替えメニュー
+ *
+ * ビジネス上の役割:
+ * ヘッダーに現在の農場名を表示し、所属している農場を切り替えられるようにする
+ * - 切り替えると、すべての画面が切り替えた農場のデータになる
+ * - 新しい農場を作成できる（作成した農場のオーナーになる）
+ * - 自分宛ての招待がある場合は、件数を表示し、受諾ページへ移動できる
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import {
+  createFarm,
+  FARM_ROLE_LABELS,
+  getCurrentFarmId,
+  getInvitationAcceptPath,
+  listMyFarms,
+  listReceivedFarmInvitations,
+  switchFarm,
+  type Farm,
+  type ReceivedFarmInvitation,
+} from "@/lib/farms";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, ChevronDown, Home, Loader2, Mail, Plus } from "lucide-react";
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface FarmSwitcherProps {
+  /** 現在ログイン中のユーザーID */
+  userId: string;
+}
+
+export function FarmSwitcher({ userId }: FarmSwitcherProps) {
+  // 所属している農場と現在の農場
+  const [farms, setFarms] = useState<Farm[]>([]);
+  const [currentFarmId, setCurrentFarmId] = useState<string | null>(null);
+
+  // 自分宛ての招待
+  const [invitations, setInvitations] = useState<ReceivedFarmInvitation[]>([]);
+
+  // メニューの開閉と農場の作成フォーム
+  const [isOpen, setIsOpen] = useState(false);
+  const [newFarmName, setNewFarmName] = useState("");
+
+  // 切り替え・作成の処理中
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  /**
+   * コンポーネントマウント時に所属している農場と招待を取得
+   */
+  useEffect(() => {
+    const fetchFarms = async () => {
+      try {
+        const supabase = createSupabaseClient();
+        const [myFarms, farmId, received] = await Promise.all([
+          listMyFarms(supabase, userId),
+          getCurrentFarmId(supabase),
+          listReceivedFarmInvitations(supabase),
+        ]);
+
+        setFarms(myFarms);
+        setCurrentFarmId(farmId);
+        setInvitations(received);
+      } catch (error) {
+        // 切り替えメニューが表示できなくても、現在の農場の画面は使えるためログのみ
+        console.error("農場一覧の取得エラー:", error);
+      }
+    };
+
+    if (userId) {
+      fetchFarms();
+    }
+  }, [userId]);
+
+  const currentFarm = farms.find((farm) => farm.id === currentFarmId);
+
+  /**
+   * 農場を切り替える
+   * 画面のデータをすべて読み込み直すため、ページを再読み込みする
+   */
+  const handleSwitch = async (farmId: string) => {
+    if (farmId === currentFarmId) {
+      setIsOpen(false);
+      return;
+    }
+
+    try {
+      setIsProcessing(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      await switchFarm(supabase, farmId);
+
+      window.location.reload();
+    } catch (error) {
+      console.error("農場の切り替えエラー:", error);
+      setErrorMessage(error instanceof Error ? error.message : "農場の切り替えに失敗しました");
+      setIsProcessing(false);
+    }
+  };
+
+  /**
+   * 新しい農場を作成し、作成した農場に切り替える
+   */
+  const handleCreate = async () => {
+    const name = newFarmName.trim();
+    if (!name) {
+      setErrorMessage("農場名を入力してください");
+      return;
+    }
+
+    try {
+      setIsProcessing(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      const farmId = await createFarm(supabase, name);
+      await switchFarm(supabase, farmId);
+
+      window.location.reload();
+    } catch (error) {
+      console.error("農場の作成エラー:", error);
+      setErrorMessage(error instanceof Error ? error.message : "農場の作成に失敗しました");
+      setIsProcessing(false);
+    }
+  };
+
+  // 農場の一覧を取得するまでは表示しない
+  if (!currentFarm) {
+    return null;
+  }
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        className="text-white hover:bg-white/10 border border-white/30"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+      >
+        <Home className="h-4 w-4 mr-2" />
+        <span className="max-w-[10rem] truncate">{currentFarm.name}</span>
+        {invitations.length > 0 && (
+          <span className="ml-2 rounded-full bg-amber-400 px-1.5 text-xs font-bold text-gray-900">
+            {invitations.length}
+          </span>
+        )}
+        <ChevronDown className="h-4 w-4 ml-1" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-72 rounded-lg border bg-white text-gray-900 shadow-lg">
+          {/* 所属している農場 */}
+          <ul className="py-1">
+            {farms.map((farm) => (
+              <li key={farm.id}>
+                <button
+                  type="button"
+                  onClick={() => handleSwitch(farm.id)}
+                  disabled={isProcessing}
+                  className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Check
+                    className={`h-4 w-4 flex-shrink-0 text-green-600 ${
+                      farm.id === currentFarmId ? "" : "invisible"
+                    }`}
+                  />
+                  <span className="flex-1 truncate">{farm.name}</span>
+                  <span className="text-xs text-gray-500">{FARM_ROLE_LABELS[farm.role]}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* 自分宛ての招待 */}
+          {invitations.length > 0 && (
+            <div className="border-t py-1">
+              <p className="px-3 py-1 text-xs font-medium text-gray-500">届いている招待</p>
+              {invitations.map((invitation) => (
+                <Link
+                  key={invitation.id}
+                  href={getInvitationAcceptPath(invitation.token)}
+                  className="flex items-center gap-2 px-3 py-2 text-sm hover:bg-gray-50"
+                >
+                  <Mail className="h-4 w-4 flex-shrink-0 text-amber-500" />
+                  <span className="flex-1 truncate">{invitation.farmName}</span>
+                  <span className="text-xs text-gray-500">
+                    {FARM_ROLE_LABELS[invitation.role]}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          )}
+
+          {/* 新しい農場の作成 */}
+          <div className="border-t p-3 space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={newFarmName}
+                onChange={(event) => setNewFarmName(event.target.value)}
+                placeholder="新しい農場名"
+                aria-label="新しい農場名"
+                disabled={isProcessing}
+                className="h-9"
+              />
+              <Button
+                size="sm"
+                onClick={handleCreate}
+                disabled={isProcessing}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                {isProcessing ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+            {errorMessage && <p className="text-xs text-red-600">{errorMessage}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * 農場（ワークスペース）関連コンポーネントのエクスポート
+ */
+
+export { FarmSwitcher } from "./FarmSwitcher";
+export { FarmMembersSection } from "./FarmMembersSection";
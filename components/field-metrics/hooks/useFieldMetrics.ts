@@ -0,0 +1,73 @@
+"use client";
+
+/**
+ * 圃場別（10アール当たり）集計のロジックを管理するカスタムフック
+ *
+ * 責務:
+ * - 指定期間に売上・経費を紐付けた作付けごとの、収量・売上・経費の取得
+ *
+ * ビジネス上の流れ:
+ * 1. 分析画面の期間を変えると、その期間の作付けごとの集計を再取得
+ * 2. 圃場の面積から10アール当たりの値に換算して表示する（換算は lib/fieldMetrics.ts）
+ */
+
+import { useState, useEffect } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { fetchPlantingMetrics, type PlantingMetricsRow } from "@/lib/fieldMetrics";
+
+/**
+ * useFieldMetrics カスタムフックの戻り値
+ */
+export interface UseFieldMetricsReturn {
+  rows: PlantingMetricsRow[];     // 作付けごとの集計
+  isLoading: boolean;             // 読み込み中フラグ
+  errorMessage: string | null;    // エラーメッセージ
+}
+
+/**
+ * 圃場別（10アール当たり）集計のカスタムフック
+ *
+ * @param startDate - 期間の開始日（YYYY-MM-DD）
+ * @param endDate - 期間の終了日（YYYY-MM-DD）
+ */
+export function useFieldMetrics(startDate: string, endDate: string): UseFieldMetricsReturn {
+  const [rows, setRows] = useState<PlantingMetricsRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 期間が変わるたびに再取得
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchFieldMetrics = async () => {
+      try {
+        setIsLoading(true);
+        setErrorMessage(null);
+
+        // RLSにより自分のデータのみ集計される
+        const metrics = await fetchPlantingMetrics(createSupabaseClient(), startDate, endDate);
+
+        if (!isMounted) return;
+        setRows(metrics);
+      } catch (error: unknown) {
+        if (!isMounted) return;
+        console.error("圃場別集計の取得エラー:", error);
+        setErrorMessage(
+          error instanceof Error ? error.message : "圃場別集計の取得に失敗しました"
+        );
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchFieldMetrics();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [startDate, endDate]);
+
+  return { rows, isLoading, errorMessage };
+}
@@ -0,0 +1,7 @@
+/**
+ * 圃場別（10アール当たり）集計コンポーネントのエクスポート
+ */
+export { useFieldMetrics } from "./hooks/useFieldMetrics";
+export type { UseFieldMetricsReturn } from "./hooks/useFieldMetrics";
+export { FieldMetricsSection } from "./views/FieldMetricsSection";
+export { FieldMetricsTable } from "./views/FieldMetricsTable";
@@ -0,0 +1,70 @@
+"use client";
+
+/**
+ * 圃場別（10アール当たり）集計セクション（分析画面）
+ *
+ * ビジネス上の役割:
+ * 分析画面で選んだ期間について、作付けごとの10アール当たりの収量・売上・経費を表示する
+ *
+ * 表示ルール:
+ * - 売上・経費の登録時に作付けを選んだものだけが集計対象
+ * - 作付けの登録がない・紐付けた売上経費がない場合は、設定画面での登録を案内する
+ */
+
+import { Card, CardContent } from "@/components/ui/card";
+import { useFieldMetrics } from "../hooks/useFieldMetrics";
+import { FieldMetricsTable } from "./FieldMetricsTable";
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface FieldMetricsSectionProps {
+  /** 期間の開始日（YYYY-MM-DD） */
+  startDate: string;
+  /** 期間の終了日（YYYY-MM-DD） */
+  endDate: string;
+}
+
+export function FieldMetricsSection({ startDate, endDate }: FieldMetricsSectionProps) {
+  const { rows, isLoading, errorMessage } = useFieldMetrics(startDate, endDate);
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">圃場別（10アール当たり）</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          作付けごとの収量・売上・経費を10a（1反）当たりに換算（期間は月次推移と同じ）
+        </p>
+      </div>
+
+      {errorMessage && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          {errorMessage}
+        </div>
+      )}
+
+      {isLoading ? (
+        <Card className="animate-pulse">
+          <CardContent className="p-6">
+            <div className="h-40 bg-gray-200 rounded"></div>
+          </CardContent>
+        </Card>
+      ) : rows.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-gray-500">
+            <p>この期間に作付けを紐付けた売上・経費がありません</p>
+            <p className="text-sm mt-1">
+              設定画面の「圃場管理」で圃場と作付けを登録し、売上・経費の登録時に作付けを選んでください
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-4">
+            <FieldMetricsTable rows={rows} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * 圃場別（10アール当たり）集計テーブル
+ *
+ * ビジネス上の役割:
+ * 作付けごとの収量・売上・経費を10アール（1反）当たりに換算して並べ、
+ * 広さの違う圃場同士でも、どこの成績が良いかを比較できるようにする
+ *
+ * 表示ルール:
+ * - 圃場の面積が未登録（0a）の作付けは、10アール当たりの値を「-」で表示
+ * - 10アール当たりの利益（売上 − 経費）がマイナスの場合は赤字で表示
+ */
+
+import type { PlantingMetricsRow } from "@/lib/fieldMetrics";
+
+/**
+ * 通貨フォーマット関数（面積未登録で換算できない場合は「-」）
+ */
+const formatCurrency = (amount: number | null): string =>
+  amount === null
+    ? "-"
+    : new Intl.NumberFormat("ja-JP", {
+        style: "currency",
+        currency: "JPY",
+      }).format(amount);
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface FieldMetricsTableProps {
+  rows: PlantingMetricsRow[];
+}
+
+export function FieldMetricsTable({ rows }: FieldMetricsTableProps) {
+  const headerCellClassName = "px-3 py-2 text-right font-medium text-gray-600 whitespace-nowrap";
+  const cellClassName = "px-3 py-2 text-right whitespace-nowrap";
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full min-w-[720px] text-sm">
+        <thead className="border-b bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-gray-600">圃場 / 作物</th>
+            <th className={headerCellClassName}>面積（a）</th>
+            <th className={headerCellClassName}>収量/10a</th>
+            <th className={headerCellClassName}>売上/10a</th>
+            <th className={headerCellClassName}>経費/10a</th>
+            <th className={headerCellClassName}>利益/10a</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const marginPer10a =
+              row.revenuePer10a !== null && row.costsPer10a !== null
+                ? row.revenuePer10a - row.costsPer10a
+                : null;
+
+            return (
+              <tr key={row.plantingId} className="border-b last:border-b-0">
+                <td className="px-3 py-2">
+                  <div className="font-medium">
+                    {row.fieldName} / {row.cropName}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {row.seasonStart}〜{row.seasonEnd ?? "栽培中"}
+                  </div>
+                </td>
+                <td className={cellClassName}>
+                  {row.areaAre > 0 ? row.areaAre.toLocaleString("ja-JP") : "未登録"}
+                </td>
+                <td className={cellClassName}>
+                  {row.yieldPer10a !== null ? row.yieldPer10a.toLocaleString("ja-JP") : "-"}
+                </td>
+                <td className={cellClassName}>{formatCurrency(row.revenuePer10a)}</td>
+                <td className={cellClassName}>{formatCurrency(row.costsPer10a)}</td>
+                <td
+                  className={`${cellClassName} font-semibold ${
+                    marginPer10a === null
+                      ? "text-gray-500"
+                      : marginPer10a >= 0
+                        ? "text-green-700"
+                        : "text-red-600"
+                  }`}
+                >
+                  {formatCurrency(marginPer10a)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+/**
+ * 経費台帳の絞り込みに使う勘定科目の選択肢を取得するカスタムフック
+ *
+ * 削除（無効化）済みの科目で登録された過去の経費も絞り込めるよう、
+ * is_active に関係なく全ての科目を取得する
+ */
+
+import { useState, useEffect } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import type { CategoryOption } from "../types";
+
+export function useCategoryOptions(): CategoryOption[] {
+  const [categoryOptions, setCategoryOptions] = useState<CategoryOption[]>([]);
+
+  useEffect(() => {
+    const fetchCategoryOptions = async () => {
+      const supabase = createSupabaseClient();
+
+      // RLSにより、自分の勘定科目のみ取得される
+      const { data, error } = await supabase
+        .from("expense_categories")
+        .select("id, name")
+        .order("display_order", { ascending: true });
+
+      if (error) {
+        console.error("勘定科目の取得に失敗:", error);
+        return;
+      }
+      setCategoryOptions(data || []);
+    };
+
+    fetchCategoryOptions();
+  }, []);
+
+  return categoryOptions;
+}
@@ -0,0 +1,257 @@
+"use client";
+
+/**
+ * 台帳（経費一覧・売上一覧）のロジックを管理するカスタムフック
+ *
+ * 責務:
+ * - 絞り込み・並び替え・ページ送りの状態管理
+ * - Supabase からの一覧取得（件数付き）
+ * - 行内編集の対象管理と、保存後の再読み込み
+ * - レコードの削除
+ *
+ * ビジネス上の流れ:
+ * 1. 期間・勘定科目・作物・出荷先で絞り込み
+ * 2. 列見出しをクリックして並び替え
+ * 3. 入力ミスがあれば行内で修正、または削除
+ * 4. RLS（行レベルセキュリティ）により、自分のデータのみ取得・更新・削除可能
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import {
+  LEDGER_PAGE_SIZE,
+  type LedgerFilters,
+  type LedgerSortState,
+  type UseLedgerOptions,
+  type UseLedgerReturn,
+} from "../types";
+
+/**
+ * 絞り込み条件の初期値（条件なし）
+ */
+const EMPTY_FILTERS: LedgerFilters = {
+  startDate: "",
+  endDate: "",
+  categoryId: "",
+  cropName: "",
+  customer: "",
+};
+
+/**
+ * 並び替えの初期値（日付の新しい順）
+ */
+const DEFAULT_SORT_STATE: LedgerSortState = {
+  column: "date",
+  ascending: false,
+};
+
+/**
+ * 台帳のカスタムフック
+ *
+ * 使用例:
+ * ```
+ * const ledger = useLedger({
+ *   tableName: "expenses",
+ *   selectColumns: "id, date, category, category_id, amount, description, created_at",
+ *   mapRecord: toExpenseLedgerRow,
+ *   deleteConfirmMessage: "この経費を削除しますか？",
+ * });
+ * ```
+ */
+export function useLedger<TRow extends { id: string }>({
+  tableName,
+  selectColumns,
+  mapRecord,
+  deleteConfirmMessage,
+  onDeleted,
+}: UseLedgerOptions<TRow>): UseLedgerReturn<TRow> {
+  // === 状態定義 ===
+  const [rows, setRows] = useState<TRow[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<LedgerFilters>(EMPTY_FILTERS);
+  const [sortState, setSortState] = useState<LedgerSortState>(DEFAULT_SORT_STATE);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  /**
+   * 現在の条件で一覧を取得する
+   *
+   * count: "exact" で絞り込み後の総件数も同時に取得し、ページ数の計算に使う
+   */
+  const fetchRows = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      const rangeStart = page * LEDGER_PAGE_SIZE;
+      const rangeEnd = rangeStart + LEDGER_PAGE_SIZE - 1;
+
+      let query = supabase
+        .from(tableName)
+        .select(selectColumns, { count: "exact" });
+
+      // 絞り込み条件（空文字の項目は条件に含めない）
+      if (filters.startDate) {
+        query = query.gte("date", filters.startDate);
+      }
+      if (filters.endDate) {
+        query = query.lte("date", filters.endDate);
+      }
+      if (tableName === "expenses" && filters.categoryId) {
+        query = query.eq("category_id", filters.categoryId);
+      }
+      if (tableName === "sales" && filters.cropName) {
+        query = query.ilike("crop_name", `%${filters.cropName}%`);
+      }
+      if (tableName === "sales" && filters.customer) {
+        query = query.ilike("customer", `%${filters.customer}%`);
+      }
+
+      // 同じ値の行が並ぶ場合も順序が安定するよう、登録日時で2次ソートする
+      const { data, count, error } = await query
+        .order(sortState.column, { ascending: sortState.ascending })
+        .order("created_at", { ascending: false })
+        .range(rangeStart, rangeEnd);
+
+      if (error) throw error;
+
+      const records = (data || []) as unknown as Record<string, unknown>[];
+      setRows(records.map(mapRecord));
+      setTotalCount(count || 0);
+    } catch (error) {
+      console.error("台帳の取得エラー:", error);
+      setErrorMessage("データの取得に失敗しました。再度お試しください。");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tableName, selectColumns, mapRecord, filters, sortState, page]);
+
+  // 条件が変わるたびに再取得
+  useEffect(() => {
+    fetchRows();
+  }, [fetchRows]);
+
+  // === 絞り込み・並び替え ===
+
+  /**
+   * 絞り込み条件を1項目だけ更新する
+   * 条件が変わると件数も変わるため、1ページ目に戻す
+   */
+  const updateFilter = (key: keyof LedgerFilters, value: string): void => {
+    setFilters((previousFilters) => ({ ...previousFilters, [key]: value }));
+    setPage(0);
+  };
+
+  /**
+   * 絞り込み条件をすべて解除する
+   */
+  const resetFilters = (): void => {
+    setFilters(EMPTY_FILTERS);
+    setPage(0);
+  };
+
+  /**
+   * 列見出しクリック時の並び替え
+   * - 同じ列: 昇順/降順を切り替え
+   * - 別の列: その列の降順から開始
+   */
+  const toggleSort = (column: string): void => {
+    setSortState((previousSort) =>
+      previousSort.column === column
+        ? { column, ascending: !previousSort.ascending }
+        : { column, ascending: false }
+    );
+    setPage(0);
+  };
+
+  // === 行内編集 ===
+
+  const startEdit = (id: string): void => {
+    setEditingId(id);
+  };
+
+  const cancelEdit = (): void => {
+    setEditingId(null);
+  };
+
+  /**
+   * 行内編集の保存完了時の処理
+   * 編集を閉じて、最新の内容を再取得する
+   */
+  const handleSaved = (): void => {
+    setEditingId(null);
+    fetchRows();
+  };
+
+  // === 削除 ===
+
+  /**
+   * レコードを削除する（物理削除）
+   */
+  const deleteRecord = async (id: string): Promise<void> => {
+    // 確認ダイアログ
+    if (!confirm(deleteConfirmMessage)) {
+      return;
+    }
+
+    try {
+      setDeletingId(id);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      // RLSにより、自分のレコードのみ削除が許可される
+      const { error } = await supabase.from(tableName).delete().eq("id", id);
+
+      if (error) throw error;
+
+      // 削除後の後片付け（失敗してもレコードの削除自体は完了しているため、ログのみ）
+      const deletedRow = rows.find((row) => row.id === id);
+      if (onDeleted && deletedRow) {
+        try {
+          await onDeleted(deletedRow);
+        } catch (cleanupError) {
+          console.error("削除後の後片付けに失敗:", cleanupError);
+        }
+      }
+
+      // 最終ページの最後の1件を削除した場合は前のページに戻る
+      if (rows.length === 1 && page > 0) {
+        setPage(page - 1);
+      } else {
+        await fetchRows();
+      }
+    } catch (error) {
+      console.error("削除エラー:", error);
+      setErrorMessage("削除に失敗しました。再度お試しください。");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return {
+    rows,
+    totalCount,
+    page,
+    pageCount: Math.max(1, Math.ceil(totalCount / LEDGER_PAGE_SIZE)),
+    filters,
+    sortState,
+    isLoading,
+    errorMessage,
+    editingId,
+    deletingId,
+    setPage,
+    updateFilter,
+    resetFilters,
+    toggleSort,
+    startEdit,
+    cancelEdit,
+    handleSaved,
+    deleteRecord,
+  };
+}
@@ -0,0 +1,50 @@
+"use client";
+
+/**
+ * 経費台帳に表示するレシート画像の署名付きURLを取得するカスタムフック
+ *
+ * レシート画像は非公開バケットに保存しているため、
+ * 表示中のページの画像だけをまとめて署名付きURLに変換する
+ */
+
+import { useState, useEffect } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { createReceiptSignedUrls } from "@/lib/receiptStorage";
+
+/**
+ * @param receiptPaths - 表示中の経費のレシート画像パス（画像のない経費は null）
+ * @returns パス → 署名付きURL
+ */
+export function useReceiptUrls(receiptPaths: (string | null)[]): Record<string, string> {
+  const [receiptUrls, setReceiptUrls] = useState<Record<string, string>>({});
+
+  // 配列の参照ではなく中身が変わったときだけ再取得する
+  const pathsKey = receiptPaths.filter((path): path is string => path !== null).join("\n");
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchReceiptUrls = async () => {
+      const paths = pathsKey ? pathsKey.split("\n") : [];
+
+      try {
+        const supabase = createSupabaseClient();
+        const signedUrls = await createReceiptSignedUrls(supabase, paths);
+        if (isMounted) {
+          setReceiptUrls(signedUrls);
+        }
+      } catch (error) {
+        // 画像が表示できなくても台帳は使えるため、ログのみ
+        console.error("レシート画像URLの取得に失敗:", error);
+      }
+    };
+
+    fetchReceiptUrls();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [pathsKey]);
+
+  return receiptUrls;
+}
@@ -0,0 +1,34 @@
+/**
+ * 台帳（経費一覧・売上一覧）コンポーネントのエクスポート
+ *
+ * 使用例:
+ * ```
+ * import { useLedger, ExpenseLedgerTable, LedgerFilterBar } from "@/components/ledger";
+ * ```
+ */
+
+// 型定義
+export type {
+  LedgerTableName,
+  LedgerFilters,
+  LedgerSortState,
+  ExpenseLedgerRow,
+  SaleLedgerRow,
+  CategoryOption,
+  UseLedgerOptions,
+  UseLedgerReturn,
+} from "./types";
+export { LEDGER_PAGE_SIZE } from "./types";
+
+// カスタムフック
+export { useLedger } from "./hooks/useLedger";
+export { useCategoryOptions } from "./hooks/useCategoryOptions";
+export { useReceiptUrls } from "./hooks/useReceiptUrls";
+
+// ビューコンポーネント
+export { LedgerFilterBar } from "./views/LedgerFilterBar";
+export { LedgerPagination } from "./views/LedgerPagination";
+export { SortableHeader } from "./views/SortableHeader";
+export { LedgerRowActions, LedgerEditActions } from "./views/LedgerRowActions";
+export { ExpenseLedgerTable } from "./views/ExpenseLedgerTable";
+export { SaleLedgerTable } from "./views/SaleLedgerTable";
@@ -0,0 +1,123 @@
+/**
+ * 台帳（経費一覧・売上一覧）で使用する型定義
+ *
+ * ビジネス上の役割:
+ * 登録済みの経費・売上を一覧表示し、入力ミスを後から修正・削除できるようにする
+ */
+
+import type { EditableExpense } from "@/components/expenses";
+import type { EditableSale } from "@/components/sales";
+import type { RecurringEntryStatus } from "@/lib/recurring";
+
+/**
+ * 台帳の種類
+ * Supabase のテーブル名と一致させている
+ */
+export type LedgerTableName = "expenses" | "sales";
+
+/**
+ * 1ページあたりの表示件数
+ */
+export const LEDGER_PAGE_SIZE = 20;
+
+/**
+ * 台帳の絞り込み条件
+ * 空文字の項目は「条件なし」として扱う
+ */
+export interface LedgerFilters {
+  /** 期間の開始日（YYYY-MM-DD） */
+  startDate: string;
+  /** 期間の終了日（YYYY-MM-DD） */
+  endDate: string;
+  /** 勘定科目ID（経費台帳のみ） */
+  categoryId: string;
+  /** 作物名の部分一致（売上台帳のみ） */
+  cropName: string;
+  /** 出荷先の部分一致（売上台帳のみ） */
+  customer: string;
+}
+
+/**
+ * 並び替えの状態
+ */
+export interface LedgerSortState {
+  /** 並び替え対象のカラム名（DBのカラム名） */
+  column: string;
+  /** true: 昇順 / false: 降順 */
+  ascending: boolean;
+}
+
+/**
+ * 経費台帳の1行
+ * 行内編集でそのまま useExpenseForm に渡せるよう EditableExpense を拡張する
+ */
+export interface ExpenseLedgerRow extends EditableExpense {
+  createdAt: string;
+  /** 証憑のレシート画像の保存先（画像のない経費は null） */
+  receiptPath: string | null;
+  /** 定期的な取引から作成した経費の確認状況（手入力の経費は null） */
+  recurringStatus: RecurringEntryStatus | null;
+  /** 固定資産台帳から作成した減価償却費か */
+  isDepreciation: boolean;
+}
+
+/**
+ * 売上台帳の1行
+ * 行内編集でそのまま useSaleForm に渡せるよう EditableSale を拡張する
+ */
+export interface SaleLedgerRow extends EditableSale {
+  createdAt: string;
+  /** 定期的な取引から作成した売上の確認状況（手入力の売上は null） */
+  recurringStatus: RecurringEntryStatus | null;
+}
+
+/**
+ * 絞り込み用の勘定科目の選択肢
+ */
+export interface CategoryOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * useLedger カスタムフックのオプション
+ */
+export interface UseLedgerOptions<TRow> {
+  /** 取得対象のテーブル */
+  tableName: LedgerTableName;
+  /** 取得するカラム（select句） */
+  selectColumns: string;
+  /** DBのレコードを画面表示用の行に変換する */
+  mapRecord: (record: Record<string, unknown>) => TRow;
+  /** 削除前の確認メッセージ */
+  deleteConfirmMessage: string;
+  /** 削除後の後片付け（例: 経費に紐付くレシート画像の削除） */
+  onDeleted?: (row: TRow) => Promise<void>;
+}
+
+/**
+ * useLedger カスタムフックの戻り値
+ */
+export interface UseLedgerReturn<TRow> {
+  // === 状態 ===
+  rows: TRow[];                 // 現在のページの行
+  totalCount: number;           // 絞り込み後の総件数
+  page: number;                 // 現在のページ（0始まり）
+  pageCount: number;            // 総ページ数
+  filters: LedgerFilters;       // 絞り込み条件
+  sortState: LedgerSortState;   // 並び替えの状態
+  isLoading: boolean;           // 読み込み中フラグ
+  errorMessage: string | null;  // エラーメッセージ
+  editingId: string | null;     // 行内編集中のレコードID
+  deletingId: string | null;    // 削除処理中のレコードID
+
+  // === 操作 ===
+  setPage: (page: number) => void;
+  updateFilter: (key: keyof LedgerFilters, value: string) => void;
+  resetFilters: () => void;
+  toggleSort: (column: string) => void;
+  startEdit: (id: string) => void;
+  cancelEdit: () => void;
+  handleSaved: () => void;
+  deleteRecord: (id: string) => Promise<void>;
+}
@@ -0,0 +1,251 @@
+"use client";
+
+/**
+ * 経費台帳テーブル
+ *
+ * ビジネス上の役割:
+ * 登録済みの経費を一覧表示し、行内で修正・削除できるようにする
+ * - 通常モード: 日付・勘定科目・金額・摘要・レシート画像と、編集・削除ボタン
+ *   （レシート画像のサムネイルをクリックすると元の画像を別タブで開く）
+ * - 編集モード: 経費登録フォームと同じ入力欄（useExpenseForm を再利用）
+ */
+
+import Image from "next/image";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useExpenseForm,
+  CategorySelector,
+  FormMessages,
+  DateField,
+  AmountField,
+  TaxRateField,
+  InvoiceNumberField,
+  CropField,
+  PlantingField,
+  DescriptionField,
+} from "@/components/expenses";
+import { FileImage } from "lucide-react";
+import { useReceiptUrls } from "../hooks/useReceiptUrls";
+import { SortableHeader } from "./SortableHeader";
+import { RecurringBadge } from "./RecurringBadge";
+import { LedgerRowActions, LedgerEditActions } from "./LedgerRowActions";
+import type { ExpenseLedgerRow, LedgerSortState } from "../types";
+
+/** テーブルの列数（編集行の colSpan に使用） */
+const EXPENSE_COLUMN_COUNT = 6;
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+    minimumFractionDigits: 0,
+  }).format(amount);
+
+interface ExpenseLedgerTableProps {
+  /** 現在のページの経費 */
+  rows: ExpenseLedgerRow[];
+  /** 並び替えの状態 */
+  sortState: LedgerSortState;
+  /** 列見出しクリック時のコールバック */
+  onSort: (column: string) => void;
+  /** 行内編集中の経費ID */
+  editingId: string | null;
+  /** 削除処理中の経費ID */
+  deletingId: string | null;
+  /** 編集開始 */
+  onStartEdit: (id: string) => void;
+  /** 編集キャンセル */
+  onCancelEdit: () => void;
+  /** 編集の保存完了 */
+  onSaved: () => void;
+  /** 削除 */
+  onDelete: (id: string) => void;
+}
+
+export function ExpenseLedgerTable({
+  rows,
+  sortState,
+  onSort,
+  editingId,
+  deletingId,
+  onStartEdit,
+  onCancelEdit,
+  onSaved,
+  onDelete,
+}: ExpenseLedgerTableProps) {
+  const receiptUrls = useReceiptUrls(rows.map((expense) => expense.receiptPath));
+
+  return (
+    // overflow-x-auto: スマホで横幅が足りない場合に横スクロール可能にする
+    <div className="border rounded-lg overflow-hidden overflow-x-auto">
+      <Table className="min-w-[620px]">
+        <TableHeader>
+          <TableRow className="bg-gray-50">
+            <SortableHeader label="日付" column="date" sortState={sortState} onSort={onSort} className="w-28" />
+            <SortableHeader label="勘定科目" column="category" sortState={sortState} onSort={onSort} />
+            <SortableHeader label="金額" column="amount" sortState={sortState} onSort={onSort} className="text-right" />
+            <TableHead className="font-semibold">摘要</TableHead>
+            <TableHead className="font-semibold w-16">証憑</TableHead>
+            <TableHead className="font-semibold w-24 text-right">操作</TableHead>
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {rows.map((expense) =>
+            editingId === expense.id ? (
+              <ExpenseEditRow
+                key={expense.id}
+                expense={expense}
+                onCancel={onCancelEdit}
+                onSaved={onSaved}
+              />
+            ) : (
+              <TableRow key={expense.id}>
+                <TableCell className="whitespace-nowrap">
+                  {expense.date}
+                  <RecurringBadge status={expense.recurringStatus} />
+                  {expense.isDepreciation && (
+                    <span className="ml-2 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">
+                      減価償却
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="font-medium">{expense.categoryName}</TableCell>
+                <TableCell className="text-right whitespace-nowrap text-red-600">
+                  {formatCurrency(expense.amount)}
+                </TableCell>
+                <TableCell className="text-gray-600 max-w-[200px] truncate">
+                  {expense.description || "-"}
+                </TableCell>
+                <TableCell>
+                  <ReceiptThumbnail
+                    receiptUrl={expense.receiptPath ? receiptUrls[expense.receiptPath] : undefined}
+                    hasReceipt={Boolean(expense.receiptPath)}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <LedgerRowActions
+                    onEdit={() => onStartEdit(expense.id)}
+                    onDelete={() => onDelete(expense.id)}
+                    isDeleting={deletingId === expense.id}
+                  />
+                </TableCell>
+              </TableRow>
+            )
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// ============================================================
+// 以下、内部で使用するサブコンポーネント
+// ============================================================
+
+interface ReceiptThumbnailProps {
+  /** 署名付きURL（取得中・取得失敗時は undefined） */
+  receiptUrl: string | undefined;
+  /** レシート画像が保存されている経費か */
+  hasReceipt: boolean;
+}
+
+/**
+ * レシート画像のサムネイル
+ * クリックで元の画像を別タブで開く
+ */
+function ReceiptThumbnail({ receiptUrl, hasReceipt }: ReceiptThumbnailProps) {
+  if (!hasReceipt) {
+    return <span className="text-gray-400">-</span>;
+  }
+
+  if (!receiptUrl) {
+    return <FileImage className="h-5 w-5 text-gray-300" />;
+  }
+
+  return (
+    <a href={receiptUrl} target="_blank" rel="noopener noreferrer" title="レシート画像を開く">
+      <Image
+        src={receiptUrl}
+        alt="レシート"
+        width={32}
+        height={40}
+        unoptimized
+        className="h-10 w-8 rounded object-cover border hover:opacity-80"
+      />
+    </a>
+  );
+}
+
+interface ExpenseEditRowProps {
+  expense: ExpenseLedgerRow;
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+/**
+ * 経費の行内編集
+ * 経費登録ページと同じフックと入力欄を使い、入力ルールを揃える
+ */
+function ExpenseEditRow({ expense, onCancel, onSaved }: ExpenseEditRowProps) {
+  const {
+    formData,
+    loading,
+    error,
+    expenseCategories,
+    categoriesLoading,
+    cropNameOptions,
+    plantingOptions,
+    taxAmount,
+    handleChange,
+    handleCategorySelect,
+    handleSubmit,
+  } = useExpenseForm({ editingExpense: expense, onSaved });
+
+  return (
+    <TableRow className="bg-green-50/40 hover:bg-green-50/40">
+      <TableCell colSpan={EXPENSE_COLUMN_COUNT}>
+        <form onSubmit={handleSubmit} className="space-y-4 py-2">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <DateField value={formData.date} onChange={handleChange} />
+            <CategorySelector
+              categories={expenseCategories}
+              isLoading={categoriesLoading}
+              selectedCategoryId={formData.categoryId}
+              selectedCategoryName={formData.categoryName}
+              onSelect={handleCategorySelect}
+            />
+            <AmountField value={formData.amount} onChange={handleChange} />
+            <TaxRateField value={formData.taxRate} onChange={handleChange} taxAmount={taxAmount} />
+            <InvoiceNumberField
+              value={formData.invoiceRegistrationNumber}
+              onChange={handleChange}
+            />
+            <CropField value={formData.cropName} onChange={handleChange} options={cropNameOptions} />
+            <PlantingField
+              value={formData.plantingId}
+              onChange={handleChange}
+              options={plantingOptions}
+            />
+          </div>
+          <DescriptionField value={formData.description} onChange={handleChange} rows={2} />
+
+          {/* 成功時は行が閉じるため、エラーのみ表示 */}
+          <FormMessages error={error} success={false} />
+
+          <LedgerEditActions loading={loading} onCancel={onCancel} />
+        </form>
+      </TableCell>
+    </TableRow>
+  );
+}
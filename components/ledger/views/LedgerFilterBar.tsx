@@ -0,0 +1,117 @@
+/**
+ * 台帳の絞り込みバー
+ *
+ * ビジネス上の役割:
+ * 期間・勘定科目（経費）・作物名/出荷先（売上）で一覧を絞り込む
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { CategoryOption, LedgerFilters, LedgerTableName } from "../types";
+
+interface LedgerFilterBarProps {
+  /** 台帳の種類（表示する絞り込み項目が変わる） */
+  tableName: LedgerTableName;
+  /** 現在の絞り込み条件 */
+  filters: LedgerFilters;
+  /** 絞り込み条件の変更 */
+  onFilterChange: (key: keyof LedgerFilters, value: string) => void;
+  /** 絞り込み条件の解除 */
+  onReset: () => void;
+  /** 勘定科目の選択肢（経費台帳のみ） */
+  categoryOptions?: CategoryOption[];
+}
+
+export function LedgerFilterBar({
+  tableName,
+  filters,
+  onFilterChange,
+  onReset,
+  categoryOptions = [],
+}: LedgerFilterBarProps) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+      {/* 期間 */}
+      <div className="space-y-1">
+        <Label htmlFor="filter-start-date" className="text-xs text-gray-600">
+          開始日
+        </Label>
+        <Input
+          id="filter-start-date"
+          type="date"
+          value={filters.startDate}
+          onChange={(event) => onFilterChange("startDate", event.target.value)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="filter-end-date" className="text-xs text-gray-600">
+          終了日
+        </Label>
+        <Input
+          id="filter-end-date"
+          type="date"
+          value={filters.endDate}
+          onChange={(event) => onFilterChange("endDate", event.target.value)}
+        />
+      </div>
+
+      {/* 経費台帳: 勘定科目 */}
+      {tableName === "expenses" && (
+        <div className="space-y-1">
+          <Label htmlFor="filter-category" className="text-xs text-gray-600">
+            勘定科目
+          </Label>
+          <select
+            id="filter-category"
+            value={filters.categoryId}
+            onChange={(event) => onFilterChange("categoryId", event.target.value)}
+            className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+          >
+            <option value="">すべて</option>
+            {categoryOptions.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* 売上台帳: 作物名・出荷先 */}
+      {tableName === "sales" && (
+        <>
+          <div className="space-y-1">
+            <Label htmlFor="filter-crop-name" className="text-xs text-gray-600">
+              作物名
+            </Label>
+            <Input
+              id="filter-crop-name"
+              type="text"
+              value={filters.cropName}
+              onChange={(event) => onFilterChange("cropName", event.target.value)}
+              placeholder="例: トマト"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-customer" className="text-xs text-gray-600">
+              出荷先
+            </Label>
+            <Input
+              id="filter-customer"
+              type="text"
+              value={filters.customer}
+              onChange={(event) => onFilterChange("customer", event.target.value)}
+              placeholder="例: 〇〇農協"
+            />
+          </div>
+        </>
+      )}
+
+      {/* 条件解除 */}
+      <Button type="button" variant="outline" onClick={onReset}>
+        条件をクリア
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * 台帳のページ送り
+ *
+ * 総件数と現在のページを表示し、前後のページへ移動する
+ */
+
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface LedgerPaginationProps {
+  /** 現在のページ（0始まり） */
+  page: number;
+  /** 総ページ数 */
+  pageCount: number;
+  /** 絞り込み後の総件数 */
+  totalCount: number;
+  /** ページ変更時のコールバック */
+  onPageChange: (page: number) => void;
+}
+
+export function LedgerPagination({
+  page,
+  pageCount,
+  totalCount,
+  onPageChange,
+}: LedgerPaginationProps) {
+  return (
+    <div className="flex items-center justify-between text-sm text-gray-600">
+      <span>全{totalCount}件</span>
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page - 1)}
+          disabled={page === 0}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span>
+          {page + 1} / {pageCount}
+        </span>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page + 1)}
+          disabled={page + 1 >= pageCount}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * 台帳の行で使用する操作ボタン
+ *
+ * - LedgerRowActions: 通常表示の編集・削除ボタン
+ * - LedgerEditActions: 行内編集の保存・キャンセルボタン
+ */
+
+import { Button } from "@/components/ui/button";
+import { Loader2, Pencil, Trash2 } from "lucide-react";
+
+interface LedgerRowActionsProps {
+  onEdit: () => void;
+  onDelete: () => void;
+  isDeleting: boolean;
+}
+
+/**
+ * 編集・削除ボタン
+ */
+export function LedgerRowActions({ onEdit, onDelete, isDeleting }: LedgerRowActionsProps) {
+  return (
+    <div className="flex justify-end gap-1">
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={onEdit}
+        className="h-9 w-9 p-0 text-gray-500 hover:text-green-600 active:bg-green-50"
+      >
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={onDelete}
+        disabled={isDeleting}
+        className="h-9 w-9 p-0 text-gray-500 hover:text-red-600 active:bg-red-50"
+      >
+        {isDeleting ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Trash2 className="h-4 w-4" />
+        )}
+      </Button>
+    </div>
+  );
+}
+
+interface LedgerEditActionsProps {
+  loading: boolean;
+  onCancel: () => void;
+}
+
+/**
+ * 行内編集の保存・キャンセルボタン
+ */
+export function LedgerEditActions({ loading, onCancel }: LedgerEditActionsProps) {
+  return (
+    <div className="flex justify-end gap-2">
+      <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+        キャンセル
+      </Button>
+      <Button
+        type="submit"
+        size="sm"
+        disabled={loading}
+        className="bg-green-600 hover:bg-green-700"
+      >
+        {loading ? "保存中..." : "保存する"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * 定期的な取引のバッジ
+ *
+ * 定期的な取引から自動で作成した経費・売上に「定期」と表示し、
+ * まだ確認していないものは「確認待ち」と表示する（手入力の行には何も表示しない）
+ */
+
+import type { RecurringEntryStatus } from "@/lib/recurring";
+
+interface RecurringBadgeProps {
+  /** 定期的な取引の確認状況（手入力の行は null） */
+  status: RecurringEntryStatus | null;
+}
+
+export function RecurringBadge({ status }: RecurringBadgeProps) {
+  if (!status) return null;
+
+  return status === "pending" ? (
+    <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800">
+      定期・確認待ち
+    </span>
+  ) : (
+    <span className="ml-2 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">定期</span>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+/**
+ * 売上台帳テーブル
+ *
+ * ビジネス上の役割:
+ * 登録済みの売上を一覧表示し、行内で修正・削除できるようにする
+ * - 通常モード: 日付・作物名・出荷先・数量・金額と、編集・削除ボタン
+ * - 編集モード: 売上登録フォームと同じ入力欄（useSaleForm を再利用）
+ */
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FormMessages } from "@/components/expenses";
+import { useSaleForm, SaleFormFields } from "@/components/sales";
+import { SortableHeader } from "./SortableHeader";
+import { RecurringBadge } from "./RecurringBadge";
+import { LedgerRowActions, LedgerEditActions } from "./LedgerRowActions";
+import type { SaleLedgerRow, LedgerSortState } from "../types";
+
+/** テーブルの列数（編集行の colSpan に使用） */
+const SALE_COLUMN_COUNT = 6;
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+    minimumFractionDigits: 0,
+  }).format(amount);
+
+interface SaleLedgerTableProps {
+  /** 現在のページの売上 */
+  rows: SaleLedgerRow[];
+  /** 並び替えの状態 */
+  sortState: LedgerSortState;
+  /** 列見出しクリック時のコールバック */
+  onSort: (column: string) => void;
+  /** 行内編集中の売上ID */
+  editingId: string | null;
+  /** 削除処理中の売上ID */
+  deletingId: string | null;
+  /** 編集開始 */
+  onStartEdit: (id: string) => void;
+  /** 編集キャンセル */
+  onCancelEdit: () => void;
+  /** 編集の保存完了 */
+  onSaved: () => void;
+  /** 削除 */
+  onDelete: (id: string) => void;
+}
+
+export function SaleLedgerTable({
+  rows,
+  sortState,
+  onSort,
+  editingId,
+  deletingId,
+  onStartEdit,
+  onCancelEdit,
+  onSaved,
+  onDelete,
+}: SaleLedgerTableProps) {
+  return (
+    // overflow-x-auto: スマホで横幅が足りない場合に横スクロール可能にする
+    <div className="border rounded-lg overflow-hidden overflow-x-auto">
+      <Table className="min-w-[640px]">
+        <TableHeader>
+          <TableRow className="bg-gray-50">
+            <SortableHeader label="日付" column="date" sortState={sortState} onSort={onSort} className="w-28" />
+            <SortableHeader label="作物名" column="crop_name" sortState={sortState} onSort={onSort} />
+            <SortableHeader label="出荷先" column="customer" sortState={sortState} onSort={onSort} />
+            <TableHead className="font-semibold text-right">数量</TableHead>
+            <SortableHeader label="金額" column="amount" sortState={sortState} onSort={onSort} className="text-right" />
+            <TableHead className="font-semibold w-24 text-right">操作</TableHead>
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {rows.map((sale) =>
+            editingId === sale.id ? (
+              <SaleEditRow
+                key={sale.id}
+                sale={sale}
+                onCancel={onCancelEdit}
+                onSaved={onSaved}
+              />
+            ) : (
+              <TableRow key={sale.id}>
+                <TableCell className="whitespace-nowrap">
+                  {sale.date}
+                  <RecurringBadge status={sale.recurringStatus} />
+                </TableCell>
+                <TableCell className="font-medium">{sale.cropName}</TableCell>
+                <TableCell className="text-gray-600">{sale.customer}</TableCell>
+                <TableCell className="text-right text-gray-600">
+                  {sale.quantity ?? "-"}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap text-green-600">
+                  {formatCurrency(sale.amount)}
+                </TableCell>
+                <TableCell className="text-right">
+                  <LedgerRowActions
+                    onEdit={() => onStartEdit(sale.id)}
+                    onDelete={() => onDelete(sale.id)}
+                    isDeleting={deletingId === sale.id}
+                  />
+                </TableCell>
+              </TableRow>
+            )
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// ============================================================
+// 以下、内部で使用するサブコンポーネント
+// ============================================================
+
+interface SaleEditRowProps {
+  sale: SaleLedgerRow;
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+/**
+ * 売上の行内編集
+ * 売上登録ページと同じフックと入力欄を使い、入力ルールを揃える
+ */
+function SaleEditRow({ sale, onCancel, onSaved }: SaleEditRowProps) {
+  const {
+    formData,
+    loading,
+    error,
+    taxAmount,
+    plantingOptions,
+    handleChange,
+    handleSubmit,
+  } = useSaleForm({
+    editingSale: sale,
+    onSaved,
+  });
+
+  return (
+    <TableRow className="bg-green-50/40 hover:bg-green-50/40">
+      <TableCell colSpan={SALE_COLUMN_COUNT}>
+        <form onSubmit={handleSubmit} className="space-y-4 py-2">
+          <SaleFormFields
+            formData={formData}
+            onChange={handleChange}
+            taxAmount={taxAmount}
+            plantingOptions={plantingOptions}
+            compact
+          />
+
+          {/* 成功時は行が閉じるため、エラーのみ表示 */}
+          <FormMessages error={error} success={false} />
+
+          <LedgerEditActions loading={loading} onCancel={onCancel} />
+        </form>
+      </TableCell>
+    </TableRow>
+  );
+}
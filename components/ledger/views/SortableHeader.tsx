@@ -0,0 +1,47 @@
+/**
+ * 並び替え可能な列見出し
+ *
+ * クリックで昇順/降順を切り替え、現在の並び順を矢印で表示する
+ */
+
+import { TableHead } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import type { LedgerSortState } from "../types";
+
+interface SortableHeaderProps {
+  /** 見出しの表示名 */
+  label: string;
+  /** 並び替え対象のカラム名（DBのカラム名） */
+  column: string;
+  /** 現在の並び替えの状態 */
+  sortState: LedgerSortState;
+  /** クリック時のコールバック */
+  onSort: (column: string) => void;
+  /** 追加のクラス（幅・寄せなど） */
+  className?: string;
+}
+
+export function SortableHeader({
+  label,
+  column,
+  sortState,
+  onSort,
+  className = "",
+}: SortableHeaderProps) {
+  const isActive = sortState.column === column;
+
+  return (
+    <TableHead className={`font-semibold ${className}`}>
+      <button
+        type="button"
+        onClick={() => onSort(column)}
+        className="inline-flex items-center gap-1 hover:text-green-600"
+      >
+        {label}
+        {!isActive && <ArrowUpDown className="h-3 w-3 text-gray-400" />}
+        {isActive && sortState.ascending && <ArrowUp className="h-3 w-3" />}
+        {isActive && !sortState.ascending && <ArrowDown className="h-3 w-3" />}
+      </button>
+    </TableHead>
+  );
+}
@@ -0,0 +1,249 @@
+/**
+ * プラン変更の確認ダイアログ
+ *
+ * ビジネス上の役割:
+ * 有料プランを契約中のユーザーが別の有料プランを選んだ時に、
+ * 切り替えのタイミングと請求される金額を確認してから変更できるようにする
+ * - アップグレード: 即時に切り替わり、残りの契約期間分の差額が日割りで請求される
+ * - ダウングレード: 現在の契約期間の終了日に切り替わる（それまでは現在のプランを利用可能）
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowRight, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PLAN_DISPLAY_INFO, type PaidPlanType } from "@/lib/stripe";
+import type { PlanChangePreview, PlanChangeResult } from "@/lib/planChange";
+
+/**
+ * ダイアログのプロパティ型
+ */
+interface PlanChangeDialogProps {
+  /** 変更先のプラン */
+  targetPlanType: PaidPlanType;
+  /** ダイアログを閉じる時のコールバック */
+  onClose: () => void;
+  /** プランを変更（予約）した後のコールバック */
+  onChanged: (result: PlanChangeResult) => void;
+}
+
+/**
+ * 金額を表示用の文字列にする（例：「¥1,490」）
+ */
+function formatYen(amount: number): string {
+  return `¥${amount.toLocaleString("ja-JP")}`;
+}
+
+/**
+ * プラン変更の確認ダイアログ
+ */
+export function PlanChangeDialog({
+  targetPlanType,
+  onClose,
+  onChanged,
+}: PlanChangeDialogProps) {
+  // 金額のプレビュー
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null);
+
+  // ローディング状態
+  const [isLoading, setIsLoading] = useState(true);
+
+  // 変更処理中の状態
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // エラー状態
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 変更先のプランが決まったら、請求される金額を取得
+   */
+  useEffect(() => {
+    async function fetchPreview() {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const response = await fetch("/api/stripe/plan-change/preview", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ planType: targetPlanType }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "金額の計算に失敗しました");
+        }
+
+        setPreview(data);
+      } catch (err) {
+        console.error("プラン変更プレビューエラー:", err);
+        setError(
+          err instanceof Error ? err.message : "金額の計算中にエラーが発生しました"
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchPreview();
+  }, [targetPlanType]);
+
+  /**
+   * プランを変更（ダウングレードの場合は予約）
+   *
+   * ビジネスロジック:
+   * - プレビューと同じ日割りの基準時刻で変更し、表示した金額と同じ金額で請求する
+   */
+  async function handleConfirm() {
+    if (!preview) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await fetch("/api/stripe/plan-change", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          planType: preview.targetPlanType,
+          timing: preview.timing,
+          prorationDate: preview.prorationDate ?? undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "プランの変更に失敗しました");
+      }
+
+      onChanged(data);
+    } catch (err) {
+      console.error("プラン変更エラー:", err);
+      setError(
+        err instanceof Error ? err.message : "プランの変更中にエラーが発生しました"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const targetInfo = PLAN_DISPLAY_INFO[targetPlanType];
+  const currentInfo = preview ? PLAN_DISPLAY_INFO[preview.currentPlanType] : null;
+  const effectiveDate = preview
+    ? new Date(preview.effectiveAt).toLocaleDateString("ja-JP")
+    : "";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="border-b px-6 py-4 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-gray-900">
+            {preview?.direction === "downgrade"
+              ? "プランのダウングレード"
+              : "プランのアップグレード"}
+          </h3>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+            aria-label="閉じる"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+            </div>
+          ) : preview && currentInfo ? (
+            <>
+              {/* 変更前後のプラン */}
+              <div className="flex items-center justify-center gap-3 text-sm">
+                <div className="text-center">
+                  <p className="font-semibold text-gray-900">{currentInfo.name}</p>
+                  <p className="text-gray-500">{currentInfo.price}</p>
+                </div>
+                <ArrowRight className="h-5 w-5 text-gray-400" />
+                <div className="text-center">
+                  <p className="font-semibold text-green-700">{targetInfo.name}</p>
+                  <p className="text-gray-500">{targetInfo.price}</p>
+                </div>
+              </div>
+
+              {/* 請求内容 */}
+              <div className="rounded-lg bg-gray-50 p-4 text-sm space-y-2">
+                {preview.timing === "immediate" ? (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">日割りの差額</span>
+                      <span className="text-gray-900">
+                        {formatYen(preview.prorationAmount)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between font-semibold">
+                      <span className="text-gray-900">今回のお支払い</span>
+                      <span className="text-gray-900">{formatYen(preview.amountDue)}</span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      変更は今すぐ反映され、残りの契約期間分の差額を登録済みのお支払い方法に請求します。
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">変更日</span>
+                      <span className="text-gray-900">{effectiveDate}</span>
+                    </div>
+                    <div className="flex justify-between font-semibold">
+                      <span className="text-gray-900">変更後のお支払い</span>
+                      <span className="text-gray-900">{formatYen(preview.nextAmount)}</span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {effectiveDate}までは{currentInfo.name}の機能をご利用いただけます。
+                      今回の追加のお支払いはありません。
+                    </p>
+                  </>
+                )}
+              </div>
+            </>
+          ) : null}
+
+          {/* エラー表示 */}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {/* アクションボタン */}
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="flex-1"
+            >
+              キャンセル
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={!preview || isLoading || isSubmitting}
+              className="flex-1 bg-green-600 hover:bg-green-700"
+            >
+              {isSubmitting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : preview?.timing === "period_end" ? (
+                "変更を予約する"
+              ) : (
+                "変更する"
+              )}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
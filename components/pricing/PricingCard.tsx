@@ -5,7 +5,8 @@
  * 各料金プランの詳細を視覚的にわかりやすく表示するカード
  * - プラン名、価格、説明、機能一覧を表示
  * - 現在のプランの場合はバッジを表示
- * - プラン選択ボタンを配置
+ * - プラン選択ボタンを配置（有料プランの契約中は、現在のプランと比べて
+ *   「アップグレード」「ダウングレード」と表示する）
  */
 
 "use client";
@@ -14,6 +15,7 @@ import { Check, Crown, Sparkles, Star } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import type { PlanType } from "@/lib/stripe";
+import { getPlanDefinition, type PlanChangeDirection } from "@/lib/plans";
 import { cn } from "@/lib/utils";
 
 /**
@@ -34,6 +36,8 @@ interface PricingCardProps {
   isCurrentPlan?: boolean;
   /** おすすめプランとしてハイライトするか */
   isRecommended?: boolean;
+  /** 有料プランの契約中の場合、現在のプランから見た変更の向き（それ以外は null） */
+  changeDirection?: PlanChangeDirection | null;
   /** 選択ボタンがクリックされた時のコールバック */
   onSelect?: () => void;
   /** ボタンが無効かどうか */
@@ -70,11 +74,14 @@ export function PricingCard({
   features,
   isCurrentPlan = false,
   isRecommended = false,
+  changeDirection = null,
   onSelect,
   isLoading = false,
 }: PricingCardProps) {
   // おすすめプランか現在のプランかで、強調表示を切り替え
   const isHighlighted = isRecommended && !isCurrentPlan;
+  // 月額・年額の表記はプランカタログの請求間隔で切り替える
+  const { billingInterval, trialDays } = getPlanDefinition(planType);
 
   return (
     <Card
@@ -122,12 +129,18 @@ export function PricingCard({
         {/* 価格表示 */}
         <div className="mt-4">
           <span className="text-3xl font-bold text-gray-900">{price}</span>
-          {planType !== "free" && planType !== "pro_yearly" && (
+          {billingInterval === "month" && (
             <span className="text-gray-500 text-sm ml-1">（税込）</span>
           )}
-          {planType === "pro_yearly" && (
+          {billingInterval === "year" && (
             <span className="text-gray-500 text-sm ml-1">（税込・年額）</span>
           )}
+          {/* 無料体験（初回申し込みのみ。契約中のプラン変更には付かない） */}
+          {trialDays > 0 && !isCurrentPlan && !changeDirection && (
+            <p className="mt-1 text-xs font-medium text-blue-600">
+              初回は{trialDays}日間無料でお試しいただけます
+            </p>
+          )}
         </div>
       </CardHeader>
 
@@ -172,7 +185,13 @@ export function PricingCard({
             onClick={onSelect}
             disabled={isLoading}
           >
-            {isLoading ? "処理中..." : "このプランを選ぶ"}
+            {isLoading
+              ? "処理中..."
+              : changeDirection === "upgrade"
+                ? "このプランにアップグレード"
+                : changeDirection === "downgrade"
+                  ? "このプランにダウングレード"
+                  : "このプランを選ぶ"}
           </Button>
         )}
       </CardFooter>
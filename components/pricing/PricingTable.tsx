@@ -3,17 +3,31 @@
  *
  * ビジネス上の役割:
  * 全プランを並べて比較できるようにし、ユーザーが最適なプランを選びやすくする
- * - 4つのプランカードを横並びで表示
+ * - プランカタログ（lib/plans.ts）の全プランを横並びで表示
  * - スマホでは縦並びにレスポンシブ対応
  * - ログイン中のユーザーには現在のプラン表示
+ * - クーポンコードを入力して、有料プランの申し込み時に割引を適用できる
+ * - 有料プランの契約中に別の有料プランを選んだ場合は、金額を確認してアプリ内でプランを変更する
  */
 
 "use client";
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { Ticket } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { PricingCard } from "./PricingCard";
-import { PLAN_DISPLAY_INFO, type PlanType } from "@/lib/stripe";
+import { PlanChangeDialog } from "./PlanChangeDialog";
+import {
+  isPaidPlan,
+  isPurchasablePlanType,
+  PLAN_DISPLAY_INFO,
+  type PaidPlanType,
+  type PlanType,
+} from "@/lib/stripe";
+import { comparePlans, PLAN_CATALOG } from "@/lib/plans";
+import type { PlanChangeResult } from "@/lib/planChange";
 
 /**
  * 料金テーブルのプロパティ型
@@ -25,12 +39,6 @@ interface PricingTableProps {
   isLoggedIn?: boolean;
 }
 
-/**
- * プラン選択順序
- * 表示順序を制御するための配列
- */
-const PLAN_ORDER: PlanType[] = ["free", "standard", "premium", "pro_yearly"];
-
 /**
  * 料金プラン比較テーブル
  */
@@ -43,12 +51,22 @@ export function PricingTable({
   // ローディング中のプランを管理
   const [loadingPlan, setLoadingPlan] = useState<PlanType | null>(null);
 
+  // 入力されたクーポンコード（Stripeのプロモーションコード）
+  const [promotionCode, setPromotionCode] = useState("");
+
+  // プラン変更の確認中の変更先プラン（確認ダイアログを表示）
+  const [changeTarget, setChangeTarget] = useState<PaidPlanType | null>(null);
+
+  // 有料プランを契約中か（契約中は申し込みではなくプラン変更になる）
+  const hasPaidPlan = currentPlanType !== null && isPaidPlan(currentPlanType);
+
   /**
    * プラン選択時の処理
    *
    * ビジネスロジック:
    * - 無料プラン: ログインページまたはダッシュボードへ誘導
-   * - 有料プラン: Stripe Checkoutセッションを作成してリダイレクト
+   * - 有料プラン（契約中）: プラン変更の確認ダイアログを表示
+   * - 有料プラン（未契約）: Stripe Checkoutセッションを作成してリダイレクト
    */
   async function handleSelectPlan(planType: PlanType) {
     // 無料プランの場合
@@ -63,6 +81,12 @@ export function PricingTable({
       return;
     }
 
+    // 有料プランを契約中の場合は、金額を確認してからプランを変更
+    if (hasPaidPlan && isPurchasablePlanType(planType)) {
+      setChangeTarget(planType);
+      return;
+    }
+
     // 有料プランの場合はCheckoutセッションを作成
     try {
       setLoadingPlan(planType);
@@ -79,7 +103,10 @@ export function PricingTable({
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ planType }),
+        body: JSON.stringify({
+          planType,
+          promotionCode: promotionCode.trim() || undefined,
+        }),
       });
 
       if (!response.ok) {
@@ -105,29 +132,81 @@ export function PricingTable({
     }
   }
 
+  /**
+   * プラン変更（予約）後の処理
+   * 変更内容は設定画面で確認できる（Webhookで反映されるまで少し時間がかかる）
+   */
+  function handlePlanChanged(result: PlanChangeResult) {
+    setChangeTarget(null);
+
+    const planName = PLAN_DISPLAY_INFO[result.targetPlanType].name;
+    alert(
+      result.status === "scheduled"
+        ? `${new Date(result.effectiveAt).toLocaleDateString("ja-JP")}に${planName}に変更されるよう予約しました`
+        : `${planName}に変更しました`
+    );
+    router.push("/settings");
+  }
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-      {PLAN_ORDER.map((planType) => {
-        const planInfo = PLAN_DISPLAY_INFO[planType];
-        const isCurrentPlan = currentPlanType === planType;
-        // スタンダードプランをおすすめとして強調
-        const isRecommended = planType === "standard";
-
-        return (
-          <PricingCard
-            key={planType}
-            planType={planType}
-            name={planInfo.name}
-            price={planInfo.price}
-            description={planInfo.description}
-            features={planInfo.features}
-            isCurrentPlan={isCurrentPlan}
-            isRecommended={isRecommended}
-            isLoading={loadingPlan === planType}
-            onSelect={() => handleSelectPlan(planType)}
-          />
-        );
-      })}
+    <div className="space-y-6">
+      {/* クーポンコード入力 */}
+      <div className="max-w-sm mx-auto">
+        <Label
+          htmlFor="promotion-code"
+          className="flex items-center gap-1 text-sm text-gray-600 mb-1"
+        >
+          <Ticket className="h-4 w-4" />
+          クーポンコードをお持ちの方
+        </Label>
+        <Input
+          id="promotion-code"
+          value={promotionCode}
+          onChange={(e) => setPromotionCode(e.target.value)}
+          placeholder="例：SPRING2025"
+          autoComplete="off"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          有料プランのお申し込み時に割引が適用されます
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {PLAN_CATALOG.map(({ planType, isRecommended }) => {
+          const planInfo = PLAN_DISPLAY_INFO[planType];
+          const isCurrentPlan = currentPlanType === planType;
+          // 有料プランの契約中は、現在のプランと比べてアップグレードかダウングレードかを表示
+          const changeDirection =
+            hasPaidPlan && currentPlanType && planType !== "free"
+              ? comparePlans(currentPlanType, planType)
+              : null;
+
+          return (
+            <PricingCard
+              key={planType}
+              planType={planType}
+              name={planInfo.name}
+              price={planInfo.price}
+              description={planInfo.description}
+              features={planInfo.features}
+              isCurrentPlan={isCurrentPlan}
+              isRecommended={isRecommended}
+              changeDirection={changeDirection}
+              isLoading={loadingPlan === planType}
+              onSelect={() => handleSelectPlan(planType)}
+            />
+          );
+        })}
+      </div>
+
+      {/* プラン変更の確認ダイアログ */}
+      {changeTarget && (
+        <PlanChangeDialog
+          targetPlanType={changeTarget}
+          onClose={() => setChangeTarget(null)}
+          onChanged={handlePlanChanged}
+        />
+      )}
     </div>
   );
 }
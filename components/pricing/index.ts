@@ -4,3 +4,4 @@
 
 export { PricingCard } from "./PricingCard";
 export { PricingTable } from "./PricingTable";
+export { PlanChangeDialog } from "./PlanChangeDialog";
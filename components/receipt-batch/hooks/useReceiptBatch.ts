@@ -0,0 +1,343 @@
+"use client";
+
+/**
+ * レシート一括読み取りのロジックを管理するカスタムフック
+ *
+ * 責務:
+ * - 選択された複数の画像を読み取り待ちの列に並べ、同時実行数を制限してOCR APIに送る
+ * - 読み取り結果を一覧の行として保持し、ユーザーの修正を反映する
+ * - 承認された行を経費としてまとめて登録する
+ *
+ * ビジネス上の流れ:
+ * 1. 月末にまとめて撮影したレシート画像を複数選択
+ * 2. 最大 OCR_CONCURRENCY 枚ずつ並行して読み取り（1枚ごとにOCR使用回数を1回消費）
+ *    - 使用回数の上限に達したら、残りのレシートは読み取らずに止める
+ * 3. 一覧で日付・金額・勘定科目・摘要を確認・修正し、登録するレシートを承認
+ * 4. 承認したレシートを1回の登録処理で経費に追加（画像は証憑として Storage に保存）
+ */
+
+import { useState, useEffect, useRef } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import {
+  prepareReceiptImage,
+  requestReceiptOcr,
+  findCategoryByOcrName,
+  buildOcrDescription,
+  getReceiptTaxRate,
+  ReceiptOcrError,
+} from "@/lib/receiptOcr";
+import { DEFAULT_EXPENSE_TAX_RATE, calculateIncludedTax } from "@/lib/consumptionTax";
+import { uploadReceiptImage, deleteReceiptImages } from "@/lib/receiptStorage";
+import type { ExpenseCategory } from "@/components/expenses";
+import type {
+  BatchReceiptItem,
+  BatchReceiptItemUpdate,
+  UseReceiptBatchReturn,
+} from "../types";
+
+/**
+ * OCR APIに同時に送るレシートの最大枚数
+ * （多すぎるとAPIのレート制限に掛かり、少なすぎると待ち時間が長くなる）
+ */
+const OCR_CONCURRENCY = 3;
+
+/** OCR使用回数の上限に達したときのエラーコード（/api/ocr と一致させる） */
+const USAGE_LIMIT_ERROR_CODE = "USAGE_LIMIT_EXCEEDED";
+
+export function useReceiptBatch(): UseReceiptBatchReturn {
+  const [items, setItems] = useState<BatchReceiptItem[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // ===== 読み取り待ちの列（再描画と無関係に進むため ref で管理） =====
+  /** 一覧の行ID → 元の画像ファイル（再試行用） */
+  const filesRef = useRef<Map<string, File>>(new Map());
+  /** 読み取り待ちの行ID（先頭から順に処理） */
+  const pendingIdsRef = useRef<string[]>([]);
+  /** 実行中の読み取り処理の数 */
+  const activeWorkerCountRef = useRef(0);
+  /** 読み取り結果の科目名を対応付けるための勘定科目（非同期処理から最新値を参照する） */
+  const categoriesRef = useRef<ExpenseCategory[]>([]);
+
+  /**
+   * 勘定科目を取得（有効な科目のみ）
+   */
+  useEffect(() => {
+    const fetchCategories = async () => {
+      const supabase = createSupabaseClient();
+
+      // RLSにより、自分の勘定科目のみ取得される
+      const { data, error } = await supabase
+        .from("expense_categories")
+        .select("id, name, category_type")
+        .eq("is_active", true)
+        .order("display_order", { ascending: true });
+
+      if (error) {
+        console.error("勘定科目の取得に失敗:", error);
+        return;
+      }
+      categoriesRef.current = data || [];
+      setCategories(data || []);
+    };
+
+    fetchCategories();
+  }, []);
+
+  /**
+   * 一覧の1行を更新する
+   */
+  const patchItem = (id: string, patch: Partial<BatchReceiptItem>) => {
+    setItems((previousItems) =>
+      previousItems.map((item) => (item.id === id ? { ...item, ...patch } : item))
+    );
+  };
+
+  /**
+   * レシート1枚を読み取り、結果を一覧の行に反映する
+   *
+   * @returns 使用回数の上限に達した場合は false（以降の読み取りを止める）
+   */
+  const processReceipt = async (id: string): Promise<boolean> => {
+    const file = filesRef.current.get(id);
+    // 読み取り待ちの間に一覧から削除された
+    if (!file) return true;
+
+    patchItem(id, { status: "processing", errorMessage: null });
+
+    try {
+      const base64Image = await prepareReceiptImage(file);
+      patchItem(id, { imagePreview: base64Image });
+
+      const ocrResult = await requestReceiptOcr(base64Image);
+      const matchedCategory = findCategoryByOcrName(ocrResult.category, categoriesRef.current);
+
+      const date = ocrResult.date || "";
+      const amount = ocrResult.amount ? String(ocrResult.amount) : "";
+      const categoryId = matchedCategory?.id || "";
+
+      patchItem(id, {
+        status: "done",
+        date,
+        amount,
+        categoryId,
+        description: buildOcrDescription(ocrResult),
+        taxRate: getReceiptTaxRate(ocrResult) ?? DEFAULT_EXPENSE_TAX_RATE,
+        invoiceRegistrationNumber: ocrResult.invoiceRegistrationNumber,
+        // 必要な項目が全て読み取れたレシートは、初期状態で登録対象にする
+        isApproved: Boolean(date && amount && categoryId),
+      });
+      return true;
+    } catch (error: unknown) {
+      if (error instanceof ReceiptOcrError && error.code === USAGE_LIMIT_ERROR_CODE) {
+        patchItem(id, { status: "skipped", errorMessage: error.message });
+        return false;
+      }
+
+      const message =
+        error instanceof Error ? error.message : "画像の処理中にエラーが発生しました";
+      patchItem(id, { status: "error", errorMessage: message });
+      return true;
+    }
+  };
+
+  /**
+   * 読み取り待ちの列からレシートを1枚ずつ取り出して処理する
+   * （この処理が最大 OCR_CONCURRENCY 個同時に動く）
+   */
+  const runWorker = async () => {
+    try {
+      while (pendingIdsRef.current.length > 0) {
+        const id = pendingIdsRef.current.shift()!;
+        const canContinue = await processReceipt(id);
+
+        if (!canContinue) {
+          // 使用回数の上限に達したため、残りのレシートは読み取らない
+          const skippedIds = new Set(pendingIdsRef.current);
+          pendingIdsRef.current = [];
+          setItems((previousItems) =>
+            previousItems.map((item) =>
+              skippedIds.has(item.id)
+                ? {
+                    ...item,
+                    status: "skipped",
+                    errorMessage: "今月のOCR使用回数の上限に達したため、読み取りませんでした",
+                  }
+                : item
+            )
+          );
+        }
+      }
+    } finally {
+      activeWorkerCountRef.current -= 1;
+    }
+  };
+
+  /**
+   * 同時実行数の上限まで読み取り処理を起動する
+   */
+  const startWorkers = () => {
+    while (
+      activeWorkerCountRef.current < OCR_CONCURRENCY &&
+      activeWorkerCountRef.current < pendingIdsRef.current.length
+    ) {
+      activeWorkerCountRef.current += 1;
+      runWorker();
+    }
+  };
+
+  /**
+   * 選択された画像を読み取り待ちの列に追加する
+   */
+  const addFiles = (files: File[]) => {
+    const imageFiles = files.filter((file) => file.type.startsWith("image/"));
+    if (imageFiles.length === 0) return;
+
+    setSuccessMessage(null);
+
+    const newItems: BatchReceiptItem[] = imageFiles.map((file) => {
+      const id = crypto.randomUUID();
+      filesRef.current.set(id, file);
+      return {
+        id,
+        fileName: file.name,
+        imagePreview: null,
+        status: "queued",
+        errorMessage: null,
+        isApproved: false,
+        date: "",
+        amount: "",
+        categoryId: "",
+        description: "",
+        taxRate: DEFAULT_EXPENSE_TAX_RATE,
+        invoiceRegistrationNumber: null,
+      };
+    });
+
+    setItems((previousItems) => [...previousItems, ...newItems]);
+    pendingIdsRef.current.push(...newItems.map((item) => item.id));
+    startWorkers();
+  };
+
+  /**
+   * 一覧の行を修正する
+   */
+  const updateItem = (id: string, update: BatchReceiptItemUpdate) => {
+    patchItem(id, update);
+  };
+
+  /**
+   * 一覧から行を削除する（読み取り待ちの場合は読み取りも取り消す）
+   */
+  const removeItem = (id: string) => {
+    filesRef.current.delete(id);
+    pendingIdsRef.current = pendingIdsRef.current.filter((pendingId) => pendingId !== id);
+    setItems((previousItems) => previousItems.filter((item) => item.id !== id));
+  };
+
+  /**
+   * 読み取りに失敗した（または上限で止まった）レシートを再度読み取る
+   */
+  const retryItem = (id: string) => {
+    patchItem(id, { status: "queued", errorMessage: null });
+    pendingIdsRef.current.push(id);
+    startWorkers();
+  };
+
+  /**
+   * 承認されたレシートを経費としてまとめて登録する
+   *
+   * 入力不足の行が1件でもあれば、何も登録せずにエラーを表示する
+   */
+  const saveApprovedItems = async (): Promise<void> => {
+    const approvedItems = items.filter((item) => item.status === "done" && item.isApproved);
+
+    if (approvedItems.length === 0) {
+      setErrorMessage("登録するレシートを選択してください");
+      return;
+    }
+
+    const invalidItem = approvedItems.find(
+      (item) => !item.date || !item.categoryId || !(parseInt(item.amount, 10) > 0)
+    );
+
+    if (invalidItem) {
+      setErrorMessage(
+        `「${invalidItem.fileName}」の日付・金額・勘定科目を入力してください`
+      );
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setSuccessMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        setErrorMessage("ログインが必要です");
+        return;
+      }
+
+      const categoryNameById = new Map(categories.map((category) => [category.id, category.name]));
+
+      // レシート画像を証憑として保存（画像の順番は approvedItems と同じ）
+      const receiptPaths = await Promise.all(
+        approvedItems.map((item) =>
+          item.imagePreview ? uploadReceiptImage(supabase, user.id, item.imagePreview) : null
+        )
+      );
+
+      const { error } = await supabase.from("expenses").insert(
+        approvedItems.map((item, index) => ({
+          user_id: user.id,
+          date: item.date,
+          category_id: item.categoryId,
+          category: categoryNameById.get(item.categoryId) || "",
+          amount: parseInt(item.amount, 10),
+          tax_rate: item.taxRate,
+          tax_amount: calculateIncludedTax(parseInt(item.amount, 10), item.taxRate),
+          invoice_registration_number: item.invoiceRegistrationNumber,
+          description: item.description || null,
+          receipt_path: receiptPaths[index],
+        }))
+      );
+
+      if (error) {
+        // 経費が登録できなかったので、保存した画像も削除する
+        const uploadedPaths = receiptPaths.filter((path): path is string => path !== null);
+        await deleteReceiptImages(supabase, uploadedPaths).catch(() => undefined);
+        throw error;
+      }
+
+      // 登録済みのレシートは一覧から外す
+      const savedIds = new Set(approvedItems.map((item) => item.id));
+      savedIds.forEach((id) => filesRef.current.delete(id));
+      setItems((previousItems) => previousItems.filter((item) => !savedIds.has(item.id)));
+      setSuccessMessage(`${approvedItems.length}件の経費を登録しました`);
+    } catch (error: unknown) {
+      console.error("一括登録エラー:", error);
+      setErrorMessage("登録に失敗しました。再度お試しください。");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    items,
+    categories,
+    isSaving,
+    errorMessage,
+    successMessage,
+    addFiles,
+    updateItem,
+    removeItem,
+    retryItem,
+    saveApprovedItems,
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * レシート一括読み取りコンポーネントのエクスポート
+ *
+ * 使用例:
+ * ```
+ * import { useReceiptBatch, ReceiptBatchGrid } from "@/components/receipt-batch";
+ * ```
+ */
+
+// 型定義
+export type {
+  BatchReceiptStatus,
+  BatchReceiptItem,
+  BatchReceiptItemUpdate,
+  UseReceiptBatchReturn,
+} from "./types";
+
+// カスタムフック
+export { useReceiptBatch } from "./hooks/useReceiptBatch";
+
+// ビューコンポーネント
+export { ReceiptBatchGrid } from "./views/ReceiptBatchGrid";
@@ -0,0 +1,65 @@
+/**
+ * レシート一括読み取りで使用する型定義
+ *
+ * ビジネス上の役割:
+ * 月末にまとめて撮影した数十枚のレシートを一度に読み取り、
+ * 一覧で確認・修正してから経費としてまとめて登録する
+ */
+
+import type { ExpenseCategory } from "@/components/expenses";
+import type { ConsumptionTaxRate } from "@/lib/consumptionTax";
+
+/**
+ * レシート1枚の処理状態
+ * - queued: 読み取り待ち
+ * - processing: 読み取り中
+ * - done: 読み取り完了（確認・修正できる）
+ * - error: 読み取り失敗（再試行できる）
+ * - skipped: OCRの使用回数上限に達したため読み取らなかった
+ */
+export type BatchReceiptStatus = "queued" | "processing" | "done" | "error" | "skipped";
+
+/**
+ * 一覧の1行（レシート1枚）
+ * 金額は入力欄で編集するため、経費フォームと同じく文字列で持つ
+ */
+export interface BatchReceiptItem {
+  id: string;                   // 一覧内の識別子
+  fileName: string;             // 元の画像ファイル名
+  imagePreview: string | null;  // サムネイル（圧縮済みのBase64）
+  status: BatchReceiptStatus;   // 処理状態
+  errorMessage: string | null;  // 読み取り失敗時のメッセージ
+  isApproved: boolean;          // 登録対象にするか
+  date: string;                 // 日付（YYYY-MM-DD形式）
+  amount: string;               // 金額
+  categoryId: string;           // 勘定科目ID
+  description: string;          // 摘要（店舗名: 品目）
+  taxRate: ConsumptionTaxRate;  // 消費税率（明細の税率が混在・不明なら標準税率）
+  invoiceRegistrationNumber: string | null; // 仕入先の登録番号（読み取れた場合のみ）
+}
+
+/**
+ * 一覧で修正できる項目
+ */
+export type BatchReceiptItemUpdate = Partial<
+  Pick<BatchReceiptItem, "isApproved" | "date" | "amount" | "categoryId" | "description">
+>;
+
+/**
+ * useReceiptBatch カスタムフックの戻り値
+ */
+export interface UseReceiptBatchReturn {
+  // === 状態 ===
+  items: BatchReceiptItem[];          // 読み取ったレシートの一覧
+  categories: ExpenseCategory[];      // 勘定科目の選択肢
+  isSaving: boolean;                  // 登録中フラグ
+  errorMessage: string | null;        // エラーメッセージ
+  successMessage: string | null;      // 登録完了メッセージ
+
+  // === 操作 ===
+  addFiles: (files: File[]) => void;
+  updateItem: (id: string, update: BatchReceiptItemUpdate) => void;
+  removeItem: (id: string) => void;
+  retryItem: (id: string) => void;
+  saveApprovedItems: () => Promise<void>;
+}
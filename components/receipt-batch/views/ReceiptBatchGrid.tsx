@@ -0,0 +1,193 @@
+/**
+ * レシート一括読み取りの結果一覧
+ *
+ * ビジネス上の役割:
+ * 読み取ったレシートを1行ずつ並べ、日付・金額・勘定科目・摘要をその場で修正し、
+ * 登録するレシートにチェックを付ける
+ *
+ * 表示ルール:
+ * - 読み取り待ち・読み取り中の行は入力できない
+ * - 読み取りに失敗した行・上限で止まった行には「再試行」ボタンを表示
+ */
+
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import type { ExpenseCategory } from "@/components/expenses";
+import type { BatchReceiptItem, BatchReceiptItemUpdate, BatchReceiptStatus } from "../types";
+
+/**
+ * 処理状態ごとの表示
+ */
+const STATUS_LABELS: Record<BatchReceiptStatus, { label: string; className: string }> = {
+  queued: { label: "読み取り待ち", className: "text-gray-500" },
+  processing: { label: "読み取り中", className: "text-blue-600" },
+  done: { label: "読み取り完了", className: "text-green-600" },
+  error: { label: "読み取り失敗", className: "text-red-600" },
+  skipped: { label: "上限のため中止", className: "text-yellow-700" },
+};
+
+interface ReceiptBatchGridProps {
+  items: BatchReceiptItem[];
+  categories: ExpenseCategory[];
+  onItemChange: (id: string, update: BatchReceiptItemUpdate) => void;
+  onRemove: (id: string) => void;
+  onRetry: (id: string) => void;
+}
+
+export function ReceiptBatchGrid({
+  items,
+  categories,
+  onItemChange,
+  onRemove,
+  onRetry,
+}: ReceiptBatchGridProps) {
+  const inputClassName = "h-8 text-sm";
+  const selectClassName = "h-8 w-full rounded-md border border-input bg-background px-2 text-sm";
+
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-gray-600">
+          <tr>
+            <th className="px-2 py-2 w-10">登録</th>
+            <th className="px-2 py-2 text-left">レシート</th>
+            <th className="px-2 py-2 text-left whitespace-nowrap">日付</th>
+            <th className="px-2 py-2 text-left whitespace-nowrap">金額</th>
+            <th className="px-2 py-2 text-left whitespace-nowrap">勘定科目</th>
+            <th className="px-2 py-2 text-left min-w-[12rem]">摘要</th>
+            <th className="px-2 py-2 w-20" />
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {items.map((item) => {
+            const status = STATUS_LABELS[item.status];
+            const isEditable = item.status === "done";
+            const canRetry = item.status === "error" || item.status === "skipped";
+
+            return (
+              <tr key={item.id} className={item.status === "error" ? "bg-red-50" : ""}>
+                <td className="px-2 py-2 text-center">
+                  <input
+                    type="checkbox"
+                    checked={item.isApproved}
+                    disabled={!isEditable}
+                    onChange={(event) =>
+                      onItemChange(item.id, { isApproved: event.target.checked })
+                    }
+                    aria-label={`${item.fileName}を登録する`}
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <div className="flex items-center gap-2">
+                    {item.imagePreview ? (
+                      // プレビューはブラウザ内の画像（blob: URL）のため、最適化せずに表示する
+                      <Image
+                        src={item.imagePreview}
+                        alt={item.fileName}
+                        width={36}
+                        height={48}
+                        unoptimized
+                        className="h-12 w-9 rounded object-cover border"
+                      />
+                    ) : (
+                      <div className="h-12 w-9 rounded bg-gray-100 border" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="truncate max-w-[8rem] text-xs text-gray-700">
+                        {item.fileName}
+                      </p>
+                      <p className={`flex items-center gap-1 text-xs ${status.className}`}>
+                        {item.status === "processing" && (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        )}
+                        {status.label}
+                      </p>
+                      {item.errorMessage && (
+                        <p className="text-xs text-red-600 max-w-[12rem]">{item.errorMessage}</p>
+                      )}
+                    </div>
+                  </div>
+                </td>
+                <td className="px-2 py-2">
+                  <Input
+                    type="date"
+                    value={item.date}
+                    disabled={!isEditable}
+                    onChange={(event) => onItemChange(item.id, { date: event.target.value })}
+                    className={inputClassName}
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    min="1"
+                    value={item.amount}
+                    disabled={!isEditable}
+                    onChange={(event) => onItemChange(item.id, { amount: event.target.value })}
+                    className={`${inputClassName} w-28`}
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <select
+                    value={item.categoryId}
+                    disabled={!isEditable}
+                    onChange={(event) =>
+                      onItemChange(item.id, { categoryId: event.target.value })
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">選択</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-2 py-2">
+                  <Input
+                    value={item.description}
+                    disabled={!isEditable}
+                    onChange={(event) =>
+                      onItemChange(item.id, { description: event.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </td>
+                <td className="px-2 py-2">
+                  <div className="flex justify-end gap-1">
+                    {canRetry && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onRetry(item.id)}
+                        aria-label="再試行"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRemove(item.id)}
+                      disabled={item.status === "processing"}
+                      className="text-red-600 hover:text-red-700"
+                      aria-label="一覧から外す"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -57,6 +57,7 @@ export default function ReceiptScanner({ isOpen, onClose }: ReceiptScannerProps)
             onCameraClick={scanner.handleCameraClick}
             onFileClick={scanner.handleFileClick}
             onManualEntry={scanner.handleManualEntry}
+            onBatchEntry={scanner.handleBatchEntry}
           />
         );
 
@@ -14,7 +14,19 @@
 
 import { useState, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { compressImageFile } from "@/lib/imageCompression";
+import {
+  prepareReceiptImage,
+  requestReceiptOcr,
+  buildOcrDescription,
+  getReceiptTaxRate,
+  savePendingLineItems,
+  clearPendingLineItems,
+  type OcrResult,
+} from "@/lib/receiptOcr";
+import { savePendingReceiptImage, clearPendingReceiptImage } from "@/lib/receiptStorage";
+
+// OCR解析結果の型は lib/receiptOcr.ts で定義（ビューからの参照用に再エクスポート）
+export type { OcrResult };
 
 /**
  * 処理状態の型
@@ -25,18 +37,6 @@ import { compressImageFile } from "@/lib/imageCompression";
  */
 export type ProcessingState = "idle" | "loading" | "success" | "error";
 
-/**
- * OCR解析結果の型
- * レシートから読み取った情報を格納
- */
-export interface OcrResult {
-  date: string | null;        // 購入日
-  amount: number | null;      // 金額
-  storeName: string | null;   // 店舗名
-  items: string | null;       // 品目
-  category: string | null;    // 勘定科目（自動推定）
-}
-
 /**
  * フックの戻り値の型
  * UIコンポーネントで使用する状態とアクションをまとめたもの
@@ -56,6 +56,7 @@ export interface UseReceiptScannerReturn {
   handleFileClick: () => void;
   handleNavigateToExpenseForm: () => void;
   handleManualEntry: () => void;
+  handleBatchEntry: () => void;
   handleClose: () => void;
   handleRetry: () => void;
 }
@@ -82,19 +83,6 @@ export function useReceiptScanner(onClose: () => void): UseReceiptScannerReturn
 
   // ===== ヘルパー関数 =====
 
-  /**
-   * 画像をBase64形式に変換する（非圧縮版、プレビュー用フォールバック）
-   * OCR APIに送信するために必要な形式
-   */
-  const convertImageToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = () => reject(new Error("画像の読み込みに失敗しました"));
-      reader.readAsDataURL(file);
-    });
-  };
-
   /**
    * 状態をリセットする
    * 再撮影やモーダルを閉じる時に使用
@@ -129,38 +117,16 @@ export function useReceiptScanner(onClose: () => void): UseReceiptScannerReturn
 
       // 画像を圧縮してBase64に変換（速度向上のキモ）
       // 圧縮に失敗した場合は非圧縮版にフォールバック
-      let base64Image: string;
-      try {
-        base64Image = await compressImageFile(file, {
-          maxWidth: 1200,
-          maxHeight: 1600,
-          quality: 0.85,
-        });
-      } catch {
-        // 圧縮失敗時は従来の方法でBase64変換
-        console.warn("画像圧縮に失敗。非圧縮版を使用します。");
-        base64Image = await convertImageToBase64(file);
-      }
+      const base64Image = await prepareReceiptImage(file);
 
       // プレビュー表示
       setImagePreview(base64Image);
 
       // OCR APIを呼び出し
-      const response = await fetch("/api/ocr", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ imageBase64: base64Image }),
-      });
-
-      const data = await response.json();
-
-      // エラーチェック
-      if (!response.ok) {
-        throw new Error(data.error || "OCR処理に失敗しました");
-      }
+      const result = await requestReceiptOcr(base64Image);
 
       // 成功した場合、結果を保存
-      setOcrResult(data.data);
+      setOcrResult(result);
       setProcessingState("success");
     } catch (error: unknown) {
       // エラーの場合
@@ -191,7 +157,7 @@ export function useReceiptScanner(onClose: () => void): UseReceiptScannerReturn
 
   /**
    * 経費登録画面に遷移
-   * OCR結果をURLパラメータとして渡す
+   * OCR結果をURLパラメータとして、レシート画像と明細行を sessionStorage で渡す
    */
   const handleNavigateToExpenseForm = () => {
     if (!ocrResult) return;
@@ -209,17 +175,37 @@ export function useReceiptScanner(onClose: () => void): UseReceiptScannerReturn
       params.set("category", ocrResult.category);
     }
 
+    // 消費税率と仕入先の登録番号（インボイス制度の仕入税額控除に使う）
+    const receiptTaxRate = getReceiptTaxRate(ocrResult);
+    if (receiptTaxRate !== null) {
+      params.set("taxRate", receiptTaxRate.toString());
+    }
+    if (ocrResult.invoiceRegistrationNumber) {
+      params.set("invoiceNumber", ocrResult.invoiceRegistrationNumber);
+    }
+
     // 店舗名と品目を組み合わせて摘要（description）を作成
-    const description = ocrResult.storeName
-      ? ocrResult.items
-        ? `${ocrResult.storeName}: ${ocrResult.items}`
-        : ocrResult.storeName
-      : ocrResult.items || "";
+    const description = buildOcrDescription(ocrResult);
 
     if (description) {
       params.set("description", description);
     }
 
+    // レシート画像は経費の登録時に証憑として保存するため、経費フォームに引き継ぐ
+    if (imagePreview) {
+      savePendingReceiptImage(imagePreview);
+    }
+
+    // 明細行は経費フォームで科目ごとに分割するために引き継ぐ
+    if (ocrResult.lineItems?.length) {
+      savePendingLineItems({
+        lineItems: ocrResult.lineItems,
+        pricesIncludeTax: ocrResult.pricesIncludeTax,
+      });
+    } else {
+      clearPendingLineItems();
+    }
+
     // モーダルを閉じて経費フォームに遷移
     onClose();
     router.push(`/expenses/new?${params.toString()}`);
@@ -230,10 +216,21 @@ export function useReceiptScanner(onClose: () => void): UseReceiptScannerReturn
    * OCR結果なしで経費フォームに遷移
    */
   const handleManualEntry = () => {
+    clearPendingReceiptImage();
+    clearPendingLineItems();
     onClose();
     router.push("/expenses/new");
   };
 
+  /**
+   * まとめて読み取るボタン
+   * 複数のレシートを一括で読み取る画面に遷移
+   */
+  const handleBatchEntry = () => {
+    onClose();
+    router.push("/expenses/batch");
+  };
+
   /**
    * モーダルを閉じる時に状態をリセット
    */
@@ -265,6 +262,7 @@ export function useReceiptScanner(onClose: () => void): UseReceiptScannerReturn
     handleFileClick,
     handleNavigateToExpenseForm,
     handleManualEntry,
+    handleBatchEntry,
     handleClose,
     handleRetry,
   };
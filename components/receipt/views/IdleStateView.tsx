@@ -7,6 +7,7 @@
  * - レシートスキャナーを開いた時に最初に表示される画面
  * - 「撮影する」「画像を選択」ボタンでレシート画像を取得
  * - 「手動で入力する」リンクでOCRをスキップして経費フォームへ
+ * - 「まとめて読み取る」リンクで複数レシートの一括読み取り画面へ
  */
 
 import { Camera, Image as ImageIcon } from "lucide-react";
@@ -19,12 +20,14 @@ interface IdleStateViewProps {
   onCameraClick: () => void;    // カメラ撮影ボタンクリック時
   onFileClick: () => void;      // 画像選択ボタンクリック時
   onManualEntry: () => void;    // 手動入力リンククリック時
+  onBatchEntry: () => void;     // 一括読み取りリンククリック時
 }
 
 export function IdleStateView({
   onCameraClick,
   onFileClick,
   onManualEntry,
+  onBatchEntry,
 }: IdleStateViewProps) {
   return (
     <div className="flex flex-col gap-4 items-center justify-center flex-1">
@@ -37,8 +40,11 @@ export function IdleStateView({
         onFileClick={onFileClick}
       />
 
-      {/* 手動入力リンク */}
-      <ManualEntryLink onClick={onManualEntry} />
+      {/* 手動入力・一括読み取りリンク */}
+      <div className="flex gap-6">
+        <ManualEntryLink onClick={onManualEntry} />
+        <BatchEntryLink onClick={onBatchEntry} />
+      </div>
     </div>
   );
 }
@@ -109,3 +115,22 @@ function ManualEntryLink({ onClick }: ManualEntryLinkProps) {
     </button>
   );
 }
+
+/**
+ * 一括読み取りリンク
+ * 月末などに複数のレシートをまとめて読み取る画面に遷移
+ */
+interface BatchEntryLinkProps {
+  onClick: () => void;
+}
+
+function BatchEntryLink({ onClick }: BatchEntryLinkProps) {
+  return (
+    <button
+      onClick={onClick}
+      className="text-sm text-green-600 hover:text-green-700 underline mt-2"
+    >
+      まとめて読み取る
+    </button>
+  );
+}
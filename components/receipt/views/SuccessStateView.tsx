@@ -127,6 +127,13 @@ function OcrResultCard({ result }: OcrResultCardProps) {
           fallback="その他"
         />
 
+        {/* 登録番号（インボイス制度の適格請求書発行事業者） */}
+        <ResultRow
+          label="登録番号"
+          value={result.invoiceRegistrationNumber}
+          fallback="記載なし"
+        />
+
         {/* 品目（ある場合のみ表示） */}
         {result.items && (
           <div className="flex justify-between">
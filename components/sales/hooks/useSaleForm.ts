@@ -0,0 +1,230 @@
+"use client";
+
+/**
+ * 売上フォームのロジックを管理するカスタムフック
+ *
+ * 責務:
+ * - フォーム状態の管理（入力値、エラー、成功状態など）
+ * - 作付けの候補の取得
+ * - フォーム送信処理（新規登録 または 既存売上の更新）
+ *
+ * ビジネス上の流れ:
+ * 1. ユーザーが作物名・出荷先・金額・消費税率などを入力
+ *    （作付けを選ぶと、作付けの作物名が作物名に入る）
+ * 2. 送信ボタンで売上データをDBに保存
+ * 3. RLS（行レベルセキュリティ）により、このユーザーのみがこのデータにアクセス可能
+ *
+ * 編集モード:
+ * - editingSale を渡すと、既存の売上を読み込んで更新する
+ * - 台帳画面（/sales）の行内編集で使用
+ */
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { getTodayInJapan } from "@/lib/dateUtils";
+import {
+  DEFAULT_SALE_TAX_RATE,
+  calculateIncludedTax,
+  toConsumptionTaxRate,
+} from "@/lib/consumptionTax";
+import { fetchPlantingOptions, type PlantingOption } from "@/lib/fieldMetrics";
+import type {
+  SaleFormData,
+  EditableSale,
+  UseSaleFormOptions,
+  UseSaleFormReturn,
+} from "../types";
+
+/**
+ * フォームの初期値を作成
+ */
+const createInitialFormData = (): SaleFormData => ({
+  date: getTodayInJapan(),
+  crop_name: "",
+  customer: "",
+  unit_price: "",
+  quantity: "",
+  amount: "",
+  tax_rate: String(DEFAULT_SALE_TAX_RATE),
+  planting_id: "",
+  payment_due_date: "",
+  description: "",
+});
+
+/**
+ * 編集対象の売上をフォームの入力値に変換する
+ */
+const toFormData = (sale: EditableSale): SaleFormData => ({
+  date: sale.date,
+  crop_name: sale.cropName,
+  customer: sale.customer,
+  unit_price: sale.unitPrice !== null ? String(sale.unitPrice) : "",
+  quantity: sale.quantity !== null ? String(sale.quantity) : "",
+  amount: String(sale.amount),
+  tax_rate: String(sale.taxRate),
+  planting_id: sale.plantingId || "",
+  payment_due_date: sale.paymentDueDate || "",
+  description: sale.description || "",
+});
+
+/**
+ * 売上総額（入力値）に含まれる消費税額を計算する
+ */
+const calculateTaxAmount = (formData: SaleFormData): number =>
+  calculateIncludedTax(
+    parseInt(formData.amount, 10) || 0,
+    toConsumptionTaxRate(formData.tax_rate, DEFAULT_SALE_TAX_RATE)
+  );
+
+/**
+ * 売上フォームのカスタムフック
+ *
+ * 使用例:
+ * ```
+ * const { formData, handleChange, handleSubmit } = useSaleForm();
+ *
+ * // 既存の売上を編集する場合
+ * const form = useSaleForm({ editingSale, onSaved: reloadList });
+ * ```
+ */
+export function useSaleForm(options: UseSaleFormOptions = {}): UseSaleFormReturn {
+  const { editingSale, onSaved } = options;
+  const router = useRouter();
+
+  // === 状態定義 ===
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+  const [formData, setFormData] = useState<SaleFormData>(() =>
+    editingSale ? toFormData(editingSale) : createInitialFormData()
+  );
+  const [plantingOptions, setPlantingOptions] = useState<PlantingOption[]>([]);
+
+  // 作付けの候補を取得（取得に失敗しても売上は登録できる）
+  useEffect(() => {
+    let isMounted = true;
+
+    fetchPlantingOptions(createSupabaseClient()).then((options) => {
+      if (isMounted) setPlantingOptions(options);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  /**
+   * テキスト入力フィールドの変更処理
+   * 作付けを選んだ場合は、作付けの作物名を作物名にも入れる
+   */
+  const handleChange = (
+    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ): void => {
+    const { name, value } = event.target;
+    const selectedPlanting =
+      name === "planting_id" ? plantingOptions.find((planting) => planting.id === value) : undefined;
+
+    setFormData((previousData) => ({
+      ...previousData,
+      [name]: value,
+      ...(selectedPlanting ? { crop_name: selectedPlanting.cropName } : {}),
+    }));
+  };
+
+  /**
+   * 売上フォームの送信処理
+   *
+   * ビジネス上の流れ:
+   * 1. ログインユーザーのIDを取得（セッション切れ対策）
+   * 2. 売上データにユーザーIDを付与してSupabaseに保存（編集モードなら更新）
+   * 3. 成功したらダッシュボードに遷移（onSaved 指定時はコールバックを呼ぶ）
+   */
+  const handleSubmit = async (event: React.FormEvent): Promise<void> => {
+    event.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSuccess(false);
+
+    try {
+      const supabase = createSupabaseClient();
+
+      // ログインユーザー情報を再取得（セッション切れ対策）
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+
+      if (userError || !user) {
+        throw new Error("ログインが必要です。再度ログインしてください。");
+      }
+
+      // 保存する売上データ
+      const saleValues = {
+        date: formData.date,
+        crop_name: formData.crop_name,
+        customer: formData.customer,
+        unit_price: formData.unit_price ? parseInt(formData.unit_price) : null,
+        quantity: formData.quantity ? parseInt(formData.quantity) : null,
+        amount: parseInt(formData.amount),
+        tax_rate: toConsumptionTaxRate(formData.tax_rate, DEFAULT_SALE_TAX_RATE),
+        tax_amount: calculateTaxAmount(formData),
+        planting_id: formData.planting_id || null,
+        payment_due_date: formData.payment_due_date || null,
+        description: formData.description || null,
+      };
+
+      if (editingSale) {
+        // 既存の売上を更新（RLSにより自分の売上のみ更新可能）
+        const { error: updateError } = await supabase
+          .from("sales")
+          .update(saleValues)
+          .eq("id", editingSale.id);
+
+        if (updateError) {
+          throw updateError;
+        }
+      } else {
+        // user_idを含めて売上データを登録
+        // RLSにより、自分のuser_idでのみ登録が許可される
+        const { error: insertError } = await supabase
+          .from("sales")
+          .insert({ user_id: user.id, ...saleValues });
+
+        if (insertError) {
+          throw insertError;
+        }
+      }
+
+      setSuccess(true);
+
+      // 呼び出し元が保存後の処理を指定している場合はそちらに任せる
+      if (onSaved) {
+        onSaved();
+        return;
+      }
+
+      setTimeout(() => {
+        router.push("/dashboard");
+      }, 1500);
+    } catch (caughtError: unknown) {
+      const errorMessage =
+        caughtError instanceof Error ? caughtError.message : "エラーが発生しました";
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    formData,
+    loading,
+    error,
+    success,
+    isEditMode: Boolean(editingSale),
+    taxAmount: calculateTaxAmount(formData),
+    plantingOptions,
+    handleChange,
+    handleSubmit,
+  };
+}
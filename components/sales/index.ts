@@ -0,0 +1,19 @@
+/**
+ * 売上コンポーネントのエクスポート
+ *
+ * 売上登録フォームと台帳の行内編集で使用するコンポーネント・フックをまとめてエクスポート
+ */
+
+// 型定義
+export type {
+  SaleFormData,
+  EditableSale,
+  UseSaleFormOptions,
+  UseSaleFormReturn,
+} from "./types";
+
+// カスタムフック
+export { useSaleForm } from "./hooks/useSaleForm";
+
+// Viewコンポーネント
+export { SaleFormFields } from "./views/SaleFormFields";
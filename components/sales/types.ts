@@ -0,0 +1,73 @@
+/**
+ * 売上フォームで使用する型定義
+ *
+ * 売上登録ページ（/sales/new）と売上台帳（/sales）の行内編集で共有します。
+ */
+
+import type { PlantingOption } from "@/lib/fieldMetrics";
+
+/**
+ * フォームの入力データの型
+ * 入力中は全て文字列で保持し、保存時に数値へ変換する
+ */
+export interface SaleFormData {
+  date: string;        // 日付（YYYY-MM-DD形式）
+  crop_name: string;   // 作物名
+  customer: string;    // 出荷先/取引先
+  unit_price: string;  // 単価（任意）
+  quantity: string;    // 数量（任意）
+  amount: string;      // 売上総額（税込）
+  tax_rate: string;    // 消費税率（"8" / "10" / "0"）
+  planting_id: string; // 作付けのID（紐付けない場合は空）
+  payment_due_date: string; // 入金予定日（YYYY-MM-DD形式、任意）
+  description: string; // 摘要/メモ
+}
+
+/**
+ * 編集対象の売上データの型
+ * 台帳画面から既存の売上を修正するときに useSaleForm へ渡す
+ */
+export interface EditableSale {
+  id: string;
+  date: string;
+  cropName: string;
+  customer: string;
+  unitPrice: number | null;
+  quantity: number | null;
+  amount: number;
+  taxRate: number;     // 消費税率（8 / 10 / 0）
+  plantingId: string | null; // 作付けのID
+  paymentDueDate: string | null; // 入金予定日（掛け売りで後から入金される場合）
+  description: string | null;
+}
+
+/**
+ * useSaleForm カスタムフックのオプション
+ * 何も指定しなければ「新規登録」として動作する
+ */
+export interface UseSaleFormOptions {
+  /** 編集対象の売上（指定すると更新モードになる） */
+  editingSale?: EditableSale;
+  /** 保存完了時のコールバック（指定するとダッシュボードへ遷移しない） */
+  onSaved?: () => void;
+}
+
+/**
+ * useSaleForm カスタムフックの戻り値の型
+ */
+export interface UseSaleFormReturn {
+  // === 状態 ===
+  formData: SaleFormData;    // フォームの入力値
+  loading: boolean;          // 送信中フラグ
+  error: string | null;      // エラーメッセージ
+  success: boolean;          // 保存成功フラグ
+  isEditMode: boolean;       // 既存の売上を編集中かどうか
+  taxAmount: number;         // 売上総額に含まれる消費税額
+  plantingOptions: PlantingOption[]; // 作付けの候補（設定画面で登録した作付け）
+
+  // === イベントハンドラー ===
+  handleChange: (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => void;
+  handleSubmit: (e: React.FormEvent) => Promise<void>;
+}
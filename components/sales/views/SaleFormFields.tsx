@@ -0,0 +1,207 @@
+/**
+ * 売上フォームの入力フィールド
+ *
+ * 売上登録ページと台帳画面の行内編集の両方で使用する
+ * - 日付 / 作付け（任意）/ 作物名 / 出荷先
+ * - 単価 / 数量（任意）
+ * - 売上総額 / 消費税率 / 摘要
+ */
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CONSUMPTION_TAX_RATE_OPTIONS } from "@/lib/consumptionTax";
+import { formatPlantingLabel, type PlantingOption } from "@/lib/fieldMetrics";
+import type { SaleFormData } from "../types";
+
+/**
+ * 売上フォームフィールドのプロパティ
+ */
+interface SaleFormFieldsProps {
+  formData: SaleFormData;
+  onChange: (
+    event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => void;
+  /** 売上総額に含まれる消費税額（「うち消費税」として表示） */
+  taxAmount: number;
+  /** 作付けの候補（設定画面で登録した作付け） */
+  plantingOptions: PlantingOption[];
+  /** 行内編集用のコンパクト表示（2列グリッド・摘要を小さく） */
+  compact?: boolean;
+}
+
+/**
+ * 売上フォームの入力フィールド一式
+ */
+export function SaleFormFields({
+  formData,
+  onChange,
+  taxAmount,
+  plantingOptions,
+  compact = false,
+}: SaleFormFieldsProps) {
+  return (
+    <div className={compact ? "grid grid-cols-1 sm:grid-cols-2 gap-4" : "space-y-6"}>
+      {/* 日付 */}
+      <div className="space-y-2">
+        <Label htmlFor="date">日付 *</Label>
+        <Input
+          id="date"
+          name="date"
+          type="date"
+          value={formData.date}
+          onChange={onChange}
+          required
+          className="w-full"
+        />
+      </div>
+
+      {/* 作付け（任意）: 選ぶと作物名が入り、圃場の10アール当たりの集計に使われる */}
+      {plantingOptions.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="planting_id">作付け（任意）</Label>
+          <select
+            id="planting_id"
+            name="planting_id"
+            value={formData.planting_id}
+            onChange={onChange}
+            className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+          >
+            <option value="">紐付けない</option>
+            {plantingOptions.map((planting) => (
+              <option key={planting.id} value={planting.id}>
+                {formatPlantingLabel(planting)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* 作物名 */}
+      <div className="space-y-2">
+        <Label htmlFor="crop_name">作物名 *</Label>
+        <Input
+          id="crop_name"
+          name="crop_name"
+          type="text"
+          value={formData.crop_name}
+          onChange={onChange}
+          placeholder="例: トマト, キュウリ"
+          required
+          className="w-full"
+        />
+      </div>
+
+      {/* 出荷先/取引先 */}
+      <div className="space-y-2">
+        <Label htmlFor="customer">出荷先/取引先 *</Label>
+        <Input
+          id="customer"
+          name="customer"
+          type="text"
+          value={formData.customer}
+          onChange={onChange}
+          placeholder="例: 〇〇農協, 〇〇スーパー"
+          required
+          className="w-full"
+        />
+      </div>
+
+      {/* 単価（オプション） */}
+      <div className="space-y-2">
+        <Label htmlFor="unit_price">単価（オプション）</Label>
+        <Input
+          id="unit_price"
+          name="unit_price"
+          type="number"
+          value={formData.unit_price}
+          onChange={onChange}
+          placeholder="例: 500"
+          min="0"
+          className="w-full"
+        />
+      </div>
+
+      {/* 数量（オプション） */}
+      <div className="space-y-2">
+        <Label htmlFor="quantity">数量（オプション）</Label>
+        <Input
+          id="quantity"
+          name="quantity"
+          type="number"
+          value={formData.quantity}
+          onChange={onChange}
+          placeholder="例: 100"
+          min="0"
+          className="w-full"
+        />
+      </div>
+
+      {/* 売上総額 */}
+      <div className="space-y-2">
+        <Label htmlFor="amount">売上総額 *</Label>
+        <Input
+          id="amount"
+          name="amount"
+          type="number"
+          value={formData.amount}
+          onChange={onChange}
+          placeholder="例: 50000"
+          required
+          min="0"
+          className="w-full"
+        />
+      </div>
+
+      {/* 消費税率（農産物は軽減税率8%、農作業の受託収入などは10%） */}
+      <div className="space-y-2">
+        <Label htmlFor="tax_rate">消費税率</Label>
+        <select
+          id="tax_rate"
+          name="tax_rate"
+          value={formData.tax_rate}
+          onChange={onChange}
+          className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+        >
+          {CONSUMPTION_TAX_RATE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500">
+          うち消費税 {taxAmount.toLocaleString("ja-JP")}円
+        </p>
+      </div>
+
+      {/* 入金予定日（JAの精算・市場の締め日払いなど、後から入金される売上） */}
+      <div className="space-y-2">
+        <Label htmlFor="payment_due_date">入金予定日（任意）</Label>
+        <Input
+          id="payment_due_date"
+          name="payment_due_date"
+          type="date"
+          value={formData.payment_due_date}
+          onChange={onChange}
+          className="w-full"
+        />
+        <p className="text-xs text-gray-500">
+          後から入金される場合に入力すると、資金繰りの見通しに反映されます
+        </p>
+      </div>
+
+      {/* 摘要/メモ */}
+      <div className={compact ? "space-y-2 sm:col-span-2" : "space-y-2"}>
+        <Label htmlFor="description">摘要/メモ</Label>
+        <textarea
+          id="description"
+          name="description"
+          value={formData.description}
+          onChange={onChange}
+          placeholder="メモがあれば入力してください"
+          rows={compact ? 2 : 4}
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        />
+      </div>
+    </div>
+  );
+}
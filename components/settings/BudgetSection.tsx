@@ -0,0 +1,346 @@
+"use client";
+
+/**
+ * 予算・売上目標の管理コンポーネント
+ *
+ * ビジネス上の役割:
+ * 勘定科目ごとの経費の予算と、作物ごとの売上目標を年・月単位で登録する
+ * 登録した予算は、分析画面の「予算と実績」で実績と比べられる
+ *
+ * 構造:
+ * - このファイル: 状態管理とビジネスロジック
+ * - budget/: UIを担当するサブコンポーネント群
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Check, Loader2, Plus, Target } from "lucide-react";
+import { fetchBudgetLines, MONTHS_IN_YEAR, saveBudgetLines, type BudgetLine } from "@/lib/budget";
+
+// サブコンポーネント（UIを担当）
+import { MessageAlerts } from "./expense-category";
+import { BudgetGrid, LoadingState } from "./budget";
+
+// 型定義
+import type { BudgetGridRow } from "./budget";
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface BudgetSectionProps {
+  /** 現在ログイン中のユーザーID */
+  userId: string;
+}
+
+/**
+ * 保存済みの月別金額を入力欄の値にする（0円は空欄）
+ */
+const toMonthValues = (monthlyAmounts?: number[]): string[] =>
+  Array.from({ length: MONTHS_IN_YEAR }, (_, index) => {
+    const amount = monthlyAmounts?.[index] ?? 0;
+    return amount > 0 ? String(amount) : "";
+  });
+
+/**
+ * 入力欄の値を月別金額にする（空欄・不正な値は0円）
+ */
+const toMonthlyAmounts = (months: string[]): number[] =>
+  months.map((value) => {
+    const amount = parseInt(value, 10);
+    return Number.isFinite(amount) && amount > 0 ? amount : 0;
+  });
+
+export function BudgetSection({ userId }: BudgetSectionProps) {
+  // ========================================
+  // 状態管理
+  // ========================================
+
+  const currentYear = new Date().getFullYear();
+  // 前年・今年・来年を選べる（初期値は今年）
+  const yearOptions = [currentYear - 1, currentYear, currentYear + 1];
+  const [year, setYear] = useState(currentYear);
+
+  // 勘定科目ごとの予算と作物ごとの売上目標
+  const [expenseRows, setExpenseRows] = useState<BudgetGridRow[]>([]);
+  const [saleRows, setSaleRows] = useState<BudgetGridRow[]>([]);
+  // 変更した行（"kind:key"）
+  const [changedKeys, setChangedKeys] = useState<Set<string>>(new Set());
+
+  // 売上目標に追加する作物名
+  const [newCropName, setNewCropName] = useState("");
+
+  // ローディング状態
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // メッセージ
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // ========================================
+  // データ取得
+  // ========================================
+
+  /**
+   * 選んだ年の予算と、入力表の行（勘定科目・作物）を取得する
+   * 作物は、売上目標を登録済みの作物と、前年・今年に売上のあった作物
+   */
+  const fetchBudgets = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      // RLSで現在の農場のデータのみ取得
+      const [budgetLines, categoriesResult, lastYearActuals, thisYearActuals] =
+        await Promise.all([
+          fetchBudgetLines(supabase, year),
+          supabase
+            .from("expense_categories")
+            .select("id, name")
+            .eq("is_active", true)
+            .order("display_order", { ascending: true }),
+          supabase.rpc("get_budget_actuals", { target_year: year - 1 }),
+          supabase.rpc("get_budget_actuals", { target_year: year }),
+        ]);
+
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (lastYearActuals.error) throw lastYearActuals.error;
+      if (thisYearActuals.error) throw thisYearActuals.error;
+
+      const budgetByKey = new Map(
+        budgetLines.map((line) => [`${line.kind}:${line.key}`, line.monthlyAmounts])
+      );
+      const soldCropNames = [lastYearActuals.data, thisYearActuals.data].flatMap(
+        (actuals) => ((actuals?.sales ?? []) as { crop_name: string }[]).map((row) => row.crop_name)
+      );
+      const cropNames = [
+        ...new Set([
+          ...budgetLines.filter((line) => line.kind === "sale").map((line) => line.key),
+          ...soldCropNames,
+        ]),
+      ];
+
+      setExpenseRows(
+        (categoriesResult.data || []).map((category) => ({
+          kind: "expense",
+          key: category.id,
+          label: category.name,
+          months: toMonthValues(budgetByKey.get(`expense:${category.id}`)),
+        }))
+      );
+      setSaleRows(
+        cropNames.map((cropName) => ({
+          kind: "sale",
+          key: cropName,
+          label: cropName,
+          months: toMonthValues(budgetByKey.get(`sale:${cropName}`)),
+        }))
+      );
+      setChangedKeys(new Set());
+    } catch (error) {
+      console.error("予算の取得エラー:", error);
+      setErrorMessage("予算の読み込みに失敗しました");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [year]);
+
+  // 初回読み込み・年の切り替え時
+  useEffect(() => {
+    if (userId) {
+      fetchBudgets();
+    }
+  }, [userId, fetchBudgets]);
+
+  // ========================================
+  // ヘルパー関数
+  // ========================================
+
+  /**
+   * 成功メッセージを表示（3秒後に自動で消す）
+   */
+  const showSuccessMessage = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  // ========================================
+  // イベントハンドラー
+  // ========================================
+
+  /**
+   * 入力表の行を変更する
+   */
+  const handleRowChange = (changedRow: BudgetGridRow) => {
+    const setRows = changedRow.kind === "expense" ? setExpenseRows : setSaleRows;
+    setRows((rows) => rows.map((row) => (row.key === changedRow.key ? changedRow : row)));
+    setChangedKeys((keys) => new Set(keys).add(`${changedRow.kind}:${changedRow.key}`));
+  };
+
+  /**
+   * 売上目標に作物を追加する
+   */
+  const handleAddCrop = () => {
+    const cropName = newCropName.trim();
+    if (!cropName) return;
+
+    if (saleRows.some((row) => row.key === cropName)) {
+      setErrorMessage("その作物はすでに表にあります");
+      return;
+    }
+
+    setSaleRows((rows) => [
+      ...rows,
+      { kind: "sale", key: cropName, label: cropName, months: toMonthValues() },
+    ]);
+    setNewCropName("");
+    setErrorMessage(null);
+  };
+
+  /**
+   * 変更した行の予算を保存する
+   */
+  const handleSave = async () => {
+    const lines: BudgetLine[] = [...expenseRows, ...saleRows]
+      .filter((row) => changedKeys.has(`${row.kind}:${row.key}`))
+      .map((row) => ({
+        kind: row.kind,
+        key: row.key,
+        monthlyAmounts: toMonthlyAmounts(row.months),
+      }));
+
+    if (lines.length === 0) {
+      showSuccessMessage("変更はありません");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      await saveBudgetLines(supabase, userId, year, lines);
+
+      setChangedKeys(new Set());
+      showSuccessMessage(`${year}年の予算を保存しました`);
+    } catch (error) {
+      console.error("予算の保存エラー:", error);
+      setErrorMessage("保存に失敗しました。再度お試しください。");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // ========================================
+  // レンダリング
+  // ========================================
+
+  // ローディング中の表示
+  if (isLoading) {
+    return <LoadingState />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Target className="h-5 w-5 text-green-600" />
+          予算・売上目標
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* メッセージエリア */}
+        <MessageAlerts
+          successMessage={successMessage}
+          errorMessage={errorMessage}
+        />
+
+        {/* 対象年と保存ボタン */}
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="budgetYear">対象年</Label>
+            <select
+              id="budgetYear"
+              value={year}
+              onChange={(event) => {
+                if (
+                  changedKeys.size > 0 &&
+                  !confirm("保存していない変更があります。年を切り替えますか？")
+                ) {
+                  return;
+                }
+                setYear(Number(event.target.value));
+              }}
+              className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+            >
+              {yearOptions.map((optionYear) => (
+                <option key={optionYear} value={optionYear}>
+                  {optionYear}年
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || changedKeys.size === 0}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Check className="h-4 w-4" />
+            )}
+            <span className="ml-1">保存</span>
+          </Button>
+        </div>
+
+        {/* 経費の予算 */}
+        <div className="space-y-2">
+          <h4 className="font-medium text-gray-900">経費の予算（勘定科目ごと）</h4>
+          <BudgetGrid rows={expenseRows} onRowChange={handleRowChange} />
+        </div>
+
+        {/* 売上目標 */}
+        <div className="space-y-2">
+          <h4 className="font-medium text-gray-900">売上目標（作物ごと）</h4>
+          {saleRows.length > 0 ? (
+            <BudgetGrid rows={saleRows} onRowChange={handleRowChange} />
+          ) : (
+            <p className="text-sm text-gray-500">
+              売上のある作物がまだありません。下の欄から作物を追加してください。
+            </p>
+          )}
+          <div className="flex gap-2 max-w-sm">
+            <Input
+              type="text"
+              placeholder="作物名（例：トマト）"
+              value={newCropName}
+              onChange={(event) => setNewCropName(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") handleAddCrop();
+              }}
+              aria-label="売上目標に追加する作物名"
+            />
+            <Button variant="outline" onClick={handleAddCrop}>
+              <Plus className="h-4 w-4" />
+              <span className="ml-1">追加</span>
+            </Button>
+          </div>
+        </div>
+
+        {/* 説明テキスト */}
+        <p className="text-xs text-gray-500">
+          ※ 年間の欄に金額を入れると、12か月に均等に割り振られます。季節で金額が変わる科目は月ごとに入力してください。作物名は売上の登録時と同じ表記にしてください。
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -89,11 +89,10 @@ export function ExpenseCategorySection({
 
       const supabase = createSupabaseClient();
 
-      // RLSで自分の勘定科目のみ取得、表示順でソート
+      // RLSで現在の農場の勘定科目のみ取得、表示順でソート
       const { data, error } = await supabase
         .from("expense_categories")
         .select("*")
-        .eq("user_id", userId)
         .eq("is_active", true)
         .order("display_order", { ascending: true });
 
@@ -117,7 +116,7 @@ export function ExpenseCategorySection({
     } finally {
       setIsLoading(false);
     }
-  }, [userId]);
+  }, []);
 
   // 初回読み込み
   useEffect(() => {
@@ -0,0 +1,475 @@
+"use client";
+
+/**
+ * 圃場管理コンポーネント
+ *
+ * ビジネス上の役割:
+ * 農家が管理する圃場（田んぼ・畑・ハウス）を面積つきで登録し、
+ * 圃場ごとの作付け（作物と作期）を管理する
+ * 登録した作付けは売上・経費の登録時に選択でき、分析画面の10アール当たりの集計に使われる
+ *
+ * 構造:
+ * - このファイル: 状態管理とビジネスロジック
+ * - field/: UIを担当するサブコンポーネント群
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MapPin, Plus } from "lucide-react";
+
+// サブコンポーネント（UIを担当）
+import { MessageAlerts } from "./expense-category";
+import {
+  FieldForm,
+  PlantingForm,
+  FieldCard,
+  EmptyState,
+  LoadingState,
+} from "./field";
+
+// 型定義
+import type { Field, Planting, FieldFormValues, PlantingFormValues } from "./field";
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface FieldSectionProps {
+  /** 現在ログイン中のユーザーID */
+  userId: string;
+}
+
+/** 新規追加中であることを表す編集ID */
+const NEW_ID = "new";
+
+const EMPTY_FIELD_FORM: FieldFormValues = { name: "", areaAre: "", locationNote: "" };
+const EMPTY_PLANTING_FORM: PlantingFormValues = { cropName: "", seasonStart: "", seasonEnd: "" };
+
+export function FieldSection({ userId }: FieldSectionProps) {
+  // ========================================
+  // 状態管理
+  // ========================================
+
+  // 圃場一覧（作付けを含む）
+  const [fields, setFields] = useState<Field[]>([]);
+
+  // ローディング状態
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 編集中の圃場（NEW_ID なら新規追加）
+  const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
+  const [fieldForm, setFieldForm] = useState<FieldFormValues>(EMPTY_FIELD_FORM);
+
+  // 編集中の作付け（plantingId が NEW_ID なら新規追加）
+  const [editingPlanting, setEditingPlanting] = useState<{
+    fieldId: string;
+    plantingId: string;
+  } | null>(null);
+  const [plantingForm, setPlantingForm] = useState<PlantingFormValues>(EMPTY_PLANTING_FORM);
+
+  // 削除中の圃場・作付けID
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // メッセージ
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // ========================================
+  // データ取得
+  // ========================================
+
+  /**
+   * 圃場一覧を作付けとあわせて取得する
+   */
+  const fetchFields = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      // RLSで自分の圃場のみ取得、表示順でソート
+      const { data, error } = await supabase
+        .from("fields")
+        .select(
+          "id, name, area_are, location_note, display_order, plantings(id, field_id, crop_name, season_start, season_end)"
+        )
+        .order("display_order", { ascending: true });
+
+      if (error) throw error;
+
+      // データを整形（作付けは新しい作期の順）
+      const formattedFields: Field[] =
+        data?.map((item) => ({
+          id: item.id,
+          name: item.name,
+          areaAre: Number(item.area_are),
+          locationNote: item.location_note,
+          displayOrder: item.display_order,
+          plantings: (item.plantings || [])
+            .map((planting: Record<string, string | null>) => ({
+              id: planting.id as string,
+              fieldId: planting.field_id as string,
+              cropName: planting.crop_name as string,
+              seasonStart: planting.season_start as string,
+              seasonEnd: planting.season_end,
+            }))
+            .sort((a: Planting, b: Planting) => b.seasonStart.localeCompare(a.seasonStart)),
+        })) || [];
+
+      setFields(formattedFields);
+    } catch (error) {
+      console.error("圃場取得エラー:", error);
+      setErrorMessage("圃場の読み込みに失敗しました");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // 初回読み込み
+  useEffect(() => {
+    if (userId) {
+      fetchFields();
+    }
+  }, [userId, fetchFields]);
+
+  // ========================================
+  // ヘルパー関数
+  // ========================================
+
+  /**
+   * 成功メッセージを表示（3秒後に自動で消す）
+   */
+  const showSuccessMessage = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  // ========================================
+  // イベントハンドラー: 圃場
+  // ========================================
+
+  /**
+   * 圃場の追加・編集を開始（field を省略すると新規追加）
+   */
+  const startFieldForm = (field?: Field) => {
+    setEditingPlanting(null);
+    setEditingFieldId(field ? field.id : NEW_ID);
+    setFieldForm(
+      field
+        ? {
+            name: field.name,
+            areaAre: String(field.areaAre),
+            locationNote: field.locationNote || "",
+          }
+        : EMPTY_FIELD_FORM
+    );
+  };
+
+  /**
+   * 圃場の追加・編集をキャンセル
+   */
+  const cancelFieldForm = () => {
+    setEditingFieldId(null);
+    setFieldForm(EMPTY_FIELD_FORM);
+  };
+
+  /**
+   * 圃場を保存する（新規追加 または 更新）
+   */
+  const handleSaveField = async () => {
+    if (!fieldForm.name.trim()) {
+      setErrorMessage("圃場名を入力してください");
+      return;
+    }
+    const areaAre = parseFloat(fieldForm.areaAre);
+    if (!Number.isFinite(areaAre) || areaAre < 0) {
+      setErrorMessage("面積は0以上の数値（アール）で入力してください");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      const fieldValues = {
+        name: fieldForm.name.trim(),
+        area_are: areaAre,
+        location_note: fieldForm.locationNote.trim() || null,
+      };
+
+      const isNew = editingFieldId === NEW_ID;
+      const { error } = isNew
+        ? await supabase.from("fields").insert({
+            user_id: userId,
+            ...fieldValues,
+            // 現在の最大表示順 + 1
+            display_order: Math.max(0, ...fields.map((field) => field.displayOrder)) + 1,
+          })
+        : await supabase.from("fields").update(fieldValues).eq("id", editingFieldId);
+
+      if (error) {
+        // 重複エラーの場合
+        if (error.code === "23505") {
+          setErrorMessage("同じ名前の圃場が既に存在します");
+          return;
+        }
+        throw error;
+      }
+
+      cancelFieldForm();
+      await fetchFields();
+      showSuccessMessage(isNew ? "圃場を追加しました" : "圃場を更新しました");
+    } catch (error) {
+      console.error("圃場保存エラー:", error);
+      setErrorMessage("保存に失敗しました。再度お試しください。");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 圃場を削除する
+   * 圃場の作付けも削除され、売上・経費からは作付けの紐付けだけが外れる
+   */
+  const handleDeleteField = async (field: Field) => {
+    if (
+      !confirm(
+        `「${field.name}」を削除しますか？\nこの圃場の作付けも削除されます（売上・経費は残ります）。`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setDeletingId(field.id);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      const { error } = await supabase.from("fields").delete().eq("id", field.id);
+
+      if (error) throw error;
+
+      await fetchFields();
+      showSuccessMessage("圃場を削除しました");
+    } catch (error) {
+      console.error("圃場削除エラー:", error);
+      setErrorMessage("削除に失敗しました。再度お試しください。");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  // ========================================
+  // イベントハンドラー: 作付け
+  // ========================================
+
+  /**
+   * 作付けの追加・編集を開始（planting を省略すると新規追加）
+   */
+  const startPlantingForm = (fieldId: string, planting?: Planting) => {
+    setEditingFieldId(null);
+    setEditingPlanting({ fieldId, plantingId: planting ? planting.id : NEW_ID });
+    setPlantingForm(
+      planting
+        ? {
+            cropName: planting.cropName,
+            seasonStart: planting.seasonStart,
+            seasonEnd: planting.seasonEnd || "",
+          }
+        : EMPTY_PLANTING_FORM
+    );
+  };
+
+  /**
+   * 作付けの追加・編集をキャンセル
+   */
+  const cancelPlantingForm = () => {
+    setEditingPlanting(null);
+    setPlantingForm(EMPTY_PLANTING_FORM);
+  };
+
+  /**
+   * 作付けを保存する（新規追加 または 更新）
+   */
+  const handleSavePlanting = async () => {
+    if (!editingPlanting) return;
+    if (!plantingForm.cropName.trim()) {
+      setErrorMessage("作物名を入力してください");
+      return;
+    }
+    if (!plantingForm.seasonStart) {
+      setErrorMessage("作期の開始日を入力してください");
+      return;
+    }
+    if (plantingForm.seasonEnd && plantingForm.seasonEnd < plantingForm.seasonStart) {
+      setErrorMessage("作期の終了日は開始日以降の日付を入力してください");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      const plantingValues = {
+        crop_name: plantingForm.cropName.trim(),
+        season_start: plantingForm.seasonStart,
+        season_end: plantingForm.seasonEnd || null,
+      };
+
+      const isNew = editingPlanting.plantingId === NEW_ID;
+      const { error } = isNew
+        ? await supabase.from("plantings").insert({
+            user_id: userId,
+            field_id: editingPlanting.fieldId,
+            ...plantingValues,
+          })
+        : await supabase
+            .from("plantings")
+            .update(plantingValues)
+            .eq("id", editingPlanting.plantingId);
+
+      if (error) throw error;
+
+      cancelPlantingForm();
+      await fetchFields();
+      showSuccessMessage(isNew ? "作付けを追加しました" : "作付けを更新しました");
+    } catch (error) {
+      console.error("作付け保存エラー:", error);
+      setErrorMessage("保存に失敗しました。再度お試しください。");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 作付けを削除する（売上・経費からは紐付けだけが外れる）
+   */
+  const handleDeletePlanting = async (plantingId: string) => {
+    if (!confirm("この作付けを削除しますか？\n紐付けた売上・経費は残ります。")) {
+      return;
+    }
+
+    try {
+      setDeletingId(plantingId);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      const { error } = await supabase.from("plantings").delete().eq("id", plantingId);
+
+      if (error) throw error;
+
+      await fetchFields();
+      showSuccessMessage("作付けを削除しました");
+    } catch (error) {
+      console.error("作付け削除エラー:", error);
+      setErrorMessage("削除に失敗しました。再度お試しください。");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  // ========================================
+  // レンダリング
+  // ========================================
+
+  // ローディング中の表示
+  if (isLoading) {
+    return <LoadingState />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <MapPin className="h-5 w-5 text-green-600" />
+          圃場管理
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* メッセージエリア */}
+        <MessageAlerts
+          successMessage={successMessage}
+          errorMessage={errorMessage}
+        />
+
+        {/* 圃場追加ボタン */}
+        <Button
+          onClick={() => startFieldForm()}
+          disabled={editingFieldId === NEW_ID}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          圃場を追加
+        </Button>
+
+        {/* 新規追加フォーム */}
+        {editingFieldId === NEW_ID && (
+          <FieldForm
+            title="新しい圃場"
+            values={fieldForm}
+            isSaving={isSaving}
+            onChange={setFieldForm}
+            onSubmit={handleSaveField}
+            onCancel={cancelFieldForm}
+          />
+        )}
+
+        {/* 圃場一覧 or 空状態 */}
+        {fields.length === 0 ? (
+          <EmptyState />
+        ) : (
+          <div className="space-y-3">
+            {fields.map((field) =>
+              editingFieldId === field.id ? (
+                <FieldForm
+                  key={field.id}
+                  title={`${field.name}を編集`}
+                  values={fieldForm}
+                  isSaving={isSaving}
+                  onChange={setFieldForm}
+                  onSubmit={handleSaveField}
+                  onCancel={cancelFieldForm}
+                />
+              ) : (
+                <FieldCard
+                  key={field.id}
+                  field={field}
+                  onEdit={() => startFieldForm(field)}
+                  onDelete={() => handleDeleteField(field)}
+                  onAddPlanting={() => startPlantingForm(field.id)}
+                  onEditPlanting={(planting) => startPlantingForm(field.id, planting)}
+                  onDeletePlanting={handleDeletePlanting}
+                  deletingId={deletingId}
+                  plantingForm={
+                    editingPlanting?.fieldId === field.id ? (
+                      <PlantingForm
+                        values={plantingForm}
+                        isSaving={isSaving}
+                        onChange={setPlantingForm}
+                        onSubmit={handleSavePlanting}
+                        onCancel={cancelPlantingForm}
+                      />
+                    ) : null
+                  }
+                />
+              )
+            )}
+          </div>
+        )}
+
+        {/* 説明テキスト */}
+        <p className="text-xs text-gray-500">
+          ※ 作付けは売上・経費の登録時に選択できます。分析画面では作付けごとに10アール（1反）当たりの収量・売上・経費を表示します。
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,401 @@
+"use client";
+
+/**
+ * 固定資産台帳の管理コンポーネント
+ *
+ * ビジネス上の役割:
+ * トラクター・ビニールハウス・防除機などの固定資産を登録し、
+ * 毎年の減価償却費を自動で計算して経費として作成する
+ * 計算した償却費は、青色申告決算書の「減価償却費の計算」欄にも使われる
+ *
+ * 構造:
+ * - このファイル: 状態管理とビジネスロジック
+ * - fixed-asset/: UIを担当するサブコンポーネント群
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { getTodayInJapan } from "@/lib/dateUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Plus, Tractor } from "lucide-react";
+import {
+  deleteFixedAsset,
+  listFixedAssets,
+  MAX_DECLINING_BALANCE_USEFUL_LIFE,
+  saveFixedAsset,
+  type FixedAsset,
+} from "@/lib/depreciation";
+
+// サブコンポーネント（UIを担当）
+import { MessageAlerts } from "./expense-category";
+import { FixedAssetForm, FixedAssetCard, EmptyState, LoadingState } from "./fixed-asset";
+
+// 型定義
+import type { CategoryOption, FixedAssetFormValues } from "./fixed-asset";
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface FixedAssetSectionProps {
+  /** 現在ログイン中のユーザーID */
+  userId: string;
+}
+
+/** 新規追加中であることを表す編集ID */
+const NEW_ID = "new";
+
+/** 初期値にする勘定科目（決算書の「減価償却費」欄の科目） */
+const DEPRECIATION_CATEGORY_NAME = "機械等減価償却費";
+
+/**
+ * 新規追加フォームの初期値（農業用設備・定額法・毎年作成）
+ * 経費の作成は今年の1月1日から（前年までの償却費は手入力済みのことが多いため）
+ */
+const createEmptyForm = (defaultCategoryId = ""): FixedAssetFormValues => ({
+  name: "",
+  quantity: "",
+  acquisitionDate: getTodayInJapan(),
+  acquisitionCost: "",
+  usefulLife: "7",
+  method: "straight_line",
+  businessUseRatio: "100",
+  disposalDate: "",
+  entryFrequency: "annual",
+  categoryId: defaultCategoryId,
+  entriesStartDate: `${new Date().getFullYear()}-01-01`,
+  note: "",
+});
+
+export function FixedAssetSection({ userId }: FixedAssetSectionProps) {
+  // ========================================
+  // 状態管理
+  // ========================================
+
+  // 固定資産の一覧と勘定科目の選択肢
+  const [assets, setAssets] = useState<FixedAsset[]>([]);
+  const [categoryOptions, setCategoryOptions] = useState<CategoryOption[]>([]);
+  const [categoryNameById, setCategoryNameById] = useState<Map<string, string>>(new Map());
+  // 新規追加時に選んでおく勘定科目
+  const [defaultCategoryId, setDefaultCategoryId] = useState("");
+
+  // ローディング状態
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 編集中の資産（NEW_ID なら新規追加）
+  const [editingAssetId, setEditingAssetId] = useState<string | null>(null);
+  const [assetForm, setAssetForm] = useState<FixedAssetFormValues>(() => createEmptyForm());
+
+  // 処理中（削除）の資産ID
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  // メッセージ
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // ========================================
+  // データ取得
+  // ========================================
+
+  /**
+   * 固定資産と勘定科目の選択肢を取得する
+   */
+  const fetchAssets = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      // RLSで現在の農場のデータのみ取得
+      const [fixedAssets, categoriesResult] = await Promise.all([
+        listFixedAssets(supabase),
+        supabase
+          .from("expense_categories")
+          .select("id, name, tax_form_line, is_active")
+          .order("display_order", { ascending: true }),
+      ]);
+
+      if (categoriesResult.error) throw categoriesResult.error;
+
+      // 選択肢は使用中の勘定科目のみ（登録済みの資産の科目名の表示には全ての科目を使う）
+      const allCategories = categoriesResult.data || [];
+      const categories = allCategories.filter((category) => category.is_active);
+      const depreciationCategory =
+        categories.find((category) => category.tax_form_line === "depreciation") ??
+        categories.find((category) => category.name === DEPRECIATION_CATEGORY_NAME);
+
+      setAssets(fixedAssets);
+      setCategoryOptions(categories.map(({ id, name }) => ({ id, name })));
+      setCategoryNameById(new Map(allCategories.map(({ id, name }) => [id, name])));
+      setDefaultCategoryId(depreciationCategory?.id ?? "");
+    } catch (error) {
+      console.error("固定資産の取得エラー:", error);
+      setErrorMessage("固定資産台帳の読み込みに失敗しました");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // 初回読み込み
+  useEffect(() => {
+    if (userId) {
+      fetchAssets();
+    }
+  }, [userId, fetchAssets]);
+
+  // ========================================
+  // ヘルパー関数
+  // ========================================
+
+  /**
+   * 成功メッセージを表示（3秒後に自動で消す）
+   */
+  const showSuccessMessage = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  // ========================================
+  // イベントハンドラー
+  // ========================================
+
+  /**
+   * 追加・編集を開始（asset を省略すると新規追加）
+   */
+  const startAssetForm = (asset?: FixedAsset) => {
+    setEditingAssetId(asset ? asset.id : NEW_ID);
+    setAssetForm(
+      asset
+        ? {
+            name: asset.name,
+            quantity: asset.quantity || "",
+            acquisitionDate: asset.acquisitionDate,
+            acquisitionCost: String(asset.acquisitionCost),
+            usefulLife: String(asset.usefulLife),
+            method: asset.method,
+            businessUseRatio: String(asset.businessUseRatio),
+            disposalDate: asset.disposalDate || "",
+            entryFrequency: asset.entryFrequency,
+            categoryId: asset.categoryId || "",
+            entriesStartDate: asset.entriesStartDate,
+            note: asset.note || "",
+          }
+        : createEmptyForm(defaultCategoryId)
+    );
+  };
+
+  /**
+   * 追加・編集をキャンセル
+   */
+  const cancelAssetForm = () => {
+    setEditingAssetId(null);
+    setAssetForm(createEmptyForm(defaultCategoryId));
+  };
+
+  /**
+   * 固定資産を保存する（新規追加 または 更新）
+   * 保存すると、今日までの償却費の経費が作成・修正される
+   */
+  const handleSaveAsset = async () => {
+    const acquisitionCost = parseInt(assetForm.acquisitionCost, 10);
+    const usefulLife = parseInt(assetForm.usefulLife, 10);
+    const businessUseRatio = parseInt(assetForm.businessUseRatio, 10);
+
+    if (!assetForm.name.trim()) {
+      setErrorMessage("資産の名称を入力してください");
+      return;
+    }
+    if (!assetForm.acquisitionDate) {
+      setErrorMessage("取得日を入力してください");
+      return;
+    }
+    if (!Number.isFinite(acquisitionCost) || acquisitionCost <= 0) {
+      setErrorMessage("取得価額は1円以上で入力してください");
+      return;
+    }
+    if (!Number.isFinite(usefulLife) || usefulLife < 2 || usefulLife > 50) {
+      setErrorMessage("耐用年数は2〜50年で入力してください");
+      return;
+    }
+    if (assetForm.method === "declining_balance" && usefulLife > MAX_DECLINING_BALANCE_USEFUL_LIFE) {
+      setErrorMessage(
+        `定率法は耐用年数${MAX_DECLINING_BALANCE_USEFUL_LIFE}年までの資産で選べます`
+      );
+      return;
+    }
+    if (!Number.isFinite(businessUseRatio) || businessUseRatio < 1 || businessUseRatio > 100) {
+      setErrorMessage("事業専用割合は1〜100%で入力してください");
+      return;
+    }
+    if (assetForm.disposalDate && assetForm.disposalDate < assetForm.acquisitionDate) {
+      setErrorMessage("除却・売却した日は取得日以降の日付を入力してください");
+      return;
+    }
+    if (!assetForm.categoryId) {
+      setErrorMessage("勘定科目を選択してください");
+      return;
+    }
+    if (!assetForm.entriesStartDate) {
+      setErrorMessage("経費の作成を始める日を入力してください");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      const isNew = editingAssetId === NEW_ID;
+
+      await saveFixedAsset(
+        supabase,
+        userId,
+        {
+          name: assetForm.name.trim(),
+          quantity: assetForm.quantity.trim() || null,
+          acquisitionDate: assetForm.acquisitionDate,
+          acquisitionCost,
+          usefulLife,
+          method: assetForm.method,
+          businessUseRatio,
+          disposalDate: assetForm.disposalDate || null,
+          entryFrequency: assetForm.entryFrequency,
+          categoryId: assetForm.categoryId,
+          entriesStartDate: assetForm.entriesStartDate,
+          note: assetForm.note.trim() || null,
+        },
+        isNew ? undefined : editingAssetId ?? undefined
+      );
+
+      cancelAssetForm();
+      await fetchAssets();
+      showSuccessMessage(isNew ? "固定資産を追加しました" : "固定資産を更新しました");
+    } catch (error) {
+      console.error("固定資産の保存エラー:", error);
+      setErrorMessage("保存に失敗しました。再度お試しください。");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 固定資産を削除する
+   * 作成済みの償却費の経費も削除される
+   */
+  const handleDeleteAsset = async (asset: FixedAsset) => {
+    if (
+      !confirm(
+        `「${asset.name}」を削除しますか？\nこの資産から作成した減価償却費の経費も削除されます。\n売却・廃棄した場合は、削除せずに「除却・売却した日」を入力してください。`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setProcessingId(asset.id);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      await deleteFixedAsset(supabase, asset.id);
+
+      await fetchAssets();
+      showSuccessMessage("固定資産を削除しました");
+    } catch (error) {
+      console.error("固定資産の削除エラー:", error);
+      setErrorMessage("削除に失敗しました。再度お試しください。");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  // ========================================
+  // レンダリング
+  // ========================================
+
+  // ローディング中の表示
+  if (isLoading) {
+    return <LoadingState />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Tractor className="h-5 w-5 text-green-600" />
+          固定資産台帳
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* メッセージエリア */}
+        <MessageAlerts
+          successMessage={successMessage}
+          errorMessage={errorMessage}
+        />
+
+        {/* 追加ボタン */}
+        <Button
+          onClick={() => startAssetForm()}
+          disabled={editingAssetId === NEW_ID}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          固定資産を追加
+        </Button>
+
+        {/* 新規追加フォーム */}
+        {editingAssetId === NEW_ID && (
+          <FixedAssetForm
+            title="新しい固定資産"
+            values={assetForm}
+            categoryOptions={categoryOptions}
+            isSaving={isSaving}
+            onChange={setAssetForm}
+            onSubmit={handleSaveAsset}
+            onCancel={cancelAssetForm}
+          />
+        )}
+
+        {/* 一覧 or 空状態 */}
+        {assets.length === 0 ? (
+          <EmptyState />
+        ) : (
+          <div className="space-y-3">
+            {assets.map((asset) =>
+              editingAssetId === asset.id ? (
+                <FixedAssetForm
+                  key={asset.id}
+                  title={`${asset.name}を編集`}
+                  values={assetForm}
+                  categoryOptions={categoryOptions}
+                  isSaving={isSaving}
+                  onChange={setAssetForm}
+                  onSubmit={handleSaveAsset}
+                  onCancel={cancelAssetForm}
+                />
+              ) : (
+                <FixedAssetCard
+                  key={asset.id}
+                  asset={asset}
+                  categoryName={
+                    asset.categoryId ? categoryNameById.get(asset.categoryId) ?? null : null
+                  }
+                  onEdit={() => startAssetForm(asset)}
+                  onDelete={() => handleDeleteAsset(asset)}
+                  isProcessing={processingId === asset.id}
+                />
+              )
+            )}
+          </div>
+        )}
+
+        {/* 説明テキスト */}
+        <p className="text-xs text-gray-500">
+          ※ 減価償却費は月割りで自動計算され、「経費の作成を始める日」以降の分が経費として登録されます。前年までの償却費を手入力している場合は、作成を始める日を今年の1月1日にしてください。登録した経費は資産の内容を変更すると作り直されるため、金額は経費の台帳ではなくこの台帳で修正してください。
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,433 @@
+"use client";
+
+/**
+ * 定期的な取引の管理コンポーネント
+ *
+ * ビジネス上の役割:
+ * 農地賃借料・保険料・共済掛金・リース料など、毎月・毎年決まって発生する経費・売上を登録する
+ * 登録した取引は予定日に「確認待ち」の経費・売上として自動で作成され、
+ * ダッシュボードで確定・スキップできる
+ *
+ * 構造:
+ * - このファイル: 状態管理とビジネスロジック
+ * - recurring-rule/: UIを担当するサブコンポーネント群
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { getTodayInJapan } from "@/lib/dateUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Plus, Repeat } from "lucide-react";
+import {
+  DEFAULT_EXPENSE_TAX_RATE,
+  DEFAULT_SALE_TAX_RATE,
+  normalizeInvoiceRegistrationNumber,
+  toConsumptionTaxRate,
+} from "@/lib/consumptionTax";
+import {
+  deleteRecurringRule,
+  listRecurringRules,
+  saveRecurringRule,
+  setRecurringRuleActive,
+  type RecurringRule,
+} from "@/lib/recurring";
+
+// サブコンポーネント（UIを担当）
+import { MessageAlerts } from "./expense-category";
+import {
+  RecurringRuleForm,
+  RecurringRuleCard,
+  EmptyState,
+  LoadingState,
+} from "./recurring-rule";
+
+// 型定義
+import type { CategoryOption, RecurringRuleFormValues } from "./recurring-rule";
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface RecurringRuleSectionProps {
+  /** 現在ログイン中のユーザーID */
+  userId: string;
+}
+
+/** 新規追加中であることを表す編集ID */
+const NEW_ID = "new";
+
+/**
+ * 新規追加フォームの初期値（毎月の経費）
+ */
+const createEmptyForm = (): RecurringRuleFormValues => ({
+  kind: "expense",
+  name: "",
+  frequency: "monthly",
+  dayOfMonth: "25",
+  monthOfYear: "1",
+  startDate: getTodayInJapan(),
+  endDate: "",
+  amount: "",
+  taxRate: String(DEFAULT_EXPENSE_TAX_RATE),
+  description: "",
+  categoryId: "",
+  invoiceRegistrationNumber: "",
+  cropName: "",
+  customer: "",
+});
+
+export function RecurringRuleSection({ userId }: RecurringRuleSectionProps) {
+  // ========================================
+  // 状態管理
+  // ========================================
+
+  // 定期的な取引の一覧と勘定科目の選択肢
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [categoryOptions, setCategoryOptions] = useState<CategoryOption[]>([]);
+
+  // ローディング状態
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 編集中のルール（NEW_ID なら新規追加）
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [ruleForm, setRuleForm] = useState<RecurringRuleFormValues>(createEmptyForm);
+
+  // 処理中（一時停止・削除）のルールID
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  // メッセージ
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // ========================================
+  // データ取得
+  // ========================================
+
+  /**
+   * 定期的な取引と勘定科目の選択肢を取得する
+   */
+  const fetchRules = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      // RLSで現在の農場のデータのみ取得
+      const [recurringRules, categoriesResult] = await Promise.all([
+        listRecurringRules(supabase),
+        supabase
+          .from("expense_categories")
+          .select("id, name")
+          .eq("is_active", true)
+          .order("display_order", { ascending: true }),
+      ]);
+
+      if (categoriesResult.error) throw categoriesResult.error;
+
+      setRules(recurringRules);
+      setCategoryOptions(categoriesResult.data || []);
+    } catch (error) {
+      console.error("定期的な取引の取得エラー:", error);
+      setErrorMessage("定期的な取引の読み込みに失敗しました");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // 初回読み込み
+  useEffect(() => {
+    if (userId) {
+      fetchRules();
+    }
+  }, [userId, fetchRules]);
+
+  // ========================================
+  // ヘルパー関数
+  // ========================================
+
+  /**
+   * 成功メッセージを表示（3秒後に自動で消す）
+   */
+  const showSuccessMessage = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  // ========================================
+  // イベントハンドラー
+  // ========================================
+
+  /**
+   * 追加・編集を開始（rule を省略すると新規追加）
+   */
+  const startRuleForm = (rule?: RecurringRule) => {
+    setEditingRuleId(rule ? rule.id : NEW_ID);
+    setRuleForm(
+      rule
+        ? {
+            kind: rule.kind,
+            name: rule.name,
+            frequency: rule.frequency,
+            dayOfMonth: String(rule.dayOfMonth),
+            monthOfYear: String(rule.monthOfYear ?? 1),
+            startDate: rule.startDate,
+            endDate: rule.endDate || "",
+            amount: String(rule.amount),
+            taxRate: String(rule.taxRate),
+            description: rule.description || "",
+            categoryId: rule.categoryId || "",
+            invoiceRegistrationNumber: rule.invoiceRegistrationNumber || "",
+            cropName: rule.cropName || "",
+            customer: rule.customer || "",
+          }
+        : createEmptyForm()
+    );
+  };
+
+  /**
+   * 追加・編集をキャンセル
+   */
+  const cancelRuleForm = () => {
+    setEditingRuleId(null);
+    setRuleForm(createEmptyForm());
+  };
+
+  /**
+   * フォームの入力値を変更する
+   * 種類を切り替えた場合は、税率を経費・売上それぞれの初期値にする
+   */
+  const handleFormChange = (values: RecurringRuleFormValues) => {
+    if (values.kind !== ruleForm.kind) {
+      values = {
+        ...values,
+        taxRate: String(values.kind === "expense" ? DEFAULT_EXPENSE_TAX_RATE : DEFAULT_SALE_TAX_RATE),
+      };
+    }
+    setRuleForm(values);
+  };
+
+  /**
+   * 定期的な取引を保存する（新規追加 または 更新）
+   */
+  const handleSaveRule = async () => {
+    const isExpense = ruleForm.kind === "expense";
+    const amount = parseInt(ruleForm.amount, 10);
+    const category = categoryOptions.find((option) => option.id === ruleForm.categoryId);
+    const invoiceRegistrationNumber = normalizeInvoiceRegistrationNumber(
+      ruleForm.invoiceRegistrationNumber
+    );
+
+    if (!ruleForm.name.trim()) {
+      setErrorMessage("名前を入力してください");
+      return;
+    }
+    if (!ruleForm.startDate) {
+      setErrorMessage("開始日を入力してください");
+      return;
+    }
+    if (ruleForm.endDate && ruleForm.endDate < ruleForm.startDate) {
+      setErrorMessage("終了日は開始日以降の日付を入力してください");
+      return;
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setErrorMessage("金額は1円以上で入力してください");
+      return;
+    }
+    if (isExpense && !category) {
+      setErrorMessage("勘定科目を選択してください");
+      return;
+    }
+    if (isExpense && ruleForm.invoiceRegistrationNumber.trim() && !invoiceRegistrationNumber) {
+      setErrorMessage("登録番号は「T＋13桁の数字」で入力してください");
+      return;
+    }
+    if (!isExpense && (!ruleForm.cropName.trim() || !ruleForm.customer.trim())) {
+      setErrorMessage("作物名と出荷先を入力してください");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      const isNew = editingRuleId === NEW_ID;
+
+      await saveRecurringRule(
+        supabase,
+        userId,
+        {
+          kind: ruleForm.kind,
+          name: ruleForm.name.trim(),
+          frequency: ruleForm.frequency,
+          dayOfMonth: parseInt(ruleForm.dayOfMonth, 10),
+          monthOfYear: ruleForm.frequency === "yearly" ? parseInt(ruleForm.monthOfYear, 10) : null,
+          startDate: ruleForm.startDate,
+          endDate: ruleForm.endDate || null,
+          amount,
+          taxRate: toConsumptionTaxRate(
+            ruleForm.taxRate,
+            isExpense ? DEFAULT_EXPENSE_TAX_RATE : DEFAULT_SALE_TAX_RATE
+          ),
+          description: ruleForm.description.trim() || null,
+          category: category?.name ?? null,
+          categoryId: category?.id ?? null,
+          invoiceRegistrationNumber,
+          cropName: ruleForm.cropName.trim() || null,
+          customer: ruleForm.customer.trim() || null,
+        },
+        isNew ? undefined : editingRuleId ?? undefined
+      );
+
+      cancelRuleForm();
+      await fetchRules();
+      showSuccessMessage(isNew ? "定期的な取引を追加しました" : "定期的な取引を更新しました");
+    } catch (error) {
+      console.error("定期的な取引の保存エラー:", error);
+      setErrorMessage("保存に失敗しました。再度お試しください。");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 一時停止・再開する
+   * 再開した場合は、一時停止中の予定日の分は作成されない
+   */
+  const handleToggleActive = async (rule: RecurringRule) => {
+    try {
+      setProcessingId(rule.id);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      await setRecurringRuleActive(supabase, rule.id, !rule.isActive);
+
+      await fetchRules();
+      showSuccessMessage(rule.isActive ? "一時停止しました" : "再開しました");
+    } catch (error) {
+      console.error("定期的な取引の更新エラー:", error);
+      setErrorMessage(error instanceof Error ? error.message : "更新に失敗しました");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  /**
+   * 定期的な取引を削除する
+   * 作成済みの経費・売上は残る
+   */
+  const handleDeleteRule = async (rule: RecurringRule) => {
+    if (
+      !confirm(
+        `「${rule.name}」を削除しますか？\n作成済みの経費・売上は削除されません。`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setProcessingId(rule.id);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+      await deleteRecurringRule(supabase, rule.id);
+
+      await fetchRules();
+      showSuccessMessage("定期的な取引を削除しました");
+    } catch (error) {
+      console.error("定期的な取引の削除エラー:", error);
+      setErrorMessage("削除に失敗しました。再度お試しください。");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  // ========================================
+  // レンダリング
+  // ========================================
+
+  // ローディング中の表示
+  if (isLoading) {
+    return <LoadingState />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Repeat className="h-5 w-5 text-green-600" />
+          定期的な取引
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* メッセージエリア */}
+        <MessageAlerts
+          successMessage={successMessage}
+          errorMessage={errorMessage}
+        />
+
+        {/* 追加ボタン */}
+        <Button
+          onClick={() => startRuleForm()}
+          disabled={editingRuleId === NEW_ID}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          定期的な取引を追加
+        </Button>
+
+        {/* 新規追加フォーム */}
+        {editingRuleId === NEW_ID && (
+          <RecurringRuleForm
+            title="新しい定期的な取引"
+            values={ruleForm}
+            categoryOptions={categoryOptions}
+            isSaving={isSaving}
+            onChange={handleFormChange}
+            onSubmit={handleSaveRule}
+            onCancel={cancelRuleForm}
+          />
+        )}
+
+        {/* 一覧 or 空状態 */}
+        {rules.length === 0 ? (
+          <EmptyState />
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) =>
+              editingRuleId === rule.id ? (
+                <RecurringRuleForm
+                  key={rule.id}
+                  title={`${rule.name}を編集`}
+                  values={ruleForm}
+                  categoryOptions={categoryOptions}
+                  isSaving={isSaving}
+                  onChange={handleFormChange}
+                  onSubmit={handleSaveRule}
+                  onCancel={cancelRuleForm}
+                />
+              ) : (
+                <RecurringRuleCard
+                  key={rule.id}
+                  rule={rule}
+                  onEdit={() => startRuleForm(rule)}
+                  onToggleActive={() => handleToggleActive(rule)}
+                  onDelete={() => handleDeleteRule(rule)}
+                  isProcessing={processingId === rule.id}
+                />
+              )
+            )}
+          </div>
+        )}
+
+        {/* 説明テキスト */}
+        <p className="text-xs text-gray-500">
+          ※ 予定日になると「確認待ち」の経費・売上として自動で登録されます。ダッシュボードで内容を確認し、確定またはスキップしてください。開始日が過去の場合は、過去の予定日の分もまとめて登録されます。
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
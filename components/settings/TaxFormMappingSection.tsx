@@ -0,0 +1,187 @@
+"use client";
+
+/**
+ * 決算書の科目対応セクション
+ *
+ * ビジネス上の役割:
+ * ユーザーが登録した勘定科目を、青色申告決算書（農業所得用）の
+ * どの経費欄（種苗費、肥料費、農薬衛生費など）に計上するかを設定する
+ *
+ * 設定の考え方:
+ * - 「自動」のままなら、科目名から推定した経費欄（推定できなければ雑費）に計上
+ * - 経費欄を選ぶと、その設定が優先される
+ * - 選択を変更した時点で保存される
+ */
+
+import { useState, useEffect } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { FileText, Loader2 } from "lucide-react";
+import {
+  TAX_FORM_EXPENSE_LINES,
+  getTaxFormLineLabel,
+  resolveTaxFormLine,
+  type TaxFormLine,
+} from "@/lib/taxReturn";
+
+/**
+ * 対応付けの対象となる勘定科目
+ */
+interface CategoryTaxFormLine {
+  id: string;
+  name: string;
+  /** 設定画面で選ばれた経費欄（未設定なら null = 自動） */
+  taxFormLine: TaxFormLine | null;
+}
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface TaxFormMappingSectionProps {
+  /** 現在ログイン中のユーザーID */
+  userId: string;
+}
+
+export function TaxFormMappingSection({ userId }: TaxFormMappingSectionProps) {
+  const [categories, setCategories] = useState<CategoryTaxFormLine[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  /**
+   * コンポーネントマウント時に勘定科目を取得
+   */
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        setIsLoading(true);
+        setErrorMessage(null);
+
+        const supabase = createSupabaseClient();
+
+        // 有効な勘定科目を表示順で取得（RLSで現在の農場のデータのみ）
+        const { data, error } = await supabase
+          .from("expense_categories")
+          .select("id, name, tax_form_line")
+          .eq("is_active", true)
+          .order("display_order", { ascending: true });
+
+        if (error) throw error;
+
+        setCategories(
+          (data || []).map((category) => ({
+            id: category.id,
+            name: category.name,
+            taxFormLine: category.tax_form_line,
+          }))
+        );
+      } catch (error) {
+        console.error("勘定科目取得エラー:", error);
+        setErrorMessage("勘定科目の読み込みに失敗しました");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (userId) {
+      fetchCategories();
+    }
+  }, [userId]);
+
+  /**
+   * 経費欄の選択を保存する
+   *
+   * @param categoryId - 勘定科目ID
+   * @param selectedValue - 選択された経費欄（空文字は「自動」）
+   */
+  const handleLineChange = async (categoryId: string, selectedValue: string) => {
+    const taxFormLine = selectedValue === "" ? null : (selectedValue as TaxFormLine);
+
+    try {
+      setSavingId(categoryId);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      const { error } = await supabase
+        .from("expense_categories")
+        .update({ tax_form_line: taxFormLine })
+        .eq("id", categoryId);
+
+      if (error) throw error;
+
+      setCategories((previousCategories) =>
+        previousCategories.map((category) =>
+          category.id === categoryId ? { ...category, taxFormLine } : category
+        )
+      );
+    } catch (error) {
+      console.error("科目対応の保存エラー:", error);
+      setErrorMessage("保存に失敗しました。再度お試しください。");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileText className="h-5 w-5 text-green-600" />
+          決算書の科目対応
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          青色申告決算書の作成時に、各勘定科目をどの経費欄に計上するかを設定します
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* エラーメッセージ */}
+        {errorMessage && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {errorMessage}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+            <span className="ml-2 text-gray-600">読み込み中...</span>
+          </div>
+        ) : categories.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">勘定科目が登録されていません</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {categories.map((category) => (
+              <div
+                key={category.id}
+                className="flex items-center justify-between gap-3 px-3 py-2"
+              >
+                <span className="font-medium text-sm">{category.name}</span>
+                <div className="flex items-center gap-2">
+                  {savingId === category.id && (
+                    <Loader2 className="h-4 w-4 animate-spin text-green-600" />
+                  )}
+                  <select
+                    value={category.taxFormLine || ""}
+                    onChange={(event) => handleLineChange(category.id, event.target.value)}
+                    disabled={savingId === category.id}
+                    className="h-9 w-44 rounded-md border border-input bg-background px-2 text-sm"
+                  >
+                    <option value="">
+                      自動（{getTaxFormLineLabel(resolveTaxFormLine(category.name, null))}）
+                    </option>
+                    {TAX_FORM_EXPENSE_LINES.map((line) => (
+                      <option key={line.key} value={line.key}>
+                        {line.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -61,11 +61,10 @@ export function UserProfileSection({ userId }: UserProfileSectionProps) {
 
         const supabase = createSupabaseClient();
 
-        // ユーザーのプロフィールを取得（RLSで自分のデータのみ取得）
+        // 現在の農場のプロフィールを取得（RLSで現在の農場のデータのみ取得）
         const { data, error } = await supabase
           .from("user_profiles")
           .select("*")
-          .eq("user_id", userId)
           .single();
 
         if (error && error.code !== "PGRST116") {
@@ -0,0 +1,110 @@
+/**
+ * 予算の入力表（グリッド）コンポーネント
+ *
+ * ビジネス上の役割:
+ * 勘定科目・作物ごとに、年間と1月〜12月の予算（売上目標）を入力する表
+ * - 年間の金額を入力すると、12か月に均等に割り振る
+ * - 月別の金額を入力すると、年間はその合計になる
+ */
+
+import { Input } from "@/components/ui/input";
+import { MONTHS_IN_YEAR, spreadAnnualAmount } from "@/lib/budget";
+import type { BudgetGridRow } from "./types";
+
+interface BudgetGridProps {
+  /** 表の行（勘定科目または作物） */
+  rows: BudgetGridRow[];
+  /** 行の金額が変更された時のコールバック */
+  onRowChange: (row: BudgetGridRow) => void;
+}
+
+/** 月の見出し */
+const MONTH_LABELS = Array.from({ length: MONTHS_IN_YEAR }, (_, index) => `${index + 1}月`);
+
+/**
+ * 入力値を金額に変換する（空欄・不正な値は0円）
+ */
+const toAmount = (value: string): number => {
+  const amount = parseInt(value, 10);
+  return Number.isFinite(amount) && amount > 0 ? amount : 0;
+};
+
+export function BudgetGrid({ rows, onRowChange }: BudgetGridProps) {
+  const headerCellClassName = "px-2 py-2 text-right font-medium text-gray-600 whitespace-nowrap";
+  const inputClassName = "h-8 w-24 text-right";
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full min-w-[1200px] text-sm">
+        <thead className="border-b bg-gray-50">
+          <tr>
+            <th className="px-2 py-2 text-left font-medium text-gray-600 sticky left-0 bg-gray-50">
+              {rows[0]?.kind === "sale" ? "作物" : "勘定科目"}
+            </th>
+            <th className={headerCellClassName}>年間</th>
+            {MONTH_LABELS.map((label) => (
+              <th key={label} className={headerCellClassName}>
+                {label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const annualAmount = row.months.reduce((sum, value) => sum + toAmount(value), 0);
+
+            return (
+              <tr key={row.key} className="border-b last:border-b-0">
+                <td className="px-2 py-1 font-medium whitespace-nowrap sticky left-0 bg-white">
+                  {row.label}
+                </td>
+                <td className="px-2 py-1">
+                  <Input
+                    // 月別の入力で年間が変わったら入力欄を作り直す
+                    key={`${row.key}-${annualAmount}`}
+                    type="number"
+                    inputMode="numeric"
+                    min="0"
+                    defaultValue={annualAmount || ""}
+                    onBlur={(event) => {
+                      const nextAnnualAmount = toAmount(event.target.value);
+                      if (nextAnnualAmount === annualAmount) return;
+                      onRowChange({
+                        ...row,
+                        months: spreadAnnualAmount(nextAnnualAmount).map((amount) =>
+                          amount > 0 ? String(amount) : ""
+                        ),
+                      });
+                    }}
+                    className={`${inputClassName} font-semibold`}
+                    aria-label={`${row.label}の年間`}
+                  />
+                </td>
+                {row.months.map((value, monthIndex) => (
+                  <td key={monthIndex} className="px-2 py-1">
+                    <Input
+                      type="number"
+                      inputMode="numeric"
+                      min="0"
+                      value={value}
+                      onChange={(event) =>
+                        onRowChange({
+                          ...row,
+                          months: row.months.map((month, index) =>
+                            index === monthIndex ? event.target.value : month
+                          ),
+                        })
+                      }
+                      className={inputClassName}
+                      aria-label={`${row.label}の${MONTH_LABELS[monthIndex]}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+/**
+ * budget コンポーネントのエクスポート
+ *
+ * このファイルから全てのサブコンポーネントをインポートできる
+ */
+
+export { BudgetGrid } from "./BudgetGrid";
+export { LoadingState } from "./LoadingState";
+
+// 型定義もエクスポート
+export type { BudgetGridRow } from "./types";
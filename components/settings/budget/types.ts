@@ -0,0 +1,22 @@
+/**
+ * 予算の登録で使用する型定義
+ *
+ * ビジネス上の役割:
+ * 予算の入力表（グリッド）の1行を定義し、コンポーネント間で共有する
+ * （保存する予算の型は lib/budget.ts の BudgetLine）
+ */
+
+import type { BudgetKind } from "@/lib/budget";
+
+/**
+ * 予算の入力表の1行（入力中は全て文字列で保持する）
+ */
+export interface BudgetGridRow {
+  kind: BudgetKind;
+  /** 経費は勘定科目のID、売上目標は作物名 */
+  key: string;
+  /** 勘定科目名または作物名 */
+  label: string;
+  /** 1月〜12月の金額（12個） */
+  months: string[];
+}
@@ -0,0 +1,20 @@
+/**
+ * 圃場が空の状態を表示するコンポーネント
+ *
+ * ビジネス上の役割:
+ * まだ圃場が登録されていない場合に、次のアクション（圃場の追加）を案内する
+ */
+
+import { MapPin } from "lucide-react";
+
+export function EmptyState() {
+  return (
+    <div className="text-center py-8 text-gray-500">
+      <MapPin className="h-12 w-12 mx-auto mb-2 text-gray-300" />
+      <p>圃場が登録されていません</p>
+      <p className="text-sm mt-1">
+        「圃場を追加」から田んぼ・畑・ハウスを面積とあわせて登録してください
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * 圃場カードコンポーネント
+ *
+ * ビジネス上の役割:
+ * 1つの圃場の面積・所在地メモと、その圃場の作付けの一覧を表示する
+ * - 圃場の編集・削除
+ * - 作付けの追加・編集・削除（作付けフォームは呼び出し元から渡す）
+ */
+
+import { Button } from "@/components/ui/button";
+import { Loader2, Pencil, Trash2, Plus } from "lucide-react";
+import type { Field, Planting } from "./types";
+
+interface FieldCardProps {
+  /** 表示する圃場データ */
+  field: Field;
+  /** 圃場の編集開始時のコールバック */
+  onEdit: () => void;
+  /** 圃場の削除時のコールバック */
+  onDelete: () => void;
+  /** 作付けの追加開始時のコールバック */
+  onAddPlanting: () => void;
+  /** 作付けの編集開始時のコールバック */
+  onEditPlanting: (planting: Planting) => void;
+  /** 作付けの削除時のコールバック */
+  onDeletePlanting: (plantingId: string) => void;
+  /** 現在削除処理中の圃場・作付けのID */
+  deletingId: string | null;
+  /** この圃場で表示中の作付けフォーム（なければ null） */
+  plantingForm: React.ReactNode;
+}
+
+export function FieldCard({
+  field,
+  onEdit,
+  onDelete,
+  onAddPlanting,
+  onEditPlanting,
+  onDeletePlanting,
+  deletingId,
+  plantingForm,
+}: FieldCardProps) {
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      {/* 圃場の情報と操作ボタン */}
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-gray-900">{field.name}</p>
+          <p className="text-sm text-gray-600">
+            {field.areaAre.toLocaleString("ja-JP")}a
+            {field.locationNote && <span className="ml-2 text-gray-500">{field.locationNote}</span>}
+          </p>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onEdit}
+            className="h-9 w-9 p-0 text-gray-500 hover:text-green-600 active:bg-green-50"
+            aria-label={`${field.name}を編集`}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onDelete}
+            disabled={deletingId === field.id}
+            className="h-9 w-9 p-0 text-gray-500 hover:text-red-600 active:bg-red-50"
+            aria-label={`${field.name}を削除`}
+          >
+            {deletingId === field.id ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Trash2 className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {/* 作付けの一覧 */}
+      {field.plantings.length > 0 && (
+        <ul className="divide-y border rounded-md">
+          {field.plantings.map((planting) => (
+            <li key={planting.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <span className="font-medium">{planting.cropName}</span>
+                <span className="ml-2 text-gray-500 whitespace-nowrap">
+                  {planting.seasonStart}〜{planting.seasonEnd ?? "栽培中"}
+                </span>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onEditPlanting(planting)}
+                  className="h-8 w-8 p-0 text-gray-500 hover:text-green-600"
+                  aria-label={`${planting.cropName}の作付けを編集`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onDeletePlanting(planting.id)}
+                  disabled={deletingId === planting.id}
+                  className="h-8 w-8 p-0 text-gray-500 hover:text-red-600"
+                  aria-label={`${planting.cropName}の作付けを削除`}
+                >
+                  {deletingId === planting.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* 作付けフォーム（追加・編集中のみ）または追加ボタン */}
+      {plantingForm ?? (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onAddPlanting}
+          className="border-green-600 text-green-600 hover:bg-green-50"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          作付けを追加
+        </Button>
+      )}
+    </div>
+  );
+}
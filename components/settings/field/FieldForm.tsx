@@ -0,0 +1,107 @@
+/**
+ * 圃場の追加・編集フォームコンポーネント
+ *
+ * ビジネス上の役割:
+ * ユーザーが圃場を登録・修正するためのフォーム
+ * - 圃場名と面積（アール）を入力
+ * - 所在地のメモ（地番、目印など）を任意で入力
+ * - 保存またはキャンセルを実行
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Check, X } from "lucide-react";
+import type { FieldFormValues } from "./types";
+
+interface FieldFormProps {
+  /** フォームの見出し（例：新しい圃場） */
+  title: string;
+  /** 入力中の値 */
+  values: FieldFormValues;
+  /** 保存処理中かどうか */
+  isSaving: boolean;
+  /** 入力値が変更された時のコールバック */
+  onChange: (values: FieldFormValues) => void;
+  /** 保存ボタンクリック時のコールバック */
+  onSubmit: () => void;
+  /** キャンセルボタンクリック時のコールバック */
+  onCancel: () => void;
+}
+
+export function FieldForm({
+  title,
+  values,
+  isSaving,
+  onChange,
+  onSubmit,
+  onCancel,
+}: FieldFormProps) {
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border space-y-3">
+      <h4 className="font-medium text-gray-900">{title}</h4>
+
+      {/* 入力フィールド: 圃場名と面積 */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="fieldName">圃場名</Label>
+          <Input
+            id="fieldName"
+            type="text"
+            placeholder="例：第1ハウス"
+            value={values.name}
+            onChange={(event) => onChange({ ...values, name: event.target.value })}
+          />
+        </div>
+
+        {/* 面積: 10a = 1反。10アール当たりの集計に使う */}
+        <div className="space-y-1">
+          <Label htmlFor="fieldAreaAre">面積（a）</Label>
+          <Input
+            id="fieldAreaAre"
+            type="number"
+            inputMode="decimal"
+            min="0"
+            step="0.1"
+            placeholder="例：15"
+            value={values.areaAre}
+            onChange={(event) => onChange({ ...values, areaAre: event.target.value })}
+          />
+        </div>
+      </div>
+
+      {/* 所在地のメモ（任意） */}
+      <div className="space-y-1">
+        <Label htmlFor="fieldLocationNote">所在地メモ（任意）</Label>
+        <Input
+          id="fieldLocationNote"
+          type="text"
+          placeholder="例：○○町123番地、川沿い"
+          value={values.locationNote}
+          onChange={(event) => onChange({ ...values, locationNote: event.target.value })}
+        />
+      </div>
+
+      {/* 操作ボタン: 保存とキャンセル */}
+      <div className="flex gap-2">
+        <Button
+          onClick={onSubmit}
+          disabled={isSaving}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Check className="h-4 w-4" />
+          )}
+          <span className="ml-1">保存</span>
+        </Button>
+
+        <Button onClick={onCancel} variant="outline">
+          <X className="h-4 w-4" />
+          <span className="ml-1">キャンセル</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * 作付けの追加・編集フォームコンポーネント
+ *
+ * ビジネス上の役割:
+ * 圃場ごとに「いつからいつまで何を作ったか」を登録・修正するためのフォーム
+ * - 作物名（売上の作物名と同じ表記にする）
+ * - 作期の開始日と終了日（栽培中なら終了日は空欄）
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Check, X } from "lucide-react";
+import type { PlantingFormValues } from "./types";
+
+interface PlantingFormProps {
+  /** 入力中の値 */
+  values: PlantingFormValues;
+  /** 保存処理中かどうか */
+  isSaving: boolean;
+  /** 入力値が変更された時のコールバック */
+  onChange: (values: PlantingFormValues) => void;
+  /** 保存ボタンクリック時のコールバック */
+  onSubmit: () => void;
+  /** キャンセルボタンクリック時のコールバック */
+  onCancel: () => void;
+}
+
+export function PlantingForm({
+  values,
+  isSaving,
+  onChange,
+  onSubmit,
+  onCancel,
+}: PlantingFormProps) {
+  return (
+    <div className="p-3 bg-gray-50 rounded-md border space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="plantingCropName">作物名</Label>
+          <Input
+            id="plantingCropName"
+            type="text"
+            placeholder="例：トマト"
+            value={values.cropName}
+            onChange={(event) => onChange({ ...values, cropName: event.target.value })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="plantingSeasonStart">作期の開始日</Label>
+          <Input
+            id="plantingSeasonStart"
+            type="date"
+            value={values.seasonStart}
+            onChange={(event) => onChange({ ...values, seasonStart: event.target.value })}
+          />
+        </div>
+
+        {/* 終了日: 栽培中なら空欄 */}
+        <div className="space-y-1">
+          <Label htmlFor="plantingSeasonEnd">作期の終了日（任意）</Label>
+          <Input
+            id="plantingSeasonEnd"
+            type="date"
+            value={values.seasonEnd}
+            onChange={(event) => onChange({ ...values, seasonEnd: event.target.value })}
+          />
+        </div>
+      </div>
+
+      {/* 操作ボタン: 保存とキャンセル */}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={onSubmit}
+          disabled={isSaving}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Check className="h-4 w-4" />
+          )}
+          <span className="ml-1">保存</span>
+        </Button>
+
+        <Button size="sm" onClick={onCancel} variant="outline">
+          <X className="h-4 w-4" />
+          <span className="ml-1">キャンセル</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
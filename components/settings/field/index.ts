@@ -0,0 +1,14 @@
+/**
+ * field コンポーネントのエクスポート
+ *
+ * このファイルから全てのサブコンポーネントをインポートできる
+ */
+
+export { FieldForm } from "./FieldForm";
+export { PlantingForm } from "./PlantingForm";
+export { FieldCard } from "./FieldCard";
+export { EmptyState } from "./EmptyState";
+export { LoadingState } from "./LoadingState";
+
+// 型定義もエクスポート
+export type { Field, Planting, FieldFormValues, PlantingFormValues } from "./types";
@@ -0,0 +1,60 @@
+/**
+ * 圃場管理で使用する型定義
+ *
+ * ビジネス上の役割:
+ * 圃場と作付けに関するデータ構造を定義し、コンポーネント間で共有する
+ */
+
+/**
+ * 作付けのデータ型
+ * データベースの plantings テーブルに対応
+ */
+export interface Planting {
+  /** 一意識別子 */
+  id: string;
+  /** 作付けした圃場のID */
+  fieldId: string;
+  /** 作物名（売上・経費の作物名と同じ表記） */
+  cropName: string;
+  /** 作期の開始日（YYYY-MM-DD） */
+  seasonStart: string;
+  /** 作期の終了日（YYYY-MM-DD。栽培中は null） */
+  seasonEnd: string | null;
+}
+
+/**
+ * 圃場のデータ型
+ * データベースの fields テーブルに対応（作付けを含む）
+ */
+export interface Field {
+  /** 一意識別子 */
+  id: string;
+  /** 圃場名（例：第1ハウス） */
+  name: string;
+  /** 面積（アール） */
+  areaAre: number;
+  /** 所在地のメモ */
+  locationNote: string | null;
+  /** 表示順序（並び替え用） */
+  displayOrder: number;
+  /** この圃場の作付け（新しい作期の順） */
+  plantings: Planting[];
+}
+
+/**
+ * 圃場フォームの入力値（入力中は全て文字列で保持する）
+ */
+export interface FieldFormValues {
+  name: string;
+  areaAre: string;
+  locationNote: string;
+}
+
+/**
+ * 作付けフォームの入力値（入力中は全て文字列で保持する）
+ */
+export interface PlantingFormValues {
+  cropName: string;
+  seasonStart: string;
+  seasonEnd: string;
+}
@@ -0,0 +1,20 @@
+/**
+ * 固定資産が空の状態を表示するコンポーネント
+ *
+ * ビジネス上の役割:
+ * まだ固定資産が登録されていない場合に、登録の例と次のアクションを案内する
+ */
+
+import { Tractor } from "lucide-react";
+
+export function EmptyState() {
+  return (
+    <div className="text-center py-8 text-gray-500">
+      <Tractor className="h-12 w-12 mx-auto mb-2 text-gray-300" />
+      <p>固定資産が登録されていません</p>
+      <p className="text-sm mt-1">
+        トラクター・ビニールハウス・防除機など、10万円以上で数年使う資産を登録してください
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * 固定資産カードコンポーネント
+ *
+ * ビジネス上の役割:
+ * 1つの固定資産の内容（取得日・取得価額・耐用年数・償却方法）と、
+ * 今年の減価償却費・期末の未償却残高を表示する
+ * - 編集・削除
+ * - 償却が終わった資産・除却した資産はその旨を表示する
+ */
+
+import { Button } from "@/components/ui/button";
+import { Loader2, Pencil, Trash2 } from "lucide-react";
+import {
+  calculateDepreciationSchedule,
+  DEPRECIATION_ENTRY_FREQUENCY_LABELS,
+  DEPRECIATION_METHOD_LABELS,
+  type FixedAsset,
+} from "@/lib/depreciation";
+
+interface FixedAssetCardProps {
+  /** 表示する固定資産 */
+  asset: FixedAsset;
+  /** 作成する経費の勘定科目名（勘定科目を削除した場合は null） */
+  categoryName: string | null;
+  /** 編集開始時のコールバック */
+  onEdit: () => void;
+  /** 削除時のコールバック */
+  onDelete: () => void;
+  /** この資産を処理中かどうか */
+  isProcessing: boolean;
+}
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatYen = (amount: number): string => `${amount.toLocaleString("ja-JP")}円`;
+
+export function FixedAssetCard({
+  asset,
+  categoryName,
+  onEdit,
+  onDelete,
+  isProcessing,
+}: FixedAssetCardProps) {
+  const currentYear = new Date().getFullYear();
+  const schedule = calculateDepreciationSchedule(asset);
+  const thisYear = schedule.find((row) => row.year === currentYear);
+  const lastYear = schedule[schedule.length - 1];
+  const isFinished = !thisYear && lastYear !== undefined && lastYear.year < currentYear;
+
+  return (
+    <div className={`border rounded-lg p-4 ${isFinished ? "bg-gray-50" : ""}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-gray-900">
+            {asset.name}
+            {asset.quantity && (
+              <span className="ml-2 text-sm font-normal text-gray-500">{asset.quantity}</span>
+            )}
+          </p>
+          <p className="text-sm text-gray-600">
+            {asset.acquisitionDate}取得・{formatYen(asset.acquisitionCost)}・
+            {asset.usefulLife}年・{DEPRECIATION_METHOD_LABELS[asset.method]}
+            {asset.businessUseRatio < 100 && `・事業専用${asset.businessUseRatio}%`}
+          </p>
+          <p className="text-xs text-gray-500">
+            {thisYear
+              ? `${currentYear}年分の償却費: ${formatYen(thisYear.deductibleAmount)}（期末残高 ${formatYen(thisYear.closingBookValue)}）`
+              : isFinished
+                ? asset.disposalDate
+                  ? `除却・売却済み（${asset.disposalDate}）`
+                  : "償却済み"
+                : "まだ償却は始まっていません"}
+          </p>
+          <p className="text-xs text-gray-500">
+            {categoryName
+              ? `${categoryName}として${DEPRECIATION_ENTRY_FREQUENCY_LABELS[asset.entryFrequency]}作成（${asset.entriesStartDate}以降）`
+              : "勘定科目が削除されたため、経費は作成されません"}
+          </p>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onEdit}
+            className="h-9 w-9 p-0 text-gray-500 hover:text-green-600 active:bg-green-50"
+            aria-label={`${asset.name}を編集`}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onDelete}
+            disabled={isProcessing}
+            className="h-9 w-9 p-0 text-gray-500 hover:text-red-600 active:bg-red-50"
+            aria-label={`${asset.name}を削除`}
+          >
+            {isProcessing ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Trash2 className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
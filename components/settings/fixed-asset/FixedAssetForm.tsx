@@ -0,0 +1,291 @@
+/**
+ * 固定資産の追加・編集フォームコンポーネント
+ *
+ * ビジネス上の役割:
+ * ユーザーがトラクター・ハウスなどの固定資産を台帳に登録・修正するためのフォーム
+ * - 名称・数量・取得日・取得価額を入力
+ * - 耐用年数（よく使う資産の一覧から選ぶか直接入力）と償却方法を入力
+ * - 事業専用割合、除却・売却した日を入力
+ * - 作成する経費（勘定科目・毎月 / 毎年・作成を始める日）を入力
+ * - 保存またはキャンセルを実行
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Check, X } from "lucide-react";
+import {
+  DEPRECIATION_ENTRY_FREQUENCY_LABELS,
+  DEPRECIATION_METHOD_LABELS,
+  MAX_DECLINING_BALANCE_USEFUL_LIFE,
+  USEFUL_LIFE_PRESETS,
+  type DepreciationEntryFrequency,
+  type DepreciationMethod,
+} from "@/lib/depreciation";
+import type { CategoryOption, FixedAssetFormValues } from "./types";
+
+interface FixedAssetFormProps {
+  /** フォームの見出し（例：新しい固定資産） */
+  title: string;
+  /** 入力中の値 */
+  values: FixedAssetFormValues;
+  /** 勘定科目の選択肢 */
+  categoryOptions: CategoryOption[];
+  /** 保存処理中かどうか */
+  isSaving: boolean;
+  /** 入力値が変更された時のコールバック */
+  onChange: (values: FixedAssetFormValues) => void;
+  /** 保存ボタンクリック時のコールバック */
+  onSubmit: () => void;
+  /** キャンセルボタンクリック時のコールバック */
+  onCancel: () => void;
+}
+
+/** 選択欄のスタイル（売上フォームの選択欄と同じ） */
+const SELECT_CLASS_NAME =
+  "w-full h-10 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+export function FixedAssetForm({
+  title,
+  values,
+  categoryOptions,
+  isSaving,
+  onChange,
+  onSubmit,
+  onCancel,
+}: FixedAssetFormProps) {
+  // 耐用年数の一覧から選んだ資産の種類（耐用年数が一致する最初の種類を表示する）
+  const presetIndex = USEFUL_LIFE_PRESETS.findIndex(
+    (preset) => String(preset.usefulLife) === values.usefulLife
+  );
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border space-y-3">
+      <h4 className="font-medium text-gray-900">{title}</h4>
+
+      {/* 名称と数量 */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="fixedAssetName">資産の名称</Label>
+          <Input
+            id="fixedAssetName"
+            type="text"
+            placeholder="例：トラクター（25馬力）"
+            value={values.name}
+            onChange={(event) => onChange({ ...values, name: event.target.value })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetQuantity">数量・面積（任意）</Label>
+          <Input
+            id="fixedAssetQuantity"
+            type="text"
+            placeholder="例：1台、200㎡"
+            value={values.quantity}
+            onChange={(event) => onChange({ ...values, quantity: event.target.value })}
+          />
+        </div>
+      </div>
+
+      {/* 取得日と取得価額 */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetAcquisitionDate">取得日（使い始めた日）</Label>
+          <Input
+            id="fixedAssetAcquisitionDate"
+            type="date"
+            value={values.acquisitionDate}
+            onChange={(event) => onChange({ ...values, acquisitionDate: event.target.value })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetCost">取得価額（円）</Label>
+          <Input
+            id="fixedAssetCost"
+            type="number"
+            inputMode="numeric"
+            min="1"
+            placeholder="例：3300000"
+            value={values.acquisitionCost}
+            onChange={(event) => onChange({ ...values, acquisitionCost: event.target.value })}
+          />
+        </div>
+      </div>
+
+      {/* 耐用年数と償却方法 */}
+      <div className="space-y-1">
+        <Label htmlFor="fixedAssetPreset">資産の種類（耐用年数の目安）</Label>
+        <select
+          id="fixedAssetPreset"
+          value={presetIndex}
+          onChange={(event) => {
+            const preset = USEFUL_LIFE_PRESETS[Number(event.target.value)];
+            if (preset) {
+              onChange({ ...values, usefulLife: String(preset.usefulLife) });
+            }
+          }}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value={-1}>一覧にない（耐用年数を直接入力）</option>
+          {USEFUL_LIFE_PRESETS.map((preset, index) => (
+            <option key={preset.label} value={index}>
+              {preset.label}：{preset.usefulLife}年
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetUsefulLife">耐用年数（年）</Label>
+          <Input
+            id="fixedAssetUsefulLife"
+            type="number"
+            inputMode="numeric"
+            min="2"
+            max="50"
+            value={values.usefulLife}
+            onChange={(event) => onChange({ ...values, usefulLife: event.target.value })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetMethod">償却方法</Label>
+          <select
+            id="fixedAssetMethod"
+            value={values.method}
+            onChange={(event) =>
+              onChange({ ...values, method: event.target.value as DepreciationMethod })
+            }
+            className={SELECT_CLASS_NAME}
+          >
+            {(Object.keys(DEPRECIATION_METHOD_LABELS) as DepreciationMethod[]).map((method) => (
+              <option key={method} value={method}>
+                {DEPRECIATION_METHOD_LABELS[method]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetBusinessUseRatio">事業専用割合（%）</Label>
+          <Input
+            id="fixedAssetBusinessUseRatio"
+            type="number"
+            inputMode="numeric"
+            min="1"
+            max="100"
+            value={values.businessUseRatio}
+            onChange={(event) => onChange({ ...values, businessUseRatio: event.target.value })}
+          />
+        </div>
+      </div>
+
+      {values.method === "declining_balance" && (
+        <p className="text-xs text-gray-500">
+          ※ 個人の方が定率法を使うには、税務署への届出が必要です。耐用年数{MAX_DECLINING_BALANCE_USEFUL_LIFE}年までの資産で選べます。
+        </p>
+      )}
+
+      {/* 作成する経費 */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetCategory">勘定科目</Label>
+          <select
+            id="fixedAssetCategory"
+            value={values.categoryId}
+            onChange={(event) => onChange({ ...values, categoryId: event.target.value })}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="">選択してください</option>
+            {categoryOptions.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetEntryFrequency">経費の作成</Label>
+          <select
+            id="fixedAssetEntryFrequency"
+            value={values.entryFrequency}
+            onChange={(event) =>
+              onChange({
+                ...values,
+                entryFrequency: event.target.value as DepreciationEntryFrequency,
+              })
+            }
+            className={SELECT_CLASS_NAME}
+          >
+            {(
+              Object.keys(DEPRECIATION_ENTRY_FREQUENCY_LABELS) as DepreciationEntryFrequency[]
+            ).map((frequency) => (
+              <option key={frequency} value={frequency}>
+                {DEPRECIATION_ENTRY_FREQUENCY_LABELS[frequency]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetEntriesStartDate">経費の作成を始める日</Label>
+          <Input
+            id="fixedAssetEntriesStartDate"
+            type="date"
+            value={values.entriesStartDate}
+            onChange={(event) => onChange({ ...values, entriesStartDate: event.target.value })}
+          />
+        </div>
+      </div>
+
+      {/* 除却・売却と摘要（任意） */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetDisposalDate">除却・売却した日（任意）</Label>
+          <Input
+            id="fixedAssetDisposalDate"
+            type="date"
+            value={values.disposalDate}
+            onChange={(event) => onChange({ ...values, disposalDate: event.target.value })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="fixedAssetNote">摘要（任意）</Label>
+          <Input
+            id="fixedAssetNote"
+            type="text"
+            placeholder="例：中古で購入"
+            value={values.note}
+            onChange={(event) => onChange({ ...values, note: event.target.value })}
+          />
+        </div>
+      </div>
+
+      {/* 操作ボタン: 保存とキャンセル */}
+      <div className="flex gap-2">
+        <Button
+          onClick={onSubmit}
+          disabled={isSaving}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Check className="h-4 w-4" />
+          )}
+          <span className="ml-1">保存</span>
+        </Button>
+
+        <Button onClick={onCancel} variant="outline">
+          <X className="h-4 w-4" />
+          <span className="ml-1">キャンセル</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
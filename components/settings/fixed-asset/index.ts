@@ -0,0 +1,13 @@
+/**
+ * fixed-asset コンポーネントのエクスポート
+ *
+ * このファイルから全てのサブコンポーネントをインポートできる
+ */
+
+export { FixedAssetForm } from "./FixedAssetForm";
+export { FixedAssetCard } from "./FixedAssetCard";
+export { EmptyState } from "./EmptyState";
+export { LoadingState } from "./LoadingState";
+
+// 型定義もエクスポート
+export type { FixedAssetFormValues, CategoryOption } from "./types";
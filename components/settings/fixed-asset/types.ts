@@ -0,0 +1,39 @@
+/**
+ * 固定資産台帳で使用する型定義
+ *
+ * ビジネス上の役割:
+ * 固定資産フォームの入力値を定義し、コンポーネント間で共有する
+ * （資産本体の型は lib/depreciation.ts の FixedAsset）
+ */
+
+import type { DepreciationEntryFrequency, DepreciationMethod } from "@/lib/depreciation";
+
+/**
+ * 固定資産フォームの入力値（入力中は全て文字列で保持する）
+ */
+export interface FixedAssetFormValues {
+  name: string;
+  quantity: string;
+  acquisitionDate: string;
+  acquisitionCost: string;
+  usefulLife: string;
+  method: DepreciationMethod;
+  /** 事業専用割合（%） */
+  businessUseRatio: string;
+  /** 除却・売却した日（使用中は空文字） */
+  disposalDate: string;
+  entryFrequency: DepreciationEntryFrequency;
+  /** 作成する経費の勘定科目のID */
+  categoryId: string;
+  /** この日以降の償却費の経費を作成する */
+  entriesStartDate: string;
+  note: string;
+}
+
+/**
+ * 勘定科目の選択肢
+ */
+export interface CategoryOption {
+  id: string;
+  name: string;
+}
@@ -10,3 +10,8 @@
 
 export { UserProfileSection } from "./UserProfileSection";
 export { ExpenseCategorySection } from "./ExpenseCategorySection";
+export { FieldSection } from "./FieldSection";
+export { TaxFormMappingSection } from "./TaxFormMappingSection";
+export { RecurringRuleSection } from "./RecurringRuleSection";
+export { FixedAssetSection } from "./FixedAssetSection";
+export { BudgetSection } from "./BudgetSection";
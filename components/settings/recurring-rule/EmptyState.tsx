@@ -0,0 +1,20 @@
+/**
+ * 定期的な取引が空の状態を表示するコンポーネント
+ *
+ * ビジネス上の役割:
+ * まだ定期的な取引が登録されていない場合に、登録の例と次のアクションを案内する
+ */
+
+import { Repeat } from "lucide-react";
+
+export function EmptyState() {
+  return (
+    <div className="text-center py-8 text-gray-500">
+      <Repeat className="h-12 w-12 mx-auto mb-2 text-gray-300" />
+      <p>定期的な取引が登録されていません</p>
+      <p className="text-sm mt-1">
+        農地賃借料・保険料・共済掛金・リース料など、毎月・毎年決まった取引を登録してください
+      </p>
+    </div>
+  );
+}
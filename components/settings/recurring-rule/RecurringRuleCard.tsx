@@ -0,0 +1,109 @@
+/**
+ * 定期的な取引カードコンポーネント
+ *
+ * ビジネス上の役割:
+ * 1つの定期的な取引の内容（繰り返し・金額・次の予定日）を表示する
+ * - 編集・一時停止（再開）・削除
+ * - 一時停止中・終了日を過ぎたものはその旨を表示する
+ */
+
+import { Button } from "@/components/ui/button";
+import { Loader2, Pause, Pencil, Play, Trash2 } from "lucide-react";
+import {
+  formatRecurringSchedule,
+  isRecurringRuleFinished,
+  RECURRING_KIND_LABELS,
+  type RecurringRule,
+} from "@/lib/recurring";
+
+interface RecurringRuleCardProps {
+  /** 表示する定期的な取引 */
+  rule: RecurringRule;
+  /** 編集開始時のコールバック */
+  onEdit: () => void;
+  /** 一時停止・再開時のコールバック */
+  onToggleActive: () => void;
+  /** 削除時のコールバック */
+  onDelete: () => void;
+  /** このルールを処理中かどうか */
+  isProcessing: boolean;
+}
+
+export function RecurringRuleCard({
+  rule,
+  onEdit,
+  onToggleActive,
+  onDelete,
+  isProcessing,
+}: RecurringRuleCardProps) {
+  const isFinished = isRecurringRuleFinished(rule);
+  const detail =
+    rule.kind === "expense" ? rule.category : `${rule.cropName} / ${rule.customer}`;
+
+  return (
+    <div className={`border rounded-lg p-4 ${rule.isActive && !isFinished ? "" : "bg-gray-50"}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-gray-900">
+            <span
+              className={`mr-2 rounded px-1.5 py-0.5 text-xs ${
+                rule.kind === "expense" ? "bg-red-50 text-red-700" : "bg-blue-50 text-blue-700"
+              }`}
+            >
+              {RECURRING_KIND_LABELS[rule.kind]}
+            </span>
+            {rule.name}
+          </p>
+          <p className="text-sm text-gray-600">
+            {formatRecurringSchedule(rule)}・{rule.amount.toLocaleString("ja-JP")}円
+            <span className="ml-2 text-gray-500">{detail}</span>
+          </p>
+          <p className="text-xs text-gray-500">
+            {isFinished
+              ? `終了（${rule.endDate}まで）`
+              : rule.isActive
+                ? `次の予定日: ${rule.nextRunDate}`
+                : "一時停止中"}
+          </p>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onEdit}
+            className="h-9 w-9 p-0 text-gray-500 hover:text-green-600 active:bg-green-50"
+            aria-label={`${rule.name}を編集`}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          {!isFinished && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={onToggleActive}
+              disabled={isProcessing}
+              className="h-9 w-9 p-0 text-gray-500 hover:text-green-600 active:bg-green-50"
+              aria-label={rule.isActive ? `${rule.name}を一時停止` : `${rule.name}を再開`}
+            >
+              {rule.isActive ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onDelete}
+            disabled={isProcessing}
+            className="h-9 w-9 p-0 text-gray-500 hover:text-red-600 active:bg-red-50"
+            aria-label={`${rule.name}を削除`}
+          >
+            {isProcessing ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Trash2 className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+/**
+ * 定期的な取引の追加・編集フォームコンポーネント
+ *
+ * ビジネス上の役割:
+ * ユーザーが毎月・毎年決まって発生する経費・売上を登録・修正するためのフォーム
+ * - 種類（経費 / 売上）と管理用の名前を入力
+ * - 繰り返し（毎月 / 毎年）と予定日、開始日・終了日を入力
+ * - 作成する経費・売上の内容（勘定科目または作物名・出荷先、金額、税率）を入力
+ * - 保存またはキャンセルを実行
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Check, X } from "lucide-react";
+import { CONSUMPTION_TAX_RATE_OPTIONS } from "@/lib/consumptionTax";
+import {
+  RECURRING_FREQUENCY_LABELS,
+  RECURRING_KIND_LABELS,
+  type RecurringFrequency,
+  type RecurringKind,
+} from "@/lib/recurring";
+import type { CategoryOption, RecurringRuleFormValues } from "./types";
+
+interface RecurringRuleFormProps {
+  /** フォームの見出し（例：新しい定期的な取引） */
+  title: string;
+  /** 入力中の値 */
+  values: RecurringRuleFormValues;
+  /** 勘定科目の選択肢 */
+  categoryOptions: CategoryOption[];
+  /** 保存処理中かどうか */
+  isSaving: boolean;
+  /** 入力値が変更された時のコールバック */
+  onChange: (values: RecurringRuleFormValues) => void;
+  /** 保存ボタンクリック時のコールバック */
+  onSubmit: () => void;
+  /** キャンセルボタンクリック時のコールバック */
+  onCancel: () => void;
+}
+
+/** 選択欄のスタイル（売上フォームの選択欄と同じ） */
+const SELECT_CLASS_NAME =
+  "w-full h-10 px-3 rounded-md border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2";
+
+/** 予定日の選択肢（31 は「末日」） */
+const DAY_OPTIONS = Array.from({ length: 31 }, (_, index) => index + 1);
+
+/** 月の選択肢 */
+const MONTH_OPTIONS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+export function RecurringRuleForm({
+  title,
+  values,
+  categoryOptions,
+  isSaving,
+  onChange,
+  onSubmit,
+  onCancel,
+}: RecurringRuleFormProps) {
+  const isExpense = values.kind === "expense";
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg border space-y-3">
+      <h4 className="font-medium text-gray-900">{title}</h4>
+
+      {/* 種類と名前 */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="recurringKind">種類</Label>
+          <select
+            id="recurringKind"
+            value={values.kind}
+            onChange={(event) =>
+              onChange({ ...values, kind: event.target.value as RecurringKind })
+            }
+            className={SELECT_CLASS_NAME}
+          >
+            {(Object.keys(RECURRING_KIND_LABELS) as RecurringKind[]).map((kind) => (
+              <option key={kind} value={kind}>
+                {RECURRING_KIND_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="recurringName">名前</Label>
+          <Input
+            id="recurringName"
+            type="text"
+            placeholder="例：農地賃借料（○○さん）"
+            value={values.name}
+            onChange={(event) => onChange({ ...values, name: event.target.value })}
+          />
+        </div>
+      </div>
+
+      {/* 繰り返しと予定日 */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="recurringFrequency">繰り返し</Label>
+          <select
+            id="recurringFrequency"
+            value={values.frequency}
+            onChange={(event) =>
+              onChange({ ...values, frequency: event.target.value as RecurringFrequency })
+            }
+            className={SELECT_CLASS_NAME}
+          >
+            {(Object.keys(RECURRING_FREQUENCY_LABELS) as RecurringFrequency[]).map(
+              (frequency) => (
+                <option key={frequency} value={frequency}>
+                  {RECURRING_FREQUENCY_LABELS[frequency]}
+                </option>
+              )
+            )}
+          </select>
+        </div>
+
+        {/* 毎年の場合のみ月を選ぶ */}
+        {values.frequency === "yearly" && (
+          <div className="space-y-1">
+            <Label htmlFor="recurringMonth">月</Label>
+            <select
+              id="recurringMonth"
+              value={values.monthOfYear}
+              onChange={(event) => onChange({ ...values, monthOfYear: event.target.value })}
+              className={SELECT_CLASS_NAME}
+            >
+              {MONTH_OPTIONS.map((month) => (
+                <option key={month} value={month}>
+                  {month}月
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="recurringDay">日</Label>
+          <select
+            id="recurringDay"
+            value={values.dayOfMonth}
+            onChange={(event) => onChange({ ...values, dayOfMonth: event.target.value })}
+            className={SELECT_CLASS_NAME}
+          >
+            {DAY_OPTIONS.map((day) => (
+              <option key={day} value={day}>
+                {day === 31 ? "末日" : `${day}日`}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* 開始日と終了日 */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="recurringStartDate">開始日</Label>
+          <Input
+            id="recurringStartDate"
+            type="date"
+            value={values.startDate}
+            onChange={(event) => onChange({ ...values, startDate: event.target.value })}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="recurringEndDate">終了日（任意）</Label>
+          <Input
+            id="recurringEndDate"
+            type="date"
+            value={values.endDate}
+            onChange={(event) => onChange({ ...values, endDate: event.target.value })}
+          />
+        </div>
+      </div>
+
+      {/* 作成する経費・売上の内容 */}
+      {isExpense ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="recurringCategory">勘定科目</Label>
+            <select
+              id="recurringCategory"
+              value={values.categoryId}
+              onChange={(event) => onChange({ ...values, categoryId: event.target.value })}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">選択してください</option>
+              {categoryOptions.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="recurringInvoiceNumber">登録番号（任意）</Label>
+            <Input
+              id="recurringInvoiceNumber"
+              type="text"
+              placeholder="例：T1234567890123"
+              value={values.invoiceRegistrationNumber}
+              onChange={(event) =>
+                onChange({ ...values, invoiceRegistrationNumber: event.target.value })
+              }
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="recurringCropName">作物名</Label>
+            <Input
+              id="recurringCropName"
+              type="text"
+              placeholder="例：米"
+              value={values.cropName}
+              onChange={(event) => onChange({ ...values, cropName: event.target.value })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="recurringCustomer">出荷先</Label>
+            <Input
+              id="recurringCustomer"
+              type="text"
+              placeholder="例：○○農協"
+              value={values.customer}
+              onChange={(event) => onChange({ ...values, customer: event.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="recurringAmount">金額（税込・円）</Label>
+          <Input
+            id="recurringAmount"
+            type="number"
+            inputMode="numeric"
+            min="1"
+            placeholder="例：30000"
+            value={values.amount}
+            onChange={(event) => onChange({ ...values, amount: event.target.value })}
+          />
+        </div>
+
+        {/* 地代・保険料・共済掛金は消費税の対象外のことが多い */}
+        <div className="space-y-1">
+          <Label htmlFor="recurringTaxRate">消費税率</Label>
+          <select
+            id="recurringTaxRate"
+            value={values.taxRate}
+            onChange={(event) => onChange({ ...values, taxRate: event.target.value })}
+            className={SELECT_CLASS_NAME}
+          >
+            {CONSUMPTION_TAX_RATE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* 摘要（任意） */}
+      <div className="space-y-1">
+        <Label htmlFor="recurringDescription">摘要（任意）</Label>
+        <Input
+          id="recurringDescription"
+          type="text"
+          placeholder="例：第1圃場 10a分"
+          value={values.description}
+          onChange={(event) => onChange({ ...values, description: event.target.value })}
+        />
+      </div>
+
+      {/* 操作ボタン: 保存とキャンセル */}
+      <div className="flex gap-2">
+        <Button
+          onClick={onSubmit}
+          disabled={isSaving}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Check className="h-4 w-4" />
+          )}
+          <span className="ml-1">保存</span>
+        </Button>
+
+        <Button onClick={onCancel} variant="outline">
+          <X className="h-4 w-4" />
+          <span className="ml-1">キャンセル</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
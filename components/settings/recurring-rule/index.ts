@@ -0,0 +1,13 @@
+/**
+ * recurring-rule コンポーネントのエクスポート
+ *
+ * このファイルから全てのサブコンポーネントをインポートできる
+ */
+
+export { RecurringRuleForm } from "./RecurringRuleForm";
+export { RecurringRuleCard } from "./RecurringRuleCard";
+export { EmptyState } from "./EmptyState";
+export { LoadingState } from "./LoadingState";
+
+// 型定義もエクスポート
+export type { RecurringRuleFormValues, CategoryOption } from "./types";
@@ -0,0 +1,42 @@
+/**
+ * 定期的な取引の管理で使用する型定義
+ *
+ * ビジネス上の役割:
+ * 定期的な取引のフォームの入力値を定義し、コンポーネント間で共有する
+ * （ルール本体の型は lib/recurring.ts の RecurringRule）
+ */
+
+import type { RecurringFrequency, RecurringKind } from "@/lib/recurring";
+
+/**
+ * 定期的な取引フォームの入力値（入力中は全て文字列で保持する）
+ */
+export interface RecurringRuleFormValues {
+  kind: RecurringKind;
+  name: string;
+  frequency: RecurringFrequency;
+  /** 予定日（"1"〜"31"。"31" は末日） */
+  dayOfMonth: string;
+  /** 毎年の場合の月（"1"〜"12"） */
+  monthOfYear: string;
+  startDate: string;
+  endDate: string;
+  amount: string;
+  taxRate: string;
+  description: string;
+  /** 経費のみ: 勘定科目のID */
+  categoryId: string;
+  /** 経費のみ: 仕入先の登録番号 */
+  invoiceRegistrationNumber: string;
+  /** 売上のみ: 作物名と出荷先 */
+  cropName: string;
+  customer: string;
+}
+
+/**
+ * 勘定科目の選択肢
+ */
+export interface CategoryOption {
+  id: string;
+  name: string;
+}
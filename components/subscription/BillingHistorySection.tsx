@@ -0,0 +1,240 @@
+/**
+ * 請求履歴セクション
+ *
+ * ビジネス上の役割:
+ * 設定画面で、サブスクリプションの請求書（領収書）の一覧を表示する
+ * - 請求日・請求書番号・金額・状態・PDFへのリンクを表示
+ * - インボイス制度の記載事項（発行事業者の登録番号・請求先の宛名と住所）を確認できる
+ * - 未払いの請求書は、Stripeの請求書ページから支払える
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, ExternalLink, Loader2, Receipt, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type {
+  BillingDetails,
+  BillingInvoice,
+  BillingInvoiceStatus,
+} from "@/lib/invoices";
+
+/**
+ * 請求履歴APIのレスポンス
+ */
+interface BillingHistoryResponse {
+  invoices: BillingInvoice[];
+  billingDetails: BillingDetails | null;
+  registrationNumber: string | null;
+}
+
+/**
+ * 金額を表示用の文字列にする（例：「¥2,980」）
+ */
+function formatYen(amount: number): string {
+  return `¥${amount.toLocaleString("ja-JP")}`;
+}
+
+/**
+ * 請求書の状態に応じたバッジを取得
+ */
+function getStatusBadge(status: BillingInvoiceStatus) {
+  switch (status) {
+    case "paid":
+      return (
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+          支払い済み
+        </span>
+      );
+    case "open":
+      return (
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+          未払い
+        </span>
+      );
+    case "void":
+      return (
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+          無効
+        </span>
+      );
+    case "uncollectible":
+      return (
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+          回収不能
+        </span>
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * 請求履歴セクション
+ */
+export function BillingHistorySection() {
+  // 請求履歴
+  const [history, setHistory] = useState<BillingHistoryResponse | null>(null);
+
+  // ローディング状態
+  const [isLoading, setIsLoading] = useState(true);
+
+  // エラー状態
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 請求履歴を取得
+   */
+  async function fetchHistory() {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/stripe/invoices");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "請求履歴の取得に失敗しました");
+      }
+
+      setHistory(data);
+    } catch (err) {
+      console.error("請求履歴取得エラー:", err);
+      setError(
+        err instanceof Error ? err.message : "請求履歴の取得に失敗しました"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // コンポーネントマウント時にデータ取得
+  useEffect(() => {
+    fetchHistory();
+  }, []);
+
+  const billingDetails = history?.billingDetails;
+
+  return (
+    <Card>
+      <CardHeader className="border-b">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Receipt className="h-5 w-5 text-green-600" />
+          請求履歴
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-4">
+            <p className="text-sm text-red-600 mb-4">{error}</p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={fetchHistory}
+              className="gap-1"
+            >
+              <RefreshCw className="h-4 w-4" />
+              再読み込み
+            </Button>
+          </div>
+        ) : !history || history.invoices.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            請求履歴はまだありません
+          </p>
+        ) : (
+          <>
+            {/* インボイス制度の記載事項 */}
+            <div className="bg-gray-50 rounded-lg p-4 text-xs text-gray-600 space-y-1">
+              <p>
+                請求先: {billingDetails?.name || "（宛名未登録）"}
+                {billingDetails?.address && <> ／ {billingDetails.address}</>}
+              </p>
+              {history.registrationNumber && (
+                <p>登録番号（適格請求書発行事業者）: {history.registrationNumber}</p>
+              )}
+              <p className="text-gray-500">
+                請求書PDFは、支払い済みの場合は領収書としてご利用いただけます。
+                宛名・住所は「プラン管理・支払い設定」から変更できます（変更後の請求書から反映されます）。
+              </p>
+            </div>
+
+            {/* 請求書の一覧 */}
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>請求日</TableHead>
+                    <TableHead>請求書番号</TableHead>
+                    <TableHead className="text-right">金額（税込）</TableHead>
+                    <TableHead>状態</TableHead>
+                    <TableHead className="text-right">請求書</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.invoices.map((invoice) => (
+                    <TableRow key={invoice.id}>
+                      <TableCell>
+                        {new Date(invoice.createdAt).toLocaleDateString("ja-JP")}
+                      </TableCell>
+                      <TableCell className="text-gray-600">
+                        {invoice.number ?? "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatYen(invoice.total)}
+                        {invoice.taxAmount !== null && (
+                          <span className="block text-xs text-gray-500">
+                            うち消費税 {formatYen(invoice.taxAmount)}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(invoice.status)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {invoice.invoicePdfUrl && (
+                            <a
+                              href={invoice.invoicePdfUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center gap-1 text-sm text-green-700 hover:underline"
+                            >
+                              <Download className="h-4 w-4" />
+                              PDF
+                            </a>
+                          )}
+                          {invoice.status === "open" && invoice.hostedInvoiceUrl && (
+                            <a
+                              href={invoice.hostedInvoiceUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center gap-1 text-sm text-amber-700 hover:underline"
+                            >
+                              <ExternalLink className="h-4 w-4" />
+                              支払う
+                            </a>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
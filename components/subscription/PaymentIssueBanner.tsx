@@ -0,0 +1,160 @@
+/**
+ * 支払い遅延のお知らせバナー
+ *
+ * ビジネス上の役割:
+ * 現在の農場の有料プランの支払いに失敗した（past_due）場合に、支払い方法の更新を促す
+ * - 猶予期間中: 猶予期間の終了日を表示し、それまでに更新してもらう
+ * - 猶予期間後: 無料プランの上限が適用されていることを知らせる
+ * - 「お支払い方法を更新」からStripeのカスタマーポータルへ遷移する（農場のオーナーのみ）
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, CreditCard, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import {
+  getGracePeriodEnd,
+  getFarmSubscription,
+  type Subscription,
+} from "@/lib/subscription";
+import { canManageFarm, getCurrentFarmAccess } from "@/lib/farms";
+import { cn } from "@/lib/utils";
+
+/**
+ * バナーのプロパティ型
+ */
+interface PaymentIssueBannerProps {
+  /** ユーザーID */
+  userId: string;
+}
+
+/**
+ * 支払い遅延のお知らせバナー
+ * 支払い遅延でない場合は何も表示しない
+ */
+export function PaymentIssueBanner({ userId }: PaymentIssueBannerProps) {
+  // サブスクリプション情報
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+
+  // 支払い方法を更新できるか（農場のオーナーのみ）
+  const [canManagePlan, setCanManagePlan] = useState(false);
+
+  // ポータル遷移中の状態
+  const [isPortalLoading, setIsPortalLoading] = useState(false);
+
+  /**
+   * サブスクリプション情報を取得
+   * 取得に失敗してもダッシュボードの利用は妨げないため、ログのみ
+   */
+  useEffect(() => {
+    async function fetchSubscription() {
+      try {
+        const supabase = createSupabaseClient();
+        const { farmId, role } = await getCurrentFarmAccess(supabase);
+        setSubscription(await getFarmSubscription(supabase, farmId));
+        setCanManagePlan(canManageFarm(role));
+      } catch (err) {
+        console.error("サブスクリプション取得エラー:", err);
+      }
+    }
+
+    fetchSubscription();
+  }, [userId]);
+
+  /**
+   * カスタマーポータルへ遷移（支払い方法の更新）
+   */
+  async function handleUpdatePaymentMethod() {
+    try {
+      setIsPortalLoading(true);
+
+      const response = await fetch("/api/stripe/portal", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "ポータルの開始に失敗しました");
+      }
+
+      const { portalUrl } = await response.json();
+
+      // Stripeカスタマーポータルへリダイレクト
+      if (portalUrl) {
+        window.location.href = portalUrl;
+      }
+    } catch (err) {
+      console.error("ポータル遷移エラー:", err);
+      alert(
+        err instanceof Error
+          ? err.message
+          : "カスタマーポータルへの遷移に失敗しました"
+      );
+    } finally {
+      setIsPortalLoading(false);
+    }
+  }
+
+  const gracePeriodEnd = getGracePeriodEnd(subscription);
+
+  // 支払い遅延でない場合は表示しない
+  if (!gracePeriodEnd) {
+    return null;
+  }
+
+  const isGracePeriodOver = gracePeriodEnd <= new Date();
+
+  return (
+    <div
+      className={cn(
+        "border-b",
+        isGracePeriodOver
+          ? "bg-red-50 border-red-200 text-red-800"
+          : "bg-amber-50 border-amber-200 text-amber-800"
+      )}
+    >
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <p className="flex items-start gap-2 text-sm">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+          {isGracePeriodOver ? (
+            <span>
+              お支払いが確認できないため、現在は無料プランの上限でご利用いただいています。
+              お支払い方法を更新し、お支払いが確認されると元のプランに戻ります。
+            </span>
+          ) : (
+            <span>
+              お支払いに失敗しました。
+              {gracePeriodEnd.toLocaleDateString("ja-JP")}までにお支払い方法を更新してください。
+              更新がない場合、無料プランの上限が適用されます。
+            </span>
+          )}
+        </p>
+        {canManagePlan && subscription?.stripeCustomerId && (
+          <Button
+            size="sm"
+            onClick={handleUpdatePaymentMethod}
+            disabled={isPortalLoading}
+            className={cn(
+              "gap-2 flex-shrink-0 text-white",
+              isGracePeriodOver
+                ? "bg-red-600 hover:bg-red-700"
+                : "bg-amber-600 hover:bg-amber-700"
+            )}
+          >
+            {isPortalLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <CreditCard className="h-4 w-4" />
+            )}
+            お支払い方法を更新
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
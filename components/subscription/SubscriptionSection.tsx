@@ -2,8 +2,11 @@
  * サブスクリプション管理セクション
  *
  * ビジネス上の役割:
- * 設定画面でユーザーのプラン情報と使用状況を表示し、
+ * 設定画面で現在の農場のプラン情報と使用状況を表示し、
  * プラン変更や解約への導線を提供する
+ * - プランの変更・解約・支払い設定は農場のオーナーのみ（他のメンバーには表示のみ）
+ * - 無料体験中は終了日と残り日数を表示し、終了が近づいたら目立たせて知らせる
+ * - ダウングレードを予約している場合は、変更日と変更先のプランを表示し、予約を取り消せるようにする
  */
 
 "use client";
@@ -11,6 +14,8 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
+  CalendarClock,
+  Clock,
   Crown,
   CreditCard,
   ExternalLink,
@@ -23,7 +28,12 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { UsageDisplay } from "./UsageDisplay";
 import { createSupabaseClient } from "@/lib/supabase/client";
-import { getUserSubscription, type Subscription } from "@/lib/subscription";
+import {
+  getEffectivePlanType,
+  getFarmSubscription,
+  type Subscription,
+} from "@/lib/subscription";
+import { canManageFarm, getCurrentFarmAccess } from "@/lib/farms";
 import { PLAN_DISPLAY_INFO, type PlanType } from "@/lib/stripe";
 
 /**
@@ -86,6 +96,19 @@ function getStatusBadge(status: Subscription["status"]) {
   }
 }
 
+/**
+ * 無料体験の終了が近いとみなす残り日数（この日数以下で強調表示）
+ */
+const TRIAL_ENDING_SOON_DAYS = 3;
+
+/**
+ * 無料体験の残り日数を取得（当日中に終わる場合も1日と数える）
+ */
+function getTrialDaysLeft(trialEnd: Date): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((trialEnd.getTime() - Date.now()) / msPerDay));
+}
+
 /**
  * サブスクリプション管理セクション
  */
@@ -95,12 +118,18 @@ export function SubscriptionSection({ userId }: SubscriptionSectionProps) {
   // サブスクリプション情報
   const [subscription, setSubscription] = useState<Subscription | null>(null);
 
+  // プランを管理できるか（農場のオーナーのみ）
+  const [canManagePlan, setCanManagePlan] = useState(false);
+
   // ローディング状態
   const [isLoading, setIsLoading] = useState(true);
 
   // ポータル遷移中の状態
   const [isPortalLoading, setIsPortalLoading] = useState(false);
 
+  // プラン変更の予約を取り消し中の状態
+  const [isCancelingChange, setIsCancelingChange] = useState(false);
+
   // エラー状態
   const [error, setError] = useState<string | null>(null);
 
@@ -113,9 +142,11 @@ export function SubscriptionSection({ userId }: SubscriptionSectionProps) {
       setError(null);
 
       const supabase = createSupabaseClient();
-      const sub = await getUserSubscription(supabase, userId);
+      const { farmId, role } = await getCurrentFarmAccess(supabase);
+      const sub = await getFarmSubscription(supabase, farmId);
 
       setSubscription(sub);
+      setCanManagePlan(canManageFarm(role));
     } catch (err) {
       console.error("サブスクリプション取得エラー:", err);
       setError("サブスクリプション情報の取得に失敗しました");
@@ -170,6 +201,46 @@ export function SubscriptionSection({ userId }: SubscriptionSectionProps) {
     }
   }
 
+  /**
+   * 予約しているプラン変更を取り消す
+   *
+   * ビジネスロジック:
+   * - 現在のプランを指定してプラン変更APIを呼ぶと、予約が取り消される
+   * - 取り消しはWebhookで反映されるため、少し待ってから再読み込みする
+   */
+  async function handleCancelScheduledChange(planType: PlanType) {
+    if (!confirm("予約しているプラン変更を取り消しますか？")) return;
+
+    try {
+      setIsCancelingChange(true);
+
+      const response = await fetch("/api/stripe/plan-change", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ planType }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "予約の取り消しに失敗しました");
+      }
+
+      alert("プラン変更の予約を取り消しました。反映まで少し時間がかかる場合があります。");
+      await fetchSubscription();
+    } catch (err) {
+      console.error("プラン変更の予約取り消しエラー:", err);
+      alert(
+        err instanceof Error
+          ? err.message
+          : "プラン変更の予約の取り消しに失敗しました"
+      );
+    } finally {
+      setIsCancelingChange(false);
+    }
+  }
+
   /**
    * 料金ページへ遷移
    */
@@ -177,10 +248,23 @@ export function SubscriptionSection({ userId }: SubscriptionSectionProps) {
     router.push("/pricing");
   }
 
-  // 現在のプランタイプ（サブスクリプションがない場合はfree）
-  const currentPlanType: PlanType = subscription?.planType ?? "free";
+  // 現在のプランタイプ（サブスクリプションがない場合・無料体験が終了した場合はfree）
+  const currentPlanType: PlanType = getEffectivePlanType(subscription);
   const planInfo = PLAN_DISPLAY_INFO[currentPlanType];
 
+  // 無料体験中の場合の残り日数
+  const trialEnd =
+    subscription?.status === "trialing" && currentPlanType !== "free"
+      ? subscription.trialEnd
+      : null;
+  const trialDaysLeft = trialEnd ? getTrialDaysLeft(trialEnd) : null;
+
+  // 予約しているプラン変更（ダウングレード）
+  const scheduledPlanInfo =
+    subscription?.scheduledPlanType && currentPlanType !== "free"
+      ? PLAN_DISPLAY_INFO[subscription.scheduledPlanType]
+      : null;
+
   // ローディング中
   if (isLoading) {
     return (
@@ -256,7 +340,7 @@ export function SubscriptionSection({ userId }: SubscriptionSectionProps) {
           {subscription?.currentPeriodEnd && currentPlanType !== "free" && (
             <div className="mt-3 pt-3 border-t border-gray-200">
               <p className="text-xs text-gray-500">
-                {subscription.status === "canceled" ? (
+                {subscription.status === "canceled" || subscription.cancelAtPeriodEnd ? (
                   <>
                     解約予定日:{" "}
                     {subscription.currentPeriodEnd.toLocaleDateString("ja-JP")}
@@ -276,13 +360,69 @@ export function SubscriptionSection({ userId }: SubscriptionSectionProps) {
           )}
         </div>
 
+        {/* 無料体験の終了のお知らせ */}
+        {trialEnd && trialDaysLeft !== null && (
+          <div
+            className={
+              trialDaysLeft <= TRIAL_ENDING_SOON_DAYS
+                ? "rounded-lg border border-amber-200 bg-amber-50 p-4"
+                : "rounded-lg border border-blue-200 bg-blue-50 p-4"
+            }
+          >
+            <p
+              className={
+                trialDaysLeft <= TRIAL_ENDING_SOON_DAYS
+                  ? "flex items-center gap-2 text-sm font-semibold text-amber-800"
+                  : "flex items-center gap-2 text-sm font-semibold text-blue-800"
+              }
+            >
+              <Clock className="h-4 w-4" />
+              無料体験は {trialEnd.toLocaleDateString("ja-JP")} に終了します（残り{trialDaysLeft}日）
+            </p>
+            <p className="mt-1 text-xs text-gray-600">
+              終了後は自動的に{planInfo.name}（{planInfo.price}）のお支払いが始まります。
+              継続しない場合は、終了日までに「プラン管理・支払い設定」から解約してください。
+            </p>
+          </div>
+        )}
+
+        {/* 予約しているプラン変更のお知らせ */}
+        {scheduledPlanInfo && subscription?.scheduledChangeAt && (
+          <div className="rounded-lg border border-blue-200 bg-blue-50 p-4">
+            <p className="flex items-center gap-2 text-sm font-semibold text-blue-800">
+              <CalendarClock className="h-4 w-4" />
+              {subscription.scheduledChangeAt.toLocaleDateString("ja-JP")}に{scheduledPlanInfo.name}（{scheduledPlanInfo.price}）に変更されます
+            </p>
+            <div className="mt-1 flex items-center justify-between gap-3">
+              <p className="text-xs text-gray-600">
+                変更日までは{planInfo.name}の機能をご利用いただけます。
+              </p>
+              {canManagePlan && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCancelScheduledChange(currentPlanType)}
+                  disabled={isCancelingChange}
+                  className="shrink-0"
+                >
+                  {isCancelingChange ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    "予約を取り消す"
+                  )}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* 使用状況表示 */}
         <UsageDisplay userId={userId} />
 
         {/* アクションボタン */}
         <div className="flex flex-col sm:flex-row gap-3">
-          {/* 有料プランの場合はカスタマーポータルへの導線 */}
-          {currentPlanType !== "free" && subscription?.stripeCustomerId && (
+          {/* 有料プランの場合はカスタマーポータルへの導線（オーナーのみ） */}
+          {canManagePlan && currentPlanType !== "free" && subscription?.stripeCustomerId && (
             <Button
               variant="outline"
               onClick={handleOpenPortal}
@@ -308,11 +448,18 @@ export function SubscriptionSection({ userId }: SubscriptionSectionProps) {
             }
             variant={currentPlanType === "free" ? "default" : "outline"}
           >
-            {currentPlanType === "free"
+            {currentPlanType === "free" && canManagePlan
               ? "有料プランにアップグレード"
               : "プラン一覧を見る"}
           </Button>
         </div>
+
+        {/* オーナー以外のメンバーへの案内 */}
+        {!canManagePlan && (
+          <p className="text-xs text-gray-500">
+            プランの変更・解約・お支払いの設定は、農場のオーナーが行えます。
+          </p>
+        )}
       </CardContent>
     </Card>
   );
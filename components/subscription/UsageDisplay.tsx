@@ -6,6 +6,7 @@
  * - OCR、エクスポート、AIアシスタントの使用回数と残り回数を表示
  * - 無料プランユーザーには制限に近づいている場合に警告表示
  * - 有料プランユーザーには「無制限」を表示
+ * - 集計期間と、使用回数がリセットされる日を表示
  */
 
 "use client";
@@ -13,7 +14,12 @@
 import { useEffect, useState } from "react";
 import { Camera, Download, MessageSquare, RefreshCw } from "lucide-react";
 import { createSupabaseClient } from "@/lib/supabase/client";
-import { getMonthlyUsage, type MonthlyUsage } from "@/lib/subscription";
+import {
+  getMonthlyUsage,
+  USAGE_TIME_ZONE,
+  type MonthlyUsage,
+} from "@/lib/subscription";
+import { getCurrentFarmId } from "@/lib/farms";
 import { cn } from "@/lib/utils";
 
 /**
@@ -118,7 +124,8 @@ export function UsageDisplay({ userId }: UsageDisplayProps) {
       setError(null);
 
       const supabase = createSupabaseClient();
-      const monthlyUsage = await getMonthlyUsage(supabase, userId);
+      const farmId = await getCurrentFarmId(supabase);
+      const monthlyUsage = await getMonthlyUsage(supabase, farmId);
 
       setUsage(monthlyUsage);
     } catch (err) {
@@ -164,11 +171,17 @@ export function UsageDisplay({ userId }: UsageDisplayProps) {
     );
   }
 
-  // 今月の期間表示
-  const periodMonth = usage.periodStart.toLocaleDateString("ja-JP", {
-    year: "numeric",
+  // 集計期間とリセット日の表示（集計と同じ日本時間で表示する）
+  const dateFormatOptions: Intl.DateTimeFormatOptions = {
     month: "long",
-  });
+    day: "numeric",
+    timeZone: USAGE_TIME_ZONE,
+  };
+  const periodLabel = `${usage.periodStart.toLocaleDateString(
+    "ja-JP",
+    dateFormatOptions
+  )}〜${usage.periodEnd.toLocaleDateString("ja-JP", dateFormatOptions)}`;
+  const resetDate = usage.resetsAt.toLocaleDateString("ja-JP", dateFormatOptions);
 
   return (
     <div className="bg-white rounded-lg p-4 border border-gray-200">
@@ -177,7 +190,7 @@ export function UsageDisplay({ userId }: UsageDisplayProps) {
         <h4 className="text-sm font-semibold text-gray-900">
           今月の使用状況
         </h4>
-        <span className="text-xs text-gray-500">{periodMonth}</span>
+        <span className="text-xs text-gray-500">{periodLabel}</span>
       </div>
 
       {/* 使用状況リスト */}
@@ -205,6 +218,11 @@ export function UsageDisplay({ userId }: UsageDisplayProps) {
         />
       </div>
 
+      {/* リセット日 */}
+      <p className="mt-3 text-xs text-gray-500">
+        使用回数は{resetDate}にリセットされます
+      </p>
+
       {/* 無料プランの場合はアップグレード誘導 */}
       {usage.planType === "free" && (
         <div className="mt-4 pt-3 border-t border-gray-100">
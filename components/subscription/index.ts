@@ -4,3 +4,5 @@
 
 export { UsageDisplay } from "./UsageDisplay";
 export { SubscriptionSection } from "./SubscriptionSection";
+export { PaymentIssueBanner } from "./PaymentIssueBanner";
+export { BillingHistorySection } from "./BillingHistorySection";
@@ -0,0 +1,135 @@
+"use client";
+
+/**
+ * 青色申告決算書ページのロジックを管理するカスタムフック
+ *
+ * 責務:
+ * - 対象年の選択と、決算書データの取得
+ * - Excel出力（プランの「データエクスポート回数」と連動）
+ *
+ * ビジネス上の流れ:
+ * 1. 対象年（初期値は前年 = 確定申告の対象年）を選択
+ * 2. 1月〜12月の売上・経費を集計し、決算書の経費欄に振り分けて表示
+ * 3. 印刷 または Excel出力して申告書の作成に使う
+ */
+
+import { useState, useEffect } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { reserveUsage } from "@/lib/subscription";
+import { getCurrentFarmId } from "@/lib/farms";
+import { fetchTaxReturnReport, type TaxReturnReport } from "@/lib/taxReturn";
+import { downloadTaxReturnExcel } from "@/lib/excelExport";
+
+/**
+ * useTaxReturnReport カスタムフックの戻り値
+ */
+export interface UseTaxReturnReportReturn {
+  // === 状態 ===
+  year: number;                      // 対象年
+  report: TaxReturnReport | null;    // 決算書データ
+  isLoading: boolean;                // 読み込み中フラグ
+  isExporting: boolean;              // Excel出力中フラグ
+  errorMessage: string | null;       // エラーメッセージ
+
+  // === 操作 ===
+  setYear: (year: number) => void;
+  exportExcel: () => Promise<void>;
+}
+
+export function useTaxReturnReport(): UseTaxReturnReportReturn {
+  // 確定申告は前年分を作成するため、初期値は前年
+  const [year, setYear] = useState(() => new Date().getFullYear() - 1);
+  const [report, setReport] = useState<TaxReturnReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 対象年が変わるたびに決算書データを再取得
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchReport = async () => {
+      try {
+        setIsLoading(true);
+        setErrorMessage(null);
+
+        const supabase = createSupabaseClient();
+        const taxReturnReport = await fetchTaxReturnReport(supabase, year);
+
+        if (!isMounted) return;
+        setReport(taxReturnReport);
+      } catch (error: unknown) {
+        if (!isMounted) return;
+        const message =
+          error instanceof Error ? error.message : "決算書データの取得に失敗しました";
+        setErrorMessage(message);
+        console.error("決算書データ取得エラー:", error);
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchReport();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [year]);
+
+  /**
+   * Excel出力処理
+   *
+   * ビジネス上の流れ:
+   * 1. エクスポート使用制限をチェック（無料プラン: 月3回まで）
+   * 2. 決算書形式のExcelファイルを生成してダウンロード
+   * 3. 使用回数をカウントアップ
+   */
+  const exportExcel = async (): Promise<void> => {
+    if (!report) return;
+
+    try {
+      setIsExporting(true);
+      setErrorMessage(null);
+
+      const supabase = createSupabaseClient();
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        setErrorMessage("ログインが必要です");
+        return;
+      }
+
+      // 上限の確認と1回分のカウントアップを同時に行う（同時に出力しても上限を超えない）
+      const farmId = await getCurrentFarmId(supabase);
+      const reservation = await reserveUsage(supabase, farmId, "export");
+
+      if (!reservation.allowed) {
+        setErrorMessage(
+          `今月のエクスポート回数（${reservation.limit}回）に達しました。プランをアップグレードすると無制限で使用できます。`
+        );
+        return;
+      }
+
+      downloadTaxReturnExcel(report);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Excel出力に失敗しました";
+      setErrorMessage(message);
+      console.error("決算書Excel出力エラー:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return {
+    year,
+    report,
+    isLoading,
+    isExporting,
+    errorMessage,
+    setYear,
+    exportExcel,
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * 青色申告決算書コンポーネントのエクスポート
+ */
+export { useTaxReturnReport } from "./hooks/useTaxReturnReport";
+export type { UseTaxReturnReportReturn } from "./hooks/useTaxReturnReport";
+export { IncomeStatementTable } from "./views/IncomeStatementTable";
+export { MonthlyRevenueTable } from "./views/MonthlyRevenueTable";
+export { DepreciationTable } from "./views/DepreciationTable";
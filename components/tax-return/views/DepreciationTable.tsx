@@ -0,0 +1,96 @@
+/**
+ * 減価償却費の計算テーブル
+ *
+ * ビジネス上の役割:
+ * 青色申告決算書3ページ目「減価償却費の計算」欄の記入用に、
+ * 固定資産台帳の資産ごとの償却費・必要経費算入額・未償却残高を表示する
+ * （固定資産は設定画面の「固定資産台帳」で登録する）
+ */
+
+import { formatDepreciationRate } from "@/lib/depreciation";
+import type { TaxReturnReport } from "@/lib/taxReturn";
+
+/**
+ * 通貨フォーマット関数（決算書の記入に合わせて「円」表記）
+ */
+const formatYen = (amount: number): string => `${amount.toLocaleString("ja-JP")}円`;
+
+interface DepreciationTableProps {
+  report: TaxReturnReport;
+}
+
+export function DepreciationTable({ report }: DepreciationTableProps) {
+  const cellClassName = "border border-gray-300 px-2 py-1.5";
+
+  if (report.depreciationRows.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        この年に償却した固定資産はありません。トラクター・ハウスなどの固定資産は、設定画面の「固定資産台帳」で登録できます。
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs border border-gray-300">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className={`${cellClassName} text-left`}>減価償却資産の名称</th>
+            <th className={`${cellClassName} text-left`}>面積又は数量</th>
+            <th className={`${cellClassName} text-left`}>取得年月</th>
+            <th className={`${cellClassName} text-right`}>取得価額</th>
+            <th className={`${cellClassName} text-right`}>償却の基礎になる金額</th>
+            <th className={`${cellClassName} text-left`}>償却方法</th>
+            <th className={`${cellClassName} text-right`}>耐用年数</th>
+            <th className={`${cellClassName} text-right`}>償却率</th>
+            <th className={`${cellClassName} text-right`}>償却期間</th>
+            <th className={`${cellClassName} text-right`}>本年分の償却費</th>
+            <th className={`${cellClassName} text-right`}>事業専用割合</th>
+            <th className={`${cellClassName} text-right`}>必要経費算入額</th>
+            <th className={`${cellClassName} text-right`}>未償却残高</th>
+            <th className={`${cellClassName} text-left`}>摘要</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.depreciationRows.map((row, index) => (
+            <tr key={`${row.assetName}-${index}`}>
+              <td className={cellClassName}>{row.assetName}</td>
+              <td className={cellClassName}>{row.quantity}</td>
+              <td className={`${cellClassName} whitespace-nowrap`}>{row.acquiredOn}</td>
+              <td className={`${cellClassName} text-right whitespace-nowrap`}>
+                {formatYen(row.acquisitionCost)}
+              </td>
+              <td className={`${cellClassName} text-right whitespace-nowrap`}>
+                {formatYen(row.baseAmount)}
+              </td>
+              <td className={cellClassName}>{row.methodLabel}</td>
+              <td className={`${cellClassName} text-right whitespace-nowrap`}>{row.usefulLife}年</td>
+              <td className={`${cellClassName} text-right`}>{formatDepreciationRate(row.rate)}</td>
+              <td className={`${cellClassName} text-right whitespace-nowrap`}>{row.months}/12</td>
+              <td className={`${cellClassName} text-right whitespace-nowrap`}>
+                {formatYen(row.depreciation)}
+              </td>
+              <td className={`${cellClassName} text-right`}>{row.businessUseRatio}%</td>
+              <td className={`${cellClassName} text-right whitespace-nowrap`}>
+                {formatYen(row.deductibleAmount)}
+              </td>
+              <td className={`${cellClassName} text-right whitespace-nowrap`}>
+                {formatYen(row.closingBookValue)}
+              </td>
+              <td className={cellClassName}>{row.note}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold bg-green-50">
+            <td className={cellClassName} colSpan={11}>
+              計
+            </td>
+            <td className={`${cellClassName} text-right whitespace-nowrap`}>
+              {formatYen(report.totalDepreciation)}
+            </td>
+            <td className={cellClassName} colSpan={2} />
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
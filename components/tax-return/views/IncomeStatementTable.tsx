@@ -0,0 +1,90 @@
+/**
+ * 損益計算書テーブル
+ *
+ * ビジネス上の役割:
+ * 青色申告決算書（農業所得用）1ページ目の並びで、
+ * 収入金額・経費欄ごとの金額・差引金額を表示する
+ * （印刷してそのまま転記できるよう、0円の経費欄も表示する）
+ */
+
+import type { TaxReturnReport } from "@/lib/taxReturn";
+
+/**
+ * 通貨フォーマット関数（決算書の記入に合わせて「円」表記）
+ */
+const formatYen = (amount: number): string => `${amount.toLocaleString("ja-JP")}円`;
+
+interface IncomeStatementTableProps {
+  report: TaxReturnReport;
+}
+
+export function IncomeStatementTable({ report }: IncomeStatementTableProps) {
+  return (
+    <table className="w-full text-sm border border-gray-300">
+      <tbody>
+        {/* 収入金額 */}
+        <SectionHeaderRow label="収入金額" />
+        <AmountRow label="販売金額" amount={report.revenue} />
+        <AmountRow label="家事消費・事業消費金額" amount={0} />
+        <AmountRow label="雑収入" amount={0} />
+        <AmountRow label="収入金額 計" amount={report.revenue} isTotal />
+
+        {/* 経費 */}
+        <SectionHeaderRow label="経費" />
+        {report.expenseLines.map((line) => (
+          <AmountRow
+            key={line.key}
+            label={line.label}
+            amount={line.amount}
+            note={line.sourceCategories.join("、")}
+          />
+        ))}
+        <AmountRow label="経費 計" amount={report.totalExpenses} isTotal />
+
+        {/* 差引金額 */}
+        <AmountRow label="差引金額（収入金額 - 経費）" amount={report.netIncome} isTotal />
+      </tbody>
+    </table>
+  );
+}
+
+// ============================================================
+// 以下、内部で使用するサブコンポーネント
+// ============================================================
+
+/**
+ * 区分の見出し行（収入金額 / 経費）
+ */
+function SectionHeaderRow({ label }: { label: string }) {
+  return (
+    <tr className="bg-gray-100">
+      <th colSpan={3} className="border border-gray-300 px-3 py-1.5 text-left font-semibold">
+        {label}
+      </th>
+    </tr>
+  );
+}
+
+interface AmountRowProps {
+  label: string;
+  amount: number;
+  /** 計上した勘定科目の内訳（経費欄のみ） */
+  note?: string;
+  /** 合計行として強調表示する */
+  isTotal?: boolean;
+}
+
+/**
+ * 科目と金額の1行
+ */
+function AmountRow({ label, amount, note = "", isTotal = false }: AmountRowProps) {
+  return (
+    <tr className={isTotal ? "font-semibold bg-green-50" : ""}>
+      <td className="border border-gray-300 px-3 py-1.5 w-1/3">{label}</td>
+      <td className="border border-gray-300 px-3 py-1.5 text-right whitespace-nowrap w-1/4">
+        {formatYen(amount)}
+      </td>
+      <td className="border border-gray-300 px-3 py-1.5 text-xs text-gray-500">{note}</td>
+    </tr>
+  );
+}
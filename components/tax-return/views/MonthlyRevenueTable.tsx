@@ -0,0 +1,53 @@
+/**
+ * 月別収入・経費テーブル
+ *
+ * ビジネス上の役割:
+ * 青色申告決算書2ページ目「月別収入金額」欄の記入用に、
+ * 1月〜12月の収入金額と経費を表示する
+ */
+
+import type { TaxReturnReport } from "@/lib/taxReturn";
+
+/**
+ * 通貨フォーマット関数（決算書の記入に合わせて「円」表記）
+ */
+const formatYen = (amount: number): string => `${amount.toLocaleString("ja-JP")}円`;
+
+interface MonthlyRevenueTableProps {
+  report: TaxReturnReport;
+}
+
+export function MonthlyRevenueTable({ report }: MonthlyRevenueTableProps) {
+  const cellClassName = "border border-gray-300 px-3 py-1.5";
+
+  return (
+    <table className="w-full text-sm border border-gray-300">
+      <thead>
+        <tr className="bg-gray-100">
+          <th className={`${cellClassName} text-left`}>月</th>
+          <th className={`${cellClassName} text-right`}>収入金額</th>
+          <th className={`${cellClassName} text-right`}>経費</th>
+          <th className={`${cellClassName} text-right`}>差引</th>
+        </tr>
+      </thead>
+      <tbody>
+        {report.monthly.map((row) => (
+          <tr key={row.month}>
+            <td className={cellClassName}>{row.month}月</td>
+            <td className={`${cellClassName} text-right`}>{formatYen(row.revenue)}</td>
+            <td className={`${cellClassName} text-right`}>{formatYen(row.expenses)}</td>
+            <td className={`${cellClassName} text-right`}>
+              {formatYen(row.revenue - row.expenses)}
+            </td>
+          </tr>
+        ))}
+        <tr className="font-semibold bg-green-50">
+          <td className={cellClassName}>計</td>
+          <td className={`${cellClassName} text-right`}>{formatYen(report.revenue)}</td>
+          <td className={`${cellClassName} text-right`}>{formatYen(report.totalExpenses)}</td>
+          <td className={`${cellClassName} text-right`}>{formatYen(report.netIncome)}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+/**
+ * 前年比較のデータを管理するカスタムフック
+ *
+ * 責務:
+ * - 選んだ期間と、前年（2年分比べる場合は前年と2年前）の同じ月の売上・経費・利益の取得
+ *
+ * ビジネス上の流れ:
+ * 1. 分析画面で「前年比較」に切り替えると、月次推移と同じ期間で比較を取得
+ * 2. 期間やさかのぼる年数を変えると再取得
+ */
+
+import { useState, useEffect } from "react";
+import { createSupabaseClient } from "@/lib/supabase/client";
+import { fetchYearOverYearComparison, type YearOverYearReport } from "@/lib/yearOverYear";
+
+/**
+ * useYearOverYear カスタムフックの戻り値
+ */
+export interface UseYearOverYearReturn {
+  report: YearOverYearReport | null;       // 前年比較の結果
+  isLoading: boolean;                      // 読み込み中フラグ
+  errorMessage: string | null;             // エラーメッセージ
+}
+
+/**
+ * 前年比較のカスタムフック
+ *
+ * @param startYear - 開始年
+ * @param startMonth - 開始月（1-12）
+ * @param endYear - 終了年
+ * @param endMonth - 終了月（1-12）
+ * @param comparisonYears - さかのぼる年数
+ */
+export function useYearOverYear(
+  startYear: number,
+  startMonth: number,
+  endYear: number,
+  endMonth: number,
+  comparisonYears: number
+): UseYearOverYearReturn {
+  const [report, setReport] = useState<YearOverYearReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 期間・年数が変わるたびに再取得
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchReport = async () => {
+      try {
+        setIsLoading(true);
+        setErrorMessage(null);
+
+        // RLSにより現在の農場のデータのみ集計される
+        const supabase = createSupabaseClient();
+        const comparison = await fetchYearOverYearComparison(
+          supabase,
+          startYear,
+          startMonth,
+          endYear,
+          endMonth,
+          comparisonYears
+        );
+
+        if (!isMounted) return;
+        setReport(comparison);
+      } catch (error: unknown) {
+        if (!isMounted) return;
+        console.error("前年比較の取得エラー:", error);
+        setErrorMessage(error instanceof Error ? error.message : "前年比較の取得に失敗しました");
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchReport();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [startYear, startMonth, endYear, endMonth, comparisonYears]);
+
+  return {
+    report,
+    isLoading,
+    errorMessage,
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * 前年比較コンポーネントのエクスポート
+ */
+export { useYearOverYear } from "./hooks/useYearOverYear";
+export type { UseYearOverYearReturn } from "./hooks/useYearOverYear";
+export { YearOverYearSection } from "./views/YearOverYearSection";
+export { YearOverYearChart } from "./views/YearOverYearChart";
+export { YearOverYearDeltaTable } from "./views/YearOverYearDeltaTable";
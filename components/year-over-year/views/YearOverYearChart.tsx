@@ -0,0 +1,106 @@
+"use client";
+
+/**
+ * 前年比較グラフ
+ *
+ * ビジネス上の役割:
+ * 選んだ指標（売上・経費・利益）について、今期の月ごとの推移に
+ * 前年（2年分比べる場合は前年と2年前）の同じ月を重ねて表示する
+ *
+ * 表示ルール:
+ * - 今期は太い実線、さかのぼった年ほど薄い破線で表示
+ */
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type {
+  YearOverYearMonthRow,
+  YearOverYearPeriod,
+  YearOverYearValues,
+} from "@/lib/yearOverYear";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * 指標ごとの線の色（月次収支推移グラフと同じ）
+ */
+const METRIC_COLORS: Record<keyof YearOverYearValues, string> = {
+  sales: "#22c55e",
+  expenses: "#8b5cf6",
+  profit: "#FFA500",
+};
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface YearOverYearChartProps {
+  periods: YearOverYearPeriod[];
+  monthly: YearOverYearMonthRow[];
+  /** 表示する指標 */
+  metric: keyof YearOverYearValues;
+}
+
+export function YearOverYearChart({ periods, monthly, metric }: YearOverYearChartProps) {
+  // 期間ごとの値を period0, period1... の列にする
+  const chartData = monthly.map((month) => ({
+    month: month.monthLabel,
+    ...Object.fromEntries(
+      month.values.map((values, periodIndex) => [`period${periodIndex}`, values[metric]])
+    ),
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={400}>
+      <LineChart data={chartData}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="month"
+          tick={{ fontSize: 12 }}
+          angle={-45}
+          textAnchor="end"
+          height={80}
+        />
+        <YAxis
+          tick={{ fontSize: 12 }}
+          tickFormatter={(value) => `${(value / 10000).toFixed(0)}万`}
+        />
+        <Tooltip
+          formatter={(value: number | undefined) =>
+            value !== undefined ? formatCurrency(value) : ""
+          }
+          labelStyle={{ color: "#000" }}
+        />
+        <Legend verticalAlign="bottom" />
+        {periods.map((period, periodIndex) => (
+          <Line
+            key={period.label}
+            type="monotone"
+            dataKey={`period${periodIndex}`}
+            name={`${period.label}（${period.rangeLabel}）`}
+            stroke={METRIC_COLORS[metric]}
+            strokeWidth={periodIndex === 0 ? 3.5 : 2}
+            strokeOpacity={periodIndex === 0 ? 1 : 0.7 - periodIndex * 0.2}
+            strokeDasharray={periodIndex === 0 ? undefined : "6 4"}
+            dot={{ r: periodIndex === 0 ? 5 : 3, fill: METRIC_COLORS[metric] }}
+            activeDot={{ r: 7 }}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
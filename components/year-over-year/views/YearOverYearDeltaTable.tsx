@@ -0,0 +1,79 @@
+/**
+ * 前年との増減テーブル
+ *
+ * ビジネス上の役割:
+ * 勘定科目・作物ごとに、今期と前年の金額・増減・増減率を並べる
+ *
+ * 表示ルール:
+ * - 売上は増えたら緑、減ったら赤で表示
+ * - 経費は増えたら赤、減ったら緑で表示（isCost）
+ */
+
+import { formatChangeRate, type YearOverYearDeltaRow } from "@/lib/yearOverYear";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface YearOverYearDeltaTableProps {
+  /** 項目列の見出し（例: 勘定科目） */
+  labelHeader: string;
+  rows: YearOverYearDeltaRow[];
+  /** 経費の表か（増えたら赤で表示） */
+  isCost?: boolean;
+}
+
+export function YearOverYearDeltaTable({
+  labelHeader,
+  rows,
+  isCost = false,
+}: YearOverYearDeltaTableProps) {
+  const headerCellClassName = "px-3 py-2 text-right font-medium text-gray-600 whitespace-nowrap";
+  const cellClassName = "px-3 py-2 text-right whitespace-nowrap";
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full min-w-[560px] text-sm">
+        <thead className="border-b bg-gray-50">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium text-gray-600">{labelHeader}</th>
+            <th className={headerCellClassName}>今期</th>
+            <th className={headerCellClassName}>前年</th>
+            <th className={headerCellClassName}>増減</th>
+            <th className={headerCellClassName}>増減率</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const isFavorable = isCost ? row.change < 0 : row.change > 0;
+            const changeClassName =
+              row.change === 0 ? "text-gray-600" : isFavorable ? "text-green-600" : "text-red-600";
+
+            return (
+              <tr key={row.label} className="border-b last:border-b-0">
+                <td className="px-3 py-2 font-medium">{row.label}</td>
+                <td className={cellClassName}>{formatCurrency(row.current)}</td>
+                <td className={cellClassName}>{formatCurrency(row.previous)}</td>
+                <td className={`${cellClassName} ${changeClassName}`}>
+                  {row.change > 0 ? "+" : ""}
+                  {formatCurrency(row.change)}
+                </td>
+                <td className={`${cellClassName} ${changeClassName}`}>
+                  {formatChangeRate(row.changeRate)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
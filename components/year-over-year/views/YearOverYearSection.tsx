@@ -0,0 +1,189 @@
+"use client";
+
+/**
+ * 前年比較セクション（分析画面の月次推移の比較モード）
+ *
+ * ビジネス上の役割:
+ * 月次推移と同じ期間について、前年（2年分比べる場合は前年と2年前）の同じ月を重ねて表示し、
+ * 季節の影響を除いた「今年の6月と去年の6月」の比較ができるようにする
+ *
+ * 表示内容:
+ * - 売上・経費・利益から選んだ指標の月別の重ね合わせグラフ
+ * - 売上・経費・利益の合計の前年からの増減
+ * - 勘定科目別（経費）・作物別（売上）の前年からの増減と増減率
+ */
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  COMPARISON_YEAR_OPTIONS,
+  formatChangeRate,
+  type YearOverYearValues,
+} from "@/lib/yearOverYear";
+import { useYearOverYear } from "../hooks/useYearOverYear";
+import { YearOverYearChart } from "./YearOverYearChart";
+import { YearOverYearDeltaTable } from "./YearOverYearDeltaTable";
+
+/**
+ * 通貨フォーマット関数
+ */
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat("ja-JP", {
+    style: "currency",
+    currency: "JPY",
+  }).format(amount);
+
+/**
+ * グラフに表示する指標の選択肢
+ */
+const METRIC_OPTIONS: { value: keyof YearOverYearValues; label: string }[] = [
+  { value: "sales", label: "売上" },
+  { value: "expenses", label: "経費" },
+  { value: "profit", label: "利益" },
+];
+
+/**
+ * コンポーネントのプロパティ
+ */
+interface YearOverYearSectionProps {
+  startYear: number;
+  startMonth: number;
+  endYear: number;
+  endMonth: number;
+  /** さかのぼる年数（Excel出力でも使うため画面側で保持する） */
+  comparisonYears: number;
+  onComparisonYearsChange: (comparisonYears: number) => void;
+}
+
+export function YearOverYearSection({
+  startYear,
+  startMonth,
+  endYear,
+  endMonth,
+  comparisonYears,
+  onComparisonYearsChange,
+}: YearOverYearSectionProps) {
+  const [metric, setMetric] = useState<keyof YearOverYearValues>("sales");
+  const { report, isLoading, errorMessage } = useYearOverYear(
+    startYear,
+    startMonth,
+    endYear,
+    endMonth,
+    comparisonYears
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* 指標とさかのぼる年数 */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div className="flex items-center gap-1" role="group" aria-label="グラフに表示する指標">
+          {METRIC_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={option.value === metric ? "default" : "outline"}
+              onClick={() => setMetric(option.value)}
+              className={option.value === metric ? "bg-green-600 hover:bg-green-700" : ""}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="comparison-years" className="text-sm font-medium text-gray-700 whitespace-nowrap">
+            比較:
+          </Label>
+          <select
+            id="comparison-years"
+            value={comparisonYears}
+            onChange={(event) => onComparisonYearsChange(Number(event.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            {COMPARISON_YEAR_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          {errorMessage}
+        </div>
+      )}
+
+      {isLoading ? (
+        <Card className="animate-pulse">
+          <CardContent className="p-6">
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </CardContent>
+        </Card>
+      ) : !report ? null : (
+        <>
+          <Card>
+            <CardContent className="p-6">
+              <YearOverYearChart periods={report.periods} monthly={report.monthly} metric={metric} />
+            </CardContent>
+          </Card>
+
+          {/* 売上・経費・利益の合計の増減 */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {report.totals.map((row) => {
+              const isFavorable = row.label === "経費" ? row.change < 0 : row.change > 0;
+              const changeClassName =
+                row.change === 0 ? "text-gray-600" : isFavorable ? "text-green-600" : "text-red-600";
+
+              return (
+                <Card key={row.label}>
+                  <CardContent className="p-4">
+                    <p className="text-sm text-gray-600">{row.label}（前年比）</p>
+                    <p className="text-2xl font-bold text-gray-900">{formatCurrency(row.current)}</p>
+                    <p className={`text-sm ${changeClassName}`}>
+                      {row.change > 0 ? "+" : ""}
+                      {formatCurrency(row.change)}（{formatChangeRate(row.changeRate)}）
+                    </p>
+                    <p className="text-xs text-gray-500">前年 {formatCurrency(row.previous)}</p>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {/* 勘定科目別・作物別の増減 */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">勘定科目別の経費</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.categories.length === 0 ? (
+                  <p className="text-center text-gray-500">この期間の経費がありません</p>
+                ) : (
+                  <YearOverYearDeltaTable labelHeader="勘定科目" rows={report.categories} isCost />
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">作物別の売上</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.crops.length === 0 ? (
+                  <p className="text-center text-gray-500">この期間の売上がありません</p>
+                ) : (
+                  <YearOverYearDeltaTable labelHeader="作物" rows={report.crops} />
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * 売上・経費の集計ユーティリティ
+ *
+ * このファイルは、分析画面・ダッシュボード・経費円グラフ・AIアシスタントで共通して使う
+ * 集計処理を提供します。
+ *
+ * 主な機能：
+ * - 任意期間の売上・経費・利益の合計
+ * - 月別の売上・経費・利益の推移
+ * - 勘定科目別の経費合計 / 作物別の売上合計
+ *
+ * 集計はデータベース関数 get_financial_summary（supabase/aggregation-schema.sql）で行い、
+ * 期間の長さに関係なく1回の通信で結果を取得します。
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 期間全体の合計
+ */
+export interface FinancialTotals {
+  /** 売上合計（円） */
+  sales: number;
+  /** 経費合計（円） */
+  expenses: number;
+  /** 利益 = 売上 - 経費（円） */
+  profit: number;
+  /** 売上の件数 */
+  salesCount: number;
+  /** 経費の件数 */
+  expenseCount: number;
+}
+
+/**
+ * 月別の集計
+ */
+export interface MonthlySummary {
+  /** "2024-01" 形式（ソート用） */
+  monthKey: string;
+  /** "2024年1月" 形式（表示用） */
+  monthLabel: string;
+  sales: number;
+  expenses: number;
+  profit: number;
+}
+
+/**
+ * 勘定科目別の経費合計
+ */
+export interface CategoryTotal {
+  /** 勘定科目名（未設定の場合は「未分類」） */
+  category: string;
+  amount: number;
+}
+
+/**
+ * 作物別の売上合計
+ */
+export interface CropTotal {
+  /** 作物名（未設定の場合は「不明」） */
+  cropName: string;
+  amount: number;
+}
+
+/**
+ * 期間集計の結果
+ */
+export interface FinancialSummary {
+  totals: FinancialTotals;
+  /** 月別の集計（古い順、取引がない月も 0 で含む） */
+  monthly: MonthlySummary[];
+  /** 勘定科目別の経費合計（金額の大きい順） */
+  categories: CategoryTotal[];
+  /** 作物別の売上合計（金額の大きい順） */
+  crops: CropTotal[];
+}
+
+/**
+ * get_financial_summary 関数が返す JSON の構造
+ */
+interface FinancialSummaryRecord {
+  totals: {
+    sales: number;
+    expenses: number;
+    sales_count: number;
+    expense_count: number;
+  };
+  monthly: { month_key: string; sales: number; expenses: number }[];
+  categories: { category: string; amount: number }[];
+  crops: { crop_name: string; amount: number }[];
+}
+
+// =============================================================================
+// 日付範囲ヘルパー
+// =============================================================================
+
+/**
+ * 年・月・日を「YYYY-MM-DD」形式の文字列に変換
+ *
+ * toISOString() はUTC基準のため、日本時間の1日が前日の日付になってしまう。
+ * 集計の境界がずれないよう、数値から直接組み立てる。
+ */
+function formatYearMonthDay(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * 指定した年月の開始日と終了日を取得
+ *
+ * @param year - 年
+ * @param month - 月（1-12）
+ * @returns startDate: 月初日, endDate: 月末日（YYYY-MM-DD形式）
+ */
+export function getMonthDateRange(
+  year: number,
+  month: number
+): { startDate: string; endDate: string } {
+  // 翌月の0日 = 当月の末日
+  const lastDay = new Date(year, month, 0).getDate();
+  return {
+    startDate: formatYearMonthDay(year, month, 1),
+    endDate: formatYearMonthDay(year, month, lastDay),
+  };
+}
+
+/**
+ * 今月の開始日と終了日を取得
+ *
+ * @returns startDate: 今月1日, endDate: 今月末日（YYYY-MM-DD形式）
+ */
+export function getCurrentMonthDateRange(): { startDate: string; endDate: string } {
+  const now = new Date();
+  return getMonthDateRange(now.getFullYear(), now.getMonth() + 1);
+}
+
+/**
+ * 年月の範囲（開始年月〜終了年月）を日付範囲に変換
+ *
+ * @returns startDate: 開始月の1日, endDate: 終了月の末日（YYYY-MM-DD形式）
+ */
+export function getYearMonthSpanDateRange(
+  startYear: number,
+  startMonth: number,
+  endYear: number,
+  endMonth: number
+): { startDate: string; endDate: string } {
+  return {
+    startDate: getMonthDateRange(startYear, startMonth).startDate,
+    endDate: getMonthDateRange(endYear, endMonth).endDate,
+  };
+}
+
+/**
+ * "2024-01" 形式の月キーを "2024年1月" 形式の表示名に変換
+ */
+function toMonthLabel(monthKey: string): string {
+  const [year, month] = monthKey.split("-").map(Number);
+  return `${year}年${month}月`;
+}
+
+// =============================================================================
+// 集計関数
+// =============================================================================
+
+/**
+ * 指定期間の売上・経費を集計して取得
+ *
+ * ビジネス上の役割：
+ * - 分析画面のスコアボード・月次推移グラフ
+ * - ダッシュボードの今月のKPI
+ * - 経費円グラフの科目別内訳
+ * - AIアシスタントに渡す経営データ
+ * のすべてをこの1関数でまかなう
+ *
+ * RLSにより、呼び出したユーザー自身のデータのみが集計対象になる
+ *
+ * @param supabase - Supabaseクライアント（認証済み、ブラウザ用・サーバー用どちらでも可）
+ * @param startDate - 期間の開始日（YYYY-MM-DD、この日を含む）
+ * @param endDate - 期間の終了日（YYYY-MM-DD、この日を含む）
+ * @returns 期間集計の結果
+ * @throws 集計に失敗した場合
+ */
+export async function fetchFinancialSummary(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<FinancialSummary> {
+  const { data, error } = await supabase.rpc("get_financial_summary", {
+    range_start: startDate,
+    range_end: endDate,
+  });
+
+  if (error) {
+    console.error("集計データの取得に失敗:", error);
+    throw new Error("集計データの取得に失敗しました");
+  }
+
+  const record = data as FinancialSummaryRecord;
+
+  // 金額は bigint（SUMの結果）として返る場合があるため Number で数値化する
+  const totalSales = Number(record.totals.sales);
+  const totalExpenses = Number(record.totals.expenses);
+
+  return {
+    totals: {
+      sales: totalSales,
+      expenses: totalExpenses,
+      profit: totalSales - totalExpenses,
+      salesCount: Number(record.totals.sales_count),
+      expenseCount: Number(record.totals.expense_count),
+    },
+    monthly: record.monthly.map((month) => {
+      const sales = Number(month.sales);
+      const expenses = Number(month.expenses);
+      return {
+        monthKey: month.month_key,
+        monthLabel: toMonthLabel(month.month_key),
+        sales,
+        expenses,
+        profit: sales - expenses,
+      };
+    }),
+    categories: record.categories.map((category) => ({
+      category: category.category,
+      amount: Number(category.amount),
+    })),
+    crops: record.crops.map((crop) => ({
+      cropName: crop.crop_name,
+      amount: Number(crop.amount),
+    })),
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { createFakeSupabase } from "@/lib/testing/fakeSupabase";
+import {
+  fetchBudgetVsActual,
+  getBudgetAlerts,
+  spreadAnnualAmount,
+  sumMonthlyAmounts,
+} from "./budget";
+
+describe("spreadAnnualAmount", () => {
+  it("12か月に均等に割り振り、割り切れない分は1月から1円ずつ足す", () => {
+    const months = spreadAnnualAmount(100_005);
+
+    expect(months).toHaveLength(12);
+    expect(months.slice(0, 9).every((amount) => amount === 8_334)).toBe(true);
+    expect(months.slice(9).every((amount) => amount === 8_333)).toBe(true);
+    expect(sumMonthlyAmounts(months)).toBe(100_005);
+  });
+
+  it("sumMonthlyAmounts は指定した月までを合計する", () => {
+    expect(sumMonthlyAmounts(spreadAnnualAmount(120_000), 6)).toBe(60_000);
+  });
+});
+
+const { supabase } = createFakeSupabase({
+  tables: {
+    expense_categories: [
+      { id: "cat-fertilizer", name: "肥料費" },
+      { id: "cat-fuel", name: "動力光熱費" },
+      { id: "cat-rent", name: "地代・賃借料" },
+    ],
+    expense_budgets: [
+      { category_id: "cat-fertilizer", monthly_amounts: spreadAnnualAmount(120_000) },
+      { category_id: "cat-fuel", monthly_amounts: spreadAnnualAmount(60_000) },
+    ],
+    sales_targets: [
+      { crop_name: "トマト", monthly_amounts: spreadAnnualAmount(1_200_000) },
+      { crop_name: "きゅうり", monthly_amounts: spreadAnnualAmount(240_000) },
+    ],
+  },
+  rpc: {
+    get_budget_actuals: {
+      expenses: [
+        ...[1, 2, 3, 4, 5, 6].map((month) => ({
+          category_id: "cat-fertilizer",
+          category: "肥料費",
+          month,
+          amount: 12_000,
+        })),
+        // 勘定科目と紐付いていない古い経費は、科目名で照合する
+        { category_id: null, category: "動力光熱費", month: 3, amount: "70000" },
+        { category_id: null, category: "雑費", month: 2, amount: 5_000 },
+      ],
+      sales: [
+        { crop_name: "トマト", month: 5, amount: 500_000 },
+        { crop_name: "きゅうり", month: 6, amount: 120_000 },
+        { crop_name: "なす", month: 4, amount: 30_000 },
+      ],
+    },
+  },
+});
+
+describe("fetchBudgetVsActual", () => {
+  it("今月までの予算と実績を比べて、超過・ペース超過・目標未達を判定する", async () => {
+    const report = await fetchBudgetVsActual(supabase, 2024, new Date(2024, 5, 15));
+
+    expect(report.throughMonth).toBe(6);
+    expect(report.expenseRows.map((row) => [row.label, row.status])).toEqual([
+      ["肥料費", "warning"],
+      ["動力光熱費", "over"],
+      ["雑費", "no_budget"],
+    ]);
+    expect(report.expenseRows[0]).toMatchObject({
+      annualBudget: 120_000,
+      budgetToDate: 60_000,
+      actualToDate: 72_000,
+      variance: 12_000,
+      burnRate: 60,
+    });
+    expect(report.salesRows.map((row) => [row.label, row.status])).toEqual([
+      ["トマト", "behind"],
+      ["きゅうり", "ok"],
+      ["なす", "no_budget"],
+    ]);
+    expect(report.salesRows[2].burnRate).toBeNull();
+
+    expect(getBudgetAlerts(report).map((row) => row.label)).toEqual([
+      "肥料費",
+      "動力光熱費",
+      "トマト",
+    ]);
+  });
+
+  it("過去の年は12月までの予算と比べる", async () => {
+    const report = await fetchBudgetVsActual(supabase, 2024, new Date(2025, 0, 10));
+
+    expect(report.throughMonth).toBe(12);
+    expect(report.expenseRows[0]).toMatchObject({ budgetToDate: 120_000, status: "ok" });
+    expect(report.salesRows[0].status).toBe("behind");
+  });
+
+  it("未来の年は目標未達と判定しない", async () => {
+    const report = await fetchBudgetVsActual(supabase, 2024, new Date(2023, 11, 1));
+
+    expect(report.throughMonth).toBe(0);
+    expect(report.salesRows.every((row) => row.status !== "behind")).toBe(true);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * 予算と実績の比較ユーティリティ
+ *
+ * このファイルは、勘定科目ごとの経費の予算・作物ごとの売上目標を登録し、
+ * 実績（経費・売上）と比べるための関数を提供します。
+ *
+ * ビジネス上の役割：
+ * - 「何にいくら使う予定か」を決め、使いすぎの科目に早めに気付けるようにする
+ * - 作物ごとの売上目標に対して、今どのくらい届いているかを確認する
+ * - 予算超過の科目を AIアシスタントに渡し、コメントしてもらう
+ *
+ * 判定のルール：
+ * - 予算・目標は1月〜12月の月別の金額で持ち、年間はその合計
+ * - 経費: 年間予算を超えたら「超過」、今月までの予算を10%以上上回ったら「ペース超過」
+ * - 売上: 今月までの目標を10%以上下回ったら「目標未達」
+ *
+ * 実績の集計はデータベース関数 get_budget_actuals（supabase/budget-schema.sql）で行う
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 予算の種類（経費の予算 / 売上目標）
+ */
+export type BudgetKind = "expense" | "sale";
+
+/**
+ * 1年分の予算（経費は勘定科目ごと、売上目標は作物ごと）
+ */
+export interface BudgetLine {
+  kind: BudgetKind;
+  /** 経費は勘定科目のID、売上目標は作物名 */
+  key: string;
+  /** 1月〜12月の金額（12個） */
+  monthlyAmounts: number[];
+}
+
+/**
+ * 予算と実績の判定
+ * - over: 年間予算を超えた（経費）
+ * - warning: 今月までの予算を上回るペース（経費）
+ * - behind: 今月までの目標を下回っている（売上）
+ * - ok: 予算の範囲内・目標どおり
+ * - no_budget: 実績はあるが予算を登録していない
+ */
+export type BudgetStatus = "over" | "warning" | "behind" | "ok" | "no_budget";
+
+/**
+ * 予算と実績の比較1行
+ */
+export interface BudgetVsActualRow {
+  kind: BudgetKind;
+  /** 勘定科目名または作物名 */
+  label: string;
+  /** 年間予算（目標） */
+  annualBudget: number;
+  /** 今月までの予算（目標） */
+  budgetToDate: number;
+  /** 今月までの実績 */
+  actualToDate: number;
+  /** 差異（実績 − 今月までの予算） */
+  variance: number;
+  /** 消化率・達成率（実績 ÷ 年間予算 × 100。予算がなければ null） */
+  burnRate: number | null;
+  status: BudgetStatus;
+}
+
+/**
+ * 予算と実績の比較結果
+ */
+export interface BudgetVsActualReport {
+  year: number;
+  /** 何月までの実績と比べたか（未来の年は0、過去の年は12） */
+  throughMonth: number;
+  expenseRows: BudgetVsActualRow[];
+  salesRows: BudgetVsActualRow[];
+}
+
+/**
+ * get_budget_actuals の戻り値（データベースの形式）
+ */
+interface BudgetActualsRecord {
+  expenses: { category_id: string | null; category: string; month: number; amount: number | string }[];
+  sales: { crop_name: string; month: number; amount: number | string }[];
+}
+
+// =============================================================================
+// 定数・表示用
+// =============================================================================
+
+/** 1年の月数 */
+export const MONTHS_IN_YEAR = 12;
+
+/** ペース超過・目標未達と判定する、今月までの予算との差の割合 */
+export const BUDGET_WARNING_THRESHOLD = 0.1;
+
+/**
+ * 判定の表示名
+ */
+export const BUDGET_STATUS_LABELS: Record<BudgetStatus, string> = {
+  over: "予算超過",
+  warning: "ペース超過",
+  behind: "目標未達",
+  ok: "順調",
+  no_budget: "予算なし",
+};
+
+/**
+ * 年間の金額を12か月に均等に割り振る（割り切れない分は1月から1円ずつ足す）
+ *
+ * @param annualAmount - 年間の金額
+ * @returns 1月〜12月の金額
+ */
+export function spreadAnnualAmount(annualAmount: number): number[] {
+  const base = Math.floor(annualAmount / MONTHS_IN_YEAR);
+  const remainder = annualAmount - base * MONTHS_IN_YEAR;
+
+  return Array.from({ length: MONTHS_IN_YEAR }, (_, index) => base + (index < remainder ? 1 : 0));
+}
+
+/**
+ * 月別の金額の合計
+ */
+export function sumMonthlyAmounts(monthlyAmounts: number[], throughMonth = MONTHS_IN_YEAR): number {
+  return monthlyAmounts.slice(0, throughMonth).reduce((sum, amount) => sum + amount, 0);
+}
+
+/**
+ * 何月までの実績と比べるか（今年は今月まで、過去の年は12月まで、未来の年は0）
+ */
+function getThroughMonth(year: number, today: Date): number {
+  if (year < today.getFullYear()) return MONTHS_IN_YEAR;
+  if (year > today.getFullYear()) return 0;
+  return today.getMonth() + 1;
+}
+
+// =============================================================================
+// 予算の登録
+// =============================================================================
+
+/**
+ * 指定した年の予算・売上目標を取得
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param year - 対象年
+ */
+export async function fetchBudgetLines(
+  supabase: SupabaseClient,
+  year: number
+): Promise<BudgetLine[]> {
+  const [expenseResult, salesResult] = await Promise.all([
+    supabase.from("expense_budgets").select("category_id, monthly_amounts").eq("year", year),
+    supabase.from("sales_targets").select("crop_name, monthly_amounts").eq("year", year),
+  ]);
+
+  if (expenseResult.error || salesResult.error) {
+    console.error("予算の取得エラー:", expenseResult.error ?? salesResult.error);
+    throw new Error("予算の取得に失敗しました");
+  }
+
+  return [
+    ...(expenseResult.data ?? []).map((row) => ({
+      kind: "expense" as const,
+      key: row.category_id as string,
+      monthlyAmounts: (row.monthly_amounts as number[]).map(Number),
+    })),
+    ...(salesResult.data ?? []).map((row) => ({
+      kind: "sale" as const,
+      key: row.crop_name as string,
+      monthlyAmounts: (row.monthly_amounts as number[]).map(Number),
+    })),
+  ];
+}
+
+/**
+ * 予算・売上目標を保存する（全ての月が0円の場合は削除する）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param userId - ログイン中のユーザーID（登録時のみ使用）
+ * @param year - 対象年
+ * @param lines - 保存する予算（変更したもののみ）
+ */
+export async function saveBudgetLines(
+  supabase: SupabaseClient,
+  userId: string,
+  year: number,
+  lines: BudgetLine[]
+): Promise<void> {
+  for (const line of lines) {
+    const table = line.kind === "expense" ? "expense_budgets" : "sales_targets";
+    const keyColumn = line.kind === "expense" ? "category_id" : "crop_name";
+    const isEmpty = line.monthlyAmounts.every((amount) => amount === 0);
+
+    // farm_id は登録時にトリガーで現在の農場が設定される
+    const { error } = isEmpty
+      ? await supabase.from(table).delete().eq("year", year).eq(keyColumn, line.key)
+      : await supabase.from(table).upsert(
+          { user_id: userId, year, [keyColumn]: line.key, monthly_amounts: line.monthlyAmounts },
+          { onConflict: `farm_id,year,${keyColumn}` }
+        );
+
+    if (error) {
+      console.error("予算の保存エラー:", error);
+      throw new Error("予算の保存に失敗しました");
+    }
+  }
+}
+
+// =============================================================================
+// 予算と実績の比較
+// =============================================================================
+
+/**
+ * 予算と実績の比較1行を作成する
+ */
+function buildBudgetVsActualRow(
+  kind: BudgetKind,
+  label: string,
+  monthlyBudget: number[] | null,
+  monthlyActual: number[],
+  throughMonth: number
+): BudgetVsActualRow {
+  const annualBudget = monthlyBudget ? sumMonthlyAmounts(monthlyBudget) : 0;
+  const budgetToDate = monthlyBudget ? sumMonthlyAmounts(monthlyBudget, throughMonth) : 0;
+  const actualToDate = sumMonthlyAmounts(monthlyActual, throughMonth);
+
+  let status: BudgetStatus;
+  if (!monthlyBudget || annualBudget === 0) {
+    status = "no_budget";
+  } else if (kind === "expense") {
+    status =
+      actualToDate > annualBudget
+        ? "over"
+        : actualToDate > budgetToDate * (1 + BUDGET_WARNING_THRESHOLD)
+          ? "warning"
+          : "ok";
+  } else {
+    status =
+      throughMonth > 0 && actualToDate < budgetToDate * (1 - BUDGET_WARNING_THRESHOLD)
+        ? "behind"
+        : "ok";
+  }
+
+  return {
+    kind,
+    label,
+    annualBudget,
+    budgetToDate,
+    actualToDate,
+    variance: actualToDate - budgetToDate,
+    burnRate: annualBudget > 0 ? Math.round((actualToDate / annualBudget) * 1000) / 10 : null,
+    status,
+  };
+}
+
+/**
+ * 指定した年の予算と実績を比べる
+ *
+ * ビジネス上の流れ:
+ * 1. 予算・売上目標、勘定科目、勘定科目・作物ごとの月別の実績を取得
+ * 2. 予算のある科目・作物と、実績のある科目・作物を1行ずつにまとめる
+ * 3. 今月までの予算と実績から、差異・消化率・判定を計算する
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param year - 対象年
+ * @param today - 今日（何月までの実績と比べるかの判定に使う）
+ */
+export async function fetchBudgetVsActual(
+  supabase: SupabaseClient,
+  year: number,
+  today: Date = new Date()
+): Promise<BudgetVsActualReport> {
+  const [budgetLines, categoriesResult, actualsResult] = await Promise.all([
+    fetchBudgetLines(supabase, year),
+    supabase.from("expense_categories").select("id, name").order("display_order", { ascending: true }),
+    supabase.rpc("get_budget_actuals", { target_year: year }),
+  ]);
+
+  if (categoriesResult.error || actualsResult.error) {
+    console.error("予算と実績の取得エラー:", categoriesResult.error ?? actualsResult.error);
+    throw new Error("予算と実績の取得に失敗しました");
+  }
+
+  const throughMonth = getThroughMonth(year, today);
+  const actuals = actualsResult.data as BudgetActualsRecord;
+  const categories = (categoriesResult.data ?? []) as { id: string; name: string }[];
+  const categoryIdByName = new Map(categories.map((category) => [category.name, category.id]));
+
+  // 勘定科目（ID）・作物ごとの月別の実績（金額は bigint として返る場合があるため Number で数値化する）
+  const addActual = (totals: Map<string, number[]>, key: string, month: number, amount: number) => {
+    const monthly = totals.get(key) ?? Array<number>(MONTHS_IN_YEAR).fill(0);
+    monthly[month - 1] += amount;
+    totals.set(key, monthly);
+  };
+
+  const expenseActuals = new Map<string, number[]>();
+  // 勘定科目と紐付かない経費は、科目名をそのままキーにする
+  const expenseLabels = new Map<string, string>(categories.map((category) => [category.id, category.name]));
+  for (const row of actuals.expenses) {
+    const key = row.category_id ?? categoryIdByName.get(row.category) ?? row.category;
+    if (!expenseLabels.has(key)) expenseLabels.set(key, row.category);
+    addActual(expenseActuals, key, row.month, Number(row.amount));
+  }
+
+  const salesActuals = new Map<string, number[]>();
+  for (const row of actuals.sales) {
+    addActual(salesActuals, row.crop_name, row.month, Number(row.amount));
+  }
+
+  const budgetsByKind = (kind: BudgetKind) =>
+    new Map(
+      budgetLines.filter((line) => line.kind === kind).map((line) => [line.key, line.monthlyAmounts])
+    );
+  const expenseBudgets = budgetsByKind("expense");
+  const salesTargets = budgetsByKind("sale");
+  const emptyMonths = Array<number>(MONTHS_IN_YEAR).fill(0);
+
+  // 予算のある科目を勘定科目の表示順に並べ、その後に予算のない実績を並べる
+  const expenseKeys = [
+    ...categories.map((category) => category.id).filter((id) => expenseBudgets.has(id)),
+    ...[...expenseActuals.keys()].filter((key) => !expenseBudgets.has(key)),
+  ];
+  const saleKeys = [...new Set([...salesTargets.keys(), ...salesActuals.keys()])];
+
+  return {
+    year,
+    throughMonth,
+    expenseRows: expenseKeys.map((key) =>
+      buildBudgetVsActualRow(
+        "expense",
+        expenseLabels.get(key) ?? key,
+        expenseBudgets.get(key) ?? null,
+        expenseActuals.get(key) ?? emptyMonths,
+        throughMonth
+      )
+    ),
+    salesRows: saleKeys.map((key) =>
+      buildBudgetVsActualRow(
+        "sale",
+        key,
+        salesTargets.get(key) ?? null,
+        salesActuals.get(key) ?? emptyMonths,
+        throughMonth
+      )
+    ),
+  };
+}
+
+/**
+ * 予算超過・ペース超過・目標未達の行だけを取り出す（AIアシスタントへの説明用）
+ *
+ * @param report - fetchBudgetVsActual() の結果
+ */
+export function getBudgetAlerts(report: BudgetVsActualReport): BudgetVsActualRow[] {
+  return [...report.expenseRows, ...report.salesRows].filter(
+    (row) => row.status === "over" || row.status === "warning" || row.status === "behind"
+  );
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RecurringRule } from "@/lib/recurring";
+import {
+  buildCashFlowForecast,
+  CASH_FLOW_FORECAST_MONTHS,
+  fetchCashFlowForecastInputs,
+  type CashFlowForecastInputs,
+} from "./cashFlow";
+
+vi.mock("@/lib/recurring", () => ({
+  listRecurringRules: vi.fn(async () => []),
+}));
+
+/** 今日（2024年10月15日） */
+const today = new Date(2024, 9, 15);
+
+/** テスト用の定期的な取引のルール */
+const baseRule: RecurringRule = {
+  id: "rule-1",
+  kind: "expense",
+  name: "農地賃借料",
+  frequency: "monthly",
+  dayOfMonth: 25,
+  monthOfYear: null,
+  startDate: "2024-01-25",
+  endDate: null,
+  nextRunDate: "2024-10-25",
+  isActive: true,
+  amount: 80_000,
+  taxRate: 0,
+  description: null,
+  category: "地代・賃借料",
+  categoryId: null,
+  invoiceRegistrationNumber: null,
+  cropName: null,
+  customer: null,
+};
+
+const emptyInputs: CashFlowForecastInputs = {
+  history: new Map(),
+  receivables: new Map(),
+  recurringRules: [],
+};
+
+describe("buildCashFlowForecast", () => {
+  it("前年同月の実績から、今月は今日までの実績を差し引いて見通す", () => {
+    const forecast = buildCashFlowForecast(
+      {
+        ...emptyInputs,
+        history: new Map([
+          ["2023-10", { sales: 300_000, expenses: 100_000 }],
+          ["2024-10", { sales: 100_000, expenses: 40_000 }],
+          ["2023-11", { sales: 500_000, expenses: 50_000 }],
+        ]),
+        receivables: new Map([["2024-11", 200_000]]),
+      },
+      { cashBalance: 1_000_000, lowCashThreshold: 0 },
+      today
+    );
+
+    expect(forecast.months).toHaveLength(CASH_FLOW_FORECAST_MONTHS);
+    expect(forecast.months[0]).toMatchObject({
+      monthKey: "2024-10",
+      monthLabel: "2024年10月",
+      estimatedSales: 200_000,
+      estimatedExpenses: 60_000,
+      closingBalance: 1_140_000,
+    });
+    // 入金予定の売上は、前年同月の売上と重複させない
+    expect(forecast.months[1]).toMatchObject({
+      monthKey: "2024-11",
+      receivables: 200_000,
+      estimatedSales: 300_000,
+      inflow: 500_000,
+      outflow: 50_000,
+      closingBalance: 1_590_000,
+    });
+    expect(forecast.months[11]).toMatchObject({ monthKey: "2025-09", closingBalance: 1_590_000 });
+    expect(forecast.lowBalanceMonth).toBeNull();
+  });
+
+  it("定期的な取引を予定日の月に加え、遅れている分は今月に加える", () => {
+    const forecast = buildCashFlowForecast(
+      {
+        ...emptyInputs,
+        recurringRules: [
+          { ...baseRule, nextRunDate: "2024-09-25", endDate: "2024-12-31" },
+          {
+            ...baseRule,
+            id: "rule-2",
+            kind: "sale",
+            frequency: "yearly",
+            monthOfYear: 3,
+            dayOfMonth: 10,
+            nextRunDate: "2025-03-10",
+            amount: 500_000,
+          },
+          { ...baseRule, id: "rule-3", isActive: false },
+        ],
+      },
+      { cashBalance: 100_000, lowCashThreshold: 50_000 },
+      today
+    );
+
+    expect(forecast.months.map((month) => month.recurringExpenses).slice(0, 4)).toEqual([
+      160_000, 80_000, 80_000, 0,
+    ]);
+    expect(forecast.months[5]).toMatchObject({ monthKey: "2025-03", recurringSales: 500_000 });
+
+    // 注意ラインを初めて下回る月と、残高が最も少ない月
+    expect(forecast.lowBalanceMonth?.monthKey).toBe("2024-10");
+    expect(forecast.lowestMonth).toMatchObject({ monthKey: "2024-12", closingBalance: -220_000 });
+    expect(forecast.months[11].closingBalance).toBe(280_000);
+  });
+
+  it("残高が未入力の場合は0円から見通す", () => {
+    const forecast = buildCashFlowForecast(
+      emptyInputs,
+      { cashBalance: null, lowCashThreshold: 0 },
+      today
+    );
+
+    expect(forecast.openingBalance).toBe(0);
+    expect(forecast.months.every((month) => month.closingBalance === 0)).toBe(true);
+  });
+});
+
+describe("fetchCashFlowForecastInputs", () => {
+  it("実績と入金予定をデータベースの集計関数から月ごとに受け取る", async () => {
+    const rpc = vi.fn(async (name: string) => ({
+      data:
+        name === "get_cash_flow_history"
+          ? [{ month_key: "2023-10", sales: "300000", expenses: 100_000 }]
+          : [
+              { month_key: "2024-11", amount: "200000" },
+              { month_key: "2025-01", amount: 50_000 },
+            ],
+      error: null,
+    }));
+
+    const inputs = await fetchCashFlowForecastInputs({ rpc } as unknown as SupabaseClient, today);
+
+    expect(rpc).toHaveBeenCalledWith("get_cash_flow_history", {
+      range_start: "2023-10-01",
+      range_end: "2024-10-15",
+    });
+    expect(rpc).toHaveBeenCalledWith("get_cash_flow_receivables", { after_date: "2024-10-15" });
+    expect(inputs.history.get("2023-10")).toEqual({ sales: 300_000, expenses: 100_000 });
+    expect([...inputs.receivables]).toEqual([
+      ["2024-11", 200_000],
+      ["2025-01", 50_000],
+    ]);
+  });
+
+  it("集計に失敗した場合はエラーにする", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const rpc = vi.fn(async () => ({ data: null, error: { message: "failed" } }));
+
+    await expect(
+      fetchCashFlowForecastInputs({ rpc } as unknown as SupabaseClient, today)
+    ).rejects.toThrow("資金繰りの見通しの取得に失敗しました");
+  });
+});
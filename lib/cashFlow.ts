@@ -0,0 +1,365 @@
+/**
+ * 資金繰りの見通しユーティリティ
+ *
+ * このファイルは、今後12か月の月ごとの入金・出金・残高を見通すための関数を提供します。
+ *
+ * ビジネス上の役割：
+ * - 春に資材費がかさみ、収穫期にまとめて入金される農業の資金繰りを先回りして確認する
+ * - 残高が注意ラインを下回る月を早めに知り、借入や支払時期の調整を検討できるようにする
+ *
+ * 見通しの考え方：
+ * - 季節的な入出金: 前年同月の実績（定期的な取引・減価償却費を除く）
+ *   今月は、前年同月の実績から今日までの実績を差し引いた残り
+ * - 定期的な取引: 次の予定日以降の予定日ごとに、ルールの金額を加える
+ * - 入金予定の売上（売掛金）: 入金予定日の月に加える
+ *   前年同月の売上と重複しないよう、前年同月の売上のうち入金予定を超える分だけを見込み売上とする
+ *
+ * 月別の実績の集計はデータベース関数 get_cash_flow_history（supabase/cash-flow-schema.sql）で行う
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { listRecurringRules, type RecurringRule } from "@/lib/recurring";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 資金繰りの設定（farm_cash_flow_settings に農場ごとに保存）
+ */
+export interface CashFlowSettings {
+  /** 現在の預金・現金の残高（未入力の場合は null） */
+  cashBalance: number | null;
+  /** これを下回ったら注意する残高 */
+  lowCashThreshold: number;
+}
+
+/**
+ * 月別の入金・出金の実績
+ */
+interface CashFlowActual {
+  sales: number;
+  expenses: number;
+}
+
+/**
+ * 見通しの元になるデータ
+ */
+export interface CashFlowForecastInputs {
+  /** 月キー（"2024-01"）→ その月の入金・出金の実績（前年同月〜今日まで） */
+  history: Map<string, CashFlowActual>;
+  /** 月キー → その月に入金予定の売上の合計 */
+  receivables: Map<string, number>;
+  /** 定期的な取引のルール */
+  recurringRules: RecurringRule[];
+}
+
+/**
+ * 見通しの1か月分
+ */
+export interface CashFlowForecastMonth {
+  /** "2024-01" 形式 */
+  monthKey: string;
+  /** "2024年1月" 形式 */
+  monthLabel: string;
+  /** 入金予定の売上 */
+  receivables: number;
+  /** 前年同月の実績から見込んだ売上（入金予定を超える分） */
+  estimatedSales: number;
+  /** 定期的な取引の売上 */
+  recurringSales: number;
+  /** 前年同月の実績から見込んだ経費 */
+  estimatedExpenses: number;
+  /** 定期的な取引の経費 */
+  recurringExpenses: number;
+  /** 入金の合計 */
+  inflow: number;
+  /** 出金の合計 */
+  outflow: number;
+  /** 月末の残高 */
+  closingBalance: number;
+}
+
+/**
+ * 資金繰りの見通し
+ */
+export interface CashFlowForecast {
+  /** 出発点の残高 */
+  openingBalance: number;
+  /** 今月から12か月分 */
+  months: CashFlowForecastMonth[];
+  /** 月末の残高が初めて注意ラインを下回る月（なければ null） */
+  lowBalanceMonth: CashFlowForecastMonth | null;
+  /** 月末の残高が最も少ない月 */
+  lowestMonth: CashFlowForecastMonth | null;
+}
+
+/**
+ * get_cash_flow_history の戻り値（データベースの形式）
+ */
+type CashFlowHistoryRecord = {
+  month_key: string;
+  sales: number | string;
+  expenses: number | string;
+}[];
+
+/**
+ * get_cash_flow_receivables の戻り値（データベースの形式）
+ */
+type CashFlowReceivablesRecord = {
+  month_key: string;
+  amount: number | string;
+}[];
+
+// =============================================================================
+// 定数・日付ヘルパー
+// =============================================================================
+
+/** 見通す月数（今月を含む） */
+export const CASH_FLOW_FORECAST_MONTHS = 12;
+
+/** 資金繰りの設定の初期値 */
+export const DEFAULT_CASH_FLOW_SETTINGS: CashFlowSettings = {
+  cashBalance: null,
+  lowCashThreshold: 0,
+};
+
+/**
+ * 年・月（0始まり、範囲外は繰り上げ・繰り下げ）を "2024-01" 形式の月キーに変換
+ */
+function toMonthKey(year: number, monthIndex: number): string {
+  const date = new Date(year, monthIndex, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * 日付を「YYYY-MM-DD」形式に変換（日本時間の日付のまま）
+ */
+function formatDate(date: Date): string {
+  return `${toMonthKey(date.getFullYear(), date.getMonth())}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * "2024-01" 形式の月キーを "2024年1月" 形式の表示名に変換
+ */
+function toMonthLabel(monthKey: string): string {
+  const [year, month] = monthKey.split("-").map(Number);
+  return `${year}年${month}月`;
+}
+
+// =============================================================================
+// データ取得・保存
+// =============================================================================
+
+/**
+ * 見通しの元になるデータを取得
+ *
+ * ビジネス上の流れ:
+ * 1. 前年同月の1日〜今日までの月別の入金・出金の実績を集計
+ * 2. 入金予定日（なければ売上の日付）が明日以降の売上を、入金予定として月ごとに合計
+ * 3. 定期的な取引のルールを取得
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param today - 今日
+ */
+export async function fetchCashFlowForecastInputs(
+  supabase: SupabaseClient,
+  today: Date = new Date()
+): Promise<CashFlowForecastInputs> {
+  const todayString = formatDate(today);
+  const rangeStart = `${toMonthKey(today.getFullYear() - 1, today.getMonth())}-01`;
+
+  const [historyResult, receivablesResult, recurringRules] = await Promise.all([
+    supabase.rpc("get_cash_flow_history", { range_start: rangeStart, range_end: todayString }),
+    supabase.rpc("get_cash_flow_receivables", { after_date: todayString }),
+    listRecurringRules(supabase),
+  ]);
+
+  if (historyResult.error || receivablesResult.error) {
+    console.error("資金繰りの取得エラー:", historyResult.error ?? receivablesResult.error);
+    throw new Error("資金繰りの見通しの取得に失敗しました");
+  }
+
+  // 金額は bigint（SUMの結果）として返る場合があるため Number で数値化する
+  const history = new Map<string, CashFlowActual>(
+    ((historyResult.data ?? []) as CashFlowHistoryRecord).map((month) => [
+      month.month_key,
+      { sales: Number(month.sales), expenses: Number(month.expenses) },
+    ])
+  );
+
+  const receivables = new Map<string, number>(
+    ((receivablesResult.data ?? []) as CashFlowReceivablesRecord).map((month) => [
+      month.month_key,
+      Number(month.amount),
+    ])
+  );
+
+  return { history, receivables, recurringRules };
+}
+
+/**
+ * 現在の農場の資金繰りの設定（現在の残高・注意ライン）を取得
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ */
+export async function fetchCashFlowSettings(supabase: SupabaseClient): Promise<CashFlowSettings> {
+  const { data, error } = await supabase
+    .from("farm_cash_flow_settings")
+    .select("cash_balance, low_cash_threshold")
+    .maybeSingle();
+
+  if (error) {
+    console.error("資金繰りの設定の取得エラー:", error);
+    throw new Error("資金繰りの設定の取得に失敗しました");
+  }
+
+  return {
+    cashBalance: data?.cash_balance ?? DEFAULT_CASH_FLOW_SETTINGS.cashBalance,
+    lowCashThreshold: data?.low_cash_threshold ?? DEFAULT_CASH_FLOW_SETTINGS.lowCashThreshold,
+  };
+}
+
+/**
+ * 現在の農場の資金繰りの設定を保存する
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param userId - ログイン中のユーザーID（最後に保存したユーザーとして記録）
+ * @param settings - 保存する設定
+ */
+export async function saveCashFlowSettings(
+  supabase: SupabaseClient,
+  userId: string,
+  settings: CashFlowSettings
+): Promise<void> {
+  // 農場に1行だけ持つため upsert で保存する
+  // （farm_id は登録時にトリガーで現在の農場が設定される）
+  const { error } = await supabase.from("farm_cash_flow_settings").upsert(
+    {
+      updated_by: userId,
+      cash_balance: settings.cashBalance,
+      low_cash_threshold: settings.lowCashThreshold,
+    },
+    { onConflict: "farm_id" }
+  );
+
+  if (error) {
+    console.error("資金繰りの設定の保存エラー:", error);
+    throw new Error("資金繰りの設定の保存に失敗しました");
+  }
+}
+
+// =============================================================================
+// 見通しの計算
+// =============================================================================
+
+/**
+ * 定期的な取引を、今月から見通す月数分の月ごとの金額にする
+ *
+ * - 次の予定日から、毎月（毎年）の予定日ごとに金額を加える
+ * - 作成が遅れて予定日が過去になっている分は、今月に加える
+ * - 一時停止中・終了日を過ぎたルールは含めない
+ */
+function projectRecurringRules(
+  rules: RecurringRule[],
+  today: Date
+): Map<string, CashFlowActual> {
+  const projected = new Map<string, CashFlowActual>();
+  const currentMonthKey = toMonthKey(today.getFullYear(), today.getMonth());
+  const lastMonthKey = toMonthKey(today.getFullYear(), today.getMonth() + CASH_FLOW_FORECAST_MONTHS - 1);
+
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+
+    const [startYear, startMonth] = rule.nextRunDate.split("-").map(Number);
+    const stepMonths = rule.frequency === "yearly" ? 12 : 1;
+
+    for (let offset = 0; ; offset += stepMonths) {
+      const monthIndex = startMonth - 1 + offset;
+      const monthKey = toMonthKey(startYear, monthIndex);
+      if (monthKey > lastMonthKey) break;
+
+      // 予定日（月末より後の日はその月の末日）
+      const lastDay = new Date(startYear, monthIndex + 1, 0).getDate();
+      const runDate =
+        offset === 0
+          ? rule.nextRunDate
+          : `${monthKey}-${String(Math.min(rule.dayOfMonth, lastDay)).padStart(2, "0")}`;
+      if (rule.endDate && runDate > rule.endDate) break;
+
+      const targetMonthKey = monthKey < currentMonthKey ? currentMonthKey : monthKey;
+      const totals = projected.get(targetMonthKey) ?? { sales: 0, expenses: 0 };
+      if (rule.kind === "sale") {
+        totals.sales += rule.amount;
+      } else {
+        totals.expenses += rule.amount;
+      }
+      projected.set(targetMonthKey, totals);
+    }
+  }
+
+  return projected;
+}
+
+/**
+ * 今月から12か月分の資金繰りを見通す
+ *
+ * @param inputs - fetchCashFlowForecastInputs() の結果
+ * @param settings - 現在の残高・注意ライン（残高が未入力の場合は0円から見通す）
+ * @param today - 今日
+ */
+export function buildCashFlowForecast(
+  inputs: CashFlowForecastInputs,
+  settings: CashFlowSettings,
+  today: Date = new Date()
+): CashFlowForecast {
+  const recurring = projectRecurringRules(inputs.recurringRules, today);
+  const openingBalance = settings.cashBalance ?? 0;
+  const noActual: CashFlowActual = { sales: 0, expenses: 0 };
+
+  let balance = openingBalance;
+  const months = Array.from({ length: CASH_FLOW_FORECAST_MONTHS }, (_, index) => {
+    const monthIndex = today.getMonth() + index;
+    const monthKey = toMonthKey(today.getFullYear(), monthIndex);
+    const lastYear = inputs.history.get(toMonthKey(today.getFullYear() - 1, monthIndex)) ?? noActual;
+
+    // 今月は、今日までに入出金した分を前年同月の実績から差し引く
+    const actualSoFar = index === 0 ? (inputs.history.get(monthKey) ?? noActual) : noActual;
+    const expectedSales = Math.max(0, lastYear.sales - actualSoFar.sales);
+    const estimatedExpenses = Math.max(0, lastYear.expenses - actualSoFar.expenses);
+
+    const receivables = inputs.receivables.get(monthKey) ?? 0;
+    const estimatedSales = Math.max(0, expectedSales - receivables);
+    const recurringSales = recurring.get(monthKey)?.sales ?? 0;
+    const recurringExpenses = recurring.get(monthKey)?.expenses ?? 0;
+
+    const inflow = receivables + estimatedSales + recurringSales;
+    const outflow = estimatedExpenses + recurringExpenses;
+    balance += inflow - outflow;
+
+    return {
+      monthKey,
+      monthLabel: toMonthLabel(monthKey),
+      receivables,
+      estimatedSales,
+      recurringSales,
+      estimatedExpenses,
+      recurringExpenses,
+      inflow,
+      outflow,
+      closingBalance: balance,
+    };
+  });
+
+  const lowestMonth = months.reduce<CashFlowForecastMonth | null>(
+    (lowest, month) => (!lowest || month.closingBalance < lowest.closingBalance ? month : lowest),
+    null
+  );
+
+  return {
+    openingBalance,
+    months,
+    lowBalanceMonth: months.find((month) => month.closingBalance < settings.lowCashThreshold) ?? null,
+    lowestMonth,
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * 消費税ユーティリティ
+ *
+ * ビジネス上の役割:
+ * - 課税事業者の農家がインボイス制度（適格請求書等保存方式）に対応できるよう、
+ *   売上・経費ごとに税率と消費税額を記録する
+ * - 経費は仕入先の適格請求書発行事業者の登録番号（T + 13桁）を記録し、
+ *   仕入税額控除の根拠とする
+ *
+ * 税率の区分:
+ * - 10%: 標準税率（肥料・農薬・資材・燃料など大半の経費）
+ * - 8%: 軽減税率（飲食料品。野菜・果物・米などの農産物の売上は原則こちら）
+ * - 対象外（0%）: 非課税・不課税の取引（地代・保険料・租税公課・人件費など）
+ *
+ * 金額の扱い:
+ * - amount は従来どおり税込金額とし、消費税額は「うち消費税」として別に持つ
+ * - 税込金額からの消費税額は、1円未満を切り捨てる
+ */
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 消費税率（%）
+ */
+export type ConsumptionTaxRate = 10 | 8 | 0;
+
+/**
+ * 税率の選択肢（フォームのドロップダウン用）
+ */
+export const CONSUMPTION_TAX_RATE_OPTIONS: { value: ConsumptionTaxRate; label: string }[] = [
+  { value: 10, label: "10%" },
+  { value: 8, label: "8%（軽減税率）" },
+  { value: 0, label: "対象外（非課税・不課税）" },
+];
+
+/** 経費の税率の初期値（資材・燃料などの標準税率） */
+export const DEFAULT_EXPENSE_TAX_RATE: ConsumptionTaxRate = 10;
+
+/** 売上の税率の初期値（農産物は飲食料品のため軽減税率） */
+export const DEFAULT_SALE_TAX_RATE: ConsumptionTaxRate = 8;
+
+/**
+ * 税率別の集計結果
+ */
+export interface TaxRateSummary {
+  taxRate: ConsumptionTaxRate;
+  count: number;              // 件数
+  taxIncludedTotal: number;   // 税込金額の合計
+  taxTotal: number;           // 消費税額の合計
+  taxExcludedTotal: number;   // 税抜金額の合計（税込 − 消費税）
+}
+
+/**
+ * 税率別集計の対象となるレコード（売上・経費共通）
+ */
+interface TaxableRecord {
+  amount: number;
+  tax_rate?: number | null;
+  tax_amount?: number | null;
+}
+
+// =============================================================================
+// 税率・税額
+// =============================================================================
+
+/**
+ * 任意の値を消費税率に変換する（対応しない値は初期値）
+ *
+ * @param value - DBの値やフォームの入力値（"10" / 8 など）
+ * @param fallbackRate - 変換できない場合の税率
+ */
+export function toConsumptionTaxRate(
+  value: unknown,
+  fallbackRate: ConsumptionTaxRate
+): ConsumptionTaxRate {
+  const rate = typeof value === "string" ? parseInt(value, 10) : value;
+  return rate === 10 || rate === 8 || rate === 0 ? rate : fallbackRate;
+}
+
+/**
+ * 税込金額に含まれる消費税額（1円未満切り捨て）
+ *
+ * 例: 税込 11,000円・10% → 1,000円 / 税込 1,080円・8% → 80円
+ *
+ * @param taxIncludedAmount - 税込金額
+ * @param taxRate - 税率
+ */
+export function calculateIncludedTax(
+  taxIncludedAmount: number,
+  taxRate: ConsumptionTaxRate
+): number {
+  if (taxRate === 0 || !Number.isFinite(taxIncludedAmount)) return 0;
+  // 値引き・返品などのマイナス金額も、絶対値で切り捨ててから符号を戻す
+  const tax = Math.floor((Math.abs(taxIncludedAmount) * taxRate) / (100 + taxRate));
+  return taxIncludedAmount < 0 ? -tax : tax;
+}
+
+// =============================================================================
+// 適格請求書発行事業者の登録番号
+// =============================================================================
+
+/**
+ * 登録番号の形式（T + 13桁の数字）
+ */
+const INVOICE_REGISTRATION_NUMBER_PATTERN = /^T\d{13}$/;
+
+/**
+ * 登録番号を「T + 13桁」の形式に整える
+ *
+ * レシートの印字や手入力の揺れ（全角文字、ハイフン・空白区切り、小文字の t）を吸収する
+ * 例: "Ｔ１２３４-５６７８-９０１２３" → "T1234567890123"
+ *
+ * @param value - 入力値・OCRの読み取り値
+ * @returns 整形した登録番号（形式が正しくなければ null）
+ */
+export function normalizeInvoiceRegistrationNumber(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  const normalized = value
+    // 全角英数字を半角に
+    .replace(/[Ａ-Ｚａ-ｚ０-９]/g, (character) =>
+      String.fromCharCode(character.charCodeAt(0) - 0xfee0)
+    )
+    .replace(/[\s\-－‐ー―]/g, "")
+    .toUpperCase();
+
+  return INVOICE_REGISTRATION_NUMBER_PATTERN.test(normalized) ? normalized : null;
+}
+
+// =============================================================================
+// 税率別の集計
+// =============================================================================
+
+/**
+ * 税率ごとに税込金額・消費税額・税抜金額を集計する
+ *
+ * 税率・消費税額が未登録の古いデータは、初期の税率で消費税額を計算する
+ *
+ * @param records - 売上または経費のレコード
+ * @param fallbackRate - 税率が未登録のレコードに使う税率
+ * @returns 税率の高い順の集計結果（件数0の税率は含めない）
+ */
+export function summarizeByTaxRate(
+  records: TaxableRecord[],
+  fallbackRate: ConsumptionTaxRate
+): TaxRateSummary[] {
+  const summaries = new Map<ConsumptionTaxRate, TaxRateSummary>();
+
+  records.forEach((record) => {
+    const taxRate = toConsumptionTaxRate(record.tax_rate, fallbackRate);
+    const amount = record.amount || 0;
+    const tax = record.tax_amount ?? calculateIncludedTax(amount, taxRate);
+
+    const summary = summaries.get(taxRate) || {
+      taxRate,
+      count: 0,
+      taxIncludedTotal: 0,
+      taxTotal: 0,
+      taxExcludedTotal: 0,
+    };
+    summary.count += 1;
+    summary.taxIncludedTotal += amount;
+    summary.taxTotal += tax;
+    summary.taxExcludedTotal += amount - tax;
+    summaries.set(taxRate, summary);
+  });
+
+  return CONSUMPTION_TAX_RATE_OPTIONS.flatMap((option) => {
+    const summary = summaries.get(option.value);
+    return summary ? [summary] : [];
+  });
+}
+
+/**
+ * 税率の表示名（例: "8%（軽減税率）"）
+ */
+export function getTaxRateLabel(taxRate: ConsumptionTaxRate): string {
+  return CONSUMPTION_TAX_RATE_OPTIONS.find((option) => option.value === taxRate)?.label || "";
+}
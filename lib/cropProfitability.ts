@@ -0,0 +1,241 @@
+/**
+ * 作物別損益ユーティリティ
+ *
+ * ビジネス上の役割:
+ * - 作物ごとに「売上 − 直接費 − 配賦した共通経費」を計算し、
+ *   どの作物が本当に儲かっているかを確認できるようにする
+ * - 分析画面の作物別損益と、AIアシスタントに渡す経営データで使う
+ *
+ * 費用の分け方:
+ * - 直接費: 経費の登録時に作物を指定したもの（苗、作物専用の資材など）
+ * - 共通経費: 作物を指定していない経費（燃料費、機械の修繕費など）。配賦方法に従って各作物に按分する
+ *
+ * 集計はデータベース関数 get_crop_profitability（supabase/crop-profit-schema.sql）で行い、
+ * 配賦の計算だけをアプリ側で行う（配賦方法を切り替えても再取得が不要）
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 共通経費の配賦方法
+ * - equal: 作物数で均等に配賦
+ * - area: 作付面積の比率で配賦
+ * - sales: 売上の比率で配賦
+ */
+export type CropAllocationMethod = "equal" | "area" | "sales";
+
+/**
+ * 配賦方法の選択肢（画面表示用）
+ */
+export const CROP_ALLOCATION_METHODS: {
+  value: CropAllocationMethod;
+  label: string;
+  description: string;
+}[] = [
+  { value: "sales", label: "売上比", description: "売上の大きい作物ほど多く負担します" },
+  { value: "area", label: "面積比", description: "作付面積の広い作物ほど多く負担します" },
+  { value: "equal", label: "均等", description: "全ての作物で同じ金額を負担します" },
+];
+
+/** 配賦方法の初期値 */
+export const DEFAULT_CROP_ALLOCATION_METHOD: CropAllocationMethod = "sales";
+
+/**
+ * 作物ごとの売上と直接費（配賦前）
+ */
+export interface CropRevenueAndCost {
+  cropName: string;
+  revenue: number;
+  directCosts: number;
+}
+
+/**
+ * 作物別損益の集計結果（配賦前）
+ */
+export interface CropProfitabilitySummary {
+  crops: CropRevenueAndCost[];
+  /** 作物に紐付かない共通経費の合計 */
+  sharedCosts: number;
+}
+
+/**
+ * 作物別損益の1行（配賦後）
+ */
+export interface CropProfitRow extends CropRevenueAndCost {
+  /** 配賦された共通経費 */
+  allocatedCosts: number;
+  /** 利益 = 売上 − 直接費 − 配賦費 */
+  margin: number;
+  /** 利益率（%）。売上がなければ null */
+  marginRate: number | null;
+}
+
+/**
+ * 配賦の結果
+ */
+export interface CropProfitAllocation {
+  rows: CropProfitRow[];
+  /**
+   * 選んだ配賦方法で按分できず、均等配賦に切り替えた場合 true
+   * （面積が未登録、または売上が0の場合）
+   */
+  isFallbackToEqual: boolean;
+}
+
+/**
+ * get_crop_profitability 関数が返す JSON の構造
+ */
+interface CropProfitabilityRecord {
+  crops: { crop_name: string; revenue: number; direct_costs: number }[];
+  shared_costs: number;
+}
+
+// =============================================================================
+// 集計
+// =============================================================================
+
+/**
+ * 指定期間の作物ごとの売上・直接費と、共通経費の合計を取得
+ *
+ * RLSにより、呼び出したユーザー自身のデータのみが集計対象になる
+ *
+ * @param supabase - Supabaseクライアント（ブラウザ用・サーバー用どちらでも可）
+ * @param startDate - 期間の開始日（YYYY-MM-DD、この日を含む）
+ * @param endDate - 期間の終了日（YYYY-MM-DD、この日を含む）
+ * @throws 集計に失敗した場合
+ */
+export async function fetchCropProfitability(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<CropProfitabilitySummary> {
+  const { data, error } = await supabase.rpc("get_crop_profitability", {
+    range_start: startDate,
+    range_end: endDate,
+  });
+
+  if (error) {
+    console.error("作物別損益の取得に失敗:", error);
+    throw new Error("作物別損益の取得に失敗しました");
+  }
+
+  const record = data as CropProfitabilityRecord;
+
+  // 金額は bigint（SUMの結果）として返る場合があるため Number で数値化する
+  return {
+    crops: record.crops.map((crop) => ({
+      cropName: crop.crop_name,
+      revenue: Number(crop.revenue),
+      directCosts: Number(crop.direct_costs),
+    })),
+    sharedCosts: Number(record.shared_costs),
+  };
+}
+
+// =============================================================================
+// 配賦
+// =============================================================================
+
+/**
+ * 金額を比率で按分する（合計が元の金額と必ず一致するよう、端数は最大剰余法で配る）
+ *
+ * @param amount - 按分する金額
+ * @param weights - 按分の比率（合計が0より大きいこと）
+ */
+function distributeByWeights(amount: number, weights: number[]): number[] {
+  // 返品などで共通経費がマイナスの場合も、絶対値で按分してから符号を戻す
+  if (amount < 0) {
+    return distributeByWeights(-amount, weights).map((share) => -share);
+  }
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const exactShares = weights.map((weight) => (amount * weight) / totalWeight);
+  const shares = exactShares.map(Math.floor);
+
+  // 切り捨てで余った金額を、端数の大きい順に1円ずつ配る
+  let remainder = amount - shares.reduce((sum, share) => sum + share, 0);
+  const indexesByFraction = exactShares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction);
+
+  for (const { index } of indexesByFraction) {
+    if (remainder <= 0) break;
+    shares[index] += 1;
+    remainder -= 1;
+  }
+
+  return shares;
+}
+
+/**
+ * 共通経費を作物に配賦し、作物ごとの利益を計算する
+ *
+ * 流れ:
+ * 1. 配賦の対象となる作物を決める（面積比の場合は、面積を登録した作物も含める）
+ * 2. 配賦方法に応じた比率で共通経費を按分する
+ *    （面積の合計・売上の合計が0の場合は均等配賦に切り替える）
+ * 3. 利益と利益率を計算し、利益の大きい順に並べる
+ *
+ * @param summary - fetchCropProfitability() の結果
+ * @param method - 配賦方法
+ * @param cropAreas - 作物名 → 作付面積（アール）。面積比のときのみ使用
+ */
+export function allocateSharedCosts(
+  summary: CropProfitabilitySummary,
+  method: CropAllocationMethod,
+  cropAreas: Map<string, number>
+): CropProfitAllocation {
+  const crops = [...summary.crops];
+
+  // 売上・経費がまだなくても、面積を登録した作物は共通経費を負担する（収穫前の作物など）
+  if (method === "area") {
+    cropAreas.forEach((area, cropName) => {
+      if (area > 0 && !crops.some((crop) => crop.cropName === cropName)) {
+        crops.push({ cropName, revenue: 0, directCosts: 0 });
+      }
+    });
+  }
+
+  if (crops.length === 0) {
+    return { rows: [], isFallbackToEqual: false };
+  }
+
+  const weightsByMethod: Record<CropAllocationMethod, number[]> = {
+    equal: crops.map(() => 1),
+    area: crops.map((crop) => cropAreas.get(crop.cropName) || 0),
+    sales: crops.map((crop) => Math.max(crop.revenue, 0)),
+  };
+
+  const selectedWeights = weightsByMethod[method];
+  const isFallbackToEqual = selectedWeights.every((weight) => weight === 0);
+  const weights = isFallbackToEqual ? weightsByMethod.equal : selectedWeights;
+
+  const allocatedCosts = distributeByWeights(summary.sharedCosts, weights);
+
+  const rows = crops
+    .map((crop, index) => {
+      const margin = crop.revenue - crop.directCosts - allocatedCosts[index];
+      return {
+        ...crop,
+        allocatedCosts: allocatedCosts[index],
+        margin,
+        marginRate: crop.revenue > 0 ? Math.round((margin / crop.revenue) * 1000) / 10 : null,
+      };
+    })
+    .sort((a, b) => b.margin - a.margin);
+
+  return { rows, isFallbackToEqual };
+}
+
+/**
+ * 任意の値を配賦方法に変換する（対応しない値は初期値）
+ */
+export function toCropAllocationMethod(value: unknown): CropAllocationMethod {
+  return CROP_ALLOCATION_METHODS.some((method) => method.value === value)
+    ? (value as CropAllocationMethod)
+    : DEFAULT_CROP_ALLOCATION_METHOD;
+}
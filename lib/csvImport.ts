@@ -0,0 +1,422 @@
+/**
+ * 銀行・JA（農協）の入出金明細CSV取込ユーティリティ
+ *
+ * ビジネス上の役割:
+ * - 銀行やJAのネットバンキングからダウンロードした明細CSVを読み込み、
+ *   経費・売上を1件ずつ手入力する手間をなくす
+ *
+ * 主な機能:
+ * - 文字コード（Shift_JIS / UTF-8）の判定と読み込み
+ * - 列の対応付け（日付・摘要・金額 or 入金/出金）の推定
+ * - 行ごとの入出金判定（入金 → 売上、出金 → 経費）
+ * - 摘要からの勘定科目の推定
+ * - 登録済みデータとの重複判定（日付 + 金額）
+ *
+ * このファイルは画面に依存しない処理のみを持ち、
+ * 画面の状態管理は components/csv-import/hooks/useCsvImport.ts が担当する
+ */
+
+import * as XLSX from "xlsx";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * CSVの文字コード
+ * - auto: UTF-8として読めなければShift_JISとみなす
+ */
+export type CsvEncoding = "auto" | "utf-8" | "shift_jis";
+
+/**
+ * 金額列の形式
+ * - signed: 1つの金額列（プラス = 入金、マイナス = 出金）
+ * - split: 入金列と出金列が分かれている（多くの銀行・JAの明細）
+ */
+export type AmountColumnMode = "signed" | "split";
+
+/**
+ * CSVの列の対応付け
+ * 列番号は0始まり。未使用の列は null
+ */
+export interface CsvColumnMapping {
+  dateColumn: number | null;
+  descriptionColumn: number | null;
+  amountMode: AmountColumnMode;
+  /** amountMode が signed のときの金額列 */
+  amountColumn: number | null;
+  /** amountMode が split のときの入金列 */
+  depositColumn: number | null;
+  /** amountMode が split のときの出金列 */
+  withdrawalColumn: number | null;
+  /** 1行目を見出し行として読み飛ばすか */
+  hasHeaderRow: boolean;
+}
+
+/**
+ * 取込行の種類
+ */
+export type ImportRowKind = "sale" | "expense";
+
+/**
+ * CSVの1行を取込用に変換した結果
+ */
+export interface ParsedImportRow {
+  /** CSV上の行番号（1始まり、エラー表示用） */
+  rowNumber: number;
+  /** 日付（YYYY-MM-DD）。読み取れない場合は空文字 */
+  date: string;
+  /** 摘要 */
+  description: string;
+  /** 金額（円、常に正の数） */
+  amount: number;
+  /** 入金 → 売上、出金 → 経費 */
+  kind: ImportRowKind;
+  /** 読み取りエラー（問題なければ null） */
+  error: string | null;
+}
+
+/**
+ * 勘定科目の推定に使う科目
+ */
+export interface CategoryCandidate {
+  id: string;
+  name: string;
+}
+
+// =============================================================================
+// 読み込み
+// =============================================================================
+
+/**
+ * CSVファイルの中身を文字列に変換する
+ *
+ * 日本の銀行・JAのCSVはShift_JISが多いため、
+ * auto の場合は UTF-8 として厳密に読めなかったときに Shift_JIS で読み直す
+ *
+ * @param buffer - ファイルの中身
+ * @param encoding - 文字コード
+ * @returns CSVの文字列（BOMは取り除く）
+ */
+export function decodeCsvBuffer(buffer: ArrayBuffer, encoding: CsvEncoding): string {
+  let text: string;
+
+  if (encoding === "shift_jis") {
+    text = new TextDecoder("shift_jis").decode(buffer);
+  } else if (encoding === "utf-8") {
+    text = new TextDecoder("utf-8").decode(buffer);
+  } else {
+    try {
+      // fatal: true で、UTF-8として不正なバイト列があれば例外にする
+      text = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+    } catch {
+      text = new TextDecoder("shift_jis").decode(buffer);
+    }
+  }
+
+  return text.replace(/^﻿/, "");
+}
+
+/**
+ * CSV文字列を行 × 列の文字列配列に変換する
+ *
+ * 引用符やカンマを含むセルの扱いは xlsx ライブラリに任せる
+ * （raw: true で日付や数値の自動変換をせず、文字列のまま受け取る）
+ *
+ * @param csvText - CSVの文字列
+ * @returns 空行を除いた行の配列
+ */
+export function parseCsvText(csvText: string): string[][] {
+  const workbook = XLSX.read(csvText, { type: "string", raw: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!worksheet) return [];
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    raw: false,
+    defval: "",
+    blankrows: false,
+  });
+
+  return rows.map((row) => row.map((cell) => String(cell ?? "").trim()));
+}
+
+// =============================================================================
+// 列の対応付け
+// =============================================================================
+
+/**
+ * 見出し名から列を探すためのキーワード
+ */
+const COLUMN_KEYWORDS = {
+  date: ["日付", "取引日", "年月日", "勘定日", "お取引日"],
+  description: ["摘要", "内容", "お取引内容", "取引内容", "備考", "メモ"],
+  deposit: ["入金", "お預り", "お預かり", "預入", "入金額"],
+  withdrawal: ["出金", "お支払", "お引出", "引出", "支払", "出金額"],
+  amount: ["金額", "取引金額"],
+};
+
+/**
+ * 見出し行にキーワードを含む最初の列を探す
+ */
+function findColumnByKeywords(headerRow: string[], keywords: string[]): number | null {
+  const columnIndex = headerRow.findIndex((header) =>
+    keywords.some((keyword) => header.includes(keyword))
+  );
+  return columnIndex >= 0 ? columnIndex : null;
+}
+
+/**
+ * 見出し行から列の対応付けを推定する
+ *
+ * 入金列と出金列が両方見つかれば split、それ以外は signed とする
+ * 推定できなかった列は null のままにし、画面でユーザーに選んでもらう
+ *
+ * @param headerRow - CSVの1行目
+ * @returns 推定した列の対応付け
+ */
+export function guessColumnMapping(headerRow: string[]): CsvColumnMapping {
+  const dateColumn = findColumnByKeywords(headerRow, COLUMN_KEYWORDS.date);
+  const descriptionColumn = findColumnByKeywords(headerRow, COLUMN_KEYWORDS.description);
+  const depositColumn = findColumnByKeywords(headerRow, COLUMN_KEYWORDS.deposit);
+  const withdrawalColumn = findColumnByKeywords(headerRow, COLUMN_KEYWORDS.withdrawal);
+  const amountColumn = findColumnByKeywords(headerRow, COLUMN_KEYWORDS.amount);
+
+  const isSplit = depositColumn !== null && withdrawalColumn !== null;
+
+  return {
+    dateColumn,
+    descriptionColumn,
+    amountMode: isSplit ? "split" : "signed",
+    amountColumn: isSplit ? null : amountColumn,
+    depositColumn: isSplit ? depositColumn : null,
+    withdrawalColumn: isSplit ? withdrawalColumn : null,
+    // 日付列が見出しから見つかった = 1行目は見出し行
+    hasHeaderRow: dateColumn !== null,
+  };
+}
+
+/**
+ * 列の対応付けが取込に必要な項目を満たしているか
+ */
+export function isColumnMappingComplete(mapping: CsvColumnMapping): boolean {
+  if (mapping.dateColumn === null) return false;
+  if (mapping.amountMode === "signed") return mapping.amountColumn !== null;
+  return mapping.depositColumn !== null && mapping.withdrawalColumn !== null;
+}
+
+// =============================================================================
+// 値の変換
+// =============================================================================
+
+/** 和暦の元号と西暦の差（元年 = 差 + 1） */
+const JAPANESE_ERA_OFFSETS: Record<string, number> = {
+  令和: 2018,
+  R: 2018,
+  平成: 1988,
+  H: 1988,
+};
+
+/**
+ * 年・月・日を「YYYY-MM-DD」形式にする（存在しない日付は空文字）
+ */
+function toIsoDate(year: number, month: number, day: number): string {
+  const date = new Date(year, month - 1, day);
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return "";
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * 明細の日付を「YYYY-MM-DD」形式に変換する
+ *
+ * 対応形式:
+ * - 2024/01/05, 2024-1-5, 2024.1.5
+ * - 20240105
+ * - 2024年1月5日
+ * - 令和6年1月5日, R6.1.5, R06/01/05
+ *
+ * @returns 変換できなければ空文字
+ */
+export function parseStatementDate(value: string): string {
+  const text = value.trim().replace(/\s/g, "");
+
+  // 和暦
+  const eraMatch = text.match(/^(令和|平成|R|H)(\d{1,2}|元)[年./-](\d{1,2})[月./-](\d{1,2})日?$/);
+  if (eraMatch) {
+    const eraYear = eraMatch[2] === "元" ? 1 : Number(eraMatch[2]);
+    const year = JAPANESE_ERA_OFFSETS[eraMatch[1]] + eraYear;
+    return toIsoDate(year, Number(eraMatch[3]), Number(eraMatch[4]));
+  }
+
+  // 区切り文字あり（西暦）
+  const separatedMatch = text.match(/^(\d{4})[年./-](\d{1,2})[月./-](\d{1,2})日?$/);
+  if (separatedMatch) {
+    return toIsoDate(
+      Number(separatedMatch[1]),
+      Number(separatedMatch[2]),
+      Number(separatedMatch[3])
+    );
+  }
+
+  // 区切り文字なし（YYYYMMDD）
+  const compactMatch = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compactMatch) {
+    return toIsoDate(Number(compactMatch[1]), Number(compactMatch[2]), Number(compactMatch[3]));
+  }
+
+  return "";
+}
+
+/**
+ * 明細の金額を数値に変換する
+ *
+ * 対応形式:
+ * - 1,234 / ¥1,234 / 1,234円
+ * - マイナス表記: -1,234 / △1,234 / ▲1,234 / (1,234)
+ *
+ * @returns 変換できなければ null（空欄も null）
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim().replace(/[\s,，¥￥円]/g, "");
+  if (text === "") return null;
+
+  let isNegative = false;
+  if (/^[-−△▲]/.test(text)) {
+    isNegative = true;
+    text = text.slice(1);
+  } else if (/^\(.*\)$/.test(text)) {
+    isNegative = true;
+    text = text.slice(1, -1);
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+
+  const amount = Math.round(Number(text));
+  return isNegative ? -amount : amount;
+}
+
+// =============================================================================
+// 取込行の作成
+// =============================================================================
+
+/**
+ * CSVの行を列の対応付けに従って取込行に変換する
+ *
+ * 入出金の判定:
+ * - signed: プラス → 売上、マイナス → 経費
+ * - split: 入金列に金額あり → 売上、出金列に金額あり → 経費
+ *
+ * 金額が0円・空欄の行（残高のみの行など）は取込対象外として除外する
+ *
+ * @param rows - parseCsvText() の結果
+ * @param mapping - 列の対応付け
+ * @returns 取込行の配列
+ */
+export function buildImportRows(rows: string[][], mapping: CsvColumnMapping): ParsedImportRow[] {
+  const dataRows = mapping.hasHeaderRow ? rows.slice(1) : rows;
+  const rowNumberOffset = mapping.hasHeaderRow ? 2 : 1;
+
+  const importRows: ParsedImportRow[] = [];
+
+  dataRows.forEach((row, index) => {
+    const cell = (column: number | null): string => (column === null ? "" : row[column] || "");
+
+    // 入出金の判定
+    let signedAmount: number | null;
+    if (mapping.amountMode === "signed") {
+      signedAmount = parseStatementAmount(cell(mapping.amountColumn));
+    } else {
+      const deposit = parseStatementAmount(cell(mapping.depositColumn));
+      const withdrawal = parseStatementAmount(cell(mapping.withdrawalColumn));
+      signedAmount = deposit ? Math.abs(deposit) : withdrawal ? -Math.abs(withdrawal) : null;
+    }
+
+    // 金額のない行は取込対象外
+    if (!signedAmount) return;
+
+    const date = parseStatementDate(cell(mapping.dateColumn));
+
+    importRows.push({
+      rowNumber: index + rowNumberOffset,
+      date,
+      description: cell(mapping.descriptionColumn),
+      amount: Math.abs(signedAmount),
+      kind: signedAmount > 0 ? "sale" : "expense",
+      error: date ? null : "日付を読み取れません",
+    });
+  });
+
+  return importRows;
+}
+
+// =============================================================================
+// 勘定科目の推定
+// =============================================================================
+
+/**
+ * 摘要のキーワード → 勘定科目名
+ * 科目名そのものが摘要に含まれない場合の補助として使う
+ */
+const CATEGORY_KEYWORDS: { keywords: string[]; categoryName: string }[] = [
+  { keywords: ["電気", "電力", "ガス", "水道"], categoryName: "動力光熱費" },
+  { keywords: ["ガソリン", "軽油", "灯油", "ENEOS", "エネオス", "出光", "コスモ"], categoryName: "燃料費" },
+  { keywords: ["肥料"], categoryName: "肥料費" },
+  { keywords: ["農薬"], categoryName: "農薬費" },
+  { keywords: ["種", "苗"], categoryName: "種苗費" },
+  { keywords: ["運賃", "運送", "ヤマト", "佐川", "ゆうパック"], categoryName: "荷造運賃" },
+  { keywords: ["段ボール", "ダンボール", "梱包"], categoryName: "梱包資材費" },
+  { keywords: ["共済"], categoryName: "共済仕掛け金" },
+  { keywords: ["税", "固定資産"], categoryName: "租税公課" },
+  { keywords: ["手数料"], categoryName: "支払い手数料" },
+  { keywords: ["保険"], categoryName: "保険費" },
+  { keywords: ["修理", "修繕"], categoryName: "修繕費" },
+  { keywords: ["地代", "賃借", "賃料"], categoryName: "農地賃借料" },
+];
+
+/**
+ * 摘要から勘定科目を推定する
+ *
+ * 優先順位:
+ * 1. 摘要に科目名がそのまま含まれる（長い科目名を優先）
+ * 2. 摘要にキーワードが含まれ、対応する科目が登録されている
+ *
+ * @param description - 明細の摘要
+ * @param categories - ユーザーの勘定科目
+ * @returns 推定した科目（見つからなければ null）
+ */
+export function suggestCategory(
+  description: string,
+  categories: CategoryCandidate[]
+): CategoryCandidate | null {
+  if (!description) return null;
+
+  const nameMatch = [...categories]
+    .sort((categoryA, categoryB) => categoryB.name.length - categoryA.name.length)
+    .find((category) => description.includes(category.name));
+  if (nameMatch) return nameMatch;
+
+  for (const { keywords, categoryName } of CATEGORY_KEYWORDS) {
+    if (!keywords.some((keyword) => description.includes(keyword))) continue;
+    const keywordMatch = categories.find((category) => category.name === categoryName);
+    if (keywordMatch) return keywordMatch;
+  }
+
+  return null;
+}
+
+// =============================================================================
+// 重複判定
+// =============================================================================
+
+/**
+ * 重複判定のキーを作成（種類 + 日付 + 金額）
+ */
+export function getDuplicateKey(kind: ImportRowKind, date: string, amount: number): string {
+  return `${kind}|${date}|${amount}`;
+}
@@ -0,0 +1,9 @@
+import { describe, expect, it } from "vitest";
+import { formatJapanDate } from "./dateUtils";
+
+describe("formatJapanDate", () => {
+  it("サーバーのタイムゾーンに関係なく、日本時間の日付になる", () => {
+    expect(formatJapanDate(new Date("2024-06-30T14:59:59Z"))).toBe("2024-06-30");
+    expect(formatJapanDate(new Date("2024-06-30T15:00:00Z"))).toBe("2024-07-01");
+  });
+});
@@ -119,3 +119,25 @@ export function parseYearMonth(yearMonthString: string): { year: number; month:
   const [year, month] = yearMonthString.split("-").map(Number);
   return { year, month };
 }
+
+/** 日本時間（UTC+9、夏時間なし）とUTCとの時差 */
+const JAPAN_TIME_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/**
+ * 日時を日本時間の日付（YYYY-MM-DD形式）に変換
+ * toISOString() はUTCの日付になり、日本時間の0時〜9時は前日の日付になってしまうため、
+ * サーバー・ブラウザのタイムゾーンに関係なく日本時間の日付にそろえる
+ * @param date 変換する日時
+ * @returns "YYYY-MM-DD"形式の日付
+ */
+export function formatJapanDate(date: Date): string {
+  return new Date(date.getTime() + JAPAN_TIME_OFFSET_MS).toISOString().split("T")[0];
+}
+
+/**
+ * 今日の日付（日本時間）をYYYY-MM-DD形式で取得
+ * @returns "YYYY-MM-DD"形式の日付
+ */
+export function getTodayInJapan(): string {
+  return formatJapanDate(new Date());
+}
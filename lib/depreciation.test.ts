@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { createFakeSupabase } from "@/lib/testing/fakeSupabase";
+import {
+  buildDepreciationEntries,
+  calculateDepreciationSchedule,
+  getDepreciationForYear,
+  syncDepreciationEntries,
+  type FixedAsset,
+} from "./depreciation";
+
+/** テスト用の資産（トラクター 100万円・耐用年数7年・定額法・毎月） */
+const tractor: FixedAsset = {
+  id: "asset-1",
+  name: "トラクター",
+  quantity: "1台",
+  acquisitionDate: "2024-04-10",
+  acquisitionCost: 1_000_000,
+  usefulLife: 7,
+  method: "straight_line",
+  businessUseRatio: 100,
+  disposalDate: null,
+  entryFrequency: "monthly",
+  categoryId: "category-1",
+  entriesStartDate: "2024-04-10",
+  note: null,
+};
+
+describe("calculateDepreciationSchedule", () => {
+  it("定額法: 取得した年は月割りし、備忘価額1円まで償却する", () => {
+    const schedule = calculateDepreciationSchedule(tractor);
+
+    expect(schedule[0]).toMatchObject({
+      year: 2024,
+      months: 9,
+      rate: 0.143,
+      depreciation: 107_250,
+      closingBookValue: 892_750,
+    });
+    expect(schedule[1]).toMatchObject({ year: 2025, months: 12, depreciation: 143_000 });
+
+    const last = schedule[schedule.length - 1];
+    expect(last).toMatchObject({ year: 2031, depreciation: 34_749, closingBookValue: 1 });
+  });
+
+  it("定率法: 償却保証額を下回った年から改定取得価額 × 改定償却率にする", () => {
+    const schedule = calculateDepreciationSchedule({
+      ...tractor,
+      acquisitionDate: "2024-01-01",
+      usefulLife: 5,
+      method: "declining_balance",
+    });
+
+    expect(schedule.map((row) => row.depreciation)).toEqual([
+      400_000, 240_000, 144_000, 108_000, 107_999,
+    ]);
+    // 4年目に改定償却率（0.500）に切り替わる
+    expect(schedule[3]).toMatchObject({ baseAmount: 216_000, rate: 0.5 });
+    expect(schedule[4].closingBookValue).toBe(1);
+  });
+
+  it("必要経費算入額は事業専用割合を掛けて1円未満を切り捨てる", () => {
+    const row = getDepreciationForYear({ ...tractor, businessUseRatio: 60 }, 2024);
+
+    expect(row?.depreciation).toBe(107_250);
+    expect(row?.deductibleAmount).toBe(64_350);
+  });
+
+  it("除却した年は除却した月までで終わる", () => {
+    const schedule = calculateDepreciationSchedule({ ...tractor, disposalDate: "2026-06-15" });
+
+    expect(schedule.map((row) => row.year)).toEqual([2024, 2025, 2026]);
+    expect(schedule[2]).toMatchObject({ months: 6, depreciation: 71_500 });
+  });
+
+  it("償却しない年は null を返す", () => {
+    expect(getDepreciationForYear(tractor, 2023)).toBeNull();
+  });
+});
+
+describe("buildDepreciationEntries", () => {
+  it("毎月: 月末に割り振り、割り切れない分は最後の月に足す", () => {
+    const entries = buildDepreciationEntries(tractor, "2024-12-31");
+
+    expect(entries).toHaveLength(9);
+    expect(entries[0]).toEqual({
+      date: "2024-04-30",
+      amount: 11_916,
+      description: "トラクター 減価償却費（2024年4月分）",
+    });
+    expect(entries[8]).toMatchObject({ date: "2024-12-31", amount: 11_922 });
+    expect(entries.reduce((sum, entry) => sum + entry.amount, 0)).toBe(107_250);
+  });
+
+  it("作成開始日より前と、指定日より後の分は含めない", () => {
+    const entries = buildDepreciationEntries(
+      { ...tractor, entriesStartDate: "2024-06-01" },
+      "2024-08-15"
+    );
+
+    expect(entries.map((entry) => entry.date)).toEqual(["2024-06-30", "2024-07-31"]);
+  });
+
+  it("毎年: 12月31日（除却した年は除却日）に1年分を作成する", () => {
+    const entries = buildDepreciationEntries(
+      { ...tractor, entryFrequency: "annual", disposalDate: "2026-06-15" },
+      "2030-12-31"
+    );
+
+    expect(entries.map((entry) => [entry.date, entry.amount])).toEqual([
+      ["2024-12-31", 107_250],
+      ["2025-12-31", 143_000],
+      ["2026-06-15", 71_500],
+    ]);
+  });
+});
+
+/** 勘定科目（減価償却費） */
+const categories = [{ id: "category-1", name: "減価償却費" }];
+
+describe("syncDepreciationEntries", () => {
+  it("作成済みの経費が1000件を超えても、重複して作成しない", async () => {
+    // 耐用年数20年の資産を6つ（作成済みの経費は合計1400件以上）
+    const assets: FixedAsset[] = Array.from({ length: 6 }, (_, index) => ({
+      ...tractor,
+      id: `asset-${index}`,
+      name: `ビニールハウス${index}`,
+      acquisitionDate: "2000-01-01",
+      entriesStartDate: "2000-01-01",
+      usefulLife: 20,
+    }));
+    const existingRows = assets.flatMap((asset) =>
+      buildDepreciationEntries(asset, "2099-12-31").map((entry, index) => ({
+        id: `${asset.id}-${index}`,
+        fixed_asset_id: asset.id,
+        date: entry.date,
+        amount: entry.amount,
+        category_id: asset.categoryId,
+        description: entry.description,
+      }))
+    );
+    expect(existingRows.length).toBeGreaterThan(1000);
+
+    const { supabase, calls } = createFakeSupabase({
+      tables: { expense_categories: categories, expenses: existingRows },
+    });
+    const changed = await syncDepreciationEntries(supabase, "user-1", assets);
+
+    expect(changed).toBe(0);
+    expect(calls.upserted).toHaveLength(0);
+    expect(calls.updated).toBe(0);
+    expect(calls.deleted).toBe(0);
+  });
+
+  it("まだ作成していない月の経費を作成する", async () => {
+    const { supabase, calls } = createFakeSupabase({
+      tables: { expense_categories: categories },
+    });
+    await syncDepreciationEntries(supabase, "user-1", [
+      { ...tractor, acquisitionDate: "2020-04-10", entriesStartDate: "2020-04-10" },
+    ]);
+
+    expect(calls.upserted[0]).toMatchObject({
+      user_id: "user-1",
+      date: "2020-04-30",
+      category: "減価償却費",
+      category_id: "category-1",
+      tax_rate: 0,
+      fixed_asset_id: "asset-1",
+    });
+  });
+});
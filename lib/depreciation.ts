@@ -0,0 +1,647 @@
+/**
+ * 固定資産台帳・減価償却のユーティリティ
+ *
+ * このファイルは、トラクター・ビニールハウス・防除機などの固定資産を台帳に登録し、
+ * 毎年の減価償却費を計算して経費として自動で作成するための関数を提供します。
+ *
+ * ビジネス上の役割：
+ * - 「機械等減価償却費」を手で計算して入力しなくてよくする
+ * - 青色申告決算書の「減価償却費の計算」欄を作成する（lib/taxReturn.ts）
+ *
+ * 計算方法（平成24年4月1日以後に取得した資産の計算方法）：
+ * - 定額法: 取得価額 × 定額法の償却率
+ * - 定率法（200%定率法）: 期首の未償却残高 × 定率法の償却率
+ *   償却費が償却保証額（取得価額 × 保証率）を下回った年からは、
+ *   その年の期首の未償却残高（改定取得価額）× 改定償却率
+ * - 取得した年・除却した年は、使用した月数で月割りする（1円未満は切り上げ）
+ * - 未償却残高が1円（備忘価額）になるまで償却する
+ * - 必要経費にするのは、償却費 × 事業専用割合（1円未満は切り捨て）
+ *
+ * 経費の作成のタイミング：
+ * - 資産の登録・変更時（設定画面の固定資産台帳）
+ * - ログイン後のダッシュボード表示時に、その日までの分を追いつき作成する
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { canEditFarmData, getCurrentFarmRole } from "@/lib/farms";
+import { formatJapanDate } from "@/lib/dateUtils";
+import { fetchAllPages } from "@/lib/supabase/pagination";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 償却方法（定額法 / 定率法）
+ */
+export type DepreciationMethod = "straight_line" | "declining_balance";
+
+/**
+ * 償却費の経費を作成する頻度（毎月 / 毎年12月31日にまとめて）
+ */
+export type DepreciationEntryFrequency = "monthly" | "annual";
+
+/**
+ * 固定資産台帳の1資産
+ */
+export interface FixedAsset {
+  id: string;
+  /** 資産の名称（例: トラクター（○○ 25馬力）） */
+  name: string;
+  /** 面積又は数量（例: 1台、200㎡） */
+  quantity: string | null;
+  /** 取得日（事業に使い始めた日。YYYY-MM-DD） */
+  acquisitionDate: string;
+  /** 取得価額（円） */
+  acquisitionCost: number;
+  /** 法定耐用年数 */
+  usefulLife: number;
+  method: DepreciationMethod;
+  /** 事業専用割合（%） */
+  businessUseRatio: number;
+  /** 除却・売却した日（使用中は null） */
+  disposalDate: string | null;
+  entryFrequency: DepreciationEntryFrequency;
+  /** 作成する経費の勘定科目（勘定科目を削除した場合は null） */
+  categoryId: string | null;
+  /** この日以降の償却費の経費を作成する（YYYY-MM-DD） */
+  entriesStartDate: string;
+  /** 摘要 */
+  note: string | null;
+}
+
+/**
+ * 資産の登録・更新時の入力値
+ */
+export type FixedAssetInput = Omit<FixedAsset, "id">;
+
+/**
+ * 1年分の減価償却費（決算書の「減価償却費の計算」欄の1行に対応）
+ */
+export interface DepreciationYear {
+  year: number;
+  /** 本年中の償却期間（月数） */
+  months: number;
+  /** 償却の基礎になる金額（定額法は取得価額、定率法は期首の未償却残高または改定取得価額） */
+  baseAmount: number;
+  /** 償却率（定率法で改定償却率に切り替えた年は改定償却率） */
+  rate: number;
+  /** 期首の未償却残高 */
+  openingBookValue: number;
+  /** 本年分の償却費 */
+  depreciation: number;
+  /** 本年分の必要経費算入額（償却費 × 事業専用割合） */
+  deductibleAmount: number;
+  /** 期末の未償却残高 */
+  closingBookValue: number;
+}
+
+/**
+ * 作成する償却費の経費1件
+ */
+export interface DepreciationEntry {
+  /** 日付（YYYY-MM-DD。月末または12月31日） */
+  date: string;
+  amount: number;
+  description: string;
+}
+
+// =============================================================================
+// 定数・表示用
+// =============================================================================
+
+/**
+ * 償却方法の表示名
+ */
+export const DEPRECIATION_METHOD_LABELS: Record<DepreciationMethod, string> = {
+  straight_line: "定額法",
+  declining_balance: "定率法",
+};
+
+/**
+ * 経費を作成する頻度の表示名
+ */
+export const DEPRECIATION_ENTRY_FREQUENCY_LABELS: Record<DepreciationEntryFrequency, string> = {
+  monthly: "毎月（月末）",
+  annual: "毎年（12月31日）",
+};
+
+/**
+ * 農業でよく使う資産の法定耐用年数（減価償却資産の耐用年数等に関する省令 別表）
+ * 一覧にない資産は、耐用年数を直接入力する
+ */
+export const USEFUL_LIFE_PRESETS: { label: string; usefulLife: number }[] = [
+  { label: "農業用設備（トラクター・コンバイン・田植機・防除機など）", usefulLife: 7 },
+  { label: "ビニールハウス（パイプハウス・鉄骨ハウス）", usefulLife: 14 },
+  { label: "農業用の構築物（木造のもの）", usefulLife: 5 },
+  { label: "農業用の構築物（コンクリート・ブロック造の堆肥舎など）", usefulLife: 17 },
+  { label: "作業小屋・倉庫（木造）", usefulLife: 15 },
+  { label: "作業小屋・倉庫（鉄骨造・骨格材の肉厚3mm超4mm以下）", usefulLife: 24 },
+  { label: "軽トラック・軽自動車", usefulLife: 4 },
+  { label: "トラック（普通貨物自動車）", usefulLife: 5 },
+  { label: "パソコン", usefulLife: 4 },
+];
+
+/** 定率法を選べる最長の耐用年数（これより長い資産は定額法で登録する） */
+export const MAX_DECLINING_BALANCE_USEFUL_LIFE = 20;
+
+/** 未償却残高として残す備忘価額（円） */
+const MEMORANDUM_VALUE = 1;
+
+/**
+ * 200%定率法の償却率・改定償却率・保証率（耐用年数2〜20年）
+ * 浮動小数点の誤差を避けるため、償却率・改定償却率は1000分率、保証率は100000分率で持つ
+ */
+const DECLINING_BALANCE_RATES: Record<
+  number,
+  { rate: number; revisedRate: number; guaranteeRate: number }
+> = {
+  2: { rate: 1000, revisedRate: 0, guaranteeRate: 0 },
+  3: { rate: 667, revisedRate: 1000, guaranteeRate: 11089 },
+  4: { rate: 500, revisedRate: 1000, guaranteeRate: 12499 },
+  5: { rate: 400, revisedRate: 500, guaranteeRate: 10800 },
+  6: { rate: 333, revisedRate: 334, guaranteeRate: 9911 },
+  7: { rate: 286, revisedRate: 334, guaranteeRate: 8680 },
+  8: { rate: 250, revisedRate: 334, guaranteeRate: 7909 },
+  9: { rate: 222, revisedRate: 250, guaranteeRate: 7126 },
+  10: { rate: 200, revisedRate: 250, guaranteeRate: 6552 },
+  11: { rate: 182, revisedRate: 200, guaranteeRate: 5992 },
+  12: { rate: 167, revisedRate: 200, guaranteeRate: 5566 },
+  13: { rate: 154, revisedRate: 167, guaranteeRate: 5180 },
+  14: { rate: 143, revisedRate: 167, guaranteeRate: 4854 },
+  15: { rate: 133, revisedRate: 143, guaranteeRate: 4565 },
+  16: { rate: 125, revisedRate: 143, guaranteeRate: 4294 },
+  17: { rate: 118, revisedRate: 125, guaranteeRate: 4038 },
+  18: { rate: 111, revisedRate: 112, guaranteeRate: 3884 },
+  19: { rate: 105, revisedRate: 112, guaranteeRate: 3693 },
+  20: { rate: 100, revisedRate: 112, guaranteeRate: 3486 },
+};
+
+/** fixed_assets の取得カラム */
+const ASSET_COLUMNS =
+  "id, name, quantity, acquisition_date, acquisition_cost, useful_life, method, " +
+  "business_use_ratio, disposal_date, entry_frequency, category_id, entries_start_date, note";
+
+/**
+ * 年月の末日（YYYY-MM-DD）
+ */
+const getMonthEndDate = (year: number, month: number): string =>
+  new Date(Date.UTC(year, month, 0)).toISOString().split("T")[0];
+
+// =============================================================================
+// 減価償却費の計算
+// =============================================================================
+
+/**
+ * 定額法の償却率（1000分率。1 ÷ 耐用年数 を小数点以下3桁に切り上げ。例: 7年 → 143）
+ */
+const getStraightLineRate = (usefulLife: number): number => Math.ceil(1000 / usefulLife);
+
+/**
+ * 償却率の表示（例: 0.143）
+ */
+export function formatDepreciationRate(rate: number): string {
+  return rate.toFixed(3);
+}
+
+/**
+ * 資産の毎年の減価償却費を計算する（取得した年から、償却が終わる年・除却した年まで）
+ *
+ * @param asset - 固定資産
+ * @returns 年ごとの償却費（年の古い順）
+ */
+export function calculateDepreciationSchedule(
+  asset: Pick<
+    FixedAsset,
+    | "acquisitionDate"
+    | "acquisitionCost"
+    | "usefulLife"
+    | "method"
+    | "businessUseRatio"
+    | "disposalDate"
+  >
+): DepreciationYear[] {
+  const [startYear, startMonth] = asset.acquisitionDate.split("-").map(Number);
+  const [disposalYear, disposalMonth] = asset.disposalDate
+    ? asset.disposalDate.split("-").map(Number)
+    : [null, null];
+
+  const decliningRates =
+    asset.method === "declining_balance" ? DECLINING_BALANCE_RATES[asset.usefulLife] : undefined;
+  const straightLineRate = getStraightLineRate(asset.usefulLife);
+
+  const schedule: DepreciationYear[] = [];
+  let bookValue = asset.acquisitionCost;
+  // 定率法で改定償却率に切り替えた年の期首の未償却残高（改定取得価額）
+  let revisedBase: number | null = null;
+
+  for (let year = startYear; bookValue > MEMORANDUM_VALUE; year++) {
+    if (disposalYear !== null && year > disposalYear) break;
+
+    const firstMonth = year === startYear ? startMonth : 1;
+    const lastMonth = year === disposalYear && disposalMonth !== null ? disposalMonth : 12;
+    const months = lastMonth - firstMonth + 1;
+
+    // 償却の基礎になる金額と償却率（1000分率）
+    let baseAmount: number;
+    let rate: number;
+
+    if (decliningRates) {
+      // 償却費が償却保証額を下回ったら、改定取得価額 × 改定償却率に切り替える
+      if (
+        revisedBase === null &&
+        decliningRates.guaranteeRate > 0 &&
+        bookValue * decliningRates.rate * 100 < asset.acquisitionCost * decliningRates.guaranteeRate
+      ) {
+        revisedBase = bookValue;
+      }
+      baseAmount = revisedBase ?? bookValue;
+      rate = revisedBase === null ? decliningRates.rate : decliningRates.revisedRate;
+    } else {
+      baseAmount = asset.acquisitionCost;
+      rate = straightLineRate;
+    }
+
+    const depreciation = Math.min(
+      Math.ceil((baseAmount * rate * months) / (1000 * 12)),
+      bookValue - MEMORANDUM_VALUE
+    );
+
+    schedule.push({
+      year,
+      months,
+      baseAmount,
+      rate: rate / 1000,
+      openingBookValue: bookValue,
+      depreciation,
+      deductibleAmount: Math.floor((depreciation * asset.businessUseRatio) / 100),
+      closingBookValue: bookValue - depreciation,
+    });
+
+    bookValue -= depreciation;
+  }
+
+  return schedule;
+}
+
+/**
+ * 指定した年の減価償却費（その年に償却しない資産は null）
+ *
+ * @param asset - 固定資産
+ * @param year - 対象年
+ */
+export function getDepreciationForYear(
+  asset: Parameters<typeof calculateDepreciationSchedule>[0],
+  year: number
+): DepreciationYear | null {
+  return calculateDepreciationSchedule(asset).find((row) => row.year === year) ?? null;
+}
+
+/**
+ * 作成する償却費の経費を計算する
+ *
+ * - 毎年: 12月31日（除却した年は除却日）に1年分の必要経費算入額
+ * - 毎月: 月末に、1年分を使用した月数で割った金額（割り切れない分は最後の月に足す）
+ * - entriesStartDate より前と、untilDate より後の分は含めない
+ *
+ * @param asset - 固定資産
+ * @param untilDate - この日までの分を作成する（YYYY-MM-DD）
+ */
+export function buildDepreciationEntries(
+  asset: FixedAssetInput,
+  untilDate: string
+): DepreciationEntry[] {
+  const entries: DepreciationEntry[] = [];
+
+  for (const row of calculateDepreciationSchedule(asset)) {
+    if (row.deductibleAmount <= 0) continue;
+
+    if (asset.entryFrequency === "annual") {
+      const isDisposalYear = asset.disposalDate?.startsWith(`${row.year}-`) ?? false;
+      entries.push({
+        date: isDisposalYear && asset.disposalDate ? asset.disposalDate : `${row.year}-12-31`,
+        amount: row.deductibleAmount,
+        description: `${asset.name} 減価償却費（${row.year}年分）`,
+      });
+      continue;
+    }
+
+    // 使用した最後の月から数えて、毎月の金額を割り振る
+    const lastMonth =
+      asset.disposalDate?.startsWith(`${row.year}-`) ? Number(asset.disposalDate.split("-")[1]) : 12;
+    const firstMonth = lastMonth - row.months + 1;
+    const monthlyAmount = Math.floor(row.deductibleAmount / row.months);
+
+    for (let month = firstMonth; month <= lastMonth; month++) {
+      const amount =
+        month === lastMonth
+          ? row.deductibleAmount - monthlyAmount * (row.months - 1)
+          : monthlyAmount;
+      if (amount <= 0) continue;
+
+      entries.push({
+        date: getMonthEndDate(row.year, month),
+        amount,
+        description: `${asset.name} 減価償却費（${row.year}年${month}月分）`,
+      });
+    }
+  }
+
+  return entries.filter(
+    (entry) => entry.date >= asset.entriesStartDate && entry.date <= untilDate
+  );
+}
+
+// =============================================================================
+// 固定資産台帳の管理
+// =============================================================================
+
+/**
+ * DBの行を固定資産に変換する
+ */
+const toFixedAsset = (row: Record<string, unknown>): FixedAsset => ({
+  id: row.id as string,
+  name: row.name as string,
+  quantity: (row.quantity as string | null) ?? null,
+  acquisitionDate: row.acquisition_date as string,
+  acquisitionCost: Number(row.acquisition_cost),
+  usefulLife: Number(row.useful_life),
+  method: row.method as DepreciationMethod,
+  businessUseRatio: Number(row.business_use_ratio),
+  disposalDate: (row.disposal_date as string | null) ?? null,
+  entryFrequency: row.entry_frequency as DepreciationEntryFrequency,
+  categoryId: (row.category_id as string | null) ?? null,
+  entriesStartDate: row.entries_start_date as string,
+  note: (row.note as string | null) ?? null,
+});
+
+/**
+ * 現在の農場の固定資産を取得（取得日の古い順）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ */
+export async function listFixedAssets(supabase: SupabaseClient): Promise<FixedAsset[]> {
+  const { data, error } = await supabase
+    .from("fixed_assets")
+    .select(ASSET_COLUMNS)
+    .order("acquisition_date", { ascending: true });
+
+  if (error) {
+    console.error("固定資産の取得エラー:", error);
+    throw new Error("固定資産の取得に失敗しました");
+  }
+
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>).map(toFixedAsset);
+}
+
+/**
+ * 固定資産を登録・更新し、償却費の経費を作成し直す
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param userId - ログイン中のユーザーID（登録者・経費の登録者になる）
+ * @param input - 入力値
+ * @param assetId - 更新する資産のID（省略時は新規登録）
+ */
+export async function saveFixedAsset(
+  supabase: SupabaseClient,
+  userId: string,
+  input: FixedAssetInput,
+  assetId?: string
+): Promise<void> {
+  const values = {
+    name: input.name,
+    quantity: input.quantity,
+    acquisition_date: input.acquisitionDate,
+    acquisition_cost: input.acquisitionCost,
+    useful_life: input.usefulLife,
+    method: input.method,
+    business_use_ratio: input.businessUseRatio,
+    disposal_date: input.disposalDate,
+    entry_frequency: input.entryFrequency,
+    category_id: input.categoryId,
+    entries_start_date: input.entriesStartDate,
+    note: input.note,
+  };
+
+  const { data, error } = assetId
+    ? await supabase.from("fixed_assets").update(values).eq("id", assetId).select(ASSET_COLUMNS).single()
+    : await supabase
+        .from("fixed_assets")
+        .insert({ user_id: userId, ...values })
+        .select(ASSET_COLUMNS)
+        .single();
+
+  if (error || !data) {
+    console.error("固定資産の保存エラー:", error);
+    throw new Error("固定資産の保存に失敗しました");
+  }
+
+  await syncDepreciationEntries(supabase, userId, [
+    toFixedAsset(data as unknown as Record<string, unknown>),
+  ]);
+}
+
+/**
+ * 固定資産を削除する（作成済みの償却費の経費も削除される）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param assetId - 資産ID
+ */
+export async function deleteFixedAsset(supabase: SupabaseClient, assetId: string): Promise<void> {
+  const { error } = await supabase.from("fixed_assets").delete().eq("id", assetId);
+
+  if (error) {
+    console.error("固定資産の削除エラー:", error);
+    throw new Error("固定資産の削除に失敗しました");
+  }
+}
+
+// =============================================================================
+// 償却費の経費の作成
+// =============================================================================
+
+/**
+ * 作成済みの償却費の経費（expenses の行）
+ */
+interface DepreciationEntryRow {
+  id: string;
+  fixed_asset_id: string;
+  date: string;
+  amount: number;
+  category_id: string | null;
+  description: string | null;
+}
+
+/**
+ * 資産の作成済みの償却費の経費を、すべて取得する
+ * （月ごとに作成する資産が多いと1回の取得の上限を超えるため、分けて取得する）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param assetIds - 対象の資産ID
+ * @throws 取得に失敗した場合
+ */
+async function fetchExistingDepreciationEntries(
+  supabase: SupabaseClient,
+  assetIds: string[]
+): Promise<DepreciationEntryRow[]> {
+  const { data, error } = await fetchAllPages<DepreciationEntryRow>((from, to) =>
+    supabase
+      .from("expenses")
+      .select("id, fixed_asset_id, date, amount, category_id, description")
+      .in("fixed_asset_id", assetIds)
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+
+  if (error) {
+    console.error("償却費の経費の取得エラー:", error);
+    throw new Error("減価償却費の経費の作成に失敗しました");
+  }
+
+  return data ?? [];
+}
+
+/**
+ * 償却費の経費を、台帳の内容に合わせて作成・修正する
+ *
+ * ビジネス上の流れ:
+ * 1. 資産ごとに、今日までの償却費の経費を計算する
+ * 2. 作成済みの経費と比べ、足りない分を作成し、金額・勘定科目が変わった分を修正する
+ * 3. 台帳の変更（取得日・耐用年数など）でなくなった日付の経費は削除する
+ *
+ * 勘定科目が削除された資産は、経費を作成・修正しない
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param userId - ログイン中のユーザーID（作成する経費の登録者になる）
+ * @param assets - 対象の資産
+ * @returns 作成・修正・削除した経費の件数
+ */
+export async function syncDepreciationEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  assets: FixedAsset[]
+): Promise<number> {
+  if (assets.length === 0) return 0;
+
+  const categoryIds = [
+    ...new Set(assets.map((asset) => asset.categoryId).filter((id): id is string => !!id)),
+  ];
+
+  const [categoriesResult, existingRows] = await Promise.all([
+    supabase.from("expense_categories").select("id, name").in("id", categoryIds),
+    fetchExistingDepreciationEntries(
+      supabase,
+      assets.map((asset) => asset.id)
+    ),
+  ]);
+
+  if (categoriesResult.error) {
+    console.error("償却費の経費の取得エラー:", categoriesResult.error);
+    throw new Error("減価償却費の経費の作成に失敗しました");
+  }
+
+  const categoryNameById = new Map<string, string>(
+    (categoriesResult.data ?? []).map((category) => [category.id, category.name])
+  );
+  // 経費の作成は日本時間の今日の分まで
+  const today = formatJapanDate(new Date());
+
+  const inserts: Record<string, unknown>[] = [];
+  const updates: { id: string; values: Record<string, unknown> }[] = [];
+  const deleteIds: string[] = [];
+
+  for (const asset of assets) {
+    const categoryName = asset.categoryId ? categoryNameById.get(asset.categoryId) : undefined;
+    // 勘定科目が削除された資産は、作成済みの経費もそのまま残す
+    if (!categoryName) continue;
+
+    const existingEntries = existingRows.filter(
+      (row) => row.fixed_asset_id === asset.id
+    );
+    const plannedEntries = buildDepreciationEntries(asset, today);
+    const plannedDates = new Set(plannedEntries.map((entry) => entry.date));
+
+    for (const entry of plannedEntries) {
+      const existing = existingEntries.find((row) => row.date === entry.date);
+
+      if (!existing) {
+        inserts.push({
+          user_id: userId,
+          date: entry.date,
+          category: categoryName,
+          category_id: asset.categoryId,
+          amount: entry.amount,
+          // 減価償却費は消費税の対象外
+          tax_rate: 0,
+          description: entry.description,
+          fixed_asset_id: asset.id,
+        });
+      } else if (
+        Number(existing.amount) !== entry.amount ||
+        existing.category_id !== asset.categoryId ||
+        existing.description !== entry.description
+      ) {
+        updates.push({
+          id: existing.id,
+          values: {
+            amount: entry.amount,
+            category: categoryName,
+            category_id: asset.categoryId,
+            description: entry.description,
+          },
+        });
+      }
+    }
+
+    deleteIds.push(
+      ...existingEntries.filter((row) => !plannedDates.has(row.date)).map((row) => row.id)
+    );
+  }
+
+  if (deleteIds.length > 0) {
+    const { error } = await supabase.from("expenses").delete().in("id", deleteIds);
+    if (error) {
+      console.error("償却費の経費の削除エラー:", error);
+      throw new Error("減価償却費の経費の修正に失敗しました");
+    }
+  }
+
+  for (const { id, values } of updates) {
+    const { error } = await supabase.from("expenses").update(values).eq("id", id);
+    if (error) {
+      console.error("償却費の経費の更新エラー:", error);
+      throw new Error("減価償却費の経費の修正に失敗しました");
+    }
+  }
+
+  if (inserts.length > 0) {
+    // 別の端末で同時に作成した分は重複させない
+    const { error } = await supabase
+      .from("expenses")
+      .upsert(inserts, { onConflict: "fixed_asset_id,date", ignoreDuplicates: true });
+    if (error) {
+      console.error("償却費の経費の作成エラー:", error);
+      throw new Error("減価償却費の経費の作成に失敗しました");
+    }
+  }
+
+  return inserts.length + updates.length + deleteIds.length;
+}
+
+/**
+ * 現在の農場の、今日までの償却費の経費を作成する（ログイン時の追いつき作成）
+ * 閲覧のみのメンバーの場合は何もしない
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param userId - ログイン中のユーザーID
+ * @returns 作成・修正・削除した経費の件数
+ */
+export async function catchUpDepreciationEntries(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<number> {
+  const role = await getCurrentFarmRole(supabase);
+  if (!canEditFarmData(role)) return 0;
+
+  return syncDepreciationEntries(supabase, userId, await listFixedAssets(supabase));
+}
@@ -2,7 +2,7 @@
  * Excel出力ユーティリティ
  *
  * ビジネス上の役割:
- * - 指定期間の売上・経費データをExcelファイルとしてダウンロード
+ * - 指定期間の売上・経費データをExcelファイルとして出力
  * - 確定申告や経営分析のための帳票出力に使用
  * - 税理士への提出資料としても活用可能
  *
@@ -11,9 +11,30 @@
  * 2. 売上一覧: 全売上データの詳細
  * 3. 経費一覧: 全経費データの詳細
  * 4. 月次集計: 月ごとの売上・経費・利益の推移
+ * 5. 消費税集計: 売上・経費それぞれの税率別の税込・消費税・税抜金額
+ * 6. 前年比較（分析画面の前年比較モードで出力した場合のみ）:
+ *    月別の売上・経費・利益と、合計・勘定科目別・作物別の前年からの増減
+ *
+ * 青色申告決算書モード（downloadTaxReturnExcel）の出力シート:
+ * 1. 損益計算書: 収入金額・決算書の経費欄ごとの金額・差引金額
+ * 2. 月別収入・経費: 1月〜12月の収入金額と経費
+ * 3. 科目対応表: 勘定科目ごとにどの経費欄へ計上したか
+ * 4. 減価償却費の計算: 固定資産台帳の資産ごとの償却費・未償却残高
  */
 
 import * as XLSX from "xlsx";
+import type { TaxReturnReport } from "./taxReturn";
+import { formatChangeRate, type YearOverYearDeltaRow, type YearOverYearReport } from "./yearOverYear";
+import {
+  DEFAULT_EXPENSE_TAX_RATE,
+  DEFAULT_SALE_TAX_RATE,
+  calculateIncludedTax,
+  getTaxRateLabel,
+  summarizeByTaxRate,
+  toConsumptionTaxRate,
+  type ConsumptionTaxRate,
+  type TaxRateSummary,
+} from "./consumptionTax";
 
 // =============================================================================
 // 型定義
@@ -27,7 +48,9 @@ export interface SaleRecord {
   customer: string;
   unit_price?: number;
   quantity?: number;
-  amount: number;
+  amount: number;          // 税込金額
+  tax_rate?: number | null;   // 消費税率（未登録の古いデータは null）
+  tax_amount?: number | null; // うち消費税
   description?: string;
 }
 
@@ -36,7 +59,10 @@ export interface ExpenseRecord {
   id?: string;
   date: string;
   category: string;
-  amount: number;
+  amount: number;          // 税込金額
+  tax_rate?: number | null;   // 消費税率（未登録の古いデータは null）
+  tax_amount?: number | null; // うち消費税
+  invoice_registration_number?: string | null; // 仕入先の登録番号
   description?: string;
 }
 
@@ -53,24 +79,39 @@ interface MonthlySummaryRow {
 // =============================================================================
 
 /**
- * 売上・経費データをExcelファイルとしてダウンロードする
+ * Excelレポートのファイル（ファイル名と中身）
+ */
+export interface ExcelReportFile {
+  /** ファイル名（例: 農業経営レポート_2024年1月_2024年6月.xlsx） */
+  fileName: string;
+  /** xlsx ファイルの中身 */
+  content: ArrayBuffer;
+}
+
+/**
+ * 売上・経費データからExcelレポートのファイルを作成する
  *
  * ビジネス上の流れ:
  * 1. 売上・経費データを受け取る
- * 2. 4つのシート（サマリー、売上、経費、月次集計）を作成
- * 3. Excelファイルを生成してブラウザでダウンロード
+ * 2. 5つのシート（サマリー、売上、経費、月次集計、消費税集計）を作成
+ *    前年比較を渡された場合は、前年比較シートも加える
+ * 3. xlsx ファイルの中身を生成して返す
+ *
+ * 出力回数の制限をかけるため、サーバー（/api/export）で使用回数を数えてから作成する
  *
  * @param salesData - 売上データの配列
  * @param expensesData - 経費データの配列
  * @param startYearMonth - 開始年月（例: "2024年1月"）
  * @param endYearMonth - 終了年月（例: "2024年6月"）
+ * @param comparison - 前年比較（lib/yearOverYear.ts の fetchYearOverYearComparison() の結果、任意）
  */
-export function downloadExcelReport(
+export function buildExcelReport(
   salesData: SaleRecord[],
   expensesData: ExpenseRecord[],
   startYearMonth: string,
-  endYearMonth: string
-): void {
+  endYearMonth: string,
+  comparison?: YearOverYearReport
+): ExcelReportFile {
   // Excelワークブック（ファイル全体）を作成
   const workbook = XLSX.utils.book_new();
 
@@ -87,11 +128,17 @@ export function downloadExcelReport(
   const monthlySheet = createMonthlySummarySheet(salesData, expensesData);
   XLSX.utils.book_append_sheet(workbook, monthlySheet, "月次集計");
 
-  // ファイル名を生成（例: 農業経営レポート_2024年1月_2024年6月.xlsx）
-  const fileName = `農業経営レポート_${startYearMonth}_${endYearMonth}.xlsx`;
+  const consumptionTaxSheet = createConsumptionTaxSheet(salesData, expensesData);
+  XLSX.utils.book_append_sheet(workbook, consumptionTaxSheet, "消費税集計");
+
+  if (comparison) {
+    XLSX.utils.book_append_sheet(workbook, createYearOverYearSheet(comparison), "前年比較");
+  }
 
-  // ブラウザでダウンロード
-  XLSX.writeFile(workbook, fileName);
+  return {
+    fileName: `農業経営レポート_${startYearMonth}_${endYearMonth}.xlsx`,
+    content: XLSX.write(workbook, { type: "array", bookType: "xlsx" }),
+  };
 }
 
 // =============================================================================
@@ -153,16 +200,21 @@ function createSalesSheet(salesData: SaleRecord[]): XLSX.WorkSheet {
 
   // ヘッダー行 + データ行を作成
   const rows = [
-    ["日付", "作物名", "出荷先", "単価", "数量", "金額", "備考"],
-    ...sortedSales.map((sale) => [
-      sale.date,
-      sale.crop_name || "",
-      sale.customer || "",
-      sale.unit_price || "",
-      sale.quantity || "",
-      sale.amount || 0,
-      sale.description || "",
-    ]),
+    ["日付", "作物名", "出荷先", "単価", "数量", "金額（税込）", "税率", "うち消費税", "備考"],
+    ...sortedSales.map((sale) => {
+      const taxRate = toConsumptionTaxRate(sale.tax_rate, DEFAULT_SALE_TAX_RATE);
+      return [
+        sale.date,
+        sale.crop_name || "",
+        sale.customer || "",
+        sale.unit_price || "",
+        sale.quantity || "",
+        sale.amount || 0,
+        getTaxRateLabel(taxRate),
+        getRecordTaxAmount(sale, taxRate),
+        sale.description || "",
+      ];
+    }),
   ];
 
   const worksheet = XLSX.utils.aoa_to_sheet(rows);
@@ -174,7 +226,9 @@ function createSalesSheet(salesData: SaleRecord[]): XLSX.WorkSheet {
     { wch: 20 }, // 出荷先
     { wch: 10 }, // 単価
     { wch: 8 },  // 数量
-    { wch: 12 }, // 金額
+    { wch: 12 }, // 金額（税込）
+    { wch: 14 }, // 税率
+    { wch: 12 }, // うち消費税
     { wch: 30 }, // 備考
   ];
 
@@ -193,13 +247,19 @@ function createExpensesSheet(expensesData: ExpenseRecord[]): XLSX.WorkSheet {
 
   // ヘッダー行 + データ行を作成
   const rows = [
-    ["日付", "勘定科目", "金額", "摘要"],
-    ...sortedExpenses.map((expense) => [
-      expense.date,
-      expense.category || "",
-      expense.amount || 0,
-      expense.description || "",
-    ]),
+    ["日付", "勘定科目", "金額（税込）", "税率", "うち消費税", "登録番号", "摘要"],
+    ...sortedExpenses.map((expense) => {
+      const taxRate = toConsumptionTaxRate(expense.tax_rate, DEFAULT_EXPENSE_TAX_RATE);
+      return [
+        expense.date,
+        expense.category || "",
+        expense.amount || 0,
+        getTaxRateLabel(taxRate),
+        getRecordTaxAmount(expense, taxRate),
+        expense.invoice_registration_number || "",
+        expense.description || "",
+      ];
+    }),
   ];
 
   const worksheet = XLSX.utils.aoa_to_sheet(rows);
@@ -208,7 +268,10 @@ function createExpensesSheet(expensesData: ExpenseRecord[]): XLSX.WorkSheet {
   worksheet["!cols"] = [
     { wch: 12 }, // 日付
     { wch: 18 }, // 勘定科目
-    { wch: 12 }, // 金額
+    { wch: 12 }, // 金額（税込）
+    { wch: 14 }, // 税率
+    { wch: 12 }, // うち消費税
+    { wch: 16 }, // 登録番号
     { wch: 40 }, // 摘要
   ];
 
@@ -278,3 +341,307 @@ function createMonthlySummarySheet(
 
   return worksheet;
 }
+
+/**
+ * 消費税集計シートを作成
+ * 消費税の申告書（税率別の課税売上・課税仕入）の記入に使う
+ *
+ * 経費は、仕入税額控除の確認のため登録番号の有無でも分けて集計する
+ * （登録番号のない仕入は、インボイス制度の経過措置の対象として別に確認する）
+ */
+function createConsumptionTaxSheet(
+  salesData: SaleRecord[],
+  expensesData: ExpenseRecord[]
+): XLSX.WorkSheet {
+  const expensesWithInvoice = expensesData.filter((expense) => expense.invoice_registration_number);
+  const expensesWithoutInvoice = expensesData.filter(
+    (expense) => !expense.invoice_registration_number
+  );
+
+  /** 税率別の集計を表の行に変換する */
+  const toSummaryRows = (label: string, summaries: TaxRateSummary[]) =>
+    summaries.map((summary) => [
+      label,
+      getTaxRateLabel(summary.taxRate),
+      summary.count,
+      summary.taxIncludedTotal,
+      summary.taxTotal,
+      summary.taxExcludedTotal,
+    ]);
+
+  const rows = [
+    ["区分", "税率", "件数", "税込金額", "消費税額", "税抜金額"],
+    ...toSummaryRows("売上", summarizeByTaxRate(salesData, DEFAULT_SALE_TAX_RATE)),
+    ...toSummaryRows("経費", summarizeByTaxRate(expensesData, DEFAULT_EXPENSE_TAX_RATE)),
+    [],
+    ["【経費の内訳（登録番号の有無）】"],
+    ["区分", "税率", "件数", "税込金額", "消費税額", "税抜金額"],
+    ...toSummaryRows(
+      "登録番号あり",
+      summarizeByTaxRate(expensesWithInvoice, DEFAULT_EXPENSE_TAX_RATE)
+    ),
+    ...toSummaryRows(
+      "登録番号なし",
+      summarizeByTaxRate(expensesWithoutInvoice, DEFAULT_EXPENSE_TAX_RATE)
+    ),
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+
+  worksheet["!cols"] = [
+    { wch: 14 }, // 区分
+    { wch: 24 }, // 税率
+    { wch: 8 },  // 件数
+    { wch: 15 }, // 税込金額
+    { wch: 15 }, // 消費税額
+    { wch: 15 }, // 税抜金額
+  ];
+
+  return worksheet;
+}
+
+/**
+ * レコードの消費税額（未登録の古いデータは税込金額から計算する）
+ */
+function getRecordTaxAmount(
+  record: { amount: number; tax_amount?: number | null },
+  taxRate: ConsumptionTaxRate
+): number {
+  return record.tax_amount ?? calculateIncludedTax(record.amount || 0, taxRate);
+}
+
+/**
+ * 前年比較シートを作成
+ * 月別は期間ごとに売上・経費・利益を横に並べ、その下に今期と前年の増減をまとめる
+ */
+function createYearOverYearSheet(comparison: YearOverYearReport): XLSX.WorkSheet {
+  /** 増減の行を表の行に変換する */
+  const toDeltaRows = (rows: YearOverYearDeltaRow[]) =>
+    rows.map((row) => [
+      row.label,
+      row.current,
+      row.previous,
+      row.change,
+      formatChangeRate(row.changeRate),
+    ]);
+  const deltaHeader = ["項目", "今期", "前年", "増減", "増減率"];
+
+  const rows = [
+    ["【比較する期間】"],
+    ...comparison.periods.map((period) => [period.label, period.rangeLabel]),
+    [],
+    ["【月別】"],
+    [
+      "月（今期）",
+      ...comparison.periods.flatMap((period) => [
+        `売上（${period.label}）`,
+        `経費（${period.label}）`,
+        `利益（${period.label}）`,
+      ]),
+    ],
+    ...comparison.monthly.map((month) => [
+      month.monthLabel,
+      ...month.values.flatMap((values) => [values.sales, values.expenses, values.profit]),
+    ]),
+    [],
+    ["【合計の増減】"],
+    deltaHeader,
+    ...toDeltaRows(comparison.totals),
+    [],
+    ["【勘定科目別の経費】"],
+    deltaHeader,
+    ...toDeltaRows(comparison.categories),
+    [],
+    ["【作物別の売上】"],
+    deltaHeader,
+    ...toDeltaRows(comparison.crops),
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+
+  // 1列目は項目名、2列目以降は金額（月別は期間ごとに3列）
+  worksheet["!cols"] = [
+    { wch: 20 },
+    ...comparison.periods.flatMap(() => [{ wch: 15 }, { wch: 15 }, { wch: 15 }]),
+  ];
+
+  return worksheet;
+}
+
+// =============================================================================
+// 青色申告決算書モード
+// =============================================================================
+
+/**
+ * 青色申告決算書（農業所得用）の形式でExcelファイルをダウンロードする
+ *
+ * ビジネス上の流れ:
+ * 1. lib/taxReturn.ts の fetchTaxReturnReport() で作成した決算書データを受け取る
+ * 2. 3つのシート（損益計算書、月別収入・経費、科目対応表）を作成
+ * 3. Excelファイルを生成してブラウザでダウンロード
+ *
+ * @param report - 決算書データ
+ */
+export function downloadTaxReturnExcel(report: TaxReturnReport): void {
+  const workbook = XLSX.utils.book_new();
+
+  XLSX.utils.book_append_sheet(workbook, createIncomeStatementSheet(report), "損益計算書");
+  XLSX.utils.book_append_sheet(workbook, createTaxReturnMonthlySheet(report), "月別収入・経費");
+  XLSX.utils.book_append_sheet(workbook, createCategoryMappingSheet(report), "科目対応表");
+  XLSX.utils.book_append_sheet(workbook, createDepreciationSheet(report), "減価償却費の計算");
+
+  // ファイル名を生成（例: 青色申告決算書_2024年分.xlsx）
+  XLSX.writeFile(workbook, `青色申告決算書_${report.year}年分.xlsx`);
+}
+
+/**
+ * 損益計算書シートを作成
+ * 決算書の1ページ目（収入金額・経費・差引金額）の並びで出力する
+ */
+function createIncomeStatementSheet(report: TaxReturnReport): XLSX.WorkSheet {
+  const rows = [
+    [`${report.year}年分 青色申告決算書（農業所得用） 損益計算書`],
+    [],
+    ["農場名", report.farmName],
+    ["氏名", report.ownerName],
+    ["期間", `${report.year}年1月1日 〜 ${report.year}年12月31日`],
+    [],
+    ["科目", "金額（円）"],
+    ["【収入金額】"],
+    ["販売金額", report.revenue],
+    ["家事消費・事業消費金額", 0],
+    ["雑収入", 0],
+    ["収入金額 計", report.revenue],
+    [],
+    ["【経費】"],
+    ...report.expenseLines.map((line) => [line.label, line.amount]),
+    ["経費 計", report.totalExpenses],
+    [],
+    ["差引金額（収入金額 - 経費）", report.netIncome],
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+
+  worksheet["!cols"] = [
+    { wch: 30 }, // A列: 科目
+    { wch: 18 }, // B列: 金額
+  ];
+
+  return worksheet;
+}
+
+/**
+ * 月別収入・経費シートを作成
+ * 決算書2ページ目の「月別収入金額」欄の記入に使う
+ */
+function createTaxReturnMonthlySheet(report: TaxReturnReport): XLSX.WorkSheet {
+  const rows = [
+    ["月", "収入金額", "経費", "差引"],
+    ...report.monthly.map((row) => [
+      `${row.month}月`,
+      row.revenue,
+      row.expenses,
+      row.revenue - row.expenses,
+    ]),
+    ["計", report.revenue, report.totalExpenses, report.netIncome],
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+
+  worksheet["!cols"] = [
+    { wch: 8 },  // 月
+    { wch: 15 }, // 収入金額
+    { wch: 15 }, // 経費
+    { wch: 15 }, // 差引
+  ];
+
+  return worksheet;
+}
+
+/**
+ * 科目対応表シートを作成
+ * 税理士や本人が、どの勘定科目をどの経費欄に計上したかを確認できるようにする
+ */
+function createCategoryMappingSheet(report: TaxReturnReport): XLSX.WorkSheet {
+  const rows = [
+    ["勘定科目", "決算書の経費欄", "金額"],
+    ...report.categoryMappings.map((mapping) => [
+      mapping.categoryName,
+      mapping.lineLabel,
+      mapping.amount,
+    ]),
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+
+  worksheet["!cols"] = [
+    { wch: 18 }, // 勘定科目
+    { wch: 18 }, // 決算書の経費欄
+    { wch: 15 }, // 金額
+  ];
+
+  return worksheet;
+}
+
+/**
+ * 減価償却費の計算シートを作成
+ * 決算書3ページ目の「減価償却費の計算」欄の並びで出力する
+ */
+function createDepreciationSheet(report: TaxReturnReport): XLSX.WorkSheet {
+  const rows = [
+    [
+      "減価償却資産の名称",
+      "面積又は数量",
+      "取得年月",
+      "取得価額",
+      "償却の基礎になる金額",
+      "償却方法",
+      "耐用年数",
+      "償却率",
+      "本年中の償却期間",
+      "本年分の償却費",
+      "事業専用割合（%）",
+      "本年分の必要経費算入額",
+      "未償却残高（期末残高）",
+      "摘要",
+    ],
+    ...report.depreciationRows.map((row) => [
+      row.assetName,
+      row.quantity,
+      row.acquiredOn,
+      row.acquisitionCost,
+      row.baseAmount,
+      row.methodLabel,
+      row.usefulLife,
+      row.rate,
+      `${row.months}/12`,
+      row.depreciation,
+      row.businessUseRatio,
+      row.deductibleAmount,
+      row.closingBookValue,
+      row.note,
+    ]),
+    ["計", "", "", "", "", "", "", "", "", "", "", report.totalDepreciation],
+  ];
+
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+
+  worksheet["!cols"] = [
+    { wch: 24 }, // 減価償却資産の名称
+    { wch: 12 }, // 面積又は数量
+    { wch: 12 }, // 取得年月
+    { wch: 14 }, // 取得価額
+    { wch: 16 }, // 償却の基礎になる金額
+    { wch: 10 }, // 償却方法
+    { wch: 10 }, // 耐用年数
+    { wch: 10 }, // 償却率
+    { wch: 14 }, // 本年中の償却期間
+    { wch: 14 }, // 本年分の償却費
+    { wch: 14 }, // 事業専用割合
+    { wch: 18 }, // 本年分の必要経費算入額
+    { wch: 18 }, // 未償却残高
+    { wch: 20 }, // 摘要
+  ];
+
+  return worksheet;
+}
@@ -0,0 +1,505 @@
+/**
+ * 農場（ワークスペース）・メンバー・招待の管理ユーティリティ
+ *
+ * このファイルは、複数のユーザーで1つの農場の帳簿を扱うための関数を提供します。
+ *
+ * ビジネス上の役割：
+ * - 夫婦で営む農場や、パートの経理担当者がいる農場で、ログインを共有せずに同じデータを扱える
+ * - 経費・売上・勘定科目・農場情報・サブスクリプションは「農場」のものになる
+ * - メンバーの役割で操作を制限する（RLSで強制。supabase/farm-workspace-schema.sql を参照）
+ *   - owner（オーナー）: すべての操作、メンバーの招待・役割変更、プランの契約
+ *   - bookkeeper（経理担当）: 経費・売上などの登録・編集
+ *   - viewer（閲覧のみ）: 閲覧のみ
+ *
+ * 現在の農場：
+ * - ユーザーは複数の農場に所属でき、ヘッダーの切り替えで「現在の農場」を選ぶ
+ * - RLSが現在の農場のデータだけを返すため、各画面の検索条件に農場IDは不要
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 農場メンバーの役割
+ */
+export type FarmRole = "owner" | "bookkeeper" | "viewer";
+
+/**
+ * 所属している農場（切り替えメニューに表示）
+ */
+export interface Farm {
+  id: string;
+  name: string;
+  /** 自分の役割 */
+  role: FarmRole;
+}
+
+/**
+ * 農場のメンバー
+ */
+export interface FarmMember {
+  userId: string;
+  email: string;
+  role: FarmRole;
+  joinedAt: Date;
+}
+
+/**
+ * 農場から送った招待（オーナーが管理する）
+ */
+export interface FarmInvitation {
+  id: string;
+  email: string;
+  role: FarmRole;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * 自分宛ての招待（まだ参加していないもの）
+ */
+export interface ReceivedFarmInvitation {
+  id: string;
+  farmId: string;
+  farmName: string;
+  role: FarmRole;
+  token: string;
+  expiresAt: Date;
+}
+
+// =============================================================================
+// 定数・役割の判定
+// =============================================================================
+
+/**
+ * 役割の表示名
+ */
+export const FARM_ROLE_LABELS: Record<FarmRole, string> = {
+  owner: "オーナー",
+  bookkeeper: "経理担当",
+  viewer: "閲覧のみ",
+};
+
+/**
+ * 役割の説明（招待フォームなどに表示）
+ */
+export const FARM_ROLE_DESCRIPTIONS: Record<FarmRole, string> = {
+  owner: "すべての操作に加え、メンバーの招待・プランの契約ができます",
+  bookkeeper: "経費・売上・勘定科目・農場情報の登録・編集ができます",
+  viewer: "データの閲覧のみできます",
+};
+
+/**
+ * 役割の選択肢（権限の強い順）
+ */
+export const FARM_ROLES: FarmRole[] = ["owner", "bookkeeper", "viewer"];
+
+/**
+ * 1ユーザーが作成できる農場の数（登録時に作成される農場を含む。create_farm() と同じ値）
+ */
+export const MAX_FARMS_PER_USER = 3;
+
+/**
+ * 1つの農場で同時に出しておける招待の数（まだ参加していない、有効期限内の招待）
+ */
+export const MAX_PENDING_INVITATIONS_PER_FARM = 20;
+
+/**
+ * 1ユーザーが1時間に送れる招待メールの数（取り消した招待の分も数える）
+ */
+export const MAX_INVITATION_EMAILS_PER_HOUR = 10;
+
+/**
+ * 文字列が農場メンバーの役割かどうか
+ */
+export function isFarmRole(value: unknown): value is FarmRole {
+  return typeof value === "string" && (FARM_ROLES as string[]).includes(value);
+}
+
+/**
+ * 経費・売上などのデータを登録・編集できる役割か
+ */
+export function canEditFarmData(role: FarmRole | null): boolean {
+  return role === "owner" || role === "bookkeeper";
+}
+
+/**
+ * メンバーの招待・役割変更、プランの契約ができる役割か
+ */
+export function canManageFarm(role: FarmRole | null): boolean {
+  return role === "owner";
+}
+
+// =============================================================================
+// 現在の農場
+// =============================================================================
+
+/**
+ * 現在の農場のIDを取得
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @returns 現在の農場のID
+ */
+export async function getCurrentFarmId(supabase: SupabaseClient): Promise<string> {
+  const { data, error } = await supabase.rpc("current_farm_id");
+
+  if (error) {
+    console.error("現在の農場の取得エラー:", error);
+    throw new Error("農場の取得に失敗しました");
+  }
+
+  if (!data) {
+    throw new Error("所属している農場がありません");
+  }
+
+  return data as string;
+}
+
+/**
+ * 現在の農場での自分の役割を取得
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @returns 役割（所属している農場がない場合は null）
+ */
+export async function getCurrentFarmRole(
+  supabase: SupabaseClient
+): Promise<FarmRole | null> {
+  const { data, error } = await supabase.rpc("current_farm_role");
+
+  if (error) {
+    console.error("農場の役割の取得エラー:", error);
+    throw new Error("農場の役割の取得に失敗しました");
+  }
+
+  return isFarmRole(data) ? data : null;
+}
+
+/**
+ * 現在の農場のIDと自分の役割
+ */
+export interface CurrentFarmAccess {
+  farmId: string;
+  role: FarmRole;
+}
+
+/**
+ * 現在の農場のIDと自分の役割をまとめて取得
+ * （API Routeで、プランの契約などオーナーだけに許可する操作の確認に使用）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ */
+export async function getCurrentFarmAccess(
+  supabase: SupabaseClient
+): Promise<CurrentFarmAccess> {
+  const [farmId, role] = await Promise.all([
+    getCurrentFarmId(supabase),
+    getCurrentFarmRole(supabase),
+  ]);
+
+  if (!role) {
+    throw new Error("所属している農場がありません");
+  }
+
+  return { farmId, role };
+}
+
+/**
+ * 所属している農場の一覧を取得（作成・参加の古い順）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param userId - ログイン中のユーザーID
+ */
+export async function listMyFarms(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Farm[]> {
+  const { data, error } = await supabase
+    .from("farm_members")
+    .select("role, farms(id, name)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("農場一覧の取得エラー:", error);
+    throw new Error("農場の一覧の取得に失敗しました");
+  }
+
+  return (data ?? []).flatMap((row) => {
+    // farms は1対1の結合だが、型の上では配列になることがあるため両方に対応
+    const farm = Array.isArray(row.farms) ? row.farms[0] : row.farms;
+    if (!farm || !isFarmRole(row.role)) {
+      return [];
+    }
+    return [{ id: farm.id as string, name: farm.name as string, role: row.role }];
+  });
+}
+
+/**
+ * 現在の農場を切り替える
+ *
+ * 注意：
+ * - 表示中のデータは切り替え前の農場のものなので、呼び出し後にページを再読み込みすること
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param farmId - 切り替え先の農場ID（所属している農場のみ）
+ */
+export async function switchFarm(supabase: SupabaseClient, farmId: string): Promise<void> {
+  const { error } = await supabase.rpc("switch_farm", { target_farm_id: farmId });
+
+  if (error) {
+    console.error("農場の切り替えエラー:", error);
+    throw new Error("農場の切り替えに失敗しました");
+  }
+}
+
+/**
+ * 新しい農場を作成し、現在の農場に切り替える（作成したユーザーがオーナーになる）
+ *
+ * 作成できる農場は1ユーザー MAX_FARMS_PER_USER つまで（create_farm() で制限）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param name - 農場名
+ * @returns 作成した農場のID
+ */
+export async function createFarm(supabase: SupabaseClient, name: string): Promise<string> {
+  const { data, error } = await supabase.rpc("create_farm", { farm_name: name });
+
+  if (error) {
+    console.error("農場の作成エラー:", error);
+    throw new Error(
+      error.message.includes("作成できる農場は")
+        ? `作成できる農場は${MAX_FARMS_PER_USER}つまでです`
+        : "農場の作成に失敗しました"
+    );
+  }
+
+  return data as string;
+}
+
+// =============================================================================
+// メンバー
+// =============================================================================
+
+/**
+ * 現在の農場のメンバー一覧を取得
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ */
+export async function getFarmMembers(supabase: SupabaseClient): Promise<FarmMember[]> {
+  const { data, error } = await supabase.rpc("get_farm_members");
+
+  if (error) {
+    console.error("メンバー一覧の取得エラー:", error);
+    throw new Error("メンバーの一覧の取得に失敗しました");
+  }
+
+  return ((data ?? []) as Array<Record<string, string>>).flatMap((row) =>
+    isFarmRole(row.role)
+      ? [
+          {
+            userId: row.user_id,
+            email: row.email,
+            role: row.role,
+            joinedAt: new Date(row.joined_at),
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * メンバーの役割を変更（オーナーのみ。最後のオーナーは変更できない）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param farmId - 農場ID
+ * @param userId - 変更するメンバーのユーザーID
+ * @param role - 新しい役割
+ */
+export async function updateFarmMemberRole(
+  supabase: SupabaseClient,
+  farmId: string,
+  userId: string,
+  role: FarmRole
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("farm_members")
+    .update({ role })
+    .eq("farm_id", farmId)
+    .eq("user_id", userId)
+    .select("user_id");
+
+  if (error) {
+    console.error("役割の変更エラー:", error);
+    throw new Error(
+      error.message.includes("オーナー")
+        ? "農場には少なくとも1人のオーナーが必要です"
+        : "役割の変更に失敗しました"
+    );
+  }
+
+  // RLSで更新が許可されなかった場合は0件になる
+  if (!data || data.length === 0) {
+    throw new Error("役割を変更する権限がありません");
+  }
+}
+
+/**
+ * メンバーを農場から外す（オーナー、または本人の退出）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param farmId - 農場ID
+ * @param userId - 外すメンバーのユーザーID
+ */
+export async function removeFarmMember(
+  supabase: SupabaseClient,
+  farmId: string,
+  userId: string
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("farm_members")
+    .delete()
+    .eq("farm_id", farmId)
+    .eq("user_id", userId)
+    .select("user_id");
+
+  if (error) {
+    console.error("メンバーの削除エラー:", error);
+    throw new Error(
+      error.message.includes("オーナー")
+        ? "農場には少なくとも1人のオーナーが必要です"
+        : "メンバーの削除に失敗しました"
+    );
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error("メンバーを削除する権限がありません");
+  }
+}
+
+// =============================================================================
+// 招待
+// =============================================================================
+
+/**
+ * 農場から送った招待のうち、まだ参加していないものを取得（オーナーのみ）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param farmId - 農場ID
+ */
+export async function listPendingFarmInvitations(
+  supabase: SupabaseClient,
+  farmId: string
+): Promise<FarmInvitation[]> {
+  const { data, error } = await supabase
+    .from("farm_invitations")
+    .select("id, email, role, created_at, expires_at")
+    .eq("farm_id", farmId)
+    .is("accepted_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("招待一覧の取得エラー:", error);
+    throw new Error("招待の一覧の取得に失敗しました");
+  }
+
+  return (data ?? []).flatMap((row) =>
+    isFarmRole(row.role)
+      ? [
+          {
+            id: row.id,
+            email: row.email,
+            role: row.role,
+            createdAt: new Date(row.created_at),
+            expiresAt: new Date(row.expires_at),
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * 招待を取り消す（オーナーのみ）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param invitationId - 招待ID
+ */
+export async function cancelFarmInvitation(
+  supabase: SupabaseClient,
+  invitationId: string
+): Promise<void> {
+  const { error } = await supabase.from("farm_invitations").delete().eq("id", invitationId);
+
+  if (error) {
+    console.error("招待の取り消しエラー:", error);
+    throw new Error("招待の取り消しに失敗しました");
+  }
+}
+
+/**
+ * 自分宛ての招待のうち、まだ参加していないものを取得
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ */
+export async function listReceivedFarmInvitations(
+  supabase: SupabaseClient
+): Promise<ReceivedFarmInvitation[]> {
+  const { data, error } = await supabase.rpc("get_my_farm_invitations");
+
+  if (error) {
+    console.error("招待の取得エラー:", error);
+    throw new Error("招待の取得に失敗しました");
+  }
+
+  return ((data ?? []) as Array<Record<string, string>>).flatMap((row) =>
+    isFarmRole(row.role)
+      ? [
+          {
+            id: row.id,
+            farmId: row.farm_id,
+            farmName: row.farm_name,
+            role: row.role,
+            token: row.token,
+            expiresAt: new Date(row.expires_at),
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * 招待を受けて農場に参加し、現在の農場に切り替える
+ * （招待されたメールアドレスでログインしている場合のみ）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param token - 招待リンクのトークン
+ * @returns 参加した農場のID
+ */
+export async function acceptFarmInvitation(
+  supabase: SupabaseClient,
+  token: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc("accept_farm_invitation", {
+    invitation_token: token,
+  });
+
+  if (error) {
+    console.error("招待の受諾エラー:", error);
+    // データベース関数のメッセージ（有効期限切れ・メールアドレス違いなど）をそのまま表示する
+    throw new Error(error.message || "農場への参加に失敗しました");
+  }
+
+  return data as string;
+}
+
+/**
+ * 招待リンクのパスを取得（ログイン後に開くページ）
+ *
+ * @param token - 招待のトークン
+ */
+export function getInvitationAcceptPath(token: string): string {
+  return `/invitations/${token}`;
+}
@@ -0,0 +1,177 @@
+/**
+ * 圃場・作付けユーティリティ
+ *
+ * ビジネス上の役割:
+ * - 売上・経費の登録画面で選ぶ「作付け」（どの圃場で・いつ・何を作ったか）の候補を取得する
+ * - 作付けごとの収量・売上・経費を、10アール（1反）当たりに換算して比較できるようにする
+ *   （広さの違う圃場同士でも、どこの成績が良いかを比べられる）
+ *
+ * 集計はデータベース関数 get_planting_metrics（supabase/field-schema.sql）で行い、
+ * 10アール当たりの換算だけをアプリ側で行う
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 売上・経費の登録画面で選ぶ作付けの候補
+ */
+export interface PlantingOption {
+  id: string;
+  fieldName: string;
+  cropName: string;
+  /** 作期の開始日（YYYY-MM-DD） */
+  seasonStart: string;
+  /** 作期の終了日（YYYY-MM-DD。栽培中は null） */
+  seasonEnd: string | null;
+}
+
+/**
+ * 作付けごとの集計結果（10アール当たりの換算つき）
+ */
+export interface PlantingMetricsRow {
+  plantingId: string;
+  fieldName: string;
+  /** 圃場の面積（アール） */
+  areaAre: number;
+  cropName: string;
+  seasonStart: string;
+  seasonEnd: string | null;
+  revenue: number;
+  /** 収量（売上の数量の合計） */
+  yieldQuantity: number;
+  costs: number;
+  /** 10アール当たりの値（面積が未登録なら null） */
+  revenuePer10a: number | null;
+  yieldPer10a: number | null;
+  costsPer10a: number | null;
+}
+
+/**
+ * get_planting_metrics 関数が返す JSON の1件分の構造
+ */
+interface PlantingMetricsRecord {
+  planting_id: string;
+  field_name: string;
+  area_are: number;
+  crop_name: string;
+  season_start: string;
+  season_end: string | null;
+  revenue: number;
+  yield_quantity: number;
+  costs: number;
+}
+
+// =============================================================================
+// 作付けの候補
+// =============================================================================
+
+/**
+ * 作付けの表示名（例：「第1ハウス / トマト（2024-09-01〜）」）
+ */
+export function formatPlantingLabel(planting: PlantingOption): string {
+  return `${planting.fieldName} / ${planting.cropName}（${planting.seasonStart}〜${
+    planting.seasonEnd ?? ""
+  }）`;
+}
+
+/**
+ * 売上・経費の登録画面で選ぶ作付けの候補を取得（新しい作期の順）
+ *
+ * 候補の取得に失敗しても売上・経費の登録はできるため、空の候補を返す
+ *
+ * @param supabase - Supabaseクライアント
+ */
+export async function fetchPlantingOptions(
+  supabase: SupabaseClient
+): Promise<PlantingOption[]> {
+  // RLSにより自分の作付けのみ取得される
+  const { data, error } = await supabase
+    .from("plantings")
+    .select("id, crop_name, season_start, season_end, fields(name)")
+    .order("season_start", { ascending: false });
+
+  if (error) {
+    console.error("作付けの取得に失敗:", error);
+    return [];
+  }
+
+  return (data || []).map((planting) => {
+    // 多対一の埋め込みはオブジェクトで返るが、型定義上は配列にもなり得るため両方に対応する
+    const field = Array.isArray(planting.fields) ? planting.fields[0] : planting.fields;
+    return {
+      id: planting.id as string,
+      fieldName: (field?.name as string | undefined) ?? "",
+      cropName: planting.crop_name as string,
+      seasonStart: planting.season_start as string,
+      seasonEnd: (planting.season_end as string | null) ?? null,
+    };
+  });
+}
+
+// =============================================================================
+// 10アール当たりの集計
+// =============================================================================
+
+/**
+ * 値を10アール当たりに換算する（面積が未登録なら null）
+ *
+ * @param value - 圃場全体の値
+ * @param areaAre - 圃場の面積（アール）
+ */
+export function toPer10a(value: number, areaAre: number): number | null {
+  if (!(areaAre > 0)) return null;
+  return Math.round((value * 10) / areaAre);
+}
+
+/**
+ * 指定期間に紐付けた売上・経費のある作付けごとに、収量・売上・経費を取得
+ *
+ * RLSにより、呼び出したユーザー自身のデータのみが集計対象になる
+ *
+ * @param supabase - Supabaseクライアント（ブラウザ用・サーバー用どちらでも可）
+ * @param startDate - 期間の開始日（YYYY-MM-DD、この日を含む）
+ * @param endDate - 期間の終了日（YYYY-MM-DD、この日を含む）
+ * @throws 集計に失敗した場合
+ */
+export async function fetchPlantingMetrics(
+  supabase: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<PlantingMetricsRow[]> {
+  const { data, error } = await supabase.rpc("get_planting_metrics", {
+    range_start: startDate,
+    range_end: endDate,
+  });
+
+  if (error) {
+    console.error("作付け別集計の取得に失敗:", error);
+    throw new Error("作付け別集計の取得に失敗しました");
+  }
+
+  // 金額・数量は bigint / numeric として返る場合があるため Number で数値化する
+  return ((data as PlantingMetricsRecord[]) || []).map((record) => {
+    const areaAre = Number(record.area_are);
+    const revenue = Number(record.revenue);
+    const yieldQuantity = Number(record.yield_quantity);
+    const costs = Number(record.costs);
+
+    return {
+      plantingId: record.planting_id,
+      fieldName: record.field_name,
+      areaAre,
+      cropName: record.crop_name,
+      seasonStart: record.season_start,
+      seasonEnd: record.season_end,
+      revenue,
+      yieldQuantity,
+      costs,
+      revenuePer10a: toPer10a(revenue, areaAre),
+      yieldPer10a: toPer10a(yieldQuantity, areaAre),
+      costsPer10a: toPer10a(costs, areaAre),
+    };
+  });
+}
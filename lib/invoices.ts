@@ -0,0 +1,182 @@
+/**
+ * 請求履歴（Stripeの請求書）の取得
+ *
+ * このファイルは、ユーザーが支払ったサブスクリプションの請求書（領収書）を
+ * Stripeから取得し、設定画面の請求履歴に表示できる形に変換する処理を提供します。
+ *
+ * ビジネス上の役割：
+ * - Stripeのカスタマーポータルを開かなくても、請求書・領収書のPDFをダウンロードできる
+ * - インボイス制度（適格請求書）の記載事項を確認できるようにする
+ *   - 発行事業者の登録番号（環境変数 INVOICE_REGISTRATION_NUMBER、例: T1234567890123）
+ *   - 請求先（Checkoutで入力された宛名・住所。Stripeの顧客情報に保存される）
+ *   - 消費税額（Stripeの税率を設定している場合）
+ *
+ * Stripeダッシュボードの設定（PDFに登録番号を記載するため）：
+ * 1. 設定 → 税金 → 登録番号（jp_trn）を追加
+ * 2. 設定 → 請求書 → テンプレートで、追加した登録番号をデフォルトで表示するよう設定
+ *
+ * 使用箇所：
+ * - app/api/stripe/invoices/route.ts
+ *
+ * 注意：
+ * - サーバーサイド専用（Stripeのシークレットキーを使用）
+ */
+
+import Stripe from "stripe";
+import { getStripeClient } from "./stripe";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 請求書の状態
+ * - paid: 支払い済み
+ * - open: 未払い（支払い待ち・支払い失敗）
+ * - void: 無効
+ * - uncollectible: 回収不能
+ */
+export type BillingInvoiceStatus = "paid" | "open" | "void" | "uncollectible";
+
+/**
+ * 請求履歴の1件（APIのレスポンスとしてそのまま返す）
+ */
+export interface BillingInvoice {
+  id: string;
+  /** 請求書番号（例: ABCD1234-0001） */
+  number: string | null;
+  /** 請求日（ISO 8601） */
+  createdAt: string;
+  /** 請求対象期間の開始日・終了日（ISO 8601） */
+  periodStart: string;
+  periodEnd: string;
+  /** 請求額（円、税込） */
+  total: number;
+  /** うち消費税額（円。Stripeで税率を設定していない場合は null） */
+  taxAmount: number | null;
+  /** 支払い済みの金額（円） */
+  amountPaid: number;
+  status: BillingInvoiceStatus;
+  /** 請求書のPDF（支払い済みの場合は領収書を兼ねる） */
+  invoicePdfUrl: string | null;
+  /** Stripeの請求書ページ（未払いの場合はここから支払える） */
+  hostedInvoiceUrl: string | null;
+}
+
+/**
+ * 請求先（Stripeの顧客情報に保存された宛名・住所）
+ */
+export interface BillingDetails {
+  name: string | null;
+  /** 住所（郵便番号・都道府県・市区町村・番地の順に連結したもの） */
+  address: string | null;
+}
+
+// =============================================================================
+// ヘルパー関数
+// =============================================================================
+
+/**
+ * Stripeの住所を、日本の表記順の1行の文字列にする
+ *
+ * @param address - Stripeの住所
+ * @returns 住所（空の場合は null）
+ */
+function formatAddress(address: Stripe.Address | null | undefined): string | null {
+  if (!address) {
+    return null;
+  }
+
+  const postalCode = address.postal_code ? `〒${address.postal_code}` : null;
+  const text = [postalCode, address.state, address.city, address.line1, address.line2]
+    .filter(Boolean)
+    .join(" ");
+
+  return text || null;
+}
+
+/**
+ * Stripeの請求書を請求履歴の1件に変換
+ *
+ * @param invoice - Stripeの請求書
+ */
+function toBillingInvoice(invoice: Stripe.Invoice): BillingInvoice | null {
+  // 下書き（確定前）の請求書は表示しない
+  if (!invoice.id || !invoice.status || invoice.status === "draft") {
+    return null;
+  }
+
+  const taxAmount = invoice.total_taxes?.length
+    ? invoice.total_taxes.reduce((sum, tax) => sum + tax.amount, 0)
+    : null;
+
+  return {
+    id: invoice.id,
+    number: invoice.number,
+    createdAt: new Date(invoice.created * 1000).toISOString(),
+    periodStart: new Date(invoice.period_start * 1000).toISOString(),
+    periodEnd: new Date(invoice.period_end * 1000).toISOString(),
+    total: invoice.total,
+    taxAmount,
+    amountPaid: invoice.amount_paid,
+    status: invoice.status,
+    invoicePdfUrl: invoice.invoice_pdf ?? null,
+    hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+  };
+}
+
+// =============================================================================
+// 取得関数
+// =============================================================================
+
+/**
+ * 顧客の請求履歴を新しい順に取得
+ *
+ * @param stripeCustomerId - StripeのCustomer ID（subscriptions.stripe_customer_id）
+ * @param limit - 取得する最大件数
+ * @returns 請求履歴
+ */
+export async function listBillingInvoices(
+  stripeCustomerId: string,
+  limit = 24
+): Promise<BillingInvoice[]> {
+  const stripe = getStripeClient();
+  const invoices = await stripe.invoices.list({
+    customer: stripeCustomerId,
+    limit,
+  });
+
+  return invoices.data.flatMap((invoice) => {
+    const billingInvoice = toBillingInvoice(invoice);
+    return billingInvoice ? [billingInvoice] : [];
+  });
+}
+
+/**
+ * 顧客の請求先（宛名・住所）を取得
+ *
+ * @param stripeCustomerId - StripeのCustomer ID
+ * @returns 請求先（顧客が削除されている場合は宛名・住所とも null）
+ */
+export async function getBillingDetails(stripeCustomerId: string): Promise<BillingDetails> {
+  const stripe = getStripeClient();
+  const customer = await stripe.customers.retrieve(stripeCustomerId);
+
+  if (customer.deleted) {
+    return { name: null, address: null };
+  }
+
+  return {
+    name: customer.name ?? null,
+    address: formatAddress(customer.address),
+  };
+}
+
+/**
+ * 請求書の発行事業者の登録番号（適格請求書発行事業者登録番号）を取得
+ *
+ * @returns 登録番号（未設定の場合は null）
+ */
+export function getInvoiceRegistrationNumber(): string | null {
+  return process.env.INVOICE_REGISTRATION_NUMBER || null;
+}
@@ -0,0 +1,37 @@
+/**
+ * 運営者用APIの認証
+ *
+ * このファイルは、運営者や定期実行（スケジューラー）からのみ呼び出すAPIで、
+ * 環境変数に設定したシークレットとリクエストのトークンを照合する処理を提供します。
+ *
+ * 使用箇所：
+ * - app/api/stripe/events/replay/route.ts（STRIPE_EVENT_REPLAY_SECRET）
+ * - app/api/stripe/subscriptions/expire/route.ts（CRON_SECRET）
+ * - app/api/recurring/materialize/route.ts（CRON_SECRET）
+ *
+ * 注意：
+ * - サーバーサイド専用
+ */
+
+import { timingSafeEqual } from "crypto";
+
+/**
+ * リクエストのトークンがシークレットと一致するか確認
+ *
+ * @param authorization - Authorization ヘッダーの値（"Bearer <トークン>"）
+ * @param secret - 照合するシークレット
+ */
+export function isAuthorizedOperatorRequest(
+  authorization: string | null,
+  secret: string
+): boolean {
+  const token = authorization?.replace(/^Bearer\s+/i, "") ?? "";
+  const tokenBuffer = Buffer.from(token);
+  const secretBuffer = Buffer.from(secret);
+
+  // 長さが違うと timingSafeEqual は例外になるため、先に比較する
+  return (
+    tokenBuffer.length === secretBuffer.length &&
+    timingSafeEqual(tokenBuffer, secretBuffer)
+  );
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { isAcceptableProrationDate, PRORATION_DATE_MAX_AGE_SECONDS } from "./planChange";
+
+/** 現在時刻（UNIX秒） */
+const now = 1_718_452_800;
+/** 現在の契約期間の開始（10日前） */
+const currentPeriodStart = now - 10 * 24 * 60 * 60;
+
+describe("isAcceptableProrationDate", () => {
+  it("金額を確認した直後の基準時刻は受け付ける", () => {
+    expect(isAcceptableProrationDate(now - 30, currentPeriodStart, now)).toBe(true);
+    // サーバーとの時計のずれ（数分先）は許容する
+    expect(isAcceptableProrationDate(now + 60, currentPeriodStart, now)).toBe(true);
+  });
+
+  it("古すぎる基準時刻・先の基準時刻は受け付けない", () => {
+    expect(
+      isAcceptableProrationDate(now - PRORATION_DATE_MAX_AGE_SECONDS - 1, currentPeriodStart, now)
+    ).toBe(false);
+    expect(isAcceptableProrationDate(now + 60 * 60, currentPeriodStart, now)).toBe(false);
+  });
+
+  it("現在の契約期間より前の基準時刻は受け付けない", () => {
+    expect(isAcceptableProrationDate(now - 120, now - 60, now)).toBe(false);
+  });
+
+  it("整数でない基準時刻は受け付けない", () => {
+    expect(isAcceptableProrationDate(now - 0.5, currentPeriodStart, now)).toBe(false);
+  });
+});
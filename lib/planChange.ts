@@ -0,0 +1,451 @@
+/**
+ * プラン変更（アップグレード・ダウングレード）
+ *
+ * このファイルは、有料プランを契約中のユーザーが、アプリ内で別の有料プランに切り替えるための
+ * 処理（日割り金額のプレビューと変更の実行）を提供します。
+ *
+ * ビジネス上の役割：
+ * - アップグレード: 即時に切り替え、残りの契約期間分の差額を日割りでその場で請求する
+ * - ダウングレード: 支払い済みの契約期間が終わるまでは現在のプランのまま使い、
+ *   期間の終了時に切り替える（Stripeのサブスクリプションスケジュールで予約）
+ * - 変更前に、Stripeの請求書プレビューで請求される金額を確認できる
+ * - 予約したダウングレードは、現在と同じプランを指定すると取り消せる
+ *
+ * 変更内容のデータベースへの反映：
+ * - Webhook（customer.subscription.updated / subscription_schedule.*）で反映する（lib/stripeEvents.ts）
+ *
+ * 使用箇所：
+ * - app/api/stripe/plan-change/preview/route.ts（金額のプレビュー）
+ * - app/api/stripe/plan-change/route.ts（変更の実行）
+ *
+ * 注意：
+ * - サーバーサイド専用（Stripeのシークレットキーを使用）
+ */
+
+import Stripe from "stripe";
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getStripeClient,
+  PRICE_ID_TO_PLAN,
+  STRIPE_PRICE_IDS,
+  type PaidPlanType,
+  type PlanType,
+} from "./stripe";
+import { comparePlans, getPlanDefinition, type PlanChangeDirection } from "./plans";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * プランを切り替えるタイミング
+ * - immediate: 即時（差額を日割りで請求）
+ * - period_end: 現在の契約期間の終了時
+ */
+export type PlanChangeTiming = "immediate" | "period_end";
+
+/**
+ * プラン変更のプレビュー（APIのレスポンスとしてそのまま返す）
+ */
+export interface PlanChangePreview {
+  /** 現在のプラン */
+  currentPlanType: PlanType;
+  /** 変更先のプラン */
+  targetPlanType: PaidPlanType;
+  /** アップグレードかダウングレードか */
+  direction: PlanChangeDirection;
+  /** 切り替えるタイミング */
+  timing: PlanChangeTiming;
+  /** プランが切り替わる日時（ISO 8601） */
+  effectiveAt: string;
+  /** 日割りの差額（円。マイナスは次回以降の請求から差し引かれる） */
+  prorationAmount: number;
+  /** 変更時にすぐ請求される金額（円） */
+  amountDue: number;
+  /** 変更後のプランの通常の請求額（円） */
+  nextAmount: number;
+  /**
+   * 日割り計算の基準時刻（UNIX秒。期間終了時の変更は null）
+   * 変更の実行時に同じ値を渡すと、プレビューと同じ金額で請求される
+   */
+  prorationDate: number | null;
+}
+
+/**
+ * プラン変更の実行結果
+ * - changed: 即時に切り替えた
+ * - scheduled: 契約期間の終了時の切り替えを予約した
+ * - schedule_canceled: 予約していた切り替えを取り消した
+ */
+export interface PlanChangeResult {
+  status: "changed" | "scheduled" | "schedule_canceled";
+  targetPlanType: PaidPlanType;
+  /** プランが切り替わる日時（ISO 8601） */
+  effectiveAt: string;
+}
+
+/**
+ * プラン変更のエラー
+ *
+ * 契約が見つからない・解約予定など、ユーザーの操作では変更できない理由を
+ * APIのステータスコードとともに返せるようにする
+ */
+export class PlanChangeError extends Error {
+  /** APIで返すHTTPステータスコード */
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "PlanChangeError";
+    this.status = status;
+  }
+}
+
+/**
+ * 変更対象の契約
+ */
+interface CurrentSubscription {
+  subscription: Stripe.Subscription;
+  item: Stripe.SubscriptionItem;
+  planType: PlanType;
+}
+
+// =============================================================================
+// ヘルパー関数
+// =============================================================================
+
+/**
+ * 値がプラン変更のタイミングかどうかを判定
+ *
+ * @param value - 判定対象の値（リクエストボディの値）
+ */
+export function isPlanChangeTiming(value: unknown): value is PlanChangeTiming {
+  return value === "immediate" || value === "period_end";
+}
+
+/**
+ * 切り替えるタイミングを決める
+ * 指定がない場合は、アップグレードは即時、ダウングレードは契約期間の終了時
+ *
+ * @param direction - アップグレードかダウングレードか
+ * @param timing - 指定されたタイミング
+ */
+function resolveTiming(
+  direction: PlanChangeDirection,
+  timing: PlanChangeTiming | undefined
+): PlanChangeTiming {
+  return timing ?? (direction === "upgrade" ? "immediate" : "period_end");
+}
+
+/** プレビューの日割り基準時刻を変更の実行時に使える時間（秒） */
+export const PRORATION_DATE_MAX_AGE_SECONDS = 60 * 60;
+
+/** サーバーとの時計のずれとして許容する時間（秒） */
+const PRORATION_DATE_CLOCK_SKEW_SECONDS = 5 * 60;
+
+/**
+ * ブラウザから渡された日割り計算の基準時刻が使える値かどうかを判定
+ *
+ * 基準時刻を契約期間の終わり近くにすると差額がほとんど請求されなくなるため、
+ * 「現在の契約期間の開始以降」かつ「直近1時間以内〜数分先まで」の値だけを受け付ける
+ *
+ * @param prorationDate - 日割り計算の基準時刻（UNIX秒）
+ * @param currentPeriodStart - 現在の契約期間の開始（UNIX秒）
+ * @param now - 現在時刻（UNIX秒）
+ */
+export function isAcceptableProrationDate(
+  prorationDate: number,
+  currentPeriodStart: number,
+  now: number
+): boolean {
+  return (
+    Number.isInteger(prorationDate) &&
+    prorationDate >= Math.max(currentPeriodStart, now - PRORATION_DATE_MAX_AGE_SECONDS) &&
+    prorationDate <= now + PRORATION_DATE_CLOCK_SKEW_SECONDS
+  );
+}
+
+/**
+ * StripeのCustomer（IDまたはオブジェクト）からCustomer IDを取得
+ */
+function getCustomerId(
+  customer: string | Stripe.Customer | Stripe.DeletedCustomer
+): string {
+  return typeof customer === "string" ? customer : customer.id;
+}
+
+/**
+ * 農場が契約中のStripeサブスクリプションを取得
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param farmId - 対象農場のID
+ * @throws 有料プランの契約がない、または変更できない状態の場合
+ */
+async function getCurrentSubscription(
+  supabase: SupabaseClient,
+  farmId: string
+): Promise<CurrentSubscription> {
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .select("stripe_subscription_id")
+    .eq("farm_id", farmId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("サブスクリプション取得エラー:", error);
+    throw new Error("サブスクリプション情報の取得に失敗しました");
+  }
+
+  if (!data?.stripe_subscription_id) {
+    throw new PlanChangeError(
+      "有料プランのご契約が見つかりません。料金ページからお申し込みください。",
+      404
+    );
+  }
+
+  // 最新の契約内容（プラン・期間・予約中の変更）はStripeから取得する
+  const stripe = getStripeClient();
+  const subscription = await stripe.subscriptions.retrieve(data.stripe_subscription_id);
+
+  if (subscription.status === "canceled" || subscription.status === "incomplete_expired") {
+    throw new PlanChangeError(
+      "ご契約は終了しています。料金ページから改めてお申し込みください。",
+      409
+    );
+  }
+
+  if (subscription.status === "past_due" || subscription.status === "unpaid") {
+    throw new PlanChangeError(
+      "お支払いが確認できていないため、プランを変更できません。先に支払い方法を更新してください。",
+      409
+    );
+  }
+
+  if (subscription.cancel_at_period_end) {
+    throw new PlanChangeError(
+      "解約予定のご契約はプランを変更できません。解約を取り消してから変更してください。",
+      409
+    );
+  }
+
+  const item = subscription.items.data[0];
+  const planType = item ? PRICE_ID_TO_PLAN[item.price.id] : undefined;
+
+  if (!item || !planType) {
+    throw new Error(`不明なPrice ID: ${item?.price.id}`);
+  }
+
+  return { subscription, item, planType };
+}
+
+/**
+ * サブスクリプションに付いているスケジュールのIDを取得
+ */
+function getScheduleId(subscription: Stripe.Subscription): string | null {
+  if (!subscription.schedule) {
+    return null;
+  }
+  return typeof subscription.schedule === "string"
+    ? subscription.schedule
+    : subscription.schedule.id;
+}
+
+// =============================================================================
+// プレビュー・実行
+// =============================================================================
+
+/**
+ * プラン変更で請求される金額をプレビュー
+ *
+ * ビジネス上の流れ：
+ * 1. 契約中のサブスクリプションと現在のプランを確認
+ * 2. 即時の変更: Stripeの請求書プレビューで、日割りの差額と今回の請求額を計算
+ * 3. 期間終了時の変更: 今回の請求はなく、次回から変更後のプランの料金になる
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param farmId - 対象農場のID
+ * @param targetPlanType - 変更先のプラン
+ * @param timing - 切り替えるタイミング（省略時はアップグレードは即時、ダウングレードは期間終了時）
+ * @throws 変更できない場合は PlanChangeError
+ */
+export async function previewPlanChange(
+  supabase: SupabaseClient,
+  farmId: string,
+  targetPlanType: PaidPlanType,
+  timing?: PlanChangeTiming
+): Promise<PlanChangePreview> {
+  const { subscription, item, planType } = await getCurrentSubscription(supabase, farmId);
+  const direction = comparePlans(planType, targetPlanType);
+
+  if (direction === "same") {
+    throw new PlanChangeError("すでにご利用中のプランです");
+  }
+
+  const resolvedTiming = resolveTiming(direction, timing);
+  const nextAmount = getPlanDefinition(targetPlanType).priceAmount;
+
+  // 期間終了時の変更は、今回の請求なし
+  if (resolvedTiming === "period_end") {
+    return {
+      currentPlanType: planType,
+      targetPlanType,
+      direction,
+      timing: resolvedTiming,
+      effectiveAt: new Date(item.current_period_end * 1000).toISOString(),
+      prorationAmount: 0,
+      amountDue: 0,
+      nextAmount,
+      prorationDate: null,
+    };
+  }
+
+  // 即時の変更は、変更後の請求書をプレビューして日割りの差額を計算
+  const stripe = getStripeClient();
+  const prorationDate = Math.floor(Date.now() / 1000);
+  const invoice = await stripe.invoices.createPreview({
+    customer: getCustomerId(subscription.customer),
+    subscription: subscription.id,
+    subscription_details: {
+      items: [{ id: item.id, price: STRIPE_PRICE_IDS[targetPlanType] }],
+      proration_behavior: "always_invoice",
+      proration_date: prorationDate,
+    },
+  });
+
+  const prorationAmount = invoice.lines.data
+    .filter((line) => line.parent?.subscription_item_details?.proration)
+    .reduce((sum, line) => sum + line.amount, 0);
+
+  return {
+    currentPlanType: planType,
+    targetPlanType,
+    direction,
+    timing: resolvedTiming,
+    effectiveAt: new Date(prorationDate * 1000).toISOString(),
+    prorationAmount,
+    amountDue: invoice.amount_due,
+    nextAmount,
+    prorationDate,
+  };
+}
+
+/**
+ * プランを変更する
+ *
+ * ビジネス上の流れ：
+ * - 即時の変更: 予約中の変更を解除してから、サブスクリプションの価格を差し替え、差額をすぐに請求する
+ * - 期間終了時の変更: サブスクリプションスケジュールに
+ *   「現在の契約期間の終了までは現在のプラン → その後は変更先のプラン」の2段階を設定する
+ * - 現在と同じプランを指定した場合: 予約中の変更を取り消す
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param farmId - 対象農場のID
+ * @param targetPlanType - 変更先のプラン
+ * @param timing - 切り替えるタイミング（省略時はアップグレードは即時、ダウングレードは期間終了時）
+ * @param prorationDate - プレビュー時の日割り計算の基準時刻（プレビューと同じ金額で請求するため）
+ *   ブラウザから渡される値のため、isAcceptableProrationDate() で範囲を確認してから使う
+ * @throws 変更できない場合は PlanChangeError
+ */
+export async function applyPlanChange(
+  supabase: SupabaseClient,
+  farmId: string,
+  targetPlanType: PaidPlanType,
+  timing?: PlanChangeTiming,
+  prorationDate?: number
+): Promise<PlanChangeResult> {
+  const { subscription, item, planType } = await getCurrentSubscription(supabase, farmId);
+  const direction = comparePlans(planType, targetPlanType);
+  const scheduleId = getScheduleId(subscription);
+  const stripe = getStripeClient();
+
+  // 現在と同じプラン: 予約中の変更があれば取り消す
+  if (direction === "same") {
+    if (!scheduleId) {
+      throw new PlanChangeError("すでにご利用中のプランです");
+    }
+
+    await stripe.subscriptionSchedules.release(scheduleId);
+    console.log(`サブスクリプション ${subscription.id} のプラン変更の予約を取り消しました`);
+
+    return {
+      status: "schedule_canceled",
+      targetPlanType,
+      effectiveAt: new Date().toISOString(),
+    };
+  }
+
+  const targetPriceId = STRIPE_PRICE_IDS[targetPlanType];
+
+  // 即時の変更
+  if (resolveTiming(direction, timing) === "immediate") {
+    if (
+      prorationDate !== undefined &&
+      !isAcceptableProrationDate(prorationDate, item.current_period_start, Math.floor(Date.now() / 1000))
+    ) {
+      throw new PlanChangeError(
+        "金額の確認から時間が経ったため、変更できませんでした。もう一度金額を確認してください。"
+      );
+    }
+
+    // 予約中の変更があると価格を直接変更できないため、先に解除する
+    if (scheduleId) {
+      await stripe.subscriptionSchedules.release(scheduleId);
+    }
+
+    await stripe.subscriptions.update(subscription.id, {
+      items: [{ id: item.id, price: targetPriceId }],
+      proration_behavior: "always_invoice",
+      ...(prorationDate ? { proration_date: prorationDate } : {}),
+      // 差額の支払いに失敗した場合は、変更を反映しない
+      payment_behavior: "pending_if_incomplete",
+    });
+
+    console.log(`サブスクリプション ${subscription.id} を ${targetPlanType} に変更しました`);
+
+    return {
+      status: "changed",
+      targetPlanType,
+      effectiveAt: new Date().toISOString(),
+    };
+  }
+
+  // 期間終了時の変更: スケジュールがなければ、現在の契約内容から作成する
+  const schedule = scheduleId
+    ? await stripe.subscriptionSchedules.retrieve(scheduleId)
+    : await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+
+  const now = Math.floor(Date.now() / 1000);
+  const currentPhase =
+    schedule.phases.find((phase) => phase.start_date <= now && phase.end_date > now) ??
+    schedule.phases[0];
+  const targetInterval = getPlanDefinition(targetPlanType).billingInterval ?? "month";
+
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    phases: [
+      {
+        // 現在の契約期間の終了までは、現在のプランのまま
+        items: [{ price: item.price.id, quantity: item.quantity ?? 1 }],
+        start_date: currentPhase.start_date,
+        end_date: item.current_period_end,
+      },
+      {
+        // 期間の終了後は変更先のプラン
+        items: [{ price: targetPriceId, quantity: 1 }],
+        duration: { interval: targetInterval, interval_count: 1 },
+        metadata: { plan_type: targetPlanType },
+      },
+    ],
+    // 変更後はスケジュールを外し、通常のサブスクリプションとして自動更新する
+    end_behavior: "release",
+  });
+
+  console.log(
+    `サブスクリプション ${subscription.id} の ${targetPlanType} への変更を予約しました`
+  );
+
+  return {
+    status: "scheduled",
+    targetPlanType,
+    effectiveAt: new Date(item.current_period_end * 1000).toISOString(),
+  };
+}
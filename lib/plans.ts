@@ -0,0 +1,313 @@
+/**
+ * 料金プランのカタログ
+ *
+ * このファイルは、全プランの情報（名称・価格・使用上限・機能・Stripe Price ID）を
+ * 1か所で定義します。
+ *
+ * ビジネス上の役割：
+ * - 使用上限（PLAN_LIMITS）、表示情報（PLAN_DISPLAY_INFO）、Price IDの対応表（PRICE_ID_TO_PLAN）、
+ *   料金ページ（PricingTable）はすべてこのカタログから作られる
+ * - プランの追加や無料プランの上限変更は、このファイルの編集だけで済む
+ *   （データベースの plan_type はカタログで検証するため、マイグレーションは不要）
+ * - プランごとの機能（カスタムレポート、複数ユーザーなど）は hasFeature で確認する
+ *
+ * 注意：
+ * - ブラウザからも読み込まれるため、Stripe SDK などサーバー専用のモジュールは読み込まない
+ */
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * プランの種類（表示順）
+ * - free: 無料プラン（制限あり）
+ * - standard: スタンダードプラン（¥2,980/月）
+ * - premium: プレミアムプラン（¥4,980/月）
+ * - pro_yearly: 年額プロプラン（¥35,760/年）
+ */
+export const PLAN_TYPES = ["free", "standard", "premium", "pro_yearly"] as const;
+
+/**
+ * プランの種類
+ */
+export type PlanType = (typeof PLAN_TYPES)[number];
+
+/**
+ * 機能の使用制限を定義する型
+ * Infinityは無制限を表す
+ */
+export interface PlanLimits {
+  /** OCR（レシート読み取り）の月間使用上限 */
+  ocrLimit: number;
+  /** エクスポート（CSV/PDF出力）の月間使用上限 */
+  exportLimit: number;
+  /** AIアシスタントの月間使用上限 */
+  aiAssistantLimit: number;
+}
+
+/**
+ * 使用量追跡の対象となる機能の種類
+ */
+export type UsageFeature = "ocr" | "export" | "ai_assistant";
+
+/**
+ * プランごとに使える・使えないが分かれる機能
+ * - detailed_reports: 詳細な分析レポート
+ * - custom_reports: カスタムレポート
+ * - priority_support: 優先サポート
+ * - data_migration_support: データ引継ぎサポート
+ * - multi_user: 複数ユーザーでの利用
+ */
+export type PlanFeatureFlag =
+  | "detailed_reports"
+  | "custom_reports"
+  | "priority_support"
+  | "data_migration_support"
+  | "multi_user";
+
+/**
+ * プラン1件分の定義
+ */
+export interface PlanDefinition {
+  planType: PlanType;
+  /** プラン名（表示用） */
+  name: string;
+  /** プランの説明文 */
+  description: string;
+  /** 価格（円、税込） */
+  priceAmount: number;
+  /** 請求の間隔（無料プランは null） */
+  billingInterval: "month" | "year" | null;
+  /** Stripe Price ID（無料プランは null） */
+  stripePriceId: string | null;
+  /** 初回申し込み時の無料体験の日数（0 は無料体験なし） */
+  trialDays: number;
+  /** 使用上限 */
+  limits: PlanLimits;
+  /** 使える機能 */
+  featureFlags: PlanFeatureFlag[];
+  /** 料金ページに表示する機能一覧 */
+  features: string[];
+  /** 料金ページでおすすめとして強調するか */
+  isRecommended: boolean;
+  /** プランの格（大きいほど上位。プラン変更がアップグレードかダウングレードかの判定に使う） */
+  tier: number;
+}
+
+/**
+ * プラン変更の向き
+ * - upgrade: 上位プランへの変更
+ * - downgrade: 下位プランへの変更
+ * - same: 同じプラン
+ */
+export type PlanChangeDirection = "upgrade" | "downgrade" | "same";
+
+// =============================================================================
+// プランカタログ
+// =============================================================================
+
+/**
+ * 有料プランの使用上限（全機能無制限）
+ */
+const UNLIMITED: PlanLimits = {
+  ocrLimit: Infinity,
+  exportLimit: Infinity,
+  aiAssistantLimit: Infinity,
+};
+
+/**
+ * 全プランの定義（料金ページの表示順）
+ *
+ * 無料プランの制限値の根拠：
+ * - OCR 50回/月: 一般的な農家の月間レシート枚数をカバー
+ * - 出力 3回/月: 月次報告用途を想定
+ * - AI 10回/月: 基本的な質問対応を想定
+ *
+ * プランの格（tier）：
+ * - 上位プランへの変更（アップグレード）は即時に、下位プランへの変更（ダウングレード）は
+ *   契約期間の終了時に切り替える（lib/planChange.ts）
+ * - 年額プロはプレミアムと同じ機能だが、年額の一括払いのため上位とする
+ *
+ * 無料体験（trialDays）：
+ * - 有料プランの初回申し込み時のみ適用（一度無料体験を使ったユーザーには付けない）
+ * - 無料体験中はそのプランの機能・上限で利用できる
+ *
+ * Stripe Price ID の設定手順：
+ * 1. Stripeダッシュボード（https://dashboard.stripe.com/products）にアクセス
+ * 2. 「商品を追加」から各プランの商品を作成
+ * 3. 価格設定で繰り返し請求（月額/年額）を選択
+ * 4. 作成された price_xxx のIDを環境変数に設定
+ */
+export const PLAN_CATALOG: readonly PlanDefinition[] = [
+  {
+    planType: "free",
+    name: "無料プラン",
+    description: "基本機能をお試しいただけます",
+    priceAmount: 0,
+    billingInterval: null,
+    stripePriceId: null,
+    trialDays: 0,
+    limits: {
+      ocrLimit: 50,
+      exportLimit: 3,
+      aiAssistantLimit: 10,
+    },
+    featureFlags: [],
+    features: [
+      "OCRレシート読み取り（50回/月）",
+      "データ出力（3回/月）",
+      "AIアシスタント（10回/月）",
+      "経費・売上管理",
+    ],
+    isRecommended: false,
+    tier: 0,
+  },
+  {
+    planType: "standard",
+    name: "スタンダード",
+    description: "個人農家におすすめ",
+    priceAmount: 2980,
+    billingInterval: "month",
+    stripePriceId: process.env.STRIPE_PRICE_STANDARD_MONTHLY || "price_standard_monthly",
+    trialDays: 14,
+    limits: UNLIMITED,
+    featureFlags: ["detailed_reports"],
+    features: [
+      "OCRレシート読み取り（無制限）",
+      "データ出力（無制限）",
+      "AIアシスタント（無制限）",
+      "経費・売上管理",
+      "詳細な分析レポート",
+    ],
+    isRecommended: true,
+    tier: 1,
+  },
+  {
+    planType: "premium",
+    name: "プレミアム",
+    description: "法人・大規模農家向け",
+    priceAmount: 4980,
+    billingInterval: "month",
+    stripePriceId: process.env.STRIPE_PRICE_PREMIUM_MONTHLY || "price_premium_monthly",
+    trialDays: 14,
+    limits: UNLIMITED,
+    featureFlags: [
+      "detailed_reports",
+      "custom_reports",
+      "priority_support",
+      "data_migration_support",
+      "multi_user",
+    ],
+    features: [
+      "スタンダードの全機能",
+      "優先サポート",
+      "データ引継ぎサポート",
+      "カスタムレポート",
+    ],
+    isRecommended: false,
+    tier: 2,
+  },
+  {
+    planType: "pro_yearly",
+    name: "年額プロ",
+    description: "年払いで2ヶ月分お得",
+    priceAmount: 35760,
+    billingInterval: "year",
+    stripePriceId: process.env.STRIPE_PRICE_PRO_YEARLY || "price_pro_yearly",
+    // 年額プランは割引があるため無料体験なし
+    trialDays: 0,
+    limits: UNLIMITED,
+    featureFlags: [
+      "detailed_reports",
+      "custom_reports",
+      "priority_support",
+      "data_migration_support",
+      "multi_user",
+    ],
+    features: [
+      "プレミアムの全機能",
+      "年額払いで2ヶ月分お得",
+      "長期契約特典",
+    ],
+    isRecommended: false,
+    tier: 3,
+  },
+];
+
+// =============================================================================
+// ヘルパー関数
+// =============================================================================
+
+/**
+ * 値がカタログにあるプランタイプかどうかを判定
+ *
+ * @param value - 判定対象の値（リクエストボディやデータベースの値）
+ */
+export function isPlanType(value: unknown): value is PlanType {
+  return typeof value === "string" && (PLAN_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * データベースの plan_type をプランタイプに変換
+ * カタログにない値（削除したプランなど）は無料プランとして扱う
+ *
+ * @param value - subscriptions.plan_type の値
+ */
+export function toPlanType(value: unknown): PlanType {
+  return isPlanType(value) ? value : "free";
+}
+
+/**
+ * プランの定義を取得
+ *
+ * @param planType - プランタイプ
+ */
+export function getPlanDefinition(planType: PlanType): PlanDefinition {
+  return PLAN_CATALOG.find((plan) => plan.planType === planType) ?? PLAN_CATALOG[0];
+}
+
+/**
+ * プランの価格を表示用の文字列にする（例：「¥2,980/月」）
+ *
+ * @param plan - プランの定義
+ */
+export function formatPlanPrice(plan: PlanDefinition): string {
+  const price = `¥${plan.priceAmount.toLocaleString("ja-JP")}`;
+  if (plan.billingInterval === "month") return `${price}/月`;
+  if (plan.billingInterval === "year") return `${price}/年`;
+  return price;
+}
+
+/**
+ * プランで指定した機能が使えるかどうかを判定
+ *
+ * 使用例：
+ * ```typescript
+ * if (!hasFeature(planType, "custom_reports")) {
+ *   // アップグレード誘導
+ * }
+ * ```
+ *
+ * @param planType - プランタイプ
+ * @param flag - 確認する機能
+ * @returns 使える場合は true
+ */
+export function hasFeature(planType: PlanType, flag: PlanFeatureFlag): boolean {
+  return getPlanDefinition(planType).featureFlags.includes(flag);
+}
+
+/**
+ * プラン変更の向きを判定
+ *
+ * @param from - 現在のプラン
+ * @param to - 変更先のプラン
+ */
+export function comparePlans(from: PlanType, to: PlanType): PlanChangeDirection {
+  const fromTier = getPlanDefinition(from).tier;
+  const toTier = getPlanDefinition(to).tier;
+
+  if (toTier > fromTier) return "upgrade";
+  if (toTier < fromTier) return "downgrade";
+  return "same";
+}
@@ -0,0 +1,239 @@
+/**
+ * レシートOCRのクライアント側ユーティリティ
+ *
+ * ビジネス上の役割:
+ * - レシート画像の圧縮と /api/ocr の呼び出しを1か所にまとめる
+ * - 1枚ずつ読み取るレシートスキャナーと、まとめて読み取る一括OCRの両方から使う
+ *
+ * 主な機能:
+ * - prepareReceiptImage: 画像を圧縮してBase64に変換（失敗時は非圧縮版）
+ * - requestReceiptOcr: OCR APIを呼び出して解析結果を返す
+ * - findCategoryByOcrName: OCRが推定した科目名を、ユーザーの勘定科目に対応付ける
+ * - 明細行の経費フォームへの引き継ぎ（科目ごとの分割登録に使う）
+ * - getReceiptTaxRate: 明細行の税率から、レシート全体の税率を判定する
+ */
+
+import { compressImageFile } from "@/lib/imageCompression";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * レシートの明細1行
+ */
+export interface OcrLineItem {
+  name: string;               // 品名
+  quantity: number | null;    // 数量
+  unitPrice: number | null;   // 単価
+  amount: number;             // 金額（レシートに印字された金額。値引きはマイナス）
+  taxRate: number | null;     // 税率（8 または 10）
+  category: string | null;    // 勘定科目（自動推定）
+}
+
+/**
+ * OCR解析結果の型
+ * レシートから読み取った情報を格納
+ */
+export interface OcrResult {
+  date: string | null;        // 購入日
+  amount: number | null;      // 金額
+  storeName: string | null;   // 店舗名
+  items: string | null;       // 品目
+  category: string | null;    // 勘定科目（自動推定）
+  lineItems: OcrLineItem[];             // 明細行（読み取れなければ空）
+  pricesIncludeTax: boolean | null;     // 明細の金額が税込か（外税表示なら false）
+  invoiceRegistrationNumber: string | null; // 適格請求書発行事業者の登録番号（T + 13桁）
+}
+
+/**
+ * 経費フォームに引き継ぐ明細行の情報
+ */
+export interface PendingReceiptLineItems {
+  lineItems: OcrLineItem[];
+  pricesIncludeTax: boolean | null;
+}
+
+/**
+ * OCR APIのエラー
+ *
+ * 使用回数の上限に達した場合（code: USAGE_LIMIT_EXCEEDED）は
+ * 以降の画像を送っても失敗するため、呼び出し側で処理を止められるようにコードを持たせる
+ */
+export class ReceiptOcrError extends Error {
+  /** APIが返したエラーコード（なければ null） */
+  readonly code: string | null;
+
+  constructor(message: string, code: string | null = null) {
+    super(message);
+    this.name = "ReceiptOcrError";
+    this.code = code;
+  }
+}
+
+// =============================================================================
+// 画像の準備
+// =============================================================================
+
+/**
+ * 画像をBase64形式に変換する（非圧縮版、圧縮失敗時のフォールバック）
+ */
+function convertImageToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("画像の読み込みに失敗しました"));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * レシート画像をOCR API送信用のBase64に変換する
+ *
+ * 画像を圧縮してから送信することで、通信時間とAPIの処理時間を短縮する
+ * 圧縮に失敗した場合は非圧縮版にフォールバックする
+ *
+ * @param file - 撮影/選択されたレシート画像
+ * @returns Base64形式の画像（data:image/...;base64,... 形式）
+ */
+export async function prepareReceiptImage(file: File): Promise<string> {
+  try {
+    return await compressImageFile(file, {
+      maxWidth: 1200,
+      maxHeight: 1600,
+      quality: 0.85,
+    });
+  } catch {
+    console.warn("画像圧縮に失敗。非圧縮版を使用します。");
+    return convertImageToBase64(file);
+  }
+}
+
+// =============================================================================
+// OCR APIの呼び出し
+// =============================================================================
+
+/**
+ * OCR APIを呼び出してレシートを解析する
+ *
+ * 使用回数のチェックとカウントアップはAPI側で行う（1回の呼び出し = 1枚）
+ *
+ * @param imageBase64 - prepareReceiptImage() で変換した画像
+ * @returns 解析結果
+ * @throws ReceiptOcrError - APIがエラーを返した場合
+ */
+export async function requestReceiptOcr(imageBase64: string): Promise<OcrResult> {
+  const response = await fetch("/api/ocr", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ imageBase64 }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new ReceiptOcrError(data.error || "OCR処理に失敗しました", data.code ?? null);
+  }
+
+  return data.data;
+}
+
+// =============================================================================
+// 経費フォームへの明細行の引き継ぎ
+// =============================================================================
+
+/** 経費フォームに引き継ぐ明細行の sessionStorage キー */
+const PENDING_LINE_ITEMS_STORAGE_KEY = "agri:pendingReceiptLineItems";
+
+/**
+ * 経費フォームに引き継ぐ明細行を一時保存する
+ * （明細行はURLパラメータに載せると長くなりすぎるため sessionStorage を使う）
+ */
+export function savePendingLineItems(pending: PendingReceiptLineItems): void {
+  try {
+    sessionStorage.setItem(PENDING_LINE_ITEMS_STORAGE_KEY, JSON.stringify(pending));
+  } catch (error) {
+    console.error("明細行の一時保存に失敗:", error);
+  }
+}
+
+/**
+ * 一時保存した明細行を取得する（なければ null）
+ */
+export function loadPendingLineItems(): PendingReceiptLineItems | null {
+  try {
+    const storedValue = sessionStorage.getItem(PENDING_LINE_ITEMS_STORAGE_KEY);
+    return storedValue ? (JSON.parse(storedValue) as PendingReceiptLineItems) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 一時保存した明細行を破棄する
+ */
+export function clearPendingLineItems(): void {
+  try {
+    sessionStorage.removeItem(PENDING_LINE_ITEMS_STORAGE_KEY);
+  } catch {
+    // sessionStorage が使えない環境では何もしない
+  }
+}
+
+// =============================================================================
+// 勘定科目の対応付け
+// =============================================================================
+
+/**
+ * OCRで推定された科目名を、ユーザーの勘定科目に対応付ける
+ *
+ * マッチング優先順位:
+ * 1. 完全一致（例: "肥料費" === "肥料費"）
+ * 2. 部分一致（例: "肥料" が "肥料費" に含まれる）
+ *
+ * @param ocrCategory - OCRで推測された科目名
+ * @param categories - ユーザーの勘定科目
+ * @returns マッチした勘定科目（見つからなければ null）
+ */
+export function findCategoryByOcrName<TCategory extends { name: string }>(
+  ocrCategory: string | null,
+  categories: TCategory[]
+): TCategory | null {
+  if (!ocrCategory) return null;
+
+  const exactMatch = categories.find((category) => category.name === ocrCategory);
+  if (exactMatch) return exactMatch;
+
+  const partialMatch = categories.find(
+    (category) => category.name.includes(ocrCategory) || ocrCategory.includes(category.name)
+  );
+  return partialMatch || null;
+}
+
+/**
+ * レシート全体の消費税率を判定する
+ *
+ * 税率の読み取れた明細が全て同じ税率であれば、その税率を返す
+ * 10% と 8% が混在するレシート（または税率が読み取れない場合）は null
+ * （混在する場合は、経費フォームで科目別に分割して税率ごとに登録する）
+ */
+export function getReceiptTaxRate(ocrResult: OcrResult): 10 | 8 | null {
+  const taxRates = new Set(
+    (ocrResult.lineItems || [])
+      .map((lineItem) => lineItem.taxRate)
+      .filter((taxRate) => taxRate === 10 || taxRate === 8)
+  );
+  if (taxRates.size !== 1) return null;
+  return taxRates.has(8) ? 8 : 10;
+}
+
+/**
+ * 店舗名と品目を組み合わせて経費の摘要を作成する
+ * （例: "○○農業資材店: 肥料,培養土"）
+ */
+export function buildOcrDescription(ocrResult: OcrResult): string {
+  if (ocrResult.storeName) {
+    return ocrResult.items ? `${ocrResult.storeName}: ${ocrResult.items}` : ocrResult.storeName;
+  }
+  return ocrResult.items || "";
+}
@@ -0,0 +1,183 @@
+/**
+ * レシートの科目別分割ユーティリティ
+ *
+ * ビジネス上の役割:
+ * 農業資材店のレシートには肥料・農薬・消耗品などが混在するため、
+ * 1枚のレシートを勘定科目ごとの複数の経費に分けて登録できるようにする
+ *
+ * 分割のルール:
+ * - OCRの明細行を勘定科目ごとにまとめ、1科目 = 1経費とする
+ * - 軽減税率（8%）と標準税率（10%）の明細は、同じ科目でも別の行にする
+ * - 外税表示のレシートは、明細の金額に税率を掛けて税込に換算する
+ * - 分割した金額の合計は、必ずレシートの合計金額と一致させる
+ *   （端数の差は自動で最も金額の大きい行に寄せ、それ以上の差はユーザーが調整する）
+ */
+
+import { findCategoryByOcrName, type OcrLineItem } from "@/lib/receiptOcr";
+import {
+  DEFAULT_EXPENSE_TAX_RATE,
+  toConsumptionTaxRate,
+  type ConsumptionTaxRate,
+} from "@/lib/consumptionTax";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 分割後の1行（= 登録される経費1件）
+ * 金額は入力欄で編集するため、経費フォームと同じく文字列で持つ
+ */
+export interface ExpenseSplitLine {
+  id: string;            // 画面上の識別子
+  categoryId: string;    // 勘定科目ID
+  categoryName: string;  // 勘定科目名
+  amount: string;        // 金額（税込）
+  taxRate: string;       // 消費税率（"10" / "8" / "0"）
+  memo: string;          // 品名など（経費の摘要に追記する）
+}
+
+/**
+ * 分割に使う勘定科目
+ */
+interface SplitCategory {
+  id: string;
+  name: string;
+}
+
+// =============================================================================
+// 分割行の作成
+// =============================================================================
+
+/**
+ * 分割行の識別子を作成
+ */
+export function createSplitLineId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 空の分割行を作成（ユーザーが行を追加するとき）
+ */
+export function createEmptySplitLine(): ExpenseSplitLine {
+  return {
+    id: createSplitLineId(),
+    categoryId: "",
+    categoryName: "",
+    amount: "",
+    taxRate: String(DEFAULT_EXPENSE_TAX_RATE),
+    memo: "",
+  };
+}
+
+/**
+ * 明細1行の税率（読み取れなかった明細は標準税率とみなす）
+ */
+function getLineItemTaxRate(lineItem: OcrLineItem): ConsumptionTaxRate {
+  return toConsumptionTaxRate(lineItem.taxRate, DEFAULT_EXPENSE_TAX_RATE);
+}
+
+/**
+ * 明細1行の税込金額
+ *
+ * @param lineItem - OCRの明細行
+ * @param pricesIncludeTax - 明細の金額が税込か（null は税込とみなす）
+ */
+function toTaxIncludedAmount(lineItem: OcrLineItem, pricesIncludeTax: boolean | null): number {
+  if (pricesIncludeTax !== false) return lineItem.amount;
+  const taxRate = getLineItemTaxRate(lineItem);
+  return Math.round((lineItem.amount * (100 + taxRate)) / 100);
+}
+
+/**
+ * OCRの明細行から、勘定科目ごとの分割行を作成する
+ *
+ * 流れ:
+ * 1. 明細行ごとに勘定科目を対応付け（対応付けできない明細は科目未選択の行にまとめる）
+ * 2. 科目・税率ごとに税込金額を合計し、品名をメモにまとめる
+ * 3. 合計金額との端数の差（明細の行数以内）を、最も金額の大きい行に寄せる
+ *
+ * @param lineItems - OCRの明細行
+ * @param pricesIncludeTax - 明細の金額が税込か
+ * @param categories - ユーザーの勘定科目
+ * @param receiptTotal - レシートの合計金額（不明なら null）
+ * @returns 分割行（明細行がなければ空配列）
+ */
+export function buildSplitLinesFromLineItems(
+  lineItems: OcrLineItem[],
+  pricesIncludeTax: boolean | null,
+  categories: SplitCategory[],
+  receiptTotal: number | null
+): ExpenseSplitLine[] {
+  if (lineItems.length === 0) return [];
+
+  // 勘定科目ID（未対応は空文字）と税率の組み合わせごとに金額と品名をまとめる
+  const groups = new Map<
+    string,
+    {
+      categoryId: string;
+      categoryName: string;
+      taxRate: ConsumptionTaxRate;
+      amount: number;
+      names: string[];
+    }
+  >();
+
+  lineItems.forEach((lineItem) => {
+    const category = findCategoryByOcrName(lineItem.category, categories);
+    const taxRate = getLineItemTaxRate(lineItem);
+    const groupKey = `${category?.id || ""}:${taxRate}`;
+    const group = groups.get(groupKey) || {
+      categoryId: category?.id || "",
+      categoryName: category?.name || "",
+      taxRate,
+      amount: 0,
+      names: [],
+    };
+
+    group.amount += toTaxIncludedAmount(lineItem, pricesIncludeTax);
+    if (lineItem.name) group.names.push(lineItem.name);
+    groups.set(groupKey, group);
+  });
+
+  const splitLines = Array.from(groups.values()).map((group) => ({
+    id: createSplitLineId(),
+    categoryId: group.categoryId,
+    categoryName: group.categoryName,
+    amount: group.amount,
+    taxRate: String(group.taxRate),
+    memo: group.names.join(","),
+  }));
+
+  // 税込換算の端数による差は、最も金額の大きい行で吸収する
+  if (receiptTotal !== null) {
+    const difference = receiptTotal - splitLines.reduce((sum, line) => sum + line.amount, 0);
+    if (difference !== 0 && Math.abs(difference) <= lineItems.length) {
+      const largestLine = splitLines.reduce((largest, line) =>
+        line.amount > largest.amount ? line : largest
+      );
+      largestLine.amount += difference;
+    }
+  }
+
+  return splitLines.map((line) => ({ ...line, amount: String(line.amount) }));
+}
+
+// =============================================================================
+// 合計の照合
+// =============================================================================
+
+/**
+ * 分割行の金額の合計
+ */
+export function sumSplitLines(splitLines: ExpenseSplitLine[]): number {
+  return splitLines.reduce((sum, line) => sum + (parseInt(line.amount, 10) || 0), 0);
+}
+
+/**
+ * レシートの合計金額と、分割行の合計との差（レシート合計 − 分割合計）
+ * 0 であれば照合済み
+ */
+export function getSplitDifference(splitLines: ExpenseSplitLine[], receiptTotal: number): number {
+  return receiptTotal - sumSplitLines(splitLines);
+}
@@ -0,0 +1,180 @@
+/**
+ * レシート画像（証憑）の保存ユーティリティ
+ *
+ * ビジネス上の役割:
+ * - OCRで読み取ったレシート画像を Supabase Storage に保存し、経費に紐付ける
+ * - 電子帳簿保存法に沿って、経費ごとに証憑の画像を残す
+ *
+ * 保存場所:
+ * - receipts バケット（非公開）の「<ユーザーID>/<年>/<ランダムID>.jpg」
+ * - パスの先頭をユーザーIDにし、ストレージのRLSで本人のみアップロード可能にしている
+ *   （supabase/receipt-storage-schema.sql を参照）
+ * - 同じ農場のメンバーは、経費に紐付いた画像を閲覧できる
+ *   （supabase/farm-workspace-schema.sql を参照）
+ *
+ * 保存のタイミング:
+ * - 経費の登録時に保存する（読み取っただけで登録しなかった画像は残さない）
+ * - レシートスキャナーから経費フォームへは、画像を sessionStorage 経由で引き継ぐ
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/** レシート画像を保存するバケット名 */
+export const RECEIPT_BUCKET = "receipts";
+
+/** 署名付きURLの有効期限（秒） */
+const SIGNED_URL_EXPIRES_IN_SECONDS = 60 * 60;
+
+/** 経費フォームに引き継ぐレシート画像の sessionStorage キー */
+const PENDING_RECEIPT_STORAGE_KEY = "agri:pendingReceiptImage";
+
+// =============================================================================
+// 経費フォームへの引き継ぎ
+// =============================================================================
+
+/**
+ * 経費フォームに引き継ぐレシート画像を一時保存する
+ * （画像はURLパラメータに載せられないため sessionStorage を使う）
+ *
+ * 容量超過などで保存できなくても、経費の登録自体はできるようにエラーはログのみ
+ */
+export function savePendingReceiptImage(imageDataUrl: string): void {
+  try {
+    sessionStorage.setItem(PENDING_RECEIPT_STORAGE_KEY, imageDataUrl);
+  } catch (error) {
+    console.error("レシート画像の一時保存に失敗:", error);
+  }
+}
+
+/**
+ * 一時保存したレシート画像を取得する（なければ null）
+ */
+export function loadPendingReceiptImage(): string | null {
+  try {
+    return sessionStorage.getItem(PENDING_RECEIPT_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 一時保存したレシート画像を破棄する
+ */
+export function clearPendingReceiptImage(): void {
+  try {
+    sessionStorage.removeItem(PENDING_RECEIPT_STORAGE_KEY);
+  } catch {
+    // sessionStorage が使えない環境では何もしない
+  }
+}
+
+// =============================================================================
+// Storage への保存・取得・削除
+// =============================================================================
+
+/**
+ * Base64形式（data:image/jpeg;base64,...）の画像をBlobに変換する
+ */
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64Data] = dataUrl.split(",");
+  const mimeType = header.match(/data:(.*?);base64/)?.[1] || "image/jpeg";
+  const binary = atob(base64Data);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * MIMEタイプから拡張子を決める
+ */
+function getExtension(mimeType: string): string {
+  switch (mimeType) {
+    case "image/png":
+      return "png";
+    case "image/webp":
+      return "webp";
+    default:
+      return "jpg";
+  }
+}
+
+/**
+ * レシート画像を保存する
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param userId - ログイン中のユーザーID（保存先フォルダ）
+ * @param imageDataUrl - 圧縮済みのレシート画像（Base64形式）
+ * @returns 保存先のパス（expenses.receipt_path に保存する値）
+ */
+export async function uploadReceiptImage(
+  supabase: SupabaseClient,
+  userId: string,
+  imageDataUrl: string
+): Promise<string> {
+  const imageBlob = dataUrlToBlob(imageDataUrl);
+  const receiptPath = `${userId}/${new Date().getFullYear()}/${crypto.randomUUID()}.${getExtension(imageBlob.type)}`;
+
+  const { error } = await supabase.storage
+    .from(RECEIPT_BUCKET)
+    .upload(receiptPath, imageBlob, { contentType: imageBlob.type });
+
+  if (error) {
+    console.error("レシート画像の保存エラー:", error);
+    throw new Error("レシート画像の保存に失敗しました");
+  }
+
+  return receiptPath;
+}
+
+/**
+ * レシート画像を表示するための署名付きURLをまとめて取得する
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param receiptPaths - 保存先のパス
+ * @returns パス → 署名付きURL（取得できなかったパスは含まない）
+ */
+export async function createReceiptSignedUrls(
+  supabase: SupabaseClient,
+  receiptPaths: string[]
+): Promise<Record<string, string>> {
+  if (receiptPaths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(RECEIPT_BUCKET)
+    .createSignedUrls(receiptPaths, SIGNED_URL_EXPIRES_IN_SECONDS);
+
+  if (error) {
+    console.error("レシート画像URLの取得エラー:", error);
+    throw new Error("レシート画像の読み込みに失敗しました");
+  }
+
+  const signedUrls: Record<string, string> = {};
+  (data || []).forEach((signedUrl) => {
+    if (signedUrl.path && signedUrl.signedUrl) {
+      signedUrls[signedUrl.path] = signedUrl.signedUrl;
+    }
+  });
+  return signedUrls;
+}
+
+/**
+ * レシート画像を削除する（経費の削除時に使用）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param receiptPaths - 削除する画像のパス
+ */
+export async function deleteReceiptImages(
+  supabase: SupabaseClient,
+  receiptPaths: string[]
+): Promise<void> {
+  if (receiptPaths.length === 0) return;
+
+  const { error } = await supabase.storage.from(RECEIPT_BUCKET).remove(receiptPaths);
+
+  if (error) {
+    console.error("レシート画像の削除エラー:", error);
+    throw new Error("レシート画像の削除に失敗しました");
+  }
+}
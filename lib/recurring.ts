@@ -0,0 +1,412 @@
+/**
+ * 定期的な取引（繰り返し登録）のユーティリティ
+ *
+ * このファイルは、毎月・毎年決まって発生する経費・売上を登録し、
+ * 予定日に自動で作成するための関数を提供します。
+ *
+ * ビジネス上の役割：
+ * - 農地賃借料・保険料・共済掛金・リース料などを毎回手入力しなくてよくする
+ * - 自動で作成した経費・売上は「確認待ち」になり、ダッシュボードで確定・スキップする
+ *   （金額が変わった月は、経費・売上の台帳で修正してから確定する）
+ *
+ * 作成のタイミング（supabase/recurring-schema.sql を参照）：
+ * - 定期実行: /api/recurring/materialize がすべての農場の分を作成する
+ * - ログイン時: ダッシュボードの表示時に、現在の農場の分を追いつき作成する
+ * - 予定日の計算（月末の扱いなど）はデータベース側で行う
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import type { ConsumptionTaxRate } from "@/lib/consumptionTax";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 定期的な取引の種類（経費 / 売上）
+ */
+export type RecurringKind = "expense" | "sale";
+
+/**
+ * 繰り返しの頻度
+ */
+export type RecurringFrequency = "monthly" | "yearly";
+
+/**
+ * 自動で作成した経費・売上の確認状況（確認待ち / 確認済み）
+ */
+export type RecurringEntryStatus = "pending" | "confirmed";
+
+/**
+ * 定期的な取引のルール
+ */
+export interface RecurringRule {
+  id: string;
+  kind: RecurringKind;
+  /** 管理用の名前（例: 農地賃借料（○○さん）） */
+  name: string;
+  frequency: RecurringFrequency;
+  /** 予定日（1〜31。月末より後の日はその月の末日） */
+  dayOfMonth: number;
+  /** 毎年の場合の月（1〜12。毎月の場合は null） */
+  monthOfYear: number | null;
+  /** 開始日（YYYY-MM-DD） */
+  startDate: string;
+  /** 終了日（YYYY-MM-DD。無期限の場合は null） */
+  endDate: string | null;
+  /** 次に作成する予定日（YYYY-MM-DD） */
+  nextRunDate: string;
+  /** 一時停止中は false */
+  isActive: boolean;
+  /** 金額（税込） */
+  amount: number;
+  taxRate: ConsumptionTaxRate;
+  description: string | null;
+  /** 経費のみ: 勘定科目 */
+  category: string | null;
+  categoryId: string | null;
+  /** 経費のみ: 仕入先の登録番号 */
+  invoiceRegistrationNumber: string | null;
+  /** 売上のみ: 作物名と出荷先 */
+  cropName: string | null;
+  customer: string | null;
+}
+
+/**
+ * ルールの登録・更新時の入力値（予定日はデータベースで計算する）
+ */
+export type RecurringRuleInput = Omit<RecurringRule, "id" | "nextRunDate" | "isActive">;
+
+/**
+ * 自動で作成された確認待ちの経費・売上
+ */
+export interface PendingRecurringEntry {
+  id: string;
+  kind: RecurringKind;
+  /** 日付（YYYY-MM-DD） */
+  date: string;
+  /** 経費は勘定科目、売上は「作物名 / 出荷先」 */
+  label: string;
+  amount: number;
+  description: string | null;
+  /** 作成元のルール名（ルールを削除した場合は null） */
+  ruleName: string | null;
+}
+
+// =============================================================================
+// 定数・表示用
+// =============================================================================
+
+/**
+ * 種類の表示名
+ */
+export const RECURRING_KIND_LABELS: Record<RecurringKind, string> = {
+  expense: "経費",
+  sale: "売上",
+};
+
+/**
+ * 頻度の表示名
+ */
+export const RECURRING_FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  monthly: "毎月",
+  yearly: "毎年",
+};
+
+/** 「末日」として表示する予定日 */
+const LAST_DAY_OF_MONTH = 31;
+
+/** recurring_rules の取得カラム */
+const RULE_COLUMNS =
+  "id, kind, name, frequency, day_of_month, month_of_year, start_date, end_date, " +
+  "next_run_date, is_active, amount, tax_rate, description, category, category_id, " +
+  "invoice_registration_number, crop_name, customer";
+
+/**
+ * 繰り返しの表示（例: 毎月25日、毎年3月末日）
+ */
+export function formatRecurringSchedule(
+  rule: Pick<RecurringRule, "frequency" | "dayOfMonth" | "monthOfYear">
+): string {
+  const day = rule.dayOfMonth >= LAST_DAY_OF_MONTH ? "末日" : `${rule.dayOfMonth}日`;
+
+  return rule.frequency === "yearly"
+    ? `${RECURRING_FREQUENCY_LABELS.yearly}${rule.monthOfYear}月${day}`
+    : `${RECURRING_FREQUENCY_LABELS.monthly}${day}`;
+}
+
+/**
+ * 終了日を過ぎ、これ以上作成しないルールか
+ */
+export function isRecurringRuleFinished(rule: Pick<RecurringRule, "endDate" | "nextRunDate">): boolean {
+  return rule.endDate !== null && rule.nextRunDate > rule.endDate;
+}
+
+// =============================================================================
+// ルールの管理
+// =============================================================================
+
+/**
+ * 現在の農場の定期的な取引を取得（次の予定日の順）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ */
+export async function listRecurringRules(supabase: SupabaseClient): Promise<RecurringRule[]> {
+  const { data, error } = await supabase
+    .from("recurring_rules")
+    .select(RULE_COLUMNS)
+    .order("next_run_date", { ascending: true });
+
+  if (error) {
+    console.error("定期的な取引の取得エラー:", error);
+    throw new Error("定期的な取引の取得に失敗しました");
+  }
+
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>).map((row) => ({
+    id: row.id as string,
+    kind: row.kind as RecurringKind,
+    name: row.name as string,
+    frequency: row.frequency as RecurringFrequency,
+    dayOfMonth: Number(row.day_of_month),
+    monthOfYear: row.month_of_year === null ? null : Number(row.month_of_year),
+    startDate: row.start_date as string,
+    endDate: (row.end_date as string | null) ?? null,
+    nextRunDate: row.next_run_date as string,
+    isActive: Boolean(row.is_active),
+    amount: Number(row.amount),
+    taxRate: Number(row.tax_rate) as ConsumptionTaxRate,
+    description: (row.description as string | null) ?? null,
+    category: (row.category as string | null) ?? null,
+    categoryId: (row.category_id as string | null) ?? null,
+    invoiceRegistrationNumber: (row.invoice_registration_number as string | null) ?? null,
+    cropName: (row.crop_name as string | null) ?? null,
+    customer: (row.customer as string | null) ?? null,
+  }));
+}
+
+/**
+ * 定期的な取引を登録・更新する
+ *
+ * - 登録時: 開始日が過去の場合は、次の作成処理で過去の予定日の分もまとめて作成される
+ * - 更新時: 繰り返しや開始日を変えた場合は、今日以降の予定日から作成される
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param userId - ログイン中のユーザーID（登録時のみ使用）
+ * @param input - 入力値
+ * @param ruleId - 更新するルールのID（省略時は新規登録）
+ */
+export async function saveRecurringRule(
+  supabase: SupabaseClient,
+  userId: string,
+  input: RecurringRuleInput,
+  ruleId?: string
+): Promise<void> {
+  const isExpense = input.kind === "expense";
+  const values = {
+    kind: input.kind,
+    name: input.name,
+    frequency: input.frequency,
+    day_of_month: input.dayOfMonth,
+    month_of_year: input.frequency === "yearly" ? input.monthOfYear : null,
+    start_date: input.startDate,
+    end_date: input.endDate,
+    amount: input.amount,
+    tax_rate: input.taxRate,
+    description: input.description,
+    // 種類に関係のない項目は保存しない
+    category: isExpense ? input.category : null,
+    category_id: isExpense ? input.categoryId : null,
+    invoice_registration_number: isExpense ? input.invoiceRegistrationNumber : null,
+    crop_name: isExpense ? null : input.cropName,
+    customer: isExpense ? null : input.customer,
+  };
+
+  const { error } = ruleId
+    ? await supabase.from("recurring_rules").update(values).eq("id", ruleId)
+    : await supabase.from("recurring_rules").insert({ user_id: userId, ...values });
+
+  if (error) {
+    console.error("定期的な取引の保存エラー:", error);
+    throw new Error("定期的な取引の保存に失敗しました");
+  }
+}
+
+/**
+ * 定期的な取引を一時停止・再開する
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param ruleId - ルールID
+ * @param isActive - 再開する場合は true
+ */
+export async function setRecurringRuleActive(
+  supabase: SupabaseClient,
+  ruleId: string,
+  isActive: boolean
+): Promise<void> {
+  const { error } = await supabase
+    .from("recurring_rules")
+    .update({ is_active: isActive })
+    .eq("id", ruleId);
+
+  if (error) {
+    console.error("定期的な取引の更新エラー:", error);
+    throw new Error(isActive ? "再開に失敗しました" : "一時停止に失敗しました");
+  }
+}
+
+/**
+ * 定期的な取引を削除する
+ * （作成済みの経費・売上は残り、ルールとの紐付けだけが外れる）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param ruleId - ルールID
+ */
+export async function deleteRecurringRule(supabase: SupabaseClient, ruleId: string): Promise<void> {
+  const { error } = await supabase.from("recurring_rules").delete().eq("id", ruleId);
+
+  if (error) {
+    console.error("定期的な取引の削除エラー:", error);
+    throw new Error("定期的な取引の削除に失敗しました");
+  }
+}
+
+// =============================================================================
+// 経費・売上の作成
+// =============================================================================
+
+/**
+ * 現在の農場の、予定日を過ぎた定期的な取引を作成する（ログイン時の追いつき作成）
+ * 閲覧のみのメンバーの場合は何もしない
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @returns 作成した経費・売上の件数
+ */
+export async function catchUpRecurringEntries(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc("catch_up_recurring_entries");
+
+  if (error) {
+    console.error("定期的な取引の作成エラー:", error);
+    throw new Error("定期的な取引の作成に失敗しました");
+  }
+
+  return Number(data ?? 0);
+}
+
+/**
+ * すべての農場の、予定日を過ぎた定期的な取引を作成する（定期実行用）
+ *
+ * @param supabase - Service Role のSupabaseクライアント
+ * @returns 作成した経費・売上の件数
+ */
+export async function materializeRecurringEntries(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc("materialize_recurring_entries");
+
+  if (error) {
+    console.error("定期的な取引の作成エラー:", error);
+    throw new Error("定期的な取引の作成に失敗しました");
+  }
+
+  return Number(data ?? 0);
+}
+
+// =============================================================================
+// 確認待ちの経費・売上
+// =============================================================================
+
+/**
+ * 自動で作成された確認待ちの経費・売上を取得（日付の古い順）
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ */
+export async function listPendingRecurringEntries(
+  supabase: SupabaseClient
+): Promise<PendingRecurringEntry[]> {
+  const [expensesResult, salesResult] = await Promise.all([
+    supabase
+      .from("expenses")
+      .select("id, date, category, amount, description, recurring_rules(name)")
+      .eq("recurring_status", "pending"),
+    supabase
+      .from("sales")
+      .select("id, date, crop_name, customer, amount, description, recurring_rules(name)")
+      .eq("recurring_status", "pending"),
+  ]);
+
+  if (expensesResult.error || salesResult.error) {
+    console.error("確認待ちの取引の取得エラー:", expensesResult.error ?? salesResult.error);
+    throw new Error("確認待ちの取引の取得に失敗しました");
+  }
+
+  // 紐付け先のルール名（1対1の紐付けでも配列で返る場合がある）
+  const getRuleName = (rule: unknown): string | null => {
+    const value = Array.isArray(rule) ? rule[0] : rule;
+    return (value as { name?: string } | null)?.name ?? null;
+  };
+
+  const entries: PendingRecurringEntry[] = [
+    ...(expensesResult.data ?? []).map((row) => ({
+      id: row.id,
+      kind: "expense" as const,
+      date: row.date,
+      label: row.category,
+      amount: Number(row.amount),
+      description: row.description,
+      ruleName: getRuleName(row.recurring_rules),
+    })),
+    ...(salesResult.data ?? []).map((row) => ({
+      id: row.id,
+      kind: "sale" as const,
+      date: row.date,
+      label: `${row.crop_name} / ${row.customer}`,
+      amount: Number(row.amount),
+      description: row.description,
+      ruleName: getRuleName(row.recurring_rules),
+    })),
+  ];
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * 確認待ちの経費・売上を確定する
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param entry - 確定する経費・売上
+ */
+export async function confirmRecurringEntry(
+  supabase: SupabaseClient,
+  entry: Pick<PendingRecurringEntry, "id" | "kind">
+): Promise<void> {
+  const { error } = await supabase
+    .from(entry.kind === "expense" ? "expenses" : "sales")
+    .update({ recurring_status: "confirmed" })
+    .eq("id", entry.id);
+
+  if (error) {
+    console.error("取引の確定エラー:", error);
+    throw new Error("取引の確定に失敗しました");
+  }
+}
+
+/**
+ * 確認待ちの経費・売上をスキップする（その回は発生しなかったものとして削除する）
+ * 次の予定日は進んでいるため、同じ日付の分が作り直されることはない
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param entry - スキップする経費・売上
+ */
+export async function skipRecurringEntry(
+  supabase: SupabaseClient,
+  entry: Pick<PendingRecurringEntry, "id" | "kind">
+): Promise<void> {
+  const { error } = await supabase
+    .from(entry.kind === "expense" ? "expenses" : "sales")
+    .delete()
+    .eq("id", entry.id)
+    .eq("recurring_status", "pending");
+
+  if (error) {
+    console.error("取引のスキップエラー:", error);
+    throw new Error("取引のスキップに失敗しました");
+  }
+}
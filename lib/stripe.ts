@@ -5,46 +5,30 @@
  *
  * 主な機能：
  * - Stripeクライアントの初期化
- * - プラン別の使用制限の定義
- * - Stripe Price ID（商品価格ID）の管理
+ * - プラン別の使用制限・表示情報・Stripe Price ID（プランカタログ lib/plans.ts から作成）
  */
 
 import Stripe from "stripe";
+import {
+  PLAN_CATALOG,
+  formatPlanPrice,
+  type PlanType,
+  type PlanLimits,
+  type UsageFeature,
+} from "./plans";
+
+// プランの型・機能判定はカタログ（lib/plans.ts）で定義し、ここから再エクスポートする
+export type { PlanType, PlanLimits, UsageFeature, PlanFeatureFlag } from "./plans";
+export { hasFeature } from "./plans";
 
 // =============================================================================
-// 型定義
+// プラン設定（lib/plans.ts のカタログから作成）
 // =============================================================================
 
 /**
- * プランの種類
- * - free: 無料プラン（制限あり）
- * - standard: スタンダードプラン（¥2,980/月）
- * - premium: プレミアムプラン（¥4,980/月）
- * - pro_yearly: 年額プロプラン（¥35,760/年）
+ * 有料プランの種類
  */
-export type PlanType = "free" | "standard" | "premium" | "pro_yearly";
-
-/**
- * 機能の使用制限を定義する型
- * Infinityは無制限を表す
- */
-export interface PlanLimits {
-  /** OCR（レシート読み取り）の月間使用上限 */
-  ocrLimit: number;
-  /** エクスポート（CSV/PDF出力）の月間使用上限 */
-  exportLimit: number;
-  /** AIアシスタントの月間使用上限 */
-  aiAssistantLimit: number;
-}
-
-/**
- * 使用量追跡の対象となる機能の種類
- */
-export type UsageFeature = "ocr" | "export" | "ai_assistant";
-
-// =============================================================================
-// プラン設定
-// =============================================================================
+export type PaidPlanType = Exclude<PlanType, "free">;
 
 /**
  * 各プランの使用制限
@@ -52,55 +36,22 @@ export type UsageFeature = "ocr" | "export" | "ai_assistant";
  * ビジネス上の役割：
  * - 無料プランユーザーには機能制限を設け、有料プランへのアップグレードを促す
  * - 有料プランユーザーは全機能を無制限で使用可能
- *
- * 制限値の根拠：
- * - OCR 50回/月: 一般的な農家の月間レシート枚数をカバー
- * - 出力 3回/月: 月次報告用途を想定
- * - AI 10回/月: 基本的な質問対応を想定
  */
-export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
-  free: {
-    ocrLimit: 50,
-    exportLimit: 3,
-    aiAssistantLimit: 10,
-  },
-  standard: {
-    ocrLimit: Infinity,
-    exportLimit: Infinity,
-    aiAssistantLimit: Infinity,
-  },
-  premium: {
-    ocrLimit: Infinity,
-    exportLimit: Infinity,
-    aiAssistantLimit: Infinity,
-  },
-  pro_yearly: {
-    ocrLimit: Infinity,
-    exportLimit: Infinity,
-    aiAssistantLimit: Infinity,
-  },
-};
+export const PLAN_LIMITS = Object.fromEntries(
+  PLAN_CATALOG.map((plan) => [plan.planType, plan.limits])
+) as Record<PlanType, PlanLimits>;
 
 /**
  * Stripe Price ID（価格ID）の定義
  *
  * 注意：これらのIDはStripeダッシュボードで商品・価格を作成した際に発行されます。
- * 本番環境では実際のPrice IDに置き換えてください。
- *
- * 設定手順：
- * 1. Stripeダッシュボード（https://dashboard.stripe.com/products）にアクセス
- * 2. 「商品を追加」から各プランの商品を作成
- * 3. 価格設定で繰り返し請求（月額/年額）を選択
- * 4. 作成された price_xxx のIDをここに設定
+ * 本番環境では環境変数で実際のPrice IDを設定してください（lib/plans.ts を参照）。
  */
-export const STRIPE_PRICE_IDS = {
-  /** スタンダードプラン（月額¥2,980） */
-  standard: process.env.STRIPE_PRICE_STANDARD_MONTHLY || "price_standard_monthly",
-  /** プレミアムプラン（月額¥4,980） */
-  premium: process.env.STRIPE_PRICE_PREMIUM_MONTHLY || "price_premium_monthly",
-  /** 年額プロプラン（年額¥35,760） */
-  pro_yearly: process.env.STRIPE_PRICE_PRO_YEARLY || "price_pro_yearly",
-} as const;
+export const STRIPE_PRICE_IDS = Object.fromEntries(
+  PLAN_CATALOG.flatMap((plan) =>
+    plan.stripePriceId ? [[plan.planType, plan.stripePriceId]] : []
+  )
+) as Record<PaidPlanType, string>;
 
 /**
  * Price IDからプランタイプへのマッピング
@@ -109,11 +60,11 @@ export const STRIPE_PRICE_IDS = {
  * - Webhook受信時にStripeから送られるPrice IDをプランタイプに変換
  * - サブスクリプション状態の更新に使用
  */
-export const PRICE_ID_TO_PLAN: Record<string, PlanType> = {
-  [STRIPE_PRICE_IDS.standard]: "standard",
-  [STRIPE_PRICE_IDS.premium]: "premium",
-  [STRIPE_PRICE_IDS.pro_yearly]: "pro_yearly",
-};
+export const PRICE_ID_TO_PLAN: Record<string, PlanType> = Object.fromEntries(
+  PLAN_CATALOG.flatMap((plan) =>
+    plan.stripePriceId ? [[plan.stripePriceId, plan.planType]] : []
+  )
+);
 
 /**
  * プランの表示情報
@@ -122,7 +73,17 @@ export const PRICE_ID_TO_PLAN: Record<string, PlanType> = {
  * - 料金ページや設定画面でプラン情報を表示する際に使用
  * - ユーザーにわかりやすい名称と価格を提供
  */
-export const PLAN_DISPLAY_INFO: Record<
+export const PLAN_DISPLAY_INFO = Object.fromEntries(
+  PLAN_CATALOG.map((plan) => [
+    plan.planType,
+    {
+      name: plan.name,
+      price: formatPlanPrice(plan),
+      description: plan.description,
+      features: plan.features,
+    },
+  ])
+) as Record<
   PlanType,
   {
     name: string;
@@ -130,52 +91,16 @@ export const PLAN_DISPLAY_INFO: Record<
     description: string;
     features: string[];
   }
-> = {
-  free: {
-    name: "無料プラン",
-    price: "¥0",
-    description: "基本機能をお試しいただけます",
-    features: [
-      "OCRレシート読み取り（50回/月）",
-      "データ出力（3回/月）",
-      "AIアシスタント（10回/月）",
-      "経費・売上管理",
-    ],
-  },
-  standard: {
-    name: "スタンダード",
-    price: "¥2,980/月",
-    description: "個人農家におすすめ",
-    features: [
-      "OCRレシート読み取り（無制限）",
-      "データ出力（無制限）",
-      "AIアシスタント（無制限）",
-      "経費・売上管理",
-      "詳細な分析レポート",
-    ],
-  },
-  premium: {
-    name: "プレミアム",
-    price: "¥4,980/月",
-    description: "法人・大規模農家向け",
-    features: [
-      "スタンダードの全機能",
-      "優先サポート",
-      "データ引継ぎサポート",
-      "カスタムレポート",
-    ],
-  },
-  pro_yearly: {
-    name: "年額プロ",
-    price: "¥35,760/年",
-    description: "年払いで2ヶ月分お得",
-    features: [
-      "プレミアムの全機能",
-      "年額払いで2ヶ月分お得",
-      "長期契約特典",
-    ],
-  },
-};
+>;
+
+/**
+ * 有料プラン（Stripeで購入できるプラン）かどうかを判定
+ *
+ * @param value - 判定対象の値（リクエストボディなど）
+ */
+export function isPurchasablePlanType(value: unknown): value is PaidPlanType {
+  return typeof value === "string" && value in STRIPE_PRICE_IDS;
+}
 
 // =============================================================================
 // Stripeクライアント
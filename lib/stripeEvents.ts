@@ -0,0 +1,669 @@
+/**
+ * Stripe Webhook イベント処理
+ *
+ * このファイルは、Stripeから届いたイベントをサブスクリプション情報に反映する処理と、
+ * イベントの受信記録（stripe_events テーブル）を提供します。
+ *
+ * ビジネス上の役割：
+ * - 同じイベントが再送されても二重に処理しない（イベントIDで記録）
+ * - 順番が前後して届いた古いイベントで、新しい状態を上書きしない（イベントの作成日時で比較）
+ * - 処理に失敗したイベントは内容ごと保存し、後から再処理（リプレイ）できるようにする
+ *
+ * 使用箇所：
+ * - app/api/stripe/webhook/route.ts（Stripeからの受信）
+ * - app/api/stripe/events/replay/route.ts（失敗したイベントの再処理）
+ *
+ * 注意：
+ * - service_roleキーのSupabaseクライアントで呼び出すこと（サーバーサイド専用）
+ */
+
+import Stripe from "stripe";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { getStripeClient, PRICE_ID_TO_PLAN, type PlanType } from "./stripe";
+import {
+  upsertSubscription,
+  cancelSubscription,
+  markSubscriptionPastDue,
+  revertToFreePlan,
+  type ScheduledPlanChange,
+} from "./subscription";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * イベント1件の処理結果
+ * - processed: 反映した
+ * - ignored: 処理対象外のイベントタイプ
+ * - stale: より新しいイベントが反映済みのため、反映しなかった
+ */
+export type StripeEventOutcome = "processed" | "ignored" | "stale";
+
+/**
+ * stripe_events テーブルの処理状態
+ */
+export type StripeEventStatus = StripeEventOutcome | "processing" | "failed";
+
+/**
+ * 受信記録つきでイベントを処理した結果
+ */
+export interface StripeEventHandlingResult {
+  eventId: string;
+  /** 処理後の状態（二重受信で処理しなかった場合は "duplicate"） */
+  status: StripeEventStatus | "duplicate";
+  /** 失敗時のエラーメッセージ */
+  error?: string;
+}
+
+/**
+ * 処理中のまま止まったイベントを、再処理してよいとみなすまでの時間
+ * （処理中にサーバーが停止した場合でも、Stripeの再送やリプレイで処理できるようにする）
+ */
+const STUCK_PROCESSING_MS = 10 * 60 * 1000;
+
+// =============================================================================
+// ヘルパー関数
+// =============================================================================
+
+/**
+ * Price IDからプランタイプを取得
+ *
+ * @param priceId - Stripe Price ID
+ * @returns プランタイプ（不明な場合はnull）
+ */
+function getPlanTypeFromPriceId(priceId: string): PlanType | null {
+  return PRICE_ID_TO_PLAN[priceId] || null;
+}
+
+/**
+ * Stripeのサブスクリプション状態を、アプリのサブスクリプション状態に変換
+ */
+function toSubscriptionStatus(
+  status: Stripe.Subscription.Status
+): "active" | "canceled" | "past_due" | "trialing" {
+  if (status === "canceled" || status === "incomplete_expired") {
+    return "canceled";
+  }
+  if (status === "past_due" || status === "unpaid") {
+    return "past_due";
+  }
+  if (status === "trialing") {
+    return "trialing";
+  }
+  return "active";
+}
+
+/**
+ * StripeのCustomer（IDまたはオブジェクト）からCustomer IDを取得
+ */
+function getCustomerId(
+  customer: string | Stripe.Customer | Stripe.DeletedCustomer | null
+): string {
+  return typeof customer === "string" ? customer : customer?.id || "";
+}
+
+/**
+ * サブスクリプションスケジュールから、予定しているプラン変更を取得
+ *
+ * ビジネス上の役割：
+ * - ダウングレードは、サブスクリプションスケジュールで契約期間の終了時に切り替える（lib/planChange.ts）
+ * - まだ始まっていないフェーズのうち、現在と違うプランになる最初のフェーズを「予定しているプラン変更」とする
+ *
+ * @param subscription - Subscriptionオブジェクト
+ * @param currentPlanType - 現在のプラン
+ * @returns 予定しているプラン変更（スケジュールがない・変更予定がない場合は null）
+ */
+async function getScheduledPlanChange(
+  subscription: Stripe.Subscription,
+  currentPlanType: PlanType
+): Promise<ScheduledPlanChange | null> {
+  if (!subscription.schedule) {
+    return null;
+  }
+
+  const schedule =
+    typeof subscription.schedule === "string"
+      ? await getStripeClient().subscriptionSchedules.retrieve(subscription.schedule)
+      : subscription.schedule;
+
+  // 解除・キャンセル済みのスケジュールでは、プランは切り替わらない
+  if (schedule.status !== "active" && schedule.status !== "not_started") {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+
+  for (const phase of schedule.phases) {
+    if (phase.start_date <= now) {
+      continue;
+    }
+
+    const price = phase.items[0]?.price;
+    const priceId = typeof price === "string" ? price : price?.id;
+    const planType = priceId ? getPlanTypeFromPriceId(priceId) : null;
+
+    if (planType && planType !== currentPlanType) {
+      return { planType, changeAt: new Date(phase.start_date * 1000) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * サブスクリプションを契約した農場・ユーザー
+ */
+interface SubscriptionOwner {
+  farmId: string;
+  userId: string;
+}
+
+/**
+ * Stripeのサブスクリプションを契約した農場・ユーザーを特定
+ *
+ * 1. メタデータ（Checkoutで設定した supabase_farm_id / supabase_user_id）
+ * 2. データベースに保存済みの Subscription ID
+ * 3. データベースに保存済みの Customer ID（Checkout前に保存している）
+ * の順に探す（農場機能の追加前に契約したサブスクリプションはメタデータに農場IDがない）
+ *
+ * @param supabase - Supabaseクライアント（service_role）
+ * @param subscription - Subscriptionオブジェクト
+ * @param metadata - 追加で参照するメタデータ（Checkout Sessionのメタデータなど）
+ * @returns 農場・ユーザー（見つからない場合は null）
+ */
+async function findSubscriptionOwner(
+  supabase: SupabaseClient,
+  subscription: Stripe.Subscription,
+  metadata?: Stripe.Metadata | null
+): Promise<SubscriptionOwner | null> {
+  const farmId = subscription.metadata?.supabase_farm_id || metadata?.supabase_farm_id;
+  const userId = subscription.metadata?.supabase_user_id || metadata?.supabase_user_id;
+
+  if (farmId && userId) {
+    return { farmId, userId };
+  }
+
+  const filters = [
+    { column: "stripe_subscription_id", value: subscription.id },
+    { column: "stripe_customer_id", value: getCustomerId(subscription.customer) },
+  ];
+
+  for (const filter of filters) {
+    const { data, error } = await supabase
+      .from("subscriptions")
+      .select("farm_id, user_id")
+      .eq(filter.column, filter.value)
+      .maybeSingle();
+
+    if (error) {
+      console.error("サブスクリプションの農場の検索エラー:", error);
+      throw new Error("サブスクリプションの農場の検索に失敗しました");
+    }
+
+    if (data) {
+      return { farmId: data.farm_id, userId: userId ?? data.user_id };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Stripeのサブスクリプションをデータベースに反映
+ *
+ * @param supabase - Supabaseクライアント（service_role）
+ * @param owner - 契約した農場・ユーザー
+ * @param subscription - Subscriptionオブジェクト
+ * @param status - 保存するサブスクリプションの状態
+ * @param eventCreatedAt - イベントの作成日時
+ * @throws Price IDがプランカタログにない場合
+ */
+async function applySubscription(
+  supabase: SupabaseClient,
+  owner: SubscriptionOwner,
+  subscription: Stripe.Subscription,
+  status: "active" | "canceled" | "past_due" | "trialing",
+  eventCreatedAt: Date
+): Promise<StripeEventOutcome> {
+  // Price IDからプランタイプを特定
+  const priceId = subscription.items.data[0]?.price?.id;
+  const planType = priceId ? getPlanTypeFromPriceId(priceId) : null;
+
+  if (!planType) {
+    throw new Error(`不明なPrice ID: ${priceId}`);
+  }
+
+  // Stripe SDK v20以降では、期間情報はitems.data[0]から取得
+  const subscriptionItem = subscription.items.data[0];
+
+  // 契約期間の終了時に予定しているプラン変更（ダウングレード）
+  const scheduledChange = await getScheduledPlanChange(subscription, planType);
+
+  const applied = await upsertSubscription(
+    supabase,
+    owner.farmId,
+    owner.userId,
+    getCustomerId(subscription.customer),
+    subscription.id,
+    planType,
+    status,
+    new Date(subscriptionItem.current_period_start * 1000),
+    new Date(subscriptionItem.current_period_end * 1000),
+    subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
+    scheduledChange,
+    subscription.cancel_at_period_end,
+    eventCreatedAt
+  );
+
+  if (!applied) {
+    return "stale";
+  }
+
+  console.log(`農場 ${owner.farmId} のサブスクリプションを ${planType} に更新しました`);
+  if (scheduledChange) {
+    console.log(
+      `農場 ${owner.farmId} は ${scheduledChange.changeAt.toISOString()} に ${scheduledChange.planType} に変更予定です`
+    );
+  }
+  return "processed";
+}
+
+// =============================================================================
+// イベントハンドラー
+// =============================================================================
+
+/**
+ * checkout.session.completed イベントを処理
+ * 新規サブスクリプションが開始された時に呼ばれる
+ */
+async function handleCheckoutCompleted(
+  supabase: SupabaseClient,
+  session: Stripe.Checkout.Session,
+  eventCreatedAt: Date
+): Promise<StripeEventOutcome> {
+  console.log("Checkout完了:", session.id);
+
+  const subscriptionId =
+    typeof session.subscription === "string"
+      ? session.subscription
+      : session.subscription?.id;
+
+  if (!subscriptionId) {
+    throw new Error("サブスクリプションIDが見つかりません");
+  }
+
+  // サブスクリプションの詳細を取得
+  const stripe = getStripeClient();
+  const subscription: Stripe.Subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+  // メタデータから農場・ユーザーを特定
+  const owner = await findSubscriptionOwner(supabase, subscription, session.metadata);
+
+  if (!owner) {
+    throw new Error("農場IDがメタデータに見つかりません");
+  }
+
+  return applySubscription(
+    supabase,
+    owner,
+    subscription,
+    toSubscriptionStatus(subscription.status),
+    eventCreatedAt
+  );
+}
+
+/**
+ * customer.subscription.updated イベントを処理
+ * サブスクリプションが更新された時に呼ばれる（プラン変更、更新など）
+ */
+async function handleSubscriptionUpdated(
+  supabase: SupabaseClient,
+  subscription: Stripe.Subscription,
+  eventCreatedAt: Date
+): Promise<StripeEventOutcome> {
+  console.log("サブスクリプション更新:", subscription.id);
+
+  // メタデータから農場を特定（ない場合はsubscription_id・customer_idで検索）
+  const owner = await findSubscriptionOwner(supabase, subscription);
+
+  if (!owner) {
+    throw new Error(`農場IDが見つかりません: ${subscription.id}`);
+  }
+
+  return applySubscription(
+    supabase,
+    owner,
+    subscription,
+    toSubscriptionStatus(subscription.status),
+    eventCreatedAt
+  );
+}
+
+/**
+ * subscription_schedule.* イベントを処理
+ * プラン変更の予約（ダウングレード）が作成・変更・解除された時に呼ばれる
+ *
+ * スケジュールのイベントにはサブスクリプションの最新の状態が含まれないため、
+ * サブスクリプションを取得し直して、customer.subscription.updated と同じ処理で反映する
+ */
+async function handleSubscriptionScheduleChanged(
+  supabase: SupabaseClient,
+  schedule: Stripe.SubscriptionSchedule,
+  eventCreatedAt: Date
+): Promise<StripeEventOutcome> {
+  console.log("サブスクリプションスケジュール更新:", schedule.id);
+
+  // 解除（release）されたスケジュールは subscription が空になり、released_subscription に残る
+  const subscriptionId =
+    (typeof schedule.subscription === "string"
+      ? schedule.subscription
+      : schedule.subscription?.id) ?? schedule.released_subscription;
+
+  if (!subscriptionId) {
+    // サブスクリプション開始前のスケジュールは、開始時の customer.subscription.* で反映する
+    return "ignored";
+  }
+
+  const stripe = getStripeClient();
+  const subscription: Stripe.Subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+  // 解約済みのサブスクリプションは customer.subscription.deleted で反映する
+  if (subscription.status === "canceled") {
+    return "ignored";
+  }
+
+  return handleSubscriptionUpdated(supabase, subscription, eventCreatedAt);
+}
+
+/**
+ * customer.subscription.deleted イベントを処理
+ * サブスクリプションが解約された時に呼ばれる
+ */
+async function handleSubscriptionDeleted(
+  supabase: SupabaseClient,
+  subscription: Stripe.Subscription,
+  eventCreatedAt: Date
+): Promise<StripeEventOutcome> {
+  console.log("サブスクリプション解約:", subscription.id);
+
+  // サブスクリプションを解約状態に更新
+  const applied = await cancelSubscription(supabase, subscription.id, eventCreatedAt);
+  if (!applied) {
+    return "stale";
+  }
+
+  // 契約期間終了後は無料プランに戻す
+  // 注意: cancel_at_period_end が true の場合、期間終了まで有料機能が使える
+  if (!subscription.cancel_at_period_end) {
+    // 即時解約の場合は無料プランに戻す
+    await revertToFreePlan(supabase, subscription.id, eventCreatedAt);
+    console.log(`サブスクリプション ${subscription.id} を無料プランに戻しました`);
+  } else {
+    console.log(
+      `サブスクリプション ${subscription.id} は期間終了時に無料プランに戻ります`
+    );
+  }
+
+  return "processed";
+}
+
+/**
+ * invoice.payment_failed イベントを処理
+ * 支払いが失敗した時に呼ばれる
+ */
+async function handlePaymentFailed(
+  supabase: SupabaseClient,
+  invoice: Stripe.Invoice,
+  eventCreatedAt: Date
+): Promise<StripeEventOutcome> {
+  console.log("支払い失敗:", invoice.id);
+
+  // Stripe SDK v20以降では、parent.subscription_details.subscriptionからアクセス
+  const subscriptionData = invoice.parent?.subscription_details?.subscription;
+  const subscriptionId =
+    typeof subscriptionData === "string"
+      ? subscriptionData
+      : subscriptionData?.id;
+
+  if (!subscriptionId) {
+    throw new Error("サブスクリプションIDが見つかりません");
+  }
+
+  const applied = await markSubscriptionPastDue(supabase, subscriptionId, eventCreatedAt);
+  if (!applied) {
+    return "stale";
+  }
+
+  console.log(`サブスクリプション ${subscriptionId} を past_due に更新しました`);
+
+  // TODO: ユーザーにメール通知を送る（将来の拡張）
+  return "processed";
+}
+
+/**
+ * イベントタイプに応じて処理を振り分ける
+ *
+ * @param supabase - Supabaseクライアント（service_role）
+ * @param event - Stripeイベント
+ * @returns 処理結果
+ */
+async function dispatchStripeEvent(
+  supabase: SupabaseClient,
+  event: Stripe.Event
+): Promise<StripeEventOutcome> {
+  // イベントの作成日時（古いイベントで新しい状態を上書きしないための比較に使う）
+  const eventCreatedAt = new Date(event.created * 1000);
+
+  switch (event.type) {
+    // 新規サブスクリプション開始
+    case "checkout.session.completed":
+      return handleCheckoutCompleted(supabase, event.data.object, eventCreatedAt);
+
+    // サブスクリプション更新（プラン変更、自動更新など）
+    case "customer.subscription.updated":
+      return handleSubscriptionUpdated(supabase, event.data.object, eventCreatedAt);
+
+    // プラン変更の予約（ダウングレード）の作成・変更・解除
+    case "subscription_schedule.created":
+    case "subscription_schedule.updated":
+    case "subscription_schedule.released":
+    case "subscription_schedule.canceled":
+    case "subscription_schedule.completed":
+      return handleSubscriptionScheduleChanged(supabase, event.data.object, eventCreatedAt);
+
+    // サブスクリプション解約
+    case "customer.subscription.deleted":
+      return handleSubscriptionDeleted(supabase, event.data.object, eventCreatedAt);
+
+    // 支払い失敗
+    case "invoice.payment_failed":
+      return handlePaymentFailed(supabase, event.data.object, eventCreatedAt);
+
+    // その他のイベントは処理しない
+    default:
+      console.log("未処理のイベントタイプ:", event.type);
+      return "ignored";
+  }
+}
+
+// =============================================================================
+// イベントの受信記録
+// =============================================================================
+
+/**
+ * イベントの処理を開始してよいか確認し、処理中として記録する
+ *
+ * - 初めて届いたイベント: 記録して処理する
+ * - 失敗したイベント、処理中のまま止まったイベント: 処理中に戻して再処理する
+ * - それ以外（処理済み・処理中など）: 二重受信として処理しない
+ *
+ * @returns 処理してよい場合は true
+ */
+async function beginStripeEvent(
+  supabase: SupabaseClient,
+  event: Stripe.Event
+): Promise<boolean> {
+  const { error: insertError } = await supabase.from("stripe_events").insert({
+    id: event.id,
+    type: event.type,
+    payload: event,
+    stripe_created_at: new Date(event.created * 1000).toISOString(),
+    status: "processing",
+  });
+
+  if (!insertError) {
+    return true;
+  }
+
+  // 23505 = 一意制約違反（すでに記録済みのイベント）
+  if (insertError.code !== "23505") {
+    console.error("Stripeイベントの記録エラー:", insertError);
+    throw new Error("Stripeイベントの記録に失敗しました");
+  }
+
+  const { data: existing, error: selectError } = await supabase
+    .from("stripe_events")
+    .select("attempts")
+    .eq("id", event.id)
+    .single();
+
+  if (selectError) {
+    console.error("Stripeイベントの取得エラー:", selectError);
+    throw new Error("Stripeイベントの記録に失敗しました");
+  }
+
+  // 失敗した（または処理中のまま止まった）イベントのみ、処理中に戻せた場合に再処理する
+  // 条件つきの更新のため、同時に再送されても再処理するのは1件だけになる
+  const stuckBefore = new Date(Date.now() - STUCK_PROCESSING_MS).toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from("stripe_events")
+    .update({
+      status: "processing",
+      error: null,
+      attempts: (existing.attempts ?? 0) + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", event.id)
+    .or(`status.eq.failed,and(status.eq.processing,updated_at.lt."${stuckBefore}")`)
+    .select("id");
+
+  if (claimError) {
+    console.error("Stripeイベントの更新エラー:", claimError);
+    throw new Error("Stripeイベントの記録に失敗しました");
+  }
+
+  return (claimed?.length ?? 0) > 0;
+}
+
+/**
+ * イベントの処理結果を記録
+ */
+async function finishStripeEvent(
+  supabase: SupabaseClient,
+  eventId: string,
+  status: StripeEventOutcome | "failed",
+  errorMessage: string | null = null
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("stripe_events")
+    .update({
+      status,
+      error: errorMessage,
+      processed_at: status === "failed" ? null : now,
+      updated_at: now,
+    })
+    .eq("id", eventId);
+
+  if (error) {
+    // 記録に失敗しても処理結果は変わらないため、ログのみ
+    console.error("Stripeイベントの処理結果の記録エラー:", error);
+  }
+}
+
+/**
+ * イベントを受信記録つきで処理する
+ *
+ * ビジネス上の流れ：
+ * 1. 受信記録を確認（処理済みのイベントは二重に処理しない）
+ * 2. イベントタイプに応じてサブスクリプション情報を更新
+ * 3. 処理結果（処理済み・対象外・古いイベント・失敗）を記録
+ *
+ * @param supabase - Supabaseクライアント（service_role）
+ * @param event - Stripeイベント（Webhookで受信したもの、またはリプレイ時に保存内容から復元したもの）
+ * @returns 処理結果
+ */
+export async function handleStripeEvent(
+  supabase: SupabaseClient,
+  event: Stripe.Event
+): Promise<StripeEventHandlingResult> {
+  const shouldProcess = await beginStripeEvent(supabase, event);
+
+  if (!shouldProcess) {
+    console.log("処理済みのイベントのためスキップ:", event.id);
+    return { eventId: event.id, status: "duplicate" };
+  }
+
+  try {
+    const outcome = await dispatchStripeEvent(supabase, event);
+
+    if (outcome === "stale") {
+      console.log("より新しいイベントが反映済みのためスキップ:", event.id);
+    }
+
+    await finishStripeEvent(supabase, event.id, outcome);
+    return { eventId: event.id, status: outcome };
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Webhook処理中にエラーが発生しました";
+    console.error("Stripeイベント処理エラー:", event.id, error);
+
+    await finishStripeEvent(supabase, event.id, "failed", message);
+    return { eventId: event.id, status: "failed", error: message };
+  }
+}
+
+/**
+ * 失敗したイベントを再処理（リプレイ）する
+ *
+ * ビジネス上の役割：
+ * - Price IDの設定漏れなどで失敗したイベントを、原因を直した後にまとめて再処理する
+ * - 保存しておいたイベントの内容で処理するため、Stripeからの再送を待つ必要がない
+ * - 再処理の間に新しいイベントが反映済みなら、古いイベントとして反映しない
+ *
+ * @param supabase - Supabaseクライアント（service_role）
+ * @param eventIds - 再処理するイベントID（省略時は失敗したイベントを古い順に再処理）
+ * @param limit - 一度に再処理する最大件数
+ * @returns イベントごとの処理結果
+ */
+export async function replayFailedStripeEvents(
+  supabase: SupabaseClient,
+  eventIds?: string[],
+  limit = 50
+): Promise<StripeEventHandlingResult[]> {
+  let query = supabase
+    .from("stripe_events")
+    .select("payload")
+    .order("stripe_created_at", { ascending: true })
+    .limit(limit);
+
+  query = eventIds && eventIds.length > 0
+    ? query.in("id", eventIds)
+    : query.eq("status", "failed");
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Stripeイベントの取得エラー:", error);
+    throw new Error("再処理するイベントの取得に失敗しました");
+  }
+
+  // 古いイベントから順に処理する（新しい状態が最後に反映されるように）
+  const results: StripeEventHandlingResult[] = [];
+  for (const record of data || []) {
+    results.push(await handleStripeEvent(supabase, record.payload as Stripe.Event));
+  }
+
+  return results;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  getEffectivePlanType,
+  getGracePeriodEnd,
+  PAST_DUE_GRACE_PERIOD_DAYS,
+  type Subscription,
+} from "./subscription";
+
+/** 基準日時（2024年6月15日 12:00 UTC） */
+const now = new Date("2024-06-15T12:00:00Z");
+const msPerDay = 24 * 60 * 60 * 1000;
+
+/** テスト用のサブスクリプション（有料プランを契約中） */
+const subscription: Subscription = {
+  id: "subscription-1",
+  farmId: "farm-1",
+  userId: "user-1",
+  stripeCustomerId: "cus_1",
+  stripeSubscriptionId: "sub_1",
+  planType: "standard",
+  status: "active",
+  currentPeriodStart: new Date("2024-06-01T00:00:00Z"),
+  currentPeriodEnd: new Date("2024-07-01T00:00:00Z"),
+  trialEnd: null,
+  trialUsed: false,
+  scheduledPlanType: null,
+  scheduledChangeAt: null,
+  pastDueSince: null,
+  cancelAtPeriodEnd: false,
+  createdAt: new Date("2024-01-01T00:00:00Z"),
+  updatedAt: new Date("2024-06-01T00:00:00Z"),
+};
+
+describe("getEffectivePlanType", () => {
+  it("サブスクリプションがない場合は無料プラン", () => {
+    expect(getEffectivePlanType(null, now)).toBe("free");
+  });
+
+  it("契約中は契約しているプラン", () => {
+    expect(getEffectivePlanType(subscription, now)).toBe("standard");
+  });
+
+  it("無料体験中は体験中のプラン、終了日を過ぎたら無料プラン", () => {
+    const trialing = { ...subscription, status: "trialing" as const };
+
+    expect(
+      getEffectivePlanType({ ...trialing, trialEnd: new Date(now.getTime() + msPerDay) }, now)
+    ).toBe("standard");
+    expect(getEffectivePlanType({ ...trialing, trialEnd: now }, now)).toBe("free");
+  });
+
+  it("支払い遅延は猶予期間の間だけ契約しているプラン", () => {
+    const pastDue = { ...subscription, status: "past_due" as const };
+    const withinGrace = new Date(now.getTime() - (PAST_DUE_GRACE_PERIOD_DAYS - 1) * msPerDay);
+    const afterGrace = new Date(now.getTime() - PAST_DUE_GRACE_PERIOD_DAYS * msPerDay);
+
+    expect(getEffectivePlanType({ ...pastDue, pastDueSince: withinGrace }, now)).toBe("standard");
+    expect(getEffectivePlanType({ ...pastDue, pastDueSince: afterGrace }, now)).toBe("free");
+  });
+
+  it("解約済み・期間終了時に解約予定の場合は、契約期間の終了日まで契約しているプラン", () => {
+    const ended = { currentPeriodEnd: new Date(now.getTime() - 1) };
+
+    expect(getEffectivePlanType({ ...subscription, status: "canceled" }, now)).toBe("standard");
+    expect(getEffectivePlanType({ ...subscription, status: "canceled", ...ended }, now)).toBe(
+      "free"
+    );
+    expect(getEffectivePlanType({ ...subscription, cancelAtPeriodEnd: true }, now)).toBe(
+      "standard"
+    );
+    expect(getEffectivePlanType({ ...subscription, cancelAtPeriodEnd: true, ...ended }, now)).toBe(
+      "free"
+    );
+  });
+});
+
+describe("getGracePeriodEnd", () => {
+  it("支払い遅延でない場合は null", () => {
+    expect(getGracePeriodEnd(subscription)).toBeNull();
+    expect(getGracePeriodEnd(null)).toBeNull();
+  });
+
+  it("支払い遅延になった日時から猶予期間の日数後", () => {
+    const pastDueSince = new Date("2024-06-10T00:00:00Z");
+
+    expect(
+      getGracePeriodEnd({ ...subscription, status: "past_due", pastDueSince })?.toISOString()
+    ).toBe(new Date(pastDueSince.getTime() + PAST_DUE_GRACE_PERIOD_DAYS * msPerDay).toISOString());
+  });
+});
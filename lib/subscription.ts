@@ -1,12 +1,13 @@
 /**
  * サブスクリプション・使用量管理ユーティリティ
  *
- * このファイルは、ユーザーのプラン状態と使用量を管理するための関数を提供します。
+ * このファイルは、農場のプラン状態と使用量を管理するための関数を提供します。
+ * サブスクリプションと使用回数は農場（ワークスペース）単位で、同じ農場のメンバーで共有します。
  *
  * 主な機能：
- * - ユーザーのサブスクリプション情報取得
+ * - 農場のサブスクリプション情報取得
  * - 使用量の制限チェック
- * - 使用量のインクリメント（カウントアップ）
+ * - 使用回数の予約（上限の確認とカウントアップ）・返却
  * - 月次使用状況の取得
  */
 
@@ -18,6 +19,8 @@ import {
   isFreePlan,
   getFeatureLimit,
 } from "./stripe";
+import { toPlanType } from "./plans";
+import { formatJapanDate } from "./dateUtils";
 
 // =============================================================================
 // 型定義
@@ -29,6 +32,9 @@ import {
  */
 export interface Subscription {
   id: string;
+  /** 契約している農場のID */
+  farmId: string;
+  /** 契約したユーザーのID */
   userId: string;
   stripeCustomerId: string | null;
   stripeSubscriptionId: string | null;
@@ -36,16 +42,39 @@ export interface Subscription {
   status: "active" | "canceled" | "past_due" | "trialing";
   currentPeriodStart: Date | null;
   currentPeriodEnd: Date | null;
+  /** 無料体験の終了日時（無料体験なしの場合は null） */
+  trialEnd: Date | null;
+  /** この農場で無料体験を利用したことがあるか（申し込み時はユーザー単位でも判定する。has_used_trial()） */
+  trialUsed: boolean;
+  /** 契約期間の終了時に変更する予定のプラン（予定がない場合は null） */
+  scheduledPlanType: PlanType | null;
+  /** 予定しているプラン変更の日時（予定がない場合は null） */
+  scheduledChangeAt: Date | null;
+  /** 支払い遅延（past_due）になった日時（past_due でない場合は null） */
+  pastDueSince: Date | null;
+  /** 契約期間の終了時に解約する予定か（Stripeの cancel_at_period_end） */
+  cancelAtPeriodEnd: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * 予定しているプラン変更（ダウングレードなど、契約期間の終了時に切り替わるもの）
+ */
+export interface ScheduledPlanChange {
+  /** 変更先のプラン */
+  planType: PlanType;
+  /** プランが切り替わる日時 */
+  changeAt: Date;
+}
+
 /**
  * 使用量情報の型
  * データベースの usage_tracking テーブルと対応
  */
 export interface UsageTracking {
   id: string;
+  farmId: string;
   userId: string;
   ocrCount: number;
   exportCount: number;
@@ -70,6 +99,18 @@ export interface UsageLimitCheckResult {
   planType: PlanType;
 }
 
+/**
+ * 使用量の集計期間
+ */
+export interface UsagePeriod {
+  /** 集計期間の開始日（YYYY-MM-DD、usage_tracking.period_start に保存する値） */
+  periodStart: string;
+  /** 集計期間の開始日時 */
+  startsAt: Date;
+  /** 使用回数がリセットされる日時（= 次の集計期間の開始日時） */
+  resetsAt: Date;
+}
+
 /**
  * 月次使用状況の型
  */
@@ -77,7 +118,12 @@ export interface MonthlyUsage {
   ocr: { used: number; limit: number; remaining: number };
   export: { used: number; limit: number; remaining: number };
   aiAssistant: { used: number; limit: number; remaining: number };
+  /** 集計期間の開始日時 */
   periodStart: Date;
+  /** 集計期間の最終日時（リセットの直前） */
+  periodEnd: Date;
+  /** 使用回数がリセットされる日時 */
+  resetsAt: Date;
   planType: PlanType;
 }
 
@@ -86,49 +132,83 @@ export interface MonthlyUsage {
 // =============================================================================
 
 /**
- * 現在の月の開始日を取得
- *
- * ビジネス上の役割：
- * - 使用量は月単位でリセットされるため、その月の1日を基準日とする
- * - 例: 2024年1月15日 → 2024年1月1日
- *
- * @returns その月の1日（Date型）
+ * 使用量を集計するタイムゾーン
+ * 利用者は日本の農家のため、日本時間で月の区切りを判断する
  */
-export function getCurrentPeriodStart(): Date {
-  const now = new Date();
-  return new Date(now.getFullYear(), now.getMonth(), 1);
-}
+export const USAGE_TIME_ZONE = "Asia/Tokyo";
+
+/** 日本時間とUTCの時差（日本時間には夏時間がないため固定） */
+const USAGE_TIME_ZONE_OFFSET_MS = 9 * 60 * 60 * 1000;
 
 /**
- * 日付を「YYYY-MM-DD」形式の文字列に変換
+ * 使用量の集計期間を取得
+ *
+ * ビジネス上の役割：
+ * - 使用量は集計期間ごとにリセットされる
+ * - 無料プラン: 日本時間の暦月（例: 1月15日 → 1月1日 0:00〜2月1日 0:00）
+ * - 有料プラン: Stripeの請求期間（current_period_start〜current_period_end）
+ *   （請求期間の情報がない、または期間外の場合は暦月）
  *
- * @param date - 変換対象の日付
- * @returns YYYY-MM-DD形式の文字列
+ * @param subscription - ユーザーのサブスクリプション情報（未登録なら null）
+ * @param now - 基準日時（省略時は現在）
+ * @returns 集計期間
  */
-function formatDateForDatabase(date: Date): string {
-  return date.toISOString().split("T")[0];
+export function getUsagePeriod(
+  subscription: Subscription | null,
+  now: Date = new Date()
+): UsagePeriod {
+  const billingStart = subscription?.currentPeriodStart;
+  const billingEnd = subscription?.currentPeriodEnd;
+
+  if (
+    subscription &&
+    !isFreePlan(subscription.planType) &&
+    billingStart &&
+    billingEnd &&
+    billingStart <= now &&
+    now < billingEnd
+  ) {
+    return {
+      periodStart: formatJapanDate(billingStart),
+      startsAt: billingStart,
+      resetsAt: billingEnd,
+    };
+  }
+
+  // 日本時間での年・月を求め、その月の1日 0:00（日本時間）を期間の開始とする
+  const zonedNow = new Date(now.getTime() + USAGE_TIME_ZONE_OFFSET_MS);
+  const year = zonedNow.getUTCFullYear();
+  const month = zonedNow.getUTCMonth();
+  const startsAt = new Date(Date.UTC(year, month, 1) - USAGE_TIME_ZONE_OFFSET_MS);
+  const resetsAt = new Date(Date.UTC(year, month + 1, 1) - USAGE_TIME_ZONE_OFFSET_MS);
+
+  return {
+    periodStart: formatJapanDate(startsAt),
+    startsAt,
+    resetsAt,
+  };
 }
 
 /**
- * ユーザーのサブスクリプション情報を取得
+ * 農場のサブスクリプション情報を取得
  *
  * ビジネス上の役割：
- * - ユーザーが現在どのプランに加入しているかを確認
+ * - 農場が現在どのプランに加入しているかを確認
  * - 機能制限の判断や、設定画面でのプラン表示に使用
  *
  * @param supabase - Supabaseクライアント（認証済み）
- * @param userId - 対象ユーザーのID
+ * @param farmId - 対象農場のID（lib/farms.ts の getCurrentFarmId）
  * @returns サブスクリプション情報（見つからない場合はnull）
  */
-export async function getUserSubscription(
+export async function getFarmSubscription(
   supabase: SupabaseClient,
-  userId: string
+  farmId: string
 ): Promise<Subscription | null> {
-  // subscriptions テーブルからユーザーのデータを取得
+  // subscriptions テーブルから農場のデータを取得
   const { data, error } = await supabase
     .from("subscriptions")
     .select("*")
-    .eq("user_id", userId)
+    .eq("farm_id", farmId)
     .single();
 
   if (error) {
@@ -143,10 +223,11 @@ export async function getUserSubscription(
   // データベースのカラム名（スネークケース）をキャメルケースに変換
   return {
     id: data.id,
+    farmId: data.farm_id,
     userId: data.user_id,
     stripeCustomerId: data.stripe_customer_id,
     stripeSubscriptionId: data.stripe_subscription_id,
-    planType: data.plan_type as PlanType,
+    planType: toPlanType(data.plan_type),
     status: data.status,
     currentPeriodStart: data.current_period_start
       ? new Date(data.current_period_start)
@@ -154,131 +235,213 @@ export async function getUserSubscription(
     currentPeriodEnd: data.current_period_end
       ? new Date(data.current_period_end)
       : null,
+    trialEnd: data.trial_end ? new Date(data.trial_end) : null,
+    trialUsed: data.trial_used ?? false,
+    scheduledPlanType: data.scheduled_plan_type
+      ? toPlanType(data.scheduled_plan_type)
+      : null,
+    scheduledChangeAt: data.scheduled_change_at
+      ? new Date(data.scheduled_change_at)
+      : null,
+    pastDueSince: data.past_due_since ? new Date(data.past_due_since) : null,
+    cancelAtPeriodEnd: data.cancel_at_period_end ?? false,
     createdAt: new Date(data.created_at),
     updatedAt: new Date(data.updated_at),
   };
 }
 
 /**
- * ユーザーのプランタイプを取得（簡易版）
+ * 支払い遅延（past_due）の猶予期間の日数
+ *
+ * ビジネス上の役割：
+ * - カードの有効期限切れなどで支払いに失敗しても、この日数の間は現在のプランのまま利用できる
+ *   （その間にStripeが支払いを再試行し、ユーザーは支払い方法を更新できる）
+ * - 猶予期間を過ぎると、支払いが確認されるまで無料プランの上限が適用される
+ */
+export const PAST_DUE_GRACE_PERIOD_DAYS = 7;
+
+/**
+ * 支払い遅延の猶予期間の終了日時を取得
+ *
+ * @param subscription - ユーザーのサブスクリプション情報
+ * @returns 猶予期間の終了日時（支払い遅延でない場合は null）
+ */
+export function getGracePeriodEnd(subscription: Subscription | null): Date | null {
+  if (subscription?.status !== "past_due" || !subscription.pastDueSince) {
+    return null;
+  }
+
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return new Date(
+    subscription.pastDueSince.getTime() + PAST_DUE_GRACE_PERIOD_DAYS * msPerDay
+  );
+}
+
+/**
+ * 機能の利用判定に使うプランタイプを取得
+ *
+ * ビジネス上の役割：
+ * - 無料体験中のユーザーは、体験中のプランの機能・上限で利用できる
+ * - 無料体験の終了日を過ぎても支払いが確定していない（状態が更新されていない）場合は無料プランとして扱う
+ * - 支払い遅延（past_due）の場合は、猶予期間の間だけ現在のプランで利用できる
+ * - 解約済み・期間終了時に解約予定の場合は、契約期間の終了日まで現在のプランで利用できる
+ *   （無料プランへの切り替えは定期実行の expireEndedSubscriptions で行う）
+ * - サブスクリプションが見つからない場合は「free」（新規の農場）
+ *
+ * @param subscription - ユーザーのサブスクリプション情報（未登録なら null）
+ * @param now - 基準日時（省略時は現在）
+ * @returns プランタイプ
+ */
+export function getEffectivePlanType(
+  subscription: Subscription | null,
+  now: Date = new Date()
+): PlanType {
+  if (!subscription) {
+    return "free";
+  }
+
+  if (
+    subscription.status === "trialing" &&
+    subscription.trialEnd &&
+    subscription.trialEnd <= now
+  ) {
+    return "free";
+  }
+
+  const gracePeriodEnd = getGracePeriodEnd(subscription);
+  if (gracePeriodEnd && gracePeriodEnd <= now) {
+    return "free";
+  }
+
+  if (
+    (subscription.status === "canceled" || subscription.cancelAtPeriodEnd) &&
+    subscription.currentPeriodEnd &&
+    subscription.currentPeriodEnd <= now
+  ) {
+    return "free";
+  }
+
+  return subscription.planType;
+}
+
+/**
+ * 農場のプランタイプを取得（簡易版）
  *
  * ビジネス上の役割：
  * - プランタイプだけが必要な場合に使用（全情報を取得するより軽量）
- * - サブスクリプションが見つからない場合は「free」を返す（新規ユーザー）
+ * - サブスクリプションが見つからない場合は「free」を返す（新規の農場）
+ * - 無料体験中は体験中のプランを返す（getEffectivePlanType）
  *
  * @param supabase - Supabaseクライアント（認証済み）
- * @param userId - 対象ユーザーのID
+ * @param farmId - 対象農場のID
  * @returns プランタイプ
  */
-export async function getUserPlanType(
+export async function getFarmPlanType(
   supabase: SupabaseClient,
-  userId: string
+  farmId: string
 ): Promise<PlanType> {
-  const subscription = await getUserSubscription(supabase, userId);
-  return subscription?.planType ?? "free";
+  const subscription = await getFarmSubscription(supabase, farmId);
+  return getEffectivePlanType(subscription);
 }
 
 /**
- * 今月の使用量レコードを取得または作成
+ * 集計期間の使用量レコードを取得
  *
  * ビジネス上の役割：
- * - その月の使用量レコードがなければ新規作成（月初めや新規ユーザー）
- * - 既に存在すればそのレコードを返す
+ * - その期間の使用回数を確認する（閲覧のみ）
+ * - レコードは使用回数の予約・カウントアップ時にデータベース関数が作成するため、
+ *   期間の初めや新規の農場でまだレコードがない場合は null を返す（= 全て0回）
  *
  * @param supabase - Supabaseクライアント（認証済み）
- * @param userId - 対象ユーザーのID
- * @returns 使用量レコード
+ * @param farmId - 対象農場のID
+ * @param period - 集計期間
+ * @returns 使用量レコード（まだない場合は null）
  */
-async function getOrCreateUsageRecord(
+async function getUsageRecord(
   supabase: SupabaseClient,
-  userId: string
-): Promise<UsageTracking> {
-  const periodStart = getCurrentPeriodStart();
-  const periodStartString = formatDateForDatabase(periodStart);
-
-  // まず既存のレコードを検索
-  const { data: existingRecord, error: selectError } = await supabase
+  farmId: string,
+  period: UsagePeriod
+): Promise<UsageTracking | null> {
+  const { data, error } = await supabase
     .from("usage_tracking")
     .select("*")
-    .eq("user_id", userId)
-    .eq("period_start", periodStartString)
-    .single();
+    .eq("farm_id", farmId)
+    .eq("period_start", period.periodStart)
+    .maybeSingle();
 
-  // レコードが見つかった場合はそれを返す
-  if (existingRecord && !selectError) {
-    return {
-      id: existingRecord.id,
-      userId: existingRecord.user_id,
-      ocrCount: existingRecord.ocr_count,
-      exportCount: existingRecord.export_count,
-      aiAssistantCount: existingRecord.ai_assistant_count,
-      periodStart: new Date(existingRecord.period_start),
-      createdAt: new Date(existingRecord.created_at),
-    };
+  if (error) {
+    console.error("使用量レコード取得エラー:", error);
+    throw new Error("使用量の取得に失敗しました");
   }
 
-  // レコードが見つからない場合は新規作成
-  const { data: newRecord, error: insertError } = await supabase
-    .from("usage_tracking")
-    .insert({
-      user_id: userId,
-      period_start: periodStartString,
-      ocr_count: 0,
-      export_count: 0,
-      ai_assistant_count: 0,
-    })
-    .select()
-    .single();
-
-  if (insertError) {
-    console.error("使用量レコード作成エラー:", insertError);
-    throw new Error("使用量レコードの作成に失敗しました");
+  if (!data) {
+    return null;
   }
 
   return {
-    id: newRecord.id,
-    userId: newRecord.user_id,
-    ocrCount: newRecord.ocr_count,
-    exportCount: newRecord.export_count,
-    aiAssistantCount: newRecord.ai_assistant_count,
-    periodStart: new Date(newRecord.period_start),
-    createdAt: new Date(newRecord.created_at),
+    id: data.id,
+    farmId: data.farm_id,
+    userId: data.user_id,
+    ocrCount: data.ocr_count ?? 0,
+    exportCount: data.export_count ?? 0,
+    aiAssistantCount: data.ai_assistant_count ?? 0,
+    periodStart: new Date(data.period_start),
+    createdAt: new Date(data.created_at),
   };
 }
 
+/**
+ * 使用量レコードから、機能ごとの使用回数を取得（レコードがなければ0回）
+ */
+function getFeatureUsageCount(
+  usageRecord: UsageTracking | null,
+  feature: UsageFeature
+): number {
+  if (!usageRecord) {
+    return 0;
+  }
+
+  switch (feature) {
+    case "ocr":
+      return usageRecord.ocrCount;
+    case "export":
+      return usageRecord.exportCount;
+    case "ai_assistant":
+      return usageRecord.aiAssistantCount;
+    default:
+      return 0;
+  }
+}
+
 // =============================================================================
 // 使用量制限チェック
 // =============================================================================
 
 /**
- * 指定した機能の使用が許可されているかチェック
+ * 指定した機能の使用が許可されているかチェック（回数は増やさない）
  *
  * ビジネス上の役割：
- * - OCR、出力、AIアシスタント使用前に、制限内かどうかを確認
- * - 有料プランユーザーは常に許可（無制限）
- * - 無料プランユーザーは月間上限内であれば許可
+ * - 画面表示などで、制限内かどうかを事前に確認する
+ * - 有料プランの農場は常に許可（無制限）
+ * - 無料プランの農場は月間上限内であれば許可（農場のメンバー全員の合計回数）
  *
- * 使用例：
- * ```typescript
- * const result = await checkUsageLimit(supabase, userId, 'ocr');
- * if (!result.allowed) {
- *   // 制限到達時のアップグレード誘導
- *   showUpgradeModal(result);
- * }
- * ```
+ * 注意：
+ * - 実際に機能を使う場合は reserveUsage を使うこと
+ *   （確認とカウントアップの間に他のリクエストが入り、上限を超える可能性があるため）
  *
  * @param supabase - Supabaseクライアント（認証済み）
- * @param userId - 対象ユーザーのID
+ * @param farmId - 対象農場のID
  * @param feature - チェック対象の機能
  * @returns 使用制限チェックの結果
  */
 export async function checkUsageLimit(
   supabase: SupabaseClient,
-  userId: string,
+  farmId: string,
   feature: UsageFeature
 ): Promise<UsageLimitCheckResult> {
-  // ユーザーのプランタイプを取得
-  const planType = await getUserPlanType(supabase, userId);
+  // 農場のプランタイプを取得
+  const subscription = await getFarmSubscription(supabase, farmId);
+  const planType = getEffectivePlanType(subscription);
 
   // 有料プランは常に許可（無制限）
   if (!isFreePlan(planType)) {
@@ -292,102 +455,164 @@ export async function checkUsageLimit(
   }
 
   // 無料プランの場合、使用量をチェック
-  const usageRecord = await getOrCreateUsageRecord(supabase, userId);
+  const usageRecord = await getUsageRecord(supabase, farmId, getUsagePeriod(subscription));
   const limit = getFeatureLimit(planType, feature);
+  const currentUsage = getFeatureUsageCount(usageRecord, feature);
 
-  // 機能ごとの現在の使用回数を取得
-  let currentUsage: number;
-  switch (feature) {
-    case "ocr":
-      currentUsage = usageRecord.ocrCount;
-      break;
-    case "export":
-      currentUsage = usageRecord.exportCount;
-      break;
-    case "ai_assistant":
-      currentUsage = usageRecord.aiAssistantCount;
-      break;
-    default:
-      currentUsage = 0;
+  return {
+    allowed: currentUsage < limit,
+    currentUsage,
+    limit,
+    remaining: Math.max(0, limit - currentUsage),
+    planType,
+  };
+}
+
+// =============================================================================
+// 使用回数のカウント
+// =============================================================================
+
+/**
+ * 使用回数の予約結果
+ * reserveUsage で1回分を予約し、処理に失敗した場合は refundUsage に渡して返却する
+ */
+export interface UsageReservation extends UsageLimitCheckResult {
+  /** 予約した農場のID */
+  farmId: string;
+  /** 予約した機能 */
+  feature: UsageFeature;
+  /** 予約した集計期間の開始日（YYYY-MM-DD） */
+  periodStart: string;
+}
+
+/**
+ * 上限を確認して、機能の使用回数を1回分予約する（= 1増やす）
+ *
+ * ビジネス上の役割：
+ * - OCR・エクスポート・AIアシスタントの実行前に呼び出し、許可された場合のみ実行する
+ * - 確認とカウントアップをデータベース関数 reserve_usage
+ *   （supabase/farm-workspace-schema.sql）の1トランザクションで行うため、
+ *   一括OCRのように同時に呼び出しても回数が数え漏れず、上限も超えない
+ *
+ * 注意：
+ * - 有料プランは上限なしで許可されるが、回数は記録する（将来の分析用）
+ * - 予約後に処理（OpenAIの呼び出しなど）が失敗した場合は refundUsage で返却すること
+ * - データベース関数は現在の農場の回数を数えるため、farmId には現在の農場を渡すこと
+ *
+ * 使用例：
+ * ```typescript
+ * const reservation = await reserveUsage(supabase, farmId, 'ocr');
+ * if (!reservation.allowed) {
+ *   // 制限到達時のアップグレード誘導
+ * }
+ * ```
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param farmId - 対象農場のID（現在の農場）
+ * @param feature - 予約する機能
+ * @returns 予約結果（currentUsage は今回の予約を含む回数）
+ */
+export async function reserveUsage(
+  supabase: SupabaseClient,
+  farmId: string,
+  feature: UsageFeature
+): Promise<UsageReservation> {
+  const subscription = await getFarmSubscription(supabase, farmId);
+  const planType = getEffectivePlanType(subscription);
+  const limit = getFeatureLimit(planType, feature);
+  const { periodStart } = getUsagePeriod(subscription);
+
+  const { data, error } = await supabase.rpc("reserve_usage", {
+    target_period_start: periodStart,
+    usage_feature: feature,
+    // 無制限（Infinity）は JSON で送れないため NULL で渡す
+    usage_limit: Number.isFinite(limit) ? limit : null,
+  });
+
+  if (error) {
+    console.error("使用回数の予約エラー:", error);
+    throw new Error("使用量の更新に失敗しました");
   }
 
-  const remaining = Math.max(0, limit - currentUsage);
-  const allowed = currentUsage < limit;
+  const result = data as { allowed: boolean; count: number };
+  const currentUsage = Number(result.count);
 
   return {
-    allowed,
+    allowed: result.allowed,
     currentUsage,
     limit,
-    remaining,
+    remaining: Math.max(0, limit - currentUsage),
     planType,
+    farmId,
+    feature,
+    periodStart,
   };
 }
 
 /**
- * 機能の使用回数をインクリメント（1増やす）
+ * 予約した使用回数を1回分返却する
  *
  * ビジネス上の役割：
- * - 機能を使用した後に呼び出し、使用回数を記録
- * - 使用制限チェック→機能実行→インクリメントの順で使用
+ * - 予約後にOCR・AIの処理が失敗した場合、使えなかった1回分を数えないようにする
  *
  * 注意：
- * - checkUsageLimitで許可を確認してから呼び出すこと
- * - 有料プランでもカウントは行われる（将来の分析用）
+ * - ユーザー自身が回数を減らせないよう、返却は service_role からのみ実行できる
+ * - この関数はサーバーサイド（API Route）でのみ使用すること
  *
- * @param supabase - Supabaseクライアント（認証済み）
- * @param userId - 対象ユーザーのID
- * @param feature - インクリメント対象の機能
+ * @param supabase - Supabaseクライアント（service_role）
+ * @param reservation - reserveUsage の結果（許可されなかった予約は何もしない）
  */
-export async function incrementUsage(
+export async function refundUsage(
   supabase: SupabaseClient,
-  userId: string,
-  feature: UsageFeature
+  reservation: UsageReservation
 ): Promise<void> {
-  // 今月の使用量レコードを取得（なければ作成）
-  const usageRecord = await getOrCreateUsageRecord(supabase, userId);
-
-  // 機能に対応するカラム名を決定
-  let columnName: string;
-  switch (feature) {
-    case "ocr":
-      columnName = "ocr_count";
-      break;
-    case "export":
-      columnName = "export_count";
-      break;
-    case "ai_assistant":
-      columnName = "ai_assistant_count";
-      break;
-    default:
-      throw new Error(`不明な機能タイプ: ${feature}`);
+  if (!reservation.allowed) {
+    return;
   }
 
-  // 現在のカウントを取得
-  let currentCount: number;
-  switch (feature) {
-    case "ocr":
-      currentCount = usageRecord.ocrCount;
-      break;
-    case "export":
-      currentCount = usageRecord.exportCount;
-      break;
-    case "ai_assistant":
-      currentCount = usageRecord.aiAssistantCount;
-      break;
-    default:
-      currentCount = 0;
+  const { error } = await supabase.rpc("refund_farm_usage", {
+    target_farm_id: reservation.farmId,
+    target_period_start: reservation.periodStart,
+    usage_feature: reservation.feature,
+  });
+
+  if (error) {
+    console.error("使用回数の返却エラー:", error);
+    throw new Error("使用回数の返却に失敗しました");
   }
+}
 
-  // カウントを1増やして更新
-  const { error } = await supabase
-    .from("usage_tracking")
-    .update({ [columnName]: currentCount + 1 })
-    .eq("id", usageRecord.id);
+/**
+ * 機能の使用回数を1増やす（上限は確認しない）
+ *
+ * ビジネス上の役割：
+ * - 上限に関係なく使用を記録したい場合に使用
+ * - レコードの作成とカウントアップをデータベース関数 increment_usage で1文で行うため、
+ *   同時に呼び出しても数え漏れない
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param farmId - 対象農場のID（現在の農場）
+ * @param feature - インクリメント対象の機能
+ * @returns カウントアップ後の使用回数
+ */
+export async function incrementUsage(
+  supabase: SupabaseClient,
+  farmId: string,
+  feature: UsageFeature
+): Promise<number> {
+  const subscription = await getFarmSubscription(supabase, farmId);
+
+  const { data, error } = await supabase.rpc("increment_usage", {
+    target_period_start: getUsagePeriod(subscription).periodStart,
+    usage_feature: feature,
+  });
 
   if (error) {
     console.error("使用量更新エラー:", error);
     throw new Error("使用量の更新に失敗しました");
   }
+
+  return Number(data);
 }
 
 // =============================================================================
@@ -395,44 +620,51 @@ export async function incrementUsage(
 // =============================================================================
 
 /**
- * ユーザーの今月の使用状況を取得
+ * 農場の今期（集計期間）の使用状況を取得
  *
  * ビジネス上の役割：
  * - 設定画面などで、現在の使用状況を表示
- * - 無料プランユーザーに残り使用回数を知らせる
+ * - 無料プランの農場に残り使用回数と、回数がリセットされる日を知らせる
  *
  * @param supabase - Supabaseクライアント（認証済み）
- * @param userId - 対象ユーザーのID
- * @returns 今月の使用状況
+ * @param farmId - 対象農場のID
+ * @returns 今期の使用状況
  */
 export async function getMonthlyUsage(
   supabase: SupabaseClient,
-  userId: string
+  farmId: string
 ): Promise<MonthlyUsage> {
-  // プランタイプと使用量を取得
-  const planType = await getUserPlanType(supabase, userId);
-  const usageRecord = await getOrCreateUsageRecord(supabase, userId);
+  // プランタイプと集計期間、その期間の使用量を取得
+  const subscription = await getFarmSubscription(supabase, farmId);
+  const planType = getEffectivePlanType(subscription);
+  const period = getUsagePeriod(subscription);
+  const usageRecord = await getUsageRecord(supabase, farmId, period);
 
   // プランに応じた上限を取得
   const limits = PLAN_LIMITS[planType];
+  const ocrUsed = getFeatureUsageCount(usageRecord, "ocr");
+  const exportUsed = getFeatureUsageCount(usageRecord, "export");
+  const aiAssistantUsed = getFeatureUsageCount(usageRecord, "ai_assistant");
 
   return {
     ocr: {
-      used: usageRecord.ocrCount,
+      used: ocrUsed,
       limit: limits.ocrLimit,
-      remaining: Math.max(0, limits.ocrLimit - usageRecord.ocrCount),
+      remaining: Math.max(0, limits.ocrLimit - ocrUsed),
     },
     export: {
-      used: usageRecord.exportCount,
+      used: exportUsed,
       limit: limits.exportLimit,
-      remaining: Math.max(0, limits.exportLimit - usageRecord.exportCount),
+      remaining: Math.max(0, limits.exportLimit - exportUsed),
     },
     aiAssistant: {
-      used: usageRecord.aiAssistantCount,
+      used: aiAssistantUsed,
       limit: limits.aiAssistantLimit,
-      remaining: Math.max(0, limits.aiAssistantLimit - usageRecord.aiAssistantCount),
+      remaining: Math.max(0, limits.aiAssistantLimit - aiAssistantUsed),
     },
-    periodStart: usageRecord.periodStart,
+    periodStart: period.startsAt,
+    periodEnd: new Date(period.resetsAt.getTime() - 1),
+    resetsAt: period.resetsAt,
     planType,
   };
 }
@@ -441,56 +673,123 @@ export async function getMonthlyUsage(
 // サブスクリプション管理（サーバーサイド用）
 // =============================================================================
 
+/**
+ * 指定したイベントより新しいイベントが、まだ反映されていない行だけを対象にする条件
+ * （PostgREST の or フィルター。日時は「:」「.」を含むためダブルクォートで囲む）
+ *
+ * Stripeのイベントは順番が前後して届くことがあるため、
+ * 古いイベントで新しいサブスクリプション状態を上書きしないようにする
+ *
+ * @param eventCreatedAt - イベントの作成日時
+ */
+function notOverriddenByNewerEvent(eventCreatedAt: Date): string {
+  return `stripe_event_created_at.is.null,stripe_event_created_at.lte."${eventCreatedAt.toISOString()}"`;
+}
+
 /**
  * サブスクリプションを作成または更新
  *
  * ビジネス上の役割：
  * - Stripe Webhookから呼び出され、決済完了後にサブスクリプション情報を更新
  * - プランのアップグレード/ダウングレードを反映
+ * - 契約期間の終了時に予定しているプラン変更も記録する（予定がなければ消す）
+ * - より新しいイベントが反映済みの場合は更新しない
  *
  * 注意：
  * - この関数はサーバーサイド（API Route）でのみ使用
  * - service_roleキーを持つSupabaseクライアントで呼び出すこと（RLSバイパス）
  *
  * @param supabase - Supabaseクライアント（service_role）
- * @param userId - 対象ユーザーのID
+ * @param farmId - 対象農場のID
+ * @param userId - 契約したユーザーのID（行を新規作成する場合に記録）
  * @param stripeCustomerId - StripeのCustomer ID
  * @param stripeSubscriptionId - StripeのSubscription ID
  * @param planType - 新しいプランタイプ
  * @param status - サブスクリプションの状態
  * @param currentPeriodStart - 契約期間の開始日
  * @param currentPeriodEnd - 契約期間の終了日
+ * @param trialEnd - 無料体験の終了日時（無料体験なしの場合は null）
+ * @param scheduledChange - 予定しているプラン変更（予定がない場合は null）
+ * @param cancelAtPeriodEnd - 契約期間の終了時に解約する予定か
+ * @param eventCreatedAt - 反映するStripeイベントの作成日時
+ * @returns 反映した場合は true（より新しいイベントが反映済みの場合は false）
  */
 export async function upsertSubscription(
   supabase: SupabaseClient,
+  farmId: string,
   userId: string,
   stripeCustomerId: string,
   stripeSubscriptionId: string,
   planType: PlanType,
   status: "active" | "canceled" | "past_due" | "trialing",
   currentPeriodStart: Date,
-  currentPeriodEnd: Date
-): Promise<void> {
-  const { error } = await supabase.from("subscriptions").upsert(
-    {
-      user_id: userId,
-      stripe_customer_id: stripeCustomerId,
-      stripe_subscription_id: stripeSubscriptionId,
-      plan_type: planType,
-      status,
-      current_period_start: currentPeriodStart.toISOString(),
-      current_period_end: currentPeriodEnd.toISOString(),
-      updated_at: new Date().toISOString(),
-    },
-    {
-      onConflict: "user_id",
-    }
-  );
+  currentPeriodEnd: Date,
+  trialEnd: Date | null,
+  scheduledChange: ScheduledPlanChange | null,
+  cancelAtPeriodEnd: boolean,
+  eventCreatedAt: Date
+): Promise<boolean> {
+  const values = {
+    stripe_customer_id: stripeCustomerId,
+    stripe_subscription_id: stripeSubscriptionId,
+    plan_type: planType,
+    status,
+    current_period_start: currentPeriodStart.toISOString(),
+    current_period_end: currentPeriodEnd.toISOString(),
+    trial_end: trialEnd ? trialEnd.toISOString() : null,
+    // 無料体験を始めたら記録する（2回目以降の申し込みでは無料体験を付けない）
+    ...(status === "trialing" ? { trial_used: true } : {}),
+    scheduled_plan_type: scheduledChange?.planType ?? null,
+    scheduled_change_at: scheduledChange ? scheduledChange.changeAt.toISOString() : null,
+    cancel_at_period_end: cancelAtPeriodEnd,
+    stripe_event_created_at: eventCreatedAt.toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+
+  // 既存の行は、より新しいイベントが反映されていない場合のみ更新する
+  const { data: updatedRows, error } = await supabase
+    .from("subscriptions")
+    .update(values)
+    .eq("farm_id", farmId)
+    .or(notOverriddenByNewerEvent(eventCreatedAt))
+    .select("id");
 
   if (error) {
     console.error("サブスクリプション更新エラー:", error);
     throw new Error("サブスクリプションの更新に失敗しました");
   }
+
+  if (updatedRows && updatedRows.length > 0) {
+    return true;
+  }
+
+  // 更新されなかった場合、行があれば「より新しいイベントが反映済み」
+  const { data: existing, error: existingError } = await supabase
+    .from("subscriptions")
+    .select("id")
+    .eq("farm_id", farmId)
+    .maybeSingle();
+
+  if (existingError) {
+    console.error("サブスクリプション取得エラー:", existingError);
+    throw new Error("サブスクリプションの更新に失敗しました");
+  }
+
+  if (existing) {
+    return false;
+  }
+
+  // 行がない場合は新規作成
+  const { error: insertError } = await supabase
+    .from("subscriptions")
+    .insert({ farm_id: farmId, user_id: userId, ...values });
+
+  if (insertError) {
+    console.error("サブスクリプション作成エラー:", insertError);
+    throw new Error("サブスクリプションの更新に失敗しました");
+  }
+
+  return true;
 }
 
 /**
@@ -503,40 +802,86 @@ export async function upsertSubscription(
  *
  * @param supabase - Supabaseクライアント（service_role）
  * @param stripeSubscriptionId - StripeのSubscription ID
+ * @param eventCreatedAt - 反映するStripeイベントの作成日時
+ * @returns 反映した場合は true（より新しいイベントが反映済みの場合は false）
  */
 export async function cancelSubscription(
   supabase: SupabaseClient,
-  stripeSubscriptionId: string
-): Promise<void> {
-  const { error } = await supabase
+  stripeSubscriptionId: string,
+  eventCreatedAt: Date
+): Promise<boolean> {
+  const { data, error } = await supabase
     .from("subscriptions")
     .update({
       status: "canceled",
+      stripe_event_created_at: eventCreatedAt.toISOString(),
       updated_at: new Date().toISOString(),
     })
-    .eq("stripe_subscription_id", stripeSubscriptionId);
+    .eq("stripe_subscription_id", stripeSubscriptionId)
+    .or(notOverriddenByNewerEvent(eventCreatedAt))
+    .select("id");
 
   if (error) {
     console.error("サブスクリプション解約エラー:", error);
     throw new Error("サブスクリプションの解約処理に失敗しました");
   }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * サブスクリプションを支払い遅延（past_due）状態に更新
+ *
+ * ビジネス上の役割：
+ * - Stripe Webhookから呼び出され、カード決済の失敗を反映
+ *
+ * @param supabase - Supabaseクライアント（service_role）
+ * @param stripeSubscriptionId - StripeのSubscription ID
+ * @param eventCreatedAt - 反映するStripeイベントの作成日時
+ * @returns 反映した場合は true（より新しいイベントが反映済みの場合は false）
+ */
+export async function markSubscriptionPastDue(
+  supabase: SupabaseClient,
+  stripeSubscriptionId: string,
+  eventCreatedAt: Date
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .update({
+      status: "past_due",
+      stripe_event_created_at: eventCreatedAt.toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("stripe_subscription_id", stripeSubscriptionId)
+    .or(notOverriddenByNewerEvent(eventCreatedAt))
+    .select("id");
+
+  if (error) {
+    console.error("ステータス更新エラー:", error);
+    throw new Error("支払い遅延の反映に失敗しました");
+  }
+
+  return (data?.length ?? 0) > 0;
 }
 
 /**
  * サブスクリプションを無料プランに戻す
  *
  * ビジネス上の役割：
- * - 契約期間終了後に呼び出され、ユーザーを無料プランに戻す
+ * - 契約期間終了後に呼び出され、農場を無料プランに戻す
  * - Stripe情報はクリアされる
  *
  * @param supabase - Supabaseクライアント（service_role）
  * @param stripeSubscriptionId - StripeのSubscription ID
+ * @param eventCreatedAt - 反映するStripeイベントの作成日時
+ * @returns 反映した場合は true（より新しいイベントが反映済みの場合は false）
  */
 export async function revertToFreePlan(
   supabase: SupabaseClient,
-  stripeSubscriptionId: string
-): Promise<void> {
-  const { error } = await supabase
+  stripeSubscriptionId: string,
+  eventCreatedAt: Date
+): Promise<boolean> {
+  const { data, error } = await supabase
     .from("subscriptions")
     .update({
       plan_type: "free",
@@ -544,12 +889,65 @@ export async function revertToFreePlan(
       stripe_subscription_id: null,
       current_period_start: null,
       current_period_end: null,
+      scheduled_plan_type: null,
+      scheduled_change_at: null,
+      cancel_at_period_end: false,
+      stripe_event_created_at: eventCreatedAt.toISOString(),
       updated_at: new Date().toISOString(),
     })
-    .eq("stripe_subscription_id", stripeSubscriptionId);
+    .eq("stripe_subscription_id", stripeSubscriptionId)
+    .or(notOverriddenByNewerEvent(eventCreatedAt))
+    .select("id");
 
   if (error) {
     console.error("無料プラン戻しエラー:", error);
     throw new Error("無料プランへの戻し処理に失敗しました");
   }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * 契約期間が終わった解約済みのサブスクリプションを、まとめて無料プランに戻す
+ *
+ * ビジネス上の役割：
+ * - 期間終了時の解約（cancel_at_period_end）は、期間が終わるまで解約済み（canceled）
+ *   または解約予定（cancel_at_period_end = true）のまま有料プランが残る
+ *   （解約時の customer.subscription.deleted が届かなかった場合も、解約予定の記録で無料プランに戻せる）
+ * - 定期実行（/api/stripe/subscriptions/expire）から呼び出し、期間が終わったものを無料プランに戻す
+ *   （利用判定は getEffectivePlanType で期間終了後すぐに無料プランになるため、表示と記録を揃えるための処理）
+ *
+ * @param supabase - Supabaseクライアント（service_role）
+ * @param now - 基準日時（省略時は現在）
+ * @returns 無料プランに戻したサブスクリプションの件数
+ */
+export async function expireEndedSubscriptions(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<number> {
+  const { data, error } = await supabase
+    .from("subscriptions")
+    .update({
+      plan_type: "free",
+      status: "active",
+      stripe_subscription_id: null,
+      current_period_start: null,
+      current_period_end: null,
+      scheduled_plan_type: null,
+      scheduled_change_at: null,
+      cancel_at_period_end: false,
+      // 戻した時刻より前に作られたWebhookイベントが遅れて届いても、有料プランに戻さない
+      stripe_event_created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .or("status.eq.canceled,cancel_at_period_end.is.true")
+    .lte("current_period_end", now.toISOString())
+    .select("id");
+
+  if (error) {
+    console.error("期間終了したサブスクリプションの更新エラー:", error);
+    throw new Error("期間終了したサブスクリプションの無料プランへの戻し処理に失敗しました");
+  }
+
+  return data?.length ?? 0;
 }
@@ -0,0 +1,42 @@
+/**
+ * Service Role用Supabaseクライアント
+ *
+ * このファイルは、RLSをバイパスしてデータベースを操作する必要がある
+ * サーバー処理（API Route）向けのクライアントを提供します。
+ *
+ * 使用例：
+ * - Stripe Webhookでのサブスクリプション更新（ユーザーのセッションがない）
+ * - OCR・AIアシスタントの失敗時に、予約した使用回数を返却する
+ * - 農場への招待メールの送信
+ * - 定期的な取引から経費・売上を作成する（定期実行。すべての農場が対象）
+ *
+ * 注意：
+ * - service_roleキーはサーバーサイドでのみ使用可能（絶対にクライアントに露出させない）
+ * - ブラウザから読み込むコンポーネントではインポートしないこと
+ */
+
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service Roleキーを使用したSupabaseクライアントを作成
+ *
+ * @returns Supabaseクライアント（RLSバイパス）
+ */
+export function createSupabaseAdminClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error(
+      "Supabase環境変数が設定されていません。" +
+        "NEXT_PUBLIC_SUPABASE_URL と SUPABASE_SERVICE_ROLE_KEY を確認してください。"
+    );
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
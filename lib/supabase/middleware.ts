@@ -73,7 +73,7 @@ export async function updateSession(request: NextRequest) {
   } = await supabase.auth.getUser();
 
   // 保護対象のルート（未ログインではアクセスできないページ）
-  const protectedRoutes = ["/dashboard", "/expenses", "/sales", "/analysis"];
+  const protectedRoutes = ["/dashboard", "/expenses", "/sales", "/analysis", "/reports", "/import"];
 
   // 除外するルート（未ログインでもアクセス可能なページ）
   const publicRoutes = ["/login", "/signup", "/auth/callback", "/"];
@@ -0,0 +1,51 @@
+/**
+ * Supabaseの取得件数の上限を超えるデータを取得するためのユーティリティ
+ *
+ * Supabase（PostgREST）は1回の取得で返す行数に上限（既定で1000件）があり、
+ * 上限を超えた分はエラーにならずに切り捨てられます。
+ * 件数に上限のない一覧（期間内の全取引など）は、range() で範囲を区切って最後まで取得します。
+ *
+ * 使用例：
+ * - Excel出力での、指定期間の売上・経費の取得
+ */
+
+import type { PostgrestError } from "@supabase/supabase-js";
+
+/** 1回の取得で読み込む行数（Supabaseの既定の上限） */
+export const SUPABASE_PAGE_SIZE = 1000;
+
+/**
+ * 取得結果（Supabaseのクエリ結果と同じ形）
+ */
+export interface PaginatedResult<T> {
+  data: T[] | null;
+  error: PostgrestError | null;
+}
+
+/**
+ * 範囲を区切りながら、すべての行を取得する
+ *
+ * 注意：
+ * - ページの境目で行が重複・欠落しないよう、fetchPage は一意になる順序（例: 日付とID）で並べること
+ *
+ * @param fetchPage - from〜to 行目（0始まり、両端を含む）を取得するクエリ（.range(from, to) を付けたもの）
+ * @returns すべての行（途中で失敗した場合は error）
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PaginatedResult<T>>
+): Promise<PaginatedResult<T>> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + SUPABASE_PAGE_SIZE - 1);
+
+    if (error) {
+      return { data: null, error };
+    }
+
+    rows.push(...(data ?? []));
+    if ((data?.length ?? 0) < SUPABASE_PAGE_SIZE) {
+      return { data: rows, error: null };
+    }
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * 青色申告決算書（農業所得用）作成ユーティリティ
+ *
+ * このファイルは、1年分（1月〜12月）の売上・経費から
+ * 青色申告決算書の損益計算書と月別の収入・経費を作成する関数を提供します。
+ *
+ * 主な機能：
+ * - 決算書の経費欄（種苗費、肥料費など）の定義
+ * - ユーザーの勘定科目 → 決算書の経費欄への対応付け
+ * - 収入金額・経費・差引金額の計算
+ * - 固定資産台帳からの「減価償却費の計算」欄の作成（lib/depreciation.ts）
+ *
+ * 出力：
+ * - Excel: lib/excelExport.ts の downloadTaxReturnExcel()
+ * - 印刷用ページ: app/reports/tax-return/page.tsx
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { fetchFinancialSummary, getYearMonthSpanDateRange } from "./aggregation";
+import {
+  DEPRECIATION_METHOD_LABELS,
+  getDepreciationForYear,
+  listFixedAssets,
+} from "./depreciation";
+
+// =============================================================================
+// 決算書の経費欄の定義
+// =============================================================================
+
+/**
+ * 決算書の経費欄のキー
+ * データベースの expense_categories.tax_form_line と対応
+ */
+export type TaxFormLine =
+  | "taxes"
+  | "seeds"
+  | "livestock"
+  | "fertilizer"
+  | "feed"
+  | "farm_tools"
+  | "pesticides"
+  | "materials"
+  | "repairs"
+  | "utilities"
+  | "work_clothing"
+  | "mutual_aid"
+  | "depreciation"
+  | "packing_shipping"
+  | "wages"
+  | "interest"
+  | "rent"
+  | "land_improvement"
+  | "miscellaneous";
+
+/**
+ * 決算書の経費欄（決算書の記載順）
+ */
+export const TAX_FORM_EXPENSE_LINES: { key: TaxFormLine; label: string }[] = [
+  { key: "taxes", label: "租税公課" },
+  { key: "seeds", label: "種苗費" },
+  { key: "livestock", label: "素畜費" },
+  { key: "fertilizer", label: "肥料費" },
+  { key: "feed", label: "飼料費" },
+  { key: "farm_tools", label: "農具費" },
+  { key: "pesticides", label: "農薬衛生費" },
+  { key: "materials", label: "諸材料費" },
+  { key: "repairs", label: "修繕費" },
+  { key: "utilities", label: "動力光熱費" },
+  { key: "work_clothing", label: "作業用衣料費" },
+  { key: "mutual_aid", label: "農業共済掛金" },
+  { key: "depreciation", label: "減価償却費" },
+  { key: "packing_shipping", label: "荷造運賃手数料" },
+  { key: "wages", label: "雇人費" },
+  { key: "interest", label: "利子割引料" },
+  { key: "rent", label: "地代・賃借料" },
+  { key: "land_improvement", label: "土地改良費" },
+  { key: "miscellaneous", label: "雑費" },
+];
+
+/**
+ * 既定の対応表（初期登録される勘定科目名 → 決算書の経費欄）
+ *
+ * ビジネス上の役割：
+ * - 設定画面で対応付けをしていない科目でも、決算書をすぐに作れるようにする
+ * - ここにない科目名は「雑費」として扱う
+ */
+const DEFAULT_TAX_FORM_LINE_BY_CATEGORY_NAME: Record<string, TaxFormLine> = {
+  租税公課: "taxes",
+  種苗費: "seeds",
+  肥料費: "fertilizer",
+  農薬費: "pesticides",
+  諸材料費: "materials",
+  修繕費: "repairs",
+  動力光熱費: "utilities",
+  燃料費: "utilities",
+  作業衣服費: "work_clothing",
+  共済仕掛け金: "mutual_aid",
+  機械等減価償却費: "depreciation",
+  荷造運賃: "packing_shipping",
+  梱包資材費: "packing_shipping",
+  支払い手数料: "packing_shipping",
+  労務費: "wages",
+  雑給: "wages",
+  法定福利費: "wages",
+  臨時賞与: "wages",
+  貸借料: "rent",
+  農地賃借料: "rent",
+  土地改良費: "land_improvement",
+  消耗品: "farm_tools",
+};
+
+/**
+ * 経費欄のキーから表示名を取得
+ */
+export function getTaxFormLineLabel(line: TaxFormLine): string {
+  return TAX_FORM_EXPENSE_LINES.find((formLine) => formLine.key === line)?.label || "雑費";
+}
+
+/**
+ * 勘定科目を決算書のどの経費欄に計上するかを決める
+ *
+ * 優先順位：
+ * 1. 設定画面でユーザーが選んだ経費欄（tax_form_line）
+ * 2. 既定の対応表（科目名から推定）
+ * 3. 雑費
+ *
+ * @param categoryName - 勘定科目名
+ * @param configuredLine - 設定画面で選ばれた経費欄（未設定なら null）
+ */
+export function resolveTaxFormLine(
+  categoryName: string,
+  configuredLine: TaxFormLine | null
+): TaxFormLine {
+  return (
+    configuredLine ||
+    DEFAULT_TAX_FORM_LINE_BY_CATEGORY_NAME[categoryName] ||
+    "miscellaneous"
+  );
+}
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 決算書の経費欄1行分
+ */
+export interface TaxFormExpenseLineAmount {
+  key: TaxFormLine;
+  label: string;
+  amount: number;
+  /** この欄に計上した勘定科目名（内訳の確認用） */
+  sourceCategories: string[];
+}
+
+/**
+ * 月別の収入金額・経費
+ */
+export interface TaxReturnMonthlyRow {
+  /** 月（1-12） */
+  month: number;
+  revenue: number;
+  expenses: number;
+}
+
+/**
+ * 勘定科目と決算書の経費欄の対応（帳票の「科目対応表」に出力）
+ */
+export interface TaxFormCategoryMapping {
+  categoryName: string;
+  line: TaxFormLine;
+  lineLabel: string;
+  amount: number;
+}
+
+/**
+ * 「減価償却費の計算」欄の1行（固定資産1つ分）
+ */
+export interface TaxReturnDepreciationRow {
+  /** 減価償却資産の名称 */
+  assetName: string;
+  /** 面積又は数量 */
+  quantity: string;
+  /** 取得年月（例: 2024年4月） */
+  acquiredOn: string;
+  acquisitionCost: number;
+  /** 償却の基礎になる金額 */
+  baseAmount: number;
+  /** 償却方法（定額法 / 定率法） */
+  methodLabel: string;
+  usefulLife: number;
+  /** 償却率または改定償却率 */
+  rate: number;
+  /** 本年中の償却期間（月数） */
+  months: number;
+  /** 本年分の償却費 */
+  depreciation: number;
+  /** 事業専用割合（%） */
+  businessUseRatio: number;
+  /** 本年分の必要経費算入額 */
+  deductibleAmount: number;
+  /** 未償却残高（期末残高） */
+  closingBookValue: number;
+  /** 摘要 */
+  note: string;
+}
+
+/**
+ * 青色申告決算書の作成結果
+ */
+export interface TaxReturnReport {
+  /** 対象年（1月1日〜12月31日） */
+  year: number;
+  /** 農場名（設定画面の農場情報） */
+  farmName: string;
+  /** 代表者名（設定画面の農場情報） */
+  ownerName: string;
+  /** 収入金額（販売金額 = 売上合計） */
+  revenue: number;
+  /** 経費欄ごとの金額（決算書の記載順、0円の欄も含む） */
+  expenseLines: TaxFormExpenseLineAmount[];
+  /** 経費合計 */
+  totalExpenses: number;
+  /** 差引金額（収入金額 - 経費合計） */
+  netIncome: number;
+  /** 月別の収入金額・経費（1月〜12月） */
+  monthly: TaxReturnMonthlyRow[];
+  /** 勘定科目ごとの対応付け */
+  categoryMappings: TaxFormCategoryMapping[];
+  /** 減価償却費の計算（固定資産台帳の資産のうち、この年に償却したもの） */
+  depreciationRows: TaxReturnDepreciationRow[];
+  /** 減価償却費の必要経費算入額の合計 */
+  totalDepreciation: number;
+}
+
+// =============================================================================
+// 決算書の作成
+// =============================================================================
+
+/**
+ * 指定した年の青色申告決算書データを作成
+ *
+ * ビジネス上の流れ：
+ * 1. 1月1日〜12月31日の売上・経費を集計（get_financial_summary）
+ * 2. 勘定科目ごとの決算書の経費欄の設定と、農場情報を取得
+ * 3. 勘定科目別の経費を決算書の経費欄にまとめる
+ * 4. 固定資産台帳から、この年の減価償却費を計算する
+ *
+ * @param supabase - Supabaseクライアント（認証済み）
+ * @param year - 対象年
+ * @returns 決算書データ
+ * @throws データの取得に失敗した場合
+ */
+export async function fetchTaxReturnReport(
+  supabase: SupabaseClient,
+  year: number
+): Promise<TaxReturnReport> {
+  const { startDate, endDate } = getYearMonthSpanDateRange(year, 1, year, 12);
+
+  // 集計・勘定科目の設定・農場情報を並行取得（RLSで自分のデータのみ）
+  const [summary, categoriesResult, profileResult, fixedAssets] = await Promise.all([
+    fetchFinancialSummary(supabase, startDate, endDate),
+    supabase.from("expense_categories").select("name, tax_form_line"),
+    supabase.from("user_profiles").select("farm_name, owner_name").maybeSingle(),
+    listFixedAssets(supabase),
+  ]);
+
+  if (categoriesResult.error) {
+    console.error("勘定科目の取得に失敗:", categoriesResult.error);
+    throw new Error("勘定科目の取得に失敗しました");
+  }
+
+  // 科目名 → 設定された経費欄（科目名はユーザーごとに一意）
+  const configuredLineByName = new Map<string, TaxFormLine | null>(
+    (categoriesResult.data || []).map((category) => [
+      category.name as string,
+      (category.tax_form_line as TaxFormLine | null) ?? null,
+    ])
+  );
+
+  // 勘定科目別の経費を決算書の経費欄に振り分ける
+  const categoryMappings: TaxFormCategoryMapping[] = summary.categories.map(
+    ({ category, amount }) => {
+      const line = resolveTaxFormLine(category, configuredLineByName.get(category) ?? null);
+      return { categoryName: category, line, lineLabel: getTaxFormLineLabel(line), amount };
+    }
+  );
+
+  const expenseLines: TaxFormExpenseLineAmount[] = TAX_FORM_EXPENSE_LINES.map(
+    ({ key, label }) => {
+      const mappedCategories = categoryMappings.filter((mapping) => mapping.line === key);
+      return {
+        key,
+        label,
+        amount: mappedCategories.reduce((sum, mapping) => sum + mapping.amount, 0),
+        sourceCategories: mappedCategories.map((mapping) => mapping.categoryName),
+      };
+    }
+  );
+
+  const totalExpenses = expenseLines.reduce((sum, line) => sum + line.amount, 0);
+
+  // 減価償却費の計算（この年に償却しない資産は載せない）
+  const depreciationRows: TaxReturnDepreciationRow[] = fixedAssets.flatMap((asset) => {
+    const row = getDepreciationForYear(asset, year);
+    if (!row) return [];
+
+    const [acquiredYear, acquiredMonth] = asset.acquisitionDate.split("-").map(Number);
+    return [
+      {
+        assetName: asset.name,
+        quantity: asset.quantity || "",
+        acquiredOn: `${acquiredYear}年${acquiredMonth}月`,
+        acquisitionCost: asset.acquisitionCost,
+        baseAmount: row.baseAmount,
+        methodLabel: DEPRECIATION_METHOD_LABELS[asset.method],
+        usefulLife: asset.usefulLife,
+        rate: row.rate,
+        months: row.months,
+        depreciation: row.depreciation,
+        businessUseRatio: asset.businessUseRatio,
+        deductibleAmount: row.deductibleAmount,
+        closingBookValue: row.closingBookValue,
+        note: asset.note || "",
+      },
+    ];
+  });
+
+  return {
+    year,
+    farmName: profileResult.data?.farm_name || "",
+    ownerName: profileResult.data?.owner_name || "",
+    revenue: summary.totals.sales,
+    expenseLines,
+    totalExpenses,
+    netIncome: summary.totals.sales - totalExpenses,
+    monthly: summary.monthly.map((month) => ({
+      month: Number(month.monthKey.split("-")[1]),
+      revenue: month.sales,
+      expenses: month.expenses,
+    })),
+    categoryMappings,
+    depreciationRows,
+    totalDepreciation: depreciationRows.reduce((sum, row) => sum + row.deductibleAmount, 0),
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * テスト用の最小限のSupabaseクライアント
+ *
+ * 動作：
+ * - from(table) の取得は、テーブルごとに渡した行をそのまま返す（絞り込み・並び替えはしない）
+ * - range() を指定した場合はその範囲だけ、指定しない場合はSupabaseと同じく1000件までを返す
+ * - rpc(name) は、関数ごとに渡した結果を返す
+ * - 変更（update・delete・upsert）は calls に記録する
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/** range() を指定しない場合に返す件数（Supabaseの1回の取得の上限） */
+const DEFAULT_ROW_LIMIT = 1000;
+
+/**
+ * テストで返すデータ
+ */
+export interface FakeSupabaseData {
+  /** テーブル名ごとの行 */
+  tables?: Record<string, unknown[]>;
+  /** データベース関数名ごとの結果 */
+  rpc?: Record<string, unknown>;
+}
+
+/**
+ * 記録した変更の呼び出し
+ */
+export interface FakeSupabaseCalls {
+  upserted: unknown[];
+  updated: number;
+  deleted: number;
+}
+
+/**
+ * テスト用のSupabaseクライアントを作成する
+ *
+ * @param data - テーブル・データベース関数ごとに返すデータ
+ * @returns クライアントと、記録した変更の呼び出し
+ */
+export function createFakeSupabase(data: FakeSupabaseData): {
+  supabase: SupabaseClient;
+  calls: FakeSupabaseCalls;
+} {
+  const calls: FakeSupabaseCalls = { upserted: [], updated: 0, deleted: 0 };
+
+  const from = (table: string) => {
+    let range: [number, number] = [0, DEFAULT_ROW_LIMIT - 1];
+
+    const builder = {
+      select: () => builder,
+      in: () => builder,
+      eq: () => builder,
+      order: () => builder,
+      range: (start: number, end: number) => {
+        range = [start, end];
+        return builder;
+      },
+      update: () => {
+        calls.updated++;
+        return builder;
+      },
+      delete: () => {
+        calls.deleted++;
+        return builder;
+      },
+      upsert: (rows: unknown[]) => {
+        calls.upserted.push(...rows);
+        return builder;
+      },
+      then: (resolve: (result: { data: unknown[]; error: null }) => void) =>
+        resolve({ data: (data.tables?.[table] ?? []).slice(range[0], range[1] + 1), error: null }),
+    };
+
+    return builder;
+  };
+
+  const rpc = async (name: string) => ({ data: data.rpc?.[name] ?? null, error: null });
+
+  return { supabase: { from, rpc } as unknown as SupabaseClient, calls };
+}
@@ -0,0 +1,220 @@
+/**
+ * 前年比較ユーティリティ
+ *
+ * このファイルは、選んだ期間と前年（2年分比べる場合は前年と2年前）の同じ月を比べるための関数を提供します。
+ *
+ * ビジネス上の役割：
+ * - 農業は季節で売上・経費が大きく変わるため、「今年の6月」と「去年の6月」を比べる
+ * - 勘定科目・作物ごとに前年からの増減と増減率を出し、伸びた作物・増えた経費を見つける
+ *
+ * 集計は lib/aggregation.ts の fetchFinancialSummary()（期間ごとに1回の呼び出し）で行う
+ */
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { fetchFinancialSummary, getYearMonthSpanDateRange, type FinancialSummary } from "./aggregation";
+
+// =============================================================================
+// 型定義
+// =============================================================================
+
+/**
+ * 比べる期間（今期・前年・2年前）
+ */
+export interface YearOverYearPeriod {
+  /** 表示名（今期・前年・2年前） */
+  label: string;
+  /** 期間の表示（例: 2024年4月〜2024年9月） */
+  rangeLabel: string;
+}
+
+/**
+ * 売上・経費・利益
+ */
+export interface YearOverYearValues {
+  sales: number;
+  expenses: number;
+  profit: number;
+}
+
+/**
+ * 月別の比較1行（同じ位置の月を期間ごとに並べる）
+ */
+export interface YearOverYearMonthRow {
+  /** 今期の月の表示名（例: 2024年6月） */
+  monthLabel: string;
+  /** 期間ごとの値（periods と同じ順） */
+  values: YearOverYearValues[];
+}
+
+/**
+ * 前年との増減1行
+ */
+export interface YearOverYearDeltaRow {
+  /** 項目名（売上・勘定科目名・作物名など） */
+  label: string;
+  /** 今期 */
+  current: number;
+  /** 前年 */
+  previous: number;
+  /** 増減（今期 − 前年） */
+  change: number;
+  /** 増減率（%。前年が0の場合は null） */
+  changeRate: number | null;
+}
+
+/**
+ * 前年比較の結果
+ */
+export interface YearOverYearReport {
+  /** 比べる期間（今期、前年、2年前…の順） */
+  periods: YearOverYearPeriod[];
+  /** 月別の比較 */
+  monthly: YearOverYearMonthRow[];
+  /** 売上・経費・利益の合計の増減（今期と前年） */
+  totals: YearOverYearDeltaRow[];
+  /** 勘定科目別の経費の増減（今期の金額の大きい順） */
+  categories: YearOverYearDeltaRow[];
+  /** 作物別の売上の増減（今期の金額の大きい順） */
+  crops: YearOverYearDeltaRow[];
+}
+
+// =============================================================================
+// 定数
+// =============================================================================
+
+/** さかのぼって比べられる最大の年数 */
+export const MAX_COMPARISON_YEARS = 2;
+
+/**
+ * さかのぼる年数の選択肢
+ */
+export const COMPARISON_YEAR_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: "前年" },
+  { value: 2, label: "前年・2年前" },
+];
+
+/**
+ * 期間の表示名（0 = 今期、1 = 前年、2 = 2年前）
+ */
+function getPeriodLabel(yearsBack: number): string {
+  if (yearsBack === 0) return "今期";
+  if (yearsBack === 1) return "前年";
+  return `${yearsBack}年前`;
+}
+
+// =============================================================================
+// 計算
+// =============================================================================
+
+/**
+ * 前年との増減1行を作成する
+ */
+function buildDeltaRow(label: string, current: number, previous: number): YearOverYearDeltaRow {
+  return {
+    label,
+    current,
+    previous,
+    change: current - previous,
+    changeRate: previous !== 0 ? Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10 : null,
+  };
+}
+
+/**
+ * 項目ごとの金額（今期・前年）を増減の行にまとめる（今期の金額の大きい順、同額は前年の大きい順）
+ */
+function buildDeltaRows(
+  currentItems: { label: string; amount: number }[],
+  previousItems: { label: string; amount: number }[]
+): YearOverYearDeltaRow[] {
+  const currentAmounts = new Map(currentItems.map((item) => [item.label, item.amount]));
+  const previousAmounts = new Map(previousItems.map((item) => [item.label, item.amount]));
+  const labels = [...new Set([...currentAmounts.keys(), ...previousAmounts.keys()])];
+
+  return labels
+    .map((label) => buildDeltaRow(label, currentAmounts.get(label) ?? 0, previousAmounts.get(label) ?? 0))
+    .sort((a, b) => b.current - a.current || b.previous - a.previous);
+}
+
+/**
+ * 選んだ期間と、前年（2年分比べる場合は前年と2年前）の同じ月を比べる
+ *
+ * ビジネス上の流れ:
+ * 1. 選んだ期間と、同じ月を1年ずつさかのぼった期間をそれぞれ集計
+ * 2. 月別は期間の先頭から同じ位置の月（今年の6月と去年の6月）を並べる
+ * 3. 合計・勘定科目別・作物別は、今期と前年の増減・増減率を計算
+ *
+ * @param supabase - Supabaseクライアント（認証済み、ブラウザ用・サーバー用どちらでも可）
+ * @param startYear - 開始年
+ * @param startMonth - 開始月（1-12）
+ * @param endYear - 終了年
+ * @param endMonth - 終了月（1-12）
+ * @param comparisonYears - さかのぼる年数（1〜MAX_COMPARISON_YEARS）
+ * @throws 集計に失敗した場合
+ */
+export async function fetchYearOverYearComparison(
+  supabase: SupabaseClient,
+  startYear: number,
+  startMonth: number,
+  endYear: number,
+  endMonth: number,
+  comparisonYears = 1
+): Promise<YearOverYearReport> {
+  const yearsBackList = Array.from(
+    { length: Math.min(Math.max(comparisonYears, 1), MAX_COMPARISON_YEARS) + 1 },
+    (_, yearsBack) => yearsBack
+  );
+
+  const summaries: FinancialSummary[] = await Promise.all(
+    yearsBackList.map((yearsBack) => {
+      const { startDate, endDate } = getYearMonthSpanDateRange(
+        startYear - yearsBack,
+        startMonth,
+        endYear - yearsBack,
+        endMonth
+      );
+      return fetchFinancialSummary(supabase, startDate, endDate);
+    })
+  );
+
+  const [currentSummary, previousSummary] = summaries;
+
+  return {
+    periods: yearsBackList.map((yearsBack) => ({
+      label: getPeriodLabel(yearsBack),
+      rangeLabel: `${startYear - yearsBack}年${startMonth}月〜${endYear - yearsBack}年${endMonth}月`,
+    })),
+    // 期間の月数はどの年も同じため、同じ位置の月が「同じ月」になる
+    monthly: currentSummary.monthly.map((month, index) => ({
+      monthLabel: month.monthLabel,
+      values: summaries.map((summary) => {
+        const sameMonth = summary.monthly[index];
+        return {
+          sales: sameMonth?.sales ?? 0,
+          expenses: sameMonth?.expenses ?? 0,
+          profit: sameMonth?.profit ?? 0,
+        };
+      }),
+    })),
+    totals: [
+      buildDeltaRow("売上", currentSummary.totals.sales, previousSummary.totals.sales),
+      buildDeltaRow("経費", currentSummary.totals.expenses, previousSummary.totals.expenses),
+      buildDeltaRow("利益", currentSummary.totals.profit, previousSummary.totals.profit),
+    ],
+    categories: buildDeltaRows(
+      currentSummary.categories.map(({ category, amount }) => ({ label: category, amount })),
+      previousSummary.categories.map(({ category, amount }) => ({ label: category, amount }))
+    ),
+    crops: buildDeltaRows(
+      currentSummary.crops.map(({ cropName, amount }) => ({ label: cropName, amount })),
+      previousSummary.crops.map(({ cropName, amount }) => ({ label: cropName, amount }))
+    ),
+  };
+}
+
+/**
+ * 増減率の表示（例: +12.5% / -3.0% / 前年なし）
+ */
+export function formatChangeRate(changeRate: number | null): string {
+  if (changeRate === null) return "前年なし";
+  return `${changeRate > 0 ? "+" : ""}${changeRate.toFixed(1)}%`;
+}
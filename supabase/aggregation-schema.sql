@@ -0,0 +1,127 @@
+-- =============================================================================
+-- AgriManagement 集計用データベース関数
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 分析画面・ダッシュボード・経費円グラフ・AIアシスタントで使う集計を1か所にまとめる
+-- - 月ごとに売上・経費を取得してブラウザで合計する方式（24ヶ月で48回の通信）をやめ、
+--   任意の期間の集計結果を1回の呼び出しで返す
+--
+-- 前提条件:
+-- - schema-with-auth.sql が実行済み（expenses / sales テーブルが存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: 集計用インデックスの作成
+-- =============================================================================
+--
+-- 集計は必ず「ユーザー × 日付範囲」で絞り込むため、複合インデックスで高速化する
+
+CREATE INDEX IF NOT EXISTS idx_expenses_user_id_date ON expenses(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_sales_user_id_date ON sales(user_id, date);
+
+-- =============================================================================
+-- ステップ2: 期間集計関数の作成
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- 指定期間の売上・経費について、以下をまとめて返す
+-- - totals: 期間全体の売上合計・経費合計・件数
+-- - monthly: 月別の売上・経費（取引がない月も 0 で含める）
+-- - categories: 勘定科目別の経費合計（金額の大きい順）
+-- - crops: 作物別の売上合計（金額の大きい順）
+--
+-- 引数:
+-- - range_start: 期間の開始日（この日を含む）
+-- - range_end: 期間の終了日（この日を含む）
+-- 戻り値: 上記をまとめた JSONB
+--
+-- セキュリティ:
+-- - SECURITY INVOKER（既定）で実行するため、呼び出したユーザーのRLSがそのまま適用される
+-- - つまり、自分の売上・経費だけが集計対象になる
+--
+-- 使用方法（アプリから）:
+-- await supabase.rpc('get_financial_summary', { range_start: '2024-01-01', range_end: '2024-12-31' });
+
+CREATE OR REPLACE FUNCTION get_financial_summary(range_start DATE, range_end DATE)
+RETURNS JSONB AS $$
+  WITH
+  -- 期間内の売上・経費（RLSにより自分のデータのみ）
+  period_sales AS (
+    SELECT date, crop_name, amount FROM sales
+    WHERE date BETWEEN range_start AND range_end
+  ),
+  period_expenses AS (
+    SELECT date, category, amount FROM expenses
+    WHERE date BETWEEN range_start AND range_end
+  ),
+  -- 期間内の全ての月（取引がない月も表示するため）
+  period_months AS (
+    SELECT generate_series(
+      date_trunc('month', range_start::timestamp),
+      date_trunc('month', range_end::timestamp),
+      interval '1 month'
+    )::date AS month_start
+  ),
+  monthly_sales AS (
+    SELECT date_trunc('month', date)::date AS month_start, SUM(amount) AS amount
+    FROM period_sales GROUP BY 1
+  ),
+  monthly_expenses AS (
+    SELECT date_trunc('month', date)::date AS month_start, SUM(amount) AS amount
+    FROM period_expenses GROUP BY 1
+  )
+  SELECT jsonb_build_object(
+    'totals', jsonb_build_object(
+      'sales', (SELECT COALESCE(SUM(amount), 0) FROM period_sales),
+      'expenses', (SELECT COALESCE(SUM(amount), 0) FROM period_expenses),
+      'sales_count', (SELECT COUNT(*) FROM period_sales),
+      'expense_count', (SELECT COUNT(*) FROM period_expenses)
+    ),
+    'monthly', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'month_key', to_char(period_months.month_start, 'YYYY-MM'),
+        'sales', COALESCE(monthly_sales.amount, 0),
+        'expenses', COALESCE(monthly_expenses.amount, 0)
+      ) ORDER BY period_months.month_start), '[]'::jsonb)
+      FROM period_months
+      LEFT JOIN monthly_sales ON monthly_sales.month_start = period_months.month_start
+      LEFT JOIN monthly_expenses ON monthly_expenses.month_start = period_months.month_start
+    ),
+    'categories', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'category', category_totals.category,
+        'amount', category_totals.amount
+      ) ORDER BY category_totals.amount DESC), '[]'::jsonb)
+      FROM (
+        SELECT COALESCE(NULLIF(category, ''), '未分類') AS category, SUM(amount) AS amount
+        FROM period_expenses GROUP BY 1
+      ) AS category_totals
+    ),
+    'crops', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'crop_name', crop_totals.crop_name,
+        'amount', crop_totals.amount
+      ) ORDER BY crop_totals.amount DESC), '[]'::jsonb)
+      FROM (
+        SELECT COALESCE(NULLIF(crop_name, ''), '不明') AS crop_name, SUM(amount) AS amount
+        FROM period_sales GROUP BY 1
+      ) AS crop_totals
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- 関数の実行権限をauthenticatedユーザーに付与
+GRANT EXECUTE ON FUNCTION get_financial_summary(DATE, DATE) TO authenticated;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 売上・経費の「ユーザー × 日付」インデックスが作成される
+-- 2. get_financial_summary 関数で、任意期間の集計を1回で取得できる
+--
+-- アプリ側では lib/aggregation.ts の fetchFinancialSummary() から呼び出す
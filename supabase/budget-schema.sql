@@ -0,0 +1,220 @@
+-- =============================================================================
+-- AgriManagement 予算（予算と実績の比較）用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 勘定科目ごとの経費の予算と、作物ごとの売上目標を、年・月単位で登録する
+-- - 分析画面で予算と実績を比べ、使いすぎ・目標未達の科目や作物を早めに気付けるようにする
+-- - AIアシスタントが予算超過についてコメントできるようにする
+--
+-- 金額の持ち方:
+-- - 1行が1年分の予算で、monthly_amounts に1月〜12月の金額を持つ（年間予算はその合計）
+-- - 年間の金額だけ決めている場合は、画面で12か月に均等に割り振って保存する
+--
+-- 前提条件:
+-- - farm-workspace-schema.sql が実行済み（farms テーブルと current_farm_id 関数が存在する）
+-- - expense-category-link-schema.sql が実行済み（expenses.category_id が存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: expense_budgets テーブル（勘定科目ごとの経費の予算）
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS expense_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  -- 登録したユーザー
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 対象年（1月〜12月）
+  year SMALLINT NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  -- 勘定科目（科目を削除した場合は予算も削除する）
+  category_id UUID NOT NULL REFERENCES expense_categories(id) ON DELETE CASCADE,
+  -- 1月〜12月の予算（円）
+  monthly_amounts INTEGER[] NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT expense_budgets_months_check CHECK (
+    array_length(monthly_amounts, 1) = 12 AND 0 <= ALL (monthly_amounts)
+  ),
+  -- 同じ農場・年・勘定科目の予算は1つだけ
+  UNIQUE (farm_id, year, category_id)
+);
+
+DROP TRIGGER IF EXISTS update_expense_budgets_updated_at ON expense_budgets;
+
+CREATE TRIGGER update_expense_budgets_updated_at
+  BEFORE UPDATE ON expense_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 画面からの登録時は、現在の農場を自動で設定する（経費・売上と同じ）
+DROP TRIGGER IF EXISTS set_expense_budgets_farm_id ON expense_budgets;
+
+CREATE TRIGGER set_expense_budgets_farm_id
+  BEFORE INSERT ON expense_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION set_farm_id_from_current_farm();
+
+-- =============================================================================
+-- ステップ2: sales_targets テーブル（作物ごとの売上目標）
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS sales_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  -- 登録したユーザー
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 対象年（1月〜12月）
+  year SMALLINT NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  -- 作物名（売上の crop_name と同じ表記）
+  crop_name TEXT NOT NULL,
+  -- 1月〜12月の売上目標（円）
+  monthly_amounts INTEGER[] NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT sales_targets_months_check CHECK (
+    array_length(monthly_amounts, 1) = 12 AND 0 <= ALL (monthly_amounts)
+  ),
+  -- 同じ農場・年・作物の目標は1つだけ
+  UNIQUE (farm_id, year, crop_name)
+);
+
+DROP TRIGGER IF EXISTS update_sales_targets_updated_at ON sales_targets;
+
+CREATE TRIGGER update_sales_targets_updated_at
+  BEFORE UPDATE ON sales_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS set_sales_targets_farm_id ON sales_targets;
+
+CREATE TRIGGER set_sales_targets_farm_id
+  BEFORE INSERT ON sales_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION set_farm_id_from_current_farm();
+
+-- =============================================================================
+-- ステップ3: 予算と比べる実績の集計関数
+-- =============================================================================
+--
+-- 引数: target_year（この年の1月1日〜12月31日の経費・売上を集計）
+--
+-- 戻り値 JSONB:
+-- - expenses: 勘定科目・月ごとの経費 [{ category_id, category, month, amount }]
+--   （勘定科目と紐付いていない古い経費は category_id が NULL。アプリ側で科目名で照合する）
+-- - sales: 作物・月ごとの売上 [{ crop_name, month, amount }]
+--
+-- セキュリティ:
+-- - SECURITY INVOKER（既定）で実行するため、現在の農場の経費・売上だけが集計対象になる
+--
+-- 使用方法（アプリから）:
+-- await supabase.rpc('get_budget_actuals', { target_year: 2024 });
+
+CREATE OR REPLACE FUNCTION get_budget_actuals(target_year INTEGER)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'expenses', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'category_id', category_id,
+        'category', category,
+        'month', month,
+        'amount', amount
+      )), '[]'::jsonb)
+      FROM (
+        SELECT category_id, category, EXTRACT(MONTH FROM date)::INTEGER AS month, SUM(amount) AS amount
+        FROM expenses
+        WHERE date BETWEEN make_date(target_year, 1, 1) AND make_date(target_year, 12, 31)
+        GROUP BY 1, 2, 3
+      ) AS expense_months
+    ),
+    'sales', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'crop_name', crop_name,
+        'month', month,
+        'amount', amount
+      )), '[]'::jsonb)
+      FROM (
+        SELECT
+          COALESCE(NULLIF(crop_name, ''), '不明') AS crop_name,
+          EXTRACT(MONTH FROM date)::INTEGER AS month,
+          SUM(amount) AS amount
+        FROM sales
+        WHERE date BETWEEN make_date(target_year, 1, 1) AND make_date(target_year, 12, 31)
+        GROUP BY 1, 2
+      ) AS sale_months
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- 関数の実行権限をauthenticatedユーザーに付与
+GRANT EXECUTE ON FUNCTION get_budget_actuals(INTEGER) TO authenticated;
+
+-- =============================================================================
+-- ステップ4: RLS（行レベルセキュリティ）の設定
+-- =============================================================================
+--
+-- 経費・売上と同じく、農場のメンバーは閲覧でき、オーナー・経理担当は登録・編集できる
+
+ALTER TABLE expense_budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Farm members can view" ON expense_budgets;
+CREATE POLICY "Farm members can view" ON expense_budgets
+  FOR SELECT USING (farm_id = (SELECT current_farm_id()));
+
+DROP POLICY IF EXISTS "Farm editors can insert" ON expense_budgets;
+CREATE POLICY "Farm editors can insert" ON expense_budgets
+  FOR INSERT WITH CHECK (
+    farm_id = (SELECT current_farm_id())
+    AND user_id = auth.uid()
+    AND (SELECT can_edit_current_farm())
+  );
+
+DROP POLICY IF EXISTS "Farm editors can update" ON expense_budgets;
+CREATE POLICY "Farm editors can update" ON expense_budgets
+  FOR UPDATE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()))
+  WITH CHECK (farm_id = (SELECT current_farm_id()));
+
+DROP POLICY IF EXISTS "Farm editors can delete" ON expense_budgets;
+CREATE POLICY "Farm editors can delete" ON expense_budgets
+  FOR DELETE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()));
+
+ALTER TABLE sales_targets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Farm members can view" ON sales_targets;
+CREATE POLICY "Farm members can view" ON sales_targets
+  FOR SELECT USING (farm_id = (SELECT current_farm_id()));
+
+DROP POLICY IF EXISTS "Farm editors can insert" ON sales_targets;
+CREATE POLICY "Farm editors can insert" ON sales_targets
+  FOR INSERT WITH CHECK (
+    farm_id = (SELECT current_farm_id())
+    AND user_id = auth.uid()
+    AND (SELECT can_edit_current_farm())
+  );
+
+DROP POLICY IF EXISTS "Farm editors can update" ON sales_targets;
+CREATE POLICY "Farm editors can update" ON sales_targets
+  FOR UPDATE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()))
+  WITH CHECK (farm_id = (SELECT current_farm_id()));
+
+DROP POLICY IF EXISTS "Farm editors can delete" ON sales_targets;
+CREATE POLICY "Farm editors can delete" ON sales_targets
+  FOR DELETE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()));
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 設定画面で、勘定科目ごとの経費の予算と作物ごとの売上目標を月別に登録できるようになる
+-- 2. 分析画面に予算と実績の比較（差異・消化率・超過の警告）が表示される
+-- 3. AIアシスタントが予算を超えている科目についてコメントできるようになる
+--
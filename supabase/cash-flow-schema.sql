@@ -0,0 +1,193 @@
+-- =============================================================================
+-- AgriManagement 資金繰り見通し用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 春に資材費がかさみ、収穫期にまとめて入金される農業の資金繰りを、12か月先まで見通す
+-- - 前年同月の入出金・定期的な取引・入金予定の売上から、月ごとの残高を予測する
+-- - 残高が注意ラインを下回る月を、早めに分析画面で知らせる
+--
+-- 見通しの考え方（計算は lib/cashFlow.ts）:
+-- - 前年同月の実績（入金予定日のある売上は入金予定日の月）を、その月の季節的な入出金とみなす
+-- - 定期的な取引（recurring_rules）は、次の予定日以降の分を別に加える
+-- - 入金予定の売上（売掛金）は、前年同月の売上より多ければそちらを使う
+--
+-- 前提条件:
+-- - aggregation-schema.sql が実行済み
+-- - farm-workspace-schema.sql が実行済み（farms テーブルと current_farm_id 関数が存在する）
+-- - recurring-schema.sql が実行済み（expenses / sales.recurring_rule_id が存在する）
+-- - fixed-asset-schema.sql が実行済み（expenses.fixed_asset_id が存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: sales テーブルに入金予定日のカラムを追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - JAの精算や市場の締め日払いなど、出荷してから後で入金される売上の入金予定日
+-- - NULL の場合は売上の日付に入金されたものとみなす
+-- - 入金予定日が今日より後の売上は、資金繰りの見通しで「入金予定」として扱う
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS payment_due_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_sales_farm_payment_due_date
+  ON sales(farm_id, payment_due_date)
+  WHERE payment_due_date IS NOT NULL;
+
+-- =============================================================================
+-- ステップ2: farm_cash_flow_settings テーブル（農場ごとの資金繰りの設定）
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 残高は農場の預金・現金のため、メンバーごとではなく農場に1つだけ持つ
+--   （経理担当が入力した残高を、オーナーも同じ見通しで確認できる）
+--
+-- - cash_balance: 現在の預金・現金の残高（見通しの出発点。分析画面で入力する）
+-- - low_cash_threshold: これを下回ったら注意する残高（既定は0円）
+
+CREATE TABLE IF NOT EXISTS farm_cash_flow_settings (
+  farm_id UUID PRIMARY KEY REFERENCES farms(id) ON DELETE CASCADE,
+  -- 最後に保存したユーザー
+  updated_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  cash_balance INTEGER,
+  low_cash_threshold INTEGER NOT NULL DEFAULT 0 CHECK (low_cash_threshold >= 0),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_farm_cash_flow_settings_updated_at ON farm_cash_flow_settings;
+
+CREATE TRIGGER update_farm_cash_flow_settings_updated_at
+  BEFORE UPDATE ON farm_cash_flow_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 画面からの保存時は、現在の農場を自動で設定する（経費・売上と同じ）
+DROP TRIGGER IF EXISTS set_farm_cash_flow_settings_farm_id ON farm_cash_flow_settings;
+
+CREATE TRIGGER set_farm_cash_flow_settings_farm_id
+  BEFORE INSERT ON farm_cash_flow_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_farm_id_from_current_farm();
+
+-- 農場のメンバーは閲覧でき、オーナー・経理担当は保存できる
+ALTER TABLE farm_cash_flow_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Farm members can view" ON farm_cash_flow_settings;
+CREATE POLICY "Farm members can view" ON farm_cash_flow_settings
+  FOR SELECT USING (farm_id = (SELECT current_farm_id()));
+
+DROP POLICY IF EXISTS "Farm editors can insert" ON farm_cash_flow_settings;
+CREATE POLICY "Farm editors can insert" ON farm_cash_flow_settings
+  FOR INSERT WITH CHECK (
+    farm_id = (SELECT current_farm_id())
+    AND updated_by = auth.uid()
+    AND (SELECT can_edit_current_farm())
+  );
+
+DROP POLICY IF EXISTS "Farm editors can update" ON farm_cash_flow_settings;
+CREATE POLICY "Farm editors can update" ON farm_cash_flow_settings
+  FOR UPDATE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()))
+  WITH CHECK (farm_id = (SELECT current_farm_id()) AND updated_by = auth.uid());
+
+-- =============================================================================
+-- ステップ3: 月別の入出金の集計関数
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- 見通しの元になる月ごとの入金（売上）・出金（経費）を返す
+-- - 売上は入金予定日（なければ売上の日付）の月に集計する
+-- - 定期的な取引から作成した経費・売上は除く（ルールから別に見通すため）
+-- - 減価償却費は現金の支出ではないため除く
+--
+-- 引数:
+-- - range_start: 期間の開始日（この日を含む）
+-- - range_end: 期間の終了日（この日を含む）
+-- 戻り値 JSONB: [{ month_key, sales, expenses }]（取引がない月は含まない）
+--
+-- セキュリティ:
+-- - SECURITY INVOKER（既定）で実行するため、現在の農場の経費・売上だけが集計対象になる
+--
+-- 使用方法（アプリから）:
+-- await supabase.rpc('get_cash_flow_history', { range_start: '2023-10-01', range_end: '2024-10-15' });
+
+CREATE OR REPLACE FUNCTION get_cash_flow_history(range_start DATE, range_end DATE)
+RETURNS JSONB AS $$
+  WITH
+  cash_sales AS (
+    SELECT to_char(COALESCE(payment_due_date, date), 'YYYY-MM') AS month_key, SUM(amount) AS amount
+    FROM sales
+    WHERE COALESCE(payment_due_date, date) BETWEEN range_start AND range_end
+      AND recurring_rule_id IS NULL
+    GROUP BY 1
+  ),
+  cash_expenses AS (
+    SELECT to_char(date, 'YYYY-MM') AS month_key, SUM(amount) AS amount
+    FROM expenses
+    WHERE date BETWEEN range_start AND range_end
+      AND recurring_rule_id IS NULL
+      AND fixed_asset_id IS NULL
+    GROUP BY 1
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'month_key', month_key,
+    'sales', COALESCE(cash_sales.amount, 0),
+    'expenses', COALESCE(cash_expenses.amount, 0)
+  ) ORDER BY month_key), '[]'::jsonb)
+  FROM cash_sales
+  FULL OUTER JOIN cash_expenses USING (month_key);
+$$ LANGUAGE sql STABLE;
+
+-- 関数の実行権限をauthenticatedユーザーに付与
+GRANT EXECUTE ON FUNCTION get_cash_flow_history(DATE, DATE) TO authenticated;
+
+-- =============================================================================
+-- ステップ4: 月別の入金予定（売掛金）の集計関数
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- 入金予定日（なければ売上の日付）が指定日より後の売上を、入金される月ごとに合計する
+-- （売上の件数が多くても1回で集計できるよう、データベース側で合計する）
+--
+-- 引数:
+-- - after_date: この日より後に入金される売上が対象（通常は今日）
+-- 戻り値 JSONB: [{ month_key, amount }]（入金予定がない月は含まない）
+--
+-- セキュリティ:
+-- - SECURITY INVOKER（既定）で実行するため、現在の農場の売上だけが集計対象になる
+--
+-- 使用方法（アプリから）:
+-- await supabase.rpc('get_cash_flow_receivables', { after_date: '2024-10-15' });
+
+CREATE OR REPLACE FUNCTION get_cash_flow_receivables(after_date DATE)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'month_key', month_key,
+    'amount', amount
+  ) ORDER BY month_key), '[]'::jsonb)
+  FROM (
+    SELECT to_char(COALESCE(payment_due_date, date), 'YYYY-MM') AS month_key, SUM(amount) AS amount
+    FROM sales
+    WHERE COALESCE(payment_due_date, date) > after_date
+    GROUP BY 1
+  ) AS receivable_months;
+$$ LANGUAGE sql STABLE;
+
+-- 関数の実行権限をauthenticatedユーザーに付与
+GRANT EXECUTE ON FUNCTION get_cash_flow_receivables(DATE) TO authenticated;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 売上に入金予定日を登録できるようになる
+-- 2. 分析画面で現在の残高を入力すると、12か月先までの資金繰りの見通しが表示される
+-- 3. 残高が注意ラインを下回る月が警告される
+--
+-- アプリ側では lib/cashFlow.ts の fetchCashFlowForecastInputs() から集計関数を呼び出す
@@ -0,0 +1,111 @@
+-- =============================================================================
+-- AgriManagement 消費税（インボイス制度）対応用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 売上・経費ごとに消費税率（10% / 8% / 対象外）と消費税額を記録する
+-- - 経費に仕入先の適格請求書発行事業者の登録番号（T + 13桁）を記録する
+-- - 課税事業者の消費税申告（税率別の集計）と仕入税額控除の確認に使う
+--
+-- 金額の扱い:
+-- - amount は従来どおり税込金額。tax_amount は「うち消費税」の金額
+--
+-- 前提条件:
+-- - schema-with-auth.sql が実行済み（sales / expenses テーブルが存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: 税率・消費税額・登録番号のカラムを追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 売上の初期値は 8%（野菜・果物・米などの農産物は軽減税率の対象）
+-- - 経費の初期値は 10%（肥料・農薬・資材・燃料などは標準税率）
+-- - 地代・保険料・人件費など消費税のかからない取引は 0（対象外）
+-- - 登録番号は、インボイスのない仕入（免税事業者からの仕入など）では NULL
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS tax_rate SMALLINT NOT NULL DEFAULT 8,
+ADD COLUMN IF NOT EXISTS tax_amount INTEGER;
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS tax_rate SMALLINT NOT NULL DEFAULT 10,
+ADD COLUMN IF NOT EXISTS tax_amount INTEGER,
+ADD COLUMN IF NOT EXISTS invoice_registration_number TEXT;
+
+-- 税率と登録番号の形式をDB側でも検証する（再実行時のエラー防止のため一度削除）
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_tax_rate_check;
+ALTER TABLE sales
+ADD CONSTRAINT sales_tax_rate_check CHECK (tax_rate IN (0, 8, 10));
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_tax_rate_check;
+ALTER TABLE expenses
+ADD CONSTRAINT expenses_tax_rate_check CHECK (tax_rate IN (0, 8, 10));
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_invoice_registration_number_check;
+ALTER TABLE expenses
+ADD CONSTRAINT expenses_invoice_registration_number_check
+  CHECK (invoice_registration_number IS NULL OR invoice_registration_number ~ '^T[0-9]{13}$');
+
+-- =============================================================================
+-- ステップ2: 消費税額の自動計算
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - CSV取込やレシートの一括登録など、消費税額を指定せずに登録した場合でも
+--   税込金額と税率から「うち消費税」を計算して保存する（1円未満切り捨て）
+-- - 画面から消費税額を指定して登録した場合は、その金額をそのまま使う
+--
+-- 注意: 計算式は lib/consumptionTax.ts の calculateIncludedTax と一致させている
+
+CREATE OR REPLACE FUNCTION fill_consumption_tax_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- 消費税額が未指定の場合、または金額・税率だけが変更された場合に再計算する
+  IF NEW.tax_amount IS NULL
+     OR (TG_OP = 'UPDATE'
+         AND NEW.tax_amount IS NOT DISTINCT FROM OLD.tax_amount
+         AND (NEW.amount <> OLD.amount OR NEW.tax_rate <> OLD.tax_rate)) THEN
+    NEW.tax_amount := SIGN(NEW.amount) * FLOOR(ABS(NEW.amount) * NEW.tax_rate / (100 + NEW.tax_rate));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 既存のトリガーがあれば削除（再実行時のエラー防止）
+DROP TRIGGER IF EXISTS fill_sales_tax_amount ON sales;
+DROP TRIGGER IF EXISTS fill_expenses_tax_amount ON expenses;
+
+CREATE TRIGGER fill_sales_tax_amount
+  BEFORE INSERT OR UPDATE ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_consumption_tax_amount();
+
+CREATE TRIGGER fill_expenses_tax_amount
+  BEFORE INSERT OR UPDATE ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION fill_consumption_tax_amount();
+
+-- =============================================================================
+-- ステップ3: 既存データの消費税額を計算
+-- =============================================================================
+--
+-- 導入前に登録したデータは、初期の税率（売上 8% / 経費 10%）で計算する
+-- （トリガーにより tax_amount が NULL の行が再計算される）
+
+UPDATE sales SET tax_amount = NULL WHERE tax_amount IS NULL;
+UPDATE expenses SET tax_amount = NULL WHERE tax_amount IS NULL;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. sales / expenses テーブルに tax_rate・tax_amount カラムが追加される
+-- 2. expenses テーブルに invoice_registration_number カラムが追加される
+-- 3. 消費税額を指定せずに登録・更新した場合、自動で計算される
+-- 4. 既存データの消費税額が計算される
+--
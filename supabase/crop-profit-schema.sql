@@ -0,0 +1,160 @@
+-- =============================================================================
+-- AgriManagement 作物別損益用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 経費に作物を紐付け（任意）、作物ごとの直接費を集計できるようにする
+-- - 作物に紐付かない共通経費（燃料費・機械の修繕費など）を作物ごとに配賦し、
+--   「トマトとキュウリのどちらが本当に儲かっているか」を分析画面で確認できるようにする
+--
+-- 配賦の方法（user_profiles.crop_allocation_method）:
+-- - equal: 作物数で均等に配賦
+-- - area: 作付面積の比率で配賦（面積は crop_areas に登録）
+-- - sales: 売上の比率で配賦（既定）
+--
+-- 前提条件:
+-- - schema-with-auth.sql が実行済み（sales / expenses テーブルが存在する）
+-- - settings-schema.sql が実行済み（user_profiles テーブルが存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: expenses テーブルに crop_name カラムを追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - その作物のためだけに使った経費（トマトの苗、キュウリ用の支柱など）は作物名を入れる
+-- - 複数の作物で共通して使った経費は NULL のまま（共通経費として配賦する）
+-- - 作物名は売上の crop_name と同じ表記にする（一致した作物の直接費になる）
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS crop_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_user_crop ON expenses(user_id, crop_name);
+
+-- =============================================================================
+-- ステップ2: user_profiles テーブルに配賦方法のカラムを追加
+-- =============================================================================
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS crop_allocation_method TEXT NOT NULL DEFAULT 'sales'
+  CHECK (crop_allocation_method IN ('equal', 'area', 'sales'));
+
+-- =============================================================================
+-- ステップ3: crop_areas テーブル（作物ごとの作付面積）
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 面積比で共通経費を配賦するときに使う作付面積（アール単位）
+-- - 分析画面の作物別損益から作物ごとに入力する
+
+CREATE TABLE IF NOT EXISTS crop_areas (
+  -- 一意のID（自動生成）
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- どのユーザーの作付面積かを識別するID
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 作物名（売上・経費の crop_name と同じ表記）
+  crop_name TEXT NOT NULL,
+
+  -- 作付面積（アール）
+  area_are NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (area_are >= 0),
+
+  -- レコード作成日時・更新日時
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- 同じユーザーで同じ作物は1件のみ
+  UNIQUE (user_id, crop_name)
+);
+
+ALTER TABLE crop_areas ENABLE ROW LEVEL SECURITY;
+
+-- 各ユーザーは自分の作付面積のみ閲覧・登録・更新・削除可能
+CREATE POLICY "Users can view own crop areas" ON crop_areas
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own crop areas" ON crop_areas
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own crop areas" ON crop_areas
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own crop areas" ON crop_areas
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- updated_at の自動更新（settings-schema.sql の関数を再利用）
+DROP TRIGGER IF EXISTS update_crop_areas_updated_at ON crop_areas;
+CREATE TRIGGER update_crop_areas_updated_at
+  BEFORE UPDATE ON crop_areas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ステップ4: 作物別損益の集計関数
+-- =============================================================================
+--
+-- 引数: range_start, range_end（この期間の売上・経費を集計。両端を含む）
+--
+-- 戻り値 JSONB:
+-- - crops: 作物ごとの売上と直接費 [{ crop_name, revenue, direct_costs }]
+--   （売上のある作物と、作物を指定した経費のある作物の和集合）
+-- - shared_costs: 作物に紐付かない共通経費の合計
+--
+-- 共通経費の配賦はアプリ側（lib/cropProfitability.ts）で、配賦方法に応じて行う
+--
+-- セキュリティ:
+-- - SECURITY INVOKER（既定）で実行するため、自分の売上・経費だけが集計対象になる
+--
+-- 使用方法（アプリから）:
+-- await supabase.rpc('get_crop_profitability', { range_start: '2024-01-01', range_end: '2024-12-31' });
+
+CREATE OR REPLACE FUNCTION get_crop_profitability(range_start DATE, range_end DATE)
+RETURNS JSONB AS $$
+  WITH
+  crop_revenue AS (
+    SELECT COALESCE(NULLIF(crop_name, ''), '不明') AS crop_name, SUM(amount) AS amount
+    FROM sales
+    WHERE date BETWEEN range_start AND range_end
+    GROUP BY 1
+  ),
+  crop_direct_costs AS (
+    SELECT crop_name, SUM(amount) AS amount
+    FROM expenses
+    WHERE date BETWEEN range_start AND range_end
+      AND NULLIF(crop_name, '') IS NOT NULL
+    GROUP BY 1
+  )
+  SELECT jsonb_build_object(
+    'crops', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'crop_name', COALESCE(crop_revenue.crop_name, crop_direct_costs.crop_name),
+        'revenue', COALESCE(crop_revenue.amount, 0),
+        'direct_costs', COALESCE(crop_direct_costs.amount, 0)
+      ) ORDER BY COALESCE(crop_revenue.amount, 0) DESC), '[]'::jsonb)
+      FROM crop_revenue
+      FULL OUTER JOIN crop_direct_costs ON crop_direct_costs.crop_name = crop_revenue.crop_name
+    ),
+    'shared_costs', (
+      SELECT COALESCE(SUM(amount), 0)
+      FROM expenses
+      WHERE date BETWEEN range_start AND range_end
+        AND NULLIF(crop_name, '') IS NULL
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- 関数の実行権限をauthenticatedユーザーに付与
+GRANT EXECUTE ON FUNCTION get_crop_profitability(DATE, DATE) TO authenticated;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 経費に作物名を登録できるようになる
+-- 2. 作物ごとの作付面積と、共通経費の配賦方法を保存できるようになる
+-- 3. 分析画面に作物別損益（売上・直接費・配賦費・利益）が表示される
+--
@@ -0,0 +1,98 @@
+-- =============================================================================
+-- AgriManagement 支払い遅延（past_due）の猶予期間用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 支払いに失敗して past_due になった日時を記録し、猶予期間（lib/subscription.ts の
+--   PAST_DUE_GRACE_PERIOD_DAYS）を過ぎたら無料プランの上限で利用してもらえるようにする
+-- - 解約済み・解約予定で契約期間が終わったサブスクリプションを、無料プランに戻す処理を高速にする
+--
+-- 前提条件:
+-- - stripe-schema.sql が実行済み（subscriptions テーブルが存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: subscriptions テーブルに支払い遅延の開始日時を追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - past_due になった最初の日時（支払いの再試行に何度失敗しても変わらない）
+-- - 支払いが確認されて past_due 以外に戻ったら NULL に戻す
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS past_due_since TIMESTAMPTZ;
+
+-- =============================================================================
+-- ステップ2: past_due_since を自動で設定するトリガー
+-- =============================================================================
+--
+-- Webhookからの更新（支払い失敗・サブスクリプション更新）のどちらで past_due になっても
+-- 同じように記録できるよう、データベース側で設定する
+
+CREATE OR REPLACE FUNCTION set_subscription_past_due_since()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'past_due' THEN
+    -- 既に past_due の場合は最初の日時を引き継ぐ
+    IF TG_OP = 'UPDATE' AND OLD.status = 'past_due' THEN
+      NEW.past_due_since = COALESCE(OLD.past_due_since, NOW());
+    ELSE
+      NEW.past_due_since = COALESCE(NEW.past_due_since, NOW());
+    END IF;
+  ELSE
+    NEW.past_due_since = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- トリガーが既に存在する場合は削除してから作成
+DROP TRIGGER IF EXISTS set_subscriptions_past_due_since ON subscriptions;
+
+CREATE TRIGGER set_subscriptions_past_due_since
+  BEFORE INSERT OR UPDATE ON subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_subscription_past_due_since();
+
+-- 既に past_due のサブスクリプションは、このSQLの実行日時から猶予期間を数える
+UPDATE subscriptions
+SET past_due_since = NOW()
+WHERE status = 'past_due' AND past_due_since IS NULL;
+
+-- =============================================================================
+-- ステップ3: 契約期間が終わった解約済みサブスクリプションの検索用インデックス
+-- =============================================================================
+--
+-- /api/stripe/subscriptions/expire（定期実行）で、無料プランに戻す対象を探すために使用
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_status_period_end
+  ON subscriptions(status, current_period_end);
+
+-- =============================================================================
+-- ステップ4: 期間終了時の解約の予定を追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - Stripeの cancel_at_period_end（契約期間の終了時に解約する予定）を、Webhookの
+--   customer.subscription.updated で記録する
+-- - 期間終了時の customer.subscription.deleted が届かなかった場合も、
+--   定期実行で期間が終わった解約予定のサブスクリプションを無料プランに戻せるようにする
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS cancel_at_period_end BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_cancel_at_period_end
+  ON subscriptions(current_period_end)
+  WHERE cancel_at_period_end;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 支払い遅延になった日時が記録され、猶予期間を過ぎると無料プランの上限が適用される
+-- 2. ダッシュボードに支払い方法の更新を促すお知らせが表示される
+-- 3. 解約済み・解約予定で契約期間が終わったサブスクリプションを、定期実行で無料プランに戻せるようになる
+--
@@ -0,0 +1,806 @@
+-- =============================================================================
+-- AgriManagement 農場（ワークスペース）・メンバー・招待用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 夫婦で営む農場や、パートの経理担当者がいる農場で、1つのログインを共有せずに
+--   同じ帳簿（経費・売上・勘定科目・農場情報）を扱えるようにする
+-- - データの持ち主を「ユーザー」から「農場」に変更し、メンバーの役割で操作を制限する
+--   - owner（オーナー）: すべての操作、メンバーの招待・役割変更、プランの契約
+--   - bookkeeper（経理担当）: 経費・売上・勘定科目・農場情報の登録・編集
+--   - viewer（閲覧のみ）: 閲覧のみ
+-- - サブスクリプション（有料プラン）と使用回数を農場単位にする
+--
+-- 現在の農場:
+-- - ユーザーは複数の農場に所属でき、画面上部の切り替えで「現在の農場」を選ぶ
+-- - RLSは「現在の農場」のデータだけを返すため、アプリの検索条件は変更不要
+-- - 新規登録時のデータの farm_id は、トリガーで現在の農場が自動で設定される
+--
+-- 前提条件:
+-- - これまでのスキーマ（schema-with-auth.sql, settings-schema.sql, field-schema.sql,
+--   crop-profit-schema.sql, stripe-schema.sql, usage-metering-schema.sql,
+--   receipt-storage-schema.sql など）が実行済み
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: 農場・メンバー・招待のテーブル作成
+-- =============================================================================
+
+-- 農場（ワークスペース）
+CREATE TABLE IF NOT EXISTS farms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- 農場名（切り替えメニューに表示。帳票の農場名は user_profiles.farm_name を使う）
+  name TEXT NOT NULL,
+
+  -- 農場を作成したユーザー
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 農場のメンバー
+CREATE TABLE IF NOT EXISTS farm_members (
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 役割
+  role TEXT NOT NULL CHECK (role IN ('owner', 'bookkeeper', 'viewer')),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (farm_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_farm_members_user_id ON farm_members(user_id);
+
+-- 農場への招待（メールアドレス宛て）
+CREATE TABLE IF NOT EXISTS farm_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+
+  -- 招待するメールアドレス（小文字で保存）
+  email TEXT NOT NULL CHECK (email = LOWER(email)),
+
+  -- 参加後の役割
+  role TEXT NOT NULL CHECK (role IN ('owner', 'bookkeeper', 'viewer')),
+
+  -- 招待リンクに含めるトークン
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- 有効期限（7日間）
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+
+  -- 招待を受けた日時・ユーザー（未参加の場合は NULL）
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_farm_invitations_farm_id ON farm_invitations(farm_id);
+CREATE INDEX IF NOT EXISTS idx_farm_invitations_email ON farm_invitations(email);
+
+-- 招待メールの送信記録（招待APIの送信回数の制限に使う）
+-- 招待を取り消しても回数が戻らないよう、招待とは別に記録する
+CREATE TABLE IF NOT EXISTS farm_invitation_email_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  sent_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_farm_invitation_email_logs_sent_by
+  ON farm_invitation_email_logs(sent_by, sent_at);
+
+-- ユーザーごとの現在の農場（画面上部の切り替えで選んだ農場）
+CREATE TABLE IF NOT EXISTS user_active_farms (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_farms_updated_at ON farms;
+
+CREATE TRIGGER update_farms_updated_at
+  BEFORE UPDATE ON farms
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ステップ2: 現在の農場・役割を取得する関数
+-- =============================================================================
+--
+-- RLSポリシーから呼び出す（farm_members のRLSを経由せずに判定するため SECURITY DEFINER）
+-- 現在の農場が未選択、または選んだ農場から外された場合は、最初に参加した農場を現在の農場とする
+
+CREATE OR REPLACE FUNCTION current_farm_id()
+RETURNS UUID AS $$
+  SELECT m.farm_id
+  FROM farm_members m
+  LEFT JOIN user_active_farms a
+    ON a.user_id = m.user_id AND a.farm_id = m.farm_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY (a.farm_id IS NOT NULL) DESC, m.created_at, m.farm_id
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 現在の農場での役割（所属する農場がない場合は NULL）
+CREATE OR REPLACE FUNCTION current_farm_role()
+RETURNS TEXT AS $$
+  SELECT role FROM farm_members
+  WHERE farm_id = current_farm_id() AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 現在の農場のデータを登録・編集できるか（owner / bookkeeper）
+CREATE OR REPLACE FUNCTION can_edit_current_farm()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(current_farm_role() IN ('owner', 'bookkeeper'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 指定した農場での自分の役割（メンバーでない場合は NULL）
+CREATE OR REPLACE FUNCTION farm_role(target_farm_id UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM farm_members
+  WHERE farm_id = target_farm_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION current_farm_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION current_farm_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_current_farm() TO authenticated;
+GRANT EXECUTE ON FUNCTION farm_role(UUID) TO authenticated;
+
+-- =============================================================================
+-- ステップ3: 農場・招待を操作する関数
+-- =============================================================================
+
+-- 農場を作成し、作成したユーザーをオーナーにする（無料プランのサブスクリプションも作成）
+-- 戻り値: 作成した農場のID
+CREATE OR REPLACE FUNCTION create_farm_for_user(target_user_id UUID, farm_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_farm_id UUID;
+BEGIN
+  INSERT INTO farms (name, created_by)
+  VALUES (COALESCE(NULLIF(TRIM(farm_name), ''), 'マイ農場'), target_user_id)
+  RETURNING id INTO new_farm_id;
+
+  INSERT INTO farm_members (farm_id, user_id, role)
+  VALUES (new_farm_id, target_user_id, 'owner');
+
+  INSERT INTO subscriptions (user_id, farm_id, plan_type, status)
+  VALUES (target_user_id, new_farm_id, 'free', 'active');
+
+  RETURN new_farm_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_farm_for_user(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ログインユーザーが新しい農場を作成し、現在の農場に切り替える
+-- 農場ごとに無料プランの使用回数・無料体験があるため、1ユーザーが作成できる農場は
+-- 登録時に作成される農場を含めて3つまでにする
+CREATE OR REPLACE FUNCTION create_farm(farm_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_farm_id UUID;
+  max_farms_per_user CONSTANT INTEGER := 3;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'ログインが必要です';
+  END IF;
+
+  -- 同じユーザーが同時に作成して上限を超えないよう、ユーザー単位でロックする
+  PERFORM pg_advisory_xact_lock(hashtext('create_farm:' || auth.uid()::TEXT));
+
+  IF (SELECT COUNT(*) FROM farms WHERE created_by = auth.uid()) >= max_farms_per_user THEN
+    RAISE EXCEPTION '作成できる農場は%つまでです', max_farms_per_user;
+  END IF;
+
+  new_farm_id := create_farm_for_user(auth.uid(), farm_name);
+
+  INSERT INTO user_active_farms (user_id, farm_id)
+  VALUES (auth.uid(), new_farm_id)
+  ON CONFLICT (user_id) DO UPDATE SET farm_id = EXCLUDED.farm_id, updated_at = NOW();
+
+  RETURN new_farm_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_farm(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_farm(TEXT) TO authenticated;
+
+-- ログインユーザーが無料体験を利用したことがあるか
+-- 自分が作成した農場・自分が申し込んだサブスクリプションのどれかで無料体験を始めていれば true
+-- （農場を作り直して無料体験を繰り返し受けられないよう、無料体験はユーザー単位で判定する）
+CREATE OR REPLACE FUNCTION has_used_trial()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM subscriptions s
+    LEFT JOIN farms f ON f.id = s.farm_id
+    WHERE s.trial_used
+      AND (s.user_id = auth.uid() OR f.created_by = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION has_used_trial() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION has_used_trial() TO authenticated;
+
+-- 現在の農場を切り替える（所属している農場のみ）
+CREATE OR REPLACE FUNCTION switch_farm(target_farm_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF farm_role(target_farm_id) IS NULL THEN
+    RAISE EXCEPTION 'この農場のメンバーではありません';
+  END IF;
+
+  INSERT INTO user_active_farms (user_id, farm_id)
+  VALUES (auth.uid(), target_farm_id)
+  ON CONFLICT (user_id) DO UPDATE SET farm_id = EXCLUDED.farm_id, updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION switch_farm(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION switch_farm(UUID) TO authenticated;
+
+-- 招待を受けて農場に参加し、現在の農場に切り替える
+-- 招待されたメールアドレスでログインしている場合のみ参加できる
+-- 戻り値: 参加した農場のID
+CREATE OR REPLACE FUNCTION accept_farm_invitation(invitation_token UUID)
+RETURNS UUID AS $$
+DECLARE
+  invitation farm_invitations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'ログインが必要です';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM farm_invitations
+  WHERE token = invitation_token
+  FOR UPDATE;
+
+  IF NOT FOUND OR invitation.accepted_at IS NOT NULL OR invitation.expires_at < NOW() THEN
+    RAISE EXCEPTION '招待が見つからないか、有効期限が切れています';
+  END IF;
+
+  IF invitation.email <> LOWER(COALESCE(auth.jwt() ->> 'email', '')) THEN
+    RAISE EXCEPTION '招待されたメールアドレスでログインしてください';
+  END IF;
+
+  -- 既にメンバーの場合は役割を変えずに参加済みとする
+  INSERT INTO farm_members (farm_id, user_id, role)
+  VALUES (invitation.farm_id, auth.uid(), invitation.role)
+  ON CONFLICT (farm_id, user_id) DO NOTHING;
+
+  UPDATE farm_invitations
+  SET accepted_at = NOW(), accepted_by = auth.uid()
+  WHERE id = invitation.id;
+
+  INSERT INTO user_active_farms (user_id, farm_id)
+  VALUES (auth.uid(), invitation.farm_id)
+  ON CONFLICT (user_id) DO UPDATE SET farm_id = EXCLUDED.farm_id, updated_at = NOW();
+
+  RETURN invitation.farm_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION accept_farm_invitation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION accept_farm_invitation(UUID) TO authenticated;
+
+-- 現在の農場のメンバー一覧（メールアドレスは auth.users にあるため関数で取得する）
+CREATE OR REPLACE FUNCTION get_farm_members()
+RETURNS TABLE (user_id UUID, email TEXT, role TEXT, joined_at TIMESTAMPTZ) AS $$
+  SELECT m.user_id, u.email::TEXT, m.role, m.created_at
+  FROM farm_members m
+  JOIN auth.users u ON u.id = m.user_id
+  WHERE m.farm_id = current_farm_id()
+  ORDER BY m.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_farm_members() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_farm_members() TO authenticated;
+
+-- 自分宛ての未参加の招待一覧（招待元の農場はまだ閲覧できないため、農場名も関数で取得する）
+CREATE OR REPLACE FUNCTION get_my_farm_invitations()
+RETURNS TABLE (id UUID, farm_id UUID, farm_name TEXT, role TEXT, token UUID, expires_at TIMESTAMPTZ) AS $$
+  SELECT i.id, i.farm_id, f.name, i.role, i.token, i.expires_at
+  FROM farm_invitations i
+  JOIN farms f ON f.id = i.farm_id
+  WHERE i.email = LOWER(COALESCE(auth.jwt() ->> 'email', ''))
+    AND i.accepted_at IS NULL
+    AND i.expires_at > NOW()
+  ORDER BY i.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_my_farm_invitations() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_my_farm_invitations() TO authenticated;
+
+-- オーナーが1人もいない農場にならないようにする（最後のオーナーの削除・役割変更を禁止）
+CREATE OR REPLACE FUNCTION prevent_removing_last_farm_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND NOT EXISTS (
+      SELECT 1 FROM farm_members
+      WHERE farm_id = OLD.farm_id AND role = 'owner' AND user_id <> OLD.user_id
+    )
+    -- 農場ごと削除される場合は対象外
+    AND EXISTS (SELECT 1 FROM farms WHERE id = OLD.farm_id)
+  THEN
+    RAISE EXCEPTION '農場には少なくとも1人のオーナーが必要です';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_removing_last_farm_owner ON farm_members;
+
+CREATE TRIGGER prevent_removing_last_farm_owner
+  BEFORE UPDATE OR DELETE ON farm_members
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_removing_last_farm_owner();
+
+-- =============================================================================
+-- ステップ4: データのテーブルに farm_id を追加
+-- =============================================================================
+--
+-- user_id は「登録したユーザー」として残し、データの持ち主は farm_id で判断する
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS farm_id UUID REFERENCES farms(id) ON DELETE CASCADE;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS farm_id UUID REFERENCES farms(id) ON DELETE CASCADE;
+ALTER TABLE expense_categories ADD COLUMN IF NOT EXISTS farm_id UUID REFERENCES farms(id) ON DELETE CASCADE;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS farm_id UUID REFERENCES farms(id) ON DELETE CASCADE;
+ALTER TABLE fields ADD COLUMN IF NOT EXISTS farm_id UUID REFERENCES farms(id) ON DELETE CASCADE;
+ALTER TABLE plantings ADD COLUMN IF NOT EXISTS farm_id UUID REFERENCES farms(id) ON DELETE CASCADE;
+ALTER TABLE crop_areas ADD COLUMN IF NOT EXISTS farm_id UUID REFERENCES farms(id) ON DELETE CASCADE;
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS farm_id UUID REFERENCES farms(id) ON DELETE CASCADE;
+ALTER TABLE usage_tracking ADD COLUMN IF NOT EXISTS farm_id UUID REFERENCES farms(id) ON DELETE CASCADE;
+
+-- 登録時に farm_id が指定されていなければ、現在の農場を設定する
+CREATE OR REPLACE FUNCTION set_farm_id_from_current_farm()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.farm_id IS NULL THEN
+    NEW.farm_id := current_farm_id();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE
+  table_name TEXT;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY[
+    'expenses', 'sales', 'expense_categories', 'user_profiles',
+    'fields', 'plantings', 'crop_areas'
+  ]
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS set_%1$s_farm_id ON %1$I', table_name);
+    EXECUTE format(
+      'CREATE TRIGGER set_%1$s_farm_id BEFORE INSERT ON %1$I
+       FOR EACH ROW EXECUTE FUNCTION set_farm_id_from_current_farm()',
+      table_name
+    );
+  END LOOP;
+END;
+$$;
+
+-- =============================================================================
+-- ステップ5: 既存ユーザーのデータを農場に移行
+-- =============================================================================
+--
+-- まだ農場に所属していないユーザーごとに農場を1つ作成し（農場名は農場情報の農場名）、
+-- そのユーザーのデータとサブスクリプションをその農場のものにする
+
+DO $$
+DECLARE
+  target_user RECORD;
+  new_farm_id UUID;
+BEGIN
+  FOR target_user IN
+    SELECT u.id, p.farm_name
+    FROM auth.users u
+    LEFT JOIN user_profiles p ON p.user_id = u.id
+    WHERE NOT EXISTS (SELECT 1 FROM farm_members m WHERE m.user_id = u.id)
+  LOOP
+    INSERT INTO farms (name, created_by)
+    VALUES (COALESCE(NULLIF(TRIM(target_user.farm_name), ''), 'マイ農場'), target_user.id)
+    RETURNING id INTO new_farm_id;
+
+    INSERT INTO farm_members (farm_id, user_id, role)
+    VALUES (new_farm_id, target_user.id, 'owner');
+
+    UPDATE expenses SET farm_id = new_farm_id WHERE user_id = target_user.id AND farm_id IS NULL;
+    UPDATE sales SET farm_id = new_farm_id WHERE user_id = target_user.id AND farm_id IS NULL;
+    UPDATE expense_categories SET farm_id = new_farm_id WHERE user_id = target_user.id AND farm_id IS NULL;
+    UPDATE user_profiles SET farm_id = new_farm_id WHERE user_id = target_user.id AND farm_id IS NULL;
+    UPDATE fields SET farm_id = new_farm_id WHERE user_id = target_user.id AND farm_id IS NULL;
+    UPDATE plantings SET farm_id = new_farm_id WHERE user_id = target_user.id AND farm_id IS NULL;
+    UPDATE crop_areas SET farm_id = new_farm_id WHERE user_id = target_user.id AND farm_id IS NULL;
+    UPDATE subscriptions SET farm_id = new_farm_id WHERE user_id = target_user.id AND farm_id IS NULL;
+    UPDATE usage_tracking SET farm_id = new_farm_id WHERE user_id = target_user.id AND farm_id IS NULL;
+
+    -- サブスクリプションがないユーザーには無料プランを作成
+    INSERT INTO subscriptions (user_id, farm_id, plan_type, status)
+    SELECT target_user.id, new_farm_id, 'free', 'active'
+    WHERE NOT EXISTS (SELECT 1 FROM subscriptions WHERE farm_id = new_farm_id);
+  END LOOP;
+END;
+$$;
+
+-- 移行後は farm_id を必須にする
+ALTER TABLE expenses ALTER COLUMN farm_id SET NOT NULL;
+ALTER TABLE sales ALTER COLUMN farm_id SET NOT NULL;
+ALTER TABLE expense_categories ALTER COLUMN farm_id SET NOT NULL;
+ALTER TABLE user_profiles ALTER COLUMN farm_id SET NOT NULL;
+ALTER TABLE fields ALTER COLUMN farm_id SET NOT NULL;
+ALTER TABLE plantings ALTER COLUMN farm_id SET NOT NULL;
+ALTER TABLE crop_areas ALTER COLUMN farm_id SET NOT NULL;
+ALTER TABLE subscriptions ALTER COLUMN farm_id SET NOT NULL;
+ALTER TABLE usage_tracking ALTER COLUMN farm_id SET NOT NULL;
+
+-- =============================================================================
+-- ステップ6: 一意制約とインデックスを農場単位に変更
+-- =============================================================================
+
+-- 農場情報・サブスクリプション: 1農場につき1件
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_user_id_key;
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_farm_id_key;
+ALTER TABLE user_profiles ADD CONSTRAINT user_profiles_farm_id_key UNIQUE (farm_id);
+
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_user_id_key;
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_farm_id_key;
+ALTER TABLE subscriptions ADD CONSTRAINT subscriptions_farm_id_key UNIQUE (farm_id);
+
+-- 勘定科目名・圃場名・作物の面積・使用回数: 農場ごとに一意
+ALTER TABLE expense_categories DROP CONSTRAINT IF EXISTS expense_categories_user_id_name_key;
+ALTER TABLE expense_categories DROP CONSTRAINT IF EXISTS expense_categories_farm_id_name_key;
+ALTER TABLE expense_categories ADD CONSTRAINT expense_categories_farm_id_name_key UNIQUE (farm_id, name);
+
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_user_id_name_key;
+ALTER TABLE fields DROP CONSTRAINT IF EXISTS fields_farm_id_name_key;
+ALTER TABLE fields ADD CONSTRAINT fields_farm_id_name_key UNIQUE (farm_id, name);
+
+ALTER TABLE crop_areas DROP CONSTRAINT IF EXISTS crop_areas_user_id_crop_name_key;
+ALTER TABLE crop_areas DROP CONSTRAINT IF EXISTS crop_areas_farm_id_crop_name_key;
+ALTER TABLE crop_areas ADD CONSTRAINT crop_areas_farm_id_crop_name_key UNIQUE (farm_id, crop_name);
+
+ALTER TABLE usage_tracking DROP CONSTRAINT IF EXISTS usage_tracking_user_id_period_start_key;
+ALTER TABLE usage_tracking DROP CONSTRAINT IF EXISTS usage_tracking_farm_id_period_start_key;
+ALTER TABLE usage_tracking ADD CONSTRAINT usage_tracking_farm_id_period_start_key UNIQUE (farm_id, period_start);
+
+CREATE INDEX IF NOT EXISTS idx_expenses_farm_id_date ON expenses(farm_id, date);
+CREATE INDEX IF NOT EXISTS idx_sales_farm_id_date ON sales(farm_id, date);
+CREATE INDEX IF NOT EXISTS idx_expense_categories_farm_id ON expense_categories(farm_id, is_active, display_order);
+CREATE INDEX IF NOT EXISTS idx_plantings_farm_field ON plantings(farm_id, field_id);
+
+-- =============================================================================
+-- ステップ7: セキュリティ設定（RLSポリシー）
+-- =============================================================================
+--
+-- データのテーブル:
+-- - SELECT: 現在の農場のデータのみ（役割に関係なく閲覧可能）
+-- - INSERT / UPDATE / DELETE: 現在の農場のデータで、owner または bookkeeper のみ
+
+DO $$
+DECLARE
+  table_name TEXT;
+  old_policy RECORD;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY[
+    'expenses', 'sales', 'expense_categories', 'user_profiles',
+    'fields', 'plantings', 'crop_areas'
+  ]
+  LOOP
+    -- ユーザー単位の既存ポリシーを削除
+    FOR old_policy IN
+      SELECT policyname FROM pg_policies
+      WHERE schemaname = 'public' AND tablename = table_name
+    LOOP
+      EXECUTE format('DROP POLICY %I ON %I', old_policy.policyname, table_name);
+    END LOOP;
+
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', table_name);
+
+    EXECUTE format(
+      'CREATE POLICY "Farm members can view" ON %I
+       FOR SELECT USING (farm_id = (SELECT current_farm_id()))',
+      table_name
+    );
+    EXECUTE format(
+      'CREATE POLICY "Farm editors can insert" ON %I
+       FOR INSERT WITH CHECK (
+         farm_id = (SELECT current_farm_id())
+         AND user_id = auth.uid()
+         AND (SELECT can_edit_current_farm())
+       )',
+      table_name
+    );
+    EXECUTE format(
+      'CREATE POLICY "Farm editors can update" ON %I
+       FOR UPDATE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()))
+       WITH CHECK (farm_id = (SELECT current_farm_id()))',
+      table_name
+    );
+    EXECUTE format(
+      'CREATE POLICY "Farm editors can delete" ON %I
+       FOR DELETE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()))',
+      table_name
+    );
+  END LOOP;
+END;
+$$;
+
+-- subscriptions / usage_tracking: 現在の農場のものを閲覧のみ（更新は関数・Webhookから）
+DROP POLICY IF EXISTS "Users can view own subscription" ON subscriptions;
+DROP POLICY IF EXISTS "Users can insert own subscription" ON subscriptions;
+DROP POLICY IF EXISTS "Farm members can view subscription" ON subscriptions;
+CREATE POLICY "Farm members can view subscription" ON subscriptions
+  FOR SELECT USING (farm_id = (SELECT current_farm_id()));
+
+DROP POLICY IF EXISTS "Users can view own usage" ON usage_tracking;
+DROP POLICY IF EXISTS "Farm members can view usage" ON usage_tracking;
+CREATE POLICY "Farm members can view usage" ON usage_tracking
+  FOR SELECT USING (farm_id = (SELECT current_farm_id()));
+
+-- farms: 所属している農場を閲覧、オーナーは農場名を変更可能（作成は create_farm 関数から）
+ALTER TABLE farms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view farms" ON farms;
+CREATE POLICY "Members can view farms" ON farms
+  FOR SELECT USING (farm_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Owners can update farms" ON farms;
+CREATE POLICY "Owners can update farms" ON farms
+  FOR UPDATE USING (farm_role(id) = 'owner');
+
+-- farm_members: 自分の所属を閲覧、オーナーは役割の変更・メンバーの削除、メンバーは自分で退出可能
+ALTER TABLE farm_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own memberships" ON farm_members;
+CREATE POLICY "Users can view own memberships" ON farm_members
+  FOR SELECT USING (user_id = auth.uid() OR farm_role(farm_id) = 'owner');
+
+DROP POLICY IF EXISTS "Owners can update members" ON farm_members;
+-- 変更後の行も、自分がオーナーの農場の所属で、決められた役割のいずれかに限る
+CREATE POLICY "Owners can update members" ON farm_members
+  FOR UPDATE USING (farm_role(farm_id) = 'owner')
+  WITH CHECK (farm_role(farm_id) = 'owner' AND role IN ('owner', 'bookkeeper', 'viewer'));
+
+DROP POLICY IF EXISTS "Owners or self can delete members" ON farm_members;
+CREATE POLICY "Owners or self can delete members" ON farm_members
+  FOR DELETE USING (user_id = auth.uid() OR farm_role(farm_id) = 'owner');
+
+-- farm_invitations: オーナーは招待の作成・閲覧・取り消し、招待されたユーザーは自分宛ての招待を閲覧
+ALTER TABLE farm_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can manage invitations" ON farm_invitations;
+CREATE POLICY "Owners can manage invitations" ON farm_invitations
+  FOR ALL USING (farm_role(farm_id) = 'owner')
+  WITH CHECK (farm_role(farm_id) = 'owner' AND invited_by = auth.uid());
+
+DROP POLICY IF EXISTS "Invitees can view own invitations" ON farm_invitations;
+CREATE POLICY "Invitees can view own invitations" ON farm_invitations
+  FOR SELECT USING (email = LOWER(COALESCE(auth.jwt() ->> 'email', '')));
+
+-- farm_invitation_email_logs: 招待APIがservice_roleで記録・集計する（ユーザーは操作できない）
+ALTER TABLE farm_invitation_email_logs ENABLE ROW LEVEL SECURITY;
+
+-- user_active_farms: 自分の現在の農場を閲覧（変更は switch_farm 関数から）
+ALTER TABLE user_active_farms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own active farm" ON user_active_farms;
+CREATE POLICY "Users can view own active farm" ON user_active_farms
+  FOR SELECT USING (user_id = auth.uid());
+
+-- レシート画像: 現在の農場の経費に添付された画像は、メンバー全員が閲覧できる
+-- （保存は従来どおり自分のフォルダ。経費のRLSにより現在の農場の経費だけが対象になる）
+DROP POLICY IF EXISTS "Farm members can view receipts" ON storage.objects;
+CREATE POLICY "Farm members can view receipts" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'receipts'
+    AND EXISTS (SELECT 1 FROM public.expenses e WHERE e.receipt_path = name)
+  );
+
+-- 経理担当・オーナーは、現在の農場の経費に添付された画像を削除できる（経費の削除時）
+DROP POLICY IF EXISTS "Farm editors can delete receipts" ON storage.objects;
+CREATE POLICY "Farm editors can delete receipts" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'receipts'
+    AND public.can_edit_current_farm()
+    AND EXISTS (SELECT 1 FROM public.expenses e WHERE e.receipt_path = name)
+  );
+
+-- =============================================================================
+-- ステップ8: 使用回数の関数を農場単位に変更
+-- =============================================================================
+--
+-- 使用回数は農場ごとに数える（同じ農場のメンバーで上限を共有する）
+
+CREATE OR REPLACE FUNCTION reserve_usage(
+  target_period_start DATE,
+  usage_feature TEXT,
+  usage_limit INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  target_farm_id UUID := current_farm_id();
+  count_column TEXT := get_usage_count_column(usage_feature);
+  new_count INTEGER;
+BEGIN
+  IF current_user_id IS NULL OR target_farm_id IS NULL THEN
+    RAISE EXCEPTION 'ログインが必要です';
+  END IF;
+
+  -- その期間の使用量レコードがなければ作成（同時に作成されても1件になる）
+  INSERT INTO usage_tracking (user_id, farm_id, period_start)
+  VALUES (current_user_id, target_farm_id, target_period_start)
+  ON CONFLICT (farm_id, period_start) DO NOTHING;
+
+  -- 上限内の場合のみ1増やす
+  EXECUTE format(
+    'UPDATE usage_tracking SET %1$I = COALESCE(%1$I, 0) + 1
+     WHERE farm_id = $1 AND period_start = $2 AND ($3::INTEGER IS NULL OR COALESCE(%1$I, 0) < $3)
+     RETURNING %1$I',
+    count_column
+  )
+  INTO new_count
+  USING target_farm_id, target_period_start, usage_limit;
+
+  IF new_count IS NOT NULL THEN
+    RETURN jsonb_build_object('allowed', true, 'count', new_count);
+  END IF;
+
+  -- 上限に達していた場合は、現在の回数を返す
+  EXECUTE format(
+    'SELECT COALESCE(%1$I, 0) FROM usage_tracking WHERE farm_id = $1 AND period_start = $2',
+    count_column
+  )
+  INTO new_count
+  USING target_farm_id, target_period_start;
+
+  RETURN jsonb_build_object('allowed', false, 'count', new_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION increment_usage(target_period_start DATE, usage_feature TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  target_farm_id UUID := current_farm_id();
+  count_column TEXT := get_usage_count_column(usage_feature);
+  new_count INTEGER;
+BEGIN
+  IF current_user_id IS NULL OR target_farm_id IS NULL THEN
+    RAISE EXCEPTION 'ログインが必要です';
+  END IF;
+
+  EXECUTE format(
+    'INSERT INTO usage_tracking (user_id, farm_id, period_start, %1$I) VALUES ($1, $2, $3, 1)
+     ON CONFLICT (farm_id, period_start)
+     DO UPDATE SET %1$I = COALESCE(usage_tracking.%1$I, 0) + 1
+     RETURNING %1$I',
+    count_column
+  )
+  INTO new_count
+  USING current_user_id, target_farm_id, target_period_start;
+
+  RETURN new_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 返却はユーザー単位から農場単位に変更（引数が変わるため、以前の関数は削除）
+DROP FUNCTION IF EXISTS refund_usage(UUID, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION refund_farm_usage(
+  target_farm_id UUID,
+  target_period_start DATE,
+  usage_feature TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  count_column TEXT := get_usage_count_column(usage_feature);
+  new_count INTEGER;
+BEGIN
+  EXECUTE format(
+    'UPDATE usage_tracking SET %1$I = GREATEST(COALESCE(%1$I, 0) - 1, 0)
+     WHERE farm_id = $1 AND period_start = $2
+     RETURNING %1$I',
+    count_column
+  )
+  INTO new_count
+  USING target_farm_id, target_period_start;
+
+  RETURN COALESCE(new_count, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refund_farm_usage(UUID, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refund_farm_usage(UUID, DATE, TEXT) TO service_role;
+
+-- =============================================================================
+-- ステップ9: デフォルト勘定科目の投入を現在の農場に変更
+-- =============================================================================
+--
+-- 引数 target_user_id は「登録したユーザー」として記録する（ログインユーザー本人のみ指定可能）
+
+CREATE OR REPLACE FUNCTION insert_default_expense_categories(target_user_id UUID)
+RETURNS void AS $$
+DECLARE
+  fixed_categories TEXT[] := ARRAY[
+    '販管費', '種苗費', '肥料費', '農薬費', '諸材料費',
+    '労務費', '雑給', '法定福利費', '作業衣服費', '臨時賞与',
+    '作業委託費', '貸借料', '農地賃借料', '共済仕掛け金', '修繕費',
+    '動力光熱費', '消耗品', '車両費', '燃料費', '保険費',
+    '機械等経費', '機械等減価償却費', '雑費', '租税公課', '土地改良費',
+    '旅費交通費', '病院費', '広告宣伝費', '支払い手数料'
+  ];
+  variable_categories TEXT[] := ARRAY[
+    '荷造運賃', '梱包資材費'
+  ];
+  target_farm_id UUID := current_farm_id();
+  category_name TEXT;
+  order_num INTEGER := 1;
+BEGIN
+  IF target_user_id IS DISTINCT FROM auth.uid() OR NOT can_edit_current_farm() THEN
+    RAISE EXCEPTION '勘定科目を初期化する権限がありません';
+  END IF;
+
+  -- 既存の勘定科目を削除（初期リセット用）
+  DELETE FROM expense_categories WHERE farm_id = target_farm_id;
+
+  FOREACH category_name IN ARRAY fixed_categories
+  LOOP
+    INSERT INTO expense_categories (user_id, farm_id, name, category_type, display_order, is_active)
+    VALUES (target_user_id, target_farm_id, category_name, 'fixed', order_num, true);
+    order_num := order_num + 1;
+  END LOOP;
+
+  FOREACH category_name IN ARRAY variable_categories
+  LOOP
+    INSERT INTO expense_categories (user_id, farm_id, name, category_type, display_order, is_active)
+    VALUES (target_user_id, target_farm_id, category_name, 'variable', order_num, true);
+    order_num := order_num + 1;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- ステップ10: 新規ユーザー登録時に農場を作成
+-- =============================================================================
+--
+-- 新規ユーザーには自分がオーナーの農場（無料プラン）を1つ作成する
+-- （招待から登録したユーザーも、招待を受けた後は招待元の農場に切り替わる）
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_subscription()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.create_farm_for_user(NEW.id, 'マイ農場');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 既存ユーザーごとに農場が作成され、これまでのデータがその農場のものになる
+-- 2. 農場にメンバーを招待し、役割（オーナー・経理担当・閲覧のみ）ごとに操作を制限できる
+-- 3. 画面上部で農場を切り替えると、その農場のデータだけが表示される
+-- 4. サブスクリプション（有料プラン）と使用回数が農場単位になる
+--
@@ -0,0 +1,215 @@
+-- =============================================================================
+-- AgriManagement 圃場・作付け管理用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 圃場（田んぼ・畑・ハウス）を面積つきで登録できるようにする
+-- - 圃場ごとに「いつからいつまで何を作付けしたか」（作付け）を登録できるようにする
+-- - 売上・経費を作付けに紐付け、10アール当たりの収量・売上・経費を分析画面で確認できるようにする
+--
+-- 前提条件:
+-- - schema-with-auth.sql が実行済み（sales / expenses テーブルが存在する）
+-- - settings-schema.sql が実行済み（update_updated_at_column 関数が存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: fields テーブル（圃場）
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 農家が管理する圃場の一覧（設定画面の「圃場管理」から登録する）
+-- - 面積はアール単位（1a = 100㎡、10a = 1反）
+
+CREATE TABLE IF NOT EXISTS fields (
+  -- 一意のID（自動生成）
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- どのユーザーの圃場かを識別するID
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 圃場名（例：第1ハウス、川沿いの田んぼ）
+  name TEXT NOT NULL,
+
+  -- 面積（アール）
+  area_are NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (area_are >= 0),
+
+  -- 所在地のメモ（地番、目印など）
+  location_note TEXT,
+
+  -- 表示順序（並び替え用）
+  display_order INTEGER NOT NULL DEFAULT 0,
+
+  -- レコード作成日時・更新日時
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- 同じユーザーで同じ圃場名は1件のみ
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE fields ENABLE ROW LEVEL SECURITY;
+
+-- 各ユーザーは自分の圃場のみ閲覧・登録・更新・削除可能
+CREATE POLICY "Users can view own fields" ON fields
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own fields" ON fields
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own fields" ON fields
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own fields" ON fields
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- updated_at の自動更新（settings-schema.sql の関数を再利用）
+DROP TRIGGER IF EXISTS update_fields_updated_at ON fields;
+CREATE TRIGGER update_fields_updated_at
+  BEFORE UPDATE ON fields
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ステップ2: plantings テーブル（作付け）
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 圃場ごとの作付けの記録（例：第1ハウスで 2024-09-01〜2025-06-30 にトマト）
+-- - 同じ圃場でも作期ごとに別の作付けとして登録する（裏作・二期作など）
+-- - 作付け期間の終了日は未定でもよい（栽培中）
+-- - 圃場を削除すると、その圃場の作付けも削除される
+
+CREATE TABLE IF NOT EXISTS plantings (
+  -- 一意のID（自動生成）
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- どのユーザーの作付けかを識別するID
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 作付けした圃場
+  field_id UUID NOT NULL REFERENCES fields(id) ON DELETE CASCADE,
+
+  -- 作物名（売上・経費の crop_name と同じ表記）
+  crop_name TEXT NOT NULL,
+
+  -- 作期の開始日・終了日（終了日は栽培中なら NULL）
+  season_start DATE NOT NULL,
+  season_end DATE,
+
+  -- レコード作成日時・更新日時
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CHECK (season_end IS NULL OR season_end >= season_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plantings_user_field ON plantings(user_id, field_id);
+
+ALTER TABLE plantings ENABLE ROW LEVEL SECURITY;
+
+-- 各ユーザーは自分の作付けのみ閲覧・登録・更新・削除可能
+CREATE POLICY "Users can view own plantings" ON plantings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own plantings" ON plantings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own plantings" ON plantings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own plantings" ON plantings
+  FOR DELETE USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_plantings_updated_at ON plantings;
+CREATE TRIGGER update_plantings_updated_at
+  BEFORE UPDATE ON plantings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ステップ3: sales / expenses テーブルに planting_id カラムを追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - どの作付けの売上・経費かを記録する（任意）
+-- - 作付けを削除しても売上・経費は残し、紐付けだけを外す
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS planting_id UUID REFERENCES plantings(id) ON DELETE SET NULL;
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS planting_id UUID REFERENCES plantings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sales_planting ON sales(planting_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_planting ON expenses(planting_id);
+
+-- =============================================================================
+-- ステップ4: 作付けごとの収量・売上・経費の集計関数
+-- =============================================================================
+--
+-- 引数: range_start, range_end（この期間の売上・経費を集計。両端を含む）
+--
+-- 戻り値 JSONB（配列。作付けごとに1件）:
+-- [{ planting_id, field_name, area_are, crop_name, season_start, season_end,
+--    revenue, yield_quantity, costs }]
+-- - 期間内に紐付けた売上・経費がある作付けのみ返す
+-- - yield_quantity は売上の数量（quantity）の合計
+--
+-- 10アール当たりの換算はアプリ側（lib/fieldMetrics.ts）で行う
+--
+-- セキュリティ:
+-- - SECURITY INVOKER（既定）で実行するため、自分の作付け・売上・経費だけが集計対象になる
+--
+-- 使用方法（アプリから）:
+-- await supabase.rpc('get_planting_metrics', { range_start: '2024-01-01', range_end: '2024-12-31' });
+
+CREATE OR REPLACE FUNCTION get_planting_metrics(range_start DATE, range_end DATE)
+RETURNS JSONB AS $$
+  WITH
+  planting_sales AS (
+    SELECT planting_id, SUM(amount) AS revenue, SUM(COALESCE(quantity, 0)) AS yield_quantity
+    FROM sales
+    WHERE date BETWEEN range_start AND range_end
+      AND planting_id IS NOT NULL
+    GROUP BY planting_id
+  ),
+  planting_costs AS (
+    SELECT planting_id, SUM(amount) AS costs
+    FROM expenses
+    WHERE date BETWEEN range_start AND range_end
+      AND planting_id IS NOT NULL
+    GROUP BY planting_id
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'planting_id', plantings.id,
+    'field_name', fields.name,
+    'area_are', fields.area_are,
+    'crop_name', plantings.crop_name,
+    'season_start', plantings.season_start,
+    'season_end', plantings.season_end,
+    'revenue', COALESCE(planting_sales.revenue, 0),
+    'yield_quantity', COALESCE(planting_sales.yield_quantity, 0),
+    'costs', COALESCE(planting_costs.costs, 0)
+  ) ORDER BY fields.display_order, fields.name, plantings.season_start), '[]'::jsonb)
+  FROM plantings
+  JOIN fields ON fields.id = plantings.field_id
+  LEFT JOIN planting_sales ON planting_sales.planting_id = plantings.id
+  LEFT JOIN planting_costs ON planting_costs.planting_id = plantings.id
+  WHERE planting_sales.planting_id IS NOT NULL
+     OR planting_costs.planting_id IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+-- 関数の実行権限をauthenticatedユーザーに付与
+GRANT EXECUTE ON FUNCTION get_planting_metrics(DATE, DATE) TO authenticated;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 設定画面から圃場（面積・所在地メモ）と作付け（作物・作期）を登録できるようになる
+-- 2. 売上・経費の登録時に作付けを選べるようになる
+-- 3. 分析画面に作付けごとの10アール当たり収量・売上・経費が表示される
+--
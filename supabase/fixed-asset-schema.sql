@@ -0,0 +1,148 @@
+-- =============================================================================
+-- AgriManagement 固定資産台帳（減価償却）用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - トラクター・ビニールハウス・防除機などの固定資産を台帳に登録する
+--   （取得日・取得価額・耐用年数・償却方法）
+-- - 毎年の減価償却費を自動で計算し、「機械等減価償却費」などの経費として自動で作成する
+-- - 青色申告決算書の「減価償却費の計算」欄の作成に使う
+--
+-- 計算と作成のタイミング:
+-- - 償却費の計算（定額法・定率法、月割）は lib/depreciation.ts で行う
+-- - 資産の登録・変更時と、ログイン後のダッシュボード表示時に、
+--   その日までの償却費の経費を作成・修正する
+--
+-- 前提条件:
+-- - farm-workspace-schema.sql が実行済み（farms テーブルと current_farm_id 関数が存在する）
+-- - expense-category-link-schema.sql が実行済み（expenses.category_id が存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: fixed_assets テーブルを作成
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 1行が1つの固定資産（例: トラクター 3,300,000円 2024年4月取得 耐用年数7年 定額法）
+-- - 事業専用割合は、家事でも使う資産（軽トラックなど）の必要経費にする割合
+-- - entries_start_date より前の償却費は経費を作成しない
+--   （アプリを使い始める前の年の償却費を、手入力した経費と二重に計上しないため）
+
+CREATE TABLE IF NOT EXISTS fixed_assets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  -- 登録したユーザー
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 資産の名称（例: トラクター（○○ 25馬力））
+  name TEXT NOT NULL,
+  -- 面積又は数量（例: 1台、200㎡）
+  quantity TEXT,
+  -- 取得日（事業に使い始めた日）
+  acquisition_date DATE NOT NULL,
+  -- 取得価額（円）
+  acquisition_cost INTEGER NOT NULL CHECK (acquisition_cost > 0),
+  -- 法定耐用年数
+  useful_life SMALLINT NOT NULL CHECK (useful_life BETWEEN 2 AND 50),
+  -- 償却方法: 定額法（straight_line）/ 定率法（declining_balance）
+  method TEXT NOT NULL DEFAULT 'straight_line'
+    CHECK (method IN ('straight_line', 'declining_balance')),
+  -- 事業専用割合（%）
+  business_use_ratio SMALLINT NOT NULL DEFAULT 100 CHECK (business_use_ratio BETWEEN 1 AND 100),
+  -- 除却・売却した日（この月まで償却する。使用中は NULL）
+  disposal_date DATE,
+
+  -- 作成する経費: 毎月（monthly）/ 毎年12月31日にまとめて（annual）
+  entry_frequency TEXT NOT NULL DEFAULT 'annual'
+    CHECK (entry_frequency IN ('monthly', 'annual')),
+  -- 作成する経費の勘定科目（通常は「機械等減価償却費」）
+  category_id UUID REFERENCES expense_categories(id) ON DELETE SET NULL,
+  -- この日以降の償却費の経費を作成する
+  entries_start_date DATE NOT NULL,
+
+  -- 摘要（例: 中古、補助金で圧縮記帳）
+  note TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT fixed_assets_declining_life_check CHECK (
+    method = 'straight_line' OR useful_life <= 20
+  ),
+  CONSTRAINT fixed_assets_disposal_check CHECK (
+    disposal_date IS NULL OR disposal_date >= acquisition_date
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_fixed_assets_farm_id ON fixed_assets(farm_id);
+
+DROP TRIGGER IF EXISTS update_fixed_assets_updated_at ON fixed_assets;
+
+CREATE TRIGGER update_fixed_assets_updated_at
+  BEFORE UPDATE ON fixed_assets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 画面からの登録時は、現在の農場を自動で設定する（経費・売上と同じ）
+DROP TRIGGER IF EXISTS set_fixed_assets_farm_id ON fixed_assets;
+
+CREATE TRIGGER set_fixed_assets_farm_id
+  BEFORE INSERT ON fixed_assets
+  FOR EACH ROW
+  EXECUTE FUNCTION set_farm_id_from_current_farm();
+
+-- =============================================================================
+-- ステップ2: expenses テーブルに固定資産との紐付けを追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - fixed_asset_id: どの固定資産の償却費として作成したか（手入力の経費は NULL）
+-- - 資産を台帳から削除した場合は、作成した償却費の経費も削除する
+-- - 同じ資産・同じ日付の償却費は1つだけ（複数の端末で同時に作成しても重複しない）
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS fixed_asset_id UUID REFERENCES fixed_assets(id) ON DELETE CASCADE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_fixed_asset_date
+  ON expenses(fixed_asset_id, date);
+
+-- =============================================================================
+-- ステップ3: RLS（行レベルセキュリティ）の設定
+-- =============================================================================
+--
+-- 経費・売上と同じく、農場のメンバーは閲覧でき、オーナー・経理担当は登録・編集できる
+
+ALTER TABLE fixed_assets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Farm members can view" ON fixed_assets;
+CREATE POLICY "Farm members can view" ON fixed_assets
+  FOR SELECT USING (farm_id = (SELECT current_farm_id()));
+
+DROP POLICY IF EXISTS "Farm editors can insert" ON fixed_assets;
+CREATE POLICY "Farm editors can insert" ON fixed_assets
+  FOR INSERT WITH CHECK (
+    farm_id = (SELECT current_farm_id())
+    AND user_id = auth.uid()
+    AND (SELECT can_edit_current_farm())
+  );
+
+DROP POLICY IF EXISTS "Farm editors can update" ON fixed_assets;
+CREATE POLICY "Farm editors can update" ON fixed_assets
+  FOR UPDATE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()))
+  WITH CHECK (farm_id = (SELECT current_farm_id()));
+
+DROP POLICY IF EXISTS "Farm editors can delete" ON fixed_assets;
+CREATE POLICY "Farm editors can delete" ON fixed_assets
+  FOR DELETE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()));
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 設定画面の「固定資産台帳」で、トラクター・ハウスなどの固定資産を登録できるようになる
+-- 2. 減価償却費が、毎月または毎年12月31日付けの経費として自動で作成される
+-- 3. 青色申告決算書に「減価償却費の計算」欄が表示・出力されるようになる
+--
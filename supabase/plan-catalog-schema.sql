@@ -0,0 +1,34 @@
+-- =============================================================================
+-- AgriManagement プランカタログ移行用スキーマ変更
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - プランの種類をアプリのプランカタログ（lib/plans.ts）だけで管理できるようにする
+-- - subscriptions.plan_type の CHECK 制約がプラン一覧を重複して持っていたため削除し、
+--   プランの追加時にマイグレーションを不要にする
+--
+-- 前提条件:
+-- - stripe-schema.sql が実行済み（subscriptions テーブルが存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: plan_type の CHECK 制約を削除
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 値の検証はアプリ側で行う（Webhookは Price ID からカタログのプランに変換して保存する）
+-- - カタログにない値を読み込んだ場合、アプリは無料プランとして扱う
+
+ALTER TABLE subscriptions
+DROP CONSTRAINT IF EXISTS subscriptions_plan_type_check;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. lib/plans.ts にプランを追加するだけで、新しいプランを保存できるようになる
+-- 2. プランの上限・価格・機能の変更はアプリのデプロイのみで反映される
+--
@@ -0,0 +1,43 @@
+-- =============================================================================
+-- AgriManagement プラン変更（アップグレード・ダウングレード）用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 契約期間の終了時に予定しているプラン変更（ダウングレード）を記録し、
+--   設定画面に「○月○日に○○プランに変更されます」と表示できるようにする
+--
+-- プラン変更の流れ（/api/stripe/plan-change）:
+-- 1. アップグレード: Stripeのサブスクリプションを即時に変更し、差額を日割りで請求する
+-- 2. ダウングレード: Stripeのサブスクリプションスケジュールで、契約期間の終了時に変更する
+-- 3. どちらも Webhook（customer.subscription.updated / subscription_schedule.*）で
+--    subscriptions テーブルに反映する
+--
+-- 前提条件:
+-- - stripe-schema.sql が実行済み（subscriptions テーブルが存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: subscriptions テーブルに予定しているプラン変更を追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - scheduled_plan_type: 変更予定のプラン（予定がない場合は NULL）
+-- - scheduled_change_at: プランが切り替わる日時（通常は現在の契約期間の終了日時）
+-- - 更新は Webhook（service_role）からのみ行う
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS scheduled_plan_type TEXT;
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS scheduled_change_at TIMESTAMPTZ;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 契約期間の終了時に予定しているダウングレードが記録されるようになる
+-- 2. 設定画面で、プランが切り替わる日と変更先のプランが表示されるようになる
+--
@@ -0,0 +1,65 @@
+-- =============================================================================
+-- AgriManagement レシート画像（証憑）保存用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - OCRで読み取ったレシート画像を Supabase Storage に保存し、経費と紐付ける
+-- - 電子帳簿保存法（スキャナ保存）に沿って、経費の証憑を画像として残す
+--
+-- 前提条件:
+-- - schema-with-auth.sql が実行済み（expenses テーブルが存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: expenses テーブルに receipt_path カラムを追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - この経費の証憑となるレシート画像の保存場所（receipts バケット内のパス）
+-- - 例: 「<ユーザーID>/2024/xxxxxxxx.jpg」
+-- - 手入力やCSV取込で登録した経費は NULL
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS receipt_path TEXT;
+
+-- =============================================================================
+-- ステップ2: レシート画像用のストレージバケットを作成
+-- =============================================================================
+--
+-- - 非公開バケット（画像の表示には有効期限付きの署名付きURLを使う）
+-- - 1ファイル5MBまで、画像ファイルのみ
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('receipts', 'receipts', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- =============================================================================
+-- ステップ3: ストレージのRLSポリシー
+-- =============================================================================
+--
+-- ユーザーごとのフォルダ（パスの先頭 = ユーザーID）にのみアクセスできる
+-- → 他のユーザーのレシート画像は閲覧・削除できない
+
+-- SELECT（閲覧）: 自分のフォルダの画像のみ
+CREATE POLICY "Users can view own receipts" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'receipts'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- INSERT（保存）: 自分のフォルダにのみ保存可能
+CREATE POLICY "Users can upload own receipts" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'receipts'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- DELETE（削除）: 自分のフォルダの画像のみ（経費の削除時に使用）
+CREATE POLICY "Users can delete own receipts" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'receipts'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
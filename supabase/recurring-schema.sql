@@ -0,0 +1,381 @@
+-- =============================================================================
+-- AgriManagement 定期的な取引（繰り返し登録）用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 農地賃借料・保険料・共済掛金・リース料など、毎月・毎年決まって発生する取引を
+--   「定期的な取引」として登録し、予定日に経費・売上を自動で作成する
+-- - 自動で作成した経費・売上は「確認待ち」として記録し、内容を確認してから確定する
+--   （その月だけ発生しなかった取引は、確認時にスキップ＝削除できる）
+--
+-- 作成のタイミング:
+-- - 定期実行（/api/recurring/materialize）で、すべての農場の予定日を過ぎた取引を作成する
+-- - ログイン後のダッシュボード表示時にも、現在の農場の分を追いつき作成する
+--   （定期実行を設定していない環境でも、ログインすれば作成される）
+--
+-- 前提条件:
+-- - farm-workspace-schema.sql が実行済み（farms テーブルと current_farm_id 関数が存在する）
+-- - consumption-tax-schema.sql が実行済み（tax_rate カラムと消費税額の自動計算が存在する）
+-- - expense-category-link-schema.sql が実行済み（expenses.category_id が存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: recurring_rules テーブルを作成
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 1行が1つの定期的な取引（例: 毎月25日に農地賃借料 30,000円）
+-- - kind で経費（expense）か売上（sale）かを区別し、作成する行の内容をテンプレートとして持つ
+-- - next_run_date は次に作成する予定日（トリガーと作成処理が自動で進める）
+
+CREATE TABLE IF NOT EXISTS recurring_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  farm_id UUID NOT NULL REFERENCES farms(id) ON DELETE CASCADE,
+  -- 登録したユーザー（作成する経費・売上の登録者になる）
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- 経費（expense）か売上（sale）か
+  kind TEXT NOT NULL CHECK (kind IN ('expense', 'sale')),
+  -- 管理用の名前（例: 農地賃借料（○○さん））
+  name TEXT NOT NULL,
+
+  -- 繰り返し: 毎月（monthly）/ 毎年（yearly）
+  frequency TEXT NOT NULL CHECK (frequency IN ('monthly', 'yearly')),
+  -- 予定日（1〜31。月末より後の日は、その月の末日にする）
+  day_of_month SMALLINT NOT NULL CHECK (day_of_month BETWEEN 1 AND 31),
+  -- 毎年の場合の月（1〜12。毎月の場合は NULL）
+  month_of_year SMALLINT CHECK (month_of_year BETWEEN 1 AND 12),
+  -- 開始日・終了日（終了日が NULL の場合は無期限）
+  start_date DATE NOT NULL,
+  end_date DATE,
+  -- 次に作成する予定日
+  next_run_date DATE NOT NULL,
+  -- 一時停止中は作成しない
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+  -- 作成する経費・売上のテンプレート（共通）
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  tax_rate SMALLINT NOT NULL CHECK (tax_rate IN (0, 8, 10)),
+  description TEXT,
+  -- 経費のみ: 勘定科目と仕入先の登録番号
+  category TEXT,
+  category_id UUID REFERENCES expense_categories(id) ON DELETE SET NULL,
+  invoice_registration_number TEXT
+    CHECK (invoice_registration_number IS NULL OR invoice_registration_number ~ '^T[0-9]{13}$'),
+  -- 売上のみ: 作物名と出荷先
+  crop_name TEXT,
+  customer TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT recurring_rules_month_check CHECK (
+    (frequency = 'yearly') = (month_of_year IS NOT NULL)
+  ),
+  CONSTRAINT recurring_rules_period_check CHECK (
+    end_date IS NULL OR end_date >= start_date
+  ),
+  CONSTRAINT recurring_rules_template_check CHECK (
+    (kind = 'expense' AND category IS NOT NULL)
+    OR (kind = 'sale' AND crop_name IS NOT NULL AND customer IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_rules_farm_id ON recurring_rules(farm_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_rules_next_run_date
+  ON recurring_rules(next_run_date) WHERE is_active;
+
+DROP TRIGGER IF EXISTS update_recurring_rules_updated_at ON recurring_rules;
+
+CREATE TRIGGER update_recurring_rules_updated_at
+  BEFORE UPDATE ON recurring_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 画面からの登録時は、現在の農場を自動で設定する（経費・売上と同じ）
+DROP TRIGGER IF EXISTS set_recurring_rules_farm_id ON recurring_rules;
+
+CREATE TRIGGER set_recurring_rules_farm_id
+  BEFORE INSERT ON recurring_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION set_farm_id_from_current_farm();
+
+-- =============================================================================
+-- ステップ2: expenses / sales テーブルに定期的な取引との紐付けを追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - recurring_rule_id: どの定期的な取引から作成したか（ルールを削除しても経費・売上は残す）
+-- - recurring_status: 自動で作成した行の確認状況
+--   - pending（確認待ち）: 自動で作成した直後。ダッシュボードで確認・スキップできる
+--   - confirmed（確認済み）: 内容を確認して確定した
+--   - 手入力の経費・売上は NULL
+-- - 同じルール・同じ日付の行は1つだけ（定期実行とログイン時の作成が重なっても重複しない）
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS recurring_rule_id UUID REFERENCES recurring_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS recurring_status TEXT;
+
+ALTER TABLE sales
+ADD COLUMN IF NOT EXISTS recurring_rule_id UUID REFERENCES recurring_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS recurring_status TEXT;
+
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_recurring_status_check;
+ALTER TABLE expenses
+ADD CONSTRAINT expenses_recurring_status_check
+  CHECK (recurring_status IS NULL OR recurring_status IN ('pending', 'confirmed'));
+
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_recurring_status_check;
+ALTER TABLE sales
+ADD CONSTRAINT sales_recurring_status_check
+  CHECK (recurring_status IS NULL OR recurring_status IN ('pending', 'confirmed'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_recurring_rule_date
+  ON expenses(recurring_rule_id, date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_recurring_rule_date
+  ON sales(recurring_rule_id, date);
+
+-- 確認待ちの一覧（ダッシュボード）の検索用
+CREATE INDEX IF NOT EXISTS idx_expenses_recurring_pending
+  ON expenses(farm_id) WHERE recurring_status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_sales_recurring_pending
+  ON sales(farm_id) WHERE recurring_status = 'pending';
+
+-- =============================================================================
+-- ステップ3: 予定日の計算
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 「毎月31日」のように月末より後の日は、その月の末日（2月なら28日または29日）にする
+-- - 毎年の取引は month_of_year の月に作成する
+
+-- 指定した月（月初の日付）の予定日
+CREATE OR REPLACE FUNCTION recurring_date_in_month(month_start DATE, day_of_month INTEGER)
+RETURNS DATE AS $$
+  SELECT month_start + (
+    LEAST(
+      day_of_month,
+      EXTRACT(DAY FROM (month_start + INTERVAL '1 month - 1 day'))::INTEGER
+    ) - 1
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- from_date 以降で最初の予定日
+CREATE OR REPLACE FUNCTION first_recurring_date_on_or_after(
+  from_date DATE,
+  frequency TEXT,
+  day_of_month INTEGER,
+  month_of_year INTEGER
+)
+RETURNS DATE AS $$
+DECLARE
+  candidate DATE;
+BEGIN
+  IF frequency = 'yearly' THEN
+    candidate := recurring_date_in_month(
+      make_date(EXTRACT(YEAR FROM from_date)::INTEGER, month_of_year, 1),
+      day_of_month
+    );
+    IF candidate < from_date THEN
+      candidate := recurring_date_in_month(
+        make_date(EXTRACT(YEAR FROM from_date)::INTEGER + 1, month_of_year, 1),
+        day_of_month
+      );
+    END IF;
+  ELSE
+    candidate := recurring_date_in_month(date_trunc('month', from_date)::DATE, day_of_month);
+    IF candidate < from_date THEN
+      candidate := recurring_date_in_month(
+        (date_trunc('month', from_date) + INTERVAL '1 month')::DATE,
+        day_of_month
+      );
+    END IF;
+  END IF;
+
+  RETURN candidate;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 登録時・繰り返しの変更時に、次の予定日を設定する
+-- - 登録時: 開始日以降の最初の予定日（開始日が過去なら、過去の分も追いつき作成する）
+-- - 繰り返し・開始日の変更時: 今日以降の最初の予定日（作成済み・スキップ済みの分は作り直さない）
+-- - 一時停止からの再開時: 今日以降の最初の予定日（一時停止中の分は作成しない）
+CREATE OR REPLACE FUNCTION set_recurring_rule_next_run_date()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.next_run_date := first_recurring_date_on_or_after(
+      NEW.start_date, NEW.frequency, NEW.day_of_month, NEW.month_of_year
+    );
+  ELSIF (NEW.start_date, NEW.frequency, NEW.day_of_month, NEW.month_of_year)
+    IS DISTINCT FROM (OLD.start_date, OLD.frequency, OLD.day_of_month, OLD.month_of_year) THEN
+    NEW.next_run_date := first_recurring_date_on_or_after(
+      GREATEST(NEW.start_date, (NOW() AT TIME ZONE 'Asia/Tokyo')::DATE),
+      NEW.frequency,
+      NEW.day_of_month,
+      NEW.month_of_year
+    );
+  ELSIF NEW.is_active AND NOT OLD.is_active THEN
+    NEW.next_run_date := first_recurring_date_on_or_after(
+      GREATEST(NEW.next_run_date, (NOW() AT TIME ZONE 'Asia/Tokyo')::DATE),
+      NEW.frequency,
+      NEW.day_of_month,
+      NEW.month_of_year
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_recurring_rules_next_run_date ON recurring_rules;
+
+CREATE TRIGGER set_recurring_rules_next_run_date
+  BEFORE INSERT OR UPDATE ON recurring_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION set_recurring_rule_next_run_date();
+
+-- =============================================================================
+-- ステップ4: 予定日を過ぎた経費・売上を作成する関数
+-- =============================================================================
+--
+-- ビジネス上の流れ:
+-- 1. 有効なルールのうち、次の予定日が as_of（日本時間の今日）以前のものを取得
+-- 2. 予定日ごとに経費・売上を「確認待ち」で作成（終了日を過ぎた分は作らない）
+-- 3. 次の予定日を進める
+--
+-- 注意:
+-- - 同じルールを同時に処理しないよう行ロックを取り、処理中のルールは飛ばす
+-- - 長期間ログインがなかった場合に備え、1回に作成するのは1ルールあたり最大60件
+
+CREATE OR REPLACE FUNCTION materialize_recurring_entries(
+  target_farm_id UUID DEFAULT NULL,
+  as_of DATE DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  run_date DATE := COALESCE(as_of, (NOW() AT TIME ZONE 'Asia/Tokyo')::DATE);
+  rule recurring_rules%ROWTYPE;
+  occurrence DATE;
+  created_count INTEGER := 0;
+  rule_created_count INTEGER;
+  inserted_count INTEGER;
+BEGIN
+  FOR rule IN
+    SELECT * FROM recurring_rules
+    WHERE is_active
+      AND next_run_date <= run_date
+      AND (target_farm_id IS NULL OR farm_id = target_farm_id)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    occurrence := rule.next_run_date;
+    rule_created_count := 0;
+
+    WHILE occurrence <= run_date
+      AND (rule.end_date IS NULL OR occurrence <= rule.end_date)
+      AND rule_created_count < 60
+    LOOP
+      IF rule.kind = 'expense' THEN
+        INSERT INTO expenses (
+          farm_id, user_id, date, category, category_id, amount, tax_rate,
+          invoice_registration_number, description, recurring_rule_id, recurring_status
+        )
+        VALUES (
+          rule.farm_id, rule.user_id, occurrence,
+          -- 勘定科目の名前が変更されている場合は、変更後の名前にする
+          COALESCE(
+            (SELECT c.name FROM expense_categories c WHERE c.id = rule.category_id),
+            rule.category
+          ),
+          rule.category_id, rule.amount,
+          rule.tax_rate, rule.invoice_registration_number, rule.description, rule.id, 'pending'
+        )
+        ON CONFLICT (recurring_rule_id, date) DO NOTHING;
+      ELSE
+        INSERT INTO sales (
+          farm_id, user_id, date, crop_name, customer, amount, tax_rate,
+          description, recurring_rule_id, recurring_status
+        )
+        VALUES (
+          rule.farm_id, rule.user_id, occurrence, rule.crop_name, rule.customer, rule.amount,
+          rule.tax_rate, rule.description, rule.id, 'pending'
+        )
+        ON CONFLICT (recurring_rule_id, date) DO NOTHING;
+      END IF;
+
+      GET DIAGNOSTICS inserted_count = ROW_COUNT;
+      created_count := created_count + inserted_count;
+      rule_created_count := rule_created_count + 1;
+
+      occurrence := first_recurring_date_on_or_after(
+        occurrence + 1, rule.frequency, rule.day_of_month, rule.month_of_year
+      );
+    END LOOP;
+
+    UPDATE recurring_rules
+    SET next_run_date = occurrence
+    WHERE id = rule.id;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- すべての農場を対象にできるため、ユーザーからは呼び出せないようにする（定期実行用）
+REVOKE EXECUTE ON FUNCTION materialize_recurring_entries(UUID, DATE)
+  FROM PUBLIC, anon, authenticated;
+
+-- ログイン後の追いつき作成（現在の農場の分のみ。経費・売上を登録できる役割のみ）
+CREATE OR REPLACE FUNCTION catch_up_recurring_entries()
+RETURNS INTEGER AS $$
+BEGIN
+  IF NOT can_edit_current_farm() THEN
+    RETURN 0;
+  END IF;
+
+  RETURN materialize_recurring_entries(current_farm_id());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION catch_up_recurring_entries() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION catch_up_recurring_entries() TO authenticated;
+
+-- =============================================================================
+-- ステップ5: RLS（行レベルセキュリティ）の設定
+-- =============================================================================
+--
+-- 経費・売上と同じく、農場のメンバーは閲覧でき、オーナー・経理担当は登録・編集できる
+
+ALTER TABLE recurring_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Farm members can view" ON recurring_rules;
+CREATE POLICY "Farm members can view" ON recurring_rules
+  FOR SELECT USING (farm_id = (SELECT current_farm_id()));
+
+DROP POLICY IF EXISTS "Farm editors can insert" ON recurring_rules;
+CREATE POLICY "Farm editors can insert" ON recurring_rules
+  FOR INSERT WITH CHECK (
+    farm_id = (SELECT current_farm_id())
+    AND user_id = auth.uid()
+    AND (SELECT can_edit_current_farm())
+  );
+
+DROP POLICY IF EXISTS "Farm editors can update" ON recurring_rules;
+CREATE POLICY "Farm editors can update" ON recurring_rules
+  FOR UPDATE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()))
+  WITH CHECK (farm_id = (SELECT current_farm_id()));
+
+DROP POLICY IF EXISTS "Farm editors can delete" ON recurring_rules;
+CREATE POLICY "Farm editors can delete" ON recurring_rules
+  FOR DELETE USING (farm_id = (SELECT current_farm_id()) AND (SELECT can_edit_current_farm()));
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 設定画面で、毎月・毎年の定期的な取引（経費・売上）を登録できるようになる
+-- 2. 予定日を過ぎた取引が、定期実行またはログイン時に「確認待ち」の経費・売上として作成される
+-- 3. ダッシュボードで確認待ちの取引を確定・スキップできるようになる
+--
@@ -0,0 +1,90 @@
+-- =============================================================================
+-- AgriManagement Stripe Webhook イベント記録用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - Stripeから受信したWebhookイベントを記録し、同じイベントを二重に処理しないようにする
+-- - 順番が前後して届いた古いイベントで、新しいサブスクリプション状態を上書きしないようにする
+-- - 処理に失敗したイベントを、内容を保存したまま後から再処理（リプレイ）できるようにする
+--
+-- 前提条件:
+-- - stripe-schema.sql が実行済み（subscriptions テーブルが存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: stripe_events テーブルの作成
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 受信したイベント1件につき1行を記録する（id は Stripe のイベントID）
+-- - status:
+--   'processing': 処理中
+--   'processed': 処理済み
+--   'ignored': 処理対象外のイベントタイプ
+--   'stale': より新しいイベントが反映済みのため、反映しなかった
+--   'failed': 処理に失敗（error に理由を記録。Stripeの再送またはリプレイで再処理する）
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  -- StripeのイベントID（例: evt_xxxxxxxxxx）
+  id TEXT PRIMARY KEY,
+
+  -- イベントタイプ（例: customer.subscription.updated）
+  type TEXT NOT NULL,
+
+  -- イベント全体（リプレイ時にこの内容で再処理する）
+  payload JSONB NOT NULL,
+
+  -- Stripe側でイベントが作成された日時（古いイベントの判定に使用）
+  stripe_created_at TIMESTAMPTZ NOT NULL,
+
+  -- 処理状態
+  status TEXT NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'processed', 'ignored', 'stale', 'failed')),
+
+  -- 失敗時のエラーメッセージ
+  error TEXT,
+
+  -- 処理を試みた回数
+  attempts INTEGER NOT NULL DEFAULT 1,
+
+  -- 受信日時・処理完了日時・更新日時
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 失敗したイベントの一覧取得（リプレイ）用
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status
+  ON stripe_events(status, stripe_created_at);
+
+-- =============================================================================
+-- ステップ2: stripe_events テーブルのセキュリティ設定
+-- =============================================================================
+--
+-- Webhook・リプレイの処理（service_role）からのみ読み書きする
+-- ポリシーを作成しないことで、ブラウザ（anon / authenticated）からは一切アクセスできない
+
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- =============================================================================
+-- ステップ3: subscriptions テーブルに最後に反映したイベントの日時を追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - 届いたイベントの作成日時がこの日時より古い場合は、反映せずに 'stale' とする
+--   （例: 解約のイベントの後に、それより前のプラン変更のイベントが届いた場合）
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS stripe_event_created_at TIMESTAMPTZ;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 同じWebhookイベントが再送されても、二重に処理されなくなる
+-- 2. 順番が前後して届いた古いイベントで、サブスクリプションが古い状態に戻らなくなる
+-- 3. 失敗したイベントを /api/stripe/events/replay から再処理できるようになる
+--
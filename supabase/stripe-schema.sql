@@ -39,13 +39,10 @@ CREATE TABLE IF NOT EXISTS subscriptions (
   -- 契約の更新・解約処理に使用
   stripe_subscription_id TEXT,
   
-  -- プランの種類
-  -- 'free': 無料プラン（デフォルト）
-  -- 'standard': スタンダードプラン（¥2,980/月）
-  -- 'premium': プレミアムプラン（¥4,980/月）
-  -- 'pro_yearly': 年額プロプラン（¥35,760/年）
-  plan_type TEXT NOT NULL DEFAULT 'free'
-    CHECK (plan_type IN ('free', 'standard', 'premium', 'pro_yearly')),
+  -- プランの種類（'free' がデフォルト）
+  -- 選べるプランはプランカタログ（lib/plans.ts）で定義し、アプリ側で検証する
+  -- （プランを追加してもマイグレーションが不要になるよう、CHECK制約は設けない）
+  plan_type TEXT NOT NULL DEFAULT 'free',
   
   -- サブスクリプションの状態
   -- 'active': 有効（正常に支払いが完了している）
@@ -96,7 +93,8 @@ CREATE TABLE IF NOT EXISTS usage_tracking (
   -- 無料プラン上限: 10回/月
   ai_assistant_count INTEGER DEFAULT 0,
   
-  -- 集計期間の開始日（その月の1日）
+  -- 集計期間の開始日（日本時間の日付）
+  -- 無料プランはその月の1日、有料プランはStripeの請求期間の開始日（lib/subscription.ts の getUsagePeriod）
   -- 例: 2024-01-01 は2024年1月の使用量
   period_start DATE NOT NULL,
   
@@ -0,0 +1,56 @@
+-- =============================================================================
+-- AgriManagement 青色申告決算書（農業所得用）連携用データベーススキーマ
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - ユーザーが登録した勘定科目を、青色申告決算書の経費欄（種苗費、肥料費など）に対応付ける
+-- - 対応付けは設定画面から科目ごとに変更できる
+--
+-- 前提条件:
+-- - settings-schema.sql が実行済み（expense_categories テーブルが存在する）
+-- - aggregation-schema.sql が実行済み（決算書の集計に get_financial_summary を使用）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: expense_categories テーブルに tax_form_line カラムを追加
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - この勘定科目の金額を、決算書のどの経費欄に計上するかを表す
+-- - NULL の場合はアプリ側の既定の対応表（科目名から推定）を使用する
+-- - 値の一覧は lib/taxReturn.ts の TAX_FORM_EXPENSE_LINES と一致させる
+
+ALTER TABLE expense_categories
+ADD COLUMN IF NOT EXISTS tax_form_line TEXT CHECK (
+  tax_form_line IN (
+    'taxes',             -- 租税公課
+    'seeds',             -- 種苗費
+    'livestock',         -- 素畜費
+    'fertilizer',        -- 肥料費
+    'feed',              -- 飼料費
+    'farm_tools',        -- 農具費
+    'pesticides',        -- 農薬衛生費
+    'materials',         -- 諸材料費
+    'repairs',           -- 修繕費
+    'utilities',         -- 動力光熱費
+    'work_clothing',     -- 作業用衣料費
+    'mutual_aid',        -- 農業共済掛金
+    'depreciation',      -- 減価償却費
+    'packing_shipping',  -- 荷造運賃手数料
+    'wages',             -- 雇人費
+    'interest',          -- 利子割引料
+    'rent',              -- 地代・賃借料
+    'land_improvement',  -- 土地改良費
+    'miscellaneous'      -- 雑費
+  )
+);
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. expense_categories テーブルに tax_form_line カラムが追加される
+-- 2. 設定画面の「決算書の科目対応」から、科目ごとに決算書の経費欄を選べるようになる
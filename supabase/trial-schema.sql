@@ -0,0 +1,40 @@
+-- =============================================================================
+-- AgriManagement 無料体験（トライアル）用スキーマ変更
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 有料プランの無料体験の終了日を保存し、設定画面で終了前にお知らせできるようにする
+-- - 無料体験を1ユーザー1回までに制限する
+--
+-- 前提条件:
+-- - stripe-schema.sql が実行済み（subscriptions テーブルが存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: subscriptions テーブルに無料体験のカラムを追加
+-- =============================================================================
+--
+-- trial_end:
+-- - Stripeのサブスクリプションの trial_end（無料体験の終了日時）
+-- - 無料体験なしの場合は NULL
+--
+-- trial_used:
+-- - 無料体験を一度でも始めたら true（Webhookで 'trialing' を受信した時に記録）
+-- - true のユーザーが再度申し込んだ場合、Checkoutで無料体験を付けない
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS trial_end TIMESTAMPTZ;
+
+ALTER TABLE subscriptions
+ADD COLUMN IF NOT EXISTS trial_used BOOLEAN NOT NULL DEFAULT false;
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 有料プランの初回申し込み時に、プランごとの日数の無料体験が付くようになる
+-- 2. 設定画面に無料体験の終了日が表示されるようになる
+--
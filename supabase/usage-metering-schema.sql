@@ -0,0 +1,208 @@
+-- =============================================================================
+-- AgriManagement 使用回数カウント（OCR・エクスポート・AIアシスタント）用関数
+-- =============================================================================
+--
+-- このSQLはSupabaseのSQL Editorで実行してください。
+--
+-- 目的:
+-- - 使用回数の「レコード作成」「上限の確認」「カウントアップ」を1つのトランザクションで行い、
+--   同時に使用しても回数が数え漏れたり、上限を超えて使用できたりしないようにする
+-- - OpenAIの呼び出しに失敗した場合に、予約した1回分を返却できるようにする
+-- - 使用回数はこれらの関数経由でのみ更新できるようにする（ブラウザからの直接更新を禁止）
+--
+-- 使用回数の流れ（/api/ocr・/api/ai-assistant・/api/export）:
+-- 1. reserve_usage で上限を確認しつつ1回分を予約（= カウントアップ）
+-- 2. OCR・AIの処理を実行
+-- 3. 失敗した場合のみ refund_usage で1回分を返却
+--
+-- 前提条件:
+-- - stripe-schema.sql が実行済み（usage_tracking テーブルが存在する）
+--
+-- =============================================================================
+
+-- =============================================================================
+-- ステップ1: 機能名から usage_tracking のカラム名を取得する関数
+-- =============================================================================
+--
+-- 機能名: ocr / export / ai_assistant（lib/stripe.ts の UsageFeature と対応）
+
+CREATE OR REPLACE FUNCTION get_usage_count_column(usage_feature TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  IF usage_feature NOT IN ('ocr', 'export', 'ai_assistant') THEN
+    RAISE EXCEPTION '不明な機能タイプ: %', usage_feature;
+  END IF;
+  RETURN usage_feature || '_count';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- =============================================================================
+-- ステップ2: 上限を確認して1回分を予約する関数
+-- =============================================================================
+--
+-- 引数:
+-- - target_period_start: 集計期間の開始日
+-- - usage_feature: 機能名
+-- - usage_limit: 上限回数（NULL は無制限。有料プランでも回数は記録する）
+--
+-- 戻り値 JSONB:
+-- - allowed: 上限内で予約できたら true、上限に達していたら false
+-- - count: 予約後（許可されなかった場合は現在）の使用回数
+--
+-- 同時実行への対応:
+-- - その期間のレコードがなければ ON CONFLICT で重複なく作成する
+-- - UPDATE は行ロックを取るため、同時に呼ばれても1件ずつ順に上限を確認して加算される
+--
+-- セキュリティ:
+-- - 利用者は usage_tracking を直接更新できないため SECURITY DEFINER で実行し、
+--   auth.uid()（呼び出したユーザー）のレコードだけを更新する
+-- - 回数を増やす操作のみのため、ログインユーザーに実行を許可する
+
+CREATE OR REPLACE FUNCTION reserve_usage(
+  target_period_start DATE,
+  usage_feature TEXT,
+  usage_limit INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  count_column TEXT := get_usage_count_column(usage_feature);
+  new_count INTEGER;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'ログインが必要です';
+  END IF;
+
+  -- その期間の使用量レコードがなければ作成（同時に作成されても1件になる）
+  INSERT INTO usage_tracking (user_id, period_start)
+  VALUES (current_user_id, target_period_start)
+  ON CONFLICT (user_id, period_start) DO NOTHING;
+
+  -- 上限内の場合のみ1増やす
+  EXECUTE format(
+    'UPDATE usage_tracking SET %1$I = COALESCE(%1$I, 0) + 1
+     WHERE user_id = $1 AND period_start = $2 AND ($3::INTEGER IS NULL OR COALESCE(%1$I, 0) < $3)
+     RETURNING %1$I',
+    count_column
+  )
+  INTO new_count
+  USING current_user_id, target_period_start, usage_limit;
+
+  IF new_count IS NOT NULL THEN
+    RETURN jsonb_build_object('allowed', true, 'count', new_count);
+  END IF;
+
+  -- 上限に達していた場合は、現在の回数を返す
+  EXECUTE format(
+    'SELECT COALESCE(%1$I, 0) FROM usage_tracking WHERE user_id = $1 AND period_start = $2',
+    count_column
+  )
+  INTO new_count
+  USING current_user_id, target_period_start;
+
+  RETURN jsonb_build_object('allowed', false, 'count', new_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reserve_usage(DATE, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reserve_usage(DATE, TEXT, INTEGER) TO authenticated;
+
+-- =============================================================================
+-- ステップ3: 上限を確認せずに1増やす関数
+-- =============================================================================
+--
+-- 戻り値: カウントアップ後の使用回数
+--
+-- 上限を確認しない記録用（上限の確認が必要な場合は reserve_usage を使う）
+
+CREATE OR REPLACE FUNCTION increment_usage(target_period_start DATE, usage_feature TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  count_column TEXT := get_usage_count_column(usage_feature);
+  new_count INTEGER;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'ログインが必要です';
+  END IF;
+
+  -- レコードの作成とカウントアップを1文で行う（INSERT ... ON CONFLICT DO UPDATE）
+  EXECUTE format(
+    'INSERT INTO usage_tracking (user_id, period_start, %1$I) VALUES ($1, $2, 1)
+     ON CONFLICT (user_id, period_start)
+     DO UPDATE SET %1$I = COALESCE(usage_tracking.%1$I, 0) + 1
+     RETURNING %1$I',
+    count_column
+  )
+  INTO new_count
+  USING current_user_id, target_period_start;
+
+  RETURN new_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION increment_usage(DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION increment_usage(DATE, TEXT) TO authenticated;
+
+-- =============================================================================
+-- ステップ4: 予約した1回分を返却する関数
+-- =============================================================================
+--
+-- 引数:
+-- - target_user_id: 返却するユーザーのID
+-- - target_period_start: 予約した期間の開始日（予約後に月が替わっても、予約した期間に返却する）
+-- - usage_feature: 機能名
+--
+-- 戻り値: 返却後の使用回数
+--
+-- セキュリティ:
+-- - 利用者が自分で回数を減らせないよう、service_role（APIルートのサーバー処理）からのみ実行できる
+
+CREATE OR REPLACE FUNCTION refund_usage(
+  target_user_id UUID,
+  target_period_start DATE,
+  usage_feature TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  count_column TEXT := get_usage_count_column(usage_feature);
+  new_count INTEGER;
+BEGIN
+  EXECUTE format(
+    'UPDATE usage_tracking SET %1$I = GREATEST(COALESCE(%1$I, 0) - 1, 0)
+     WHERE user_id = $1 AND period_start = $2
+     RETURNING %1$I',
+    count_column
+  )
+  INTO new_count
+  USING target_user_id, target_period_start;
+
+  RETURN COALESCE(new_count, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refund_usage(UUID, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refund_usage(UUID, DATE, TEXT) TO service_role;
+
+-- =============================================================================
+-- ステップ5: usage_tracking の直接更新を禁止
+-- =============================================================================
+--
+-- ビジネス上の役割:
+-- - ブラウザから使用回数を書き換えて、無料プランの上限を回避できないようにする
+-- - 閲覧（設定画面の使用状況表示）は引き続き許可する
+
+DROP POLICY IF EXISTS "Users can insert own usage" ON usage_tracking;
+DROP POLICY IF EXISTS "Users can update own usage" ON usage_tracking;
+
+-- 以前のエクスポート専用関数（consume_export_usage）は reserve_usage に置き換えたため削除
+DROP FUNCTION IF EXISTS consume_export_usage(DATE, INTEGER);
+
+-- =============================================================================
+-- 完了メッセージ
+-- =============================================================================
+-- このSQLの実行が成功すると:
+-- 1. 同時に使用しても、使用回数が数え漏れたり上限を超えたりしなくなる
+-- 2. OCR・AIアシスタントの処理に失敗した場合、予約した回数が返却される
+-- 3. 使用回数はブラウザから直接書き換えられなくなる
+--